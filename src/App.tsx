@@ -1,5 +1,5 @@
 import { useEffect } from 'react';
-import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
+import { BrowserRouter, Routes, Route, Navigate, useLocation } from 'react-router-dom';
 import { useAuthStore } from '@/store/auth';
 import { Navbar } from '@/components/ui/Navbar';
 import { Footer } from '@/components/ui/Footer';
@@ -12,6 +12,7 @@ import Login from '@/pages/auth/Login';
 import SignUp from '@/pages/auth/SignUp';
 import ForgotPassword from '@/pages/auth/ForgotPassword';
 import RoleSelection from '@/pages/auth/RoleSelection';
+import Join from '@/pages/auth/Join';
 
 // Main pages
 import Home from '@/pages/home';
@@ -20,7 +21,9 @@ import About from '@/pages/about';
 // Dashboard pages
 import SchoolAdmin from '@/pages/admin/SchoolAdmin';
 import CoachDashboard from '@/pages/coach/CoachDashboard';
+import PracticePlanPrint from '@/pages/coach/PracticePlanPrint';
 import AthleteDashboard from '@/pages/athlete/AthleteDashboard';
+import SportDashboard from '@/pages/sports/SportDashboard';
 
 // Settings pages
 import AdminSettings from '@/pages/admin/Settings';
@@ -72,6 +75,22 @@ const ProtectedRoute = ({ children, requiredRole }: ProtectedRouteProps) => {
   return <>{children}</>;
 };
 
+// Sends signed-in users away from login, back to a pending join link
+const LoginRoute = ({ dashboardPath }: { dashboardPath: string }) => {
+  const { user } = useAuthStore();
+  const location = useLocation();
+
+  if (!user) return <Login />;
+
+  const code = new URLSearchParams(location.search).get('code');
+  return (
+    <Navigate
+      to={code ? `/join${location.search}` : dashboardPath}
+      replace
+    />
+  );
+};
+
 const MainLayout = ({ children }: { children: React.ReactNode }) => (
   <>
     <Navbar />
@@ -145,9 +164,7 @@ export default function App() {
             {/* Auth Routes - Redirect if already authenticated */}
             <Route 
               path="/login" 
-              element={
-                user ? <Navigate to={getDashboardRedirect()} replace /> : <Login />
-              }
+              element={<LoginRoute dashboardPath={getDashboardRedirect()} />}
             />
             <Route 
               path="/signup" 
@@ -162,6 +179,9 @@ export default function App() {
               }
             />
             
+            {/* Join link - previews the code, then sign up, sign in or join */}
+            <Route path="/join" element={<Join />} />
+
             {/* Auth Routes - Protected */}
             <Route 
               path="/roleselection" 
@@ -207,6 +227,14 @@ export default function App() {
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/coach/practice-plans/:planId/print"
+              element={
+                <ProtectedRoute requiredRole="coach">
+                  <PracticePlanPrint />
+                </ProtectedRoute>
+              }
+            />
 
             {/* Athlete Routes */}
             <Route
@@ -226,6 +254,9 @@ export default function App() {
               }
             />
 
+            {/* Sport dashboards - public hero, team data once signed in */}
+            <Route path="/sports/:sport" element={<SportDashboard />} />
+
             {/* Catch-all route - redirect to home */}
             <Route path="*" element={<Navigate to="/" replace />} />
           </Routes>
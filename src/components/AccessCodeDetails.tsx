@@ -0,0 +1,44 @@
+import { Trophy } from 'lucide-react';
+import type { AccessCodePreview } from '@/lib/access-codes';
+import { formatDate } from '@/lib/utils';
+
+const ROLE_LABELS = {
+  admin: 'Administrator',
+  coach: 'Coach',
+  athlete: 'Athlete'
+} as const;
+
+interface AccessCodeDetailsProps {
+  preview: AccessCodePreview;
+}
+
+export function AccessCodeDetails({ preview }: AccessCodeDetailsProps) {
+  const rows = [
+    { label: 'Joining as', value: ROLE_LABELS[preview.role] },
+    { label: 'Sport', value: preview.sport_name },
+    {
+      label: 'Team',
+      value: preview.team_name ?? (preview.gender && (preview.gender === 'male' ? "Men's" : "Women's"))
+    },
+    { label: 'Coach', value: preview.coach_name },
+    { label: 'Organization', value: preview.organization_name },
+    { label: 'Expires', value: preview.expires_at && formatDate(preview.expires_at) }
+  ].filter(row => row.value);
+
+  return (
+    <div className="p-4 rounded-lg bg-blue-500/10 border border-blue-500/20">
+      <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+        <Trophy className="h-5 w-5 text-blue-400" />
+        Team Details
+      </h3>
+      <div className="space-y-3 text-gray-300">
+        {rows.map(row => (
+          <div key={row.label} className="flex justify-between items-center">
+            <span className="text-gray-400">{row.label}</span>
+            <span className="font-medium text-white">{row.value}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
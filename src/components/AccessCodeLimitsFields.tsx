@@ -0,0 +1,51 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { EXPIRY_OPTIONS, type ExpiryOption } from '@/lib/access-codes';
+
+interface AccessCodeLimitsFieldsProps {
+  expiry: ExpiryOption;
+  maxUses: string;
+  onExpiryChange: (value: ExpiryOption) => void;
+  onMaxUsesChange: (value: string) => void;
+}
+
+export function AccessCodeLimitsFields({
+  expiry,
+  maxUses,
+  onExpiryChange,
+  onMaxUsesChange
+}: AccessCodeLimitsFieldsProps) {
+  return (
+    <div className="grid gap-4 sm:grid-cols-2">
+      <div className="space-y-2">
+        <Label className="text-gray-400">Expires</Label>
+        <Select value={expiry} onValueChange={(value: ExpiryOption) => onExpiryChange(value)}>
+          <SelectTrigger className="bg-blue-500/5 border-blue-500/20 text-white">
+            <SelectValue placeholder="Select expiry" />
+          </SelectTrigger>
+          <SelectContent>
+            {EXPIRY_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="maxUses" className="text-gray-400">Max uses</Label>
+        <Input
+          id="maxUses"
+          type="number"
+          min={1}
+          placeholder="Unlimited"
+          value={maxUses}
+          onChange={(e) => onMaxUsesChange(e.target.value)}
+          className="bg-blue-500/5 border-blue-500/20 text-white placeholder:text-gray-400"
+        />
+      </div>
+    </div>
+  );
+}
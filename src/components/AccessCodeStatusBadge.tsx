@@ -0,0 +1,26 @@
+import { CheckCircle2, Clock, Ban, CircleDot } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { AccessCodeStatus } from '@/lib/access-codes';
+
+const STATUS_STYLES = {
+  available: { label: 'Available', icon: CircleDot, className: 'text-blue-400' },
+  used: { label: 'Used', icon: CheckCircle2, className: 'text-emerald-400' },
+  expired: { label: 'Expired', icon: Clock, className: 'text-amber-400' },
+  revoked: { label: 'Revoked', icon: Ban, className: 'text-red-400' }
+} as const;
+
+interface AccessCodeStatusBadgeProps {
+  status: AccessCodeStatus;
+  className?: string;
+}
+
+export function AccessCodeStatusBadge({ status, className }: AccessCodeStatusBadgeProps) {
+  const { label, icon: Icon, className: statusClassName } = STATUS_STYLES[status];
+
+  return (
+    <span className={cn('flex items-center gap-1 text-xs', statusClassName, className)}>
+      <Icon className="h-3 w-3" />
+      {label}
+    </span>
+  );
+}
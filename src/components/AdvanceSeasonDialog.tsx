@@ -0,0 +1,199 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { useToast } from '@/components/ui/use-toast';
+import {
+  advanceSeason,
+  createSeason,
+  getNextSeasonDefaults,
+  type Season
+} from '@/lib/seasons';
+import { getErrorMessage } from '@/lib/utils';
+
+const NEW_SEASON = 'new';
+
+interface AdvanceSeasonDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Seasons the user may advance from
+  seasons: Season[];
+  defaultSeasonId?: string | null;
+  onAdvanced: (season: { id: string; name: string }) => void;
+}
+
+function describeSeason(season: Season) {
+  return `${season.sport_name} ${season.name}`;
+}
+
+export function AdvanceSeasonDialog({
+  open,
+  onOpenChange,
+  seasons,
+  defaultSeasonId = null,
+  onAdvanced
+}: AdvanceSeasonDialogProps) {
+  const [fromId, setFromId] = useState('');
+  const [toId, setToId] = useState(NEW_SEASON);
+  const [name, setName] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  // Until the user picks one, start from the default season
+  const from = seasons.find(season => season.id === (fromId || defaultSeasonId)) ?? seasons[0] ?? null;
+  const laterSeasons = from
+    ? seasons.filter(season => season.sport_id === from.sport_id && season.start_date > from.start_date)
+    : [];
+
+  // Suggest the following season whenever the starting season changes
+  useEffect(() => {
+    if (!from) return;
+    const next = getNextSeasonDefaults(from);
+    setToId(NEW_SEASON);
+    setName(next.name);
+    setStartDate(next.startDate);
+    setEndDate(next.endDate);
+  }, [from]);
+
+  if (!open) return null;
+
+  const close = () => {
+    setFromId('');
+    onOpenChange(false);
+  };
+
+  const handleAdvance = async () => {
+    if (!from) return;
+
+    setSaving(true);
+    try {
+      const target = toId === NEW_SEASON
+        ? {
+            id: await createSeason({ sportId: from.sport_id, name, startDate, endDate }),
+            name: name.trim()
+          }
+        : laterSeasons.find(season => season.id === toId)!;
+
+      const result = await advanceSeason(from.id, target.id);
+      toast({
+        title: "Season advanced",
+        description: `${result.teams} teams and ${result.athletes} returning athletes moved to ${target.name}` +
+          (result.graduated ? `; ${result.graduated} graduates left on ${from.name}` : '')
+      });
+      close();
+      onAdvanced({ id: target.id, name: target.name });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error),
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={close}>
+      <DialogContent className="bg-gray-900 border border-blue-500/20 text-white">
+        <DialogHeader>
+          <DialogTitle>Advance to Next Season</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <p className="text-sm text-gray-400">
+            Teams, coaches and returning athletes are copied into the next season with their
+            roster details. Athletes graduating by the end of the current season stay behind.
+          </p>
+
+          <div className="space-y-2">
+            <Label className="text-gray-400">From</Label>
+            <Select value={from?.id ?? ''} onValueChange={setFromId}>
+              <SelectTrigger className="bg-blue-500/5 border-blue-500/20 text-white">
+                <SelectValue placeholder="Select season" />
+              </SelectTrigger>
+              <SelectContent>
+                {seasons.map((season) => (
+                  <SelectItem key={season.id} value={season.id}>
+                    {describeSeason(season)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-gray-400">Into</Label>
+            <Select value={toId} onValueChange={setToId} disabled={!from}>
+              <SelectTrigger className="bg-blue-500/5 border-blue-500/20 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NEW_SEASON}>New season</SelectItem>
+                {laterSeasons.map((season) => (
+                  <SelectItem key={season.id} value={season.id}>
+                    {season.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {toId === NEW_SEASON && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="season-name" className="text-gray-400">Name</Label>
+                <Input
+                  id="season-name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  className="bg-blue-500/5 border-blue-500/20 text-white"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="season-start" className="text-gray-400">Starts</Label>
+                  <Input
+                    id="season-start"
+                    type="date"
+                    value={startDate}
+                    onChange={(e) => setStartDate(e.target.value)}
+                    className="bg-blue-500/5 border-blue-500/20 text-white"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="season-end" className="text-gray-400">Ends</Label>
+                  <Input
+                    id="season-end"
+                    type="date"
+                    value={endDate}
+                    onChange={(e) => setEndDate(e.target.value)}
+                    className="bg-blue-500/5 border-blue-500/20 text-white"
+                  />
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={close} disabled={saving}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleAdvance}
+            disabled={saving || !from || (toId === NEW_SEASON && !name.trim())}
+            className="bg-blue-500 hover:bg-blue-600 text-white"
+          >
+            {saving ? <LoadingSpinner size="sm" /> : 'Advance'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,146 @@
+import { useState } from 'react';
+import { Plus, Target, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { useToast } from '@/components/ui/use-toast';
+import { ConfirmationDialog } from '@/components/ui/confirmation-dialog';
+import { GoalDialog } from '@/components/GoalDialog';
+import { GoalProgressBar } from '@/components/GoalProgressBar';
+import { useConfirmation } from '@/hooks/useConfirmation';
+import { useGoals } from '@/hooks/useGoals';
+import { deleteGoal, formatGoalTitle, getGoalProgress, type Goal } from '@/lib/goals';
+import type { MetricLookup, RecordMark } from '@/lib/records';
+import type { Team } from '@/lib/teams';
+import { formatDate, getErrorMessage } from '@/lib/utils';
+
+// Due dates are plain dates, so format them without a timezone shift
+const DUE_DATE_FORMAT: Intl.DateTimeFormatOptions = {
+  month: 'short',
+  day: 'numeric',
+  year: 'numeric',
+  timeZone: 'UTC'
+};
+
+interface AthleteGoalsProps {
+  athleteId: string;
+  // Teams new goals can be set on
+  teams: Team[];
+  // Every team the athlete has been on, for goals and marks
+  allTeams: Team[];
+  marks: RecordMark[];
+  getMetric: MetricLookup;
+}
+
+// An athlete's own goals and the ones coaches set for them or their teams
+export function AthleteGoals({ athleteId, teams, allTeams, marks, getMetric }: AthleteGoalsProps) {
+  const { goals, loading, refresh } = useGoals(allTeams.map(team => team.id));
+  const [showNewGoal, setShowNewGoal] = useState(false);
+  const { toast } = useToast();
+  const deleteConfirmation = useConfirmation({
+    title: 'Delete Goal',
+    message: 'This goal will be removed. Your recorded marks are kept.',
+    confirmText: 'Delete'
+  });
+  const teamNames = new Map(allTeams.map(team => [team.id, team.name]));
+
+  const handleDelete = async (goal: Goal) => {
+    if (!(await deleteConfirmation.confirm())) return;
+
+    try {
+      await deleteGoal(goal.id);
+      await refresh();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error),
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Card className="bg-gray-900/50 backdrop-blur-sm border border-white/10">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div className="flex items-center space-x-2">
+          <Target className="w-6 h-6 text-blue-400" />
+          <CardTitle className="text-white">My Goals</CardTitle>
+        </div>
+        {teams.length > 0 && (
+          <Button
+            size="sm"
+            onClick={() => setShowNewGoal(true)}
+            className="bg-blue-500 hover:bg-blue-600 text-white"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            New Goal
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner size="lg" />
+          </div>
+        ) : goals.length === 0 ? (
+          <p className="text-center text-gray-400 py-8">No goals yet</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {goals.map((goal) => {
+              const progress = getGoalProgress(goal, athleteId, marks, getMetric);
+              if (!progress) return null;
+
+              return (
+                <div
+                  key={goal.id}
+                  className="group p-3 rounded-lg bg-blue-500/5 border border-blue-500/10 space-y-3"
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="text-white text-sm font-medium truncate">
+                        {formatGoalTitle(goal, progress.metric)}
+                      </p>
+                      <p className="text-xs text-gray-400 truncate">
+                        {[
+                          teamNames.get(goal.team_id),
+                          goal.created_by !== athleteId && (goal.athlete_id ? 'Set by your coach' : 'Team goal'),
+                          `Due ${formatDate(goal.due_on, DUE_DATE_FORMAT)}`
+                        ].filter(Boolean).join(' • ')}
+                      </p>
+                    </div>
+                    {goal.created_by === athleteId && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDelete(goal)}
+                        className="opacity-0 group-hover:opacity-100 text-red-400 hover:bg-red-500/10"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+                  <GoalProgressBar progress={progress} target={goal.target} />
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <GoalDialog
+        open={showNewGoal}
+        onOpenChange={setShowNewGoal}
+        teams={teams}
+        athleteId={athleteId}
+        onCreated={refresh}
+      />
+
+      <ConfirmationDialog
+        open={deleteConfirmation.isOpen}
+        onConfirm={deleteConfirmation.handleConfirm}
+        onCancel={deleteConfirmation.handleCancel}
+        {...deleteConfirmation.options}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,119 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Trophy } from 'lucide-react';
+import { TestTrendChart } from '@/components/TestTrendChart';
+import {
+  fetchOrganizationMarks,
+  formatTestValue,
+  getAthleteHistory,
+  getBestMark,
+  getBestMarks,
+  getPercentile,
+  getTestDefinition,
+  type TestHistory
+} from '@/lib/performance-tests';
+import type { MetricDefinition } from '@/lib/sport-definitions';
+import { formatOrdinal } from '@/lib/utils';
+
+interface AthleteTestingProfileProps {
+  athleteId: string;
+  // The team's test library
+  tests: MetricDefinition[];
+  // Marks for at least the athlete and their teammates
+  history: TestHistory;
+  teammateIds: string[];
+}
+
+// Trend, best mark and percentiles for every test an athlete has a mark in
+export function AthleteTestingProfile({ athleteId, tests, history, teammateIds }: AthleteTestingProfileProps) {
+  const [organizationMarks, setOrganizationMarks] = useState<Record<string, number[]>>({});
+
+  const testedKeys = useMemo(() => {
+    const keys = new Set(
+      history.results.filter(result => result.athlete_id === athleteId).map(result => result.test_key)
+    );
+    // Library order, then anything no longer in the library
+    return [
+      ...tests.filter(test => keys.has(test.key)).map(test => test.key),
+      ...[...keys].filter(key => !tests.some(test => test.key === key))
+    ];
+  }, [athleteId, tests, history]);
+  const testedKeyList = testedKeys.join(',');
+
+  useEffect(() => {
+    let cancelled = false;
+    const keys = testedKeyList ? testedKeyList.split(',') : [];
+
+    Promise.all(keys.map(async key => [key, await fetchOrganizationMarks(getTestDefinition(tests, key))] as const))
+      .then(entries => {
+        if (!cancelled) setOrganizationMarks(Object.fromEntries(entries));
+      })
+      .catch(error => console.error('Error loading organization marks:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [testedKeyList, tests]);
+
+  const teammates = useMemo(() => new Set(teammateIds), [teammateIds]);
+
+  if (testedKeys.length === 0) {
+    return <p className="text-center text-gray-400 py-8">No test results recorded yet</p>;
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+      {testedKeys.map((key) => {
+        const test = getTestDefinition(tests, key);
+        const marks = getAthleteHistory(test, athleteId, history);
+        const best = getBestMark(test, marks.map(mark => mark.value)) as number;
+        const latest = marks[marks.length - 1];
+        const teamMarks = [
+          ...getBestMarks(test, history.results.filter(result => teammates.has(result.athlete_id))).values()
+        ];
+        const teamPercentile = getPercentile(test, best, teamMarks);
+        const organizationPercentile = organizationMarks[key]
+          ? getPercentile(test, best, organizationMarks[key])
+          : null;
+        const recordCount = marks.filter(mark => mark.isPersonalRecord).length;
+
+        return (
+          <div key={key} className="p-4 rounded-lg bg-blue-500/5 border border-blue-500/10 space-y-3">
+            <div className="flex items-start justify-between gap-2">
+              <div>
+                <p className="text-white font-medium">{test.label}</p>
+                <p className="text-xs text-gray-400">
+                  Latest {formatTestValue(test, latest.value)}
+                  {recordCount > 0 && ` • ${recordCount} ${recordCount === 1 ? 'PR' : 'PRs'}`}
+                </p>
+              </div>
+              <div className="text-right">
+                <p className="text-lg font-bold text-white flex items-center gap-1 justify-end">
+                  <Trophy className="w-4 h-4 text-yellow-400" />
+                  {formatTestValue(test, best)}
+                </p>
+                <p className="text-xs text-gray-400">Best</p>
+              </div>
+            </div>
+
+            <TestTrendChart test={test} marks={marks} />
+
+            <div className="grid grid-cols-2 gap-2 text-center">
+              <div className="rounded-md bg-gray-800/50 py-2">
+                <p className="text-white font-medium">
+                  {teamPercentile === null ? '—' : formatOrdinal(teamPercentile)}
+                </p>
+                <p className="text-xs text-gray-400">Team percentile</p>
+              </div>
+              <div className="rounded-md bg-gray-800/50 py-2">
+                <p className="text-white font-medium">
+                  {organizationPercentile === null ? '—' : formatOrdinal(organizationPercentile)}
+                </p>
+                <p className="text-xs text-gray-400">Organization percentile</p>
+              </div>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,264 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Sheet, SheetContent, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Button } from '@/components/ui/button';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { CheckCheck, Save, X } from 'lucide-react';
+import {
+  ATTENDANCE_STATUSES,
+  fetchEventAttendance,
+  getAttendanceStatus,
+  getNextAttendanceStatus,
+  saveAttendance,
+  type AttendanceStatus
+} from '@/lib/attendance';
+import { fetchTeamEvents, getEventTitle, type TeamEvent } from '@/lib/events';
+import { addDays } from '@/lib/calendar';
+import type { SportDefinition } from '@/lib/sport-definitions';
+import type { Team, TeamMember } from '@/lib/teams';
+import { cn, formatDate, formatTime, getErrorMessage } from '@/lib/utils';
+
+// Events offered in the sheet: the last two weeks through tomorrow
+const RECENT_DAYS = 14;
+
+type Marks = Record<string, AttendanceStatus | null>;
+
+interface AttendanceSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  team: Team;
+  sport: SportDefinition | null;
+  // Athletes in roster order
+  athletes: TeamMember[];
+  onSaved?: () => void;
+}
+
+function describeEvent(event: TeamEvent, sport: SportDefinition | null) {
+  return `${formatDate(event.starts_at, { weekday: 'short', month: 'short', day: 'numeric' })} ${formatTime(event.starts_at)} • ${getEventTitle(event, sport)}`;
+}
+
+// Roster sheet for taking attendance: tap an athlete to step through the
+// statuses, then save the changes in one go
+export function AttendanceSheet({ open, onOpenChange, team, sport, athletes, onSaved }: AttendanceSheetProps) {
+  const [events, setEvents] = useState<TeamEvent[]>([]);
+  const [eventId, setEventId] = useState<string | null>(null);
+  const [marks, setMarks] = useState<Marks>({});
+  const [saved, setSaved] = useState<Marks>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+
+    setLoading(true);
+    const now = new Date();
+    fetchTeamEvents([team.id], addDays(now, -RECENT_DAYS), addDays(now, 1))
+      .then((teamEvents) => {
+        const recent = [...teamEvents].reverse();
+        setEvents(recent);
+        // Default to the event happening now or the latest one that started
+        setEventId(recent.find(event => new Date(event.starts_at) <= now)?.id ?? recent[0]?.id ?? null);
+        if (recent.length === 0) setLoading(false);
+      })
+      .catch((error) => {
+        toast({
+          title: "Error",
+          description: getErrorMessage(error),
+          variant: "destructive"
+        });
+        setLoading(false);
+      });
+  }, [open, team.id, toast]);
+
+  const loadMarks = useCallback(async () => {
+    if (!eventId) {
+      setMarks({});
+      setSaved({});
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const current: Marks = {};
+      for (const record of await fetchEventAttendance(eventId)) {
+        current[record.athlete_id] = record.status;
+      }
+      setMarks(current);
+      setSaved(current);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error),
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [eventId, toast]);
+
+  useEffect(() => {
+    if (open) loadMarks();
+  }, [open, loadMarks]);
+
+  if (!open) return null;
+
+  const changed = athletes.filter(athlete => (marks[athlete.user_id] ?? null) !== (saved[athlete.user_id] ?? null));
+  const unmarked = athletes.filter(athlete => !marks[athlete.user_id]).length;
+
+  const handleTap = (athleteId: string) => {
+    setMarks({ ...marks, [athleteId]: getNextAttendanceStatus(marks[athleteId] ?? null) });
+  };
+
+  const handleMarkRemainingPresent = () => {
+    const next = { ...marks };
+    for (const athlete of athletes) {
+      if (!next[athlete.user_id]) next[athlete.user_id] = 'present';
+    }
+    setMarks(next);
+  };
+
+  const handleSave = async () => {
+    if (!eventId) return;
+
+    setSaving(true);
+    try {
+      await saveAttendance(eventId, changed.map(athlete => ({
+        athleteId: athlete.user_id,
+        status: marks[athlete.user_id] ?? null
+      })));
+      setSaved(marks);
+      toast({
+        title: "Attendance saved",
+        description: `${changed.length} ${changed.length === 1 ? 'athlete' : 'athletes'} updated`
+      });
+      onSaved?.();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error),
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange} className="bg-black/60">
+      <SheetContent
+        side="right"
+        className="w-full sm:max-w-md bg-gray-900/95 border-l border-white/10 text-white flex flex-col gap-4 overflow-y-auto"
+      >
+        <SheetHeader>
+          <div className="flex items-center justify-between">
+            <SheetTitle className="text-white">Take Attendance</SheetTitle>
+            <button onClick={() => onOpenChange(false)} aria-label="Close" className="text-gray-400 hover:text-white">
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+          <p className="text-sm text-gray-400">{team.name}</p>
+        </SheetHeader>
+
+        {events.length === 0 && !loading ? (
+          <p className="text-center text-gray-400 py-8">
+            No events in the last {RECENT_DAYS} days. Add practices and games on the Schedule page.
+          </p>
+        ) : (
+          <>
+            <Select value={eventId ?? ''} onValueChange={setEventId}>
+              <SelectTrigger className="bg-blue-500/5 border-blue-500/20 text-white">
+                <SelectValue placeholder="Select event" />
+              </SelectTrigger>
+              <SelectContent>
+                {events.map((event) => (
+                  <SelectItem key={event.id} value={event.id}>
+                    {describeEvent(event, sport)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <div className="flex flex-wrap gap-2 text-xs">
+              {ATTENDANCE_STATUSES.map((status) => {
+                const count = athletes.filter(athlete => marks[athlete.user_id] === status.value).length;
+                return count > 0 && (
+                  <span key={status.value} className={cn('px-2 py-0.5 rounded-full border', status.className)}>
+                    {count} {status.label.toLowerCase()}
+                  </span>
+                );
+              })}
+              {unmarked > 0 && (
+                <span className="px-2 py-0.5 rounded-full border border-white/10 text-gray-400">
+                  {unmarked} unmarked
+                </span>
+              )}
+            </div>
+
+            {loading ? (
+              <div className="flex justify-center py-8">
+                <LoadingSpinner size="lg" />
+              </div>
+            ) : (
+              <div className="flex-1 space-y-2">
+                {athletes.map((athlete) => {
+                  const status = marks[athlete.user_id] ?? null;
+                  return (
+                    <button
+                      key={athlete.id}
+                      type="button"
+                      onClick={() => handleTap(athlete.user_id)}
+                      className={cn(
+                        'w-full flex items-center justify-between gap-3 p-3 rounded-lg border text-left transition-colors',
+                        status ? getAttendanceStatus(status).className : 'bg-gray-800/50 border-white/10 text-white hover:bg-gray-800'
+                      )}
+                    >
+                      <span className="truncate">
+                        {athlete.jersey_number && (
+                          <span className="opacity-70 mr-2">#{athlete.jersey_number}</span>
+                        )}
+                        {athlete.full_name ?? athlete.email}
+                      </span>
+                      <span className="text-xs font-medium shrink-0">
+                        {status ? getAttendanceStatus(status).label : 'Tap to mark'}
+                      </span>
+                    </button>
+                  );
+                })}
+                {athletes.length === 0 && (
+                  <p className="text-center text-gray-400 py-8">No athletes on this team yet</p>
+                )}
+              </div>
+            )}
+
+            <div className="flex gap-2 pt-2 border-t border-white/10">
+              <Button
+                variant="outline"
+                onClick={handleMarkRemainingPresent}
+                disabled={loading || unmarked === 0}
+                className="flex-1 border-white/10 hover:bg-blue-500/10"
+              >
+                <CheckCheck className="w-4 h-4 mr-2" />
+                Rest Present
+              </Button>
+              <Button
+                onClick={handleSave}
+                disabled={saving || loading || changed.length === 0}
+                className="flex-1 bg-blue-500 hover:bg-blue-600 text-white"
+              >
+                {saving ? <LoadingSpinner size="sm" /> : (
+                  <>
+                    <Save className="w-4 h-4 mr-2" />
+                    Save
+                  </>
+                )}
+              </Button>
+            </div>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
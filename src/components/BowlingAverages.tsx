@@ -0,0 +1,142 @@
+import { useState, useEffect, useCallback } from 'react';
+import { TrendingDown, TrendingUp } from 'lucide-react';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { useRealtimeSubscription } from '@/hooks/useRealtimeSubscription';
+import { getRate } from '@/lib/bowling';
+import { fetchTeamGameStats, type Game, type GameStat } from '@/lib/stats';
+import type { TeamMember } from '@/lib/teams';
+
+// Running averages shown per bowler
+const TREND_MATCHES = 5;
+
+interface BowlingAveragesProps {
+  teamId: string;
+  // Athletes in roster order
+  athletes: TeamMember[];
+}
+
+interface BowlerSummary {
+  athlete: TeamMember;
+  games: number;
+  pins: number;
+  highGame: number | null;
+  // Average after each match, oldest first
+  running: number[];
+  strikeRate: number | null;
+  spareRate: number | null;
+}
+
+function summarize(athlete: TeamMember, games: Game[], stats: GameStat[]): BowlerSummary {
+  const own = stats.filter(stat => stat.athlete_id === athlete.user_id);
+  const total = (key: string, gameId?: string) => own
+    .filter(stat => stat.stat_key === key && (!gameId || stat.game_id === gameId))
+    .reduce((sum, stat) => sum + stat.value, 0);
+  const highs = own.filter(stat => stat.stat_key === 'high_game').map(stat => stat.value);
+  const running: number[] = [];
+  let gamesBowled = 0;
+  let pins = 0;
+
+  for (const game of [...games].sort((a, b) => a.played_on.localeCompare(b.played_on))) {
+    const played = total('games', game.id);
+    if (played === 0) continue;
+    gamesBowled += played;
+    pins += total('pins', game.id);
+    running.push(pins / gamesBowled);
+  }
+
+  return {
+    athlete,
+    games: gamesBowled,
+    pins,
+    highGame: highs.length > 0 ? Math.max(...highs) : null,
+    running,
+    strikeRate: getRate(total('strikes'), total('strike_chances')),
+    spareRate: getRate(total('spares'), total('spare_chances'))
+  };
+}
+
+const formatRate = (rate: number | null) => (rate === null ? '—' : `${rate.toFixed(1)}%`);
+
+// Season averages for each bowler with how the average moved match by match
+export function BowlingAverages({ teamId, athletes }: BowlingAveragesProps) {
+  const [games, setGames] = useState<Game[]>([]);
+  const [stats, setStats] = useState<GameStat[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadStats = useCallback(async () => {
+    try {
+      const team = await fetchTeamGameStats(teamId);
+      setGames(team.games);
+      setStats(team.stats);
+    } catch (error) {
+      console.error('Error loading bowling averages:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [teamId]);
+
+  useEffect(() => {
+    setLoading(true);
+    loadStats();
+  }, [loadStats]);
+
+  useRealtimeSubscription('game_stats', loadStats);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  const bowlers = athletes
+    .map(athlete => summarize(athlete, games, stats))
+    .filter(summary => summary.games > 0)
+    .sort((a, b) => b.pins / b.games - a.pins / a.games);
+
+  if (bowlers.length === 0) {
+    return <p className="text-center text-gray-400 py-8">Averages appear once a bowler finishes a game</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-400 border-b border-white/10">
+            <th className="py-2 pr-4 font-medium">Bowler</th>
+            <th className="py-2 pr-4 font-medium text-right">G</th>
+            <th className="py-2 pr-4 font-medium text-right">AVG</th>
+            <th className="py-2 pr-4 font-medium">Running Average</th>
+            <th className="py-2 pr-4 font-medium text-right">HG</th>
+            <th className="py-2 pr-4 font-medium text-right">X%</th>
+            <th className="py-2 font-medium text-right">SP%</th>
+          </tr>
+        </thead>
+        <tbody>
+          {bowlers.map((bowler) => {
+            const trend = bowler.running.slice(-TREND_MATCHES);
+            const change = trend.length > 1 ? trend[trend.length - 1] - trend[trend.length - 2] : 0;
+            return (
+              <tr key={bowler.athlete.user_id} className="border-b border-white/5 text-white">
+                <td className="py-2 pr-4">{bowler.athlete.full_name ?? bowler.athlete.email}</td>
+                <td className="py-2 pr-4 text-right">{bowler.games}</td>
+                <td className="py-2 pr-4 text-right font-medium">{(bowler.pins / bowler.games).toFixed(1)}</td>
+                <td className="py-2 pr-4 text-gray-400">
+                  <span className="inline-flex items-center gap-1">
+                    {trend.map(average => Math.round(average)).join(' → ')}
+                    {change > 0 && <TrendingUp className="h-3 w-3 text-emerald-400" />}
+                    {change < 0 && <TrendingDown className="h-3 w-3 text-red-400" />}
+                  </span>
+                </td>
+                <td className="py-2 pr-4 text-right">{bowler.highGame ?? '—'}</td>
+                <td className="py-2 pr-4 text-right">{formatRate(bowler.strikeRate)}</td>
+                <td className="py-2 text-right">{formatRate(bowler.spareRate)}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
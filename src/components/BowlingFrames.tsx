@@ -0,0 +1,66 @@
+import { FRAMES, getCurrentFrame, getFrameMarks, scoreGame, type BowlingFrame } from '@/lib/bowling';
+import { cn } from '@/lib/utils';
+
+interface BowlingFramesProps {
+  frames: BowlingFrame[];
+  // Highlights the frame being bowled
+  active?: boolean;
+  // Names under each frame, for baker games
+  frameLabels?: (string | null)[];
+}
+
+// One line of a scoresheet: ten frames of marks with running totals, and
+// splits circled
+export function BowlingFrames({ frames, active = false, frameLabels }: BowlingFramesProps) {
+  const { frameTotals, total } = scoreGame(frames);
+  const current = active ? getCurrentFrame(frames) : null;
+
+  return (
+    <div className="grid grid-cols-[repeat(10,minmax(2.75rem,1fr))_3.5rem] border border-white/10 rounded-md overflow-hidden text-white">
+      {Array.from({ length: FRAMES }, (_, index) => {
+        const frame = frames[index] ?? [];
+        const marks = getFrameMarks(frame);
+        const boxes = index === FRAMES - 1 ? 3 : 2;
+        // A strike is written in the second box of frames 1-9
+        const cells = index < FRAMES - 1 && marks[0] === 'X' ? ['', 'X'] : marks;
+        const rolls = index < FRAMES - 1 && marks[0] === 'X' ? [undefined, frame[0]] : frame;
+        return (
+          <div
+            key={index}
+            className={cn(
+              'border-r border-white/10 flex flex-col',
+              index === current && 'bg-blue-500/20'
+            )}
+          >
+            <div className="flex justify-end border-b border-white/10">
+              {Array.from({ length: boxes }, (_, box) => (
+                <span
+                  key={box}
+                  className={cn(
+                    'w-1/3 min-w-[0.9rem] h-5 text-[11px] flex items-center justify-center',
+                    box > 0 && 'border-l border-white/10',
+                    cells[box] === 'X' || cells[box] === '/' ? 'text-blue-300 font-semibold' : 'text-gray-200',
+                    cells[box] === 'F' && 'text-red-400'
+                  )}
+                >
+                  <span className={cn(rolls[box]?.split && 'rounded-full border border-amber-400 px-1 leading-none')}>
+                    {cells[box] ?? ''}
+                  </span>
+                </span>
+              ))}
+            </div>
+            <span className="h-6 text-sm text-center leading-6">{frameTotals[index] ?? ''}</span>
+            {frameLabels && (
+              <span className="text-[10px] text-gray-400 text-center truncate px-0.5 border-t border-white/10">
+                {frameLabels[index] ?? ''}
+              </span>
+            )}
+          </div>
+        );
+      })}
+      <div className="flex items-center justify-center text-lg font-bold">
+        {frames.length > 0 ? total : ''}
+      </div>
+    </div>
+  );
+}
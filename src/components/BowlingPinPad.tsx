@@ -0,0 +1,84 @@
+import { useState } from 'react';
+import { Undo2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { PINS, addRoll, getCurrentFrame, getPinsStanding, isFreshRack, undoRoll, type BowlingFrame } from '@/lib/bowling';
+import { cn } from '@/lib/utils';
+
+interface BowlingPinPadProps {
+  frames: BowlingFrame[];
+  onChange: (frames: BowlingFrame[]) => void;
+  disabled?: boolean;
+}
+
+// Large buttons for entering deliveries at the lanes: the pins knocked down,
+// a strike or spare, a foul, and a split toggle for the first ball
+export function BowlingPinPad({ frames, onChange, disabled = false }: BowlingPinPadProps) {
+  const [split, setSplit] = useState(false);
+  const index = getCurrentFrame(frames);
+  const over = index === null;
+  const standing = over ? 0 : getPinsStanding(frames[index] ?? []);
+  const fresh = isFreshRack(frames);
+
+  const roll = (pins: number, foul = false) => {
+    onChange(addRoll(frames, { pins, foul, split: split && fresh }));
+    setSplit(false);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-6 gap-2">
+        {Array.from({ length: PINS }, (_, pins) => (
+          <Button
+            key={pins}
+            variant="outline"
+            onClick={() => roll(pins)}
+            disabled={disabled || over || pins > standing}
+            className="h-12 text-lg border-white/10 hover:bg-blue-500/10"
+          >
+            {pins === 0 ? '-' : pins}
+          </Button>
+        ))}
+        <Button
+          onClick={() => roll(standing)}
+          disabled={disabled || over}
+          className="h-12 text-lg bg-blue-500 hover:bg-blue-600 text-white"
+        >
+          {fresh ? 'X' : '/'}
+        </Button>
+        <Button
+          variant="outline"
+          onClick={() => roll(0, true)}
+          disabled={disabled || over}
+          className="h-12 text-lg border-red-500/40 text-red-400 hover:bg-red-500/10"
+        >
+          F
+        </Button>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <Button
+          variant="outline"
+          onClick={() => setSplit(!split)}
+          disabled={disabled || over || !fresh}
+          className={cn(
+            'h-11 border-white/10 hover:bg-amber-500/10',
+            split && fresh && 'bg-amber-500/20 border-amber-400 text-amber-300'
+          )}
+        >
+          Split
+        </Button>
+        <Button
+          variant="outline"
+          onClick={() => onChange(undoRoll(frames))}
+          disabled={disabled || frames.length === 0}
+          className="h-11 border-white/10 hover:bg-blue-500/10"
+        >
+          <Undo2 className="w-4 h-4 mr-2" />
+          Undo
+        </Button>
+      </div>
+      <p className="text-xs text-gray-500">
+        {over ? 'Game complete' : `Frame ${index + 1} • ${standing} ${standing === 1 ? 'pin' : 'pins'} standing. Tap Split before the first ball's count to mark a split.`}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,347 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Plus, Save, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { BowlingFrames } from '@/components/BowlingFrames';
+import { BowlingPinPad } from '@/components/BowlingPinPad';
+import {
+  BAKER_BOWLERS,
+  FRAMES,
+  SERIES_GAMES,
+  deleteBowlingGame,
+  fetchBowlingGames,
+  getBakerBowler,
+  getTeamTotals,
+  saveBowlingGame,
+  scoreGame,
+  type BowlingFrame,
+  type BowlingGame
+} from '@/lib/bowling';
+import type { TeamMember } from '@/lib/teams';
+import { cn, getErrorMessage } from '@/lib/utils';
+
+const BAKER = 'baker';
+const BAKER_GAMES = 2;
+
+interface Sheet {
+  baker: boolean;
+  number: number;
+}
+
+// Key of one scoresheet line: a bowler's game or a baker game
+const lineKey = (athleteId: string | null, number: number) => `${athleteId ?? BAKER}:${number}`;
+
+interface BowlingScoresheetProps {
+  gameId: string;
+  // Athletes in roster order
+  athletes: TeamMember[];
+  onSaved?: () => void;
+}
+
+// Scores a bowling match ball by ball: pick a game, tap a bowler's line and
+// enter each delivery on the pin pad. Series and team totals, including
+// baker games, update as frames are entered.
+export function BowlingScoresheet({ gameId, athletes, onSaved }: BowlingScoresheetProps) {
+  const [games, setGames] = useState<BowlingGame[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, BowlingFrame[]>>({});
+  const [lineup, setLineup] = useState<string[]>([]);
+  const [sheet, setSheet] = useState<Sheet>({ baker: false, number: 1 });
+  const [activeKey, setActiveKey] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const loadGames = useCallback(async () => {
+    setLoading(true);
+    try {
+      const loaded = await fetchBowlingGames([gameId]);
+      setGames(loaded);
+      setDrafts(Object.fromEntries(loaded.map(game => [lineKey(game.athlete_id, game.game_number), game.frames])));
+      const bowling = new Set(loaded.flatMap(game => (game.athlete_id ? [game.athlete_id] : game.bowlers)));
+      setLineup(athletes.map(athlete => athlete.user_id).filter(id => bowling.has(id)));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error),
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [gameId, athletes, toast]);
+
+  useEffect(() => {
+    loadGames();
+  }, [loadGames]);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  const names = new Map(athletes.map(athlete => [athlete.user_id, athlete.full_name ?? athlete.email ?? 'Bowler']));
+  const savedGame = (key: string) => games.find(game => lineKey(game.athlete_id, game.game_number) === key);
+  const isDirty = (key: string) => JSON.stringify(drafts[key] ?? []) !== JSON.stringify(savedGame(key)?.frames ?? []);
+  const dirtyKeys = Object.keys(drafts).filter(isDirty);
+  const bakerKey = lineKey(null, sheet.number);
+  const bakerBowlers = savedGame(bakerKey)?.bowlers ?? lineup.slice(0, BAKER_BOWLERS);
+  const gameCount = Math.max(SERIES_GAMES, ...games.filter(game => game.athlete_id).map(game => game.game_number));
+  const bakerCount = Math.max(BAKER_GAMES, ...games.filter(game => !game.athlete_id).map(game => game.game_number));
+  const activeFrames = activeKey ? drafts[activeKey] ?? [] : [];
+  const available = athletes.filter(athlete => !lineup.includes(athlete.user_id));
+
+  // Totals from what is on screen, saved or not
+  const liveGames: BowlingGame[] = Object.entries(drafts).map(([key, frames]) => {
+    const [owner, number] = key.split(':');
+    return {
+      id: key,
+      game_id: gameId,
+      athlete_id: owner === BAKER ? null : owner,
+      game_number: Number(number),
+      bowlers: [],
+      frames,
+      score: null,
+      updated_at: ''
+    };
+  });
+  const totals = getTeamTotals(liveGames);
+  const scoreOf = (key: string) => (drafts[key]?.length ? scoreGame(drafts[key]).total : null);
+
+  const selectSheet = (next: Sheet) => {
+    setSheet(next);
+    setActiveKey(next.baker ? lineKey(null, next.number) : null);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const saved: BowlingGame[] = [];
+      for (const key of dirtyKeys) {
+        const [owner, number] = key.split(':');
+        const existing = savedGame(key);
+        const frames = drafts[key] ?? [];
+        if (existing && frames.length === 0) {
+          await deleteBowlingGame(existing);
+          continue;
+        }
+        saved.push(await saveBowlingGame(existing?.id ?? null, {
+          gameId,
+          athleteId: owner === BAKER ? null : owner,
+          gameNumber: Number(number),
+          bowlers: owner === BAKER ? bakerBowlers : [],
+          frames
+        }));
+      }
+      const savedKeys = new Set(dirtyKeys);
+      setGames([
+        ...games.filter(game => !savedKeys.has(lineKey(game.athlete_id, game.game_number))),
+        ...saved
+      ]);
+      toast({
+        title: "Scoresheet saved",
+        description: `${dirtyKeys.length} ${dirtyKeys.length === 1 ? 'game' : 'games'} updated`
+      });
+      onSaved?.();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error),
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex flex-wrap gap-2">
+          {Array.from({ length: gameCount }, (_, index) => (
+            <Button
+              key={`game-${index}`}
+              size="sm"
+              variant="outline"
+              onClick={() => selectSheet({ baker: false, number: index + 1 })}
+              className={cn(
+                'border-white/10 hover:bg-blue-500/10',
+                !sheet.baker && sheet.number === index + 1 && 'bg-blue-500/20 border-blue-500/40 text-white'
+              )}
+            >
+              Game {index + 1}
+            </Button>
+          ))}
+          {Array.from({ length: bakerCount }, (_, index) => (
+            <Button
+              key={`baker-${index}`}
+              size="sm"
+              variant="outline"
+              onClick={() => selectSheet({ baker: true, number: index + 1 })}
+              className={cn(
+                'border-white/10 hover:bg-blue-500/10',
+                sheet.baker && sheet.number === index + 1 && 'bg-blue-500/20 border-blue-500/40 text-white'
+              )}
+            >
+              Baker {index + 1}
+            </Button>
+          ))}
+        </div>
+        <Button
+          onClick={handleSave}
+          disabled={saving || dirtyKeys.length === 0}
+          className="bg-blue-500 hover:bg-blue-600 text-white"
+        >
+          {saving ? <LoadingSpinner size="sm" /> : <Save className="w-4 h-4 mr-2" />}
+          Save{dirtyKeys.length > 0 && ` (${dirtyKeys.length})`}
+        </Button>
+      </div>
+
+      <div className="space-y-3">
+        {sheet.baker ? (
+          bakerBowlers.length === 0 ? (
+            <p className="text-sm text-gray-400 text-center py-4">
+              Add bowlers to the lineup first; the first {BAKER_BOWLERS} bowl the baker games in order
+            </p>
+          ) : (
+            <div className="space-y-1">
+              <p className="text-sm text-gray-300">
+                Team • {bakerBowlers.map(id => names.get(id) ?? 'Bowler').join(', ')}
+              </p>
+              <BowlingFrames
+                frames={drafts[bakerKey] ?? []}
+                active
+                frameLabels={Array.from({ length: FRAMES }, (_, index) => {
+                  const bowler = getBakerBowler(bakerBowlers, index);
+                  return bowler ? (names.get(bowler) ?? '').split(' ')[0] : null;
+                })}
+              />
+            </div>
+          )
+        ) : (
+          lineup.map((athleteId) => {
+            const key = lineKey(athleteId, sheet.number);
+            return (
+              <div
+                key={key}
+                onClick={() => setActiveKey(key)}
+                className={cn(
+                  'space-y-1 p-2 rounded-lg cursor-pointer border',
+                  activeKey === key ? 'border-blue-500/40 bg-blue-500/5' : 'border-transparent hover:bg-gray-800/40'
+                )}
+              >
+                <div className="flex items-center justify-between">
+                  <p className="text-sm text-white">
+                    {names.get(athleteId)}
+                    {isDirty(key) && <span className="ml-2 text-xs text-amber-400">unsaved</span>}
+                  </p>
+                  {!games.some(game => game.athlete_id === athleteId) && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setLineup(lineup.filter(id => id !== athleteId));
+                        setDrafts(Object.fromEntries(Object.entries(drafts).filter(([draftKey]) => !draftKey.startsWith(`${athleteId}:`))));
+                      }}
+                      className="h-6 px-2 text-gray-400 hover:text-red-400 hover:bg-red-500/10"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  )}
+                </div>
+                <BowlingFrames frames={drafts[key] ?? []} active={activeKey === key} />
+              </div>
+            );
+          })
+        )}
+
+        {!sheet.baker && available.length > 0 && (
+          <Select
+            value=""
+            onValueChange={(athleteId) => {
+              setLineup(athletes.map(athlete => athlete.user_id).filter(id => id === athleteId || lineup.includes(id)));
+              setActiveKey(lineKey(athleteId, sheet.number));
+            }}
+          >
+            <SelectTrigger className="bg-blue-500/5 border-blue-500/20 text-white sm:w-64">
+              <Plus className="w-4 h-4 mr-2" />
+              <SelectValue placeholder="Add bowler" />
+            </SelectTrigger>
+            <SelectContent>
+              {available.map((athlete) => (
+                <SelectItem key={athlete.user_id} value={athlete.user_id}>
+                  {athlete.full_name ?? athlete.email}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      {activeKey && (!sheet.baker || bakerBowlers.length > 0) && (
+        <div className="max-w-md">
+          <BowlingPinPad
+            frames={activeFrames}
+            onChange={(frames) => setDrafts({ ...drafts, [activeKey]: frames })}
+          />
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-400 border-b border-white/10">
+              <th className="py-2 pr-4 font-medium">Bowler</th>
+              {Array.from({ length: gameCount }, (_, index) => (
+                <th key={index} className="py-2 pr-4 font-medium text-right">G{index + 1}</th>
+              ))}
+              <th className="py-2 font-medium text-right">Series</th>
+            </tr>
+          </thead>
+          <tbody>
+            {lineup.map((athleteId) => {
+              const scores = Array.from({ length: gameCount }, (_, index) => scoreOf(lineKey(athleteId, index + 1)));
+              return (
+                <tr key={athleteId} className="border-b border-white/5 text-white">
+                  <td className="py-2 pr-4">{names.get(athleteId)}</td>
+                  {scores.map((score, index) => (
+                    <td key={index} className="py-2 pr-4 text-right">{score ?? '—'}</td>
+                  ))}
+                  <td className="py-2 text-right font-medium">
+                    {scores.reduce<number>((total, score) => total + (score ?? 0), 0)}
+                  </td>
+                </tr>
+              );
+            })}
+            <tr className="border-b border-white/5 text-gray-300">
+              <td className="py-2 pr-4">Team</td>
+              {Array.from({ length: gameCount }, (_, index) => (
+                <td key={index} className="py-2 pr-4 text-right">{totals.individual.get(index + 1) ?? '—'}</td>
+              ))}
+              <td className="py-2 text-right">
+                {[...totals.individual.values()].reduce((total, score) => total + score, 0)}
+              </td>
+            </tr>
+            {Array.from({ length: bakerCount }, (_, index) => (
+              <tr key={index} className="border-b border-white/5 text-gray-300">
+                <td className="py-2 pr-4">Baker {index + 1}</td>
+                <td colSpan={gameCount} />
+                <td className="py-2 text-right">{totals.baker.get(index + 1) ?? '—'}</td>
+              </tr>
+            ))}
+            <tr className="text-white font-semibold">
+              <td className="py-2 pr-4">Match Total</td>
+              <td colSpan={gameCount} />
+              <td className="py-2 text-right">{totals.total}</td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,249 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { useToast } from '@/components/ui/use-toast';
+import { Save } from 'lucide-react';
+import {
+  aggregateStatLine,
+  fetchGameStats,
+  formatStatValue,
+  parseStatInput,
+  saveGameStats,
+  type GameStatEntry
+} from '@/lib/stats';
+import { getSportStats, isEnteredStat, type SportDefinition } from '@/lib/sport-definitions';
+import type { TeamMember } from '@/lib/teams';
+import { getErrorMessage } from '@/lib/utils';
+
+interface BoxScoreGridProps {
+  sport: SportDefinition;
+  gameId: string;
+  // Athletes in roster order
+  athletes: TeamMember[];
+  onSaved?: () => void;
+}
+
+const cellKey = (athleteId: string, statKey: string) => `${athleteId}:${statKey}`;
+
+// Spreadsheet-style box score entry: one row per athlete, one column per
+// entered stat of the chosen category. Enter and the arrow keys move between
+// rows; computed ratios update as values are typed.
+export function BoxScoreGrid({ sport, gameId, athletes, onSaved }: BoxScoreGridProps) {
+  const [categoryKey, setCategoryKey] = useState(sport.statCategories[0]?.key ?? '');
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [saved, setSaved] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const gridRef = useRef<HTMLDivElement>(null);
+  const { toast } = useToast();
+
+  const loadStats = useCallback(async () => {
+    setLoading(true);
+    try {
+      const cells: Record<string, string> = {};
+      for (const stat of await fetchGameStats([gameId])) {
+        cells[cellKey(stat.athlete_id, stat.stat_key)] = String(stat.value);
+      }
+      setValues(cells);
+      setSaved(cells);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error),
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [gameId, toast]);
+
+  useEffect(() => {
+    loadStats();
+  }, [loadStats]);
+
+  const category = sport.statCategories.find(c => c.key === categoryKey) ?? sport.statCategories[0];
+  const allStats = getSportStats(sport);
+  const columns = category?.stats.filter(isEnteredStat) ?? [];
+  const ratios = category?.stats.filter(stat => !isEnteredStat(stat)) ?? [];
+  const changedKeys = Object.keys({ ...values, ...saved })
+    .filter(key => (values[key] ?? '').trim() !== (saved[key] ?? ''));
+
+  // Computed ratios for one row from what has been typed so far
+  const getRowLine = (athleteId: string) => aggregateStatLine(
+    allStats,
+    allStats.filter(isEnteredStat).flatMap(stat => {
+      const value = Number(values[cellKey(athleteId, stat.key)]);
+      return values[cellKey(athleteId, stat.key)]?.trim() && Number.isFinite(value)
+        ? [{ stat_key: stat.key, value }]
+        : [];
+    })
+  );
+
+  const focusCell = (row: number, column: number) => {
+    gridRef.current
+      ?.querySelector<HTMLInputElement>(`[data-cell="${row}:${column}"]`)
+      ?.focus();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>, row: number, column: number) => {
+    if (e.key === 'Enter' || e.key === 'ArrowDown') {
+      e.preventDefault();
+      focusCell(row + 1, column);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      focusCell(row - 1, column);
+    }
+  };
+
+  const handleSave = async () => {
+    let entries: GameStatEntry[];
+    try {
+      entries = changedKeys.map(key => {
+        const [athleteId, statKey] = key.split(':');
+        return { athleteId, statKey, value: parseStatInput(values[key] ?? '') };
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error),
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await saveGameStats(gameId, entries);
+      const cells = Object.fromEntries(
+        Object.entries(values)
+          .map(([key, value]) => [key, value.trim()])
+          .filter(([, value]) => value !== '')
+      );
+      setValues(cells);
+      setSaved(cells);
+      toast({
+        title: "Box score saved",
+        description: `${entries.length} ${entries.length === 1 ? 'value' : 'values'} updated`
+      });
+      onSaved?.();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error),
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (!category) {
+    return <p className="text-center text-gray-400 py-8">{sport.name} has no game stats to record</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex flex-wrap gap-2">
+          {sport.statCategories.map((option) => (
+            <Button
+              key={option.key}
+              variant="outline"
+              size="sm"
+              onClick={() => setCategoryKey(option.key)}
+              className={option.key === category.key
+                ? 'border-blue-500/40 bg-blue-500/20 text-blue-400'
+                : 'border-white/10 text-gray-400 hover:bg-blue-500/10'}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+        <Button
+          onClick={handleSave}
+          disabled={saving || changedKeys.length === 0}
+          className="bg-blue-500 hover:bg-blue-600 text-white"
+        >
+          {saving ? <LoadingSpinner size="sm" /> : (
+            <>
+              <Save className="w-4 h-4 mr-2" />
+              Save Box Score
+            </>
+          )}
+        </Button>
+      </div>
+
+      <div ref={gridRef} className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-gray-400 border-b border-white/10">
+              <th className="py-2 pr-4 text-left font-medium">Athlete</th>
+              {columns.map((stat) => (
+                <th key={stat.key} title={stat.label} className="py-2 px-1 font-medium text-center">
+                  {stat.abbreviation}
+                </th>
+              ))}
+              {ratios.map((stat) => (
+                <th key={stat.key} title={stat.label} className="py-2 px-2 font-medium text-right">
+                  {stat.abbreviation}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {athletes.map((athlete, row) => {
+              const line = ratios.length > 0 ? getRowLine(athlete.user_id) : {};
+              return (
+                <tr key={athlete.id} className="border-b border-white/5 text-white">
+                  <td className="py-1 pr-4 whitespace-nowrap">
+                    {athlete.jersey_number && (
+                      <span className="text-gray-400 mr-2">#{athlete.jersey_number}</span>
+                    )}
+                    {athlete.full_name ?? athlete.email}
+                  </td>
+                  {columns.map((stat, column) => {
+                    const key = cellKey(athlete.user_id, stat.key);
+                    const changed = (values[key] ?? '').trim() !== (saved[key] ?? '');
+                    return (
+                      <td key={stat.key} className="py-1 px-1">
+                        <input
+                          data-cell={`${row}:${column}`}
+                          inputMode="decimal"
+                          aria-label={`${stat.label} for ${athlete.full_name ?? athlete.email}`}
+                          value={values[key] ?? ''}
+                          onChange={(e) => setValues({ ...values, [key]: e.target.value })}
+                          onKeyDown={(e) => handleKeyDown(e, row, column)}
+                          onFocus={(e) => e.target.select()}
+                          className={`w-14 rounded-md bg-blue-500/5 border px-2 py-1 text-center text-white focus:outline-none focus:border-blue-400 ${
+                            changed ? 'border-yellow-500/50' : 'border-blue-500/20'
+                          }`}
+                        />
+                      </td>
+                    );
+                  })}
+                  {ratios.map((stat) => (
+                    <td key={stat.key} className="py-1 px-2 text-right text-gray-300">
+                      {formatStatValue(stat, line[stat.key])}
+                    </td>
+                  ))}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {athletes.length === 0 && (
+        <p className="text-center text-gray-400 py-8">No athletes on this team yet</p>
+      )}
+    </div>
+  );
+}
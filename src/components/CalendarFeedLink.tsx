@@ -0,0 +1,145 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { ConfirmationDialog } from '@/components/ui/confirmation-dialog';
+import { useToast } from '@/components/ui/use-toast';
+import { useConfirmation } from '@/hooks/useConfirmation';
+import { CalendarPlus, Copy, RefreshCw } from 'lucide-react';
+import { getCalendarFeedToken, getCalendarFeedUrl, getWebcalUrl } from '@/lib/events';
+import { getErrorMessage } from '@/lib/utils';
+
+interface CalendarFeedLinkProps {
+  // A team's feed, or null for the signed-in athlete's feed across their teams
+  teamId: string | null;
+  // Coaches can replace a team link that was shared too widely
+  canReset?: boolean;
+}
+
+// Subscription link for phone and desktop calendar apps
+export function CalendarFeedLink({ teamId, canReset }: CalendarFeedLinkProps) {
+  const [token, setToken] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+  const resetConfirmation = useConfirmation({
+    title: 'Reset Calendar Link',
+    message: 'Anyone subscribed with the current link will stop receiving updates until they subscribe again with the new link.',
+    confirmText: 'Reset Link'
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    getCalendarFeedToken(teamId)
+      .then((value) => {
+        if (!cancelled) setToken(value);
+      })
+      .catch((error) => console.error('Error loading calendar feed:', error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [teamId]);
+
+  const handleCopy = async () => {
+    if (!token) return;
+    try {
+      await navigator.clipboard.writeText(getCalendarFeedUrl(token));
+      toast({
+        title: "Link copied",
+        description: "Paste it into your calendar app's subscribe option"
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error),
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleReset = async () => {
+    if (!await resetConfirmation.confirm()) return;
+
+    setLoading(true);
+    try {
+      setToken(await getCalendarFeedToken(teamId, true));
+      toast({
+        title: "Calendar link reset",
+        description: "Share the new link with your team"
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error),
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-4">
+        <LoadingSpinner size="sm" />
+      </div>
+    );
+  }
+
+  if (!token) {
+    return <p className="text-sm text-gray-400">The calendar link is not available right now</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <Input
+          readOnly
+          value={getCalendarFeedUrl(token)}
+          onFocus={(e) => e.target.select()}
+          aria-label="Calendar feed link"
+          className="bg-blue-500/5 border-blue-500/20 text-gray-300 text-xs"
+        />
+        <Button
+          variant="outline"
+          onClick={handleCopy}
+          aria-label="Copy link"
+          className="border-blue-500/20 text-blue-400 hover:bg-blue-500/10"
+        >
+          <Copy className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <a
+          href={getWebcalUrl(token)}
+          className="inline-flex items-center justify-center rounded-md h-9 px-3 text-sm font-medium bg-blue-500 hover:bg-blue-600 text-white transition-colors"
+        >
+          <CalendarPlus className="w-4 h-4 mr-2" />
+          Add to Calendar
+        </a>
+        {canReset && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleReset}
+            className="text-gray-400 hover:text-white"
+          >
+            <RefreshCw className="w-4 h-4 mr-2" />
+            Reset Link
+          </Button>
+        )}
+      </div>
+
+      <ConfirmationDialog
+        open={resetConfirmation.isOpen}
+        onConfirm={resetConfirmation.handleConfirm}
+        onCancel={resetConfirmation.handleCancel}
+        {...resetConfirmation.options}
+      />
+    </div>
+  );
+}
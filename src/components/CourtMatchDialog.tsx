@@ -0,0 +1,282 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { useToast } from '@/components/ui/use-toast';
+import {
+  RULE_PRESETS,
+  saveCourtMatch,
+  type CourtFormat,
+  type CourtMatch,
+  type CourtRules,
+  type RacketSport,
+  type Side
+} from '@/lib/court-matches';
+import type { TeamMember } from '@/lib/teams';
+import { getErrorMessage } from '@/lib/utils';
+
+interface CourtMatchDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  gameId: string;
+  sport: RacketSport;
+  athletes: TeamMember[];
+  // The court to edit; a new court is created when this is null
+  court: CourtMatch | null;
+  // Courts already in the dual match, used to suggest the next line
+  courts: CourtMatch[];
+  onSaved: (court: CourtMatch) => void;
+}
+
+// Presets differ in set or game counts and targets; no-ad and rally
+// scoring are chosen separately
+function findPreset(sport: RacketSport, rules: CourtRules) {
+  const preset = RULE_PRESETS[sport].find(({ rules: candidate }) =>
+    candidate.sport === 'tennis' && rules.sport === 'tennis'
+      ? candidate.bestOf === rules.bestOf
+        && candidate.gamesPerSet === rules.gamesPerSet
+        && candidate.finalSet === rules.finalSet
+      : candidate.sport === 'pickleball' && rules.sport === 'pickleball'
+        && candidate.bestOf === rules.bestOf
+        && candidate.pointsToWin === rules.pointsToWin
+        && candidate.winBy === rules.winBy
+  );
+  return preset?.key ?? RULE_PRESETS[sport][0].key;
+}
+
+const nextLine = (courts: CourtMatch[], format: CourtFormat) =>
+  Math.max(0, ...courts.filter(court => court.format === format).map(court => court.line)) + 1;
+
+export function CourtMatchDialog({
+  open,
+  onOpenChange,
+  gameId,
+  sport,
+  athletes,
+  court,
+  courts,
+  onSaved
+}: CourtMatchDialogProps) {
+  const [format, setFormat] = useState<CourtFormat>('singles');
+  const [line, setLine] = useState('1');
+  const [players, setPlayers] = useState<string[]>([]);
+  const [opponents, setOpponents] = useState<string[]>([]);
+  const [presetKey, setPresetKey] = useState('');
+  // No-ad in tennis, rally scoring in pickleball
+  const [variant, setVariant] = useState(false);
+  const [firstServer, setFirstServer] = useState<Side>('us');
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+    const startFormat = court?.format ?? 'singles';
+    setFormat(startFormat);
+    setLine(String(court?.line ?? nextLine(courts, startFormat)));
+    setPlayers(court?.players ?? []);
+    setOpponents(court?.opponents ?? []);
+    setPresetKey(court ? findPreset(sport, court.rules) : RULE_PRESETS[sport][0].key);
+    setVariant(court ? (court.rules.sport === 'tennis' ? court.rules.noAd : court.rules.rally) : false);
+    setFirstServer(court?.first_server ?? 'us');
+  }, [open, court, courts, sport]);
+
+  if (!open) return null;
+
+  const size = format === 'singles' ? 1 : 2;
+  const preset = RULE_PRESETS[sport].find(option => option.key === presetKey);
+  const rules: CourtRules | null = preset
+    ? preset.rules.sport === 'tennis'
+      ? { ...preset.rules, noAd: variant }
+      : { ...preset.rules, rally: variant }
+    : null;
+  const lineNumber = Number(line);
+  const lineup = players.slice(0, size);
+  const valid = rules !== null
+    && Number.isInteger(lineNumber)
+    && lineNumber > 0
+    && lineup.length === size
+    && lineup.every(Boolean);
+
+  const handleFormatChange = (value: string) => {
+    const next = value as CourtFormat;
+    setFormat(next);
+    if (!court) setLine(String(nextLine(courts, next)));
+  };
+
+  const setPlayer = (index: number, athleteId: string) => {
+    const next = [...players];
+    next[index] = athleteId;
+    setPlayers(next);
+  };
+
+  const setOpponent = (index: number, name: string) => {
+    const next = [...opponents];
+    next[index] = name;
+    setOpponents(next);
+  };
+
+  const handleSave = async () => {
+    if (!rules) return;
+
+    setSaving(true);
+    try {
+      const saved = await saveCourtMatch(court, {
+        gameId,
+        format,
+        line: lineNumber,
+        players: lineup,
+        opponents: opponents.slice(0, size),
+        rules,
+        firstServer
+      });
+      onOpenChange(false);
+      onSaved(saved);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error),
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-gray-900 border border-blue-500/20 text-white max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{court ? 'Edit Court' : 'New Court'}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label className="text-gray-400">Format</Label>
+              <Select value={format} onValueChange={handleFormatChange}>
+                <SelectTrigger className="bg-blue-500/5 border-blue-500/20 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="singles">Singles</SelectItem>
+                  <SelectItem value="doubles">Doubles</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="court-line" className="text-gray-400">Line</Label>
+              <Input
+                id="court-line"
+                type="number"
+                min={1}
+                value={line}
+                onChange={(e) => setLine(e.target.value)}
+                className="bg-blue-500/5 border-blue-500/20 text-white"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label className="text-gray-400">{size === 1 ? 'Player' : 'Players, in serving order'}</Label>
+              {Array.from({ length: size }, (_, index) => (
+                <Select key={index} value={players[index] ?? ''} onValueChange={(value) => setPlayer(index, value)}>
+                  <SelectTrigger className="bg-blue-500/5 border-blue-500/20 text-white">
+                    <SelectValue placeholder="Choose a player" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {athletes
+                      .filter(athlete => athlete.user_id === players[index] || !lineup.includes(athlete.user_id))
+                      .map((athlete) => (
+                        <SelectItem key={athlete.user_id} value={athlete.user_id}>
+                          {athlete.full_name ?? athlete.email}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              ))}
+            </div>
+            <div className="space-y-2">
+              <Label className="text-gray-400">{size === 1 ? 'Opponent' : 'Opponents'}</Label>
+              {Array.from({ length: size }, (_, index) => (
+                <Input
+                  key={index}
+                  aria-label={`Opponent ${index + 1}`}
+                  value={opponents[index] ?? ''}
+                  onChange={(e) => setOpponent(index, e.target.value)}
+                  placeholder="Name"
+                  className="bg-blue-500/5 border-blue-500/20 text-white"
+                />
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label className="text-gray-400">Match Length</Label>
+              <Select value={presetKey} onValueChange={setPresetKey}>
+                <SelectTrigger className="bg-blue-500/5 border-blue-500/20 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RULE_PRESETS[sport].map((option) => (
+                    <SelectItem key={option.key} value={option.key}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label className="text-gray-400">Scoring</Label>
+              <Select value={variant ? 'yes' : 'no'} onValueChange={(value) => setVariant(value === 'yes')}>
+                <SelectTrigger className="bg-blue-500/5 border-blue-500/20 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="no">{sport === 'tennis' ? 'Advantage' : 'Side-out'}</SelectItem>
+                  <SelectItem value="yes">{sport === 'tennis' ? 'No-ad' : 'Rally'}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-gray-400">First Serve</Label>
+            <Select value={firstServer} onValueChange={(value) => setFirstServer(value as Side)}>
+              <SelectTrigger className="bg-blue-500/5 border-blue-500/20 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="us">Our side</SelectItem>
+                <SelectItem value="them">Opponents</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {court && court.points.length > 0 && (
+            <p className="text-sm text-amber-300">
+              The {court.points.length} points already played will be rescored under these settings
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={saving || !valid}
+            className="bg-blue-500 hover:bg-blue-600 text-white"
+          >
+            {saving ? <LoadingSpinner size="sm" /> : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,261 @@
+import { useState } from 'react';
+import { Undo2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/components/ui/use-toast';
+import {
+  POINT_OUTCOMES,
+  formatCourtScore,
+  formatGamePoints,
+  formatScoreCall,
+  getOutcomeWinner,
+  other,
+  saveCourtPoints,
+  scoreCourtMatch,
+  summarizeSide,
+  type CourtMatch,
+  type CourtPoint,
+  type PlayedPoint,
+  type RacketSport,
+  type Side,
+  type SideSummary
+} from '@/lib/court-matches';
+import { cn, getErrorMessage } from '@/lib/utils';
+
+interface CourtMatchScorerProps {
+  court: CourtMatch;
+  sport: RacketSport;
+  // Athlete names by user id
+  names: Map<string, string | null>;
+  onChange: (court: CourtMatch) => void;
+}
+
+const SUMMARY_ROWS: { label: string; value: (summary: SideSummary) => string | number }[] = [
+  { label: 'Points Won', value: summary => summary.points },
+  { label: 'Service Points Won', value: summary => `${summary.servicePointsWon}/${summary.servicePoints}` },
+  { label: 'Return Points Won', value: summary => `${summary.returnPointsWon}/${summary.returnPoints}` },
+  { label: 'Aces', value: summary => summary.aces },
+  { label: 'Double Faults', value: summary => summary.doubleFaults },
+  { label: 'Return Winners', value: summary => summary.returnWinners }
+];
+
+const OUTCOME_LABELS = new Map(
+  [...POINT_OUTCOMES.tennis, ...POINT_OUTCOMES.pickleball].map(option => [option.value, option.label])
+);
+
+// Groups the point history into games, keeping their order
+function groupByGame(history: PlayedPoint[]) {
+  const games: { key: string; set: number; game: number; tiebreak: boolean; points: PlayedPoint[] }[] = [];
+  for (const point of history) {
+    const key = `${point.set}-${point.game}-${point.tiebreak}`;
+    const last = games[games.length - 1];
+    if (last?.key === key) {
+      last.points.push(point);
+    } else {
+      games.push({ key, set: point.set, game: point.game, tiebreak: point.tiebreak, points: [point] });
+    }
+  }
+  return games;
+}
+
+// Live point-by-point scoring for one court. Every point is saved as it is
+// played; Undo removes the last one.
+export function CourtMatchScorer({ court, sport, names, onChange }: CourtMatchScorerProps) {
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+  const { state, history } = scoreCourtMatch(court);
+  const gamePoints = formatGamePoints(state, sport);
+
+  const sideNames: Record<Side, string[]> = {
+    us: court.players.map(id => names.get(id) ?? 'Former player'),
+    them: court.opponents.length > 0 ? court.opponents : ['Opponent']
+  };
+  const sideLabel = (side: Side) => sideNames[side].join(' / ');
+  const serverName = state.serverPlayer !== null
+    ? sideNames[state.server][state.serverPlayer] ?? sideLabel(state.server)
+    : sideLabel(state.server);
+
+  const savePoints = async (points: CourtPoint[]) => {
+    setSaving(true);
+    try {
+      onChange(await saveCourtPoints(court, points));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error),
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const addPoint = (point: CourtPoint) => savePoints([...court.points, point]);
+
+  const summaries = { us: summarizeSide(history, 'us'), them: summarizeSide(history, 'them') };
+
+  return (
+    <div className="space-y-6">
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-400 border-b border-white/10">
+              <th className="py-2 pr-4 font-medium" />
+              {state.sets.map((set, index) => (
+                <th key={index} className="py-2 px-2 font-medium text-center">
+                  {set.matchTiebreak ? 'MTB' : sport === 'tennis' ? `Set ${index + 1}` : `Game ${index + 1}`}
+                </th>
+              ))}
+              {sport === 'tennis' && !state.winner && (
+                <th className="py-2 px-2 font-medium text-center">{state.tiebreak ? 'Tiebreak' : 'Game'}</th>
+              )}
+            </tr>
+          </thead>
+          <tbody>
+            {(['us', 'them'] as const).map((side) => (
+              <tr key={side} className={cn('border-b border-white/5', state.winner === side ? 'text-green-400' : 'text-white')}>
+                <td className="py-2 pr-4">
+                  <span className="inline-flex items-center gap-2">
+                    <span
+                      className={cn(
+                        'w-2 h-2 rounded-full',
+                        !state.winner && state.server === side ? 'bg-yellow-400' : 'bg-transparent'
+                      )}
+                    />
+                    {sideLabel(side)}
+                  </span>
+                </td>
+                {state.sets.map((set, index) => (
+                  <td key={index} className="py-2 px-2 text-center font-medium">
+                    {set.matchTiebreak ? set.tiebreak?.[side] ?? 0 : set[side]}
+                    {!set.matchTiebreak && set.tiebreak && set.tiebreak[side] < set.tiebreak[other(side)] && (
+                      <sup className="ml-0.5 text-xs text-gray-400">{set.tiebreak[side]}</sup>
+                    )}
+                  </td>
+                ))}
+                {sport === 'tennis' && !state.winner && (
+                  <td className="py-2 px-2 text-center font-bold text-yellow-300">{gamePoints[side]}</td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {state.winner ? (
+        <p className="text-center text-white">
+          {state.winner === 'us' ? 'Won' : 'Lost'} {formatCourtScore(state, sport)}
+        </p>
+      ) : (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-400">
+            {serverName} serving
+            {sport === 'pickleball' && (
+              <span className="ml-2 text-white font-medium">{formatScoreCall(state)}</span>
+            )}
+          </p>
+          <div className="grid grid-cols-2 gap-2">
+            {(['us', 'them'] as const).map((side) => (
+              <Button
+                key={side}
+                onClick={() => addPoint({ winner: side })}
+                disabled={saving}
+                className={side === 'us' ? 'bg-blue-500 hover:bg-blue-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-white'}
+              >
+                Point {side === 'us' ? 'Us' : 'Them'}
+              </Button>
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {POINT_OUTCOMES[sport].map((option) => (
+              <Button
+                key={option.value}
+                size="sm"
+                variant="outline"
+                onClick={() => addPoint({
+                  winner: getOutcomeWinner(sport, option.value, state.server),
+                  outcome: option.value
+                })}
+                disabled={saving}
+                className="border-white/10 hover:bg-blue-500/10"
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() => savePoints(court.points.slice(0, -1))}
+          disabled={saving || court.points.length === 0}
+          className="text-gray-400 hover:bg-white/5"
+        >
+          <Undo2 className="w-4 h-4 mr-2" />
+          Undo Point
+        </Button>
+      </div>
+
+      {history.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <h4 className="text-sm font-medium text-gray-400 mb-2">Points</h4>
+            <div className="space-y-1 max-h-72 overflow-y-auto pr-2">
+              {groupByGame(history).map((game) => (
+                <div key={game.key} className="flex items-start gap-3 text-xs">
+                  <span className="w-24 shrink-0 text-gray-500">
+                    {sport === 'tennis'
+                      ? `S${game.set} ${game.tiebreak ? 'TB' : `G${game.game}`}`
+                      : `Game ${game.game}`}
+                  </span>
+                  <span className="flex flex-wrap gap-1">
+                    {game.points.map((point, index) => (
+                      <span
+                        key={index}
+                        title={[
+                          point.winner === 'us' ? 'Us' : 'Them',
+                          point.outcome && OUTCOME_LABELS.get(point.outcome),
+                          `${point.server === 'us' ? 'our' : 'their'} serve`
+                        ].filter(Boolean).join(', ')}
+                        className={cn(
+                          'px-1.5 py-0.5 rounded',
+                          point.winner === 'us' ? 'bg-blue-500/20 text-blue-300' : 'bg-red-500/20 text-red-300',
+                          point.server === 'us' && 'ring-1 ring-inset ring-yellow-400/40'
+                        )}
+                      >
+                        {point.outcome ? OUTCOME_LABELS.get(point.outcome)?.split(' ').map(word => word[0]).join('') : '•'}
+                      </span>
+                    ))}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+          <div>
+            <h4 className="text-sm font-medium text-gray-400 mb-2">Serve and Return</h4>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-400 border-b border-white/10">
+                  <th className="py-1 pr-4 font-medium" />
+                  <th className="py-1 pr-4 font-medium text-right">Us</th>
+                  <th className="py-1 font-medium text-right">Them</th>
+                </tr>
+              </thead>
+              <tbody>
+                {SUMMARY_ROWS.map((row) => (
+                  <tr key={row.label} className="border-b border-white/5 text-white">
+                    <td className="py-1 pr-4 text-gray-400">{row.label}</td>
+                    <td className="py-1 pr-4 text-right">{row.value(summaries.us)}</td>
+                    <td className="py-1 text-right">{row.value(summaries.them)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,195 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { useToast } from '@/components/ui/use-toast';
+import {
+  TEAM_GENDERS,
+  TEAM_LEVELS,
+  createTeam,
+  type TeamGender,
+  type TeamLevel
+} from '@/lib/teams';
+import { getErrorMessage } from '@/lib/utils';
+import { useSeasons } from '@/hooks/useSeasons';
+
+const CURRENT_SEASON = 'current';
+
+interface CreateTeamDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  sports: { id: string; name: string }[];
+  onCreated: (teamId: string) => void;
+}
+
+export function CreateTeamDialog({ open, onOpenChange, sports, onCreated }: CreateTeamDialogProps) {
+  const [sportId, setSportId] = useState('');
+  const [gender, setGender] = useState<TeamGender>('coed');
+  const [level, setLevel] = useState<TeamLevel>('varsity');
+  const [seasonId, setSeasonId] = useState(CURRENT_SEASON);
+  const [name, setName] = useState('');
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+  const { seasons } = useSeasons();
+
+  if (!open) return null;
+
+  const sportSeasons = seasons.filter(season => season.sport_id === sportId);
+
+  const reset = () => {
+    setSportId('');
+    setGender('coed');
+    setLevel('varsity');
+    setSeasonId(CURRENT_SEASON);
+    setName('');
+  };
+
+  const handleCreate = async () => {
+    if (!sportId) {
+      toast({
+        title: "Error",
+        description: "Please select a sport",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const teamId = await createTeam({
+        sportId,
+        gender,
+        level,
+        seasonId: seasonId === CURRENT_SEASON ? null : seasonId,
+        name
+      });
+      toast({
+        title: "Team created",
+        description: "Your new team is ready for athletes"
+      });
+      reset();
+      onOpenChange(false);
+      onCreated(teamId);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error),
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-gray-900 border border-blue-500/20 text-white">
+        <DialogHeader>
+          <DialogTitle>New Team</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label className="text-gray-400">Sport</Label>
+            <Select
+              value={sportId}
+              onValueChange={(value) => {
+                setSportId(value);
+                setSeasonId(CURRENT_SEASON);
+              }}
+            >
+              <SelectTrigger className="bg-blue-500/5 border-blue-500/20 text-white">
+                <SelectValue placeholder="Select sport" />
+              </SelectTrigger>
+              <SelectContent>
+                {sports.map((sport) => (
+                  <SelectItem key={sport.id} value={sport.id}>
+                    {sport.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label className="text-gray-400">Gender</Label>
+              <Select value={gender} onValueChange={(value: TeamGender) => setGender(value)}>
+                <SelectTrigger className="bg-blue-500/5 border-blue-500/20 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TEAM_GENDERS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-gray-400">Level</Label>
+              <Select value={level} onValueChange={(value: TeamLevel) => setLevel(value)}>
+                <SelectTrigger className="bg-blue-500/5 border-blue-500/20 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TEAM_LEVELS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-gray-400">Season</Label>
+            <Select value={seasonId} onValueChange={setSeasonId}>
+              <SelectTrigger className="bg-blue-500/5 border-blue-500/20 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={CURRENT_SEASON}>Current season</SelectItem>
+                {sportSeasons.map((season) => (
+                  <SelectItem key={season.id} value={season.id}>
+                    {season.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="team-name" className="text-gray-400">Name (optional)</Label>
+            <Input
+              id="team-name"
+              placeholder="Defaults to level, gender and sport"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="bg-blue-500/5 border-blue-500/20 text-white"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleCreate}
+            disabled={saving}
+            className="bg-blue-500 hover:bg-blue-600 text-white"
+          >
+            {saving ? <LoadingSpinner size="sm" /> : 'Create Team'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,429 @@
+import { useState, useEffect, useCallback } from 'react';
+import { BookOpen, Pencil, Trash2, Undo2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { useToast } from '@/components/ui/use-toast';
+import { ConfirmationDialog } from '@/components/ui/confirmation-dialog';
+import { BoxScoreGrid } from '@/components/BoxScoreGrid';
+import { ScorebookPlayEntry } from '@/components/ScorebookPlayEntry';
+import { ScorebookSetupDialog } from '@/components/ScorebookSetupDialog';
+import { useConfirmation } from '@/hooks/useConfirmation';
+import {
+  BASERUNNING_KINDS,
+  deleteScorebook,
+  fetchScorebook,
+  formatFielders,
+  formatHalfInning,
+  formatInningsPitched,
+  getPlateResult,
+  getRunsTotal,
+  replayScorebook,
+  saveScorebookPlays,
+  type DiamondSport,
+  type PlayedPlay,
+  type RunnerMove,
+  type Scorebook,
+  type ScorebookPlay,
+  type Side
+} from '@/lib/scorebook';
+import type { SportDefinition } from '@/lib/sport-definitions';
+import type { Game } from '@/lib/stats';
+import type { TeamMember } from '@/lib/teams';
+import { cn, getErrorMessage } from '@/lib/utils';
+
+interface DiamondScorebookProps {
+  game: Game;
+  sport: SportDefinition;
+  diamondSport: DiamondSport;
+  // Athletes in roster order
+  athletes: TeamMember[];
+  // Called when the box scores or the game score change
+  onSaved?: () => void;
+}
+
+const BASE_NAMES = ['home', '1st', '2nd', '3rd'];
+
+const describeMove = (move: RunnerMove) => {
+  const runner = move.from === 0 ? 'batter' : `runner on ${BASE_NAMES[move.from]}`;
+  if (move.to === 'out') return `${runner} out`;
+  if (move.to === 4) return `${runner} scores`;
+  return move.to === move.from ? null : `${runner} to ${BASE_NAMES[move.to]}`;
+};
+
+// Play-by-play scorebook for a baseball or softball game. Until one is
+// started, the box score can be entered directly instead.
+export function DiamondScorebook({ game, sport, diamondSport, athletes, onSaved }: DiamondScorebookProps) {
+  const [book, setBook] = useState<Scorebook | null>(null);
+  const [showSetup, setShowSetup] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+  const deleteConfirmation = useConfirmation({
+    title: 'Delete Scorebook',
+    message: 'Every play will be removed, along with the box score and game score it produced.',
+    confirmText: 'Delete'
+  });
+
+  const loadScorebook = useCallback(async () => {
+    try {
+      setBook(await fetchScorebook(game.id));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error),
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [game.id, toast]);
+
+  useEffect(() => {
+    loadScorebook();
+  }, [loadScorebook]);
+
+  const handleSaved = (saved: Scorebook) => {
+    setBook(saved);
+    onSaved?.();
+  };
+
+  const savePlays = async (plays: ScorebookPlay[]) => {
+    if (!book) return;
+
+    setSaving(true);
+    try {
+      handleSaved(await saveScorebookPlays(book, plays));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error),
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!book || !(await deleteConfirmation.confirm())) return;
+
+    try {
+      await deleteScorebook(book);
+      setBook(null);
+      onSaved?.();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error),
+        variant: "destructive"
+      });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  const setupDialog = (
+    <ScorebookSetupDialog
+      open={showSetup}
+      onOpenChange={setShowSetup}
+      gameId={game.id}
+      sport={diamondSport}
+      athletes={athletes}
+      book={book}
+      defaultBatsFirst={game.home_away !== 'home'}
+      onSaved={handleSaved}
+    />
+  );
+
+  if (!book) {
+    return (
+      <div className="space-y-6">
+        <div className="flex items-center justify-between gap-4 p-4 rounded-lg border border-white/10">
+          <p className="text-sm text-gray-400">
+            Score the game play by play in the scorebook, or enter the box score below
+          </p>
+          <Button
+            size="sm"
+            onClick={() => setShowSetup(true)}
+            disabled={athletes.length === 0}
+            className="bg-blue-500 hover:bg-blue-600 text-white shrink-0"
+          >
+            <BookOpen className="w-4 h-4 mr-2" />
+            Start Scorebook
+          </Button>
+        </div>
+        <BoxScoreGrid key={game.id} sport={sport} gameId={game.id} athletes={athletes} />
+        {setupDialog}
+      </div>
+    );
+  }
+
+  const names = new Map(athletes.map(athlete => [athlete.user_id, athlete.full_name ?? athlete.email]));
+  const nameOf = (athleteId: string | null) => (athleteId ? names.get(athleteId) ?? 'Former player' : 'Opponent');
+  const { state, history, totals } = replayScorebook(book);
+  const innings = Math.max(book.innings, state.inning);
+  const sides: Side[] = book.bats_first ? ['us', 'them'] : ['them', 'us'];
+  const sideName = (side: Side) => (side === 'us' ? 'Us' : game.opponent);
+  const opposingBatter = (spot: number) => `${game.opponent} #${spot + 1}`;
+
+  const dueUp = state.dueUp[state.batting] % (state.batting === 'us' ? state.lineup.length : book.opponent_batters);
+  const batterName = state.batting === 'us' ? nameOf(state.lineup[dueUp]?.athleteId ?? null) : opposingBatter(dueUp);
+  const runnerName = (base: number) => {
+    const runner = state.bases[base - 1];
+    if (!runner) return '';
+    return runner.athleteId ? nameOf(runner.athleteId) : opposingBatter(runner.spot);
+  };
+  const pitches = totals.get(state.pitcherId)?.pitches ?? 0;
+
+  const describe = (played: PlayedPlay) => {
+    const { play } = played;
+    if (play.type === 'plate_appearance') {
+      const batter = played.batting === 'us' ? nameOf(played.batterId) : opposingBatter(played.spot ?? 0);
+      const moves = play.runners.filter(move => move.from !== 0).map(describeMove).filter(Boolean);
+      const fielders = formatFielders(play.fielders);
+      return [
+        `${batter}: ${getPlateResult(play.result).label}${fielders ? ` (${fielders})` : ''}`,
+        ...moves
+      ].join(', ') + ` • ${play.pitches} ${play.pitches === 1 ? 'pitch' : 'pitches'}`;
+    }
+    if (play.type === 'baserunning') {
+      const label = BASERUNNING_KINDS.find(option => option.value === play.kind)?.label ?? play.kind;
+      return `${label}: ${play.runners.map(describeMove).filter(Boolean).join(', ')}`;
+    }
+    if (play.type === 'substitution') {
+      return `${nameOf(play.athleteId)} in at spot ${play.spot + 1} (${play.position})`;
+    }
+    return `${nameOf(play.athleteId)} now pitching`;
+  };
+
+  const halves = history.reduce<{ key: string; label: string; plays: PlayedPlay[] }[]>((groups, played) => {
+    const key = `${played.inning}-${played.half}`;
+    const last = groups[groups.length - 1];
+    if (last?.key === key) {
+      last.plays.push(played);
+    } else {
+      groups.push({ key, label: formatHalfInning(played.inning, played.half), plays: [played] });
+    }
+    return groups;
+  }, []);
+
+  const batters = [...new Set([...book.lineup.map(spot => spot.athleteId), ...state.lineup.map(spot => spot.athleteId)])];
+  const pitchers = [...new Set([book.starting_pitcher, ...book.plays.flatMap(play => (play.type === 'pitching_change' ? [play.athleteId] : []))])];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-3 text-white">
+          <span className="font-medium">{formatHalfInning(state.inning, state.half)}</span>
+          <span className="text-gray-400">
+            {state.outs} {state.outs === 1 ? 'out' : 'outs'}
+          </span>
+          <span className="relative inline-block w-10 h-10" aria-label="Runners on base">
+            {[
+              { base: 2, className: 'left-1/2 top-0 -translate-x-1/2' },
+              { base: 3, className: 'left-0 top-1/2 -translate-y-1/2' },
+              { base: 1, className: 'right-0 top-1/2 -translate-y-1/2' }
+            ].map(({ base, className }) => (
+              <span
+                key={base}
+                title={runnerName(base) || undefined}
+                className={cn(
+                  'absolute w-3 h-3 rotate-45 border',
+                  className,
+                  state.bases[base - 1] ? 'bg-yellow-400 border-yellow-400' : 'border-gray-500'
+                )}
+              />
+            ))}
+          </span>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => savePlays(book.plays.slice(0, -1))}
+            disabled={saving || book.plays.length === 0}
+            className="text-gray-400 hover:bg-white/5"
+          >
+            <Undo2 className="w-4 h-4 mr-2" />
+            Undo Play
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setShowSetup(true)}
+            className="border-white/10 hover:bg-blue-500/10"
+          >
+            <Pencil className="w-4 h-4 mr-2" />
+            Lineup
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={handleDelete}
+            className="text-red-400 hover:bg-red-500/10"
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-gray-400 border-b border-white/10">
+              <th className="py-2 pr-4 font-medium text-left" />
+              {Array.from({ length: innings }, (_, index) => (
+                <th key={index} className="py-2 px-2 font-medium text-center">{index + 1}</th>
+              ))}
+              <th className="py-2 px-2 font-medium text-center">R</th>
+              <th className="py-2 px-2 font-medium text-center">H</th>
+              <th className="py-2 px-2 font-medium text-center">E</th>
+            </tr>
+          </thead>
+          <tbody>
+            {sides.map((side) => (
+              <tr key={side} className="border-b border-white/5 text-white">
+                <td className="py-2 pr-4">{sideName(side)}</td>
+                {Array.from({ length: innings }, (_, index) => {
+                  // The side batting first has come up in the current inning
+                  // from the top; the other only from the bottom
+                  const reached = index + 1 < state.inning
+                    || (index + 1 === state.inning && (side === sides[0] || state.half === 'bottom'));
+                  return (
+                    <td key={index} className="py-2 px-2 text-center">
+                      {reached ? state.runs[side][index] ?? 0 : ''}
+                    </td>
+                  );
+                })}
+                <td className="py-2 px-2 text-center font-bold">{getRunsTotal(state, side)}</td>
+                <td className="py-2 px-2 text-center">{state.hits[side]}</td>
+                <td className="py-2 px-2 text-center">{state.errors[side]}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="p-4 rounded-lg border border-white/10 space-y-4">
+        <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm">
+          <span className="text-gray-400">
+            At bat: <span className="text-white">{batterName}</span>
+          </span>
+          <span className="text-gray-400">
+            Pitching: <span className="text-white">{nameOf(state.pitcherId)}</span> ({pitches} {pitches === 1 ? 'pitch' : 'pitches'})
+          </span>
+        </div>
+        <ScorebookPlayEntry
+          key={book.plays.length}
+          state={state}
+          batterName={batterName}
+          runnerName={runnerName}
+          athletes={athletes}
+          names={names}
+          saving={saving}
+          onRecord={(play) => savePlays([...book.plays, play])}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div>
+          <h4 className="text-sm font-medium text-gray-400 mb-2">Plays</h4>
+          {halves.length === 0 ? (
+            <p className="text-sm text-gray-500">No plays yet</p>
+          ) : (
+            <div className="space-y-3 max-h-96 overflow-y-auto pr-2">
+              {halves.map((half) => (
+                <div key={half.key}>
+                  <p className="text-xs font-medium text-gray-500 mb-1">{half.label}</p>
+                  <ol className="space-y-1">
+                    {half.plays.map((played, index) => (
+                      <li key={index} className="text-sm text-gray-300">
+                        {describe(played)}
+                        {played.runs > 0 && (
+                          <span className="ml-2 text-yellow-300">
+                            +{played.runs} {played.runs === 1 ? 'run' : 'runs'}
+                          </span>
+                        )}
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-4">
+          <div className="overflow-x-auto">
+            <h4 className="text-sm font-medium text-gray-400 mb-2">Batting</h4>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-gray-400 border-b border-white/10">
+                  <th className="py-1 pr-4 font-medium text-left">Player</th>
+                  {['AB', 'R', 'H', 'RBI', 'BB', 'SO', 'SB'].map((heading) => (
+                    <th key={heading} className="py-1 px-2 font-medium text-right">{heading}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {batters.map((athleteId) => {
+                  const line = totals.get(athleteId) ?? {};
+                  return (
+                    <tr key={athleteId} className="border-b border-white/5 text-white">
+                      <td className="py-1 pr-4">{nameOf(athleteId)}</td>
+                      {['at_bats', 'runs', 'hits', 'rbi', 'walks', 'strikeouts', 'stolen_bases'].map((key) => (
+                        <td key={key} className="py-1 px-2 text-right">{line[key] ?? 0}</td>
+                      ))}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          <div className="overflow-x-auto">
+            <h4 className="text-sm font-medium text-gray-400 mb-2">Pitching</h4>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-gray-400 border-b border-white/10">
+                  <th className="py-1 pr-4 font-medium text-left">Pitcher</th>
+                  {['IP', 'H', 'ER', 'BB', 'K', 'PC'].map((heading) => (
+                    <th key={heading} className="py-1 px-2 font-medium text-right">{heading}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {pitchers.map((athleteId) => {
+                  const line = totals.get(athleteId) ?? {};
+                  return (
+                    <tr key={athleteId} className="border-b border-white/5 text-white">
+                      <td className="py-1 pr-4">{nameOf(athleteId)}</td>
+                      <td className="py-1 px-2 text-right">{formatInningsPitched(line.innings_pitched ?? 0)}</td>
+                      {['hits_allowed', 'earned_runs', 'pitching_walks', 'pitching_strikeouts', 'pitches'].map((key) => (
+                        <td key={key} className="py-1 px-2 text-right">{line[key] ?? 0}</td>
+                      ))}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+
+      {setupDialog}
+
+      <ConfirmationDialog
+        open={deleteConfirmation.isOpen}
+        onConfirm={deleteConfirmation.handleConfirm}
+        onCancel={deleteConfirmation.handleCancel}
+        {...deleteConfirmation.options}
+      />
+    </div>
+  );
+}
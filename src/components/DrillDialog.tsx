@@ -0,0 +1,193 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { useToast } from '@/components/ui/use-toast';
+import { createDrill, parseTags, updateDrill, type Drill } from '@/lib/practice-plans';
+import { getErrorMessage } from '@/lib/utils';
+
+const ANY_SPORT = 'any';
+
+interface DrillDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  organizationId: string;
+  sports: { id: string; name: string }[];
+  // The drill to edit; a new drill is created when this is null
+  drill: Drill | null;
+  onSaved: () => void;
+}
+
+export function DrillDialog({ open, onOpenChange, organizationId, sports, drill, onSaved }: DrillDialogProps) {
+  const [name, setName] = useState('');
+  const [sportId, setSportId] = useState(ANY_SPORT);
+  const [duration, setDuration] = useState('');
+  const [description, setDescription] = useState('');
+  const [equipment, setEquipment] = useState('');
+  const [focus, setFocus] = useState('');
+  const [mediaUrl, setMediaUrl] = useState('');
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+    setName(drill?.name ?? '');
+    setSportId(drill?.sport_id ?? (sports.length === 1 ? sports[0].id : ANY_SPORT));
+    setDuration(drill ? String(drill.duration_minutes) : '10');
+    setDescription(drill?.description ?? '');
+    setEquipment(drill?.equipment.join(', ') ?? '');
+    setFocus(drill?.focus.join(', ') ?? '');
+    setMediaUrl(drill?.media_url ?? '');
+  }, [open, drill, sports]);
+
+  if (!open) return null;
+
+  const minutes = Number(duration);
+  const validUrl = !mediaUrl.trim() || /^https?:\/\//.test(mediaUrl.trim());
+
+  const handleSave = async () => {
+    const fields = {
+      sportId: sportId === ANY_SPORT ? null : sportId,
+      name,
+      description,
+      durationMinutes: minutes,
+      equipment: parseTags(equipment),
+      focus: parseTags(focus),
+      mediaUrl
+    };
+
+    setSaving(true);
+    try {
+      if (drill) {
+        await updateDrill(drill.id, fields);
+      } else {
+        await createDrill(organizationId, fields);
+      }
+      onOpenChange(false);
+      onSaved();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error),
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-gray-900 border border-blue-500/20 text-white max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{drill ? 'Edit Drill' : 'New Drill'}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="drill-name" className="text-gray-400">Name</Label>
+            <Input
+              id="drill-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="3-Man Weave"
+              className="bg-blue-500/5 border-blue-500/20 text-white"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label className="text-gray-400">Sport</Label>
+              <Select value={sportId} onValueChange={setSportId}>
+                <SelectTrigger className="bg-blue-500/5 border-blue-500/20 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY_SPORT}>Any sport</SelectItem>
+                  {sports.map((sport) => (
+                    <SelectItem key={sport.id} value={sport.id}>{sport.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="drill-duration" className="text-gray-400">Minutes</Label>
+              <Input
+                id="drill-duration"
+                type="number"
+                min={1}
+                value={duration}
+                onChange={(e) => setDuration(e.target.value)}
+                className="bg-blue-500/5 border-blue-500/20 text-white"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="drill-description" className="text-gray-400">Description</Label>
+            <Textarea
+              id="drill-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Setup, coaching points and progressions"
+              className="bg-blue-500/5 border-blue-500/20 text-white min-h-[100px]"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="drill-equipment" className="text-gray-400">Equipment</Label>
+            <Input
+              id="drill-equipment"
+              value={equipment}
+              onChange={(e) => setEquipment(e.target.value)}
+              placeholder="Cones, pinnies, 6 balls"
+              className="bg-blue-500/5 border-blue-500/20 text-white"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="drill-focus" className="text-gray-400">Focus</Label>
+            <Input
+              id="drill-focus"
+              value={focus}
+              onChange={(e) => setFocus(e.target.value)}
+              placeholder="Passing, conditioning"
+              className="bg-blue-500/5 border-blue-500/20 text-white"
+            />
+            <p className="text-xs text-gray-500">Separate equipment and focus tags with commas</p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="drill-media" className="text-gray-400">Diagram or video link</Label>
+            <Input
+              id="drill-media"
+              type="url"
+              value={mediaUrl}
+              onChange={(e) => setMediaUrl(e.target.value)}
+              placeholder="https://"
+              className="bg-blue-500/5 border-blue-500/20 text-white"
+            />
+            {!validUrl && <p className="text-xs text-red-400">Links must start with http:// or https://</p>}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={saving || !name.trim() || !(minutes > 0) || !validUrl}
+            className="bg-blue-500 hover:bg-blue-600 text-white"
+          >
+            {saving ? <LoadingSpinner size="sm" /> : drill ? 'Save' : 'Create'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,222 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Pencil, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { useToast } from '@/components/ui/use-toast';
+import { ConfirmationDialog } from '@/components/ui/confirmation-dialog';
+import { CourtMatchDialog } from '@/components/CourtMatchDialog';
+import { CourtMatchScorer } from '@/components/CourtMatchScorer';
+import { useConfirmation } from '@/hooks/useConfirmation';
+import {
+  compareCourts,
+  deleteCourtMatch,
+  fetchCourtMatches,
+  getDualMatchResult,
+  type CourtMatch,
+  type RacketSport
+} from '@/lib/court-matches';
+import type { TeamMember } from '@/lib/teams';
+import { cn, getErrorMessage } from '@/lib/utils';
+
+interface DualMatchScorecardProps {
+  gameId: string;
+  sport: RacketSport;
+  // Athletes in roster order
+  athletes: TeamMember[];
+  // Called when the dual match result or box scores change
+  onSaved?: () => void;
+}
+
+// The courts of a tennis or pickleball dual match. Each decided court
+// counts one toward the team result.
+export function DualMatchScorecard({ gameId, sport, athletes, onSaved }: DualMatchScorecardProps) {
+  const [courts, setCourts] = useState<CourtMatch[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [editing, setEditing] = useState<CourtMatch | null>(null);
+  const [showDialog, setShowDialog] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+  const deleteConfirmation = useConfirmation({
+    title: 'Delete Court',
+    message: 'The court and every point played on it will be removed.',
+    confirmText: 'Delete'
+  });
+
+  const loadCourts = useCallback(async () => {
+    try {
+      const data = await fetchCourtMatches(gameId);
+      setCourts(data);
+      setSelectedId(current => current ?? data.find(court => !court.winner)?.id ?? data[0]?.id ?? null);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error),
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [gameId, toast]);
+
+  useEffect(() => {
+    loadCourts();
+  }, [loadCourts]);
+
+  const handleCourtSaved = (saved: CourtMatch) => {
+    setSelectedId(saved.id);
+    loadCourts();
+    onSaved?.();
+  };
+
+  const handleCourtChange = (updated: CourtMatch) => {
+    const previous = courts.find(court => court.id === updated.id);
+    setCourts(courts.map(court => (court.id === updated.id ? updated : court)));
+    if (previous?.winner !== updated.winner) onSaved?.();
+  };
+
+  const handleDelete = async (court: CourtMatch) => {
+    if (!(await deleteConfirmation.confirm())) return;
+
+    try {
+      await deleteCourtMatch(court);
+      if (selectedId === court.id) setSelectedId(null);
+      loadCourts();
+      onSaved?.();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error),
+        variant: "destructive"
+      });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  const names = new Map(athletes.map(athlete => [athlete.user_id, athlete.full_name ?? athlete.email]));
+  const result = getDualMatchResult(courts);
+  const sorted = [...courts].sort(compareCourts);
+  const selected = courts.find(court => court.id === selectedId) ?? null;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-400">
+          Courts won <span className="text-white font-bold">{result.us}–{result.them}</span>
+          {result.us + result.them < courts.length && ` • ${courts.length - result.us - result.them} in progress`}
+        </p>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => {
+            setEditing(null);
+            setShowDialog(true);
+          }}
+          disabled={athletes.length === 0}
+          className="border-white/10 hover:bg-blue-500/10"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Add Court
+        </Button>
+      </div>
+
+      {sorted.length === 0 ? (
+        <p className="text-center text-gray-400 py-8">Add the singles and doubles courts for this dual match</p>
+      ) : (
+        <div className="space-y-2">
+          {sorted.map((court) => (
+            <div
+              key={court.id}
+              onClick={() => setSelectedId(court.id)}
+              className={cn(
+                'group flex items-center gap-4 p-3 rounded-lg border cursor-pointer transition-colors',
+                court.id === selectedId
+                  ? 'border-blue-500/40 bg-blue-500/10'
+                  : 'border-white/10 hover:bg-white/5'
+              )}
+            >
+              <span className="w-20 shrink-0 text-sm text-gray-400">
+                #{court.line} {court.format === 'singles' ? 'Singles' : 'Doubles'}
+              </span>
+              <span className="flex-1 min-w-0 truncate text-white">
+                {court.players.map(id => names.get(id) ?? 'Former player').join(' / ')}
+                {court.opponents.length > 0 && (
+                  <span className="text-gray-400"> vs {court.opponents.join(' / ')}</span>
+                )}
+              </span>
+              <span
+                className={cn(
+                  'text-sm font-medium',
+                  court.winner === 'us' ? 'text-green-400' : court.winner === 'them' ? 'text-red-400' : 'text-gray-400'
+                )}
+              >
+                {court.winner ? `${court.winner === 'us' ? 'W' : 'L'} ${court.score}` : court.score ?? 'Not started'}
+              </span>
+              <div className="flex gap-1 opacity-0 group-hover:opacity-100">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setEditing(court);
+                    setShowDialog(true);
+                  }}
+                  className="text-gray-400 hover:bg-white/5"
+                >
+                  <Pencil className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleDelete(court);
+                  }}
+                  className="text-red-400 hover:bg-red-500/10"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {selected && (
+        <div className="pt-4 border-t border-white/10">
+          <CourtMatchScorer
+            key={selected.id}
+            court={selected}
+            sport={sport}
+            names={names}
+            onChange={handleCourtChange}
+          />
+        </div>
+      )}
+
+      <CourtMatchDialog
+        open={showDialog}
+        onOpenChange={setShowDialog}
+        gameId={gameId}
+        sport={sport}
+        athletes={athletes}
+        court={editing}
+        courts={courts}
+        onSaved={handleCourtSaved}
+      />
+
+      <ConfirmationDialog
+        open={deleteConfirmation.isOpen}
+        onConfirm={deleteConfirmation.handleConfirm}
+        onCancel={deleteConfirmation.handleCancel}
+        {...deleteConfirmation.options}
+      />
+    </div>
+  );
+}
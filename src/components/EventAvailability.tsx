@@ -0,0 +1,183 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { ChevronDown, ChevronUp, UserCheck } from 'lucide-react';
+import { useRealtimeSubscription } from '@/hooks/useRealtimeSubscription';
+import { useUpcomingRsvps } from '@/hooks/useUpcomingRsvps';
+import { getEventTitle } from '@/lib/events';
+import {
+  RSVP_REMINDER_OPTIONS,
+  getAvailability,
+  updateRsvpReminderHours,
+  type Rsvp
+} from '@/lib/rsvps';
+import { compareRosterOrder, fetchTeamMembers, type Team, type TeamMember } from '@/lib/teams';
+import type { SportDefinition } from '@/lib/sport-definitions';
+import { formatDate, formatTime, getErrorMessage } from '@/lib/utils';
+
+const REMINDERS_OFF = 'off';
+
+const AVAILABILITY_GROUPS = [
+  { key: 'going', label: 'Going', className: 'text-emerald-400' },
+  { key: 'maybe', label: 'Maybe', className: 'text-yellow-400' },
+  { key: 'notGoing', label: 'Not Going', className: 'text-red-400' },
+  { key: 'noResponse', label: 'No Response', className: 'text-gray-400' }
+] as const;
+
+interface EventAvailabilityProps {
+  team: Team;
+  sport: SportDefinition | null;
+  onReminderChange: () => void;
+}
+
+export function EventAvailability({ team, sport, onReminderChange }: EventAvailabilityProps) {
+  const [athletes, setAthletes] = useState<TeamMember[]>([]);
+  const [expandedEventId, setExpandedEventId] = useState<string | null>(null);
+  const teamIds = useMemo(() => [team.id], [team.id]);
+  const { events, rsvps, loading } = useUpcomingRsvps(teamIds, 6);
+  const { toast } = useToast();
+
+  const loadAthletes = useCallback(async () => {
+    try {
+      const members = await fetchTeamMembers(team.id);
+      setAthletes(members.filter(member => member.role === 'athlete').sort(compareRosterOrder));
+    } catch (error) {
+      console.error('Error loading roster:', error);
+    }
+  }, [team.id]);
+
+  useEffect(() => {
+    loadAthletes();
+  }, [loadAthletes]);
+
+  useRealtimeSubscription('team_members', loadAthletes);
+
+  const rsvpsByEvent = useMemo(() => {
+    const byEvent = new Map<string, Rsvp[]>();
+    for (const rsvp of rsvps) {
+      byEvent.set(rsvp.event_id, [...(byEvent.get(rsvp.event_id) ?? []), rsvp]);
+    }
+    return byEvent;
+  }, [rsvps]);
+
+  const handleReminderChange = async (value: string) => {
+    try {
+      await updateRsvpReminderHours(team.id, value === REMINDERS_OFF ? null : Number(value));
+      onReminderChange();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error),
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Card className="bg-gray-900/50 backdrop-blur-sm border border-white/10">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center gap-2">
+          <UserCheck className="h-5 w-5 text-blue-400" />
+          Availability
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <LoadingSpinner />
+          </div>
+        ) : events.length === 0 ? (
+          <p className="text-sm text-gray-400 text-center py-2">No upcoming events</p>
+        ) : (
+          events.map((event) => {
+            const eventRsvps = rsvpsByEvent.get(event.id) ?? [];
+            const availability = getAvailability(athletes, eventRsvps);
+            const expanded = expandedEventId === event.id;
+
+            return (
+              <div
+                key={event.id}
+                className="p-3 rounded-lg bg-gray-800/50 border border-white/10"
+              >
+                <button
+                  type="button"
+                  onClick={() => setExpandedEventId(expanded ? null : event.id)}
+                  className="w-full text-left text-sm"
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="text-white font-medium truncate">{getEventTitle(event, sport)}</p>
+                      <p className="text-gray-400">
+                        {formatDate(event.starts_at, { weekday: 'short', month: 'short', day: 'numeric' })} • {formatTime(event.starts_at)}
+                      </p>
+                    </div>
+                    {expanded
+                      ? <ChevronUp className="w-4 h-4 text-gray-400 shrink-0" />
+                      : <ChevronDown className="w-4 h-4 text-gray-400 shrink-0" />}
+                  </div>
+                  <div className="flex flex-wrap gap-x-3 gap-y-1 mt-2 text-xs">
+                    {AVAILABILITY_GROUPS.map((group) => (
+                      <span key={group.key} className={group.className}>
+                        {availability[group.key].length} {group.label.toLowerCase()}
+                      </span>
+                    ))}
+                  </div>
+                </button>
+
+                {expanded && (
+                  <div className="mt-3 space-y-3 border-t border-white/10 pt-3">
+                    {AVAILABILITY_GROUPS.map((group) => availability[group.key].length > 0 && (
+                      <div key={group.key} className="space-y-1">
+                        <p className={`text-xs font-medium uppercase ${group.className}`}>{group.label}</p>
+                        {availability[group.key].map((athlete) => {
+                          const reason = eventRsvps.find(rsvp => rsvp.athlete_id === athlete.user_id)?.reason;
+                          return (
+                            <div key={athlete.user_id} className="text-sm">
+                              <p className="text-gray-300">{athlete.full_name || athlete.email}</p>
+                              {reason && <p className="text-xs text-gray-500 italic">{reason}</p>}
+                            </div>
+                          );
+                        })}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+
+        <div className="space-y-2 pt-2">
+          <Label className="text-gray-400">Remind athletes who have not answered</Label>
+          <Select
+            value={team.rsvp_reminder_hours === null ? REMINDERS_OFF : String(team.rsvp_reminder_hours)}
+            onValueChange={handleReminderChange}
+          >
+            <SelectTrigger className="bg-blue-500/5 border-blue-500/20 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RSVP_REMINDER_OPTIONS.map((option) => (
+                <SelectItem
+                  key={option.label}
+                  value={option.value === null ? REMINDERS_OFF : String(option.value)}
+                >
+                  {option.label}
+                </SelectItem>
+              ))}
+              {team.rsvp_reminder_hours !== null &&
+                !RSVP_REMINDER_OPTIONS.some(option => option.value === team.rsvp_reminder_hours) && (
+                  <SelectItem value={String(team.rsvp_reminder_hours)}>
+                    {team.rsvp_reminder_hours} hours before
+                  </SelectItem>
+                )}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
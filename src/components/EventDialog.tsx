@@ -0,0 +1,273 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { useToast } from '@/components/ui/use-toast';
+import { Trash2 } from 'lucide-react';
+import { createEvent, isPracticeType, updateEvent, type TeamEvent } from '@/lib/events';
+import { toDateTimeInput } from '@/lib/calendar';
+import { HOME_AWAY_OPTIONS, type HomeAway } from '@/lib/stats';
+import type { SportDefinition } from '@/lib/sport-definitions';
+import { getErrorMessage } from '@/lib/utils';
+
+const NO_HOME_AWAY = 'none';
+const DEFAULT_HOURS = 2;
+
+interface EventDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  teamId: string;
+  sport: SportDefinition | null;
+  // The event to edit; a new event is created when this is null
+  event: TeamEvent | null;
+  // Day to start a new event on
+  defaultDate?: Date | null;
+  onSaved: () => void;
+  onDelete?: (event: TeamEvent) => void;
+}
+
+// A new event starts at 3:30 PM on the chosen day, or the next hour today
+function getDefaultStart(date?: Date | null) {
+  const start = date ? new Date(date) : new Date();
+  if (date) {
+    start.setHours(15, 30, 0, 0);
+  } else {
+    start.setHours(start.getHours() + 1, 0, 0, 0);
+  }
+  return start;
+}
+
+export function EventDialog({
+  open,
+  onOpenChange,
+  teamId,
+  sport,
+  event,
+  defaultDate,
+  onSaved,
+  onDelete
+}: EventDialogProps) {
+  const [type, setType] = useState('');
+  const [opponent, setOpponent] = useState('');
+  const [location, setLocation] = useState('');
+  const [startsAt, setStartsAt] = useState('');
+  const [endsAt, setEndsAt] = useState('');
+  const [homeAway, setHomeAway] = useState<string>(NO_HOME_AWAY);
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const eventTypes = sport?.eventTypes ?? [];
+
+  useEffect(() => {
+    if (!open) return;
+    if (event) {
+      setType(event.type);
+      setOpponent(event.opponent ?? '');
+      setLocation(event.location ?? '');
+      setStartsAt(toDateTimeInput(new Date(event.starts_at)));
+      setEndsAt(toDateTimeInput(new Date(event.ends_at)));
+      setHomeAway(event.home_away ?? NO_HOME_AWAY);
+      setNotes(event.notes ?? '');
+    } else {
+      const start = getDefaultStart(defaultDate);
+      const end = new Date(start);
+      end.setHours(end.getHours() + DEFAULT_HOURS);
+      setType(sport?.eventTypes[0]?.value ?? 'practice');
+      setOpponent('');
+      setLocation('');
+      setStartsAt(toDateTimeInput(start));
+      setEndsAt(toDateTimeInput(end));
+      setHomeAway(NO_HOME_AWAY);
+      setNotes('');
+    }
+  }, [open, event, defaultDate, sport]);
+
+  if (!open) return null;
+
+  const handleStartChange = (value: string) => {
+    // Keep the event's length when the start moves
+    if (startsAt && endsAt && value) {
+      const length = new Date(endsAt).getTime() - new Date(startsAt).getTime();
+      setEndsAt(toDateTimeInput(new Date(new Date(value).getTime() + length)));
+    }
+    setStartsAt(value);
+  };
+
+  const handleSave = async () => {
+    if (!startsAt || !endsAt || new Date(endsAt) <= new Date(startsAt)) {
+      toast({
+        title: "Error",
+        description: "The event must end after it starts",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const fields = {
+      type,
+      opponent: isPracticeType(type) ? '' : opponent,
+      location,
+      startsAt: new Date(startsAt).toISOString(),
+      endsAt: new Date(endsAt).toISOString(),
+      homeAway: homeAway === NO_HOME_AWAY ? null : homeAway as HomeAway,
+      notes
+    };
+
+    setSaving(true);
+    try {
+      if (event) {
+        await updateEvent(event.id, fields);
+      } else {
+        await createEvent({ teamId, ...fields });
+      }
+      toast({
+        title: event ? "Event updated" : "Event added",
+        description: "The schedule has been updated"
+      });
+      onOpenChange(false);
+      onSaved();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error),
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-gray-900 border border-blue-500/20 text-white">
+        <DialogHeader>
+          <DialogTitle>{event ? 'Edit Event' : 'New Event'}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label className="text-gray-400">Type</Label>
+              <Select value={type} onValueChange={setType}>
+                <SelectTrigger className="bg-blue-500/5 border-blue-500/20 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {eventTypes.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                  {!eventTypes.some(option => option.value === type) && type && (
+                    <SelectItem value={type}>{type}</SelectItem>
+                  )}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-gray-400">Home / Away</Label>
+              <Select value={homeAway} onValueChange={setHomeAway}>
+                <SelectTrigger className="bg-blue-500/5 border-blue-500/20 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_HOME_AWAY}>—</SelectItem>
+                  {HOME_AWAY_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {!isPracticeType(type) && (
+            <div className="space-y-2">
+              <Label htmlFor="event-opponent" className="text-gray-400">Opponent</Label>
+              <Input
+                id="event-opponent"
+                value={opponent}
+                onChange={(e) => setOpponent(e.target.value)}
+                className="bg-blue-500/5 border-blue-500/20 text-white"
+              />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="event-location" className="text-gray-400">Location</Label>
+            <Input
+              id="event-location"
+              value={location}
+              onChange={(e) => setLocation(e.target.value)}
+              className="bg-blue-500/5 border-blue-500/20 text-white"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="event-start" className="text-gray-400">Starts</Label>
+              <Input
+                id="event-start"
+                type="datetime-local"
+                value={startsAt}
+                onChange={(e) => handleStartChange(e.target.value)}
+                className="bg-blue-500/5 border-blue-500/20 text-white"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="event-end" className="text-gray-400">Ends</Label>
+              <Input
+                id="event-end"
+                type="datetime-local"
+                value={endsAt}
+                onChange={(e) => setEndsAt(e.target.value)}
+                className="bg-blue-500/5 border-blue-500/20 text-white"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="event-notes" className="text-gray-400">Notes</Label>
+            <Textarea
+              id="event-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              className="bg-blue-500/5 border-blue-500/20 text-white"
+            />
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          {event && onDelete && (
+            <Button
+              variant="ghost"
+              onClick={() => onDelete(event)}
+              disabled={saving}
+              className="text-red-400 hover:text-red-300 hover:bg-red-500/10 sm:mr-auto"
+            >
+              <Trash2 className="w-4 h-4 mr-2" />
+              Delete
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={saving || !type}
+            className="bg-blue-500 hover:bg-blue-600 text-white"
+          >
+            {saving ? <LoadingSpinner size="sm" /> : event ? 'Save Event' : 'Add Event'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,192 @@
+import { useState, useMemo } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { TeamSelector } from '@/components/TeamSelector';
+import { createGoal, type Goal } from '@/lib/goals';
+import { parseTestInput } from '@/lib/performance-tests';
+import { getRecordMetrics } from '@/lib/records';
+import { getSportDefinition } from '@/lib/sport-definitions';
+import { parseStatInput } from '@/lib/stats';
+import type { Team, TeamMember } from '@/lib/teams';
+import { getErrorMessage } from '@/lib/utils';
+
+const WHOLE_TEAM = 'team';
+
+interface GoalDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  teams: Team[];
+  // Coaches pick who the goal is for; without a roster the goal is the
+  // athlete's own
+  athletes?: TeamMember[];
+  athleteId?: string;
+  onCreated: (goal: Goal) => void;
+}
+
+export function GoalDialog({ open, onOpenChange, teams, athletes, athleteId, onCreated }: GoalDialogProps) {
+  const [teamId, setTeamId] = useState<string | null>(null);
+  const [assignee, setAssignee] = useState(WHOLE_TEAM);
+  const [metricId, setMetricId] = useState('');
+  const [target, setTarget] = useState('');
+  const [dueOn, setDueOn] = useState('');
+  const [title, setTitle] = useState('');
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+  const team = teams.find(option => option.id === teamId) ?? teams[0] ?? null;
+  const sportName = team?.sport_name ?? '';
+  const metrics = useMemo(() => getRecordMetrics(getSportDefinition(sportName)), [sportName]);
+
+  if (!open || !team) return null;
+
+  const metric = metrics.find(option => option.id === metricId) ?? metrics[0];
+
+  const close = () => {
+    setAssignee(WHOLE_TEAM);
+    setMetricId('');
+    setTarget('');
+    setDueOn('');
+    setTitle('');
+    onOpenChange(false);
+  };
+
+  const handleCreate = async () => {
+    setSaving(true);
+    try {
+      const value = metric.source === 'test' ? parseTestInput(target) : parseStatInput(target);
+      if (value === null) throw new Error('Enter a target mark');
+
+      const goal = await createGoal({
+        teamId: team.id,
+        athleteId: athletes ? (assignee === WHOLE_TEAM ? null : assignee) : athleteId ?? null,
+        metric,
+        target: value,
+        dueOn,
+        title
+      });
+      close();
+      onCreated(goal);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error),
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => (value ? onOpenChange(value) : close())}>
+      <DialogContent className="bg-gray-900 border border-blue-500/20 text-white">
+        <DialogHeader>
+          <DialogTitle>New Goal</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          {teams.length > 1 && (
+            <div className="space-y-2">
+              <Label className="text-gray-400">Team</Label>
+              <TeamSelector
+                teams={teams}
+                value={team.id}
+                onChange={(value) => {
+                  setTeamId(value);
+                  setMetricId('');
+                }}
+              />
+            </div>
+          )}
+
+          {athletes && (
+            <div className="space-y-2">
+              <Label className="text-gray-400">For</Label>
+              <Select value={assignee} onValueChange={setAssignee}>
+                <SelectTrigger className="bg-blue-500/5 border-blue-500/20 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={WHOLE_TEAM}>Everyone on {team.name}</SelectItem>
+                  {athletes.map((athlete) => (
+                    <SelectItem key={athlete.user_id} value={athlete.user_id}>
+                      {athlete.full_name ?? athlete.email}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label className="text-gray-400">Stat or Test</Label>
+              <Select value={metric.id} onValueChange={setMetricId}>
+                <SelectTrigger className="bg-blue-500/5 border-blue-500/20 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {metrics.map((option) => (
+                    <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="goal-target" className="text-gray-400">
+                Target {metric.lowerIsBetter ? '(or lower)' : '(or higher)'}
+              </Label>
+              <Input
+                id="goal-target"
+                value={target}
+                onChange={(e) => setTarget(e.target.value)}
+                placeholder={metric.source === 'test' ? 'e.g. 5:00' : 'e.g. 20'}
+                className="bg-blue-500/5 border-blue-500/20 text-white"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="goal-due" className="text-gray-400">Due</Label>
+              <Input
+                id="goal-due"
+                type="date"
+                value={dueOn}
+                onChange={(e) => setDueOn(e.target.value)}
+                className="bg-blue-500/5 border-blue-500/20 text-white"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="goal-title" className="text-gray-400">Title (optional)</Label>
+              <Input
+                id="goal-title"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                placeholder="Sub-5:00 mile by March"
+                className="bg-blue-500/5 border-blue-500/20 text-white"
+              />
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={close} disabled={saving}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleCreate}
+            disabled={saving || !target.trim() || !dueOn}
+            className="bg-blue-500 hover:bg-blue-600 text-white"
+          >
+            {saving ? <LoadingSpinner size="sm" /> : 'Create'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
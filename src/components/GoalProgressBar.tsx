@@ -0,0 +1,36 @@
+import { formatDaysLeft, getGoalStatus, type GoalProgress } from '@/lib/goals';
+import { cn } from '@/lib/utils';
+
+interface GoalProgressBarProps {
+  progress: GoalProgress;
+  target: number;
+}
+
+// How far an athlete is from a goal's target, with its deadline status
+export function GoalProgressBar({ progress, target }: GoalProgressBarProps) {
+  const { metric, current, status, daysLeft } = progress;
+  const statusOption = getGoalStatus(status);
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between gap-2 text-xs">
+        <span className="text-gray-300">
+          {current === null ? 'No marks yet' : metric.format(current)}
+          <span className="text-gray-500"> / {metric.format(target)}</span>
+        </span>
+        <span className={cn('px-2 py-0.5 rounded-full border', statusOption.className)}>
+          {status === 'achieved' || status === 'missed' ? statusOption.label : formatDaysLeft(daysLeft)}
+        </span>
+      </div>
+      <div className="h-2 rounded-full bg-gray-800 overflow-hidden">
+        <div
+          className={cn(
+            'h-full rounded-full transition-all',
+            status === 'achieved' ? 'bg-emerald-500' : status === 'missed' ? 'bg-red-500' : 'bg-blue-500'
+          )}
+          style={{ width: `${Math.round(progress.progress * 100)}%` }}
+        />
+      </div>
+    </div>
+  );
+}
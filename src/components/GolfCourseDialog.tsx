@@ -0,0 +1,326 @@
+import { useState, useEffect } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { useToast } from '@/components/ui/use-toast';
+import { HOLE_COUNTS, getPar, saveGolfCourse, type GolfCourse } from '@/lib/golf';
+import { getErrorMessage } from '@/lib/utils';
+
+interface GolfCourseDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The course to edit; a new course is created when this is null
+  course: GolfCourse | null;
+  onSaved: () => void;
+}
+
+interface TeeDraft {
+  id: string | null;
+  name: string;
+  courseRating: string;
+  slopeRating: string;
+  yardages: string[];
+}
+
+const DEFAULT_PAR = '4';
+
+const newTee = (holes: number): TeeDraft => ({
+  id: null,
+  name: '',
+  courseRating: '',
+  slopeRating: '113',
+  yardages: Array(holes).fill('')
+});
+
+// Keeps what was entered for the holes that remain and fills new ones
+function resize(values: string[], holes: number, fill: (index: number) => string) {
+  return Array.from({ length: holes }, (_, index) => values[index] ?? fill(index));
+}
+
+const isWhole = (input: string, min: number, max: number) => {
+  const value = Number(input);
+  return input.trim() !== '' && Number.isInteger(value) && value >= min && value <= max;
+};
+
+const cellInputClass = 'h-8 w-12 px-1 text-center bg-blue-500/5 border-blue-500/20 text-white';
+
+export function GolfCourseDialog({ open, onOpenChange, course, onSaved }: GolfCourseDialogProps) {
+  const [name, setName] = useState('');
+  const [location, setLocation] = useState('');
+  const [holeCount, setHoleCount] = useState(18);
+  const [pars, setPars] = useState<string[]>([]);
+  const [strokeIndexes, setStrokeIndexes] = useState<string[]>([]);
+  const [tees, setTees] = useState<TeeDraft[]>([]);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+    const holes = course?.pars.length ?? 18;
+    setName(course?.name ?? '');
+    setLocation(course?.location ?? '');
+    setHoleCount(holes);
+    setPars(course?.pars.map(String) ?? Array(holes).fill(DEFAULT_PAR));
+    setStrokeIndexes(course?.stroke_indexes.map(String) ?? Array.from({ length: holes }, (_, index) => String(index + 1)));
+    setTees(course?.tees.map(tee => ({
+      id: tee.id,
+      name: tee.name,
+      courseRating: String(tee.course_rating),
+      slopeRating: String(tee.slope_rating),
+      yardages: tee.yardages.map(String)
+    })) ?? [newTee(holes)]);
+  }, [open, course]);
+
+  if (!open) return null;
+
+  const holes = Array.from({ length: holeCount }, (_, index) => index);
+  const parTotal = getPar(pars.map(Number).filter(Number.isFinite));
+  const sortedIndexes = [...strokeIndexes].map(Number).sort((a, b) => a - b);
+  const validIndexes = sortedIndexes.every((value, index) => value === index + 1);
+  const validPars = pars.every(par => isWhole(par, 3, 6));
+  const validTees = tees.length > 0 && tees.every(tee =>
+    tee.name.trim()
+    && Number(tee.courseRating) > 0
+    && isWhole(tee.slopeRating, 55, 155)
+    && tee.yardages.every(yards => isWhole(yards, 1, 999))
+  );
+
+  const changeHoleCount = (count: number) => {
+    setHoleCount(count);
+    setPars(resize(pars, count, () => DEFAULT_PAR));
+    setStrokeIndexes(resize(strokeIndexes, count, index => String(index + 1)));
+    setTees(tees.map(tee => ({ ...tee, yardages: resize(tee.yardages, count, () => '') })));
+  };
+
+  const updateTee = (position: number, changes: Partial<TeeDraft>) => {
+    setTees(tees.map((tee, index) => (index === position ? { ...tee, ...changes } : tee)));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await saveGolfCourse(course?.id ?? null, {
+        name,
+        location,
+        pars: pars.map(Number),
+        strokeIndexes: strokeIndexes.map(Number),
+        tees: tees.map(tee => ({
+          id: tee.id,
+          name: tee.name.trim(),
+          yardages: tee.yardages.map(Number),
+          courseRating: Number(tee.courseRating),
+          slopeRating: Number(tee.slopeRating)
+        }))
+      });
+      onOpenChange(false);
+      onSaved();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error),
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-gray-900 border border-blue-500/20 text-white max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{course ? 'Edit Course' : 'New Course'}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-6 py-4">
+          <div className="grid grid-cols-1 md:grid-cols-[2fr_2fr_1fr] gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="course-name" className="text-gray-400">Name</Label>
+              <Input
+                id="course-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Pine Valley Golf Club"
+                className="bg-blue-500/5 border-blue-500/20 text-white"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="course-location" className="text-gray-400">Location</Label>
+              <Input
+                id="course-location"
+                value={location}
+                onChange={(e) => setLocation(e.target.value)}
+                placeholder="City, State"
+                className="bg-blue-500/5 border-blue-500/20 text-white"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label className="text-gray-400">Holes</Label>
+              <Select value={String(holeCount)} onValueChange={(value) => changeHoleCount(Number(value))}>
+                <SelectTrigger className="bg-blue-500/5 border-blue-500/20 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {HOLE_COUNTS.map((count) => (
+                    <SelectItem key={count} value={String(count)}>{count} holes</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="text-gray-400">Holes</Label>
+              <span className="text-sm text-gray-400">Par {parTotal}</span>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="text-sm">
+                <tbody>
+                  <tr>
+                    <th className="pr-2 text-left font-medium text-gray-400">Hole</th>
+                    {holes.map((index) => (
+                      <td key={index} className="px-0.5 text-center text-gray-400">{index + 1}</td>
+                    ))}
+                  </tr>
+                  <tr>
+                    <th className="pr-2 text-left font-medium text-gray-400">Par</th>
+                    {holes.map((index) => (
+                      <td key={index} className="px-0.5 py-0.5">
+                        <Input
+                          aria-label={`Hole ${index + 1} par`}
+                          inputMode="numeric"
+                          value={pars[index] ?? ''}
+                          onChange={(e) => setPars(pars.map((par, position) => (position === index ? e.target.value : par)))}
+                          className={cellInputClass}
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                  <tr>
+                    <th className="pr-2 text-left font-medium text-gray-400">Hcp</th>
+                    {holes.map((index) => (
+                      <td key={index} className="px-0.5 py-0.5">
+                        <Input
+                          aria-label={`Hole ${index + 1} stroke index`}
+                          inputMode="numeric"
+                          value={strokeIndexes[index] ?? ''}
+                          onChange={(e) => setStrokeIndexes(strokeIndexes.map((value, position) =>
+                            position === index ? e.target.value : value
+                          ))}
+                          className={cellInputClass}
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+            {!validPars && <p className="text-xs text-red-400">Each hole needs a par from 3 to 6</p>}
+            {!validIndexes && (
+              <p className="text-xs text-red-400">
+                Handicap (stroke index) must rank the holes 1 to {holeCount}, each once
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label className="text-gray-400">Tees</Label>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setTees([...tees, newTee(holeCount)])}
+                className="border-white/10 hover:bg-blue-500/10"
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add Tees
+              </Button>
+            </div>
+
+            {tees.map((tee, position) => (
+              <div key={tee.id ?? `new-${position}`} className="space-y-2 p-3 rounded-lg bg-gray-800/50 border border-white/10">
+                <div className="grid grid-cols-[2fr_1fr_1fr_auto] gap-2 items-end">
+                  <div className="space-y-1">
+                    <Label className="text-xs text-gray-400">Tees</Label>
+                    <Input
+                      value={tee.name}
+                      onChange={(e) => updateTee(position, { name: e.target.value })}
+                      placeholder="Blue"
+                      className="bg-blue-500/5 border-blue-500/20 text-white"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs text-gray-400">Course Rating</Label>
+                    <Input
+                      inputMode="decimal"
+                      value={tee.courseRating}
+                      onChange={(e) => updateTee(position, { courseRating: e.target.value })}
+                      placeholder={holeCount === 18 ? '71.2' : '35.6'}
+                      className="bg-blue-500/5 border-blue-500/20 text-white"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs text-gray-400">Slope</Label>
+                    <Input
+                      inputMode="numeric"
+                      value={tee.slopeRating}
+                      onChange={(e) => updateTee(position, { slopeRating: e.target.value })}
+                      className="bg-blue-500/5 border-blue-500/20 text-white"
+                    />
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setTees(tees.filter((_, index) => index !== position))}
+                    disabled={tees.length === 1}
+                    className="text-red-400 hover:bg-red-500/10"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+                <div className="overflow-x-auto">
+                  <div className="flex gap-1">
+                    {holes.map((index) => (
+                      <Input
+                        key={index}
+                        aria-label={`${tee.name || 'Tee'} hole ${index + 1} yards`}
+                        inputMode="numeric"
+                        placeholder={String(index + 1)}
+                        value={tee.yardages[index] ?? ''}
+                        onChange={(e) => updateTee(position, {
+                          yardages: tee.yardages.map((yards, hole) => (hole === index ? e.target.value : yards))
+                        })}
+                        className={cellInputClass}
+                      />
+                    ))}
+                  </div>
+                </div>
+              </div>
+            ))}
+            <p className="text-xs text-gray-500">
+              Enter the yards for each hole, and the course and slope rating for the {holeCount} holes from these tees
+            </p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={saving || !name.trim() || !validPars || !validIndexes || !validTees}
+            className="bg-blue-500 hover:bg-blue-600 text-white"
+          >
+            {saving ? <LoadingSpinner size="sm" /> : course ? 'Save' : 'Create'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
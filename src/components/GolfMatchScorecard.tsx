@@ -0,0 +1,224 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { useToast } from '@/components/ui/use-toast';
+import { ConfirmationDialog } from '@/components/ui/confirmation-dialog';
+import { GolfRoundDialog } from '@/components/GolfRoundDialog';
+import { useConfirmation } from '@/hooks/useConfirmation';
+import {
+  COUNTING_SCORES,
+  MATCH_PLAYERS,
+  deleteGolfRound,
+  fetchGolfCourses,
+  fetchMatchRounds,
+  formatToPar,
+  getCountingRounds,
+  getRoundStats,
+  getTeamScore,
+  indexTees,
+  type GolfCourse,
+  type GolfRound
+} from '@/lib/golf';
+import type { TeamMember } from '@/lib/teams';
+import { cn, getErrorMessage } from '@/lib/utils';
+
+interface GolfMatchScorecardProps {
+  teamId: string;
+  gameId: string;
+  playedOn: string;
+  // Athletes in roster order
+  athletes: TeamMember[];
+  onSaved?: () => void;
+}
+
+// The team's scorecards for a match. The lowest four of up to five scores
+// count toward the team total; the fifth is the drop score.
+export function GolfMatchScorecard({ teamId, gameId, playedOn, athletes, onSaved }: GolfMatchScorecardProps) {
+  const [rounds, setRounds] = useState<GolfRound[]>([]);
+  const [courses, setCourses] = useState<GolfCourse[]>([]);
+  const [editing, setEditing] = useState<GolfRound | null>(null);
+  const [showDialog, setShowDialog] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+  const deleteConfirmation = useConfirmation({
+    title: 'Delete Scorecard',
+    message: "The player's scorecard for this match will be removed.",
+    confirmText: 'Delete'
+  });
+
+  const loadRounds = useCallback(async () => {
+    try {
+      const [matchRounds, library] = await Promise.all([fetchMatchRounds(gameId), fetchGolfCourses()]);
+      setRounds(matchRounds);
+      setCourses(library);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error),
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [gameId, toast]);
+
+  useEffect(() => {
+    loadRounds();
+  }, [loadRounds]);
+
+  const handleSaved = () => {
+    loadRounds();
+    onSaved?.();
+  };
+
+  const handleDelete = async (round: GolfRound) => {
+    if (!(await deleteConfirmation.confirm())) return;
+
+    try {
+      await deleteGolfRound(round);
+      handleSaved();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error),
+        variant: "destructive"
+      });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  const tees = indexTees(courses);
+  const names = new Map(athletes.map(athlete => [athlete.user_id, athlete.full_name ?? athlete.email]));
+  const counting = getCountingRounds(rounds);
+  const teamScore = getTeamScore(rounds);
+  const complete = rounds.filter(round => round.score !== null).length;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-400">
+          Best {COUNTING_SCORES} of {MATCH_PLAYERS} scores count
+        </p>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => {
+            setEditing(null);
+            setShowDialog(true);
+          }}
+          disabled={rounds.length >= MATCH_PLAYERS || courses.length === 0}
+          className="border-white/10 hover:bg-blue-500/10"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Add Scorecard
+        </Button>
+      </div>
+
+      {courses.length === 0 && (
+        <p className="text-sm text-amber-300">Add a course to the library on the Golf page to enter scorecards</p>
+      )}
+
+      {rounds.length === 0 ? (
+        <p className="text-center text-gray-400 py-8">No scorecards entered for this match yet</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-400 border-b border-white/10">
+                <th className="py-2 pr-4 font-medium">Player</th>
+                <th className="py-2 pr-4 font-medium">Tees</th>
+                <th className="py-2 pr-4 font-medium text-right">Thru</th>
+                <th className="py-2 pr-4 font-medium text-right">To Par</th>
+                <th className="py-2 pr-4 font-medium text-right">Putts</th>
+                <th className="py-2 pr-4 font-medium text-right">Score</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {[...rounds]
+                .sort((a, b) => (a.score ?? Infinity) - (b.score ?? Infinity))
+                .map((round) => {
+                  const played = tees.get(round.tee_id);
+                  const stats = played ? getRoundStats(round.holes, played.course.pars) : null;
+                  const dropped = round.score !== null && !counting.has(round.id);
+                  return (
+                    <tr
+                      key={round.id}
+                      onClick={() => {
+                        setEditing(round);
+                        setShowDialog(true);
+                      }}
+                      className="group border-b border-white/5 text-white cursor-pointer hover:bg-white/5"
+                    >
+                      <td className="py-2 pr-4">{names.get(round.athlete_id) ?? 'Former player'}</td>
+                      <td className="py-2 pr-4 text-gray-400">
+                        {played ? `${played.course.name} • ${played.tee.name}` : '—'}
+                      </td>
+                      <td className="py-2 pr-4 text-right">{stats?.holes ?? 0}</td>
+                      <td className="py-2 pr-4 text-right">
+                        {played && stats?.holes ? formatToPar(round.holes, played.course.pars) : '—'}
+                      </td>
+                      <td className="py-2 pr-4 text-right">{stats?.putts ?? '—'}</td>
+                      <td className={cn('py-2 pr-4 text-right font-medium', dropped && 'line-through text-gray-500')}>
+                        {round.score ?? '—'}
+                      </td>
+                      <td className="py-2 text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleDelete(round);
+                          }}
+                          className="opacity-0 group-hover:opacity-100 text-red-400 hover:bg-red-500/10"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </td>
+                    </tr>
+                  );
+                })}
+            </tbody>
+            <tfoot>
+              <tr className="text-white">
+                <td colSpan={5} className="py-2 pr-4 font-medium">Team</td>
+                <td className="py-2 pr-4 text-right font-bold">
+                  {teamScore ?? `${complete}/${COUNTING_SCORES} in`}
+                </td>
+                <td />
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      )}
+
+      <GolfRoundDialog
+        open={showDialog}
+        onOpenChange={setShowDialog}
+        teamId={teamId}
+        athletes={athletes}
+        courses={courses}
+        gameId={gameId}
+        round={editing}
+        defaults={{ playedOn, teeId: rounds[0]?.tee_id }}
+        excludedAthleteIds={rounds.map(round => round.athlete_id)}
+        onSaved={handleSaved}
+      />
+
+      <ConfirmationDialog
+        open={deleteConfirmation.isOpen}
+        onConfirm={deleteConfirmation.handleConfirm}
+        onCancel={deleteConfirmation.handleCancel}
+        {...deleteConfirmation.options}
+      />
+    </div>
+  );
+}
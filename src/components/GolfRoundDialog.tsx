@@ -0,0 +1,195 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { useToast } from '@/components/ui/use-toast';
+import { GolfScorecard } from '@/components/GolfScorecard';
+import {
+  emptyScorecard,
+  formatToPar,
+  getRoundStats,
+  indexTees,
+  saveGolfRound,
+  type GolfCourse,
+  type GolfHole,
+  type GolfRound
+} from '@/lib/golf';
+import { getToday } from '@/lib/seasons';
+import type { TeamMember } from '@/lib/teams';
+import { getErrorMessage } from '@/lib/utils';
+
+interface GolfRoundDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  teamId: string;
+  athletes: TeamMember[];
+  courses: GolfCourse[];
+  // The match the round is for; null for practice and qualifying rounds
+  gameId: string | null;
+  // The round to edit; a new round is created when this is null
+  round: GolfRound | null;
+  // Prefills a new round, e.g. with the match date and the tees others played
+  defaults?: { playedOn?: string; teeId?: string };
+  // Players who already have a round in the match
+  excludedAthleteIds?: string[];
+  onSaved: () => void;
+}
+
+export function GolfRoundDialog({
+  open,
+  onOpenChange,
+  teamId,
+  athletes,
+  courses,
+  gameId,
+  round,
+  defaults,
+  excludedAthleteIds = [],
+  onSaved
+}: GolfRoundDialogProps) {
+  const [athleteId, setAthleteId] = useState('');
+  const [teeId, setTeeId] = useState('');
+  const [playedOn, setPlayedOn] = useState('');
+  const [holes, setHoles] = useState<GolfHole[]>([]);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+  const tees = indexTees(courses);
+  const played = tees.get(teeId);
+
+  useEffect(() => {
+    if (!open) return;
+    setAthleteId(round?.athlete_id ?? '');
+    setTeeId(round?.tee_id ?? defaults?.teeId ?? '');
+    setPlayedOn(round?.played_on ?? defaults?.playedOn ?? getToday());
+    setHoles(round?.holes ?? []);
+  }, [open, round, defaults?.playedOn, defaults?.teeId]);
+
+  if (!open) return null;
+
+  const available = athletes.filter(athlete =>
+    athlete.user_id === round?.athlete_id || !excludedAthleteIds.includes(athlete.user_id)
+  );
+
+  // Switching to a course with a different number of holes starts a fresh card
+  const card = played && holes.length !== played.course.pars.length
+    ? emptyScorecard(played.course.pars.length)
+    : holes;
+  const stats = played ? getRoundStats(card, played.course.pars) : null;
+
+  const handleSave = async () => {
+    if (!played) return;
+
+    setSaving(true);
+    try {
+      await saveGolfRound(round?.id ?? null, {
+        teamId,
+        athleteId,
+        teeId,
+        gameId,
+        playedOn,
+        holes: card
+      }, played.course.pars);
+      onOpenChange(false);
+      onSaved();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error),
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-gray-900 border border-blue-500/20 text-white max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{round ? 'Edit Scorecard' : 'New Scorecard'}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-6 py-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label className="text-gray-400">Player</Label>
+              <Select value={athleteId} onValueChange={setAthleteId} disabled={!!round}>
+                <SelectTrigger className="bg-blue-500/5 border-blue-500/20 text-white">
+                  <SelectValue placeholder="Choose a player" />
+                </SelectTrigger>
+                <SelectContent>
+                  {available.map((athlete) => (
+                    <SelectItem key={athlete.user_id} value={athlete.user_id}>
+                      {athlete.full_name ?? athlete.email}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label className="text-gray-400">Course and Tees</Label>
+              <Select value={teeId} onValueChange={setTeeId}>
+                <SelectTrigger className="bg-blue-500/5 border-blue-500/20 text-white">
+                  <SelectValue placeholder={courses.length === 0 ? 'Add a course first' : 'Choose tees'} />
+                </SelectTrigger>
+                <SelectContent>
+                  {courses.flatMap(course => course.tees.map((tee) => (
+                    <SelectItem key={tee.id} value={tee.id}>
+                      {course.name} • {tee.name} ({tee.course_rating}/{tee.slope_rating})
+                    </SelectItem>
+                  )))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="round-date" className="text-gray-400">Date</Label>
+              <Input
+                id="round-date"
+                type="date"
+                value={playedOn}
+                onChange={(e) => setPlayedOn(e.target.value)}
+                disabled={!!gameId}
+                className="bg-blue-500/5 border-blue-500/20 text-white"
+              />
+            </div>
+          </div>
+
+          {played ? (
+            <>
+              <GolfScorecard course={played.course} tee={played.tee} holes={card} onChange={setHoles} disabled={saving} />
+              {stats && (
+                <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm text-gray-400">
+                  <span>
+                    Thru {stats.holes}: <span className="text-white font-medium">{stats.strokes || '—'}</span>
+                    {stats.holes > 0 && ` (${formatToPar(card, played.course.pars)})`}
+                  </span>
+                  <span>Putts: <span className="text-white">{stats.putts ?? '—'}</span></span>
+                  <span>Fairways: <span className="text-white">{stats.fairwaysHit}/{stats.fairwayChances}</span></span>
+                  <span>Greens: <span className="text-white">{stats.greensInRegulation}/{stats.holes}</span></span>
+                </div>
+              )}
+            </>
+          ) : (
+            <p className="text-center text-gray-400 py-8">Choose the course and tees to open the scorecard</p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={saving || !athleteId || !played || !playedOn}
+            className="bg-blue-500 hover:bg-blue-600 text-white"
+          >
+            {saving ? <LoadingSpinner size="sm" /> : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
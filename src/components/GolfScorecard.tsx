@@ -0,0 +1,185 @@
+import { Fragment } from 'react';
+import { Check, X } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import {
+  getGrossScore,
+  getPar,
+  getYards,
+  isFairwayHole,
+  isGreenInRegulation,
+  type GolfCourse,
+  type GolfHole,
+  type GolfTee
+} from '@/lib/golf';
+import { cn } from '@/lib/utils';
+
+interface GolfScorecardProps {
+  course: GolfCourse;
+  tee: GolfTee;
+  holes: GolfHole[];
+  onChange: (holes: GolfHole[]) => void;
+  disabled?: boolean;
+}
+
+// Front and back nine with their subtotal labels; 9-hole courses have one
+// segment and no subtotal
+function getSegments(holeCount: number) {
+  const holes = Array.from({ length: holeCount }, (_, index) => index);
+  return holeCount === 18
+    ? [{ holes: holes.slice(0, 9), label: 'Out' }, { holes: holes.slice(9), label: 'In' }]
+    : [{ holes, label: null }];
+}
+
+function parseCount(input: string, max: number) {
+  const value = Number(input);
+  return input.trim() === '' || !Number.isInteger(value) || value < 0 || value > max ? null : value;
+}
+
+const cellClass = 'px-1 py-1 text-center min-w-[2.5rem]';
+const inputClass = 'h-8 w-10 px-1 text-center bg-blue-500/5 border-blue-500/20 text-white';
+
+// Hole-by-hole card: yardage, par and stroke index from the course, with
+// strokes, putts and fairways entered per hole and greens in regulation
+// worked out from them
+export function GolfScorecard({ course, tee, holes, onChange, disabled = false }: GolfScorecardProps) {
+  const segments = getSegments(course.pars.length);
+
+  const updateHole = (index: number, changes: Partial<GolfHole>) => {
+    onChange(holes.map((hole, position) => (position === index ? { ...hole, ...changes } : hole)));
+  };
+
+  // Fairway cycles through not entered, hit and missed
+  const toggleFairway = (index: number) => {
+    const current = holes[index].fairway;
+    updateHole(index, { fairway: current === null ? true : current ? false : null });
+  };
+
+  const sum = (indexes: number[], value: (index: number) => number | null) => {
+    const values = indexes.map(value).filter((entry): entry is number => entry !== null);
+    return values.length > 0 ? values.reduce((total, entry) => total + entry, 0) : '';
+  };
+
+  const renderRow = (
+    label: string,
+    cell: (index: number) => React.ReactNode,
+    total: (indexes: number[]) => React.ReactNode,
+    className?: string
+  ) => (
+    <tr className={cn('border-b border-white/5', className)}>
+      <th className="px-2 py-1 text-left font-medium text-gray-400 whitespace-nowrap">{label}</th>
+      {segments.map((segment) => (
+        <Fragment key={segment.label ?? 'all'}>
+          {segment.holes.map((index) => (
+            <td key={index} className={cellClass}>{cell(index)}</td>
+          ))}
+          {segment.label && <td className={cn(cellClass, 'bg-white/5 font-medium')}>{total(segment.holes)}</td>}
+        </Fragment>
+      ))}
+      <td className={cn(cellClass, 'bg-white/10 font-semibold')}>{total(holes.map((_, index) => index))}</td>
+    </tr>
+  );
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm text-white">
+        <thead>
+          <tr className="border-b border-white/10 text-gray-400">
+            <th className="px-2 py-1 text-left font-medium">Hole</th>
+            {segments.map((segment) => (
+              <Fragment key={segment.label ?? 'all'}>
+                {segment.holes.map((index) => (
+                  <th key={index} className={cn(cellClass, 'font-medium')}>{index + 1}</th>
+                ))}
+                {segment.label && <th className={cn(cellClass, 'bg-white/5 font-medium')}>{segment.label}</th>}
+              </Fragment>
+            ))}
+            <th className={cn(cellClass, 'bg-white/10 font-medium')}>Tot</th>
+          </tr>
+        </thead>
+        <tbody>
+          {renderRow(
+            tee.name,
+            (index) => <span className="text-gray-400">{tee.yardages[index]}</span>,
+            (indexes) => getYards(indexes.map(index => tee.yardages[index])),
+            'text-xs'
+          )}
+          {renderRow(
+            'Par',
+            (index) => course.pars[index],
+            (indexes) => getPar(indexes.map(index => course.pars[index]))
+          )}
+          {renderRow(
+            'Hcp',
+            (index) => <span className="text-gray-500">{course.stroke_indexes[index]}</span>,
+            () => '',
+            'text-xs'
+          )}
+          {renderRow(
+            'Score',
+            (index) => (
+              <Input
+                aria-label={`Hole ${index + 1} score`}
+                inputMode="numeric"
+                value={holes[index]?.strokes ?? ''}
+                onChange={(e) => updateHole(index, { strokes: parseCount(e.target.value, 20) })}
+                disabled={disabled}
+                className={cn(
+                  inputClass,
+                  holes[index]?.strokes !== null && holes[index].strokes! < course.pars[index] && 'text-emerald-400',
+                  holes[index]?.strokes !== null && holes[index].strokes! > course.pars[index] && 'text-amber-300'
+                )}
+              />
+            ),
+            (indexes) => {
+              const total = getGrossScore(indexes.map(index => holes[index]));
+              return total > 0 ? total : '';
+            }
+          )}
+          {renderRow(
+            'Putts',
+            (index) => (
+              <Input
+                aria-label={`Hole ${index + 1} putts`}
+                inputMode="numeric"
+                value={holes[index]?.putts ?? ''}
+                onChange={(e) => updateHole(index, { putts: parseCount(e.target.value, 10) })}
+                disabled={disabled}
+                className={inputClass}
+              />
+            ),
+            (indexes) => sum(indexes, index => holes[index]?.putts ?? null)
+          )}
+          {renderRow(
+            'Fairway',
+            (index) => isFairwayHole(course.pars[index]) ? (
+              <button
+                type="button"
+                aria-label={`Hole ${index + 1} fairway`}
+                onClick={() => toggleFairway(index)}
+                disabled={disabled}
+                className={cn(
+                  'h-8 w-10 inline-flex items-center justify-center rounded-md border border-blue-500/20',
+                  holes[index]?.fairway === true && 'bg-emerald-500/20 border-emerald-400 text-emerald-300',
+                  holes[index]?.fairway === false && 'bg-red-500/10 border-red-400/50 text-red-400'
+                )}
+              >
+                {holes[index]?.fairway === true && <Check className="h-4 w-4" />}
+                {holes[index]?.fairway === false && <X className="h-4 w-4" />}
+              </button>
+            ) : null,
+            (indexes) => sum(indexes, index => (holes[index]?.fairway ? 1 : null))
+          )}
+          {renderRow(
+            'GIR',
+            (index) => holes[index] && isGreenInRegulation(holes[index], course.pars[index])
+              ? <Check className="h-4 w-4 mx-auto text-emerald-400" />
+              : null,
+            (indexes) => sum(indexes, index =>
+              holes[index] && isGreenInRegulation(holes[index], course.pars[index]) ? 1 : null
+            )
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+}
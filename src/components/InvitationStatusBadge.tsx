@@ -0,0 +1,28 @@
+import { AlertTriangle, Ban, CheckCircle2, Clock, Eye, Send } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { InvitationStatus } from '@/lib/invitations';
+
+const STATUS_STYLES = {
+  pending: { label: 'Pending', icon: Clock, className: 'text-gray-400' },
+  sent: { label: 'Sent', icon: Send, className: 'text-blue-400' },
+  opened: { label: 'Opened', icon: Eye, className: 'text-cyan-400' },
+  accepted: { label: 'Accepted', icon: CheckCircle2, className: 'text-emerald-400' },
+  cancelled: { label: 'Cancelled', icon: Ban, className: 'text-red-400' },
+  failed: { label: 'Failed', icon: AlertTriangle, className: 'text-amber-400' }
+} as const;
+
+interface InvitationStatusBadgeProps {
+  status: InvitationStatus;
+  className?: string;
+}
+
+export function InvitationStatusBadge({ status, className }: InvitationStatusBadgeProps) {
+  const { label, icon: Icon, className: statusClassName } = STATUS_STYLES[status];
+
+  return (
+    <span className={cn('flex items-center gap-1 text-xs', statusClassName, className)}>
+      <Icon className="h-3 w-3" />
+      {label}
+    </span>
+  );
+}
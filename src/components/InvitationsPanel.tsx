@@ -0,0 +1,340 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { ConfirmationDialog } from '@/components/ui/confirmation-dialog';
+import { useToast } from '@/components/ui/use-toast';
+import { useConfirmation } from '@/hooks/useConfirmation';
+import { InvitationStatusBadge } from '@/components/InvitationStatusBadge';
+import { TeamSelector } from '@/components/TeamSelector';
+import {
+  EXPIRY_OPTIONS,
+  getExpiryDate,
+  type AccessCodeRole,
+  type ExpiryOption
+} from '@/lib/access-codes';
+import {
+  MAX_INVITATIONS,
+  cancelInvitation,
+  createInvitations,
+  fetchInvitations,
+  isInvitationOpen,
+  parseEmailList,
+  sendInvitations,
+  type Invitation,
+  type SendInvitationsResult
+} from '@/lib/invitations';
+import type { Team } from '@/lib/teams';
+import { formatDate, getErrorMessage } from '@/lib/utils';
+import { Mail, Send, RotateCw, X, Inbox } from 'lucide-react';
+
+const ROLE_LABELS: Record<AccessCodeRole, string> = {
+  admin: 'Administrator',
+  coach: 'Coach',
+  athlete: 'Athlete'
+};
+
+interface InvitationsPanelProps {
+  teams: Team[];
+  // Team selected when the panel opens
+  defaultTeamId?: string | null;
+  // Roles the user may invite; the first is selected by default
+  roles: AccessCodeRole[];
+}
+
+function describeResult(result: SendInvitationsResult) {
+  const parts = [`${result.sent} sent`];
+  if (result.failed) parts.push(`${result.failed} failed`);
+  if (result.skipped) parts.push(`${result.skipped} skipped`);
+  return parts.join(', ');
+}
+
+export function InvitationsPanel({ teams, defaultTeamId = null, roles }: InvitationsPanelProps) {
+  const [emails, setEmails] = useState('');
+  const [role, setRole] = useState<AccessCodeRole>(roles[0]);
+  const [teamId, setTeamId] = useState<string | null>(defaultTeamId);
+  const [expiry, setExpiry] = useState<ExpiryOption>('30');
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [sending, setSending] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const { toast } = useToast();
+  const cancelConfirmation = useConfirmation({
+    title: 'Cancel Invitation',
+    message: 'The invitation link and its access code will stop working. This cannot be undone.',
+    confirmText: 'Cancel Invitation',
+    cancelText: 'Keep'
+  });
+
+  const loadInvitations = async () => {
+    try {
+      setInvitations(await fetchInvitations());
+    } catch (error) {
+      console.error('Error loading invitations:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadInvitations();
+  }, []);
+
+  useEffect(() => {
+    setTeamId(defaultTeamId);
+  }, [defaultTeamId]);
+
+  const handleSend = async () => {
+    const { valid, invalid } = parseEmailList(emails);
+
+    try {
+      if (invalid.length > 0) {
+        throw new Error(`Not valid email addresses: ${invalid.join(', ')}`);
+      }
+      const team = teams.find(t => t.id === teamId) ?? null;
+      if (role !== 'admin' && !team) throw new Error('Please select a team');
+
+      setSending(true);
+      const result = await createInvitations(valid.map(email => ({ email })), {
+        role,
+        team: role !== 'admin' ? team : null,
+        expiresAt: getExpiryDate(expiry)
+      });
+
+      setEmails('');
+      toast({
+        title: result.failed ? "Some invitations failed" : "Invitations sent",
+        description: describeResult(result),
+        variant: result.failed ? "destructive" : "default"
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error),
+        variant: "destructive"
+      });
+    } finally {
+      setSending(false);
+      await loadInvitations();
+    }
+  };
+
+  const handleResend = async (invitation: Invitation) => {
+    setBusyId(invitation.id);
+    try {
+      const result = await sendInvitations([invitation.id]);
+      toast({
+        title: result.sent ? "Invitation resent" : "Invitation not sent",
+        description: result.sent
+          ? `Sent again to ${invitation.email}`
+          : describeResult(result),
+        variant: result.sent ? "default" : "destructive"
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error),
+        variant: "destructive"
+      });
+    } finally {
+      setBusyId(null);
+      await loadInvitations();
+    }
+  };
+
+  const handleCancel = async (invitation: Invitation) => {
+    if (!(await cancelConfirmation.confirm())) return;
+
+    setBusyId(invitation.id);
+    try {
+      await cancelInvitation(invitation.id);
+      toast({
+        title: "Cancelled",
+        description: `Invitation to ${invitation.email} was cancelled`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error),
+        variant: "destructive"
+      });
+    } finally {
+      setBusyId(null);
+      await loadInvitations();
+    }
+  };
+
+  const emailCount = parseEmailList(emails).valid.length;
+
+  return (
+    <Card className="relative bg-black/40 backdrop-blur-xl border border-blue-500/20">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-white">
+          <Mail className="h-5 w-5 text-blue-400" />
+          Email Invitations
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="grid gap-8 lg:grid-cols-2">
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="inviteEmails" className="text-gray-400">Email addresses</Label>
+            <Textarea
+              id="inviteEmails"
+              rows={5}
+              placeholder="Paste one or more emails, separated by commas or new lines"
+              value={emails}
+              onChange={(e) => setEmails(e.target.value)}
+              className="bg-blue-500/5 border-blue-500/20 text-white placeholder:text-gray-400"
+            />
+            <p className="text-xs text-gray-500">
+              Each address gets its own single-use code. Up to {MAX_INVITATIONS} at a time.
+            </p>
+          </div>
+
+          {roles.length > 1 && (
+            <div className="space-y-2">
+              <Label className="text-gray-400">Role</Label>
+              <Select value={role} onValueChange={(value: AccessCodeRole) => setRole(value)}>
+                <SelectTrigger className="bg-blue-500/5 border-blue-500/20 text-white">
+                  <SelectValue placeholder="Select role" />
+                </SelectTrigger>
+                <SelectContent>
+                  {roles.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {ROLE_LABELS[option]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {role !== 'admin' && (
+            <div className="space-y-2">
+              <Label className="text-gray-400">Team</Label>
+              <TeamSelector teams={teams} value={teamId} onChange={setTeamId} />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label className="text-gray-400">Expires</Label>
+            <Select value={expiry} onValueChange={(value: ExpiryOption) => setExpiry(value)}>
+              <SelectTrigger className="bg-blue-500/5 border-blue-500/20 text-white">
+                <SelectValue placeholder="Select expiry" />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPIRY_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <Button
+            onClick={handleSend}
+            className="w-full bg-blue-500 hover:bg-blue-600 text-white"
+            disabled={sending || emailCount === 0}
+          >
+            {sending ? (
+              <div className="flex items-center gap-2">
+                <LoadingSpinner size="sm" />
+                <span>Sending...</span>
+              </div>
+            ) : (
+              <div className="flex items-center gap-2">
+                <Send className="h-4 w-4" />
+                {emailCount > 1 ? `Send ${emailCount} Invitations` : 'Send Invitation'}
+              </div>
+            )}
+          </Button>
+        </div>
+
+        <div className="space-y-3 max-h-[28rem] overflow-y-auto">
+          {loading ? (
+            <div className="flex justify-center py-12">
+              <LoadingSpinner />
+            </div>
+          ) : invitations.length > 0 ? (
+            invitations.map((invitation) => (
+              <div
+                key={invitation.id}
+                className="p-4 rounded-lg bg-blue-500/5 border border-blue-500/20"
+              >
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="font-medium text-white truncate">
+                      {invitation.full_name ?? invitation.email}
+                    </p>
+                    {invitation.full_name && (
+                      <p className="text-xs text-gray-400 truncate">{invitation.email}</p>
+                    )}
+                    <p className="text-sm text-gray-400">
+                      <span className="font-mono">{invitation.code}</span>
+                      {' • '}
+                      {invitation.team_name ?? invitation.sport_name ?? ROLE_LABELS[invitation.role]}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {invitation.sent_at
+                        ? `Sent ${formatDate(invitation.sent_at)}${invitation.send_count > 1 ? ` (${invitation.send_count} times)` : ''}`
+                        : `Created ${formatDate(invitation.created_at)}`}
+                    </p>
+                    {invitation.status === 'failed' && invitation.last_error && (
+                      <p className="text-xs text-amber-400/80 truncate">{invitation.last_error}</p>
+                    )}
+                  </div>
+                  <div className="flex flex-col items-end gap-2 shrink-0">
+                    <InvitationStatusBadge status={invitation.status} />
+                    {isInvitationOpen(invitation.status) && (
+                      <div className="flex gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleResend(invitation)}
+                          disabled={busyId === invitation.id}
+                          className="h-7 px-2 text-xs text-blue-400 hover:bg-blue-500/10 hover:text-blue-300"
+                        >
+                          <RotateCw className="h-3 w-3 mr-1" />
+                          Resend
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleCancel(invitation)}
+                          disabled={busyId === invitation.id}
+                          className="h-7 px-2 text-xs text-red-400 hover:bg-red-500/10 hover:text-red-300"
+                        >
+                          <X className="h-3 w-3 mr-1" />
+                          Cancel
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                </div>
+              </div>
+            ))
+          ) : (
+            <div className="text-center py-12">
+              <Inbox className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+              <p className="text-gray-300">No invitations yet</p>
+              <p className="text-sm text-gray-400 mt-2">
+                Invitations you send will appear here
+              </p>
+            </div>
+          )}
+        </div>
+      </CardContent>
+
+      <ConfirmationDialog
+        open={cancelConfirmation.isOpen}
+        onConfirm={cancelConfirmation.handleConfirm}
+        onCancel={cancelConfirmation.handleCancel}
+        {...cancelConfirmation.options}
+      />
+    </Card>
+  );
+}
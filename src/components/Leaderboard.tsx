@@ -0,0 +1,211 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Medal } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { useRealtimeSubscription } from '@/hooks/useRealtimeSubscription';
+import {
+  fetchLeaderboard,
+  filterLeaderboard,
+  getRecordMetrics,
+  type LeaderboardEntry
+} from '@/lib/records';
+import type { SportDefinition } from '@/lib/sport-definitions';
+import { TEAM_GENDERS, type Team, type TeamGender } from '@/lib/teams';
+import { useAuthStore } from '@/store/auth';
+import { cn, formatDate } from '@/lib/utils';
+
+// Game and testing dates are plain dates, so format them without a timezone shift
+const RECORD_DATE_FORMAT: Intl.DateTimeFormatOptions = {
+  month: 'short',
+  day: 'numeric',
+  year: 'numeric',
+  timeZone: 'UTC'
+};
+
+const ALL = 'all';
+
+type LeaderboardScope = 'team' | 'organization';
+
+interface LeaderboardProps {
+  sport: SportDefinition | null;
+  team: Team;
+}
+
+// Best marks per athlete in one stat or test, for the team or every team of
+// the sport in the organization
+export function Leaderboard({ sport, team }: LeaderboardProps) {
+  const { user } = useAuthStore();
+  const metrics = useMemo(() => getRecordMetrics(sport), [sport]);
+  const [metricId, setMetricId] = useState(metrics[0]?.id ?? '');
+  const [scope, setScope] = useState<LeaderboardScope>('team');
+  const [gender, setGender] = useState(ALL);
+  const [gradYear, setGradYear] = useState(ALL);
+  const [position, setPosition] = useState(ALL);
+  const [entries, setEntries] = useState<LeaderboardEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const metric = metrics.find(candidate => candidate.id === metricId) ?? metrics[0] ?? null;
+  const teamId = scope === 'team' ? team.id : null;
+
+  const loadLeaderboard = useCallback(async () => {
+    if (!metric) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setEntries(await fetchLeaderboard(team.sport_id, metric, teamId));
+      setError(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load leaderboard');
+    } finally {
+      setLoading(false);
+    }
+  }, [team.sport_id, metric, teamId]);
+
+  useEffect(() => {
+    setLoading(true);
+    loadLeaderboard();
+  }, [loadLeaderboard]);
+
+  useRealtimeSubscription(metric?.source === 'stat' ? 'game_stats' : 'test_results', loadLeaderboard);
+
+  const gradYears = [...new Set(entries.flatMap(entry => (entry.grad_year ? [entry.grad_year] : [])))].sort();
+  const positions = [...new Set(entries.flatMap(entry => (entry.position ? [entry.position] : [])))].sort();
+  const leaders = filterLeaderboard(entries, {
+    gender: scope === 'organization' && gender !== ALL ? gender as TeamGender : null,
+    gradYear: gradYear !== ALL ? Number(gradYear) : null,
+    position: position !== ALL ? position : null
+  });
+
+  return (
+    <Card className="bg-black/40 backdrop-blur-xl border border-blue-500/20">
+      <CardHeader className="space-y-4">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <CardTitle className="text-white flex items-center gap-2">
+            <Medal className="h-5 w-5 text-yellow-400" />
+            Leaderboard
+          </CardTitle>
+          <div className="flex gap-2">
+            {(['team', 'organization'] as const).map((value) => (
+              <Button
+                key={value}
+                variant="outline"
+                size="sm"
+                onClick={() => setScope(value)}
+                className={cn(
+                  scope === value
+                    ? 'border-blue-500/40 bg-blue-500/20 text-blue-400'
+                    : 'border-white/10 text-gray-400 hover:bg-blue-500/10'
+                )}
+              >
+                {value === 'team' ? team.name : 'Organization'}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+          <Select value={metric?.id ?? ''} onValueChange={setMetricId}>
+            <SelectTrigger className="col-span-2 md:col-span-1 bg-blue-500/5 border-blue-500/20 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {metrics.map((option) => (
+                <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select value={gender} onValueChange={setGender} disabled={scope === 'team'}>
+            <SelectTrigger className="bg-blue-500/5 border-blue-500/20 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All teams</SelectItem>
+              {TEAM_GENDERS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select value={gradYear} onValueChange={setGradYear}>
+            <SelectTrigger className="bg-blue-500/5 border-blue-500/20 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All classes</SelectItem>
+              {gradYears.map((year) => (
+                <SelectItem key={year} value={String(year)}>Class of {year}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select value={position} onValueChange={setPosition}>
+            <SelectTrigger className="bg-blue-500/5 border-blue-500/20 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All positions</SelectItem>
+              {positions.map((option) => (
+                <SelectItem key={option} value={option}>{option}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+
+      <CardContent>
+        {error ? (
+          <p className="text-center text-red-400 py-8">{error}</p>
+        ) : loading ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner size="lg" />
+          </div>
+        ) : !metric || leaders.length === 0 ? (
+          <p className="text-center text-gray-400 py-8">No marks recorded yet</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-400 border-b border-white/10">
+                  <th className="py-2 pr-4 font-medium w-12">#</th>
+                  <th className="py-2 pr-4 font-medium">Athlete</th>
+                  {scope === 'organization' && <th className="py-2 pr-4 font-medium">Team</th>}
+                  <th className="py-2 pr-4 font-medium">Date</th>
+                  <th className="py-2 font-medium text-right">{metric.label}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {leaders.map((entry) => (
+                  <tr
+                    key={entry.athlete_id}
+                    className={cn(
+                      'border-b border-white/5',
+                      entry.athlete_id === user?.id ? 'bg-blue-500/10 text-blue-300' : 'text-white'
+                    )}
+                  >
+                    <td className={cn('py-2 pr-4 font-bold', entry.rank <= 3 && 'text-yellow-400')}>
+                      {entry.rank}
+                    </td>
+                    <td className="py-2 pr-4">
+                      <p>{entry.full_name ?? 'Unknown athlete'}</p>
+                      <p className="text-xs text-gray-400">
+                        {[entry.position, entry.grad_year && `Class of ${entry.grad_year}`].filter(Boolean).join(' • ')}
+                      </p>
+                    </td>
+                    {scope === 'organization' && <td className="py-2 pr-4 text-gray-300">{entry.team_name}</td>}
+                    <td className="py-2 pr-4 text-gray-400">{formatDate(entry.achieved_on, RECORD_DATE_FORMAT)}</td>
+                    <td className="py-2 text-right font-bold">{metric.format(entry.value)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,64 @@
+import { Trophy } from 'lucide-react';
+import type { PersonalBest } from '@/lib/records';
+import type { Team } from '@/lib/teams';
+import { formatDate } from '@/lib/utils';
+
+// Game and testing dates are plain dates, so format them without a timezone shift
+const RECORD_DATE_FORMAT: Intl.DateTimeFormatOptions = {
+  month: 'short',
+  day: 'numeric',
+  year: 'numeric',
+  timeZone: 'UTC'
+};
+
+interface PersonalBestsProps {
+  bests: PersonalBest[];
+  teams: Team[];
+}
+
+// One athlete's best mark in every stat and test they have a mark in,
+// grouped by the sport the mark was set in
+export function PersonalBests({ bests, teams }: PersonalBestsProps) {
+  if (bests.length === 0) {
+    return <p className="text-center text-gray-400 py-8">No stats or test results recorded yet</p>;
+  }
+
+  const teamsById = new Map(teams.map(team => [team.id, team]));
+  const groups = new Map<string, PersonalBest[]>();
+  for (const best of bests) {
+    // Tests compare across sports, so they get a group of their own
+    const group = best.metric.source === 'test'
+      ? 'Testing'
+      : teamsById.get(best.mark.teamId)?.sport_name ?? 'Other';
+    groups.set(group, [...(groups.get(group) ?? []), best]);
+  }
+
+  return (
+    <div className="space-y-6">
+      {[...groups.entries()].map(([group, groupBests]) => (
+        <div key={group} className="space-y-3">
+          <h3 className="text-sm font-medium text-gray-400">{group}</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-3">
+            {groupBests.map(({ metric, mark }) => (
+              <div
+                key={metric.id}
+                className="flex items-center justify-between gap-2 p-3 rounded-lg bg-blue-500/5 border border-blue-500/10"
+              >
+                <div className="min-w-0">
+                  <p className="text-white text-sm font-medium truncate">{metric.label}</p>
+                  <p className="text-xs text-gray-400 truncate">
+                    {mark.context} • {formatDate(mark.date, RECORD_DATE_FORMAT)}
+                  </p>
+                </div>
+                <p className="text-lg font-bold text-white flex items-center gap-1 shrink-0">
+                  <Trophy className="w-4 h-4 text-yellow-400" />
+                  {metric.format(mark.value)}
+                </p>
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
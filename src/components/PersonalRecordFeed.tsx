@@ -0,0 +1,60 @@
+import { TrendingUp } from 'lucide-react';
+import type { PersonalRecord } from '@/lib/records';
+import type { Team } from '@/lib/teams';
+import { formatDate } from '@/lib/utils';
+
+// Game and testing dates are plain dates, so format them without a timezone shift
+const RECORD_DATE_FORMAT: Intl.DateTimeFormatOptions = {
+  month: 'short',
+  day: 'numeric',
+  timeZone: 'UTC'
+};
+
+interface PersonalRecordFeedProps {
+  records: PersonalRecord[];
+  teams: Team[];
+  // Shown before each record when the feed covers more than one athlete
+  athleteNames?: Map<string, string>;
+  limit?: number;
+}
+
+// The newest personal records, with the mark each one beat
+export function PersonalRecordFeed({ records, teams, athleteNames, limit = 8 }: PersonalRecordFeedProps) {
+  if (records.length === 0) {
+    return <p className="text-center text-gray-400 py-8">No new personal records yet</p>;
+  }
+
+  const teamNames = new Map(teams.map(team => [team.id, team.name]));
+
+  return (
+    <div className="space-y-2">
+      {records.slice(0, limit).map(({ metric, mark, previous }) => (
+        <div
+          key={`${mark.athleteId}:${metric.id}:${mark.date}:${mark.value}`}
+          className="flex items-center justify-between gap-4 p-3 rounded-lg bg-yellow-500/5 border border-yellow-500/20"
+        >
+          <div className="flex items-center gap-3 min-w-0">
+            <div className="bg-yellow-500/20 p-2 rounded-full">
+              <TrendingUp className="h-4 w-4 text-yellow-400" />
+            </div>
+            <div className="min-w-0">
+              <p className="text-white text-sm font-medium truncate">
+                {athleteNames && `${athleteNames.get(mark.athleteId) ?? 'Unknown athlete'} • `}
+                {metric.label} PR
+              </p>
+              <p className="text-xs text-gray-400 truncate">
+                {[mark.context, teamNames.get(mark.teamId), formatDate(mark.date, RECORD_DATE_FORMAT)]
+                  .filter(Boolean)
+                  .join(' • ')}
+              </p>
+            </div>
+          </div>
+          <div className="text-right shrink-0">
+            <p className="text-white font-bold">{metric.format(mark.value)}</p>
+            <p className="text-xs text-gray-400">was {metric.format(previous)}</p>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
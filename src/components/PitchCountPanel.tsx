@@ -0,0 +1,134 @@
+import { useState, useEffect, useCallback } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { useRealtimeSubscription } from '@/hooks/useRealtimeSubscription';
+import {
+  fetchPitchingOutings,
+  getPitcherStatus,
+  getRequiredRest,
+  PITCH_COUNT_RULES,
+  type ComplianceIssue,
+  type PitchingOuting
+} from '@/lib/pitch-counts';
+import type { TeamMember } from '@/lib/teams';
+import { formatDate } from '@/lib/utils';
+
+interface PitchCountPanelProps {
+  teamId: string;
+  // Athletes in roster order
+  athletes: TeamMember[];
+}
+
+const describeIssue = (issue: ComplianceIssue) => (issue.kind === 'over_limit'
+  ? `${issue.outing.pitches} pitches vs ${issue.outing.opponent} on ${formatDate(issue.outing.playedOn)} is over the limit`
+  : `Pitched vs ${issue.outing.opponent} on ${formatDate(issue.outing.playedOn)} with less than ${issue.requiredDays} ${issue.requiredDays === 1 ? 'day' : 'days'} of rest`);
+
+// Each pitcher's latest outing and when they may pitch again, checked
+// against the chosen pitch count rule
+export function PitchCountPanel({ teamId, athletes }: PitchCountPanelProps) {
+  const [outings, setOutings] = useState<Map<string, PitchingOuting[]>>(new Map());
+  const [ruleKey, setRuleKey] = useState(PITCH_COUNT_RULES[0].key);
+  const [loading, setLoading] = useState(true);
+
+  const loadOutings = useCallback(async () => {
+    try {
+      setOutings(await fetchPitchingOutings(teamId));
+    } catch (error) {
+      console.error('Error loading pitch counts:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [teamId]);
+
+  useEffect(() => {
+    setLoading(true);
+    loadOutings();
+  }, [loadOutings]);
+
+  useRealtimeSubscription('game_stats', loadOutings);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  const rule = PITCH_COUNT_RULES.find(option => option.key === ruleKey) ?? PITCH_COUNT_RULES[0];
+  const pitchers = athletes
+    .filter(athlete => outings.has(athlete.user_id))
+    .map(athlete => ({ athlete, status: getPitcherStatus(rule, athlete.user_id, outings.get(athlete.user_id) ?? []) }));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-gray-400">
+          Rest days follow the pitches thrown in a pitcher's last outing
+        </p>
+        <Select value={ruleKey} onValueChange={setRuleKey}>
+          <SelectTrigger className="w-56 bg-blue-500/5 border-blue-500/20 text-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PITCH_COUNT_RULES.map((option) => (
+              <SelectItem key={option.key} value={option.key}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {pitchers.length === 0 ? (
+        <p className="text-center text-gray-400 py-8">Pitch counts appear once a pitcher's pitches are recorded</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-400 border-b border-white/10">
+                <th className="py-2 pr-4 font-medium">Pitcher</th>
+                <th className="py-2 pr-4 font-medium">Last Outing</th>
+                <th className="py-2 pr-4 font-medium text-right">Pitches</th>
+                <th className="py-2 pr-4 font-medium text-right">Rest</th>
+                <th className="py-2 font-medium">Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {pitchers.map(({ athlete, status }) => {
+                const last = status.outings[status.outings.length - 1];
+                const rest = getRequiredRest(rule, last.pitches);
+                return (
+                  <tr key={athlete.user_id} className="border-b border-white/5 text-white align-top">
+                    <td className="py-2 pr-4">{athlete.full_name ?? athlete.email}</td>
+                    <td className="py-2 pr-4 text-gray-400">
+                      {formatDate(last.playedOn)} vs {last.opponent}
+                    </td>
+                    <td className="py-2 pr-4 text-right">{last.pitches}</td>
+                    <td className="py-2 pr-4 text-right">
+                      {rest} {rest === 1 ? 'day' : 'days'}
+                    </td>
+                    <td className="py-2">
+                      {status.availableOn ? (
+                        <span className="text-amber-300">Available {formatDate(status.availableOn)}</span>
+                      ) : (
+                        <span className="text-emerald-400">Available</span>
+                      )}
+                      {status.issues.map((issue, index) => (
+                        <p key={index} className="flex items-start gap-1 mt-1 text-xs text-red-400">
+                          <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />
+                          {describeIssue(issue)}
+                        </p>
+                      ))}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,335 @@
+import { useState, useEffect } from 'react';
+import { ArrowDown, ArrowUp, Coffee, X } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { useToast } from '@/components/ui/use-toast';
+import { getEventTitle, type TeamEvent } from '@/lib/events';
+import {
+  formatBlockStart,
+  getBlockOffsets,
+  getDrillsForSport,
+  getEventMinutes,
+  getPlanMinutes,
+  savePracticePlan,
+  toPlanBlock,
+  type Drill,
+  type PlanBlock,
+  type PracticePlan
+} from '@/lib/practice-plans';
+import type { SportDefinition } from '@/lib/sport-definitions';
+import { cn, formatDate, getErrorMessage } from '@/lib/utils';
+
+interface BlockRow {
+  drill_id: string | null;
+  name: string;
+  minutes: string;
+  notes: string;
+}
+
+const BREAK_ROW: BlockRow = { drill_id: null, name: 'Water break', minutes: '5', notes: '' };
+
+function toRow(block: PlanBlock): BlockRow {
+  return {
+    drill_id: block.drill_id,
+    name: block.name,
+    minutes: String(block.duration_minutes),
+    notes: block.notes ?? ''
+  };
+}
+
+interface PracticePlanDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  teamId: string;
+  sportId: string | null;
+  sport: SportDefinition | null;
+  // The practice being planned; templates have none
+  event: TeamEvent | null;
+  // The plan or template to edit; a new one is created when this is null
+  plan: PracticePlan | null;
+  drills: Drill[];
+  templates: PracticePlan[];
+  onSaved: () => void;
+}
+
+export function PracticePlanDialog({
+  open,
+  onOpenChange,
+  teamId,
+  sportId,
+  sport,
+  event,
+  plan,
+  drills,
+  templates,
+  onSaved
+}: PracticePlanDialogProps) {
+  const [name, setName] = useState('');
+  const [notes, setNotes] = useState('');
+  const [rows, setRows] = useState<BlockRow[]>([]);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+    setName(plan?.name ?? (event ? `${getEventTitle(event, sport)} ${formatDate(event.starts_at, { month: 'short', day: 'numeric' })}` : ''));
+    setNotes(plan?.notes ?? '');
+    setRows(plan?.blocks.map(toRow) ?? []);
+  }, [open, plan, event, sport]);
+
+  if (!open) return null;
+
+  const isTemplate = event === null;
+  const blocks: PlanBlock[] = rows.map(row => ({
+    drill_id: row.drill_id,
+    name: row.name,
+    duration_minutes: Math.round(Number(row.minutes)) || 0,
+    notes: row.notes.trim() || null
+  }));
+  const offsets = getBlockOffsets(blocks);
+  const planMinutes = getPlanMinutes(blocks);
+  const eventMinutes = event ? getEventMinutes(event) : null;
+  const valid = name.trim() && blocks.length > 0 && blocks.every(block => block.name.trim() && block.duration_minutes > 0);
+  const available = getDrillsForSport(drills, sportId);
+
+  const updateRow = (index: number, field: keyof BlockRow, value: string) => {
+    setRows(rows.map((row, current) => (current === index ? { ...row, [field]: value } : row)));
+  };
+
+  const moveRow = (index: number, direction: -1 | 1) => {
+    const next = [...rows];
+    [next[index], next[index + direction]] = [next[index + direction], next[index]];
+    setRows(next);
+  };
+
+  const addDrill = (drillId: string) => {
+    const drill = drills.find(option => option.id === drillId);
+    if (drill) setRows([...rows, toRow(toPlanBlock(drill))]);
+  };
+
+  const applyTemplate = (templateId: string) => {
+    const template = templates.find(option => option.id === templateId);
+    if (!template) return;
+    setRows(template.blocks.map(toRow));
+    if (!notes.trim()) setNotes(template.notes ?? '');
+  };
+
+  const save = async (asTemplate: boolean) => {
+    setSaving(true);
+    try {
+      await savePracticePlan(asTemplate && !isTemplate ? null : plan?.id ?? null, {
+        teamId,
+        eventId: asTemplate ? null : event?.id ?? null,
+        name,
+        notes,
+        isTemplate: asTemplate,
+        blocks
+      });
+      if (asTemplate && !isTemplate) {
+        toast({
+          title: "Template saved",
+          description: `${name.trim()} is in your template library`
+        });
+      } else {
+        onOpenChange(false);
+      }
+      onSaved();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error),
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-gray-900 border border-blue-500/20 text-white max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {isTemplate ? (plan ? 'Edit Template' : 'New Template') : plan ? 'Edit Practice Plan' : 'Plan Practice'}
+          </DialogTitle>
+          {event && (
+            <p className="text-sm text-gray-400">
+              {getEventTitle(event, sport)} • {formatDate(event.starts_at, { weekday: 'short', month: 'short', day: 'numeric' })}
+              {` • ${formatBlockStart(0, event.starts_at)} – ${formatBlockStart(eventMinutes ?? 0, event.starts_at)}`}
+            </p>
+          )}
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="plan-name" className="text-gray-400">Name</Label>
+              <Input
+                id="plan-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Tuesday Install"
+                className="bg-blue-500/5 border-blue-500/20 text-white"
+              />
+            </div>
+            {!plan && templates.length > 0 && (
+              <div className="space-y-2">
+                <Label className="text-gray-400">Start from a template</Label>
+                <Select value="" onValueChange={applyTemplate}>
+                  <SelectTrigger className="bg-blue-500/5 border-blue-500/20 text-white">
+                    <SelectValue placeholder="Choose a template" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {templates.map((template) => (
+                      <SelectItem key={template.id} value={template.id}>
+                        {template.name} ({getPlanMinutes(template.blocks)} min)
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <div className="grid grid-cols-[4.5rem_1fr_4rem_1fr_5.5rem] gap-2 text-xs text-gray-400">
+              <span>{event ? 'Time' : 'Start'}</span>
+              <span>Block</span>
+              <span>Min</span>
+              <span>Notes</span>
+              <span />
+            </div>
+            {rows.length === 0 && (
+              <p className="text-sm text-gray-400 text-center py-4">Add drills from the library or a break to build the plan</p>
+            )}
+            {rows.map((row, index) => (
+              <div key={index} className="grid grid-cols-[4.5rem_1fr_4rem_1fr_5.5rem] gap-2 items-center">
+                <span className="text-sm text-gray-300">{formatBlockStart(offsets[index], event?.starts_at)}</span>
+                <Input
+                  value={row.name}
+                  onChange={(e) => updateRow(index, 'name', e.target.value)}
+                  className="bg-blue-500/5 border-blue-500/20 text-white"
+                />
+                <Input
+                  value={row.minutes}
+                  onChange={(e) => updateRow(index, 'minutes', e.target.value)}
+                  inputMode="numeric"
+                  className="bg-blue-500/5 border-blue-500/20 text-white"
+                />
+                <Input
+                  value={row.notes}
+                  onChange={(e) => updateRow(index, 'notes', e.target.value)}
+                  placeholder="Groups, coaching points"
+                  className="bg-blue-500/5 border-blue-500/20 text-white"
+                />
+                <div className="flex">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => moveRow(index, -1)}
+                    disabled={index === 0}
+                    className="text-gray-400 hover:bg-blue-500/10 px-1"
+                  >
+                    <ArrowUp className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => moveRow(index, 1)}
+                    disabled={index === rows.length - 1}
+                    className="text-gray-400 hover:bg-blue-500/10 px-1"
+                  >
+                    <ArrowDown className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setRows(rows.filter((_, current) => current !== index))}
+                    className="text-gray-400 hover:text-red-400 hover:bg-red-500/10 px-1"
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+
+            <div className="flex flex-col sm:flex-row gap-2 pt-2">
+              <Select value="" onValueChange={addDrill} disabled={available.length === 0}>
+                <SelectTrigger className="bg-blue-500/5 border-blue-500/20 text-white sm:w-72">
+                  <SelectValue placeholder={available.length === 0 ? 'No drills in the library yet' : 'Add a drill'} />
+                </SelectTrigger>
+                <SelectContent>
+                  {available.map((drill) => (
+                    <SelectItem key={drill.id} value={drill.id}>
+                      {drill.name} ({drill.duration_minutes} min)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setRows([...rows, BREAK_ROW])}
+                className="border-white/10 hover:bg-blue-500/10"
+              >
+                <Coffee className="w-4 h-4 mr-2" />
+                Add Break
+              </Button>
+            </div>
+
+            <p className={cn(
+              'text-sm',
+              eventMinutes !== null && planMinutes > eventMinutes ? 'text-red-400' : 'text-gray-400'
+            )}>
+              {planMinutes} min planned
+              {eventMinutes !== null && ` of ${eventMinutes} min practice`}
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="plan-notes" className="text-gray-400">Notes</Label>
+            <Textarea
+              id="plan-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Focus for the day, equipment to bring"
+              className="bg-blue-500/5 border-blue-500/20 text-white"
+            />
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          {!isTemplate && (
+            <Button
+              variant="outline"
+              onClick={() => save(true)}
+              disabled={saving || !valid}
+              className="border-blue-500/40 text-blue-400 hover:bg-blue-500/10"
+            >
+              Save as Template
+            </Button>
+          )}
+          <Button
+            onClick={() => save(isTemplate)}
+            disabled={saving || !valid}
+            className="bg-blue-500 hover:bg-blue-600 text-white"
+          >
+            {saving ? <LoadingSpinner size="sm" /> : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
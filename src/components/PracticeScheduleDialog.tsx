@@ -0,0 +1,206 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { useToast } from '@/components/ui/use-toast';
+import { createPracticeSchedule } from '@/lib/events';
+import { WEEKDAYS, addDays, toDateKey } from '@/lib/calendar';
+import { getToday } from '@/lib/seasons';
+import { cn, getErrorMessage } from '@/lib/utils';
+
+interface PracticeScheduleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  teamId: string;
+  teamName: string;
+  // Usually the end of the team's season
+  defaultEndsOn?: string | null;
+  onCreated: () => void;
+}
+
+export function PracticeScheduleDialog({
+  open,
+  onOpenChange,
+  teamId,
+  teamName,
+  defaultEndsOn,
+  onCreated
+}: PracticeScheduleDialogProps) {
+  const [weekdays, setWeekdays] = useState<number[]>([1, 2, 3, 4, 5]);
+  const [startTime, setStartTime] = useState('15:30');
+  const [endTime, setEndTime] = useState('17:30');
+  const [startsOn, setStartsOn] = useState('');
+  const [endsOn, setEndsOn] = useState('');
+  const [location, setLocation] = useState('');
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  if (!open) return null;
+
+  const today = getToday();
+  const fallbackEnd = defaultEndsOn && defaultEndsOn > today
+    ? defaultEndsOn
+    : toDateKey(addDays(new Date(), 90));
+  const from = startsOn || today;
+  const to = endsOn || fallbackEnd;
+
+  const toggleWeekday = (value: number) => {
+    setWeekdays(weekdays.includes(value)
+      ? weekdays.filter(day => day !== value)
+      : [...weekdays, value].sort((a, b) => a - b));
+  };
+
+  const close = () => {
+    setStartsOn('');
+    setEndsOn('');
+    onOpenChange(false);
+  };
+
+  const handleCreate = async () => {
+    setSaving(true);
+    try {
+      const count = await createPracticeSchedule({
+        teamId,
+        weekdays,
+        startTime,
+        endTime,
+        startsOn: from,
+        endsOn: to,
+        location,
+        notes
+      });
+      toast({
+        title: "Practice schedule added",
+        description: `${count} ${count === 1 ? 'practice' : 'practices'} added to ${teamName}`
+      });
+      close();
+      onCreated();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error),
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => (value ? onOpenChange(value) : close())}>
+      <DialogContent className="bg-gray-900 border border-blue-500/20 text-white">
+        <DialogHeader>
+          <DialogTitle>Recurring Practices</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label className="text-gray-400">Days</Label>
+            <div className="flex flex-wrap gap-2">
+              {WEEKDAYS.map((weekday) => (
+                <Button
+                  key={weekday.value}
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => toggleWeekday(weekday.value)}
+                  className={cn(
+                    'w-12',
+                    weekdays.includes(weekday.value)
+                      ? 'border-blue-500/40 bg-blue-500/20 text-blue-400'
+                      : 'border-white/10 text-gray-400 hover:bg-blue-500/10'
+                  )}
+                >
+                  {weekday.label}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="practice-start-time" className="text-gray-400">Start time</Label>
+              <Input
+                id="practice-start-time"
+                type="time"
+                value={startTime}
+                onChange={(e) => setStartTime(e.target.value)}
+                className="bg-blue-500/5 border-blue-500/20 text-white"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="practice-end-time" className="text-gray-400">End time</Label>
+              <Input
+                id="practice-end-time"
+                type="time"
+                value={endTime}
+                onChange={(e) => setEndTime(e.target.value)}
+                className="bg-blue-500/5 border-blue-500/20 text-white"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="practice-starts-on" className="text-gray-400">From</Label>
+              <Input
+                id="practice-starts-on"
+                type="date"
+                value={from}
+                onChange={(e) => setStartsOn(e.target.value)}
+                className="bg-blue-500/5 border-blue-500/20 text-white"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="practice-ends-on" className="text-gray-400">Until</Label>
+              <Input
+                id="practice-ends-on"
+                type="date"
+                value={to}
+                onChange={(e) => setEndsOn(e.target.value)}
+                className="bg-blue-500/5 border-blue-500/20 text-white"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="practice-location" className="text-gray-400">Location</Label>
+            <Input
+              id="practice-location"
+              value={location}
+              onChange={(e) => setLocation(e.target.value)}
+              className="bg-blue-500/5 border-blue-500/20 text-white"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="practice-notes" className="text-gray-400">Notes</Label>
+            <Textarea
+              id="practice-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              className="bg-blue-500/5 border-blue-500/20 text-white"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={close} disabled={saving}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleCreate}
+            disabled={saving || weekdays.length === 0 || !startTime || !endTime}
+            className="bg-blue-500 hover:bg-blue-600 text-white"
+          >
+            {saving ? <LoadingSpinner size="sm" /> : 'Add Practices'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,89 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/components/ui/use-toast';
+import { RSVP_RESPONSES, respondToEvent, type Rsvp, type RsvpResponse } from '@/lib/rsvps';
+import { getErrorMessage } from '@/lib/utils';
+
+interface RsvpControlsProps {
+  eventId: string;
+  rsvp: Rsvp | null;
+  onSaved: () => void;
+}
+
+export function RsvpControls({ eventId, rsvp, onSaved }: RsvpControlsProps) {
+  const [reason, setReason] = useState(rsvp?.reason ?? '');
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setReason(rsvp?.reason ?? '');
+  }, [rsvp?.reason]);
+
+  const save = async (response: RsvpResponse) => {
+    try {
+      setSaving(true);
+      await respondToEvent(eventId, response, reason);
+      onSaved();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error),
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const needsReason = rsvp !== null && rsvp.response !== 'going';
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-2">
+        {RSVP_RESPONSES.map((option) => (
+          <button
+            key={option.value}
+            type="button"
+            disabled={saving}
+            onClick={() => save(option.value)}
+            className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors disabled:opacity-50 ${
+              rsvp?.response === option.value
+                ? option.className
+                : 'border-white/10 text-gray-400 hover:bg-white/5'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {needsReason && (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            save(rsvp.response);
+          }}
+          className="flex gap-2"
+        >
+          <Input
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Reason (optional)"
+            maxLength={500}
+            className="h-8 bg-blue-500/5 border-blue-500/20 text-white"
+          />
+          <Button
+            type="submit"
+            size="sm"
+            variant="outline"
+            disabled={saving || reason.trim() === (rsvp.reason ?? '')}
+            className="border-white/10 hover:bg-blue-500/10"
+          >
+            Save
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,405 @@
+import { useState } from 'react';
+import { Minus, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  BASERUNNING_KINDS,
+  PLATE_RESULTS,
+  SUBSTITUTION_POSITIONS,
+  getDefaultBaserunning,
+  getDefaultRunners,
+  parseFielders,
+  validateRunners,
+  type BaserunningKind,
+  type PlateResult,
+  type RunnerDestination,
+  type RunnerMove,
+  type ScorebookPlay,
+  type ScorebookState
+} from '@/lib/scorebook';
+import type { TeamMember } from '@/lib/teams';
+import { cn } from '@/lib/utils';
+
+type EntryMode = 'plate' | 'running' | 'change';
+
+interface ScorebookPlayEntryProps {
+  state: ScorebookState;
+  // Name of whoever is at the plate
+  batterName: string;
+  // Name of a runner on a base
+  runnerName: (base: number) => string;
+  athletes: TeamMember[];
+  // Athlete names by user id
+  names: Map<string, string | null>;
+  saving: boolean;
+  onRecord: (play: ScorebookPlay) => void;
+}
+
+const DESTINATIONS: { value: RunnerDestination; label: string }[] = [
+  { value: 'out', label: 'Out' },
+  { value: 1, label: '1st' },
+  { value: 2, label: '2nd' },
+  { value: 3, label: '3rd' },
+  { value: 4, label: 'Scored' }
+];
+
+const STARTING_BASES = ['Batter', '1st', '2nd', '3rd'];
+
+// Baserunning plays that credit fielders: putouts on the bases and errors
+const FIELDED_RUNNING: BaserunningKind[] = ['caught_stealing', 'pickoff', 'error'];
+
+function RunnerMovesEditor({
+  moves,
+  names,
+  onChange
+}: {
+  moves: RunnerMove[];
+  names: (from: number) => string;
+  onChange: (moves: RunnerMove[]) => void;
+}) {
+  if (moves.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      {moves.map((move, index) => (
+        <div key={move.from} className="flex items-center gap-2 text-sm">
+          <span className="w-16 text-gray-400">{STARTING_BASES[move.from]}</span>
+          <span className="flex-1 truncate text-white">{names(move.from)}</span>
+          <Select
+            value={String(move.to)}
+            onValueChange={(value) => onChange(moves.map((m, i) => (
+              i === index ? { ...m, to: value === 'out' ? 'out' : (Number(value) as RunnerDestination) } : m
+            )))}
+          >
+            <SelectTrigger className="w-28 bg-blue-500/5 border-blue-500/20 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DESTINATIONS
+                .filter(destination => destination.value === 'out' || destination.value >= Math.max(1, move.from))
+                .map((destination) => (
+                  <SelectItem key={destination.value} value={String(destination.value)}>
+                    {destination.label}
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Records the next play: a plate appearance, runners moving between
+// pitches, or a lineup or pitching change. Keyed by play count so each play
+// starts from a clean form.
+export function ScorebookPlayEntry({ state, batterName, runnerName, athletes, names, saving, onRecord }: ScorebookPlayEntryProps) {
+  const [mode, setMode] = useState<EntryMode>('plate');
+  const [pitches, setPitches] = useState('');
+  const [result, setResult] = useState<PlateResult | null>(null);
+  const [kind, setKind] = useState<BaserunningKind>('stolen_base');
+  const [moves, setMoves] = useState<RunnerMove[]>([]);
+  const [fielders, setFielders] = useState('');
+  const [spot, setSpot] = useState('');
+  const [athleteId, setAthleteId] = useState('');
+  const [position, setPosition] = useState('');
+  const [pitcherId, setPitcherId] = useState('');
+  const fielding = state.batting === 'them';
+  const hasRunners = state.bases.some(Boolean);
+
+  const moverName = (from: number) => (from === 0 ? batterName : runnerName(from));
+  const pitchCount = Number(pitches || 0);
+
+  const choosePlateResult = (value: PlateResult) => {
+    setResult(value);
+    setMoves(getDefaultRunners(state, value));
+  };
+
+  const chooseKind = (value: BaserunningKind) => {
+    setKind(value);
+    setMoves(getDefaultBaserunning(state, value));
+  };
+
+  const switchMode = (next: EntryMode) => {
+    setMode(next);
+    setFielders('');
+    if (next === 'plate') setMoves(result ? getDefaultRunners(state, result) : []);
+    if (next === 'running') setMoves(getDefaultBaserunning(state, kind));
+  };
+
+  const problem = mode === 'plate'
+    ? !result
+      ? 'Choose the result'
+      : !Number.isInteger(pitchCount) || pitchCount < 0
+        ? 'Pitches must be a whole number'
+        : validateRunners(state, moves, true)
+    : mode === 'running'
+      ? validateRunners(state, moves, false)
+      : null;
+
+  const recordPlate = () => {
+    if (!result) return;
+    onRecord({
+      type: 'plate_appearance',
+      pitches: pitchCount,
+      result,
+      fielders: fielding ? parseFielders(fielders) : undefined,
+      runners: moves
+    });
+  };
+
+  const recordRunning = () => {
+    onRecord({
+      type: 'baserunning',
+      kind,
+      fielders: fielding && FIELDED_RUNNING.includes(kind) ? parseFielders(fielders) : undefined,
+      runners: moves
+    });
+  };
+
+  const recordSubstitution = () => {
+    onRecord({ type: 'substitution', spot: Number(spot), athleteId, position });
+  };
+
+  const recordPitchingChange = () => {
+    onRecord({ type: 'pitching_change', athleteId: pitcherId });
+  };
+
+  const inLineup = new Set(state.lineup.map(current => current.athleteId));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2">
+        {([
+          ['plate', 'Plate Appearance'],
+          ['running', 'Baserunning'],
+          ['change', 'Changes']
+        ] as const).map(([value, label]) => (
+          <Button
+            key={value}
+            size="sm"
+            variant={mode === value ? 'default' : 'outline'}
+            onClick={() => switchMode(value)}
+            disabled={value === 'running' && !hasRunners}
+            className={mode === value ? 'bg-blue-500 hover:bg-blue-600 text-white' : 'border-white/10 hover:bg-blue-500/10'}
+          >
+            {label}
+          </Button>
+        ))}
+      </div>
+
+      {mode === 'plate' && (
+        <div className="space-y-4">
+          <div className="flex items-end gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="pa-pitches" className="text-gray-400">Pitches</Label>
+              <div className="flex items-center gap-1">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  aria-label="One fewer pitch"
+                  onClick={() => setPitches(String(Math.max(0, pitchCount - 1)))}
+                  className="border-white/10 hover:bg-blue-500/10"
+                >
+                  <Minus className="w-4 h-4" />
+                </Button>
+                <Input
+                  id="pa-pitches"
+                  inputMode="numeric"
+                  value={pitches}
+                  onChange={(e) => setPitches(e.target.value)}
+                  className="w-16 text-center bg-blue-500/5 border-blue-500/20 text-white"
+                />
+                <Button
+                  variant="outline"
+                  size="sm"
+                  aria-label="One more pitch"
+                  onClick={() => setPitches(String(pitchCount + 1))}
+                  className="border-white/10 hover:bg-blue-500/10"
+                >
+                  <Plus className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+            {fielding && (
+              <div className="space-y-2">
+                <Label htmlFor="pa-fielders" className="text-gray-400">Fielders</Label>
+                <Input
+                  id="pa-fielders"
+                  value={fielders}
+                  onChange={(e) => setFielders(e.target.value)}
+                  placeholder="e.g. 6-3"
+                  className="w-28 bg-blue-500/5 border-blue-500/20 text-white"
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-3 sm:grid-cols-6 gap-2">
+            {PLATE_RESULTS.map((definition) => (
+              <Button
+                key={definition.value}
+                size="sm"
+                variant="outline"
+                title={definition.label}
+                onClick={() => choosePlateResult(definition.value)}
+                className={cn(
+                  'border-white/10 hover:bg-blue-500/10',
+                  result === definition.value && 'bg-blue-500/20 border-blue-500/40'
+                )}
+              >
+                {definition.abbreviation}
+              </Button>
+            ))}
+          </div>
+
+          <RunnerMovesEditor moves={moves} names={moverName} onChange={setMoves} />
+        </div>
+      )}
+
+      {mode === 'running' && (
+        <div className="space-y-4">
+          <div className="flex items-end gap-4">
+            <div className="space-y-2">
+              <Label className="text-gray-400">Play</Label>
+              <Select value={kind} onValueChange={(value) => chooseKind(value as BaserunningKind)}>
+                <SelectTrigger className="w-44 bg-blue-500/5 border-blue-500/20 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {BASERUNNING_KINDS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {fielding && FIELDED_RUNNING.includes(kind) && (
+              <div className="space-y-2">
+                <Label htmlFor="running-fielders" className="text-gray-400">Fielders</Label>
+                <Input
+                  id="running-fielders"
+                  value={fielders}
+                  onChange={(e) => setFielders(e.target.value)}
+                  placeholder={kind === 'error' ? 'e.g. 2' : 'e.g. 2-6'}
+                  className="w-28 bg-blue-500/5 border-blue-500/20 text-white"
+                />
+              </div>
+            )}
+          </div>
+          <RunnerMovesEditor moves={moves} names={moverName} onChange={setMoves} />
+        </div>
+      )}
+
+      {mode === 'change' && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-4 gap-2 items-end">
+            <div className="space-y-2">
+              <Label className="text-gray-400">Spot</Label>
+              <Select
+                value={spot}
+                onValueChange={(value) => {
+                  setSpot(value);
+                  setPosition(state.lineup[Number(value)]?.position ?? '');
+                }}
+              >
+                <SelectTrigger className="bg-blue-500/5 border-blue-500/20 text-white">
+                  <SelectValue placeholder="Spot" />
+                </SelectTrigger>
+                <SelectContent>
+                  {state.lineup.map((current, index) => (
+                    <SelectItem key={index} value={String(index)}>
+                      {index + 1}. {names.get(current.athleteId) ?? 'Former player'}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label className="text-gray-400">Player</Label>
+              <Select value={athleteId} onValueChange={setAthleteId}>
+                <SelectTrigger className="bg-blue-500/5 border-blue-500/20 text-white">
+                  <SelectValue placeholder="Choose a player" />
+                </SelectTrigger>
+                <SelectContent>
+                  {athletes
+                    .filter(athlete => !inLineup.has(athlete.user_id) || athlete.user_id === state.lineup[Number(spot)]?.athleteId)
+                    .map((athlete) => (
+                      <SelectItem key={athlete.user_id} value={athlete.user_id}>
+                        {athlete.full_name ?? athlete.email}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label className="text-gray-400">Position</Label>
+              <Select value={position} onValueChange={setPosition}>
+                <SelectTrigger className="bg-blue-500/5 border-blue-500/20 text-white">
+                  <SelectValue placeholder="Pos" />
+                </SelectTrigger>
+                <SelectContent>
+                  {SUBSTITUTION_POSITIONS.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {option}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button
+              onClick={recordSubstitution}
+              disabled={saving || spot === '' || !athleteId || !position}
+              className="bg-blue-500 hover:bg-blue-600 text-white"
+            >
+              Substitute
+            </Button>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-4 gap-2 items-end">
+            <div className="space-y-2 sm:col-span-3">
+              <Label className="text-gray-400">New Pitcher</Label>
+              <Select value={pitcherId} onValueChange={setPitcherId}>
+                <SelectTrigger className="bg-blue-500/5 border-blue-500/20 text-white">
+                  <SelectValue placeholder="Choose a pitcher" />
+                </SelectTrigger>
+                <SelectContent>
+                  {athletes
+                    .filter(athlete => athlete.user_id !== state.pitcherId)
+                    .map((athlete) => (
+                      <SelectItem key={athlete.user_id} value={athlete.user_id}>
+                        {athlete.full_name ?? athlete.email}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button
+              onClick={recordPitchingChange}
+              disabled={saving || !pitcherId}
+              className="bg-blue-500 hover:bg-blue-600 text-white"
+            >
+              Change Pitcher
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {mode !== 'change' && (
+        <div className="flex items-center justify-end gap-4">
+          {problem && <p className="text-sm text-amber-300">{problem}</p>}
+          <Button
+            onClick={mode === 'plate' ? recordPlate : recordRunning}
+            disabled={saving || problem !== null}
+            className="bg-blue-500 hover:bg-blue-600 text-white"
+          >
+            Record
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,260 @@
+import { useState, useEffect } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { useToast } from '@/components/ui/use-toast';
+import {
+  DEFAULT_LINEUP_SIZE,
+  FIELD_POSITIONS,
+  LINEUP_POSITIONS,
+  MAX_LINEUP_SIZE,
+  REGULATION_INNINGS,
+  saveScorebook,
+  type DiamondSport,
+  type LineupSpot,
+  type Scorebook
+} from '@/lib/scorebook';
+import type { TeamMember } from '@/lib/teams';
+import { getErrorMessage } from '@/lib/utils';
+
+interface ScorebookSetupDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  gameId: string;
+  sport: DiamondSport;
+  athletes: TeamMember[];
+  // The scorebook to edit; a new one is started when this is null
+  book: Scorebook | null;
+  // Whether we bat first by default, e.g. as the visiting team
+  defaultBatsFirst: boolean;
+  onSaved: (book: Scorebook) => void;
+}
+
+const FIELDING = new Set(FIELD_POSITIONS.map(({ position }) => position));
+
+const emptySpot = (): LineupSpot => ({ athleteId: '', position: '' });
+
+export function ScorebookSetupDialog({
+  open,
+  onOpenChange,
+  gameId,
+  sport,
+  athletes,
+  book,
+  defaultBatsFirst,
+  onSaved
+}: ScorebookSetupDialogProps) {
+  const [lineup, setLineup] = useState<LineupSpot[]>([]);
+  const [startingPitcher, setStartingPitcher] = useState('');
+  const [batsFirst, setBatsFirst] = useState(true);
+  const [innings, setInnings] = useState('');
+  const [opponentBatters, setOpponentBatters] = useState('');
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+    setLineup(book?.lineup ?? Array.from({ length: DEFAULT_LINEUP_SIZE }, emptySpot));
+    setStartingPitcher(book?.starting_pitcher ?? '');
+    setBatsFirst(book?.bats_first ?? defaultBatsFirst);
+    setInnings(String(book?.innings ?? REGULATION_INNINGS[sport]));
+    setOpponentBatters(String(book?.opponent_batters ?? DEFAULT_LINEUP_SIZE));
+  }, [open, book, defaultBatsFirst, sport]);
+
+  if (!open) return null;
+
+  // Plays refer to spots in the order, so it can only grow or shrink before
+  // the first pitch
+  const started = (book?.plays.length ?? 0) > 0;
+  const chosen = lineup.map(spot => spot.athleteId).filter(Boolean);
+  const fielded = lineup.map(spot => spot.position).filter(position => FIELDING.has(position));
+  const inningCount = Number(innings);
+  const opponentCount = Number(opponentBatters);
+
+  const problem = lineup.some(spot => !spot.athleteId || !spot.position)
+    ? 'Fill in every spot in the batting order'
+    : new Set(chosen).size !== chosen.length
+      ? 'A player is in the order twice'
+      : new Set(fielded).size !== fielded.length
+        ? 'Two players are at the same position'
+        : !startingPitcher
+          ? 'Choose the starting pitcher'
+          : !Number.isInteger(inningCount) || inningCount < 1 || inningCount > 9
+            ? 'Innings must be between 1 and 9'
+            : !Number.isInteger(opponentCount) || opponentCount < 1 || opponentCount > MAX_LINEUP_SIZE
+              ? `The opposing order must have 1 to ${MAX_LINEUP_SIZE} batters`
+              : null;
+
+  const updateSpot = (index: number, changes: Partial<LineupSpot>) => {
+    setLineup(lineup.map((spot, i) => (i === index ? { ...spot, ...changes } : spot)));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const saved = await saveScorebook(book, {
+        gameId,
+        innings: inningCount,
+        batsFirst,
+        lineup,
+        startingPitcher,
+        opponentBatters: opponentCount
+      });
+      onOpenChange(false);
+      onSaved(saved);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error),
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-gray-900 border border-blue-500/20 text-white max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{book ? 'Edit Lineup' : 'Start Scorebook'}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-6 py-4">
+          <div className="space-y-2">
+            <Label className="text-gray-400">Batting Order</Label>
+            {lineup.map((spot, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <span className="w-6 text-right text-sm text-gray-400">{index + 1}</span>
+                <Select value={spot.athleteId} onValueChange={(value) => updateSpot(index, { athleteId: value })}>
+                  <SelectTrigger className="flex-1 bg-blue-500/5 border-blue-500/20 text-white">
+                    <SelectValue placeholder="Choose a player" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {athletes
+                      .filter(athlete => athlete.user_id === spot.athleteId || !chosen.includes(athlete.user_id))
+                      .map((athlete) => (
+                        <SelectItem key={athlete.user_id} value={athlete.user_id}>
+                          {athlete.full_name ?? athlete.email}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+                <Select value={spot.position} onValueChange={(value) => updateSpot(index, { position: value })}>
+                  <SelectTrigger className="w-24 bg-blue-500/5 border-blue-500/20 text-white">
+                    <SelectValue placeholder="Pos" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {LINEUP_POSITIONS.map((position) => (
+                      <SelectItem key={position} value={position}>
+                        {position}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setLineup(lineup.filter((_, i) => i !== index))}
+                  disabled={started || lineup.length <= 1}
+                  className="text-red-400 hover:bg-red-500/10"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setLineup([...lineup, emptySpot()])}
+              disabled={started || lineup.length >= MAX_LINEUP_SIZE}
+              className="border-white/10 hover:bg-blue-500/10"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add Spot
+            </Button>
+            {started && (
+              <p className="text-xs text-gray-400">
+                Once play has started, make changes with substitutions instead
+              </p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label className="text-gray-400">Starting Pitcher</Label>
+              <Select value={startingPitcher} onValueChange={setStartingPitcher}>
+                <SelectTrigger className="bg-blue-500/5 border-blue-500/20 text-white">
+                  <SelectValue placeholder="Choose a pitcher" />
+                </SelectTrigger>
+                <SelectContent>
+                  {athletes.map((athlete) => (
+                    <SelectItem key={athlete.user_id} value={athlete.user_id}>
+                      {athlete.full_name ?? athlete.email}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label className="text-gray-400">We Bat</Label>
+              <Select value={batsFirst ? 'top' : 'bottom'} onValueChange={(value) => setBatsFirst(value === 'top')}>
+                <SelectTrigger className="bg-blue-500/5 border-blue-500/20 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="top">First (top of the inning)</SelectItem>
+                  <SelectItem value="bottom">Second (bottom of the inning)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="scorebook-innings" className="text-gray-400">Innings</Label>
+              <Input
+                id="scorebook-innings"
+                type="number"
+                min={1}
+                max={9}
+                value={innings}
+                onChange={(e) => setInnings(e.target.value)}
+                className="bg-blue-500/5 border-blue-500/20 text-white"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="scorebook-opponents" className="text-gray-400">Opposing Batters</Label>
+              <Input
+                id="scorebook-opponents"
+                type="number"
+                min={1}
+                max={MAX_LINEUP_SIZE}
+                value={opponentBatters}
+                onChange={(e) => setOpponentBatters(e.target.value)}
+                disabled={started}
+                className="bg-blue-500/5 border-blue-500/20 text-white"
+              />
+            </div>
+          </div>
+
+          {problem && <p className="text-sm text-amber-300">{problem}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={saving || problem !== null}
+            className="bg-blue-500 hover:bg-blue-600 text-white"
+          >
+            {saving ? <LoadingSpinner size="sm" /> : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
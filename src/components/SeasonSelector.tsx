@@ -0,0 +1,43 @@
+import { CalendarRange } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useSeasons } from '@/hooks/useSeasons';
+import { getSeasonNames } from '@/lib/seasons';
+import { cn } from '@/lib/utils';
+
+const CURRENT = 'current';
+
+interface SeasonSelectorProps {
+  className?: string;
+}
+
+// Picks the season shown across the dashboard: each sport's current season,
+// or every sport's season with a given name
+export function SeasonSelector({ className }: SeasonSelectorProps) {
+  const { seasons, selectedSeason, setSelectedSeason } = useSeasons();
+  const names = getSeasonNames(seasons);
+
+  return (
+    <div className={cn('space-y-1', className)}>
+      <span className="flex items-center gap-1 text-xs text-gray-400">
+        <CalendarRange className="h-3 w-3" />
+        Season
+      </span>
+      <Select
+        value={selectedSeason ?? CURRENT}
+        onValueChange={(value) => setSelectedSeason(value === CURRENT ? null : value)}
+      >
+        <SelectTrigger className="bg-blue-500/5 border-blue-500/20 text-white">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={CURRENT}>Current season</SelectItem>
+          {names.map((name) => (
+            <SelectItem key={name} value={name}>
+              {name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { CalendarDays, MapPin, Rss } from 'lucide-react';
+import { useRealtimeSubscription } from '@/hooks/useRealtimeSubscription';
+import { CalendarFeedLink } from '@/components/CalendarFeedLink';
+import { fetchUpcomingEvents, getEventTitle, isPracticeType, type TeamEvent } from '@/lib/events';
+import type { Team } from '@/lib/teams';
+import type { SportDefinition } from '@/lib/sport-definitions';
+import { formatDate, formatTime } from '@/lib/utils';
+
+const UPCOMING_LIMIT = 8;
+
+interface SportEventsPanelProps {
+  sport: SportDefinition;
+  team: Team;
+}
+
+export function SportEventsPanel({ sport, team }: SportEventsPanelProps) {
+  const [events, setEvents] = useState<TeamEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadEvents = useCallback(async () => {
+    try {
+      setEvents(await fetchUpcomingEvents([team.id], UPCOMING_LIMIT));
+    } catch (error) {
+      console.error('Error loading events:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [team.id]);
+
+  useEffect(() => {
+    setLoading(true);
+    loadEvents();
+  }, [loadEvents]);
+
+  useRealtimeSubscription('events', loadEvents);
+
+  return (
+    <div className="space-y-6">
+      <Card className="bg-black/40 backdrop-blur-xl border border-blue-500/20">
+        <CardHeader>
+          <CardTitle className="text-white flex items-center gap-2">
+            <CalendarDays className="h-5 w-5 text-blue-400" />
+            Upcoming
+          </CardTitle>
+          <div className="flex flex-wrap gap-2 pt-2">
+            {sport.eventTypes.map((eventType) => (
+              <span
+                key={eventType.value}
+                className="px-2.5 py-0.5 rounded-full text-xs font-medium bg-purple-500/20 text-purple-400 border border-purple-500/20"
+              >
+                {eventType.label}
+              </span>
+            ))}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <LoadingSpinner size="lg" />
+            </div>
+          ) : events.length > 0 ? (
+            <div className="space-y-3">
+              {events.map((event) => (
+                <div
+                  key={event.id}
+                  className="flex items-start gap-4 p-3 rounded-lg bg-blue-500/5 border border-blue-500/10"
+                >
+                  <div className="w-14 shrink-0 text-center">
+                    <p className="text-xs uppercase text-gray-400">
+                      {formatDate(event.starts_at, { month: 'short' })}
+                    </p>
+                    <p className="text-xl font-bold text-white">
+                      {formatDate(event.starts_at, { day: 'numeric' })}
+                    </p>
+                  </div>
+                  <div className="min-w-0">
+                    <p className={`font-medium ${isPracticeType(event.type) ? 'text-blue-300' : 'text-purple-300'}`}>
+                      {getEventTitle(event, sport)}
+                    </p>
+                    <p className="text-sm text-gray-400">
+                      {formatDate(event.starts_at, { weekday: 'long' })} • {formatTime(event.starts_at)} – {formatTime(event.ends_at)}
+                    </p>
+                    {event.location && (
+                      <p className="text-sm text-gray-400 flex items-center gap-1">
+                        <MapPin className="w-3 h-3 shrink-0" />
+                        <span className="truncate">{event.location}</span>
+                      </p>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-center text-gray-400 py-8">
+              No events scheduled for {team.name} yet
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="bg-black/40 backdrop-blur-xl border border-blue-500/20">
+        <CardHeader>
+          <CardTitle className="text-white flex items-center gap-2">
+            <Rss className="h-5 w-5 text-blue-400" />
+            Subscribe
+          </CardTitle>
+          <p className="text-sm text-gray-400">
+            Keep {team.name}'s schedule on your phone calendar
+          </p>
+        </CardHeader>
+        <CardContent>
+          <CalendarFeedLink key={team.id} teamId={team.id} />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Users } from 'lucide-react';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { useRealtimeSubscription } from '@/hooks/useRealtimeSubscription';
+import { compareRosterOrder, fetchTeamMembers, type Team, type TeamMember } from '@/lib/teams';
+import type { SportDefinition } from '@/lib/sport-definitions';
+
+interface SportRosterPanelProps {
+  sport: SportDefinition;
+  team: Team;
+}
+
+export function SportRosterPanel({ sport, team }: SportRosterPanelProps) {
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadMembers = useCallback(async () => {
+    try {
+      setMembers(await fetchTeamMembers(team.id));
+    } catch (error) {
+      console.error('Error loading roster:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [team.id]);
+
+  useEffect(() => {
+    setLoading(true);
+    loadMembers();
+  }, [loadMembers]);
+
+  useRealtimeSubscription('team_members', loadMembers);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  const coaches = members.filter(member => member.role === 'coach');
+  const athletes = members
+    .filter(member => member.role === 'athlete')
+    .sort(compareRosterOrder);
+
+  const positionCounts = sport.positions.map(position => ({
+    position,
+    count: athletes.filter(athlete => athlete.position?.toLowerCase() === position.toLowerCase()).length
+  }));
+
+  return (
+    <div className="space-y-6">
+      {sport.positions.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {positionCounts.map(({ position, count }) => (
+            <span
+              key={position}
+              className="px-3 py-1 rounded-full text-sm bg-blue-500/10 text-blue-400 border border-blue-500/20"
+            >
+              {position} <span className="text-white font-medium">{count}</span>
+            </span>
+          ))}
+        </div>
+      )}
+
+      <Card className="bg-black/40 backdrop-blur-xl border border-blue-500/20">
+        <CardHeader>
+          <CardTitle className="text-white flex items-center gap-2">
+            <Users className="h-5 w-5 text-blue-400" />
+            Roster
+          </CardTitle>
+          {coaches.length > 0 && (
+            <p className="text-sm text-gray-400">
+              Coached by {coaches.map(coach => coach.full_name ?? coach.email).join(', ')}
+            </p>
+          )}
+        </CardHeader>
+        <CardContent>
+          {athletes.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-400 border-b border-white/10">
+                    <th className="py-2 pr-4 font-medium">#</th>
+                    <th className="py-2 pr-4 font-medium">Name</th>
+                    {sport.positions.length > 0 && <th className="py-2 pr-4 font-medium">Position</th>}
+                    <th className="py-2 font-medium">Class</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {athletes.map((athlete) => (
+                    <tr key={athlete.id} className="border-b border-white/5 text-white">
+                      <td className="py-2 pr-4 text-gray-400">{athlete.jersey_number ?? '—'}</td>
+                      <td className="py-2 pr-4">{athlete.full_name ?? athlete.email}</td>
+                      {sport.positions.length > 0 && (
+                        <td className="py-2 pr-4">{athlete.position ?? '—'}</td>
+                      )}
+                      <td className="py-2">{athlete.grad_year ?? '—'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="text-center text-gray-400 py-8">No athletes on this team yet</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
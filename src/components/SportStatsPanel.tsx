@@ -0,0 +1,145 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { BarChart3, Gauge } from 'lucide-react';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { useRealtimeSubscription } from '@/hooks/useRealtimeSubscription';
+import {
+  buildStatLines,
+  fetchTeamGameStats,
+  formatStatValue,
+  type GameStat
+} from '@/lib/stats';
+import { compareRosterOrder, fetchTeamMembers, type Team, type TeamMember } from '@/lib/teams';
+import { getSportStats, type SportDefinition } from '@/lib/sport-definitions';
+
+interface SportStatsPanelProps {
+  sport: SportDefinition;
+  team: Team;
+}
+
+export function SportStatsPanel({ sport, team }: SportStatsPanelProps) {
+  const [athletes, setAthletes] = useState<TeamMember[]>([]);
+  const [gameStats, setGameStats] = useState<GameStat[]>([]);
+  const [gameCount, setGameCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+
+  const loadStats = useCallback(async () => {
+    try {
+      const [{ games, stats }, members] = await Promise.all([
+        fetchTeamGameStats(team.id),
+        fetchTeamMembers(team.id)
+      ]);
+      setGameCount(games.length);
+      setGameStats(stats);
+      setAthletes(members.filter(member => member.role === 'athlete').sort(compareRosterOrder));
+    } catch (error) {
+      console.error('Error loading stats:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [team.id]);
+
+  useEffect(() => {
+    setLoading(true);
+    loadStats();
+  }, [loadStats]);
+
+  useRealtimeSubscription('game_stats', loadStats);
+
+  const lines = useMemo(() => buildStatLines(getSportStats(sport), gameStats), [sport, gameStats]);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-gray-400">
+        Season lines from {gameCount} {gameCount === 1 ? 'game' : 'games'}
+      </p>
+
+      {sport.statCategories.map((category) => {
+        // Only athletes with something recorded in this category
+        const rows = athletes.filter(athlete =>
+          category.stats.some(stat => lines.get(athlete.user_id)?.[stat.key] != null)
+        );
+
+        return (
+          <Card key={category.key} className="bg-black/40 backdrop-blur-xl border border-blue-500/20">
+            <CardHeader>
+              <CardTitle className="text-white flex items-center gap-2">
+                <BarChart3 className="h-5 w-5 text-blue-400" />
+                {category.label}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {rows.length > 0 ? (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-gray-400 border-b border-white/10">
+                        <th className="py-2 pr-4 text-left font-medium">Athlete</th>
+                        {category.stats.map((stat) => (
+                          <th key={stat.key} title={stat.label} className="py-2 px-2 font-medium text-right">
+                            {stat.abbreviation}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {rows.map((athlete) => (
+                        <tr key={athlete.id} className="border-b border-white/5 text-white">
+                          <td className="py-2 pr-4 whitespace-nowrap">{athlete.full_name ?? athlete.email}</td>
+                          {category.stats.map((stat) => (
+                            <td key={stat.key} className="py-2 px-2 text-right">
+                              {formatStatValue(stat, lines.get(athlete.user_id)?.[stat.key])}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ) : (
+                <p className="text-center text-gray-400 py-4">
+                  No {category.label.toLowerCase()} stats recorded for {team.name} yet
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        );
+      })}
+
+      {sport.metrics.length > 0 && (
+        <Card className="bg-black/40 backdrop-blur-xl border border-blue-500/20">
+          <CardHeader>
+            <CardTitle className="text-white flex items-center gap-2">
+              <Gauge className="h-5 w-5 text-blue-400" />
+              Performance Metrics
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+              {sport.metrics.map((metric) => (
+                <div
+                  key={metric.key}
+                  className="p-3 rounded-lg bg-blue-500/5 border border-blue-500/10"
+                >
+                  <p className="text-white font-medium">{metric.label}</p>
+                  <p className="text-xs text-gray-400">
+                    Measured in {metric.unit}
+                    {metric.lowerIsBetter && ' • lower is better'}
+                  </p>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { TrendingUp } from 'lucide-react';
+import { AthleteTestingProfile } from '@/components/AthleteTestingProfile';
+import { useRealtimeSubscription } from '@/hooks/useRealtimeSubscription';
+import { fetchTestHistory, type TestHistory } from '@/lib/performance-tests';
+import { getSportTests, type SportDefinition } from '@/lib/sport-definitions';
+import { compareRosterOrder, fetchTeamMembers, type Team, type TeamMember } from '@/lib/teams';
+import { useAuthStore } from '@/store/auth';
+
+interface SportTestingPanelProps {
+  sport: SportDefinition;
+  team: Team;
+}
+
+// Athletes see their own test results; coaches and admins pick an athlete
+export function SportTestingPanel({ sport, team }: SportTestingPanelProps) {
+  const { user } = useAuthStore();
+  const [athletes, setAthletes] = useState<TeamMember[]>([]);
+  const [history, setHistory] = useState<TestHistory>({ sessions: [], results: [] });
+  const [selectedAthleteId, setSelectedAthleteId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const tests = useMemo(() => getSportTests(sport), [sport]);
+
+  const loadResults = useCallback(async () => {
+    try {
+      const members = await fetchTeamMembers(team.id);
+      const roster = members.filter(member => member.role === 'athlete').sort(compareRosterOrder);
+      setAthletes(roster);
+      setHistory(await fetchTestHistory(roster.map(athlete => athlete.user_id)));
+    } catch (error) {
+      console.error('Error loading test results:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [team.id]);
+
+  useEffect(() => {
+    setLoading(true);
+    loadResults();
+  }, [loadResults]);
+
+  useRealtimeSubscription('test_results', loadResults);
+
+  const athleteIds = useMemo(() => athletes.map(athlete => athlete.user_id), [athletes]);
+  const isAthlete = athleteIds.includes(user?.id ?? '');
+  const athleteId = isAthlete
+    ? user?.id ?? null
+    : athletes.find(athlete => athlete.user_id === selectedAthleteId)?.user_id ?? athletes[0]?.user_id ?? null;
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  return (
+    <Card className="bg-black/40 backdrop-blur-xl border border-blue-500/20">
+      <CardHeader className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 space-y-0">
+        <CardTitle className="text-white flex items-center gap-2">
+          <TrendingUp className="h-5 w-5 text-blue-400" />
+          {isAthlete ? 'My Testing Progress' : 'Testing Progress'}
+        </CardTitle>
+        {!isAthlete && athletes.length > 0 && (
+          <Select value={athleteId ?? ''} onValueChange={setSelectedAthleteId}>
+            <SelectTrigger className="md:w-72 bg-blue-500/5 border-blue-500/20 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {athletes.map((athlete) => (
+                <SelectItem key={athlete.user_id} value={athlete.user_id}>
+                  {athlete.full_name ?? athlete.email}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </CardHeader>
+      <CardContent>
+        {athleteId ? (
+          <AthleteTestingProfile
+            athleteId={athleteId}
+            tests={tests}
+            history={history}
+            teammateIds={athleteIds}
+          />
+        ) : (
+          <p className="text-center text-gray-400 py-8">No athletes on {team.name} yet</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
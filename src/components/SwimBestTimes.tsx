@@ -0,0 +1,95 @@
+import {
+  SWIM_COURSES,
+  SWIM_EVENTS,
+  checkStandards,
+  formatSwimEvent,
+  formatSwimTime,
+  getBestTimes,
+  getComparableTime,
+  type SwimResult,
+  type SwimTimeStandard
+} from '@/lib/swimming';
+import { cn } from '@/lib/utils';
+
+interface SwimBestTimesProps {
+  athleteId: string;
+  results: SwimResult[];
+  standards: SwimTimeStandard[];
+}
+
+// A swimmer's best time in every event they have swum, in each course, with
+// the standards they have met. Courses they have not swum the event in show
+// a converted time.
+export function SwimBestTimes({ athleteId, results, standards }: SwimBestTimesProps) {
+  const best = getBestTimes(athleteId, results);
+  const events = SWIM_EVENTS.filter(swimEvent => !swimEvent.relay && best.has(swimEvent.key));
+
+  if (events.length === 0) {
+    return <p className="text-center text-gray-400 py-8">Best times appear once the swimmer has a legal time</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-400 border-b border-white/10">
+            <th className="py-2 pr-4 font-medium">Event</th>
+            {SWIM_COURSES.map((course) => (
+              <th key={course.value} className="py-2 pr-4 font-medium text-right" title={course.label}>
+                {course.value}
+              </th>
+            ))}
+            <th className="py-2 font-medium">Standards</th>
+          </tr>
+        </thead>
+        <tbody>
+          {events.map((swimEvent) => {
+            const checks = checkStandards(
+              swimEvent.key,
+              course => getComparableTime(swimEvent.key, best, course),
+              standards
+            );
+            const next = checks.filter(check => !check.met).pop();
+            return (
+              <tr key={swimEvent.key} className="border-b border-white/5 text-white align-top">
+                <td className="py-2 pr-4">{formatSwimEvent(swimEvent)}</td>
+                {SWIM_COURSES.map(({ value: course }) => {
+                  const compared = swimEvent.courses.includes(course)
+                    ? getComparableTime(swimEvent.key, best, course)
+                    : null;
+                  return (
+                    <td
+                      key={course}
+                      className={cn('py-2 pr-4 text-right', compared?.converted && 'text-gray-500 italic')}
+                      title={compared?.converted ? 'Converted from another course' : undefined}
+                    >
+                      {compared ? `${compared.converted ? '≈ ' : ''}${formatSwimTime(compared.time)}` : '—'}
+                    </td>
+                  );
+                })}
+                <td className="py-2">
+                  <div className="flex flex-wrap gap-1">
+                    {checks.filter(check => check.met).map((check) => (
+                      <span
+                        key={check.standard.id}
+                        className="text-xs px-1.5 py-0.5 rounded bg-emerald-500/20 text-emerald-300"
+                        title={`${check.standard.course} cut ${formatSwimTime(check.cut)}`}
+                      >
+                        {check.converted && '≈ '}{check.standard.name} {check.standard.course}
+                      </span>
+                    ))}
+                    {next && (
+                      <span className="text-xs text-gray-400">
+                        {formatSwimTime(next.time - next.cut)} off {next.standard.name} {next.standard.course}
+                      </span>
+                    )}
+                  </div>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { useToast } from '@/components/ui/use-toast';
+import { getToday } from '@/lib/seasons';
+import { createGame, type Game } from '@/lib/stats';
+import { getErrorMessage } from '@/lib/utils';
+
+interface SwimMeetDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  teamId: string;
+  onSaved: (meet: Game) => void;
+}
+
+// Adds a meet to the schedule; results are entered against it
+export function SwimMeetDialog({ open, onOpenChange, teamId, onSaved }: SwimMeetDialogProps) {
+  const [name, setName] = useState('');
+  const [playedOn, setPlayedOn] = useState('');
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+    setName('');
+    setPlayedOn(getToday());
+  }, [open]);
+
+  if (!open) return null;
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const meet = await createGame({ teamId, opponent: name, playedOn });
+      onOpenChange(false);
+      onSaved(meet);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error),
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-gray-900 border border-blue-500/20 text-white">
+        <DialogHeader>
+          <DialogTitle>Add Meet</DialogTitle>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="meet-name" className="text-gray-400">Opponent or Meet</Label>
+            <Input
+              id="meet-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Conference Championships"
+              className="bg-blue-500/5 border-blue-500/20 text-white"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="meet-date" className="text-gray-400">Date</Label>
+            <Input
+              id="meet-date"
+              type="date"
+              value={playedOn}
+              onChange={(e) => setPlayedOn(e.target.value)}
+              className="bg-blue-500/5 border-blue-500/20 text-white"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={saving || !name.trim() || !playedOn}
+            className="bg-blue-500 hover:bg-blue-600 text-white"
+          >
+            {saving ? <LoadingSpinner size="sm" /> : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
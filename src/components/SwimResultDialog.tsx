@@ -0,0 +1,371 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { useToast } from '@/components/ui/use-toast';
+import {
+  MEDLEY_RELAY_ORDER,
+  RELAY_LEGS,
+  SWIM_COURSES,
+  SWIM_EVENTS,
+  SWIM_STROKES,
+  formatSplits,
+  formatSwimEvent,
+  formatSwimTime,
+  getBestTimes,
+  getLapSplits,
+  getResultEvent,
+  getSwimEvent,
+  parseSplits,
+  parseSwimTime,
+  saveSwimResult,
+  type SwimCourse,
+  type SwimResult
+} from '@/lib/swimming';
+import { parseStatInput } from '@/lib/stats';
+import type { TeamMember } from '@/lib/teams';
+import { getErrorMessage } from '@/lib/utils';
+
+interface SwimResultDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  teamId: string;
+  gameId: string;
+  athletes: TeamMember[];
+  // The result to edit; a new one is entered when this is null
+  result: SwimResult | null;
+  // Course for a new result, e.g. the one the rest of the meet was swum in
+  defaultCourse: SwimCourse;
+  // The team's results, to offer best times as seed times
+  results: SwimResult[];
+  onSaved: () => void;
+}
+
+interface LegDraft {
+  athleteId: string;
+  split: string;
+}
+
+const emptyLegs = (): LegDraft[] => Array.from({ length: RELAY_LEGS }, () => ({ athleteId: '', split: '' }));
+
+const timeInput = (time: number | null) => (time === null ? '' : formatSwimTime(time));
+
+// A typed value for the live preview, or null while it cannot be read
+function preview<T>(parse: () => T) {
+  try {
+    return parse();
+  } catch {
+    return null;
+  }
+}
+
+export function SwimResultDialog({
+  open,
+  onOpenChange,
+  teamId,
+  gameId,
+  athletes,
+  result,
+  defaultCourse,
+  results,
+  onSaved
+}: SwimResultDialogProps) {
+  const [course, setCourse] = useState<SwimCourse>('SCY');
+  const [eventKey, setEventKey] = useState('');
+  const [athleteId, setAthleteId] = useState('');
+  const [legs, setLegs] = useState<LegDraft[]>([]);
+  const [seedTime, setSeedTime] = useState('');
+  const [time, setTime] = useState('');
+  const [splits, setSplits] = useState('');
+  const [place, setPlace] = useState('');
+  const [points, setPoints] = useState('');
+  const [disqualified, setDisqualified] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+    setCourse(result?.course ?? defaultCourse);
+    setEventKey(result ? getResultEvent(result) : '');
+    setAthleteId(result?.athlete_id ?? '');
+    setLegs(result?.relay
+      ? result.legs.map(leg => ({ athleteId: leg.athleteId, split: timeInput(leg.split) }))
+      : emptyLegs());
+    setSeedTime(timeInput(result?.seed_time ?? null));
+    setTime(timeInput(result?.time ?? null));
+    setSplits(formatSplits(result?.splits ?? []));
+    setPlace(result?.place?.toString() ?? '');
+    setPoints(result?.points?.toString() ?? '');
+    setDisqualified(result?.disqualified ?? false);
+  }, [open, result, defaultCourse]);
+
+  if (!open) return null;
+
+  const swimEvent = getSwimEvent(eventKey);
+  const legStroke = (index: number) => (swimEvent?.stroke === 'medley' ? MEDLEY_RELAY_ORDER[index] : swimEvent?.stroke);
+  const chosenLegs = legs.map(leg => leg.athleteId).filter(Boolean);
+  const best = swimEvent && !swimEvent.relay && athleteId
+    ? getBestTimes(athleteId, results).get(eventKey)?.[course] ?? null
+    : null;
+  const laps = preview(() => parseSplits(splits));
+  const finalTime = preview(() => parseSwimTime(time));
+
+  const problem = !swimEvent
+    ? 'Choose an event'
+    : !swimEvent.relay && !athleteId
+      ? 'Choose the swimmer'
+      : swimEvent.relay && chosenLegs.length < RELAY_LEGS
+        ? 'Choose a swimmer for each leg'
+        : swimEvent.relay && new Set(chosenLegs).size !== chosenLegs.length
+          ? 'A swimmer is on the relay twice'
+          : null;
+
+  const handleCourseChange = (value: SwimCourse) => {
+    setCourse(value);
+    if (swimEvent && !swimEvent.courses.includes(value)) setEventKey('');
+  };
+
+  const updateLeg = (index: number, changes: Partial<LegDraft>) => {
+    setLegs(legs.map((leg, i) => (i === index ? { ...leg, ...changes } : leg)));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const placeValue = parseStatInput(place);
+      if (placeValue !== null && (!Number.isInteger(placeValue) || placeValue < 1)) {
+        throw new Error('Place must be a whole number from 1');
+      }
+      const pointsValue = parseStatInput(points);
+      if (pointsValue !== null && pointsValue < 0) throw new Error('Points cannot be negative');
+
+      await saveSwimResult(result, {
+        teamId,
+        gameId,
+        eventKey,
+        course,
+        athleteId,
+        legs: legs.map(leg => ({ athleteId: leg.athleteId, split: parseSwimTime(leg.split) })),
+        seedTime: parseSwimTime(seedTime),
+        time: parseSwimTime(time),
+        splits: parseSplits(splits),
+        place: placeValue,
+        points: pointsValue,
+        disqualified
+      });
+      onOpenChange(false);
+      onSaved();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error),
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-gray-900 border border-blue-500/20 text-white max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{result ? 'Edit Result' : 'Add Result'}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-6 py-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label className="text-gray-400">Course</Label>
+              <Select value={course} onValueChange={handleCourseChange}>
+                <SelectTrigger className="bg-blue-500/5 border-blue-500/20 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SWIM_COURSES.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.value} • {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label className="text-gray-400">Event</Label>
+              <Select value={eventKey} onValueChange={setEventKey}>
+                <SelectTrigger className="bg-blue-500/5 border-blue-500/20 text-white">
+                  <SelectValue placeholder="Choose an event" />
+                </SelectTrigger>
+                <SelectContent>
+                  {SWIM_EVENTS.filter(option => option.courses.includes(course)).map((option) => (
+                    <SelectItem key={option.key} value={option.key}>
+                      {formatSwimEvent(option)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {swimEvent?.relay ? (
+            <div className="space-y-2">
+              <Label className="text-gray-400">Legs</Label>
+              {legs.map((leg, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <span className="w-24 text-sm text-gray-400">
+                    {SWIM_STROKES.find(stroke => stroke.value === legStroke(index))?.label ?? `Leg ${index + 1}`}
+                  </span>
+                  <Select value={leg.athleteId} onValueChange={(value) => updateLeg(index, { athleteId: value })}>
+                    <SelectTrigger className="flex-1 bg-blue-500/5 border-blue-500/20 text-white">
+                      <SelectValue placeholder="Choose a swimmer" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {athletes
+                        .filter(athlete => athlete.user_id === leg.athleteId || !chosenLegs.includes(athlete.user_id))
+                        .map((athlete) => (
+                          <SelectItem key={athlete.user_id} value={athlete.user_id}>
+                            {athlete.full_name ?? athlete.email}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    value={leg.split}
+                    onChange={(e) => updateLeg(index, { split: e.target.value })}
+                    placeholder="Split"
+                    aria-label={`Leg ${index + 1} split`}
+                    className="w-28 bg-blue-500/5 border-blue-500/20 text-white"
+                  />
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label className="text-gray-400">Swimmer</Label>
+              <Select value={athleteId} onValueChange={setAthleteId} disabled={!!result}>
+                <SelectTrigger className="bg-blue-500/5 border-blue-500/20 text-white">
+                  <SelectValue placeholder="Choose a swimmer" />
+                </SelectTrigger>
+                <SelectContent>
+                  {athletes.map((athlete) => (
+                    <SelectItem key={athlete.user_id} value={athlete.user_id}>
+                      {athlete.full_name ?? athlete.email}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="swim-seed" className="text-gray-400">Seed Time</Label>
+              <Input
+                id="swim-seed"
+                value={seedTime}
+                onChange={(e) => setSeedTime(e.target.value)}
+                placeholder="NT"
+                className="bg-blue-500/5 border-blue-500/20 text-white"
+              />
+              {best && (
+                <button
+                  type="button"
+                  onClick={() => setSeedTime(formatSwimTime(best.time))}
+                  className="text-xs text-blue-400 hover:underline"
+                >
+                  Use best time {formatSwimTime(best.time)}
+                </button>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="swim-time" className="text-gray-400">Final Time</Label>
+              <Input
+                id="swim-time"
+                value={time}
+                onChange={(e) => setTime(e.target.value)}
+                placeholder="e.g. 1:02.34"
+                className="bg-blue-500/5 border-blue-500/20 text-white"
+              />
+            </div>
+          </div>
+
+          {!swimEvent?.relay && (
+            <div className="space-y-2">
+              <Label htmlFor="swim-splits" className="text-gray-400">Splits</Label>
+              <Input
+                id="swim-splits"
+                value={splits}
+                onChange={(e) => setSplits(e.target.value)}
+                placeholder="Time at each 50, e.g. 28.10, 59.80"
+                className="bg-blue-500/5 border-blue-500/20 text-white"
+              />
+              {laps && laps.length > 0 && (
+                <p className="text-xs text-gray-400">
+                  Laps: {getLapSplits(laps, finalTime).map(formatSwimTime).join(' • ')}
+                </p>
+              )}
+            </div>
+          )}
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label className="text-gray-400">Result</Label>
+              <Select value={disqualified ? 'dq' : 'finished'} onValueChange={(value) => setDisqualified(value === 'dq')}>
+                <SelectTrigger className="bg-blue-500/5 border-blue-500/20 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="finished">Finished</SelectItem>
+                  <SelectItem value="dq">Disqualified</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="swim-place" className="text-gray-400">Place</Label>
+              <Input
+                id="swim-place"
+                type="number"
+                min={1}
+                value={place}
+                onChange={(e) => setPlace(e.target.value)}
+                disabled={disqualified}
+                className="bg-blue-500/5 border-blue-500/20 text-white"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="swim-points" className="text-gray-400">Points</Label>
+              <Input
+                id="swim-points"
+                type="number"
+                min={0}
+                step="0.5"
+                value={points}
+                onChange={(e) => setPoints(e.target.value)}
+                disabled={disqualified}
+                className="bg-blue-500/5 border-blue-500/20 text-white"
+              />
+            </div>
+          </div>
+
+          {problem && <p className="text-sm text-amber-300">{problem}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={saving || problem !== null}
+            className="bg-blue-500 hover:bg-blue-600 text-white"
+          >
+            {saving ? <LoadingSpinner size="sm" /> : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
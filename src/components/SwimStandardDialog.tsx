@@ -0,0 +1,144 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { useToast } from '@/components/ui/use-toast';
+import {
+  SWIM_COURSES,
+  SWIM_EVENTS,
+  formatSwimEvent,
+  formatSwimTime,
+  parseSwimTime,
+  saveTimeStandard,
+  type SwimCourse,
+  type SwimTimeStandard
+} from '@/lib/swimming';
+import { getErrorMessage } from '@/lib/utils';
+
+interface SwimStandardDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  teamId: string;
+  // The standard to edit; a new one is created when this is null
+  standard: SwimTimeStandard | null;
+  onSaved: () => void;
+}
+
+export function SwimStandardDialog({ open, onOpenChange, teamId, standard, onSaved }: SwimStandardDialogProps) {
+  const [name, setName] = useState('');
+  const [course, setCourse] = useState<SwimCourse>('SCY');
+  // Cut times as typed, by event key
+  const [cuts, setCuts] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+    setName(standard?.name ?? '');
+    setCourse(standard?.course ?? 'SCY');
+    setCuts(Object.fromEntries(
+      Object.entries(standard?.cuts ?? {}).map(([eventKey, time]) => [eventKey, formatSwimTime(time)])
+    ));
+  }, [open, standard]);
+
+  if (!open) return null;
+
+  const events = SWIM_EVENTS.filter(swimEvent => swimEvent.courses.includes(course));
+  const hasCut = events.some(swimEvent => cuts[swimEvent.key]?.trim());
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      // Events not swum in the course keep no cut
+      const times = events.flatMap((swimEvent) => {
+        const time = parseSwimTime(cuts[swimEvent.key] ?? '');
+        return time === null ? [] : [[swimEvent.key, time] as const];
+      });
+      await saveTimeStandard(standard?.id ?? null, { teamId, name, course, cuts: Object.fromEntries(times) });
+      onOpenChange(false);
+      onSaved();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error),
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-gray-900 border border-blue-500/20 text-white max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{standard ? 'Edit Time Standard' : 'Add Time Standard'}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-6 py-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="standard-name" className="text-gray-400">Name</Label>
+              <Input
+                id="standard-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. State Qualifying"
+                className="bg-blue-500/5 border-blue-500/20 text-white"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label className="text-gray-400">Course</Label>
+              <Select value={course} onValueChange={(value: SwimCourse) => setCourse(value)}>
+                <SelectTrigger className="bg-blue-500/5 border-blue-500/20 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SWIM_COURSES.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.value} • {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-gray-400">Cuts</Label>
+            <p className="text-xs text-gray-500">Leave events without a cut blank</p>
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-x-4 gap-y-2">
+              {events.map((swimEvent) => (
+                <div key={swimEvent.key} className="flex items-center gap-2">
+                  <span className="flex-1 text-sm text-gray-300">{formatSwimEvent(swimEvent)}</span>
+                  <Input
+                    value={cuts[swimEvent.key] ?? ''}
+                    onChange={(e) => setCuts({ ...cuts, [swimEvent.key]: e.target.value })}
+                    aria-label={`${formatSwimEvent(swimEvent)} cut`}
+                    className="h-8 w-24 bg-blue-500/5 border-blue-500/20 text-white"
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={saving || !name.trim() || !hasCut}
+            className="bg-blue-500 hover:bg-blue-600 text-white"
+          >
+            {saving ? <LoadingSpinner size="sm" /> : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
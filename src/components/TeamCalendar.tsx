@@ -0,0 +1,214 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Button } from '@/components/ui/button';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { ChevronLeft, ChevronRight, MapPin } from 'lucide-react';
+import {
+  WEEKDAYS,
+  addDays,
+  getViewTitle,
+  getVisibleDays,
+  isSameDay,
+  shiftCursor,
+  startOfDay,
+  toDateKey,
+  type CalendarView
+} from '@/lib/calendar';
+import { getEventTitle, isPracticeType, type TeamEvent } from '@/lib/events';
+import type { SportDefinition } from '@/lib/sport-definitions';
+import { cn, formatTime } from '@/lib/utils';
+
+const MONTH_EVENT_LIMIT = 3;
+
+interface TeamCalendarProps {
+  events: TeamEvent[];
+  loading?: boolean;
+  // Show the team name on each event, for calendars spanning several teams
+  showTeam?: boolean;
+  getSport?: (event: TeamEvent) => SportDefinition | null;
+  // Called with the days on screen, [from, to), whenever the view moves
+  onRangeChange: (range: { from: Date; to: Date }) => void;
+  onEventClick?: (event: TeamEvent) => void;
+  onDayClick?: (day: Date) => void;
+}
+
+function eventClassName(event: TeamEvent) {
+  return isPracticeType(event.type)
+    ? 'bg-blue-500/20 text-blue-300 border-blue-500/30'
+    : 'bg-purple-500/20 text-purple-300 border-purple-500/30';
+}
+
+export function TeamCalendar({
+  events,
+  loading,
+  showTeam,
+  getSport,
+  onRangeChange,
+  onEventClick,
+  onDayClick
+}: TeamCalendarProps) {
+  const [view, setView] = useState<CalendarView>('month');
+  const [cursor, setCursor] = useState(() => startOfDay(new Date()));
+
+  const days = useMemo(() => getVisibleDays(view, cursor), [view, cursor]);
+
+  useEffect(() => {
+    onRangeChange({ from: days[0], to: addDays(days[days.length - 1], 1) });
+  }, [days, onRangeChange]);
+
+  const eventsByDay = useMemo(() => {
+    const byDay = new Map<string, TeamEvent[]>();
+    for (const event of events) {
+      const key = toDateKey(new Date(event.starts_at));
+      byDay.set(key, [...(byDay.get(key) ?? []), event]);
+    }
+    return byDay;
+  }, [events]);
+
+  const today = new Date();
+
+  const renderTitle = (event: TeamEvent) => {
+    const title = getEventTitle(event, getSport?.(event));
+    return showTeam ? `${event.team_name} · ${title}` : title;
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setCursor(shiftCursor(view, cursor, -1))}
+            aria-label="Previous"
+            className="border-white/10 text-gray-300 hover:bg-blue-500/10"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setCursor(startOfDay(new Date()))}
+            className="border-white/10 text-gray-300 hover:bg-blue-500/10"
+          >
+            Today
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setCursor(shiftCursor(view, cursor, 1))}
+            aria-label="Next"
+            className="border-white/10 text-gray-300 hover:bg-blue-500/10"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+          <h2 className="ml-2 text-lg font-semibold text-white">{getViewTitle(view, cursor)}</h2>
+          {loading && <LoadingSpinner size="sm" />}
+        </div>
+
+        <div className="flex gap-2">
+          {(['month', 'week'] as const).map((option) => (
+            <Button
+              key={option}
+              variant="outline"
+              size="sm"
+              onClick={() => setView(option)}
+              className={option === view
+                ? 'border-blue-500/40 bg-blue-500/20 text-blue-400'
+                : 'border-white/10 text-gray-400 hover:bg-blue-500/10'}
+            >
+              {option === 'month' ? 'Month' : 'Week'}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-7 gap-px rounded-lg overflow-hidden border border-white/10 bg-white/10">
+        {WEEKDAYS.map((weekday) => (
+          <div key={weekday.value} className="bg-gray-900 py-2 text-center text-xs font-medium text-gray-400">
+            {weekday.label}
+          </div>
+        ))}
+
+        {days.map((day) => {
+          const dayEvents = eventsByDay.get(toDateKey(day)) ?? [];
+          const outside = view === 'month' && day.getMonth() !== cursor.getMonth();
+          const shown = view === 'month' ? dayEvents.slice(0, MONTH_EVENT_LIMIT) : dayEvents;
+
+          return (
+            <div
+              key={day.toISOString()}
+              onClick={onDayClick ? () => onDayClick(day) : undefined}
+              className={cn(
+                'bg-gray-900/95 p-1.5 space-y-1',
+                view === 'month' ? 'min-h-[6rem]' : 'min-h-[16rem]',
+                outside && 'opacity-40',
+                onDayClick && 'cursor-pointer hover:bg-gray-800'
+              )}
+            >
+              <div className="flex justify-end">
+                <span
+                  className={cn(
+                    'text-xs w-6 h-6 flex items-center justify-center rounded-full',
+                    isSameDay(day, today) ? 'bg-blue-500 text-white' : 'text-gray-400'
+                  )}
+                >
+                  {day.getDate()}
+                </span>
+              </div>
+
+              {shown.map((event) => (
+                <button
+                  key={event.id}
+                  type="button"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onEventClick?.(event);
+                  }}
+                  title={renderTitle(event)}
+                  className={cn(
+                    'w-full text-left rounded border px-1.5 py-0.5 text-xs',
+                    eventClassName(event),
+                    !onEventClick && 'cursor-default'
+                  )}
+                >
+                  {view === 'month' ? (
+                    <span className="block truncate">
+                      {formatTime(event.starts_at)} {renderTitle(event)}
+                    </span>
+                  ) : (
+                    <>
+                      <span className="block font-medium">{renderTitle(event)}</span>
+                      <span className="block opacity-80">
+                        {formatTime(event.starts_at)} – {formatTime(event.ends_at)}
+                      </span>
+                      {event.location && (
+                        <span className="flex items-center gap-1 opacity-80">
+                          <MapPin className="w-3 h-3 shrink-0" />
+                          <span className="truncate">{event.location}</span>
+                        </span>
+                      )}
+                    </>
+                  )}
+                </button>
+              ))}
+
+              {dayEvents.length > shown.length && (
+                <button
+                  type="button"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setView('week');
+                    setCursor(day);
+                  }}
+                  className="text-xs text-gray-400 hover:text-white"
+                >
+                  +{dayEvents.length - shown.length} more
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
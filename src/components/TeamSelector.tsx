@@ -0,0 +1,34 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { getTeamLabel, type Team } from '@/lib/teams';
+
+interface TeamSelectorProps {
+  teams: Team[];
+  value: string | null;
+  onChange: (teamId: string) => void;
+  placeholder?: string;
+  className?: string;
+}
+
+export function TeamSelector({
+  teams,
+  value,
+  onChange,
+  placeholder = 'Select team',
+  className
+}: TeamSelectorProps) {
+  return (
+    <Select value={value ?? ''} onValueChange={onChange} disabled={teams.length === 0}>
+      <SelectTrigger className={cn('bg-blue-500/5 border-blue-500/20 text-white', className)}>
+        <SelectValue placeholder={teams.length === 0 ? 'No teams yet' : placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        {teams.map((team) => (
+          <SelectItem key={team.id} value={team.id}>
+            {getTeamLabel(team)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
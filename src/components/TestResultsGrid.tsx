@@ -0,0 +1,235 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { useToast } from '@/components/ui/use-toast';
+import { Save } from 'lucide-react';
+import {
+  fetchTestResults,
+  formatTestInput,
+  getPriorBest,
+  getTestDefinition,
+  isBetterMark,
+  parseTestInput,
+  saveTestResults,
+  type TestHistory,
+  type TestResultEntry,
+  type TestSession
+} from '@/lib/performance-tests';
+import type { MetricDefinition } from '@/lib/sport-definitions';
+import type { TeamMember } from '@/lib/teams';
+import { getErrorMessage } from '@/lib/utils';
+
+interface TestResultsGridProps {
+  session: TestSession;
+  tests: MetricDefinition[];
+  // Athletes in roster order
+  athletes: TeamMember[];
+  // Earlier marks, to spot personal records as they are typed
+  history: TestHistory;
+  onSaved?: () => void;
+}
+
+const cellKey = (athleteId: string, testKey: string) => `${athleteId}:${testKey}`;
+
+// Bulk entry for a testing day: one row per athlete, one column per test
+// run that day. Enter and the arrow keys move between rows so a coach can
+// work down a column as athletes come through a station.
+export function TestResultsGrid({ session, tests, athletes, history, onSaved }: TestResultsGridProps) {
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [saved, setSaved] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const gridRef = useRef<HTMLDivElement>(null);
+  const { toast } = useToast();
+
+  const loadResults = useCallback(async () => {
+    setLoading(true);
+    try {
+      const cells: Record<string, string> = {};
+      for (const result of await fetchTestResults(session.id)) {
+        const test = getTestDefinition(tests, result.test_key);
+        cells[cellKey(result.athlete_id, result.test_key)] = formatTestInput(test, result.value);
+      }
+      setValues(cells);
+      setSaved(cells);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error),
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [session.id, tests, toast]);
+
+  useEffect(() => {
+    loadResults();
+  }, [loadResults]);
+
+  const columns = session.test_keys.map(key => getTestDefinition(tests, key));
+  const changedKeys = Object.keys({ ...values, ...saved })
+    .filter(key => (values[key] ?? '').trim() !== (saved[key] ?? ''));
+
+  // Whether what is typed in a cell beats the athlete's earlier best
+  const isRecordCell = (athleteId: string, test: MetricDefinition) => {
+    let value: number | null;
+    try {
+      value = parseTestInput(values[cellKey(athleteId, test.key)] ?? '');
+    } catch {
+      return false;
+    }
+    const prior = getPriorBest(test, athleteId, session, history);
+    return value !== null && prior !== null && isBetterMark(test, value, prior);
+  };
+
+  const focusCell = (row: number, column: number) => {
+    gridRef.current
+      ?.querySelector<HTMLInputElement>(`[data-cell="${row}:${column}"]`)
+      ?.focus();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>, row: number, column: number) => {
+    if (e.key === 'Enter' || e.key === 'ArrowDown') {
+      e.preventDefault();
+      focusCell(row + 1, column);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      focusCell(row - 1, column);
+    }
+  };
+
+  const handleSave = async () => {
+    let entries: TestResultEntry[];
+    try {
+      entries = changedKeys.map(key => {
+        const [athleteId, testKey] = key.split(':');
+        return { athleteId, testKey, value: parseTestInput(values[key] ?? '') };
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error),
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const records = entries.filter(entry =>
+      entry.value !== null && isRecordCell(entry.athleteId, getTestDefinition(tests, entry.testKey))
+    ).length;
+
+    setSaving(true);
+    try {
+      await saveTestResults(session.id, entries);
+      const cells = Object.fromEntries(
+        Object.entries(values)
+          .map(([key, value]) => [key, value.trim()])
+          .filter(([, value]) => value !== '')
+      );
+      setValues(cells);
+      setSaved(cells);
+      toast({
+        title: "Results saved",
+        description: `${entries.length} ${entries.length === 1 ? 'mark' : 'marks'} updated` +
+          (records > 0 ? `, ${records} new ${records === 1 ? 'personal record' : 'personal records'}` : '')
+      });
+      onSaved?.();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error),
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <p className="text-sm text-gray-400">
+          Times can be typed as m:ss. <span className="text-yellow-400">PR</span> marks beat the athlete's earlier best.
+        </p>
+        <Button
+          onClick={handleSave}
+          disabled={saving || changedKeys.length === 0}
+          className="bg-blue-500 hover:bg-blue-600 text-white"
+        >
+          {saving ? <LoadingSpinner size="sm" /> : (
+            <>
+              <Save className="w-4 h-4 mr-2" />
+              Save Results
+            </>
+          )}
+        </Button>
+      </div>
+
+      <div ref={gridRef} className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-gray-400 border-b border-white/10">
+              <th className="py-2 pr-4 text-left font-medium">Athlete</th>
+              {columns.map((test) => (
+                <th key={test.key} className="py-2 px-1 font-medium text-center whitespace-nowrap">
+                  {test.label}
+                  {test.unit && <span className="block text-xs font-normal text-gray-500">{test.unit}</span>}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {athletes.map((athlete, row) => (
+              <tr key={athlete.id} className="border-b border-white/5 text-white">
+                <td className="py-1 pr-4 whitespace-nowrap">
+                  {athlete.jersey_number && (
+                    <span className="text-gray-400 mr-2">#{athlete.jersey_number}</span>
+                  )}
+                  {athlete.full_name ?? athlete.email}
+                </td>
+                {columns.map((test, column) => {
+                  const key = cellKey(athlete.user_id, test.key);
+                  const changed = (values[key] ?? '').trim() !== (saved[key] ?? '');
+                  return (
+                    <td key={test.key} className="py-1 px-1">
+                      <div className="flex items-center justify-center gap-1">
+                        <input
+                          data-cell={`${row}:${column}`}
+                          inputMode="decimal"
+                          aria-label={`${test.label} for ${athlete.full_name ?? athlete.email}`}
+                          value={values[key] ?? ''}
+                          onChange={(e) => setValues({ ...values, [key]: e.target.value })}
+                          onKeyDown={(e) => handleKeyDown(e, row, column)}
+                          onFocus={(e) => e.target.select()}
+                          className={`w-20 rounded-md bg-blue-500/5 border px-2 py-1 text-center text-white focus:outline-none focus:border-blue-400 ${
+                            changed ? 'border-yellow-500/50' : 'border-blue-500/20'
+                          }`}
+                        />
+                        <span className="w-6 text-[10px] font-bold text-yellow-400">
+                          {isRecordCell(athlete.user_id, test) && 'PR'}
+                        </span>
+                      </div>
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {athletes.length === 0 && (
+        <p className="text-center text-gray-400 py-8">No athletes on this team yet</p>
+      )}
+    </div>
+  );
+}
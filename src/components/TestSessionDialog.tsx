@@ -0,0 +1,133 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { useToast } from '@/components/ui/use-toast';
+import { createTestSession, type TestSession } from '@/lib/performance-tests';
+import type { MetricDefinition } from '@/lib/sport-definitions';
+import { getToday } from '@/lib/seasons';
+import { cn, getErrorMessage } from '@/lib/utils';
+
+interface TestSessionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  teamId: string;
+  tests: MetricDefinition[];
+  onCreated: (session: TestSession) => void;
+}
+
+export function TestSessionDialog({ open, onOpenChange, teamId, tests, onCreated }: TestSessionDialogProps) {
+  const [name, setName] = useState('');
+  const [testedOn, setTestedOn] = useState('');
+  const [testKeys, setTestKeys] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  if (!open) return null;
+
+  const date = testedOn || getToday();
+
+  // Kept in library order so grid columns do not depend on click order
+  const toggleTest = (key: string) => {
+    setTestKeys(testKeys.includes(key)
+      ? testKeys.filter(testKey => testKey !== key)
+      : tests.map(test => test.key).filter(testKey => testKey === key || testKeys.includes(testKey)));
+  };
+
+  const close = () => {
+    setName('');
+    setTestedOn('');
+    setTestKeys([]);
+    onOpenChange(false);
+  };
+
+  const handleCreate = async () => {
+    setSaving(true);
+    try {
+      const session = await createTestSession({ teamId, name, testedOn: date, testKeys });
+      close();
+      onCreated(session);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error),
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => (value ? onOpenChange(value) : close())}>
+      <DialogContent className="bg-gray-900 border border-blue-500/20 text-white">
+        <DialogHeader>
+          <DialogTitle>New Testing Day</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="test-session-name" className="text-gray-400">Name</Label>
+              <Input
+                id="test-session-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Preseason Combine"
+                className="bg-blue-500/5 border-blue-500/20 text-white"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="test-session-date" className="text-gray-400">Date</Label>
+              <Input
+                id="test-session-date"
+                type="date"
+                value={date}
+                onChange={(e) => setTestedOn(e.target.value)}
+                className="bg-blue-500/5 border-blue-500/20 text-white"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-gray-400">Tests</Label>
+            <div className="flex flex-wrap gap-2">
+              {tests.map((test) => (
+                <Button
+                  key={test.key}
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => toggleTest(test.key)}
+                  className={cn(
+                    testKeys.includes(test.key)
+                      ? 'border-blue-500/40 bg-blue-500/20 text-blue-400'
+                      : 'border-white/10 text-gray-400 hover:bg-blue-500/10'
+                  )}
+                >
+                  {test.label}
+                  <span className="ml-1 text-xs opacity-60">{test.unit}</span>
+                </Button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={close} disabled={saving}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleCreate}
+            disabled={saving || !name.trim() || testKeys.length === 0}
+            className="bg-blue-500 hover:bg-blue-600 text-white"
+          >
+            {saving ? <LoadingSpinner size="sm" /> : 'Create'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,88 @@
+import type { MetricDefinition } from '@/lib/sport-definitions';
+import { formatTestValue, type TestMark } from '@/lib/performance-tests';
+import { formatDate } from '@/lib/utils';
+
+interface TestTrendChartProps {
+  test: MetricDefinition;
+  // Oldest first
+  marks: TestMark[];
+}
+
+const WIDTH = 320;
+const HEIGHT = 120;
+const PADDING = { top: 12, right: 12, bottom: 20, left: 12 };
+
+// Testing dates are plain dates, so format them without a timezone shift
+const AXIS_DATE_FORMAT: Intl.DateTimeFormatOptions = {
+  month: 'short',
+  day: 'numeric',
+  timeZone: 'UTC'
+};
+
+// Line chart of an athlete's marks over time. Better marks are always
+// higher, so the line climbs as the athlete improves even for timed tests.
+export function TestTrendChart({ test, marks }: TestTrendChartProps) {
+  if (marks.length === 0) {
+    return <p className="text-sm text-gray-400 text-center py-6">No marks yet</p>;
+  }
+
+  const values = marks.map(mark => mark.value);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const span = max - min || 1;
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+
+  const points = marks.map((mark, index) => {
+    const x = PADDING.left + (marks.length === 1 ? plotWidth / 2 : (index / (marks.length - 1)) * plotWidth);
+    const share = (mark.value - min) / span;
+    const y = PADDING.top + (test.lowerIsBetter ? share : 1 - share) * plotHeight;
+    return { x, y: max === min ? PADDING.top + plotHeight / 2 : y, mark };
+  });
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      className="w-full h-auto"
+      role="img"
+      aria-label={`${test.label} trend`}
+    >
+      <line
+        x1={PADDING.left}
+        x2={WIDTH - PADDING.right}
+        y1={HEIGHT - PADDING.bottom}
+        y2={HEIGHT - PADDING.bottom}
+        className="stroke-white/10"
+      />
+      {points.length > 1 && (
+        <polyline
+          points={points.map(point => `${point.x},${point.y}`).join(' ')}
+          fill="none"
+          strokeWidth={2}
+          className="stroke-blue-400"
+        />
+      )}
+      {points.map(({ x, y, mark }) => (
+        <circle
+          key={mark.session.id}
+          cx={x}
+          cy={y}
+          r={mark.isPersonalRecord ? 5 : 3.5}
+          className={mark.isPersonalRecord ? 'fill-yellow-400' : 'fill-blue-400'}
+        >
+          <title>
+            {`${mark.session.name}, ${formatDate(mark.session.tested_on, AXIS_DATE_FORMAT)}: ${formatTestValue(test, mark.value)}${mark.isPersonalRecord ? ' (PR)' : ''}`}
+          </title>
+        </circle>
+      ))}
+      <text x={PADDING.left} y={HEIGHT - 4} className="fill-gray-500 text-[10px]">
+        {formatDate(marks[0].session.tested_on, AXIS_DATE_FORMAT)}
+      </text>
+      {marks.length > 1 && (
+        <text x={WIDTH - PADDING.right} y={HEIGHT - 4} textAnchor="end" className="fill-gray-500 text-[10px]">
+          {formatDate(marks[marks.length - 1].session.tested_on, AXIS_DATE_FORMAT)}
+        </text>
+      )}
+    </svg>
+  );
+}
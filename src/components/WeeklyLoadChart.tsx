@@ -0,0 +1,71 @@
+import type { WeeklyLoad } from '@/lib/workouts';
+import { formatDate } from '@/lib/utils';
+
+interface WeeklyLoadChartProps {
+  // Oldest first
+  weeks: WeeklyLoad[];
+}
+
+const WIDTH = 320;
+const HEIGHT = 120;
+const PADDING = { top: 12, right: 4, bottom: 20, left: 4 };
+const GAP = 6;
+
+// Week starts are plain dates, so format them without a timezone shift
+const AXIS_DATE_FORMAT: Intl.DateTimeFormatOptions = {
+  month: 'short',
+  day: 'numeric',
+  timeZone: 'UTC'
+};
+
+// Bar per week of training load, with the current week highlighted
+export function WeeklyLoadChart({ weeks }: WeeklyLoadChartProps) {
+  if (weeks.length === 0) return null;
+
+  const max = Math.max(...weeks.map(week => week.load)) || 1;
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const barWidth = (plotWidth - GAP * (weeks.length - 1)) / weeks.length;
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      className="w-full h-auto"
+      role="img"
+      aria-label="Weekly training load"
+    >
+      <line
+        x1={PADDING.left}
+        x2={WIDTH - PADDING.right}
+        y1={HEIGHT - PADDING.bottom}
+        y2={HEIGHT - PADDING.bottom}
+        className="stroke-white/10"
+      />
+      {weeks.map((week, index) => {
+        const height = (week.load / max) * plotHeight;
+        const isCurrent = index === weeks.length - 1;
+        return (
+          <rect
+            key={week.weekStart}
+            x={PADDING.left + index * (barWidth + GAP)}
+            y={HEIGHT - PADDING.bottom - height}
+            width={barWidth}
+            height={height}
+            rx={2}
+            className={isCurrent ? 'fill-blue-400' : 'fill-blue-500/40'}
+          >
+            <title>
+              {`Week of ${formatDate(week.weekStart, AXIS_DATE_FORMAT)}: ${week.load} load, ${week.workouts} ${week.workouts === 1 ? 'workout' : 'workouts'}, ${week.minutes} min`}
+            </title>
+          </rect>
+        );
+      })}
+      <text x={PADDING.left} y={HEIGHT - 4} className="fill-gray-500 text-[10px]">
+        {formatDate(weeks[0].weekStart, AXIS_DATE_FORMAT)}
+      </text>
+      <text x={WIDTH - PADDING.right} y={HEIGHT - 4} textAnchor="end" className="fill-gray-500 text-[10px]">
+        This week
+      </text>
+    </svg>
+  );
+}
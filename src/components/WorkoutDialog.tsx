@@ -0,0 +1,250 @@
+import { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { getToday } from '@/lib/seasons';
+import { parseStatInput } from '@/lib/stats';
+import { RPE_SCALE, createWorkout, expandTemplate, type WorkoutAssignment, type WorkoutSet } from '@/lib/workouts';
+import { getErrorMessage } from '@/lib/utils';
+
+interface SetRow {
+  exercise: string;
+  reps: string;
+  load: string;
+  duration: string;
+}
+
+const EMPTY_ROW: SetRow = { exercise: '', reps: '', load: '', duration: '' };
+
+const toRow = (set: WorkoutSet): SetRow => ({
+  exercise: set.exercise,
+  reps: set.reps === null ? '' : String(set.reps),
+  load: set.load === null ? '' : String(set.load),
+  duration: set.duration_seconds === null ? '' : String(set.duration_seconds)
+});
+
+interface WorkoutDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Prefills the coach's template and completes the assignment on save
+  assignment?: WorkoutAssignment | null;
+  onSaved: () => void;
+}
+
+export function WorkoutDialog({ open, onOpenChange, assignment, onSaved }: WorkoutDialogProps) {
+  const template = assignment?.template ?? null;
+  const [name, setName] = useState(template?.name ?? '');
+  const [performedOn, setPerformedOn] = useState('');
+  const [duration, setDuration] = useState('');
+  const [rpe, setRpe] = useState('5');
+  const [notes, setNotes] = useState('');
+  const [rows, setRows] = useState<SetRow[]>(template ? expandTemplate(template).map(toRow) : [EMPTY_ROW]);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  if (!open) return null;
+
+  const date = performedOn || getToday();
+
+  const updateRow = (index: number, field: keyof SetRow, value: string) => {
+    setRows(rows.map((row, current) => (current === index ? { ...row, [field]: value } : row)));
+  };
+
+  // Repeats the row above so extra sets of the same exercise are one click
+  const addRow = () => {
+    const last = rows[rows.length - 1];
+    setRows([...rows, last ? { ...last } : EMPTY_ROW]);
+  };
+
+  const close = () => {
+    setName(template?.name ?? '');
+    setPerformedOn('');
+    setDuration('');
+    setRpe('5');
+    setNotes('');
+    setRows(template ? expandTemplate(template).map(toRow) : [EMPTY_ROW]);
+    onOpenChange(false);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const minutes = parseStatInput(duration);
+      if (minutes === null || minutes <= 0) throw new Error('Enter how many minutes the workout took');
+
+      await createWorkout({
+        name,
+        performedOn: date,
+        durationMinutes: Math.round(minutes),
+        rpe: Number(rpe),
+        notes,
+        assignmentId: assignment?.id ?? null,
+        sets: rows.map(row => ({
+          exercise: row.exercise,
+          reps: parseStatInput(row.reps),
+          load: parseStatInput(row.load),
+          duration_seconds: parseStatInput(row.duration)
+        }))
+      });
+      close();
+      onSaved();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error),
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => (value ? onOpenChange(value) : close())}>
+      <DialogContent className="bg-gray-900 border border-blue-500/20 text-white max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{template ? `Log ${template.name}` : 'Log Workout'}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="workout-name" className="text-gray-400">Workout</Label>
+              <Input
+                id="workout-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Lower Body Lift"
+                className="bg-blue-500/5 border-blue-500/20 text-white"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="workout-date" className="text-gray-400">Date</Label>
+              <Input
+                id="workout-date"
+                type="date"
+                value={date}
+                onChange={(e) => setPerformedOn(e.target.value)}
+                className="bg-blue-500/5 border-blue-500/20 text-white"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="workout-duration" className="text-gray-400">Duration (min)</Label>
+              <Input
+                id="workout-duration"
+                type="number"
+                min={1}
+                value={duration}
+                onChange={(e) => setDuration(e.target.value)}
+                className="bg-blue-500/5 border-blue-500/20 text-white"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label className="text-gray-400">Effort (RPE)</Label>
+              <Select value={rpe} onValueChange={setRpe}>
+                <SelectTrigger className="bg-blue-500/5 border-blue-500/20 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RPE_SCALE.map((option) => (
+                    <SelectItem key={option.value} value={String(option.value)}>
+                      {option.value} - {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="grid grid-cols-[1fr_4rem_5rem_5rem_2rem] gap-2 text-xs text-gray-400">
+              <span>Exercise</span>
+              <span>Reps</span>
+              <span>Load (lb)</span>
+              <span>Time (s)</span>
+              <span />
+            </div>
+            {rows.map((row, index) => (
+              <div key={index} className="grid grid-cols-[1fr_4rem_5rem_5rem_2rem] gap-2">
+                <Input
+                  value={row.exercise}
+                  onChange={(e) => updateRow(index, 'exercise', e.target.value)}
+                  placeholder="Back Squat"
+                  className="bg-blue-500/5 border-blue-500/20 text-white"
+                />
+                <Input
+                  value={row.reps}
+                  onChange={(e) => updateRow(index, 'reps', e.target.value)}
+                  inputMode="numeric"
+                  className="bg-blue-500/5 border-blue-500/20 text-white"
+                />
+                <Input
+                  value={row.load}
+                  onChange={(e) => updateRow(index, 'load', e.target.value)}
+                  inputMode="decimal"
+                  className="bg-blue-500/5 border-blue-500/20 text-white"
+                />
+                <Input
+                  value={row.duration}
+                  onChange={(e) => updateRow(index, 'duration', e.target.value)}
+                  inputMode="numeric"
+                  className="bg-blue-500/5 border-blue-500/20 text-white"
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setRows(rows.filter((_, current) => current !== index))}
+                  className="text-gray-400 hover:text-red-400 hover:bg-red-500/10 px-0"
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={addRow}
+              className="border-white/10 hover:bg-blue-500/10"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add Set
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="workout-notes" className="text-gray-400">Notes</Label>
+            <Input
+              id="workout-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              className="bg-blue-500/5 border-blue-500/20 text-white"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={close} disabled={saving}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={saving || !name.trim() || !duration}
+            className="bg-blue-500 hover:bg-blue-600 text-white"
+          >
+            {saving ? <LoadingSpinner size="sm" /> : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,173 @@
+import { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { useToast } from '@/components/ui/use-toast';
+import { parseStatInput } from '@/lib/stats';
+import { createWorkoutTemplate, type WorkoutTemplate } from '@/lib/workouts';
+import { getErrorMessage } from '@/lib/utils';
+
+interface ExerciseRow {
+  exercise: string;
+  sets: string;
+  reps: string;
+  load: string;
+  duration: string;
+}
+
+const EMPTY_ROW: ExerciseRow = { exercise: '', sets: '3', reps: '', load: '', duration: '' };
+
+interface WorkoutTemplateDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  teamId: string;
+  onCreated: (template: WorkoutTemplate) => void;
+}
+
+export function WorkoutTemplateDialog({ open, onOpenChange, teamId, onCreated }: WorkoutTemplateDialogProps) {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [rows, setRows] = useState<ExerciseRow[]>([EMPTY_ROW]);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  if (!open) return null;
+
+  const updateRow = (index: number, field: keyof ExerciseRow, value: string) => {
+    setRows(rows.map((row, current) => (current === index ? { ...row, [field]: value } : row)));
+  };
+
+  const close = () => {
+    setName('');
+    setDescription('');
+    setRows([EMPTY_ROW]);
+    onOpenChange(false);
+  };
+
+  const handleCreate = async () => {
+    setSaving(true);
+    try {
+      const template = await createWorkoutTemplate({
+        teamId,
+        name,
+        description,
+        exercises: rows.map(row => ({
+          exercise: row.exercise,
+          sets: Math.max(1, Math.round(parseStatInput(row.sets) ?? 1)),
+          reps: parseStatInput(row.reps),
+          load: parseStatInput(row.load),
+          duration_seconds: parseStatInput(row.duration)
+        }))
+      });
+      close();
+      onCreated(template);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error),
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => (value ? onOpenChange(value) : close())}>
+      <DialogContent className="bg-gray-900 border border-blue-500/20 text-white max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>New Workout Template</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="template-name" className="text-gray-400">Name</Label>
+              <Input
+                id="template-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="In-Season Lift A"
+                className="bg-blue-500/5 border-blue-500/20 text-white"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="template-description" className="text-gray-400">Description</Label>
+              <Input
+                id="template-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                className="bg-blue-500/5 border-blue-500/20 text-white"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="grid grid-cols-[1fr_3.5rem_4rem_5rem_5rem_2rem] gap-2 text-xs text-gray-400">
+              <span>Exercise</span>
+              <span>Sets</span>
+              <span>Reps</span>
+              <span>Load (lb)</span>
+              <span>Time (s)</span>
+              <span />
+            </div>
+            {rows.map((row, index) => (
+              <div key={index} className="grid grid-cols-[1fr_3.5rem_4rem_5rem_5rem_2rem] gap-2">
+                <Input
+                  value={row.exercise}
+                  onChange={(e) => updateRow(index, 'exercise', e.target.value)}
+                  placeholder="Bench Press"
+                  className="bg-blue-500/5 border-blue-500/20 text-white"
+                />
+                {(['sets', 'reps', 'load', 'duration'] as const).map((field) => (
+                  <Input
+                    key={field}
+                    value={row[field]}
+                    onChange={(e) => updateRow(index, field, e.target.value)}
+                    inputMode={field === 'load' ? 'decimal' : 'numeric'}
+                    className="bg-blue-500/5 border-blue-500/20 text-white"
+                  />
+                ))}
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setRows(rows.filter((_, current) => current !== index))}
+                  className="text-gray-400 hover:text-red-400 hover:bg-red-500/10 px-0"
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setRows([...rows, EMPTY_ROW])}
+              className="border-white/10 hover:bg-blue-500/10"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add Exercise
+            </Button>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={close} disabled={saving}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleCreate}
+            disabled={saving || !name.trim() || !rows.some(row => row.exercise.trim())}
+            className="bg-blue-500 hover:bg-blue-600 text-white"
+          >
+            {saving ? <LoadingSpinner size="sm" /> : 'Create'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,29 @@
+import { useState, useEffect, useCallback } from 'react';
+import { fetchGoals, type Goal } from '@/lib/goals';
+import { useRealtimeSubscription } from '@/hooks/useRealtimeSubscription';
+
+// Goals on the given teams that the user can see, soonest due first
+export function useGoals(teamIds: string[]) {
+  const [goals, setGoals] = useState<Goal[]>([]);
+  const [loading, setLoading] = useState(true);
+  const teamKey = teamIds.join(',');
+
+  const refresh = useCallback(async () => {
+    try {
+      setGoals(await fetchGoals(teamKey ? teamKey.split(',') : []));
+    } catch (error) {
+      console.error('Error loading goals:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [teamKey]);
+
+  useEffect(() => {
+    setLoading(true);
+    refresh();
+  }, [refresh]);
+
+  useRealtimeSubscription('goals', refresh);
+
+  return { goals, loading, refresh };
+}
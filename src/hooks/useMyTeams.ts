@@ -0,0 +1,61 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { fetchMyTeams, type Team } from '@/lib/teams';
+import { useTeamStore } from '@/store/team';
+import { useRealtimeSubscription } from '@/hooks/useRealtimeSubscription';
+import { useSeasons } from '@/hooks/useSeasons';
+
+// The teams the current user belongs to in the given role during the
+// selected season, and the selected team. Falls back to the first team when
+// nothing valid is selected.
+export function useMyTeams(role?: 'coach' | 'athlete') {
+  const [allTeams, setAllTeams] = useState<Team[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const selectedTeamId = useTeamStore((state) => state.selectedTeamId);
+  const setSelectedTeamId = useTeamStore((state) => state.setSelectedTeamId);
+  const {
+    seasons,
+    selectedSeasonIds,
+    loading: seasonsLoading,
+    refresh: refreshSeasons
+  } = useSeasons();
+
+  const refresh = useCallback(async () => {
+    try {
+      setAllTeams(await fetchMyTeams(role));
+      setError(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load teams');
+    } finally {
+      setLoading(false);
+    }
+  }, [role]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  useRealtimeSubscription('team_members', refresh);
+
+  const teams = useMemo(
+    () => allTeams.filter(team => selectedSeasonIds.has(team.season_id)),
+    [allTeams, selectedSeasonIds]
+  );
+
+  const selectedTeam = teams.find(team => team.id === selectedTeamId) ?? teams[0] ?? null;
+
+  const refreshAll = useCallback(async () => {
+    await Promise.all([refresh(), refreshSeasons()]);
+  }, [refresh, refreshSeasons]);
+
+  return {
+    teams,
+    allTeams,
+    seasons,
+    selectedTeam,
+    setSelectedTeamId,
+    loading: loading || seasonsLoading,
+    error,
+    refresh: refreshAll
+  };
+}
@@ -0,0 +1,43 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  createMetricLookup,
+  fetchAthleteMarks,
+  getPersonalBests,
+  getPersonalRecords,
+  type RecordMark
+} from '@/lib/records';
+import type { Team } from '@/lib/teams';
+import { useRealtimeSubscription } from '@/hooks/useRealtimeSubscription';
+
+// Personal bests and the records that set them for the given athletes,
+// across game stats and test results. Marks count on any of the given
+// teams, so records carry over from earlier seasons.
+export function usePersonalRecords(teams: Team[], athleteIds: string[]) {
+  const [marks, setMarks] = useState<RecordMark[]>([]);
+  const [loading, setLoading] = useState(true);
+  const athleteKey = athleteIds.join(',');
+
+  const refresh = useCallback(async () => {
+    try {
+      setMarks(await fetchAthleteMarks(athleteKey ? athleteKey.split(',') : []));
+    } catch (error) {
+      console.error('Error loading personal records:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [athleteKey]);
+
+  useEffect(() => {
+    setLoading(true);
+    refresh();
+  }, [refresh]);
+
+  useRealtimeSubscription('game_stats', refresh);
+  useRealtimeSubscription('test_results', refresh);
+
+  const getMetric = useMemo(() => createMetricLookup(teams), [teams]);
+  const bests = useMemo(() => getPersonalBests(marks, getMetric), [marks, getMetric]);
+  const records = useMemo(() => getPersonalRecords(marks, getMetric), [marks, getMetric]);
+
+  return { marks, getMetric, bests, records, loading, refresh };
+}
@@ -0,0 +1,42 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { fetchSeasons, getSelectedSeasonIds, type Season } from '@/lib/seasons';
+import { useSeasonStore } from '@/store/season';
+import { useRealtimeSubscription } from '@/hooks/useRealtimeSubscription';
+
+// The organization's seasons and the ids picked by the season selector
+export function useSeasons() {
+  const [seasons, setSeasons] = useState<Season[]>([]);
+  const [loading, setLoading] = useState(true);
+  const selectedSeason = useSeasonStore((state) => state.selectedSeason);
+  const setSelectedSeason = useSeasonStore((state) => state.setSelectedSeason);
+
+  const refresh = useCallback(async () => {
+    try {
+      setSeasons(await fetchSeasons());
+    } catch (error) {
+      console.error('Error loading seasons:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  useRealtimeSubscription('seasons', refresh);
+
+  const selectedSeasonIds = useMemo(
+    () => getSelectedSeasonIds(seasons, selectedSeason),
+    [seasons, selectedSeason]
+  );
+
+  return {
+    seasons,
+    selectedSeason,
+    selectedSeasonIds,
+    setSelectedSeason,
+    loading,
+    refresh
+  };
+}
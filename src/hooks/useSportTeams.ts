@@ -0,0 +1,60 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { fetchMyTeams, fetchOrganizationTeams, type Team } from '@/lib/teams';
+import { getSportSlug } from '@/lib/sport-definitions';
+import { useAuthStore } from '@/store/auth';
+import { useTeamStore } from '@/store/team';
+import { useRealtimeSubscription } from '@/hooks/useRealtimeSubscription';
+import { useSeasons } from '@/hooks/useSeasons';
+
+// Teams of one sport during the selected season: every team in the
+// organization for admins, otherwise the teams the user belongs to
+export function useSportTeams(sportSlug: string) {
+  const { user, role } = useAuthStore();
+  const [allTeams, setAllTeams] = useState<Team[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const selectedTeamId = useTeamStore((state) => state.selectedTeamId);
+  const setSelectedTeamId = useTeamStore((state) => state.setSelectedTeamId);
+  const { selectedSeasonIds, loading: seasonsLoading } = useSeasons();
+
+  const refresh = useCallback(async () => {
+    if (!user) {
+      setAllTeams([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setAllTeams(role === 'admin' ? await fetchOrganizationTeams() : await fetchMyTeams());
+      setError(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load teams');
+    } finally {
+      setLoading(false);
+    }
+  }, [user, role]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  useRealtimeSubscription('team_members', refresh);
+
+  const teams = useMemo(
+    () => allTeams.filter(team =>
+      getSportSlug(team.sport_name) === sportSlug && selectedSeasonIds.has(team.season_id)
+    ),
+    [allTeams, sportSlug, selectedSeasonIds]
+  );
+
+  const selectedTeam = teams.find(team => team.id === selectedTeamId) ?? teams[0] ?? null;
+
+  return {
+    teams,
+    selectedTeam,
+    setSelectedTeamId,
+    loading: loading || (!!user && seasonsLoading),
+    error,
+    refresh
+  };
+}
@@ -0,0 +1,38 @@
+import { useState, useEffect, useCallback } from 'react';
+import { fetchTeamEvents, type TeamEvent } from '@/lib/events';
+import { useRealtimeSubscription } from '@/hooks/useRealtimeSubscription';
+
+interface DateRange {
+  from: Date;
+  to: Date;
+}
+
+// Events for the given teams within the range the calendar is showing.
+// The calendar reports its range through setRange.
+export function useTeamEvents(teamIds: string[]) {
+  const [events, setEvents] = useState<TeamEvent[]>([]);
+  const [range, setRange] = useState<DateRange | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const teamKey = teamIds.join(',');
+
+  const refresh = useCallback(async () => {
+    if (!range) return;
+    try {
+      setEvents(await fetchTeamEvents(teamKey ? teamKey.split(',') : [], range.from, range.to));
+      setError(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load events');
+    } finally {
+      setLoading(false);
+    }
+  }, [teamKey, range]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  useRealtimeSubscription('events', refresh);
+
+  return { events, loading, error, setRange, refresh };
+}
@@ -0,0 +1,35 @@
+import { useState, useEffect, useCallback } from 'react';
+import { fetchUpcomingEvents, type TeamEvent } from '@/lib/events';
+import { fetchRsvps, type Rsvp } from '@/lib/rsvps';
+import { useRealtimeSubscription } from '@/hooks/useRealtimeSubscription';
+
+// The next events for the given teams with the RSVPs the user can see:
+// their own for athletes, everyone's for coaches
+export function useUpcomingRsvps(teamIds: string[], limit = 10) {
+  const [events, setEvents] = useState<TeamEvent[]>([]);
+  const [rsvps, setRsvps] = useState<Rsvp[]>([]);
+  const [loading, setLoading] = useState(true);
+  const teamKey = teamIds.join(',');
+
+  const refresh = useCallback(async () => {
+    try {
+      const upcoming = await fetchUpcomingEvents(teamKey ? teamKey.split(',') : [], limit);
+      setEvents(upcoming);
+      setRsvps(await fetchRsvps(upcoming.map(event => event.id)));
+    } catch (error) {
+      console.error('Error loading RSVPs:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [teamKey, limit]);
+
+  useEffect(() => {
+    setLoading(true);
+    refresh();
+  }, [refresh]);
+
+  useRealtimeSubscription('events', refresh);
+  useRealtimeSubscription('event_rsvps', refresh);
+
+  return { events, rsvps, loading, refresh };
+}
@@ -0,0 +1,44 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  fetchWorkoutAssignments,
+  fetchWorkouts,
+  getLoadWindowStart,
+  type Workout,
+  type WorkoutAssignment
+} from '@/lib/workouts';
+import { useRealtimeSubscription } from '@/hooks/useRealtimeSubscription';
+
+// Workouts the given athletes logged over the training load window, and
+// the workouts assigned to the given teams from last week on
+export function useWorkouts(athleteIds: string[], teamIds: string[]) {
+  const [workouts, setWorkouts] = useState<Workout[]>([]);
+  const [assignments, setAssignments] = useState<WorkoutAssignment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const athleteKey = athleteIds.join(',');
+  const teamKey = teamIds.join(',');
+
+  const refresh = useCallback(async () => {
+    try {
+      const [logged, assigned] = await Promise.all([
+        fetchWorkouts(athleteKey ? athleteKey.split(',') : [], getLoadWindowStart()),
+        fetchWorkoutAssignments(teamKey ? teamKey.split(',') : [], getLoadWindowStart(2))
+      ]);
+      setWorkouts(logged);
+      setAssignments(assigned);
+    } catch (error) {
+      console.error('Error loading workouts:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [athleteKey, teamKey]);
+
+  useEffect(() => {
+    setLoading(true);
+    refresh();
+  }, [refresh]);
+
+  useRealtimeSubscription('workouts', refresh);
+  useRealtimeSubscription('workout_assignments', refresh);
+
+  return { workouts, assignments, loading, refresh };
+}
@@ -0,0 +1,79 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { supabase } from '@/lib/supabase';
+import { MAX_GENERATION_ATTEMPTS, createAccessCodes } from '@/lib/access-codes';
+import { hasValidChecksum } from '@/lib/code-generator';
+
+vi.mock('@/lib/supabase', () => ({ supabase: { from: vi.fn() } }));
+
+type InsertedRow = { code: string };
+type InsertResult = { data: { id: string; code: string }[] | null; error: { code: string; message: string } | null };
+
+const ROWS = [
+  { role: 'coach' as const, created_by: 'admin-1' },
+  { role: 'athlete' as const, created_by: 'admin-1' },
+  { role: 'athlete' as const, created_by: 'admin-1' }
+];
+
+const duplicate = (): InsertResult => ({ data: null, error: { code: '23505', message: 'duplicate key' } });
+
+const inserted = (rows: InsertedRow[]): InsertResult => ({
+  data: [...rows].reverse().map((row, index) => ({ id: `id-${row.code}-${index}`, code: row.code })),
+  error: null
+});
+
+// Answers each insert with the next result, recording the rows sent
+function mockInserts(...results: ((rows: InsertedRow[]) => InsertResult)[]) {
+  const batches: InsertedRow[][] = [];
+  const insert = vi.fn((rows: InsertedRow[]) => {
+    batches.push(rows);
+    const result = results[Math.min(batches.length, results.length) - 1](rows);
+    return { select: vi.fn().mockResolvedValue(result) };
+  });
+  vi.mocked(supabase.from).mockReturnValue({ insert } as unknown as ReturnType<typeof supabase.from>);
+  return batches;
+}
+
+describe('createAccessCodes', () => {
+  beforeEach(() => {
+    vi.mocked(supabase.from).mockReset();
+  });
+
+  it('inserts a generated code for each row and returns them in order', async () => {
+    const batches = mockInserts(inserted);
+
+    const created = await createAccessCodes(ROWS);
+
+    expect(supabase.from).toHaveBeenCalledWith('access_codes');
+    expect(batches).toHaveLength(1);
+    expect(batches[0].map(row => ({ ...row, code: undefined }))).toEqual(ROWS.map(row => ({ ...row, code: undefined })));
+    expect(created.map(code => code.code)).toEqual(batches[0].map(row => row.code));
+    expect(created.every(code => code.id.startsWith(`id-${code.code}`))).toBe(true);
+    expect(created.every(code => hasValidChecksum(code.code))).toBe(true);
+    expect(new Set(created.map(code => code.code)).size).toBe(ROWS.length);
+  });
+
+  it('regenerates the batch when a code collides', async () => {
+    const batches = mockInserts(duplicate, duplicate, inserted);
+
+    const created = await createAccessCodes(ROWS);
+
+    expect(batches).toHaveLength(3);
+    expect(created.map(code => code.code)).toEqual(batches[2].map(row => row.code));
+  });
+
+  it(`gives up after ${MAX_GENERATION_ATTEMPTS} collisions`, async () => {
+    const batches = mockInserts(duplicate);
+
+    await expect(createAccessCodes(ROWS)).rejects.toThrow('Could not generate unique access codes');
+    expect(batches).toHaveLength(MAX_GENERATION_ATTEMPTS);
+  });
+
+  it('throws other errors without retrying', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const failure = { code: '42501', message: 'permission denied' };
+    const batches = mockInserts(() => ({ data: null, error: failure }));
+
+    await expect(createAccessCodes(ROWS)).rejects.toBe(failure);
+    expect(batches).toHaveLength(1);
+  });
+});
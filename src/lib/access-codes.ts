@@ -0,0 +1,273 @@
+import { supabase } from '@/lib/supabase';
+import type { Database } from '@/lib/supabase-types';
+import { generateAccessCode, hasValidChecksum } from '@/lib/code-generator';
+
+export type AccessCodeRole = 'admin' | 'coach' | 'athlete';
+
+export type AccessCodeErrorCode =
+  | 'not_authenticated'
+  | 'profile_not_found'
+  | 'not_found'
+  | 'mistyped'
+  | 'not_authorized'
+  | 'revoked'
+  | 'already_used'
+  | 'expired'
+  | 'wrong_role'
+  | 'already_on_team';
+
+export interface RedeemedAccessCode {
+  code_id: string;
+  role: AccessCodeRole;
+  organization_id: string | null;
+  sport_id: string | null;
+  team_id: string | null;
+  gender: 'male' | 'female' | null;
+  coach_id: string | null;
+}
+
+export interface AccessCodePreview {
+  code: string;
+  role: AccessCodeRole;
+  gender: 'male' | 'female' | null;
+  expires_at: string | null;
+  organization_name: string | null;
+  sport_name: string | null;
+  team_name: string | null;
+  coach_name: string | null;
+}
+
+export type AccessCodeStatus = 'available' | 'used' | 'expired' | 'revoked';
+
+// Columns needed to work out whether a code can still be redeemed
+export interface AccessCodeUsage {
+  expires_at: string | null;
+  max_uses: number | null;
+  use_count: number;
+  revoked_at: string | null;
+}
+
+export const EXPIRY_OPTIONS = [
+  { value: 'never', label: 'Never', days: null },
+  { value: '1', label: '24 hours', days: 1 },
+  { value: '7', label: '7 days', days: 7 },
+  { value: '30', label: '30 days', days: 30 },
+  { value: '90', label: '90 days', days: 90 }
+] as const;
+
+export type ExpiryOption = typeof EXPIRY_OPTIONS[number]['value'];
+
+type AccessCodeInsert = Database['public']['Tables']['access_codes']['Insert'];
+
+// Unique violations mean a generated code collided with an existing one
+const UNIQUE_VIOLATION = '23505';
+export const MAX_GENERATION_ATTEMPTS = 5;
+
+export interface AccessCodeRedemption {
+  user_id: string;
+  full_name: string | null;
+  email: string | null;
+  redeemed_at: string;
+}
+
+export interface AccessCodeLedgerEntry extends AccessCodeUsage {
+  id: string;
+  code: string;
+  role: AccessCodeRole;
+  sport_id: string | null;
+  sport_name: string | null;
+  gender: 'male' | 'female' | null;
+  created_by: string;
+  creator_name: string | null;
+  created_at: string;
+  redemptions: AccessCodeRedemption[];
+}
+
+const ERROR_MESSAGES: Record<AccessCodeErrorCode, string> = {
+  not_authenticated: 'Please sign in before using an access code',
+  profile_not_found: 'Your profile is still being set up. Please try again in a moment',
+  not_found: 'Invalid access code',
+  mistyped: "That code doesn't look right. Please check it for typos",
+  not_authorized: 'You do not have permission to manage this code',
+  revoked: 'This code has been revoked',
+  already_used: 'This code has already been used',
+  expired: 'This code has expired',
+  wrong_role: 'This code is not valid for your account type',
+  already_on_team: 'You are already connected to this team',
+};
+
+export class AccessCodeError extends Error {
+  code: AccessCodeErrorCode;
+
+  constructor(code: AccessCodeErrorCode) {
+    super(ERROR_MESSAGES[code]);
+    this.name = 'AccessCodeError';
+    this.code = code;
+  }
+}
+
+function isAccessCodeErrorCode(value: string): value is AccessCodeErrorCode {
+  return value in ERROR_MESSAGES;
+}
+
+// Turns a known RPC rejection into an AccessCodeError. A not_found for a code
+// whose check character does not match is reported as a likely typo.
+export function toAccessCodeError(error: { message: string }, code?: string): AccessCodeError | null {
+  if (!isAccessCodeErrorCode(error.message)) return null;
+  if (error.message === 'not_found' && code && !hasValidChecksum(code)) {
+    return new AccessCodeError('mistyped');
+  }
+  return new AccessCodeError(error.message);
+}
+
+export function normalizeAccessCode(code: string) {
+  return code.trim().toUpperCase();
+}
+
+export function getAccessCodeStatus(code: AccessCodeUsage, now = new Date()): AccessCodeStatus {
+  if (code.revoked_at) return 'revoked';
+  if (code.expires_at && new Date(code.expires_at) <= now) return 'expired';
+  if (code.max_uses !== null && code.use_count >= code.max_uses) return 'used';
+  return 'available';
+}
+
+export function formatUsage(code: Pick<AccessCodeUsage, 'max_uses' | 'use_count'>) {
+  return code.max_uses === null
+    ? `${code.use_count} uses`
+    : `${code.use_count}/${code.max_uses} used`;
+}
+
+export function getExpiryDate(option: ExpiryOption, from = new Date()): string | null {
+  const days = EXPIRY_OPTIONS.find(o => o.value === option)?.days;
+  if (!days) return null;
+  return new Date(from.getTime() + days * 86400000).toISOString();
+}
+
+// Parses the max uses input; blank means unlimited
+export function parseMaxUses(value: string): number | null {
+  if (!value.trim()) return null;
+  const maxUses = Number(value);
+  if (!Number.isInteger(maxUses) || maxUses < 1) {
+    throw new Error('Max uses must be a whole number of at least 1');
+  }
+  return maxUses;
+}
+
+export function getJoinLink(code: string) {
+  return `${window.location.origin}/join?code=${encodeURIComponent(code)}`;
+}
+
+export interface CreatedAccessCode {
+  id: string;
+  code: string;
+}
+
+// Inserts one access code per row, generating the codes. If any generated
+// code collides with an existing one the batch is regenerated and retried.
+// Results are returned in the order of the rows.
+export async function createAccessCodes(
+  rows: Omit<AccessCodeInsert, 'code'>[]
+): Promise<CreatedAccessCode[]> {
+  for (let attempt = 1; attempt <= MAX_GENERATION_ATTEMPTS; attempt++) {
+    const codes = new Set<string>();
+    while (codes.size < rows.length) {
+      codes.add(generateAccessCode(rows[codes.size].role));
+    }
+
+    const generated = [...codes];
+    const { data, error } = await supabase
+      .from('access_codes')
+      .insert(rows.map((row, index) => ({ ...row, code: generated[index] })))
+      .select('id, code');
+
+    if (!error) {
+      const ids = new Map(data.map(row => [row.code, row.id]));
+      return generated.map(code => ({ id: ids.get(code)!, code }));
+    }
+    if (error.code !== UNIQUE_VIOLATION) {
+      console.error('Error creating access codes:', error);
+      throw error;
+    }
+  }
+
+  throw new Error('Could not generate unique access codes. Please try again');
+}
+
+// Looks up what an unused code grants. Safe to call before sign in.
+export async function previewAccessCode(code: string): Promise<AccessCodePreview> {
+  const { data, error } = await supabase.rpc('preview_access_code', {
+    p_code: normalizeAccessCode(code)
+  });
+
+  if (error) {
+    const accessCodeError = toAccessCodeError(error, code);
+    if (accessCodeError) throw accessCodeError;
+    console.error('Error previewing access code:', error);
+    throw error;
+  }
+
+  return data as AccessCodePreview;
+}
+
+// Redeems a code in a single transaction on the server. Throws an
+// AccessCodeError for known rejection reasons.
+export async function redeemAccessCode(
+  code: string,
+  expectedRole?: AccessCodeRole
+): Promise<RedeemedAccessCode> {
+  const { data, error } = await supabase.rpc('redeem_access_code', {
+    p_code: normalizeAccessCode(code),
+    p_expected_role: expectedRole ?? null
+  });
+
+  if (error) {
+    const accessCodeError = toAccessCodeError(error, code);
+    if (accessCodeError) throw accessCodeError;
+    console.error('Error redeeming access code:', error);
+    throw error;
+  }
+
+  return data as RedeemedAccessCode;
+}
+
+export async function revokeAccessCode(codeId: string) {
+  const { error } = await supabase.rpc('revoke_access_code', {
+    p_code_id: codeId
+  });
+
+  if (error) {
+    const accessCodeError = toAccessCodeError(error);
+    if (accessCodeError) throw accessCodeError;
+    console.error('Error revoking access code:', error);
+    throw error;
+  }
+}
+
+// Returns the number of codes actually revoked; codes the caller may not
+// manage and codes already revoked are skipped.
+export async function revokeAccessCodes(codeIds: string[]): Promise<number> {
+  const { data, error } = await supabase.rpc('revoke_access_codes', {
+    p_code_ids: codeIds
+  });
+
+  if (error) {
+    console.error('Error revoking access codes:', error);
+    throw error;
+  }
+
+  return data as number;
+}
+
+// Every code in the admin's organization, newest first
+export async function fetchAccessCodeLedger(): Promise<AccessCodeLedgerEntry[]> {
+  const { data, error } = await supabase.rpc('get_access_code_ledger');
+
+  if (error) {
+    const accessCodeError = toAccessCodeError(error);
+    if (accessCodeError) throw accessCodeError;
+    console.error('Error fetching access code ledger:', error);
+    throw error;
+  }
+
+  return (data ?? []) as AccessCodeLedgerEntry[];
+}
@@ -0,0 +1,180 @@
+import { supabase } from '@/lib/supabase';
+import type { Database } from '@/lib/supabase-types';
+
+export type AttendanceStatus = Database['public']['Tables']['attendance']['Row']['status'];
+
+export interface AttendanceRecord {
+  event_id: string;
+  athlete_id: string;
+  status: AttendanceStatus;
+}
+
+// A mark to save from the roster sheet; null clears it
+export interface AttendanceEntry {
+  athleteId: string;
+  status: AttendanceStatus | null;
+}
+
+export interface AttendanceSummary {
+  counts: Record<AttendanceStatus, number>;
+  marked: number;
+  // Share of counted events attended, 0-1, or null with nothing counted
+  rate: number | null;
+}
+
+// In tap-through order
+export const ATTENDANCE_STATUSES: { value: AttendanceStatus; label: string; className: string }[] = [
+  { value: 'present', label: 'Present', className: 'bg-emerald-500/20 text-emerald-400 border-emerald-500/30' },
+  { value: 'late', label: 'Late', className: 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30' },
+  { value: 'excused', label: 'Excused', className: 'bg-blue-500/20 text-blue-400 border-blue-500/30' },
+  { value: 'unexcused', label: 'Unexcused', className: 'bg-red-500/20 text-red-400 border-red-500/30' },
+  { value: 'injured', label: 'Injured', className: 'bg-orange-500/20 text-orange-400 border-orange-500/30' }
+];
+
+const ATTENDED: AttendanceStatus[] = ['present', 'late'];
+// Excused and injured absences do not count against an athlete
+const NOT_COUNTED: AttendanceStatus[] = ['excused', 'injured'];
+
+export function getAttendanceStatus(status: AttendanceStatus) {
+  return ATTENDANCE_STATUSES.find(option => option.value === status) ?? ATTENDANCE_STATUSES[0];
+}
+
+// The next status when tapping an athlete: unmarked, then each status in
+// turn, then back to unmarked
+export function getNextAttendanceStatus(status: AttendanceStatus | null): AttendanceStatus | null {
+  if (status === null) return ATTENDANCE_STATUSES[0].value;
+  const index = ATTENDANCE_STATUSES.findIndex(option => option.value === status);
+  return ATTENDANCE_STATUSES[index + 1]?.value ?? null;
+}
+
+export function summarizeAttendance(records: Pick<AttendanceRecord, 'status'>[]): AttendanceSummary {
+  const counts: Record<AttendanceStatus, number> = {
+    present: 0,
+    late: 0,
+    excused: 0,
+    unexcused: 0,
+    injured: 0
+  };
+  for (const record of records) counts[record.status]++;
+
+  const attended = ATTENDED.reduce((sum, status) => sum + counts[status], 0);
+  const counted = records.length - NOT_COUNTED.reduce((sum, status) => sum + counts[status], 0);
+  return {
+    counts,
+    marked: records.length,
+    rate: counted > 0 ? attended / counted : null
+  };
+}
+
+// Attendance summaries keyed by athlete
+export function summarizeByAthlete(records: AttendanceRecord[]): Map<string, AttendanceSummary> {
+  const byAthlete = new Map<string, AttendanceRecord[]>();
+  for (const record of records) {
+    byAthlete.set(record.athlete_id, [...(byAthlete.get(record.athlete_id) ?? []), record]);
+  }
+  return new Map(
+    [...byAthlete.entries()].map(([athleteId, athleteRecords]) => [athleteId, summarizeAttendance(athleteRecords)])
+  );
+}
+
+// Athletes marked present or late at an event that started since the date
+export function getAttendedAthleteIds(
+  records: AttendanceRecord[],
+  events: { id: string; starts_at: string }[],
+  since: Date
+): Set<string> {
+  const recentEventIds = new Set(
+    events.filter(event => new Date(event.starts_at) >= since).map(event => event.id)
+  );
+  return new Set(
+    records
+      .filter(record => recentEventIds.has(record.event_id) && ATTENDED.includes(record.status))
+      .map(record => record.athlete_id)
+  );
+}
+
+export function formatAttendanceRate(rate: number | null) {
+  return rate === null ? '—' : `${Math.round(rate * 100)}%`;
+}
+
+export async function fetchEventAttendance(eventId: string): Promise<AttendanceRecord[]> {
+  const { data, error } = await supabase
+    .from('attendance')
+    .select('event_id, athlete_id, status')
+    .eq('event_id', eventId);
+
+  if (error) {
+    console.error('Error fetching attendance:', error);
+    throw error;
+  }
+
+  return data ?? [];
+}
+
+// Attendance at every team event that has started, with those events
+export async function fetchTeamAttendance(teamId: string): Promise<{
+  events: { id: string; starts_at: string }[];
+  records: AttendanceRecord[];
+}> {
+  const { data: events, error: eventsError } = await supabase
+    .from('events')
+    .select('id, starts_at')
+    .eq('team_id', teamId)
+    .lte('starts_at', new Date().toISOString());
+
+  if (eventsError) {
+    console.error('Error fetching events:', eventsError);
+    throw eventsError;
+  }
+
+  if (!events?.length) return { events: [], records: [] };
+
+  const { data, error } = await supabase
+    .from('attendance')
+    .select('event_id, athlete_id, status')
+    .in('event_id', events.map(event => event.id));
+
+  if (error) {
+    console.error('Error fetching attendance:', error);
+    throw error;
+  }
+
+  return { events, records: data ?? [] };
+}
+
+// Writes changed marks from the roster sheet: statuses are upserted and
+// cleared marks are deleted
+export async function saveAttendance(eventId: string, entries: AttendanceEntry[]) {
+  const upserts = entries
+    .filter(entry => entry.status !== null)
+    .map(entry => ({
+      event_id: eventId,
+      athlete_id: entry.athleteId,
+      status: entry.status as AttendanceStatus
+    }));
+
+  if (upserts.length > 0) {
+    const { error } = await supabase
+      .from('attendance')
+      .upsert(upserts, { onConflict: 'event_id,athlete_id' });
+
+    if (error) {
+      console.error('Error saving attendance:', error);
+      throw error;
+    }
+  }
+
+  const cleared = entries.filter(entry => entry.status === null).map(entry => entry.athleteId);
+  if (cleared.length > 0) {
+    const { error } = await supabase
+      .from('attendance')
+      .delete()
+      .eq('event_id', eventId)
+      .in('athlete_id', cleared);
+
+    if (error) {
+      console.error('Error clearing attendance:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,377 @@
+import { supabase } from '@/lib/supabase';
+import type { Database } from '@/lib/supabase-types';
+import { saveGameStats, type GameStatEntry } from '@/lib/stats';
+
+type BowlingGameRow = Database['public']['Tables']['bowling_games']['Row'];
+
+export const PINS = 10;
+export const FRAMES = 10;
+export const SERIES_GAMES = 3;
+export const BAKER_BOWLERS = 5;
+
+// One delivery. A foul scores no pins, and pins it knocked down are
+// respotted. split marks a first ball that left a split.
+export interface BowlingRoll {
+  pins: number;
+  foul?: boolean;
+  split?: boolean;
+}
+
+export type BowlingFrame = BowlingRoll[];
+
+export interface BowlingGame extends Omit<BowlingGameRow, 'frames' | 'updated_by'> {
+  frames: BowlingFrame[];
+}
+
+export interface BowlingGameInput {
+  gameId: string;
+  // null for baker games
+  athleteId: string | null;
+  gameNumber: number;
+  bowlers?: string[];
+  frames: BowlingFrame[];
+}
+
+export interface GameScore {
+  // Running total through each frame, null until its bonus balls are in
+  frameTotals: (number | null)[];
+  // Total through the last scored frame
+  total: number;
+  complete: boolean;
+}
+
+export interface BowlingLine {
+  games: number;
+  pins: number;
+  strikes: number;
+  strikeChances: number;
+  spares: number;
+  spareChances: number;
+  opens: number;
+  splits: number;
+  splitsConverted: number;
+  fouls: number;
+}
+
+// A delivery with where it fell in its rack: ball 0 is thrown at a full
+// rack, ball 1 at what the first left
+interface RollInRack {
+  roll: BowlingRoll;
+  ball: number;
+  standing: number;
+  cleared: boolean;
+}
+
+function walkRack(frame: BowlingFrame): RollInRack[] {
+  let standing = PINS;
+  let ball = 0;
+  return frame.map(roll => {
+    const entry = { roll, ball, standing, cleared: roll.pins === standing };
+    standing -= roll.pins;
+    ball += 1;
+    if (standing === 0) {
+      standing = PINS;
+      ball = 0;
+    }
+    return entry;
+  });
+}
+
+// Pins left for the next delivery of a frame
+export function getPinsStanding(frame: BowlingFrame) {
+  let standing = PINS;
+  for (const roll of frame) {
+    standing -= roll.pins;
+    if (standing === 0) standing = PINS;
+  }
+  return standing;
+}
+
+export function isFrameComplete(frame: BowlingFrame | undefined, index: number) {
+  if (!frame || frame.length === 0) return false;
+  if (index < FRAMES - 1) return frame[0].pins === PINS || frame.length === 2;
+  // The tenth frame gets a third ball after a strike or spare
+  if (frame.length === 3) return true;
+  return frame.length === 2 && frame[0].pins + frame[1].pins < PINS;
+}
+
+// Frame the next delivery belongs to, or null once the game is over
+export function getCurrentFrame(frames: BowlingFrame[]) {
+  if (frames.length === 0) return 0;
+  const last = frames.length - 1;
+  if (!isFrameComplete(frames[last], last)) return last;
+  return last === FRAMES - 1 ? null : last + 1;
+}
+
+// Whether the next delivery is the first at a full rack, the only time a
+// split can be left
+export function isFreshRack(frames: BowlingFrame[]) {
+  const index = getCurrentFrame(frames);
+  if (index === null) return false;
+  const frame = frames[index] ?? [];
+  return walkRack([...frame, { pins: 0 }]).pop()?.ball === 0;
+}
+
+// Adds a delivery to the frame being bowled. Deliveries after the game is
+// over or with more pins than are standing are ignored.
+export function addRoll(frames: BowlingFrame[], roll: BowlingRoll): BowlingFrame[] {
+  const index = getCurrentFrame(frames);
+  if (index === null) return frames;
+
+  const frame = frames[index] ?? [];
+  const pins = roll.foul ? 0 : roll.pins;
+  if (!Number.isInteger(pins) || pins < 0 || pins > getPinsStanding(frame)) return frames;
+
+  const next: BowlingRoll = { pins };
+  if (roll.foul) next.foul = true;
+  if (roll.split && isFreshRack(frames) && pins < PINS) next.split = true;
+
+  const updated = frames.slice(0, index);
+  updated.push([...frame, next]);
+  return updated;
+}
+
+export function undoRoll(frames: BowlingFrame[]): BowlingFrame[] {
+  if (frames.length === 0) return frames;
+  const last = frames[frames.length - 1];
+  return last.length > 1
+    ? [...frames.slice(0, -1), last.slice(0, -1)]
+    : frames.slice(0, -1);
+}
+
+export function scoreGame(frames: BowlingFrame[]): GameScore {
+  const rolls = frames.flat().map(roll => roll.pins);
+  const frameTotals: (number | null)[] = [];
+  let total = 0;
+  let rollIndex = 0;
+  let pending = false;
+
+  for (let index = 0; index < FRAMES; index++) {
+    const frame = frames[index];
+    let frameScore: number | null = null;
+
+    if (!pending && isFrameComplete(frame, index)) {
+      if (index === FRAMES - 1) {
+        frameScore = frame.reduce((sum, roll) => sum + roll.pins, 0);
+      } else {
+        const isStrike = frame[0].pins === PINS;
+        const base = frame.reduce((sum, roll) => sum + roll.pins, 0);
+        const bonusBalls = isStrike ? 2 : base === PINS ? 1 : 0;
+        const bonus = rolls.slice(rollIndex + frame.length, rollIndex + frame.length + bonusBalls);
+        if (bonus.length === bonusBalls) {
+          frameScore = base + bonus.reduce((sum, pins) => sum + pins, 0);
+        }
+      }
+    }
+
+    if (frameScore === null) {
+      pending = true;
+      frameTotals.push(null);
+    } else {
+      total += frameScore;
+      frameTotals.push(total);
+    }
+    rollIndex += frame?.length ?? 0;
+  }
+
+  return { frameTotals, total, complete: getCurrentFrame(frames) === null };
+}
+
+// Scoresheet marks for a frame, e.g. ['X'], ['7', '/'] or ['F', '9']
+export function getFrameMarks(frame: BowlingFrame) {
+  return walkRack(frame).map(({ roll, ball, cleared }) => {
+    if (roll.foul) return 'F';
+    if (cleared) return ball === 0 ? 'X' : '/';
+    if (roll.pins === 0) return '-';
+    return String(roll.pins);
+  });
+}
+
+export function emptyLine(): BowlingLine {
+  return {
+    games: 0,
+    pins: 0,
+    strikes: 0,
+    strikeChances: 0,
+    spares: 0,
+    spareChances: 0,
+    opens: 0,
+    splits: 0,
+    splitsConverted: 0,
+    fouls: 0
+  };
+}
+
+// Adds a game's deliveries to a line. Only complete games count toward
+// games and pins, so a game in progress does not drag down the average.
+export function addGameToLine(line: BowlingLine, frames: BowlingFrame[]): BowlingLine {
+  const next = { ...line };
+  const score = scoreGame(frames);
+
+  frames.forEach((frame, index) => {
+    const rack = walkRack(frame);
+    rack.forEach(({ roll, ball, cleared }, position) => {
+      if (ball === 0) {
+        next.strikeChances += 1;
+        if (cleared) next.strikes += 1;
+        if (roll.split) {
+          next.splits += 1;
+          if (rack[position + 1]?.cleared) next.splitsConverted += 1;
+        }
+      } else if (ball === 1) {
+        next.spareChances += 1;
+        if (cleared) next.spares += 1;
+      }
+      if (roll.foul) next.fouls += 1;
+    });
+    if (isFrameComplete(frame, index) && !rack.some(entry => entry.cleared)) next.opens += 1;
+  });
+
+  if (score.complete) {
+    next.games += 1;
+    next.pins += score.total;
+  }
+  return next;
+}
+
+export function getAverage(line: Pick<BowlingLine, 'games' | 'pins'>) {
+  return line.games > 0 ? line.pins / line.games : null;
+}
+
+// Percentage, or null with no chances
+export function getRate(made: number, chances: number) {
+  return chances > 0 ? (made / chances) * 100 : null;
+}
+
+// Bowler in the baker lineup for a frame: five bowlers take frames 1 and 6,
+// 2 and 7, and so on
+export function getBakerBowler(bowlers: string[], frameIndex: number) {
+  return bowlers.length > 0 ? bowlers[frameIndex % bowlers.length] : null;
+}
+
+// Game-by-game and series totals for the team: individual games added up
+// by game number, then baker games, then the match total
+export function getTeamTotals(games: BowlingGame[]) {
+  const individual = new Map<number, number>();
+  const baker = new Map<number, number>();
+  for (const game of games) {
+    const totals = game.athlete_id ? individual : baker;
+    totals.set(game.game_number, (totals.get(game.game_number) ?? 0) + scoreGame(game.frames).total);
+  }
+  const sum = (totals: Map<number, number>) => [...totals.values()].reduce((total, score) => total + score, 0);
+  return { individual, baker, total: sum(individual) + sum(baker) };
+}
+
+// A bowler's stat values for one match, in the sport's stat keys. Baker
+// games count for the team, not for the bowlers in them.
+export function getMatchStats(athleteId: string, games: BowlingGame[]): GameStatEntry[] {
+  const own = games.filter(game => game.athlete_id === athleteId);
+  const line = own.reduce((current, game) => addGameToLine(current, game.frames), emptyLine());
+  const scores = own.map(game => scoreGame(game.frames)).filter(score => score.complete).map(score => score.total);
+  const values: Record<string, number | null> = {
+    games: line.games,
+    pins: line.pins,
+    high_game: scores.length > 0 ? Math.max(...scores) : null,
+    high_series: scores.length > 0 ? scores.reduce((total, score) => total + score, 0) : null,
+    strikes: line.strikes,
+    spares: line.spares,
+    opens: line.opens,
+    strike_chances: line.strikeChances,
+    spare_chances: line.spareChances,
+    splits: line.splits,
+    fouls: line.fouls
+  };
+  return Object.entries(values).map(([statKey, value]) => ({
+    athleteId,
+    statKey,
+    value: own.length > 0 ? value : null
+  }));
+}
+
+const BOWLING_COLUMNS = 'id, game_id, athlete_id, game_number, bowlers, frames, score, updated_at';
+
+function toBowlingGame(row: Omit<BowlingGameRow, 'updated_by'>): BowlingGame {
+  return { ...row, frames: (row.frames ?? []) as unknown as BowlingFrame[] };
+}
+
+export async function fetchBowlingGames(gameIds: string[]): Promise<BowlingGame[]> {
+  if (gameIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('bowling_games')
+    .select(BOWLING_COLUMNS)
+    .in('game_id', gameIds)
+    .order('game_number');
+
+  if (error) {
+    console.error('Error fetching bowling games:', error);
+    throw error;
+  }
+
+  return (data ?? []).map(toBowlingGame);
+}
+
+// Refreshes what the scoresheets feed: the bowler's box score for the
+// match and the team's pinfall as the match score
+async function syncMatch(gameId: string, athleteId: string | null) {
+  const games = await fetchBowlingGames([gameId]);
+
+  if (athleteId) {
+    await saveGameStats(gameId, getMatchStats(athleteId, games));
+  }
+
+  const { error } = await supabase
+    .from('games')
+    .update({ team_score: games.length > 0 ? getTeamTotals(games).total : null })
+    .eq('id', gameId);
+
+  if (error) {
+    console.error('Error updating match score:', error);
+    throw error;
+  }
+}
+
+// Creates or updates a scoresheet; a game is only scored once complete
+export async function saveBowlingGame(id: string | null, game: BowlingGameInput): Promise<BowlingGame> {
+  const score = scoreGame(game.frames);
+  const fields = {
+    bowlers: game.bowlers ?? [],
+    frames: game.frames as unknown as BowlingGameRow['frames'],
+    score: score.complete ? score.total : null
+  };
+
+  const { data, error } = id
+    ? await supabase
+      .from('bowling_games')
+      .update(fields)
+      .eq('id', id)
+      .select(BOWLING_COLUMNS)
+      .single()
+    : await supabase
+      .from('bowling_games')
+      .insert({ game_id: game.gameId, athlete_id: game.athleteId, game_number: game.gameNumber, ...fields })
+      .select(BOWLING_COLUMNS)
+      .single();
+
+  if (error) {
+    console.error('Error saving bowling game:', error);
+    throw error;
+  }
+
+  await syncMatch(game.gameId, game.athleteId);
+  return toBowlingGame(data);
+}
+
+export async function deleteBowlingGame(game: BowlingGame) {
+  const { error } = await supabase
+    .from('bowling_games')
+    .delete()
+    .eq('id', game.id);
+
+  if (error) {
+    console.error('Error deleting bowling game:', error);
+    throw error;
+  }
+
+  await syncMatch(game.game_id, game.athlete_id);
+}
@@ -0,0 +1,91 @@
+// Date helpers for the month and week calendar views. All dates are local
+// time; weeks start on Sunday to match the weekday numbers used by practice
+// schedules.
+
+export type CalendarView = 'month' | 'week';
+
+export const WEEKDAYS = [
+  { value: 0, label: 'Sun' },
+  { value: 1, label: 'Mon' },
+  { value: 2, label: 'Tue' },
+  { value: 3, label: 'Wed' },
+  { value: 4, label: 'Thu' },
+  { value: 5, label: 'Fri' },
+  { value: 6, label: 'Sat' }
+];
+
+export function startOfDay(date: Date) {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+export function addDays(date: Date, days: number) {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+export function startOfWeek(date: Date) {
+  return addDays(startOfDay(date), -date.getDay());
+}
+
+export function startOfMonth(date: Date) {
+  return new Date(date.getFullYear(), date.getMonth(), 1);
+}
+
+export function addMonths(date: Date, months: number) {
+  return new Date(date.getFullYear(), date.getMonth() + months, 1);
+}
+
+export function isSameDay(a: Date, b: Date) {
+  return a.getFullYear() === b.getFullYear()
+    && a.getMonth() === b.getMonth()
+    && a.getDate() === b.getDate();
+}
+
+// YYYY-MM-DD in local time, for grouping events by day and date inputs
+export function toDateKey(date: Date) {
+  return [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, '0'),
+    String(date.getDate()).padStart(2, '0')
+  ].join('-');
+}
+
+// Value for a datetime-local input, e.g. "2025-03-04T15:30"
+export function toDateTimeInput(date: Date) {
+  return `${toDateKey(date)}T${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+}
+
+// The days shown for a view: whole weeks covering the month, or one week
+export function getVisibleDays(view: CalendarView, cursor: Date): Date[] {
+  const first = view === 'month' ? startOfWeek(startOfMonth(cursor)) : startOfWeek(cursor);
+  const last = view === 'month'
+    ? addDays(startOfWeek(addDays(addMonths(cursor, 1), -1)), 6)
+    : addDays(first, 6);
+
+  const days: Date[] = [];
+  for (let day = first; day <= last; day = addDays(day, 1)) {
+    days.push(day);
+  }
+  return days;
+}
+
+// Moves the cursor one month or one week
+export function shiftCursor(view: CalendarView, cursor: Date, direction: 1 | -1) {
+  return view === 'month' ? addMonths(cursor, direction) : addDays(cursor, direction * 7);
+}
+
+export function getViewTitle(view: CalendarView, cursor: Date) {
+  if (view === 'month') {
+    return cursor.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+  }
+  const start = startOfWeek(cursor);
+  const end = addDays(start, 6);
+  const format = (date: Date) => date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  return `${format(start)} – ${format(end)}, ${end.getFullYear()}`;
+}
+
+// "15:30:00" -> "3:30 PM"
+export function formatTimeOfDay(time: string) {
+  const [hours, minutes] = time.split(':').map(Number);
+  const suffix = hours < 12 ? 'AM' : 'PM';
+  return `${hours % 12 || 12}:${String(minutes).padStart(2, '0')} ${suffix}`;
+}
@@ -0,0 +1,126 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  CODE_FORMATS,
+  READABLE_ALPHABET,
+  checkCharacter,
+  generateAccessCode,
+  hasValidChecksum,
+  randomChars,
+  type CodeRole
+} from '@/lib/code-generator';
+
+const ROLES: CodeRole[] = ['admin', 'coach', 'athlete'];
+
+// Replaces the character at index
+function substitute(code: string, index: number, char: string) {
+  return code.slice(0, index) + char + code.slice(index + 1);
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('generateAccessCode', () => {
+  it.each(ROLES)('uses the group shape for %s codes', (role) => {
+    for (let i = 0; i < 50; i++) {
+      const groups = generateAccessCode(role).split('-');
+      expect(groups.map(group => group.length)).toEqual(CODE_FORMATS[role].groups);
+    }
+  });
+
+  it('only uses readable characters', () => {
+    for (const role of ROLES) {
+      for (let i = 0; i < 50; i++) {
+        const chars = generateAccessCode(role).replace(/-/g, '');
+        expect([...chars].every(char => READABLE_ALPHABET.includes(char))).toBe(true);
+      }
+    }
+  });
+});
+
+describe('checkCharacter', () => {
+  it('returns a character from the alphabet', () => {
+    expect(READABLE_ALPHABET).toContain(checkCharacter('ABCDEFG', READABLE_ALPHABET));
+  });
+
+  it('rejects characters outside the alphabet', () => {
+    expect(() => checkCharacter('AB0', READABLE_ALPHABET)).toThrow('Invalid character "0"');
+  });
+});
+
+describe('hasValidChecksum', () => {
+  it('accepts generated codes', () => {
+    for (const role of ROLES) {
+      for (let i = 0; i < 50; i++) {
+        expect(hasValidChecksum(generateAccessCode(role))).toBe(true);
+      }
+    }
+  });
+
+  it('accepts lowercase codes with or without dashes', () => {
+    const code = generateAccessCode('coach');
+    expect(hasValidChecksum(code.toLowerCase())).toBe(true);
+    expect(hasValidChecksum(code.replace(/-/g, ''))).toBe(true);
+    expect(hasValidChecksum(` ${code.replace(/-/g, ' - ')} `)).toBe(true);
+  });
+
+  it('rejects any single substituted character', () => {
+    const code = generateAccessCode('admin');
+    [...code].forEach((original, index) => {
+      if (original === '-') return;
+      for (const char of READABLE_ALPHABET) {
+        if (char !== original) expect(hasValidChecksum(substitute(code, index, char))).toBe(false);
+      }
+    });
+  });
+
+  it('rejects adjacent transpositions', () => {
+    // Luhn mod N misses only swaps of the first and last characters of the
+    // alphabet
+    const blind = new Set([READABLE_ALPHABET[0], READABLE_ALPHABET[READABLE_ALPHABET.length - 1]]);
+    for (const a of READABLE_ALPHABET) {
+      for (const b of READABLE_ALPHABET) {
+        if (a === b || (blind.has(a) && blind.has(b))) continue;
+        const payload = `XY${a}${b}Z`;
+        const swapped = `XY${b}${a}Z${checkCharacter(payload, READABLE_ALPHABET)}`;
+        expect(hasValidChecksum(swapped)).toBe(false);
+      }
+    }
+  });
+
+  it('rejects codes that are too short or use other characters', () => {
+    expect(hasValidChecksum('A')).toBe(false);
+    expect(hasValidChecksum('')).toBe(false);
+    expect(hasValidChecksum('AB0-CDE')).toBe(false);
+  });
+});
+
+describe('randomChars', () => {
+  it('returns the requested number of characters', () => {
+    expect(randomChars(READABLE_ALPHABET, 12)).toHaveLength(12);
+    expect(randomChars(READABLE_ALPHABET, 0)).toBe('');
+  });
+
+  it('rejects bytes past the largest multiple of the alphabet size', () => {
+    // 30 characters: bytes of 240 and up would favour the first 16
+    const alphabet = READABLE_ALPHABET.slice(0, 30);
+    const bytes = [240, 255, 239, 0, 250, 29, 30, 1];
+    vi.spyOn(crypto, 'getRandomValues').mockImplementation(<T extends ArrayBufferView | null>(array: T) => {
+      (array as unknown as Uint8Array).set(bytes.splice(0, (array as unknown as Uint8Array).length));
+      return array;
+    });
+
+    expect(randomChars(alphabet, 4)).toBe(alphabet[239 % 30] + alphabet[0] + alphabet[29] + alphabet[0]);
+  });
+
+  it('draws more random bytes until enough are accepted', () => {
+    const alphabet = READABLE_ALPHABET.slice(0, 30);
+    const spy = vi.spyOn(crypto, 'getRandomValues').mockImplementationOnce(<T extends ArrayBufferView | null>(array: T) => {
+      (array as unknown as Uint8Array).fill(255);
+      return array;
+    });
+
+    expect(randomChars(alphabet, 3)).toHaveLength(3);
+    expect(spy.mock.calls.length).toBeGreaterThan(1);
+  });
+});
@@ -0,0 +1,88 @@
+// Access code generation
+//
+// Codes are drawn from an alphabet without look-alike characters using
+// crypto.getRandomValues. The final character is a Luhn mod N check
+// character so typos can be caught before a code is sent to the server.
+
+export type CodeRole = 'admin' | 'coach' | 'athlete';
+
+export interface CodeFormat {
+  alphabet: string;
+  // Characters per dash-separated group; the last character of the last
+  // group is the check character
+  groups: number[];
+}
+
+// No 0/O or 1/I so codes survive being read aloud or handwritten
+export const READABLE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export const CODE_FORMATS: Record<CodeRole, CodeFormat> = {
+  admin: { alphabet: READABLE_ALPHABET, groups: [3, 3, 3] },
+  coach: { alphabet: READABLE_ALPHABET, groups: [3, 3, 2] },
+  athlete: { alphabet: READABLE_ALPHABET, groups: [2, 3, 2] }
+};
+
+// Uniform random characters; values past the largest multiple of the
+// alphabet size are rejected to avoid modulo bias
+export function randomChars(alphabet: string, count: number): string {
+  const limit = 256 - (256 % alphabet.length);
+  const result: string[] = [];
+  const buffer = new Uint8Array(count * 2);
+
+  while (result.length < count) {
+    crypto.getRandomValues(buffer);
+    for (const byte of buffer) {
+      if (byte < limit) result.push(alphabet[byte % alphabet.length]);
+      if (result.length === count) break;
+    }
+  }
+
+  return result.join('');
+}
+
+// Luhn mod N check character for the given payload
+export function checkCharacter(payload: string, alphabet: string): string {
+  const n = alphabet.length;
+  let factor = 2;
+  let sum = 0;
+
+  for (let i = payload.length - 1; i >= 0; i--) {
+    const codePoint = alphabet.indexOf(payload[i]);
+    if (codePoint === -1) throw new Error(`Invalid character "${payload[i]}"`);
+
+    let addend = factor * codePoint;
+    factor = factor === 2 ? 1 : 2;
+    addend = Math.floor(addend / n) + (addend % n);
+    sum += addend;
+  }
+
+  return alphabet[(n - (sum % n)) % n];
+}
+
+function formatGroups(chars: string, groups: number[]): string {
+  const parts: string[] = [];
+  let offset = 0;
+  for (const size of groups) {
+    parts.push(chars.slice(offset, offset + size));
+    offset += size;
+  }
+  return parts.join('-');
+}
+
+export function generateAccessCode(role: CodeRole, format: CodeFormat = CODE_FORMATS[role]): string {
+  const length = format.groups.reduce((total, size) => total + size, 0);
+  const payload = randomChars(format.alphabet, length - 1);
+  return formatGroups(payload + checkCharacter(payload, format.alphabet), format.groups);
+}
+
+// True when the code's check character matches. Codes created before check
+// characters were introduced will usually fail this, so a failure should
+// only be used to explain a rejection, never to skip the server lookup.
+export function hasValidChecksum(code: string, alphabet = READABLE_ALPHABET): boolean {
+  const chars = code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  if (chars.length < 2) return false;
+  if ([...chars].some(char => !alphabet.includes(char))) return false;
+
+  const payload = chars.slice(0, -1);
+  return checkCharacter(payload, alphabet) === chars.slice(-1);
+}
@@ -0,0 +1,91 @@
+import { jsPDF } from 'jspdf';
+import QRCode from 'qrcode';
+import { getJoinLink } from '@/lib/access-codes';
+
+export interface CodeSheetCard {
+  code: string;
+  sportName: string | null;
+  teamName: string | null;
+  coachName: string | null;
+}
+
+// US Letter in millimetres, laid out as a 2 x 5 grid of cut-out cards
+const PAGE = { width: 215.9, height: 279.4, margin: 12 };
+const GRID = { columns: 2, rows: 5 };
+const CARD_PADDING = 4;
+const QR_SIZE = 34;
+
+export const CARDS_PER_PAGE = GRID.columns * GRID.rows;
+
+async function drawCard(doc: jsPDF, card: CodeSheetCard, x: number, y: number, width: number, height: number) {
+  // Dashed cut lines
+  doc.setLineDashPattern([2, 2], 0);
+  doc.setDrawColor(160);
+  doc.rect(x, y, width, height);
+  doc.setLineDashPattern([], 0);
+
+  const qr = await QRCode.toDataURL(getJoinLink(card.code), { margin: 0, width: 256 });
+  const qrY = y + (height - QR_SIZE) / 2;
+  doc.addImage(qr, 'PNG', x + CARD_PADDING, qrY, QR_SIZE, QR_SIZE);
+
+  const textX = x + CARD_PADDING * 2 + QR_SIZE;
+  const textWidth = width - (textX - x) - CARD_PADDING;
+  let textY = y + CARD_PADDING + 4;
+
+  doc.setTextColor(110);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(8);
+  doc.text('ELEV8 SPORTS', textX, textY);
+
+  textY += 6;
+  doc.setTextColor(20);
+  doc.setFontSize(11);
+  doc.text(doc.splitTextToSize(card.teamName ?? card.sportName ?? 'Team Invitation', textWidth), textX, textY);
+
+  textY += 11;
+  doc.setFont('courier', 'bold');
+  doc.setFontSize(16);
+  doc.text(card.code, textX, textY);
+
+  textY += 7;
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  if (card.coachName) {
+    doc.text(`Coach: ${card.coachName}`, textX, textY, { maxWidth: textWidth });
+    textY += 5;
+  }
+
+  doc.setTextColor(110);
+  doc.setFontSize(7);
+  doc.text(
+    doc.splitTextToSize(`Scan the code or visit ${window.location.host}/join and enter the code above`, textWidth),
+    textX,
+    textY
+  );
+}
+
+// Renders the cards into a printable PDF and starts the download
+export async function downloadCodeSheet(cards: CodeSheetCard[], filename: string) {
+  const doc = new jsPDF({ unit: 'mm', format: 'letter' });
+  const cardWidth = (PAGE.width - PAGE.margin * 2) / GRID.columns;
+  const cardHeight = (PAGE.height - PAGE.margin * 2) / GRID.rows;
+
+  for (const [index, card] of cards.entries()) {
+    const position = index % CARDS_PER_PAGE;
+    if (index > 0 && position === 0) doc.addPage();
+
+    const column = position % GRID.columns;
+    const row = Math.floor(position / GRID.columns);
+
+    await drawCard(
+      doc,
+      card,
+      PAGE.margin + column * cardWidth,
+      PAGE.margin + row * cardHeight,
+      cardWidth,
+      cardHeight
+    );
+  }
+
+  doc.save(filename);
+}
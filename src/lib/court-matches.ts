@@ -0,0 +1,590 @@
+import { supabase } from '@/lib/supabase';
+import type { Database } from '@/lib/supabase-types';
+import { saveGameStats, type GameStatEntry } from '@/lib/stats';
+
+type CourtMatchRow = Database['public']['Tables']['court_matches']['Row'];
+
+export type RacketSport = 'tennis' | 'pickleball';
+export type CourtFormat = CourtMatchRow['format'];
+export type Side = 'us' | 'them';
+
+// Regular sets go to a 7-point tiebreak at games-all; a match tiebreak
+// played in place of the final set goes to 10
+export const TIEBREAK_POINTS = 7;
+export const MATCH_TIEBREAK_POINTS = 10;
+
+export interface TennisRules {
+  sport: 'tennis';
+  // Best of this many sets
+  bestOf: number;
+  gamesPerSet: number;
+  finalSet: 'tiebreak' | 'match_tiebreak' | 'advantage';
+  // Deciding point at deuce
+  noAd: boolean;
+}
+
+export interface PickleballRules {
+  sport: 'pickleball';
+  // Best of this many games
+  bestOf: number;
+  pointsToWin: number;
+  winBy: number;
+  // Rally scoring gives a point on every rally; otherwise only the serving
+  // side scores
+  rally: boolean;
+}
+
+export type CourtRules = TennisRules | PickleballRules;
+
+export type PointOutcome =
+  | 'ace'
+  | 'service_winner'
+  | 'double_fault'
+  | 'return_winner'
+  | 'return_error';
+
+export interface CourtPoint {
+  winner: Side;
+  outcome?: PointOutcome;
+}
+
+export interface CourtMatch extends Omit<CourtMatchRow, 'rules' | 'points' | 'updated_by'> {
+  rules: CourtRules;
+  points: CourtPoint[];
+}
+
+export interface CourtMatchInput {
+  gameId: string;
+  format: CourtFormat;
+  line: number;
+  // Our athletes in serving order
+  players: string[];
+  opponents: string[];
+  rules: CourtRules;
+  firstServer: Side;
+}
+
+export interface SetScore {
+  us: number;
+  them: number;
+  // Points of the tiebreak that decided the set
+  tiebreak: { us: number; them: number } | null;
+  // A match tiebreak played in place of the final set
+  matchTiebreak: boolean;
+}
+
+// Where a match stands after its points. For pickleball the sets are games
+// and their scores are points.
+export interface CourtState {
+  sets: SetScore[];
+  // Points in the current game or tiebreak
+  points: { us: number; them: number };
+  tiebreak: boolean;
+  server: Side;
+  // Position in the serving side's lineup, or null when it is not known,
+  // as in pickleball doubles
+  serverPlayer: number | null;
+  // Pickleball side-out doubles: first or second server
+  serverNumber: 1 | 2 | null;
+  winner: Side | null;
+}
+
+// A point with the situation it was played in
+export interface PlayedPoint extends CourtPoint {
+  server: Side;
+  serverPlayer: number | null;
+  set: number;
+  game: number;
+  tiebreak: boolean;
+}
+
+export interface SideSummary {
+  points: number;
+  servicePoints: number;
+  servicePointsWon: number;
+  returnPoints: number;
+  returnPointsWon: number;
+  aces: number;
+  doubleFaults: number;
+  returnWinners: number;
+}
+
+export const RULE_PRESETS: Record<RacketSport, { key: string; label: string; rules: CourtRules }[]> = {
+  tennis: [
+    {
+      key: 'best_of_three',
+      label: 'Best of 3 sets',
+      rules: { sport: 'tennis', bestOf: 3, gamesPerSet: 6, finalSet: 'tiebreak', noAd: false }
+    },
+    {
+      key: 'match_tiebreak',
+      label: 'Best of 3, match tiebreak for the third',
+      rules: { sport: 'tennis', bestOf: 3, gamesPerSet: 6, finalSet: 'match_tiebreak', noAd: false }
+    },
+    {
+      key: 'pro_set',
+      label: '8-game pro set',
+      rules: { sport: 'tennis', bestOf: 1, gamesPerSet: 8, finalSet: 'tiebreak', noAd: false }
+    },
+    {
+      key: 'best_of_five',
+      label: 'Best of 5 sets',
+      rules: { sport: 'tennis', bestOf: 5, gamesPerSet: 6, finalSet: 'tiebreak', noAd: false }
+    }
+  ],
+  pickleball: [
+    {
+      key: 'one_game',
+      label: 'One game to 11',
+      rules: { sport: 'pickleball', bestOf: 1, pointsToWin: 11, winBy: 2, rally: false }
+    },
+    {
+      key: 'best_of_three',
+      label: 'Best of 3 games to 11',
+      rules: { sport: 'pickleball', bestOf: 3, pointsToWin: 11, winBy: 2, rally: false }
+    },
+    {
+      key: 'one_game_15',
+      label: 'One game to 15',
+      rules: { sport: 'pickleball', bestOf: 1, pointsToWin: 15, winBy: 2, rally: false }
+    },
+    {
+      key: 'rally_21',
+      label: 'One game to 21',
+      rules: { sport: 'pickleball', bestOf: 1, pointsToWin: 21, winBy: 2, rally: true }
+    }
+  ]
+};
+
+// Serve and return outcomes, and which side of the point they give it to
+export const POINT_OUTCOMES: Record<RacketSport, { value: PointOutcome; label: string; wonBy: 'server' | 'receiver' }[]> = {
+  tennis: [
+    { value: 'ace', label: 'Ace', wonBy: 'server' },
+    { value: 'service_winner', label: 'Service Winner', wonBy: 'server' },
+    { value: 'double_fault', label: 'Double Fault', wonBy: 'receiver' },
+    { value: 'return_winner', label: 'Return Winner', wonBy: 'receiver' },
+    { value: 'return_error', label: 'Return Error', wonBy: 'server' }
+  ],
+  pickleball: [
+    { value: 'ace', label: 'Ace', wonBy: 'server' },
+    { value: 'double_fault', label: 'Service Fault', wonBy: 'receiver' },
+    { value: 'return_winner', label: 'Return Winner', wonBy: 'receiver' },
+    { value: 'return_error', label: 'Return Error', wonBy: 'server' }
+  ]
+};
+
+const TENNIS_POINTS = ['0', '15', '30', '40'];
+
+// Each line can only be played once per dual match
+const UNIQUE_VIOLATION = '23505';
+
+export const other = (side: Side): Side => (side === 'us' ? 'them' : 'us');
+
+export function getRacketSport(slug: string | undefined): RacketSport | null {
+  return slug === 'tennis' || slug === 'pickleball' ? slug : null;
+}
+
+const newSet = (matchTiebreak = false): SetScore => ({ us: 0, them: 0, tiebreak: null, matchTiebreak });
+
+const setsWon = (sets: SetScore[], side: Side) =>
+  sets.filter(set => (set.matchTiebreak ? set.tiebreak && set.tiebreak[side] > set.tiebreak[other(side)] : set[side] > set[other(side)])).length;
+
+function replayTennis(rules: TennisRules, format: CourtFormat, firstServer: Side, points: CourtPoint[]) {
+  const sets: SetScore[] = [newSet(rules.bestOf === 1 && rules.finalSet === 'match_tiebreak')];
+  const history: PlayedPoint[] = [];
+  const serviceTurns = { us: 0, them: 0 };
+  const needed = Math.floor(rules.bestOf / 2) + 1;
+  let game = { us: 0, them: 0 };
+  let server = firstServer;
+  let tiebreak = sets[0].matchTiebreak;
+  let tiebreakServer = server;
+  let tiebreakPoints = 0;
+  let winner: Side | null = null;
+  serviceTurns[server] += 1;
+
+  const serverPlayer = () => (format === 'doubles' ? (serviceTurns[server] - 1) % 2 : 0);
+  const changeServer = (next: Side) => {
+    server = next;
+    serviceTurns[next] += 1;
+  };
+
+  for (const point of points) {
+    if (winner) break;
+    const set = sets[sets.length - 1];
+    history.push({
+      ...point,
+      server,
+      serverPlayer: serverPlayer(),
+      set: sets.length,
+      game: set.us + set.them + 1,
+      tiebreak
+    });
+
+    const won = point.winner;
+    const lost = other(won);
+    game[won] += 1;
+
+    if (tiebreak) {
+      const target = set.matchTiebreak ? MATCH_TIEBREAK_POINTS : TIEBREAK_POINTS;
+      tiebreakPoints += 1;
+      if (game[won] >= target && game[won] - game[lost] >= 2) {
+        set.tiebreak = { ...game };
+        set[won] += 1;
+        // The side that served first in the tiebreak receives first next set
+        changeServer(other(tiebreakServer));
+      } else {
+        // Serve changes after the first point, then every two points
+        if (tiebreakPoints % 2 === 1) changeServer(other(server));
+        continue;
+      }
+    } else {
+      if (!(game[won] >= 4 && (rules.noAd || game[won] - game[lost] >= 2))) continue;
+      set[won] += 1;
+      changeServer(other(server));
+    }
+
+    game = { us: 0, them: 0 };
+    tiebreakPoints = 0;
+    const finalSet = sets.length === rules.bestOf;
+    const setOver = tiebreak || (set[won] >= rules.gamesPerSet && set[won] - set[lost] >= 2);
+
+    if (!setOver) {
+      tiebreak = set.us === rules.gamesPerSet
+        && set.them === rules.gamesPerSet
+        && !(finalSet && rules.finalSet === 'advantage');
+      tiebreakServer = server;
+      continue;
+    }
+
+    tiebreak = false;
+    if (setsWon(sets, won) >= needed) {
+      winner = won;
+      break;
+    }
+    const matchTiebreak = sets.length + 1 === rules.bestOf && rules.finalSet === 'match_tiebreak';
+    sets.push(newSet(matchTiebreak));
+    tiebreak = matchTiebreak;
+    tiebreakServer = server;
+  }
+
+  const state: CourtState = {
+    sets,
+    points: game,
+    tiebreak,
+    server,
+    serverPlayer: serverPlayer(),
+    serverNumber: null,
+    winner
+  };
+  return { state, history };
+}
+
+function replayPickleball(rules: PickleballRules, format: CourtFormat, firstServer: Side, points: CourtPoint[]) {
+  const sideOutDoubles = format === 'doubles' && !rules.rally;
+  const needed = Math.floor(rules.bestOf / 2) + 1;
+  const sets: SetScore[] = [newSet()];
+  const history: PlayedPoint[] = [];
+  let gameServer = firstServer;
+  let server = firstServer;
+  // The first serving side of each game only gets one server
+  let serverNumber: 1 | 2 | null = sideOutDoubles ? 2 : null;
+  let winner: Side | null = null;
+
+  for (const point of points) {
+    if (winner) break;
+    const set = sets[sets.length - 1];
+    history.push({
+      ...point,
+      server,
+      serverPlayer: format === 'singles' ? 0 : null,
+      set: sets.length,
+      game: sets.length,
+      tiebreak: false
+    });
+
+    const won = point.winner;
+    if (rules.rally || won === server) {
+      set[won] += 1;
+      if (won !== server) server = won;
+    } else if (serverNumber === 1) {
+      serverNumber = 2;
+    } else {
+      server = won;
+      if (sideOutDoubles) serverNumber = 1;
+    }
+
+    if (!(set[won] >= rules.pointsToWin && set[won] - set[other(won)] >= rules.winBy)) continue;
+
+    if (setsWon(sets, won) >= needed) {
+      winner = won;
+      break;
+    }
+    // Sides take turns serving first in each game
+    gameServer = other(gameServer);
+    server = gameServer;
+    serverNumber = sideOutDoubles ? 2 : null;
+    sets.push(newSet());
+  }
+
+  const current = sets[sets.length - 1];
+  const state: CourtState = {
+    sets,
+    points: { us: current.us, them: current.them },
+    tiebreak: false,
+    server,
+    serverPlayer: format === 'singles' ? 0 : null,
+    serverNumber,
+    winner
+  };
+  return { state, history };
+}
+
+// Replays the points under the court's rules. Points after the match is
+// decided are ignored.
+export function scoreCourtMatch(
+  match: Pick<CourtMatch, 'rules' | 'format' | 'first_server' | 'points'>
+): { state: CourtState; history: PlayedPoint[] } {
+  return match.rules.sport === 'tennis'
+    ? replayTennis(match.rules, match.format, match.first_server, match.points)
+    : replayPickleball(match.rules, match.format, match.first_server, match.points);
+}
+
+// The side an outcome gives the point to, given who is serving
+export function getOutcomeWinner(sport: RacketSport, outcome: PointOutcome, server: Side) {
+  const definition = POINT_OUTCOMES[sport].find(option => option.value === outcome);
+  return definition?.wonBy === 'receiver' ? other(server) : server;
+}
+
+// Set scores from our side, e.g. "6-4 3-6 7-6(5)" or "6-3 [10-8]". The
+// losing side's tiebreak points are shown in brackets.
+export function formatCourtScore(state: CourtState, sport: RacketSport) {
+  return state.sets
+    .filter(set => set.us + set.them > 0 || set.tiebreak)
+    .map(set => {
+      if (sport === 'pickleball') return `${set.us}-${set.them}`;
+      if (set.matchTiebreak) {
+        const tiebreak = set.tiebreak ?? { us: 0, them: 0 };
+        return `[${tiebreak.us}-${tiebreak.them}]`;
+      }
+      const base = `${set.us}-${set.them}`;
+      return set.tiebreak ? `${base}(${Math.min(set.tiebreak.us, set.tiebreak.them)})` : base;
+    })
+    .join(' ');
+}
+
+// The current game's score for each side: "15"/"40"/"Ad" in tennis games,
+// plain counts in tiebreaks and pickleball
+export function formatGamePoints(state: CourtState, sport: RacketSport): Record<Side, string> {
+  const { us, them } = state.points;
+  if (sport === 'pickleball' || state.tiebreak) return { us: String(us), them: String(them) };
+  if (us >= 3 && them >= 3) {
+    if (us === them) return { us: '40', them: '40' };
+    return us > them ? { us: 'Ad', them: '' } : { us: '', them: 'Ad' };
+  }
+  return { us: TENNIS_POINTS[us], them: TENNIS_POINTS[them] };
+}
+
+// Pickleball score call: server's score, receiver's score and, in side-out
+// doubles, the server number, e.g. "4-2-1"
+export function formatScoreCall(state: CourtState) {
+  const call = `${state.points[state.server]}-${state.points[other(state.server)]}`;
+  return state.serverNumber === null ? call : `${call}-${state.serverNumber}`;
+}
+
+export function summarizeSide(history: PlayedPoint[], side: Side): SideSummary {
+  const serving = history.filter(point => point.server === side);
+  const returning = history.filter(point => point.server !== side);
+  return {
+    points: history.filter(point => point.winner === side).length,
+    servicePoints: serving.length,
+    servicePointsWon: serving.filter(point => point.winner === side).length,
+    returnPoints: returning.length,
+    returnPointsWon: returning.filter(point => point.winner === side).length,
+    aces: serving.filter(point => point.outcome === 'ace').length,
+    doubleFaults: serving.filter(point => point.outcome === 'double_fault').length,
+    returnWinners: returning.filter(point => point.outcome === 'return_winner').length
+  };
+}
+
+// Courts won and lost, counting finished courts only
+export function getDualMatchResult(courts: Pick<CourtMatch, 'winner'>[]) {
+  return {
+    us: courts.filter(court => court.winner === 'us').length,
+    them: courts.filter(court => court.winner === 'them').length
+  };
+}
+
+// A player's stat values across their courts in a dual match, in the
+// sport's stat keys
+export function getPlayerStats(athleteId: string, sport: RacketSport, courts: CourtMatch[]): GameStatEntry[] {
+  const own = courts.filter(court => court.players.includes(athleteId));
+  const totals: Record<string, number> = {
+    matches_won: 0,
+    matches_lost: 0,
+    sets_won: 0,
+    games_won: 0,
+    points_won: 0,
+    aces: 0,
+    double_faults: 0
+  };
+
+  for (const court of own) {
+    const { state, history } = scoreCourtMatch(court);
+    const position = court.players.indexOf(athleteId);
+    if (state.winner === 'us') totals.matches_won += 1;
+    if (state.winner === 'them') totals.matches_lost += 1;
+
+    if (court.rules.sport === 'tennis') {
+      totals.sets_won += setsWon(state.sets.slice(0, state.winner ? undefined : -1), 'us');
+      totals.games_won += state.sets.filter(set => !set.matchTiebreak).reduce((sum, set) => sum + set.us, 0);
+      const served = history.filter(point => point.server === 'us' && point.serverPlayer === position);
+      totals.aces += served.filter(point => point.outcome === 'ace').length;
+      totals.double_faults += served.filter(point => point.outcome === 'double_fault').length;
+    } else {
+      totals.games_won += setsWon(state.sets.slice(0, state.winner ? undefined : -1), 'us');
+      totals.points_won += state.sets.reduce((sum, set) => sum + set.us, 0);
+    }
+  }
+
+  const keys = sport === 'pickleball'
+    ? ['matches_won', 'matches_lost', 'games_won', 'points_won']
+    : ['matches_won', 'matches_lost', 'sets_won', 'games_won', 'aces', 'double_faults'];
+  return keys.map(statKey => ({ athleteId, statKey, value: own.length > 0 ? totals[statKey] : null }));
+}
+
+const COURT_COLUMNS = 'id, game_id, format, line, players, opponents, rules, first_server, points, winner, score, updated_at';
+
+function toCourtMatch(row: Omit<CourtMatchRow, 'updated_by'>): CourtMatch {
+  return {
+    ...row,
+    rules: row.rules as unknown as CourtRules,
+    points: (row.points ?? []) as unknown as CourtPoint[]
+  };
+}
+
+// Singles lines before doubles, then by line
+export function compareCourts(a: Pick<CourtMatch, 'format' | 'line'>, b: Pick<CourtMatch, 'format' | 'line'>) {
+  if (a.format !== b.format) return a.format === 'singles' ? -1 : 1;
+  return a.line - b.line;
+}
+
+export async function fetchCourtMatches(gameId: string): Promise<CourtMatch[]> {
+  const { data, error } = await supabase
+    .from('court_matches')
+    .select(COURT_COLUMNS)
+    .eq('game_id', gameId);
+
+  if (error) {
+    console.error('Error fetching court matches:', error);
+    throw error;
+  }
+
+  return (data ?? []).map(toCourtMatch).sort(compareCourts);
+}
+
+// Refreshes what the courts feed: every player's box score for the dual
+// match and courts won and lost as the match score. Players taken off a
+// court have their stats cleared.
+async function syncDualMatch(gameId: string, sport: RacketSport, formerPlayers: string[] = []) {
+  const courts = await fetchCourtMatches(gameId);
+  const players = [...new Set([...courts.flatMap(court => court.players), ...formerPlayers])];
+  const entries = players.flatMap(athleteId => getPlayerStats(athleteId, sport, courts));
+  if (entries.length > 0) await saveGameStats(gameId, entries);
+
+  const result = getDualMatchResult(courts);
+  const decided = result.us + result.them > 0;
+  const { error } = await supabase
+    .from('games')
+    .update({ team_score: decided ? result.us : null, opponent_score: decided ? result.them : null })
+    .eq('id', gameId);
+
+  if (error) {
+    console.error('Error updating dual match score:', error);
+    throw error;
+  }
+}
+
+function getResultFields(match: Pick<CourtMatch, 'rules' | 'format' | 'first_server' | 'points'>) {
+  const { state } = scoreCourtMatch(match);
+  return {
+    winner: state.winner,
+    score: formatCourtScore(state, match.rules.sport) || null
+  };
+}
+
+// Creates a court or changes its lineup and rules, keeping its points
+export async function saveCourtMatch(court: CourtMatch | null, input: CourtMatchInput): Promise<CourtMatch> {
+  const fields = {
+    format: input.format,
+    line: input.line,
+    players: input.players,
+    opponents: input.opponents.map(name => name.trim()).filter(Boolean),
+    rules: input.rules as unknown as CourtMatchRow['rules'],
+    first_server: input.firstServer,
+    ...getResultFields({
+      rules: input.rules,
+      format: input.format,
+      first_server: input.firstServer,
+      points: court?.points ?? []
+    })
+  };
+
+  const { data, error } = court
+    ? await supabase
+      .from('court_matches')
+      .update(fields)
+      .eq('id', court.id)
+      .select(COURT_COLUMNS)
+      .single()
+    : await supabase
+      .from('court_matches')
+      .insert({ game_id: input.gameId, ...fields })
+      .select(COURT_COLUMNS)
+      .single();
+
+  if (error) {
+    if (error.code === UNIQUE_VIOLATION) throw new Error('That court is already in this dual match');
+    console.error('Error saving court match:', error);
+    throw error;
+  }
+
+  await syncDualMatch(input.gameId, input.rules.sport, court?.players.filter(player => !input.players.includes(player)));
+  return toCourtMatch(data);
+}
+
+// Saves the point history after each point. Box scores and the dual match
+// result are refreshed when the court is decided or un-decided.
+export async function saveCourtPoints(court: CourtMatch, points: CourtPoint[]): Promise<CourtMatch> {
+  const result = getResultFields({ ...court, points });
+
+  const { data, error } = await supabase
+    .from('court_matches')
+    .update({ points: points as unknown as CourtMatchRow['points'], ...result })
+    .eq('id', court.id)
+    .select(COURT_COLUMNS)
+    .single();
+
+  if (error) {
+    console.error('Error saving points:', error);
+    throw error;
+  }
+
+  if (result.winner !== court.winner) {
+    await syncDualMatch(court.game_id, court.rules.sport);
+  }
+  return toCourtMatch(data);
+}
+
+export async function deleteCourtMatch(court: CourtMatch) {
+  const { error } = await supabase
+    .from('court_matches')
+    .delete()
+    .eq('id', court.id);
+
+  if (error) {
+    console.error('Error deleting court match:', error);
+    throw error;
+  }
+
+  await syncDualMatch(court.game_id, court.rules.sport, court.players);
+}
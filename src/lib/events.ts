@@ -0,0 +1,262 @@
+import { supabase } from '@/lib/supabase';
+import type { Database } from '@/lib/supabase-types';
+import type { SportDefinition } from '@/lib/sport-definitions';
+import type { HomeAway } from '@/lib/stats';
+
+type EventRow = Database['public']['Tables']['events']['Row'];
+type PracticeScheduleRow = Database['public']['Tables']['practice_schedules']['Row'];
+
+export interface TeamEvent extends Omit<EventRow, 'created_by' | 'created_at'> {
+  team_name: string;
+}
+
+export type PracticeSchedule = Omit<PracticeScheduleRow, 'created_by' | 'created_at'>;
+
+export interface NewTeamEvent {
+  teamId: string;
+  type: string;
+  opponent?: string;
+  location?: string;
+  startsAt: string;
+  endsAt: string;
+  homeAway?: HomeAway | null;
+  notes?: string;
+}
+
+export interface NewPracticeSchedule {
+  teamId: string;
+  eventType?: string;
+  // 0 = Sunday
+  weekdays: number[];
+  // HH:MM
+  startTime: string;
+  endTime: string;
+  startsOn: string;
+  endsOn: string;
+  location?: string;
+  notes?: string;
+}
+
+const ERROR_MESSAGES: Record<string, string> = {
+  not_authenticated: 'Please sign in to manage the schedule',
+  not_authorized: 'You can only manage the schedule for teams you coach',
+  not_found: 'That practice schedule no longer exists',
+  invalid_schedule: 'Pick at least one day, an end time after the start time and a date range of up to a year',
+  invalid_timezone: 'Your time zone is not recognized'
+};
+
+function toEventError(error: { message: string }) {
+  return ERROR_MESSAGES[error.message] ? new Error(ERROR_MESSAGES[error.message]) : null;
+}
+
+const EVENT_COLUMNS = 'id, team_id, type, opponent, location, starts_at, ends_at, home_away, notes, schedule_id, updated_at, teams (name)';
+
+type EventResponse = Omit<TeamEvent, 'team_name'> & {
+  teams: { name: string } | null;
+};
+
+function toTeamEvent({ teams, ...event }: EventResponse): TeamEvent {
+  return { ...event, team_name: teams?.name ?? '' };
+}
+
+// Event types that are sessions rather than competitions
+const PRACTICE_TYPES = new Set(['practice', 'practice_round', 'session', 'testing']);
+
+export function isPracticeType(type: string) {
+  return PRACTICE_TYPES.has(type);
+}
+
+// The sport's label for an event type, or the type in title case
+export function getEventTypeLabel(type: string, sport?: SportDefinition | null) {
+  const eventType = sport?.eventTypes.find(option => option.value === type);
+  if (eventType) return eventType.label;
+  return type
+    .split('_')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+// "Game vs Central" or "Game @ Central"
+export function getEventTitle(event: Pick<TeamEvent, 'type' | 'opponent' | 'home_away'>, sport?: SportDefinition | null) {
+  const label = getEventTypeLabel(event.type, sport);
+  if (!event.opponent) return label;
+  return `${label} ${event.home_away === 'away' ? '@' : 'vs'} ${event.opponent}`;
+}
+
+// The browser's IANA time zone, which practice schedule times are in
+export function getLocalTimeZone() {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+// Events for the given teams that overlap [from, to)
+export async function fetchTeamEvents(teamIds: string[], from: Date, to: Date): Promise<TeamEvent[]> {
+  if (teamIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('events')
+    .select(EVENT_COLUMNS)
+    .in('team_id', teamIds)
+    .lt('starts_at', to.toISOString())
+    .gt('ends_at', from.toISOString())
+    .order('starts_at');
+
+  if (error) {
+    console.error('Error fetching events:', error);
+    throw error;
+  }
+
+  return ((data ?? []) as unknown as EventResponse[]).map(toTeamEvent);
+}
+
+// The next events for a team, soonest first
+export async function fetchUpcomingEvents(teamIds: string[], limit = 5): Promise<TeamEvent[]> {
+  if (teamIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('events')
+    .select(EVENT_COLUMNS)
+    .in('team_id', teamIds)
+    .gt('ends_at', new Date().toISOString())
+    .order('starts_at')
+    .limit(limit);
+
+  if (error) {
+    console.error('Error fetching upcoming events:', error);
+    throw error;
+  }
+
+  return ((data ?? []) as unknown as EventResponse[]).map(toTeamEvent);
+}
+
+function toEventFields(event: Omit<NewTeamEvent, 'teamId'>) {
+  return {
+    type: event.type,
+    opponent: event.opponent?.trim() || null,
+    location: event.location?.trim() || null,
+    starts_at: event.startsAt,
+    ends_at: event.endsAt,
+    home_away: event.homeAway ?? null,
+    notes: event.notes?.trim() || null
+  };
+}
+
+export async function createEvent(event: NewTeamEvent) {
+  const { error } = await supabase
+    .from('events')
+    .insert({ team_id: event.teamId, ...toEventFields(event) });
+
+  if (error) {
+    console.error('Error creating event:', error);
+    throw error;
+  }
+}
+
+export async function updateEvent(eventId: string, event: Omit<NewTeamEvent, 'teamId'>) {
+  const { error } = await supabase
+    .from('events')
+    .update(toEventFields(event))
+    .eq('id', eventId);
+
+  if (error) {
+    console.error('Error updating event:', error);
+    throw error;
+  }
+}
+
+export async function deleteEvent(eventId: string) {
+  const { error } = await supabase
+    .from('events')
+    .delete()
+    .eq('id', eventId);
+
+  if (error) {
+    console.error('Error deleting event:', error);
+    throw error;
+  }
+}
+
+export async function fetchPracticeSchedules(teamId: string): Promise<PracticeSchedule[]> {
+  const { data, error } = await supabase
+    .from('practice_schedules')
+    .select('id, team_id, event_type, weekdays, start_time, end_time, starts_on, ends_on, timezone, location, notes')
+    .eq('team_id', teamId)
+    .order('starts_on', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching practice schedules:', error);
+    throw error;
+  }
+
+  return (data ?? []) as PracticeSchedule[];
+}
+
+// Creates the schedule and one event per session; returns how many events
+// were added
+export async function createPracticeSchedule(schedule: NewPracticeSchedule): Promise<number> {
+  const { data, error } = await supabase.rpc('create_practice_schedule', {
+    p_team_id: schedule.teamId,
+    p_weekdays: schedule.weekdays,
+    p_start_time: schedule.startTime,
+    p_end_time: schedule.endTime,
+    p_starts_on: schedule.startsOn,
+    p_ends_on: schedule.endsOn,
+    p_timezone: getLocalTimeZone(),
+    p_location: schedule.location ?? null,
+    p_notes: schedule.notes ?? null,
+    p_event_type: schedule.eventType ?? 'practice'
+  });
+
+  if (error) {
+    const eventError = toEventError(error);
+    if (eventError) throw eventError;
+    console.error('Error creating practice schedule:', error);
+    throw error;
+  }
+
+  return (data as { events: number }).events;
+}
+
+// Removes the schedule and its upcoming sessions; returns how many events
+// were deleted
+export async function deletePracticeSchedule(scheduleId: string): Promise<number> {
+  const { data, error } = await supabase.rpc('delete_practice_schedule', {
+    p_schedule_id: scheduleId
+  });
+
+  if (error) {
+    const eventError = toEventError(error);
+    if (eventError) throw eventError;
+    console.error('Error deleting practice schedule:', error);
+    throw error;
+  }
+
+  return data as number;
+}
+
+// The feed token for a team, or with no team the current athlete's own feed.
+// Resetting issues a new token so existing subscriptions stop updating.
+export async function getCalendarFeedToken(teamId: string | null, reset = false): Promise<string> {
+  const { data, error } = await supabase.rpc('calendar_feed_token', {
+    p_team_id: teamId,
+    p_reset: reset
+  });
+
+  if (error) {
+    const eventError = toEventError(error);
+    if (eventError) throw eventError;
+    console.error('Error fetching calendar feed:', error);
+    throw error;
+  }
+
+  return data as string;
+}
+
+// HTTPS address of the feed, for calendar apps that take a URL
+export function getCalendarFeedUrl(token: string) {
+  return `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/calendar-feed?token=${token}`;
+}
+
+// webcal:// opens the subscribe prompt on phones and desktop calendar apps
+export function getWebcalUrl(token: string) {
+  return getCalendarFeedUrl(token).replace(/^https?:\/\//, 'webcal://');
+}
@@ -0,0 +1,171 @@
+import { supabase } from '@/lib/supabase';
+import type { Database } from '@/lib/supabase-types';
+import { isBetterRecord, type MetricLookup, type RecordMark, type RecordMetric } from '@/lib/records';
+import { getToday } from '@/lib/seasons';
+
+type GoalRow = Database['public']['Tables']['goals']['Row'];
+
+export type Goal = Omit<GoalRow, 'updated_at'>;
+
+export interface NewGoal {
+  teamId: string;
+  // Null sets the goal for every athlete on the team
+  athleteId: string | null;
+  metric: RecordMetric;
+  target: number;
+  dueOn: string;
+  title?: string;
+}
+
+export type GoalStatus = 'achieved' | 'in_progress' | 'due_soon' | 'missed';
+
+export interface GoalProgress {
+  metric: RecordMetric;
+  // Best mark before the goal was set, or the first one after it
+  start: number | null;
+  current: number | null;
+  // Share of the way from start to target, 0-1
+  progress: number;
+  achievedOn: string | null;
+  status: GoalStatus;
+  daysLeft: number;
+}
+
+export const GOAL_STATUSES: { value: GoalStatus; label: string; className: string }[] = [
+  { value: 'achieved', label: 'Achieved', className: 'bg-emerald-500/20 text-emerald-400 border-emerald-500/30' },
+  { value: 'in_progress', label: 'In Progress', className: 'bg-blue-500/20 text-blue-400 border-blue-500/30' },
+  { value: 'due_soon', label: 'Due Soon', className: 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30' },
+  { value: 'missed', label: 'Missed', className: 'bg-red-500/20 text-red-400 border-red-500/30' }
+];
+
+// Goals due within this many days are flagged
+export const DUE_SOON_DAYS = 14;
+
+const GOAL_COLUMNS = 'id, team_id, athlete_id, source, metric_key, target, due_on, title, created_by, created_at';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function getGoalStatus(status: GoalStatus) {
+  return GOAL_STATUSES.find(option => option.value === status) ?? GOAL_STATUSES[1];
+}
+
+export function getGoalMetric(goal: Goal, getMetric: MetricLookup) {
+  return getMetric({ teamId: goal.team_id, source: goal.source, key: goal.metric_key });
+}
+
+// "Mile Run: 5:00" when the goal has no title of its own
+export function formatGoalTitle(goal: Goal, metric: RecordMetric | null) {
+  return goal.title || (metric ? `${metric.label}: ${metric.format(goal.target)}` : goal.metric_key);
+}
+
+export function meetsTarget(metric: RecordMetric, value: number, target: number) {
+  return value === target || isBetterRecord(metric, value, target);
+}
+
+// Where an athlete stands on a goal, from their recorded marks. Null when
+// the goal's metric is no longer known.
+export function getGoalProgress(
+  goal: Goal,
+  athleteId: string,
+  marks: RecordMark[],
+  getMetric: MetricLookup,
+  today = getToday()
+): GoalProgress | null {
+  const metric = getGoalMetric(goal, getMetric);
+  if (!metric) return null;
+
+  const history = marks
+    .filter(mark => mark.athleteId === athleteId && getMetric(mark)?.id === metric.id)
+    .sort((a, b) => a.date.localeCompare(b.date));
+  const best = (values: RecordMark[]) => values.reduce<number | null>(
+    (current, mark) => (current === null || isBetterRecord(metric, mark.value, current) ? mark.value : current),
+    null
+  );
+
+  const setOn = goal.created_at.slice(0, 10);
+  const before = history.filter(mark => mark.date < setOn);
+  const start = before.length > 0 ? best(before) : history[0]?.value ?? null;
+  const current = best(history);
+  const achievedOn = history.find(mark => meetsTarget(metric, mark.value, goal.target))?.date ?? null;
+
+  let progress = 0;
+  if (achievedOn) {
+    progress = 1;
+  } else if (start !== null && current !== null && start !== goal.target) {
+    progress = Math.min(1, Math.max(0, (current - start) / (goal.target - start)));
+  }
+
+  const daysLeft = Math.round((Date.parse(goal.due_on) - Date.parse(today)) / DAY_MS);
+  const status: GoalStatus = achievedOn
+    ? 'achieved'
+    : daysLeft < 0
+    ? 'missed'
+    : daysLeft <= DUE_SOON_DAYS
+    ? 'due_soon'
+    : 'in_progress';
+
+  return { metric, start, current, progress, achievedOn, status, daysLeft };
+}
+
+// "Due in 12 days", "Due today" or "3 days overdue"
+export function formatDaysLeft(daysLeft: number) {
+  if (daysLeft === 0) return 'Due today';
+  const days = Math.abs(daysLeft);
+  const label = `${days} ${days === 1 ? 'day' : 'days'}`;
+  return daysLeft > 0 ? `Due in ${label}` : `${label} overdue`;
+}
+
+// Goals on the given teams the user can see: athletes get their own and
+// their teams' goals, coaches get every goal on the teams they manage
+export async function fetchGoals(teamIds: string[]): Promise<Goal[]> {
+  if (teamIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('goals')
+    .select(GOAL_COLUMNS)
+    .in('team_id', teamIds)
+    .order('due_on');
+
+  if (error) {
+    console.error('Error fetching goals:', error);
+    throw error;
+  }
+
+  // numeric columns can arrive as strings
+  return ((data ?? []) as Goal[]).map(goal => ({ ...goal, target: Number(goal.target) }));
+}
+
+export async function createGoal(goal: NewGoal): Promise<Goal> {
+  const { data, error } = await supabase
+    .from('goals')
+    .insert({
+      team_id: goal.teamId,
+      athlete_id: goal.athleteId,
+      source: goal.metric.source,
+      metric_key: goal.metric.key,
+      target: goal.target,
+      due_on: goal.dueOn,
+      title: goal.title?.trim() || null
+    })
+    .select(GOAL_COLUMNS)
+    .single();
+
+  if (error) {
+    console.error('Error creating goal:', error);
+    throw error;
+  }
+
+  return { ...(data as Goal), target: Number(data.target) };
+}
+
+export async function deleteGoal(goalId: string) {
+  const { error } = await supabase
+    .from('goals')
+    .delete()
+    .eq('id', goalId);
+
+  if (error) {
+    console.error('Error deleting goal:', error);
+    throw error;
+  }
+}
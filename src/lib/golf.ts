@@ -0,0 +1,536 @@
+import { supabase } from '@/lib/supabase';
+import type { Database } from '@/lib/supabase-types';
+import { saveGameStats, type GameStatEntry } from '@/lib/stats';
+
+type CourseRow = Database['public']['Tables']['golf_courses']['Row'];
+type TeeRow = Database['public']['Tables']['golf_tees']['Row'];
+type RoundRow = Database['public']['Tables']['golf_rounds']['Row'];
+
+export const HOLE_COUNTS = [9, 18] as const;
+// Slope of a course of standard difficulty
+export const STANDARD_SLOPE = 113;
+export const MAX_HANDICAP_INDEX = 54;
+// Most recent 18-hole differentials a handicap index is drawn from
+export const HANDICAP_WINDOW = 20;
+// Team matches count the best four scores of up to five players
+export const MATCH_PLAYERS = 5;
+export const COUNTING_SCORES = 4;
+
+export type GolfTee = TeeRow;
+
+export interface GolfCourse extends Omit<CourseRow, 'organization_id' | 'created_by' | 'created_at' | 'updated_at'> {
+  // Longest tees first
+  tees: GolfTee[];
+}
+
+// fairway is null on par 3s and before it is entered
+export interface GolfHole {
+  strokes: number | null;
+  putts: number | null;
+  fairway: boolean | null;
+}
+
+export interface GolfRound extends Omit<RoundRow, 'holes' | 'created_by'> {
+  holes: GolfHole[];
+}
+
+export interface GolfRoundInput {
+  teamId: string;
+  athleteId: string;
+  teeId: string;
+  // The team match the round counts for, or null for other rounds
+  gameId: string | null;
+  playedOn: string;
+  holes: GolfHole[];
+}
+
+export interface GolfTeeInput {
+  // Existing tees keep their id so rounds played from them stay linked
+  id: string | null;
+  name: string;
+  yardages: number[];
+  courseRating: number;
+  slopeRating: number;
+}
+
+export interface GolfCourseInput {
+  name: string;
+  location?: string;
+  pars: number[];
+  strokeIndexes: number[];
+  tees: GolfTeeInput[];
+}
+
+// The course and tees a round was played from
+export interface RoundCourse {
+  course: GolfCourse;
+  tee: GolfTee;
+}
+
+export interface RoundStats {
+  holes: number;
+  strokes: number;
+  putts: number | null;
+  fairwaysHit: number;
+  fairwayChances: number;
+  greensInRegulation: number;
+}
+
+// How a completed round counted toward the handicap index
+export interface HandicapEntry {
+  adjustedGross: number;
+  // 9-hole rounds have one once paired with the next 9-hole round
+  differential: number | null;
+  // Whether the differential is among those averaged into the index
+  counted: boolean;
+}
+
+export interface HandicapRecord {
+  index: number | null;
+  // Differentials in the window the index is drawn from
+  scores: number;
+  entries: Map<string, HandicapEntry>;
+}
+
+// World Handicap System: how many of the lowest differentials are averaged
+// and the adjustment applied, by number of differentials on record
+const HANDICAP_TABLE: Record<number, { lowest: number; adjustment: number }> = {
+  3: { lowest: 1, adjustment: -2 },
+  4: { lowest: 1, adjustment: -1 },
+  5: { lowest: 1, adjustment: 0 },
+  6: { lowest: 2, adjustment: -1 },
+  7: { lowest: 2, adjustment: 0 },
+  8: { lowest: 2, adjustment: 0 },
+  9: { lowest: 3, adjustment: 0 },
+  10: { lowest: 3, adjustment: 0 },
+  11: { lowest: 3, adjustment: 0 },
+  12: { lowest: 4, adjustment: 0 },
+  13: { lowest: 4, adjustment: 0 },
+  14: { lowest: 4, adjustment: 0 },
+  15: { lowest: 5, adjustment: 0 },
+  16: { lowest: 5, adjustment: 0 },
+  17: { lowest: 6, adjustment: 0 },
+  18: { lowest: 6, adjustment: 0 },
+  19: { lowest: 7, adjustment: 0 },
+  20: { lowest: 8, adjustment: 0 }
+};
+
+const ERROR_MESSAGES: Record<string, string> = {
+  not_authenticated: 'Please sign in to manage courses',
+  not_authorized: 'Only coaches and admins can manage courses',
+  not_found: 'That course no longer exists',
+  invalid_course: 'Give the course a name, a par and unique stroke index for every hole, and at least one set of tees with yardages',
+  course_in_use: 'Rounds have been played on this course, so its number of holes cannot change',
+  tee_in_use: 'Tees that rounds were played from cannot be removed'
+};
+
+// Deleting a course whose tees have rounds violates the rounds' foreign key
+const FOREIGN_KEY_VIOLATION = '23503';
+
+function toGolfError(error: { message: string }) {
+  return ERROR_MESSAGES[error.message] ? new Error(ERROR_MESSAGES[error.message]) : null;
+}
+
+const roundToTenth = (value: number) => Math.round(value * 10) / 10;
+
+export function emptyScorecard(holes: number): GolfHole[] {
+  return Array.from({ length: holes }, () => ({ strokes: null, putts: null, fairway: null }));
+}
+
+export function getPar(pars: number[]) {
+  return pars.reduce((total, par) => total + par, 0);
+}
+
+export function getYards(yardages: number[]) {
+  return yardages.reduce((total, yards) => total + yards, 0);
+}
+
+// Drives only count toward fairways on par 4s and 5s
+export function isFairwayHole(par: number) {
+  return par > 3;
+}
+
+// On the green with two putts to spare for par
+export function isGreenInRegulation(hole: GolfHole, par: number) {
+  return hole.strokes !== null && hole.putts !== null && hole.strokes - hole.putts <= par - 2;
+}
+
+export function isRoundComplete(holes: GolfHole[], pars: number[]) {
+  return holes.length === pars.length && holes.every(hole => hole.strokes !== null);
+}
+
+export function getGrossScore(holes: GolfHole[]) {
+  return holes.reduce((total, hole) => total + (hole.strokes ?? 0), 0);
+}
+
+// "E", "+3" or "-2" against par for the holes played
+export function formatToPar(holes: GolfHole[], pars: number[]) {
+  const played = holes.map((hole, index) => (hole.strokes === null ? 0 : hole.strokes - pars[index]));
+  const diff = played.reduce((total, value) => total + value, 0);
+  return diff === 0 ? 'E' : diff > 0 ? `+${diff}` : String(diff);
+}
+
+// Plus handicaps are written with a leading "+"
+export function formatHandicapIndex(index: number | null) {
+  if (index === null) return '—';
+  return index < 0 ? `+${Math.abs(index).toFixed(1)}` : index.toFixed(1);
+}
+
+// Totals for the holes played so far. Putts are only totalled once entered
+// on every hole played.
+export function getRoundStats(holes: GolfHole[], pars: number[]): RoundStats {
+  const played = holes
+    .map((hole, index) => ({ hole, par: pars[index] }))
+    .filter(({ hole }) => hole.strokes !== null);
+  const fairwayHoles = played.filter(({ par }) => isFairwayHole(par));
+
+  return {
+    holes: played.length,
+    strokes: getGrossScore(holes),
+    putts: played.every(({ hole }) => hole.putts !== null)
+      ? played.reduce((total, { hole }) => total + (hole.putts ?? 0), 0)
+      : null,
+    fairwaysHit: fairwayHoles.filter(({ hole }) => hole.fairway === true).length,
+    fairwayChances: fairwayHoles.length,
+    greensInRegulation: played.filter(({ hole, par }) => isGreenInRegulation(hole, par)).length
+  };
+}
+
+// Strokes a player receives on the course: the index scaled by slope plus
+// the difference between course rating and par. 9-hole courses use half
+// the index.
+export function getCourseHandicap(index: number, tee: GolfTee, pars: number[]) {
+  const holeIndex = pars.length === 18 ? index : index / 2;
+  return Math.round(holeIndex * (tee.slope_rating / STANDARD_SLOPE) + (tee.course_rating - getPar(pars)));
+}
+
+// Handicap strokes on one hole, given from stroke index 1 upward. Plus
+// handicaps give strokes back from the easiest hole down.
+export function getHandicapStrokes(courseHandicap: number, strokeIndex: number, holes: number) {
+  if (courseHandicap < 0) {
+    const back = -courseHandicap;
+    return (strokeIndex > holes - (back % holes) ? -1 : 0) - Math.floor(back / holes);
+  }
+  return Math.floor(courseHandicap / holes) + (strokeIndex <= courseHandicap % holes ? 1 : 0);
+}
+
+// Highest score that counts for handicap on a hole: net double bogey, or
+// par plus five before a player has a handicap index
+export function getMaxHoleScore(par: number, handicapStrokes: number | null) {
+  return handicapStrokes === null ? par + 5 : par + 2 + handicapStrokes;
+}
+
+export function getAdjustedGrossScore(holes: GolfHole[], { course, tee }: RoundCourse, index: number | null) {
+  const courseHandicap = index === null ? null : getCourseHandicap(index, tee, course.pars);
+  return holes.reduce((total, hole, position) => {
+    const strokes = courseHandicap === null
+      ? null
+      : getHandicapStrokes(courseHandicap, course.stroke_indexes[position], course.pars.length);
+    return total + Math.min(hole.strokes ?? 0, getMaxHoleScore(course.pars[position], strokes));
+  }, 0);
+}
+
+// Score differential against the tees played, to one decimal
+export function getScoreDifferential(adjustedGross: number, tee: GolfTee) {
+  return roundToTenth((STANDARD_SLOPE / tee.slope_rating) * (adjustedGross - tee.course_rating));
+}
+
+// Handicap index from 18-hole differentials, oldest first. Uses the most
+// recent twenty; fewer than three gives no index. Returns the positions of
+// the differentials averaged in.
+export function calculateHandicapIndex(differentials: number[]) {
+  const recent = differentials.slice(-HANDICAP_WINDOW);
+  const rule = HANDICAP_TABLE[recent.length];
+  if (!rule) return { index: null, counted: [] as number[] };
+
+  const offset = differentials.length - recent.length;
+  const counted = recent
+    .map((differential, position) => ({ differential, position: offset + position }))
+    .sort((a, b) => a.differential - b.differential)
+    .slice(0, rule.lowest);
+  const average = counted.reduce((total, entry) => total + entry.differential, 0) / counted.length;
+
+  return {
+    index: Math.min(roundToTenth(average + rule.adjustment), MAX_HANDICAP_INDEX),
+    counted: counted.map(entry => entry.position)
+  };
+}
+
+// Replays a player's completed rounds in the order played. Each round is
+// adjusted with the index the player held going into it, and 9-hole rounds
+// are paired in order into 18-hole differentials. Caps and exceptional
+// score reductions are not applied.
+export function buildHandicapRecord(
+  rounds: GolfRound[],
+  getRoundCourse: (round: GolfRound) => RoundCourse | undefined
+): HandicapRecord {
+  const entries = new Map<string, HandicapEntry>();
+  const differentials: { value: number; roundIds: string[] }[] = [];
+  let index: number | null = null;
+  let pendingNine: { roundId: string; value: number } | null = null;
+
+  const ordered = [...rounds].sort((a, b) =>
+    a.played_on.localeCompare(b.played_on) || a.created_at.localeCompare(b.created_at)
+  );
+
+  for (const round of ordered) {
+    const played = getRoundCourse(round);
+    if (!played || !isRoundComplete(round.holes, played.course.pars)) continue;
+
+    const adjustedGross = getAdjustedGrossScore(round.holes, played, index);
+    const differential = getScoreDifferential(adjustedGross, played.tee);
+
+    if (played.course.pars.length === 18) {
+      differentials.push({ value: differential, roundIds: [round.id] });
+      entries.set(round.id, { adjustedGross, differential, counted: false });
+    } else if (pendingNine) {
+      const combined = roundToTenth(pendingNine.value + differential);
+      differentials.push({ value: combined, roundIds: [pendingNine.roundId, round.id] });
+      entries.set(pendingNine.roundId, { ...entries.get(pendingNine.roundId)!, differential: combined });
+      entries.set(round.id, { adjustedGross, differential: combined, counted: false });
+      pendingNine = null;
+    } else {
+      pendingNine = { roundId: round.id, value: differential };
+      entries.set(round.id, { adjustedGross, differential: null, counted: false });
+    }
+
+    index = calculateHandicapIndex(differentials.map(entry => entry.value)).index;
+  }
+
+  const { counted } = calculateHandicapIndex(differentials.map(entry => entry.value));
+  for (const position of counted) {
+    for (const roundId of differentials[position].roundIds) {
+      entries.set(roundId, { ...entries.get(roundId)!, counted: true });
+    }
+  }
+
+  return {
+    index,
+    scores: Math.min(differentials.length, HANDICAP_WINDOW),
+    entries
+  };
+}
+
+// Rounds whose scores count toward the team total: the lowest four
+// complete scores
+export function getCountingRounds(rounds: Pick<GolfRound, 'id' | 'score'>[]) {
+  return new Set(
+    rounds
+      .filter(round => round.score !== null)
+      .sort((a, b) => (a.score ?? 0) - (b.score ?? 0))
+      .slice(0, COUNTING_SCORES)
+      .map(round => round.id)
+  );
+}
+
+// Team score for a match, or null until four players have finished
+export function getTeamScore(rounds: Pick<GolfRound, 'id' | 'score'>[]) {
+  const counting = rounds.filter(round => getCountingRounds(rounds).has(round.id));
+  if (counting.length < COUNTING_SCORES) return null;
+  return counting.reduce((total, round) => total + (round.score ?? 0), 0);
+}
+
+// A player's stat values for a match in the sport's stat keys, all null
+// when the round was removed
+export function getMatchStats(athleteId: string, holes: GolfHole[] | null, pars: number[]): GameStatEntry[] {
+  const stats = holes ? getRoundStats(holes, pars) : null;
+  const complete = holes !== null && isRoundComplete(holes, pars);
+  const values: Record<string, number | null> = {
+    strokes: complete && stats ? stats.strokes : null,
+    putts: complete && stats ? stats.putts : null,
+    holes: stats ? stats.holes : null,
+    fairways_hit: stats ? stats.fairwaysHit : null,
+    fairway_chances: stats ? stats.fairwayChances : null,
+    greens_in_regulation: stats ? stats.greensInRegulation : null
+  };
+  return Object.entries(values).map(([statKey, value]) => ({ athleteId, statKey, value }));
+}
+
+const COURSE_COLUMNS = `
+  id,
+  name,
+  location,
+  pars,
+  stroke_indexes,
+  golf_tees (id, course_id, name, yardages, course_rating, slope_rating)
+`;
+
+const ROUND_COLUMNS = 'id, team_id, athlete_id, tee_id, game_id, played_on, holes, score, created_at, updated_at';
+
+type CourseResponse = Omit<GolfCourse, 'tees'> & { golf_tees: GolfTee[] };
+
+function toGolfRound(row: Omit<RoundRow, 'created_by'>): GolfRound {
+  return { ...row, holes: (row.holes ?? []) as unknown as GolfHole[] };
+}
+
+// Tees by id across the library, with their course
+export function indexTees(courses: GolfCourse[]) {
+  return new Map<string, RoundCourse>(
+    courses.flatMap(course => course.tees.map(tee => [tee.id, { course, tee }] as const))
+  );
+}
+
+export async function fetchGolfCourses(): Promise<GolfCourse[]> {
+  const { data, error } = await supabase
+    .from('golf_courses')
+    .select(COURSE_COLUMNS)
+    .order('name');
+
+  if (error) {
+    console.error('Error fetching golf courses:', error);
+    throw error;
+  }
+
+  return ((data ?? []) as unknown as CourseResponse[]).map(({ golf_tees, ...course }) => ({
+    ...course,
+    tees: [...golf_tees].sort((a, b) => getYards(b.yardages) - getYards(a.yardages))
+  }));
+}
+
+// Creates the course, or updates it and its tees; returns the course id
+export async function saveGolfCourse(courseId: string | null, course: GolfCourseInput): Promise<string> {
+  const { data, error } = await supabase.rpc('save_golf_course', {
+    p_course_id: courseId,
+    p_name: course.name,
+    p_location: course.location ?? null,
+    p_pars: course.pars,
+    p_stroke_indexes: course.strokeIndexes,
+    p_tees: course.tees.map(tee => ({
+      id: tee.id,
+      name: tee.name,
+      yardages: tee.yardages,
+      course_rating: tee.courseRating,
+      slope_rating: tee.slopeRating
+    }))
+  });
+
+  if (error) {
+    const golfError = toGolfError(error);
+    if (golfError) throw golfError;
+    console.error('Error saving golf course:', error);
+    throw error;
+  }
+
+  return data as string;
+}
+
+export async function deleteGolfCourse(courseId: string) {
+  const { error } = await supabase
+    .from('golf_courses')
+    .delete()
+    .eq('id', courseId);
+
+  if (error) {
+    if (error.code === FOREIGN_KEY_VIOLATION) {
+      throw new Error('Rounds have been played on this course, so it cannot be deleted');
+    }
+    console.error('Error deleting golf course:', error);
+    throw error;
+  }
+}
+
+export async function fetchGolfRounds(teamId: string): Promise<GolfRound[]> {
+  const { data, error } = await supabase
+    .from('golf_rounds')
+    .select(ROUND_COLUMNS)
+    .eq('team_id', teamId)
+    .order('played_on', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching golf rounds:', error);
+    throw error;
+  }
+
+  return (data ?? []).map(toGolfRound);
+}
+
+export async function fetchMatchRounds(gameId: string): Promise<GolfRound[]> {
+  const { data, error } = await supabase
+    .from('golf_rounds')
+    .select(ROUND_COLUMNS)
+    .eq('game_id', gameId)
+    .order('created_at');
+
+  if (error) {
+    console.error('Error fetching match rounds:', error);
+    throw error;
+  }
+
+  return (data ?? []).map(toGolfRound);
+}
+
+// Refreshes what a match scorecard feeds: the player's box score and the
+// team's counting total as the match score
+async function syncMatch(gameId: string, athleteId: string, holes: GolfHole[] | null, pars: number[]) {
+  await saveGameStats(gameId, getMatchStats(athleteId, holes, pars));
+
+  const { data, error } = await supabase
+    .from('golf_rounds')
+    .select('id, score')
+    .eq('game_id', gameId);
+
+  if (error) {
+    console.error('Error fetching match rounds:', error);
+    throw error;
+  }
+
+  const { error: updateError } = await supabase
+    .from('games')
+    .update({ team_score: getTeamScore(data ?? []) })
+    .eq('id', gameId);
+
+  if (updateError) {
+    console.error('Error updating match score:', updateError);
+    throw updateError;
+  }
+}
+
+// Creates or updates a scorecard; the gross score is kept once every hole
+// is in
+export async function saveGolfRound(roundId: string | null, round: GolfRoundInput, pars: number[]): Promise<GolfRound> {
+  const fields = {
+    tee_id: round.teeId,
+    played_on: round.playedOn,
+    holes: round.holes as unknown as RoundRow['holes'],
+    score: isRoundComplete(round.holes, pars) ? getGrossScore(round.holes) : null
+  };
+
+  const { data, error } = roundId
+    ? await supabase
+      .from('golf_rounds')
+      .update(fields)
+      .eq('id', roundId)
+      .select(ROUND_COLUMNS)
+      .single()
+    : await supabase
+      .from('golf_rounds')
+      .insert({ team_id: round.teamId, athlete_id: round.athleteId, game_id: round.gameId, ...fields })
+      .select(ROUND_COLUMNS)
+      .single();
+
+  if (error) {
+    console.error('Error saving golf round:', error);
+    throw error;
+  }
+
+  if (round.gameId) {
+    await syncMatch(round.gameId, round.athleteId, round.holes, pars);
+  }
+  return toGolfRound(data);
+}
+
+export async function deleteGolfRound(round: GolfRound) {
+  const { error } = await supabase
+    .from('golf_rounds')
+    .delete()
+    .eq('id', round.id);
+
+  if (error) {
+    console.error('Error deleting golf round:', error);
+    throw error;
+  }
+
+  if (round.game_id) {
+    await syncMatch(round.game_id, round.athlete_id, null, []);
+  }
+}
@@ -0,0 +1,222 @@
+import { supabase } from '@/lib/supabase';
+import type { Database } from '@/lib/supabase-types';
+import {
+  createAccessCodes,
+  toAccessCodeError,
+  type AccessCodeRole
+} from '@/lib/access-codes';
+import { getTeamCodeGender, type Team } from '@/lib/teams';
+import { isValidEmail } from '@/lib/utils';
+
+export type InvitationStatus = Database['public']['Tables']['invitations']['Row']['status'];
+
+export interface Invitation {
+  id: string;
+  email: string;
+  full_name: string | null;
+  status: InvitationStatus;
+  send_count: number;
+  last_error: string | null;
+  sent_at: string | null;
+  opened_at: string | null;
+  accepted_at: string | null;
+  created_at: string;
+  code: string;
+  role: AccessCodeRole;
+  sport_name: string | null;
+  team_name: string | null;
+  gender: 'male' | 'female' | null;
+}
+
+export interface InvitationRecipient {
+  email: string;
+  full_name?: string | null;
+  // Applied to the roster entry created when the invitation is accepted
+  roster_details?: {
+    grad_year?: number | null;
+    position?: string | null;
+    jersey_number?: string | null;
+  };
+}
+
+export interface InvitationOptions {
+  role: AccessCodeRole;
+  // The team invitees join; admin invitations have none
+  team: Pick<Team, 'id' | 'sport_id' | 'gender'> | null;
+  organizationId?: string | null;
+  expiresAt: string | null;
+}
+
+export interface SendInvitationsResult {
+  sent: number;
+  failed: number;
+  skipped: number;
+}
+
+export const MAX_INVITATIONS = 100;
+
+// Splits pasted text on commas, semicolons and whitespace. Emails are
+// lower-cased and de-duplicated; anything that is not an email is returned
+// separately so it can be shown to the user.
+export function parseEmailList(input: string) {
+  const valid = new Set<string>();
+  const invalid = new Set<string>();
+
+  for (const entry of input.split(/[\s,;]+/)) {
+    const email = entry.trim().toLowerCase();
+    if (!email) continue;
+    (isValidEmail(email) ? valid : invalid).add(email);
+  }
+
+  return { valid: [...valid], invalid: [...invalid] };
+}
+
+// Invitations with these statuses can still be resent or cancelled
+export function isInvitationOpen(status: InvitationStatus) {
+  return status === 'pending' || status === 'sent' || status === 'opened' || status === 'failed';
+}
+
+// Delivers (or redelivers) invitations through the send-invitations edge
+// function
+export async function sendInvitations(invitationIds: string[]): Promise<SendInvitationsResult> {
+  const { data, error } = await supabase.functions.invoke('send-invitations', {
+    body: { invitation_ids: invitationIds }
+  });
+
+  if (error) {
+    console.error('Error sending invitations:', error);
+    throw error;
+  }
+
+  return data as SendInvitationsResult;
+}
+
+// Generates a single-use code per recipient, records the invitations and
+// sends them
+export async function createInvitations(
+  recipients: InvitationRecipient[],
+  options: InvitationOptions
+): Promise<SendInvitationsResult> {
+  if (recipients.length === 0) throw new Error('Please enter at least one email address');
+  if (recipients.length > MAX_INVITATIONS) {
+    throw new Error(`You can send up to ${MAX_INVITATIONS} invitations at a time`);
+  }
+
+  const { data: userData } = await supabase.auth.getUser();
+  if (!userData?.user?.id) throw new Error('Authentication required');
+  const userId = userData.user.id;
+
+  const codes = await createAccessCodes(
+    recipients.map(() => ({
+      role: options.role,
+      team_id: options.team?.id ?? null,
+      sport_id: options.team?.sport_id ?? null,
+      gender: options.team ? getTeamCodeGender(options.team) : null,
+      organization_id: options.organizationId ?? null,
+      expires_at: options.expiresAt,
+      max_uses: 1,
+      created_by: userId
+    }))
+  );
+
+  const { data, error } = await supabase
+    .from('invitations')
+    .insert(recipients.map((recipient, index) => ({
+      email: recipient.email,
+      full_name: recipient.full_name ?? null,
+      roster_details: recipient.roster_details ?? {},
+      access_code_id: codes[index].id,
+      invited_by: userId
+    })))
+    .select('id');
+
+  if (error) {
+    console.error('Error creating invitations:', error);
+    throw error;
+  }
+
+  return sendInvitations(data.map(row => row.id));
+}
+
+// Invitations the user can see, newest first: their own, or the whole
+// organization's for admins
+export async function fetchInvitations(limit = 50): Promise<Invitation[]> {
+  const { data, error } = await supabase
+    .from('invitations')
+    .select(`
+      id,
+      email,
+      full_name,
+      status,
+      send_count,
+      last_error,
+      sent_at,
+      opened_at,
+      accepted_at,
+      created_at,
+      access_codes (code, role, gender, sports (name), teams (name))
+    `)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error('Error fetching invitations:', error);
+    throw error;
+  }
+
+  // Many-to-one joins come back as single objects at runtime
+  const rows = (data ?? []) as unknown as (Omit<Invitation, 'code' | 'role' | 'sport_name' | 'team_name' | 'gender'> & {
+    access_codes: {
+      code: string;
+      role: AccessCodeRole;
+      gender: 'male' | 'female' | null;
+      sports: { name: string } | null;
+      teams: { name: string } | null;
+    };
+  })[];
+
+  return rows.map(row => ({
+    id: row.id,
+    email: row.email,
+    full_name: row.full_name,
+    status: row.status,
+    send_count: row.send_count,
+    last_error: row.last_error,
+    sent_at: row.sent_at,
+    opened_at: row.opened_at,
+    accepted_at: row.accepted_at,
+    created_at: row.created_at,
+    code: row.access_codes.code,
+    role: row.access_codes.role,
+    sport_name: row.access_codes.sports?.name ?? null,
+    team_name: row.access_codes.teams?.name ?? null,
+    gender: row.access_codes.gender
+  }));
+}
+
+// Cancels the invitation and revokes its code so the emailed link stops
+// working
+export async function cancelInvitation(invitationId: string) {
+  const { error } = await supabase.rpc('cancel_invitation', {
+    p_invitation_id: invitationId
+  });
+
+  if (error) {
+    const accessCodeError = toAccessCodeError(error);
+    if (accessCodeError) throw accessCodeError;
+    console.error('Error cancelling invitation:', error);
+    throw error;
+  }
+}
+
+// Records that an emailed link was followed. Failures are only logged since
+// they should never block joining.
+export async function markInvitationOpened(token: string) {
+  const { error } = await supabase.rpc('mark_invitation_opened', {
+    p_token: token
+  });
+
+  if (error) {
+    console.error('Error marking invitation opened:', error);
+  }
+}
@@ -0,0 +1,342 @@
+import { supabase } from '@/lib/supabase';
+import type { Database } from '@/lib/supabase-types';
+import type { MetricDefinition } from '@/lib/sport-definitions';
+
+type TestSessionRow = Database['public']['Tables']['test_sessions']['Row'];
+
+export type TestSession = Omit<TestSessionRow, 'created_by' | 'updated_at'>;
+
+export interface NewTestSession {
+  teamId: string;
+  name: string;
+  testedOn: string;
+  testKeys: string[];
+  notes?: string;
+}
+
+export interface TestResult {
+  session_id: string;
+  athlete_id: string;
+  test_key: string;
+  value: number;
+}
+
+// A mark to save from the results grid; null clears it
+export interface TestResultEntry {
+  athleteId: string;
+  testKey: string;
+  value: number | null;
+}
+
+// One athlete's mark on a testing day, oldest first in a history
+export interface TestMark {
+  session: TestSession;
+  value: number;
+  // Better than every earlier mark; an athlete's first mark is a baseline
+  isPersonalRecord: boolean;
+}
+
+export interface TestHistory {
+  sessions: TestSession[];
+  results: TestResult[];
+}
+
+const SESSION_COLUMNS = 'id, team_id, name, tested_on, test_keys, notes, created_at';
+
+export const resultKey = (result: Pick<TestResult, 'session_id' | 'athlete_id' | 'test_key'>) =>
+  `${result.session_id}:${result.athlete_id}:${result.test_key}`;
+
+// The library definition for a stored test key. Keys a sport no longer
+// lists still display, without a unit.
+export function getTestDefinition(tests: MetricDefinition[], key: string): MetricDefinition {
+  return tests.find(test => test.key === key) ?? {
+    key,
+    label: key.split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' '),
+    unit: ''
+  };
+}
+
+export function isBetterMark(test: MetricDefinition, value: number, than: number) {
+  return test.lowerIsBetter ? value < than : value > than;
+}
+
+export function getBestMark(test: MetricDefinition, values: number[]): number | null {
+  if (values.length === 0) return null;
+  return test.lowerIsBetter ? Math.min(...values) : Math.max(...values);
+}
+
+// A mark as it is typed in the grid. Times of a minute or more read as
+// m:ss, e.g. a mile of 332.4 is "5:32.4".
+export function formatTestInput(test: MetricDefinition, value: number) {
+  if (test.unit === 's' && value >= 60) {
+    const minutes = Math.floor(value / 60);
+    const seconds = Math.round((value - minutes * 60) * 100) / 100;
+    const [whole, fraction] = String(seconds).split('.');
+    return `${minutes}:${whole.padStart(2, '0')}${fraction ? `.${fraction}` : ''}`;
+  }
+  return String(Math.round(value * 100) / 100);
+}
+
+export function formatTestValue(test: MetricDefinition, value: number | null | undefined) {
+  if (value === null || value === undefined) return '—';
+
+  const formatted = formatTestInput(test, value);
+  return test.unit && !formatted.includes(':') ? `${formatted} ${test.unit}` : formatted;
+}
+
+// Parses a grid cell: blank is null, times may be typed as m:ss
+export function parseTestInput(input: string): number | null {
+  const trimmed = input.trim();
+  if (trimmed === '') return null;
+
+  const match = trimmed.match(/^(\d+):([0-5]?\d(?:\.\d+)?)$/);
+  const value = match ? Number(match[1]) * 60 + Number(match[2]) : Number(trimmed);
+  if (!Number.isFinite(value) || value < 0) throw new Error(`"${input}" is not a valid mark`);
+  return value;
+}
+
+function compareSessions(a: TestSession, b: TestSession) {
+  return a.tested_on.localeCompare(b.tested_on) || a.created_at.localeCompare(b.created_at);
+}
+
+// One athlete's marks for a test in the order they were set, flagging each
+// one that beat everything before it
+export function getAthleteHistory(
+  test: MetricDefinition,
+  athleteId: string,
+  { sessions, results }: TestHistory
+): TestMark[] {
+  const sessionsById = new Map(sessions.map(session => [session.id, session]));
+  const marks = results
+    .filter(result => result.athlete_id === athleteId && result.test_key === test.key)
+    .flatMap(result => {
+      const session = sessionsById.get(result.session_id);
+      return session ? [{ session, value: result.value }] : [];
+    })
+    .sort((a, b) => compareSessions(a.session, b.session));
+
+  let best: number | null = null;
+  return marks.map(mark => {
+    const isPersonalRecord = best !== null && isBetterMark(test, mark.value, best);
+    if (best === null || isBetterMark(test, mark.value, best)) best = mark.value;
+    return { ...mark, isPersonalRecord };
+  });
+}
+
+// An athlete's best mark from testing days before the given one, which a
+// mark on that day has to beat to be a personal record
+export function getPriorBest(
+  test: MetricDefinition,
+  athleteId: string,
+  session: TestSession,
+  { sessions, results }: TestHistory
+): number | null {
+  const earlier = new Set(
+    sessions.filter(other => compareSessions(other, session) < 0).map(other => other.id)
+  );
+  return getBestMark(
+    test,
+    results
+      .filter(result =>
+        result.athlete_id === athleteId && result.test_key === test.key && earlier.has(result.session_id)
+      )
+      .map(result => result.value)
+  );
+}
+
+// Keys (see resultKey) of every result that set a personal record
+export function findPersonalRecords(tests: MetricDefinition[], history: TestHistory): Set<string> {
+  const records = new Set<string>();
+  const pairs = new Set(history.results.map(result => `${result.athlete_id}:${result.test_key}`));
+
+  for (const pair of pairs) {
+    const [athleteId, testKey] = pair.split(':');
+    for (const mark of getAthleteHistory(getTestDefinition(tests, testKey), athleteId, history)) {
+      if (mark.isPersonalRecord) {
+        records.add(resultKey({ session_id: mark.session.id, athlete_id: athleteId, test_key: testKey }));
+      }
+    }
+  }
+  return records;
+}
+
+// Each athlete's best mark for a test
+export function getBestMarks(test: MetricDefinition, results: TestResult[]): Map<string, number> {
+  const best = new Map<string, number>();
+  for (const result of results) {
+    if (result.test_key !== test.key) continue;
+    const current = best.get(result.athlete_id);
+    if (current === undefined || isBetterMark(test, result.value, current)) {
+      best.set(result.athlete_id, result.value);
+    }
+  }
+  return best;
+}
+
+// Share of the group a mark is at least as good as, with ties counting
+// half, from 0 to 100. Null when there is nobody to compare against.
+export function getPercentile(test: MetricDefinition, value: number, marks: number[]): number | null {
+  if (marks.length === 0) return null;
+  const beaten = marks.filter(mark => isBetterMark(test, value, mark)).length;
+  const tied = marks.filter(mark => mark === value).length;
+  return Math.round(((beaten + tied / 2) / marks.length) * 100);
+}
+
+export async function fetchTestSessions(teamId: string): Promise<TestSession[]> {
+  const { data, error } = await supabase
+    .from('test_sessions')
+    .select(SESSION_COLUMNS)
+    .eq('team_id', teamId)
+    .order('tested_on', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching testing days:', error);
+    throw error;
+  }
+
+  return data ?? [];
+}
+
+export async function createTestSession(session: NewTestSession): Promise<TestSession> {
+  const { data, error } = await supabase
+    .from('test_sessions')
+    .insert({
+      team_id: session.teamId,
+      name: session.name.trim(),
+      tested_on: session.testedOn,
+      test_keys: session.testKeys,
+      notes: session.notes?.trim() || null
+    })
+    .select(SESSION_COLUMNS)
+    .single();
+
+  if (error) {
+    console.error('Error creating testing day:', error);
+    throw error;
+  }
+
+  return data as TestSession;
+}
+
+export async function deleteTestSession(sessionId: string) {
+  const { error } = await supabase
+    .from('test_sessions')
+    .delete()
+    .eq('id', sessionId);
+
+  if (error) {
+    console.error('Error deleting testing day:', error);
+    throw error;
+  }
+}
+
+export async function fetchTestResults(sessionId: string): Promise<TestResult[]> {
+  const { data, error } = await supabase
+    .from('test_results')
+    .select('session_id, athlete_id, test_key, value')
+    .eq('session_id', sessionId);
+
+  if (error) {
+    console.error('Error fetching test results:', error);
+    throw error;
+  }
+
+  // numeric columns can arrive as strings
+  return (data ?? []).map(row => ({ ...row, value: Number(row.value) }));
+}
+
+type HistoryResponse = TestResult & {
+  test_sessions: TestSession | null;
+};
+
+// Every mark the given athletes have set on any team the user can see, so
+// records carry over from earlier seasons
+export async function fetchTestHistory(athleteIds: string[]): Promise<TestHistory> {
+  if (athleteIds.length === 0) return { sessions: [], results: [] };
+
+  const { data, error } = await supabase
+    .from('test_results')
+    .select(`session_id, athlete_id, test_key, value, test_sessions (${SESSION_COLUMNS})`)
+    .in('athlete_id', athleteIds);
+
+  if (error) {
+    console.error('Error fetching test history:', error);
+    throw error;
+  }
+
+  const rows = (data ?? []) as unknown as HistoryResponse[];
+  const sessions = new Map<string, TestSession>();
+  for (const row of rows) {
+    if (row.test_sessions) sessions.set(row.test_sessions.id, row.test_sessions);
+  }
+
+  return {
+    sessions: [...sessions.values()],
+    results: rows.map(({ session_id, athlete_id, test_key, value }) => ({
+      session_id,
+      athlete_id,
+      test_key,
+      value: Number(value)
+    }))
+  };
+}
+
+// Best marks of every athlete in the organization, without who set them
+export async function fetchOrganizationMarks(test: MetricDefinition): Promise<number[]> {
+  const { data, error } = await supabase.rpc('organization_test_marks', {
+    p_test_key: test.key,
+    p_lower_is_better: !!test.lowerIsBetter
+  });
+
+  if (error) {
+    console.error('Error fetching organization marks:', error);
+    throw error;
+  }
+
+  return ((data ?? []) as (number | string)[]).map(Number);
+}
+
+// Writes changed cells from the results grid: marks are upserted and
+// cleared cells are deleted
+export async function saveTestResults(sessionId: string, entries: TestResultEntry[]) {
+  const upserts = entries
+    .filter(entry => entry.value !== null)
+    .map(entry => ({
+      session_id: sessionId,
+      athlete_id: entry.athleteId,
+      test_key: entry.testKey,
+      value: entry.value as number
+    }));
+
+  if (upserts.length > 0) {
+    const { error } = await supabase
+      .from('test_results')
+      .upsert(upserts, { onConflict: 'session_id,athlete_id,test_key' });
+
+    if (error) {
+      console.error('Error saving test results:', error);
+      throw error;
+    }
+  }
+
+  const cleared = new Map<string, string[]>();
+  for (const entry of entries) {
+    if (entry.value === null) {
+      cleared.set(entry.athleteId, [...(cleared.get(entry.athleteId) ?? []), entry.testKey]);
+    }
+  }
+
+  for (const [athleteId, testKeys] of cleared) {
+    const { error } = await supabase
+      .from('test_results')
+      .delete()
+      .eq('session_id', sessionId)
+      .eq('athlete_id', athleteId)
+      .in('test_key', testKeys);
+
+    if (error) {
+      console.error('Error clearing test results:', error);
+      throw error;
+    }
+  }
+}
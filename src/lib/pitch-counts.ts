@@ -0,0 +1,145 @@
+import { fetchTeamGameStats } from '@/lib/stats';
+import { getToday } from '@/lib/seasons';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A baseball pitch count rule: the most pitches allowed in a day and the
+// calendar days of rest required after an outing, by pitches thrown
+export interface PitchCountRule {
+  key: string;
+  label: string;
+  maxPitches: number;
+  // Bands in ascending order; the first one the count fits under applies
+  rest: { upTo: number; days: number }[];
+}
+
+const PITCH_SMART_YOUTH = [
+  { upTo: 20, days: 0 },
+  { upTo: 35, days: 1 },
+  { upTo: 50, days: 2 },
+  { upTo: 65, days: 3 },
+  { upTo: Infinity, days: 4 }
+];
+
+const PITCH_SMART_15_16 = [
+  { upTo: 30, days: 0 },
+  { upTo: 45, days: 1 },
+  { upTo: 60, days: 2 },
+  { upTo: 75, days: 3 },
+  { upTo: Infinity, days: 4 }
+];
+
+const PITCH_SMART_17_18 = [
+  { upTo: 30, days: 0 },
+  { upTo: 45, days: 1 },
+  { upTo: 60, days: 2 },
+  { upTo: 80, days: 3 },
+  { upTo: Infinity, days: 4 }
+];
+
+export const PITCH_COUNT_RULES: PitchCountRule[] = [
+  {
+    key: 'high_school',
+    label: 'High school (110 max)',
+    maxPitches: 110,
+    rest: [
+      { upTo: 30, days: 0 },
+      { upTo: 50, days: 1 },
+      { upTo: 75, days: 2 },
+      { upTo: Infinity, days: 3 }
+    ]
+  },
+  { key: 'pitch_smart_17_18', label: 'Pitch Smart 17–18', maxPitches: 105, rest: PITCH_SMART_17_18 },
+  { key: 'pitch_smart_15_16', label: 'Pitch Smart 15–16', maxPitches: 95, rest: PITCH_SMART_15_16 },
+  { key: 'pitch_smart_13_14', label: 'Pitch Smart 13–14', maxPitches: 95, rest: PITCH_SMART_YOUTH },
+  { key: 'pitch_smart_11_12', label: 'Pitch Smart 11–12', maxPitches: 85, rest: PITCH_SMART_YOUTH },
+  { key: 'pitch_smart_9_10', label: 'Pitch Smart 9–10', maxPitches: 75, rest: PITCH_SMART_YOUTH }
+];
+
+export interface PitchingOuting {
+  gameId: string;
+  opponent: string;
+  playedOn: string;
+  pitches: number;
+}
+
+export type ComplianceIssue =
+  | { kind: 'over_limit'; outing: PitchingOuting }
+  | { kind: 'short_rest'; outing: PitchingOuting; previous: PitchingOuting; requiredDays: number };
+
+export interface PitcherStatus {
+  athleteId: string;
+  // Oldest first
+  outings: PitchingOuting[];
+  // First day the pitcher may pitch again, or null when they already can
+  availableOn: string | null;
+  issues: ComplianceIssue[];
+}
+
+export function getRequiredRest(rule: PitchCountRule, pitches: number) {
+  return rule.rest.find(band => pitches <= band.upTo)?.days ?? 0;
+}
+
+function addDays(date: string, days: number) {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+// Full days between two dates, not counting either
+function daysBetween(from: string, to: string) {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS) - 1;
+}
+
+// Checks a pitcher's outings against the rule: no outing over the daily
+// limit, and enough rest before each one. Outings on the same day are
+// added together.
+export function getPitcherStatus(
+  rule: PitchCountRule,
+  athleteId: string,
+  outings: PitchingOuting[],
+  today = getToday()
+): PitcherStatus {
+  const byDay = new Map<string, PitchingOuting>();
+  for (const outing of [...outings].sort((a, b) => a.playedOn.localeCompare(b.playedOn))) {
+    const sameDay = byDay.get(outing.playedOn);
+    byDay.set(outing.playedOn, sameDay ? { ...outing, pitches: sameDay.pitches + outing.pitches } : outing);
+  }
+  const days = [...byDay.values()];
+
+  const issues: ComplianceIssue[] = [];
+  days.forEach((outing, index) => {
+    if (outing.pitches > rule.maxPitches) issues.push({ kind: 'over_limit', outing });
+    const previous = days[index - 1];
+    if (!previous) return;
+    const requiredDays = getRequiredRest(rule, previous.pitches);
+    if (daysBetween(previous.playedOn, outing.playedOn) < requiredDays) {
+      issues.push({ kind: 'short_rest', outing, previous, requiredDays });
+    }
+  });
+
+  const last = days[days.length - 1];
+  const availableOn = last ? addDays(last.playedOn, getRequiredRest(rule, last.pitches) + 1) : null;
+
+  return {
+    athleteId,
+    outings: days,
+    availableOn: availableOn && availableOn > today ? availableOn : null,
+    issues
+  };
+}
+
+// Every pitcher's outings for a team, from the pitches stat in game_stats
+export async function fetchPitchingOutings(teamId: string): Promise<Map<string, PitchingOuting[]>> {
+  const { games, stats } = await fetchTeamGameStats(teamId);
+  const gamesById = new Map(games.map(game => [game.id, game]));
+
+  const outings = new Map<string, PitchingOuting[]>();
+  for (const stat of stats) {
+    const game = gamesById.get(stat.game_id);
+    if (stat.stat_key !== 'pitches' || stat.value <= 0 || !game) continue;
+    outings.set(stat.athlete_id, [
+      ...(outings.get(stat.athlete_id) ?? []),
+      { gameId: game.id, opponent: game.opponent, playedOn: game.played_on, pitches: stat.value }
+    ]);
+  }
+  return outings;
+}
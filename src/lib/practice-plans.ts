@@ -0,0 +1,301 @@
+import { supabase } from '@/lib/supabase';
+import type { Database } from '@/lib/supabase-types';
+import type { TeamEvent } from '@/lib/events';
+
+type DrillRow = Database['public']['Tables']['drills']['Row'];
+type PlanRow = Database['public']['Tables']['practice_plans']['Row'];
+
+export type Drill = Omit<DrillRow, 'organization_id' | 'created_by' | 'created_at' | 'updated_at'>;
+
+export interface NewDrill {
+  // null when the drill works for any sport
+  sportId: string | null;
+  name: string;
+  description?: string;
+  durationMinutes: number;
+  equipment: string[];
+  focus: string[];
+  mediaUrl?: string;
+}
+
+// One timed segment of a practice; drill_id is null for breaks and other
+// blocks that are not from the library
+export interface PlanBlock {
+  drill_id: string | null;
+  name: string;
+  duration_minutes: number;
+  notes: string | null;
+}
+
+export interface PracticePlan extends Omit<PlanRow, 'created_by' | 'created_at'> {
+  blocks: PlanBlock[];
+}
+
+export interface PracticePlanInput {
+  teamId: string;
+  eventId: string | null;
+  name: string;
+  notes?: string;
+  isTemplate: boolean;
+  blocks: PlanBlock[];
+}
+
+// A plan with what the print view shows alongside it
+export interface PrintablePlan extends PracticePlan {
+  team_name: string;
+  event: Pick<TeamEvent, 'type' | 'opponent' | 'home_away' | 'location' | 'starts_at' | 'ends_at'> | null;
+  drills: Drill[];
+}
+
+const ERROR_MESSAGES: Record<string, string> = {
+  not_authenticated: 'Please sign in to plan practices',
+  not_authorized: 'You can only plan practices for teams you coach',
+  not_found: 'That practice or plan no longer exists',
+  invalid_plan: 'Give the plan a name and at least one block, each with a name and a length',
+  plan_exists: 'This practice already has a plan'
+};
+
+function toPlanError(error: { message: string }) {
+  return ERROR_MESSAGES[error.message] ? new Error(ERROR_MESSAGES[error.message]) : null;
+}
+
+const DRILL_COLUMNS = 'id, sport_id, name, description, duration_minutes, equipment, focus, media_url';
+
+const PLAN_COLUMNS = `
+  id,
+  team_id,
+  event_id,
+  name,
+  notes,
+  is_template,
+  updated_at,
+  practice_plan_blocks (position, drill_id, name, duration_minutes, notes)
+`;
+
+type PlanResponse = Omit<PracticePlan, 'blocks'> & {
+  practice_plan_blocks: (PlanBlock & { position: number })[];
+};
+
+function toPlan({ practice_plan_blocks, ...plan }: PlanResponse): PracticePlan {
+  return {
+    ...plan,
+    blocks: [...practice_plan_blocks]
+      .sort((a, b) => a.position - b.position)
+      .map(block => ({
+        drill_id: block.drill_id,
+        name: block.name,
+        duration_minutes: block.duration_minutes,
+        notes: block.notes
+      }))
+  };
+}
+
+// "Cones, Pinnies" -> ['Cones', 'Pinnies'], dropping blanks and repeats
+export function parseTags(input: string) {
+  const tags = input.split(',').map(tag => tag.trim()).filter(Boolean);
+  return tags.filter((tag, index) => tags.findIndex(other => other.toLowerCase() === tag.toLowerCase()) === index);
+}
+
+// Links ending in an image extension are shown as diagrams, others as videos
+export function isImageUrl(url: string) {
+  return /\.(png|jpe?g|gif|webp|svg)(\?.*)?$/i.test(url);
+}
+
+export function getPlanMinutes(blocks: Pick<PlanBlock, 'duration_minutes'>[]) {
+  return blocks.reduce((total, block) => total + block.duration_minutes, 0);
+}
+
+// Minutes from the start of practice at which each block begins
+export function getBlockOffsets(blocks: Pick<PlanBlock, 'duration_minutes'>[]) {
+  let elapsed = 0;
+  return blocks.map(block => {
+    const offset = elapsed;
+    elapsed += block.duration_minutes;
+    return offset;
+  });
+}
+
+// Clock time of a block from the practice start, or the minute mark when
+// the plan is not attached to a practice
+export function formatBlockStart(offset: number, startsAt?: string | null) {
+  if (!startsAt) {
+    return `${Math.floor(offset / 60)}:${String(offset % 60).padStart(2, '0')}`;
+  }
+  return new Date(new Date(startsAt).getTime() + offset * 60_000).toLocaleTimeString('en-US', {
+    hour: 'numeric',
+    minute: '2-digit'
+  });
+}
+
+// Length of a scheduled practice in whole minutes
+export function getEventMinutes(event: { starts_at: string; ends_at: string }) {
+  return Math.round((new Date(event.ends_at).getTime() - new Date(event.starts_at).getTime()) / 60_000);
+}
+
+// Block for a library drill, using the drill's usual length
+export function toPlanBlock(drill: Drill): PlanBlock {
+  return { drill_id: drill.id, name: drill.name, duration_minutes: drill.duration_minutes, notes: null };
+}
+
+// Every focus tag in the library, alphabetically
+export function getFocusTags(drills: Drill[]) {
+  return parseTags(drills.flatMap(drill => drill.focus).join(',')).sort((a, b) => a.localeCompare(b));
+}
+
+// Drills that suit a sport, including those for any sport
+export function getDrillsForSport(drills: Drill[], sportId: string | null) {
+  return drills.filter(drill => !drill.sport_id || !sportId || drill.sport_id === sportId);
+}
+
+function toDrillFields(drill: NewDrill) {
+  return {
+    sport_id: drill.sportId,
+    name: drill.name.trim(),
+    description: drill.description?.trim() || null,
+    duration_minutes: drill.durationMinutes,
+    equipment: drill.equipment,
+    focus: drill.focus,
+    media_url: drill.mediaUrl?.trim() || null
+  };
+}
+
+export async function fetchDrills(): Promise<Drill[]> {
+  const { data, error } = await supabase
+    .from('drills')
+    .select(DRILL_COLUMNS)
+    .order('name');
+
+  if (error) {
+    console.error('Error fetching drills:', error);
+    throw error;
+  }
+
+  return (data ?? []) as Drill[];
+}
+
+export async function createDrill(organizationId: string, drill: NewDrill) {
+  const { error } = await supabase
+    .from('drills')
+    .insert({ organization_id: organizationId, ...toDrillFields(drill) });
+
+  if (error) {
+    console.error('Error creating drill:', error);
+    throw error;
+  }
+}
+
+export async function updateDrill(drillId: string, drill: NewDrill) {
+  const { error } = await supabase
+    .from('drills')
+    .update(toDrillFields(drill))
+    .eq('id', drillId);
+
+  if (error) {
+    console.error('Error updating drill:', error);
+    throw error;
+  }
+}
+
+export async function deleteDrill(drillId: string) {
+  const { error } = await supabase
+    .from('drills')
+    .delete()
+    .eq('id', drillId);
+
+  if (error) {
+    console.error('Error deleting drill:', error);
+    throw error;
+  }
+}
+
+// Plans and templates for the given teams, templates first by name
+export async function fetchPracticePlans(teamIds: string[]): Promise<PracticePlan[]> {
+  if (teamIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('practice_plans')
+    .select(PLAN_COLUMNS)
+    .in('team_id', teamIds)
+    .order('is_template', { ascending: false })
+    .order('name');
+
+  if (error) {
+    console.error('Error fetching practice plans:', error);
+    throw error;
+  }
+
+  return ((data ?? []) as unknown as PlanResponse[]).map(toPlan);
+}
+
+export async function fetchPrintablePlan(planId: string): Promise<PrintablePlan | null> {
+  const { data, error } = await supabase
+    .from('practice_plans')
+    .select(`${PLAN_COLUMNS}, teams (name), events (type, opponent, home_away, location, starts_at, ends_at)`)
+    .eq('id', planId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching practice plan:', error);
+    throw error;
+  }
+
+  if (!data) return null;
+
+  const { teams, events, ...plan } = data as unknown as PlanResponse & {
+    teams: { name: string } | null;
+    events: PrintablePlan['event'];
+  };
+  const drillIds = plan.practice_plan_blocks.map(block => block.drill_id).filter((id): id is string => id !== null);
+  let drills: Drill[] = [];
+
+  if (drillIds.length > 0) {
+    const { data: drillData, error: drillError } = await supabase
+      .from('drills')
+      .select(DRILL_COLUMNS)
+      .in('id', drillIds);
+
+    if (drillError) {
+      console.error('Error fetching plan drills:', drillError);
+      throw drillError;
+    }
+
+    drills = (drillData ?? []) as Drill[];
+  }
+
+  return { ...toPlan(plan), team_name: teams?.name ?? '', event: events, drills };
+}
+
+// Creates the plan, or replaces the name, notes and blocks of an existing
+// one; returns the plan id
+export async function savePracticePlan(planId: string | null, plan: PracticePlanInput): Promise<string> {
+  const { data, error } = await supabase.rpc('save_practice_plan', {
+    p_plan_id: planId,
+    p_team_id: plan.teamId,
+    p_event_id: plan.eventId,
+    p_name: plan.name,
+    p_notes: plan.notes ?? null,
+    p_is_template: plan.isTemplate,
+    p_blocks: plan.blocks
+  });
+
+  if (error) {
+    const planError = toPlanError(error);
+    if (planError) throw planError;
+    console.error('Error saving practice plan:', error);
+    throw error;
+  }
+
+  return data as string;
+}
+
+export async function deletePracticePlan(planId: string) {
+  const { error } = await supabase
+    .from('practice_plans')
+    .delete()
+    .eq('id', planId);
+
+  if (error) {
+    console.error('Error deleting practice plan:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,279 @@
+import { supabase } from '@/lib/supabase';
+import {
+  SPORT_DEFINITIONS,
+  getRecordStats,
+  getSportDefinition,
+  getSportTests,
+  type SportDefinition
+} from '@/lib/sport-definitions';
+import { formatStatValue } from '@/lib/stats';
+import { fetchTestHistory, formatTestValue, getTestDefinition } from '@/lib/performance-tests';
+import type { Team, TeamGender } from '@/lib/teams';
+
+export type RecordSource = 'stat' | 'test';
+
+// Something an athlete can set a personal record in. Stats only compare
+// within their sport; tests compare across every team an athlete is on.
+export interface RecordMetric {
+  id: string;
+  source: RecordSource;
+  key: string;
+  label: string;
+  lowerIsBetter: boolean;
+  format: (value: number) => string;
+}
+
+// One single-game stat or test result
+export interface RecordMark {
+  athleteId: string;
+  teamId: string;
+  source: RecordSource;
+  key: string;
+  value: number;
+  date: string;
+  // "vs Central" for games, the testing day's name for tests
+  context: string;
+}
+
+export interface PersonalBest {
+  metric: RecordMetric;
+  mark: RecordMark;
+}
+
+// A mark that beat the athlete's earlier best
+export interface PersonalRecord extends PersonalBest {
+  previous: number;
+}
+
+export interface LeaderboardEntry {
+  athlete_id: string;
+  full_name: string | null;
+  team_id: string;
+  team_name: string;
+  gender: TeamGender;
+  grad_year: number | null;
+  position: string | null;
+  value: number;
+  achieved_on: string;
+  // Ties share a rank, e.g. 1, 2, 2, 4
+  rank: number;
+}
+
+export interface LeaderboardFilters {
+  gender: TeamGender | null;
+  gradYear: number | null;
+  position: string | null;
+}
+
+export type MetricLookup = (mark: Pick<RecordMark, 'teamId' | 'source' | 'key'>) => RecordMetric | null;
+
+// Every stat key that counts as a record in some sport, so game stats can
+// be filtered before they are fetched
+const RECORD_STAT_KEYS = [...new Set(SPORT_DEFINITIONS.flatMap(sport => getRecordStats(sport).map(stat => stat.key)))];
+
+// Record stats of the sport followed by its tests
+export function getRecordMetrics(sport: SportDefinition | null): RecordMetric[] {
+  const stats: RecordMetric[] = sport
+    ? getRecordStats(sport).map(stat => ({
+        id: `stat:${sport.slug}:${stat.key}`,
+        source: 'stat',
+        key: stat.key,
+        label: stat.label,
+        lowerIsBetter: stat.best === 'low',
+        // A single game's value, so averaged stats read as they were entered
+        format: (value: number) => formatStatValue({ ...stat, aggregation: 'sum' }, value)
+      }))
+    : [];
+
+  const tests: RecordMetric[] = getSportTests(sport).map(test => ({
+    id: `test:${test.key}`,
+    source: 'test',
+    key: test.key,
+    label: test.label,
+    lowerIsBetter: !!test.lowerIsBetter,
+    format: (value: number) => formatTestValue(test, value)
+  }));
+
+  return [...stats, ...tests];
+}
+
+// Resolves a mark to its metric through the sport of the team it was set
+// on. Marks on unknown teams and stats that are not records resolve to null.
+export function createMetricLookup(teams: Team[]): MetricLookup {
+  const sportsByTeam = new Map(teams.map(team => [team.id, getSportDefinition(team.sport_name)]));
+  const metricsBySport = new Map<string, RecordMetric[]>();
+
+  return ({ teamId, source, key }) => {
+    if (!sportsByTeam.has(teamId)) return null;
+    const sport = sportsByTeam.get(teamId) ?? null;
+    const slug = sport?.slug ?? '';
+
+    if (!metricsBySport.has(slug)) metricsBySport.set(slug, getRecordMetrics(sport));
+    const metrics = metricsBySport.get(slug) ?? [];
+    const metric = metrics.find(candidate => candidate.source === source && candidate.key === key);
+    if (metric || source === 'stat') return metric ?? null;
+
+    // Tests a sport no longer lists still count, higher being better
+    const test = getTestDefinition([], key);
+    return {
+      id: `test:${key}`,
+      source,
+      key,
+      label: test.label,
+      lowerIsBetter: false,
+      format: (value: number) => formatTestValue(test, value)
+    };
+  };
+}
+
+export function isBetterRecord(metric: RecordMetric, value: number, than: number) {
+  return metric.lowerIsBetter ? value < than : value > than;
+}
+
+// Each athlete's marks per metric, oldest first
+function groupMarks(marks: RecordMark[], getMetric: MetricLookup) {
+  const groups = new Map<string, { metric: RecordMetric; marks: RecordMark[] }>();
+  for (const mark of marks) {
+    const metric = getMetric(mark);
+    if (!metric) continue;
+
+    const key = `${mark.athleteId}:${metric.id}`;
+    const group = groups.get(key) ?? { metric, marks: [] };
+    group.marks.push(mark);
+    groups.set(key, group);
+  }
+
+  for (const group of groups.values()) {
+    group.marks.sort((a, b) => a.date.localeCompare(b.date));
+  }
+  return [...groups.values()];
+}
+
+// Each athlete's best mark per metric, earliest first on ties
+export function getPersonalBests(marks: RecordMark[], getMetric: MetricLookup): PersonalBest[] {
+  return groupMarks(marks, getMetric).map(({ metric, marks: history }) => ({
+    metric,
+    mark: history.reduce((best, mark) => (isBetterRecord(metric, mark.value, best.value) ? mark : best))
+  }));
+}
+
+// Every mark that beat the athlete's earlier best, newest first. An
+// athlete's first mark in a metric is a baseline, not a record.
+export function getPersonalRecords(marks: RecordMark[], getMetric: MetricLookup): PersonalRecord[] {
+  const records: PersonalRecord[] = [];
+
+  for (const { metric, marks: history } of groupMarks(marks, getMetric)) {
+    let best: number | null = null;
+    for (const mark of history) {
+      if (best !== null && isBetterRecord(metric, mark.value, best)) {
+        records.push({ metric, mark, previous: best });
+      }
+      if (best === null || isBetterRecord(metric, mark.value, best)) best = mark.value;
+    }
+  }
+
+  return records.sort((a, b) => b.mark.date.localeCompare(a.mark.date));
+}
+
+export function filterLeaderboard(entries: LeaderboardEntry[], filters: LeaderboardFilters): LeaderboardEntry[] {
+  const filtered = entries.filter(entry =>
+    (!filters.gender || entry.gender === filters.gender) &&
+    (!filters.gradYear || entry.grad_year === filters.gradYear) &&
+    (!filters.position || entry.position === filters.position)
+  );
+  return rankEntries(filtered);
+}
+
+// Entries arrive best first
+function rankEntries<T extends Omit<LeaderboardEntry, 'rank'>>(entries: T[]): (T & { rank: number })[] {
+  return entries.map((entry, index) => {
+    let rank = index + 1;
+    while (rank > 1 && entries[rank - 2].value === entry.value) rank--;
+    return { ...entry, rank };
+  });
+}
+
+interface GameStatMarkResponse {
+  athlete_id: string;
+  stat_key: string;
+  value: number | string;
+  games: { team_id: string; opponent: string; played_on: string } | null;
+}
+
+// Every record stat and test result the given athletes have on teams the
+// user can see
+export async function fetchAthleteMarks(athleteIds: string[]): Promise<RecordMark[]> {
+  if (athleteIds.length === 0) return [];
+
+  const [{ data, error }, history] = await Promise.all([
+    supabase
+      .from('game_stats')
+      .select('athlete_id, stat_key, value, games (team_id, opponent, played_on)')
+      .in('athlete_id', athleteIds)
+      .in('stat_key', RECORD_STAT_KEYS),
+    fetchTestHistory(athleteIds)
+  ]);
+
+  if (error) {
+    console.error('Error fetching game stats:', error);
+    throw error;
+  }
+
+  const statMarks = ((data ?? []) as unknown as GameStatMarkResponse[]).flatMap(row =>
+    row.games
+      ? [{
+          athleteId: row.athlete_id,
+          teamId: row.games.team_id,
+          source: 'stat' as const,
+          key: row.stat_key,
+          value: Number(row.value),
+          date: row.games.played_on,
+          context: `vs ${row.games.opponent}`
+        }]
+      : []
+  );
+
+  const sessions = new Map(history.sessions.map(session => [session.id, session]));
+  const testMarks = history.results.flatMap(result => {
+    const session = sessions.get(result.session_id);
+    return session
+      ? [{
+          athleteId: result.athlete_id,
+          teamId: session.team_id,
+          source: 'test' as const,
+          key: result.test_key,
+          value: result.value,
+          date: session.tested_on,
+          context: session.name
+        }]
+      : [];
+  });
+
+  return [...statMarks, ...testMarks];
+}
+
+// Best mark per athlete in a metric across a team, or every team of the
+// sport in the organization when no team is given
+export async function fetchLeaderboard(
+  sportId: string,
+  metric: RecordMetric,
+  teamId: string | null = null
+): Promise<LeaderboardEntry[]> {
+  const { data, error } = await supabase.rpc('leaderboard', {
+    p_sport_id: sportId,
+    p_source: metric.source,
+    p_key: metric.key,
+    p_lower_is_better: metric.lowerIsBetter,
+    p_team_id: teamId
+  });
+
+  if (error) {
+    console.error('Error fetching leaderboard:', error);
+    throw error;
+  }
+
+  // numeric columns can arrive as strings
+  return rankEntries(
+    ((data ?? []) as Omit<LeaderboardEntry, 'rank'>[]).map(entry => ({ ...entry, value: Number(entry.value) }))
+  );
+}
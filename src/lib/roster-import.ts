@@ -0,0 +1,366 @@
+import { supabase } from '@/lib/supabase';
+import {
+  MAX_INVITATIONS,
+  createInvitations,
+  type InvitationRecipient
+} from '@/lib/invitations';
+import { getTeamLabel, type Team, type TeamGender } from '@/lib/teams';
+import { isValidEmail, parseCsv, toCsv } from '@/lib/utils';
+
+export type RosterField =
+  | 'full_name'
+  | 'email'
+  | 'grad_year'
+  | 'position'
+  | 'jersey_number'
+  | 'team'
+  | 'sport'
+  | 'gender';
+
+export const ROSTER_FIELDS: {
+  key: RosterField;
+  label: string;
+  required: boolean;
+  aliases: string[];
+}[] = [
+  { key: 'full_name', label: 'Name', required: true, aliases: ['name', 'full name', 'athlete', 'athlete name', 'player'] },
+  { key: 'email', label: 'Email', required: true, aliases: ['email', 'email address', 'e-mail'] },
+  { key: 'grad_year', label: 'Grad Year', required: false, aliases: ['grad year', 'graduation year', 'class', 'class of', 'year'] },
+  { key: 'position', label: 'Position', required: false, aliases: ['position', 'pos'] },
+  { key: 'jersey_number', label: 'Jersey Number', required: false, aliases: ['jersey', 'jersey number', 'jersey no', 'number', 'no', '#'] },
+  { key: 'team', label: 'Team', required: false, aliases: ['team', 'team name', 'squad'] },
+  { key: 'sport', label: 'Sport', required: false, aliases: ['sport'] },
+  { key: 'gender', label: 'Gender', required: false, aliases: ['gender', 'sex', 'division'] }
+];
+
+export const MAX_ROSTER_ROWS = 500;
+
+// Column index for each field, or null when the file does not have it
+export type ColumnMapping = Record<RosterField, number | null>;
+
+export type RosterAction = 'error' | 'invite' | 'add' | 'update';
+
+export interface RosterMatch {
+  user_id: string;
+  full_name: string | null;
+  role: string;
+  roster_team_ids: string[];
+}
+
+export interface RosterRow {
+  // Line in the file, counting the header as line 1
+  line: number;
+  full_name: string;
+  email: string;
+  grad_year: number | null;
+  position: string | null;
+  jersey_number: string | null;
+  team_id: string | null;
+  errors: string[];
+  match: RosterMatch | null;
+}
+
+export interface RosterDefaults {
+  teamId: string | null;
+}
+
+export interface RosterImportResult {
+  rostered: number;
+  invited: number;
+  failed: number;
+}
+
+export interface RosterFile {
+  headers: string[];
+  rows: string[][];
+}
+
+const GENDER_VALUES: Record<string, TeamGender> = {
+  m: 'male',
+  male: 'male',
+  men: 'male',
+  "men's": 'male',
+  boys: 'male',
+  b: 'male',
+  f: 'female',
+  female: 'female',
+  women: 'female',
+  "women's": 'female',
+  girls: 'female',
+  g: 'female',
+  coed: 'coed',
+  mixed: 'coed'
+};
+
+const ERROR_MESSAGES: Record<string, string> = {
+  not_authorized: 'Only coaches can import athletes, and only into teams they coach',
+  not_found: 'One of the athletes is no longer part of your organization'
+};
+
+function normalizeHeader(header: string) {
+  return header.trim().toLowerCase().replace(/[_.]+/g, ' ').replace(/\s+/g, ' ');
+}
+
+export function readRosterFile(text: string): RosterFile {
+  const [headers = [], ...rows] = parseCsv(text.replace(/^\uFEFF/, ''));
+  if (headers.length === 0) throw new Error('The file is empty');
+  if (rows.length === 0) throw new Error('The file has a header row but no athletes');
+  if (rows.length > MAX_ROSTER_ROWS) {
+    throw new Error(`Rosters are limited to ${MAX_ROSTER_ROWS} athletes per import`);
+  }
+  return { headers: headers.map(header => header.trim()), rows };
+}
+
+// A CSV with the expected headers and one example athlete
+export function getRosterTemplate() {
+  return toCsv(
+    ROSTER_FIELDS.map(field => field.label),
+    [['Jordan Smith', 'jordan@example.com', new Date().getFullYear() + 2, 'Guard', '23', '', 'Basketball', 'Male']]
+  );
+}
+
+// Matches columns to fields by header name. Each column is used at most once.
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+  const used = new Set<number>();
+  const mapping = {} as ColumnMapping;
+
+  for (const field of ROSTER_FIELDS) {
+    const index = normalized.findIndex(
+      (header, i) => !used.has(i) && (field.aliases.includes(header) || header === field.key)
+    );
+    mapping[field.key] = index === -1 ? null : index;
+    if (index !== -1) used.add(index);
+  }
+
+  return mapping;
+}
+
+// Picks the team for a row from its Team column, or from its Sport and
+// Gender columns among the coach's teams. The default team wins when several
+// teams match.
+function resolveRosterTeam(
+  teams: Team[],
+  defaultTeamId: string | null,
+  teamValue: string,
+  sportValue: string,
+  genderValue: string
+): { teamId: string | null; error: string | null } {
+  if (teamValue) {
+    const name = teamValue.toLowerCase();
+    const team = teams.find(
+      t => t.name.toLowerCase() === name || getTeamLabel(t).toLowerCase() === name
+    );
+    return team
+      ? { teamId: team.id, error: null }
+      : { teamId: null, error: `"${teamValue}" is not one of your teams` };
+  }
+
+  if (!sportValue && !genderValue) {
+    return defaultTeamId
+      ? { teamId: defaultTeamId, error: null }
+      : { teamId: null, error: 'Team is required' };
+  }
+
+  let candidates = teams;
+  if (sportValue) {
+    candidates = candidates.filter(t => t.sport_name.toLowerCase() === sportValue.toLowerCase());
+    if (candidates.length === 0) {
+      return { teamId: null, error: `"${sportValue}" is not one of your sports` };
+    }
+  }
+  if (genderValue) {
+    const gender = GENDER_VALUES[genderValue.toLowerCase()];
+    if (!gender) return { teamId: null, error: `"${genderValue}" is not a valid gender` };
+    candidates = candidates.filter(t => t.gender === gender);
+  }
+
+  if (candidates.some(t => t.id === defaultTeamId)) return { teamId: defaultTeamId, error: null };
+  if (candidates.length === 1) return { teamId: candidates[0].id, error: null };
+  if (candidates.length === 0) {
+    return { teamId: null, error: `None of your teams match ${[genderValue, sportValue].filter(Boolean).join(' ')}` };
+  }
+  return { teamId: null, error: 'Several of your teams match; add a Team column to choose one' };
+}
+
+export function validateRosterRows(
+  file: RosterFile,
+  mapping: ColumnMapping,
+  teams: Team[],
+  defaults: RosterDefaults
+): RosterRow[] {
+  const seenEmails = new Map<string, number>();
+  const currentYear = new Date().getFullYear();
+
+  return file.rows.map((cells, index) => {
+    const line = index + 2;
+    const value = (field: RosterField) => {
+      const column = mapping[field];
+      return column === null ? '' : (cells[column] ?? '').trim();
+    };
+    const errors: string[] = [];
+
+    const fullName = value('full_name');
+    if (!fullName) errors.push('Name is required');
+
+    const email = value('email').toLowerCase();
+    if (!email) {
+      errors.push('Email is required');
+    } else if (!isValidEmail(email)) {
+      errors.push(`"${email}" is not a valid email`);
+    } else if (seenEmails.has(email)) {
+      errors.push(`Duplicate of line ${seenEmails.get(email)}`);
+    } else {
+      seenEmails.set(email, line);
+    }
+
+    let gradYear: number | null = null;
+    const gradYearValue = value('grad_year');
+    if (gradYearValue) {
+      gradYear = Number(gradYearValue);
+      if (!Number.isInteger(gradYear) || Math.abs(gradYear - currentYear) > 10) {
+        errors.push(`"${gradYearValue}" is not a valid graduation year`);
+        gradYear = null;
+      }
+    }
+
+    let jerseyNumber: string | null = value('jersey_number').replace(/^#/, '') || null;
+    if (jerseyNumber && !/^[0-9]{1,3}$/.test(jerseyNumber)) {
+      errors.push(`"${jerseyNumber}" is not a valid jersey number`);
+      jerseyNumber = null;
+    }
+
+    const team = resolveRosterTeam(
+      teams,
+      defaults.teamId,
+      value('team'),
+      value('sport'),
+      value('gender')
+    );
+    if (team.error) errors.push(team.error);
+
+    return {
+      line,
+      full_name: fullName,
+      email,
+      grad_year: gradYear,
+      position: value('position') || null,
+      jersey_number: jerseyNumber,
+      team_id: team.teamId,
+      errors,
+      match: null
+    };
+  });
+}
+
+export function getRosterAction(row: RosterRow): RosterAction {
+  if (row.errors.length > 0) return 'error';
+  if (!row.match) return 'invite';
+  return row.team_id && row.match.roster_team_ids.includes(row.team_id) ? 'update' : 'add';
+}
+
+// Existing accounts in the organization, keyed by lower-cased email
+export async function fetchRosterMatches(emails: string[]): Promise<Map<string, RosterMatch>> {
+  if (emails.length === 0) return new Map();
+
+  const { data, error } = await supabase.rpc('match_roster_emails', {
+    p_emails: emails
+  });
+
+  if (error) {
+    if (ERROR_MESSAGES[error.message]) throw new Error(ERROR_MESSAGES[error.message]);
+    console.error('Error matching roster emails:', error);
+    throw error;
+  }
+
+  return new Map(
+    ((data ?? []) as (RosterMatch & { email: string })[]).map(match => [match.email, match])
+  );
+}
+
+// Attaches existing accounts to the rows. Emails that belong to coaches or
+// admins are flagged as errors.
+export function applyRosterMatches(rows: RosterRow[], matches: Map<string, RosterMatch>): RosterRow[] {
+  return rows.map(row => {
+    const match = matches.get(row.email);
+    if (!match) return row;
+    if (match.role !== 'athlete') {
+      return {
+        ...row,
+        match,
+        errors: [...row.errors, `${row.email} belongs to a ${match.role ?? 'non-athlete'} account`]
+      };
+    }
+    return { ...row, match };
+  });
+}
+
+function getRosterDetails(row: RosterRow) {
+  return {
+    grad_year: row.grad_year,
+    position: row.position,
+    jersey_number: row.jersey_number
+  };
+}
+
+// Adds existing athletes to the roster and invites everyone else. Rows with
+// errors are skipped.
+export async function importRoster(
+  rows: RosterRow[],
+  teams: Team[],
+  expiresAt: string | null
+): Promise<RosterImportResult> {
+  const result: RosterImportResult = { rostered: 0, invited: 0, failed: 0 };
+
+  const existing = rows.filter(row => {
+    const action = getRosterAction(row);
+    return action === 'add' || action === 'update';
+  });
+
+  if (existing.length > 0) {
+    const { data, error } = await supabase.rpc('add_roster_athletes', {
+      p_athletes: existing.map(row => ({
+        user_id: row.match!.user_id,
+        team_id: row.team_id,
+        ...getRosterDetails(row)
+      }))
+    });
+
+    if (error) {
+      if (ERROR_MESSAGES[error.message]) throw new Error(ERROR_MESSAGES[error.message]);
+      console.error('Error adding roster athletes:', error);
+      throw error;
+    }
+
+    result.rostered = data as number;
+  }
+
+  // Invitation codes carry a single team, so invite per team
+  const rowsByTeam = new Map<string, RosterRow[]>();
+  for (const row of rows.filter(row => getRosterAction(row) === 'invite')) {
+    rowsByTeam.set(row.team_id!, [...(rowsByTeam.get(row.team_id!) ?? []), row]);
+  }
+
+  for (const [teamId, teamRows] of rowsByTeam) {
+    const team = teams.find(t => t.id === teamId) ?? null;
+    for (let start = 0; start < teamRows.length; start += MAX_INVITATIONS) {
+      const batch = teamRows.slice(start, start + MAX_INVITATIONS);
+      const recipients: InvitationRecipient[] = batch.map(row => ({
+        email: row.email,
+        full_name: row.full_name,
+        roster_details: getRosterDetails(row)
+      }));
+
+      const sent = await createInvitations(recipients, {
+        role: 'athlete',
+        team,
+        expiresAt
+      });
+
+      result.invited += sent.sent;
+      result.failed += sent.failed + sent.skipped;
+    }
+  }
+
+  return result;
+}
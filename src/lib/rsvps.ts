@@ -0,0 +1,104 @@
+import { supabase } from '@/lib/supabase';
+import type { Database } from '@/lib/supabase-types';
+import type { TeamMember } from '@/lib/teams';
+
+export type RsvpResponse = Database['public']['Tables']['event_rsvps']['Row']['response'];
+
+export interface Rsvp {
+  event_id: string;
+  athlete_id: string;
+  response: RsvpResponse;
+  reason: string | null;
+}
+
+export interface Availability {
+  going: TeamMember[];
+  maybe: TeamMember[];
+  notGoing: TeamMember[];
+  noResponse: TeamMember[];
+}
+
+export const RSVP_RESPONSES: { value: RsvpResponse; label: string; className: string }[] = [
+  { value: 'going', label: 'Going', className: 'bg-emerald-500/20 text-emerald-400 border-emerald-500/30' },
+  { value: 'maybe', label: 'Maybe', className: 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30' },
+  { value: 'not_going', label: 'Not Going', className: 'bg-red-500/20 text-red-400 border-red-500/30' }
+];
+
+// Choices for the team's reminder cutoff, in hours before the event
+export const RSVP_REMINDER_OPTIONS: { value: number | null; label: string }[] = [
+  { value: null, label: 'Off' },
+  { value: 2, label: '2 hours before' },
+  { value: 6, label: '6 hours before' },
+  { value: 12, label: '12 hours before' },
+  { value: 24, label: '1 day before' },
+  { value: 48, label: '2 days before' },
+  { value: 72, label: '3 days before' }
+];
+
+export function getRsvpResponse(response: RsvpResponse) {
+  return RSVP_RESPONSES.find(option => option.value === response) ?? RSVP_RESPONSES[0];
+}
+
+// Sorts a roster by each athlete's answer for one event
+export function getAvailability(athletes: TeamMember[], rsvps: Rsvp[]): Availability {
+  const byAthlete = new Map(rsvps.map(rsvp => [rsvp.athlete_id, rsvp.response]));
+  return {
+    going: athletes.filter(athlete => byAthlete.get(athlete.user_id) === 'going'),
+    maybe: athletes.filter(athlete => byAthlete.get(athlete.user_id) === 'maybe'),
+    notGoing: athletes.filter(athlete => byAthlete.get(athlete.user_id) === 'not_going'),
+    noResponse: athletes.filter(athlete => !byAthlete.has(athlete.user_id))
+  };
+}
+
+// RSVPs for the given events: the athlete's own, or the whole team's for
+// coaches
+export async function fetchRsvps(eventIds: string[]): Promise<Rsvp[]> {
+  if (eventIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('event_rsvps')
+    .select('event_id, athlete_id, response, reason')
+    .in('event_id', eventIds);
+
+  if (error) {
+    console.error('Error fetching RSVPs:', error);
+    throw error;
+  }
+
+  return data ?? [];
+}
+
+export async function respondToEvent(eventId: string, response: RsvpResponse, reason?: string) {
+  const { data: userData } = await supabase.auth.getUser();
+  if (!userData?.user?.id) throw new Error('Not authenticated');
+
+  const { error } = await supabase
+    .from('event_rsvps')
+    .upsert(
+      {
+        event_id: eventId,
+        athlete_id: userData.user.id,
+        response,
+        // A reason only makes sense when not definitely going
+        reason: response === 'going' ? null : reason?.trim() || null
+      },
+      { onConflict: 'event_id,athlete_id' }
+    );
+
+  if (error) {
+    console.error('Error saving RSVP:', error);
+    throw error;
+  }
+}
+
+export async function updateRsvpReminderHours(teamId: string, hours: number | null) {
+  const { error } = await supabase
+    .from('teams')
+    .update({ rsvp_reminder_hours: hours })
+    .eq('id', teamId);
+
+  if (error) {
+    console.error('Error updating RSVP reminders:', error);
+    throw error;
+  }
+}
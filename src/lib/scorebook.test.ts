@@ -0,0 +1,79 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  getRunsTotal,
+  replayScorebook,
+  type PlateResult,
+  type RunnerMove,
+  type ScorebookPlay
+} from '@/lib/scorebook';
+
+vi.mock('@/lib/supabase', () => ({ supabase: {} }));
+
+const BOOK = {
+  bats_first: true,
+  lineup: Array.from({ length: 9 }, (_, index) => ({ athleteId: `athlete-${index + 1}`, position: 'DH' })),
+  starting_pitcher: 'pitcher-1',
+  opponent_batters: 9
+};
+
+const plate = (result: PlateResult, runners: RunnerMove[]): ScorebookPlay => ({
+  type: 'plate_appearance',
+  pitches: 4,
+  result,
+  runners
+});
+
+const walk = (runners: RunnerMove[] = []) => plate('walk', [{ from: 0, to: 1 }, ...runners]);
+const strikeout = () => plate('strikeout', [{ from: 0, to: 'out' }]);
+
+// Replays the plays and returns the runs scored on the last one and in all
+function replay(plays: ScorebookPlay[]) {
+  const { state, history } = replayScorebook({ ...BOOK, plays });
+  const last = history[history.length - 1];
+  return { runs: last.runs, total: getRunsTotal(state, last.batting) };
+}
+
+// Bases loaded with two outs
+const LOADED_TWO_OUTS = [
+  walk(),
+  walk([{ from: 1, to: 2 }]),
+  walk([{ from: 2, to: 3 }, { from: 1, to: 2 }]),
+  strikeout(),
+  strikeout()
+];
+
+describe('replayScorebook runs on the third out', () => {
+  it('does not count a run when the third out is a force out', () => {
+    const { runs, total } = replay([
+      ...LOADED_TWO_OUTS,
+      plate('fielders_choice', [{ from: 0, to: 1 }, { from: 3, to: 4 }, { from: 2, to: 3 }, { from: 1, to: 'out' }])
+    ]);
+
+    expect(runs).toBe(0);
+    expect(total).toBe(0);
+  });
+
+  it('does not count a run when the batter makes the third out', () => {
+    const { runs, total } = replay([
+      ...LOADED_TWO_OUTS,
+      plate('ground_out', [{ from: 0, to: 'out' }, { from: 3, to: 4 }, { from: 2, to: 3 }, { from: 1, to: 2 }])
+    ]);
+
+    expect(runs).toBe(0);
+    expect(total).toBe(0);
+  });
+
+  it('counts a run that scores before a runner who was not forced is out', () => {
+    // Runners on second and third with first base open
+    const { runs, total } = replay([
+      walk(),
+      plate('double', [{ from: 0, to: 2 }, { from: 1, to: 3 }]),
+      strikeout(),
+      strikeout(),
+      plate('single', [{ from: 0, to: 1 }, { from: 3, to: 4 }, { from: 2, to: 'out' }])
+    ]);
+
+    expect(runs).toBe(1);
+    expect(total).toBe(1);
+  });
+});
@@ -0,0 +1,750 @@
+import { supabase } from '@/lib/supabase';
+import type { Database } from '@/lib/supabase-types';
+import { saveGameStats, type GameStatEntry } from '@/lib/stats';
+import { formatOrdinal } from '@/lib/utils';
+
+type ScorebookRow = Database['public']['Tables']['scorebooks']['Row'];
+
+export type DiamondSport = 'baseball' | 'softball';
+export type Side = 'us' | 'them';
+export type Half = 'top' | 'bottom';
+export type Base = 1 | 2 | 3;
+// Where a runner ended a play: a base, home (4) or out
+export type RunnerDestination = Base | 4 | 'out';
+
+export const REGULATION_INNINGS: Record<DiamondSport, number> = { baseball: 9, softball: 7 };
+export const OUTS_PER_HALF = 3;
+export const DEFAULT_LINEUP_SIZE = 9;
+// Room for extra hitters and continuous batting orders
+export const MAX_LINEUP_SIZE = 15;
+
+// Scorebook numbers for the fielding positions, as in "6-4-3"
+export const FIELD_POSITIONS: { position: string; number: number }[] = [
+  { position: 'P', number: 1 },
+  { position: 'C', number: 2 },
+  { position: '1B', number: 3 },
+  { position: '2B', number: 4 },
+  { position: '3B', number: 5 },
+  { position: 'SS', number: 6 },
+  { position: 'LF', number: 7 },
+  { position: 'CF', number: 8 },
+  { position: 'RF', number: 9 }
+];
+
+// Designated and extra hitters bat without taking the field
+export const LINEUP_POSITIONS = [...FIELD_POSITIONS.map(({ position }) => position), 'DH', 'EH'];
+
+// Pinch hitters and runners hold a spot without a position until they take
+// the field
+export const SUBSTITUTION_POSITIONS = ['PH', 'PR', ...LINEUP_POSITIONS];
+
+export interface LineupSpot {
+  athleteId: string;
+  position: string;
+}
+
+export type PlateResult =
+  | 'single'
+  | 'double'
+  | 'triple'
+  | 'home_run'
+  | 'walk'
+  | 'intentional_walk'
+  | 'hit_by_pitch'
+  | 'strikeout'
+  | 'strikeout_looking'
+  | 'ground_out'
+  | 'fly_out'
+  | 'line_out'
+  | 'sacrifice_fly'
+  | 'sacrifice_bunt'
+  | 'fielders_choice'
+  | 'reached_on_error'
+  | 'double_play';
+
+export interface PlateResultDefinition {
+  value: PlateResult;
+  label: string;
+  abbreviation: string;
+  // Base the batter reaches by default, 0 when the batter is out
+  bases: 0 | 1 | 2 | 3 | 4;
+  atBat: boolean;
+  hit: boolean;
+  // Whether runs scoring on the play are driven in by the batter
+  rbi: boolean;
+  // Outs the play makes by default, for crediting putouts
+  outs: number;
+}
+
+const result = (
+  value: PlateResult,
+  label: string,
+  abbreviation: string,
+  bases: PlateResultDefinition['bases'],
+  { atBat = true, hit = false, rbi = true, outs = bases === 0 ? 1 : 0 }: Partial<Pick<PlateResultDefinition, 'atBat' | 'hit' | 'rbi' | 'outs'>> = {}
+): PlateResultDefinition => ({ value, label, abbreviation, bases, atBat, hit, rbi, outs });
+
+export const PLATE_RESULTS: PlateResultDefinition[] = [
+  result('single', 'Single', '1B', 1, { hit: true }),
+  result('double', 'Double', '2B', 2, { hit: true }),
+  result('triple', 'Triple', '3B', 3, { hit: true }),
+  result('home_run', 'Home Run', 'HR', 4, { hit: true }),
+  result('walk', 'Walk', 'BB', 1, { atBat: false }),
+  result('intentional_walk', 'Intentional Walk', 'IBB', 1, { atBat: false }),
+  result('hit_by_pitch', 'Hit by Pitch', 'HBP', 1, { atBat: false }),
+  result('strikeout', 'Strikeout Swinging', 'K', 0, { rbi: false }),
+  result('strikeout_looking', 'Strikeout Looking', 'KL', 0, { rbi: false }),
+  result('ground_out', 'Ground Out', 'GO', 0),
+  result('fly_out', 'Fly Out', 'FO', 0),
+  result('line_out', 'Line Out', 'LO', 0),
+  result('sacrifice_fly', 'Sacrifice Fly', 'SF', 0, { atBat: false }),
+  result('sacrifice_bunt', 'Sacrifice Bunt', 'SAC', 0, { atBat: false }),
+  result('fielders_choice', "Fielder's Choice", 'FC', 1, { outs: 1 }),
+  result('reached_on_error', 'Reached on Error', 'E', 1, { rbi: false }),
+  result('double_play', 'Double Play', 'DP', 0, { rbi: false, outs: 2 })
+];
+
+export type BaserunningKind =
+  | 'stolen_base'
+  | 'caught_stealing'
+  | 'pickoff'
+  | 'wild_pitch'
+  | 'passed_ball'
+  | 'balk'
+  | 'error'
+  | 'advance';
+
+export const BASERUNNING_KINDS: { value: BaserunningKind; label: string }[] = [
+  { value: 'stolen_base', label: 'Stolen Base' },
+  { value: 'caught_stealing', label: 'Caught Stealing' },
+  { value: 'pickoff', label: 'Pickoff' },
+  { value: 'wild_pitch', label: 'Wild Pitch' },
+  { value: 'passed_ball', label: 'Passed Ball' },
+  { value: 'balk', label: 'Balk' },
+  { value: 'error', label: 'Error' },
+  { value: 'advance', label: 'Other Advance' }
+];
+
+export interface RunnerMove {
+  // The base the runner started on, 0 for the batter
+  from: 0 | Base;
+  to: RunnerDestination;
+}
+
+export interface PlateAppearancePlay {
+  type: 'plate_appearance';
+  pitches: number;
+  result: PlateResult;
+  // Fielders by scorebook number, e.g. [6, 3]; on errors the last one is
+  // charged. Only kept while we are in the field.
+  fielders?: number[];
+  runners: RunnerMove[];
+}
+
+export interface BaserunningPlay {
+  type: 'baserunning';
+  kind: BaserunningKind;
+  fielders?: number[];
+  runners: RunnerMove[];
+}
+
+export interface SubstitutionPlay {
+  type: 'substitution';
+  // Index in our batting order
+  spot: number;
+  athleteId: string;
+  position: string;
+}
+
+export interface PitchingChangePlay {
+  type: 'pitching_change';
+  athleteId: string;
+}
+
+export type ScorebookPlay = PlateAppearancePlay | BaserunningPlay | SubstitutionPlay | PitchingChangePlay;
+
+export interface Scorebook extends Omit<ScorebookRow, 'lineup' | 'plays' | 'updated_by'> {
+  lineup: LineupSpot[];
+  plays: ScorebookPlay[];
+}
+
+export interface ScorebookInput {
+  gameId: string;
+  innings: number;
+  batsFirst: boolean;
+  lineup: LineupSpot[];
+  startingPitcher: string;
+  opponentBatters: number;
+}
+
+export interface Runner {
+  // Our athlete on base; null for opposing runners
+  athleteId: string | null;
+  spot: number;
+  // Our pitcher who put an opposing runner on base and is charged if they score
+  pitcherId: string | null;
+  // False once the runner has reached on an error
+  earned: boolean;
+}
+
+export interface ScorebookState {
+  inning: number;
+  half: Half;
+  outs: number;
+  batting: Side;
+  // First, second and third
+  bases: (Runner | null)[];
+  // Next spot up in each batting order
+  dueUp: Record<Side, number>;
+  lineup: LineupSpot[];
+  pitcherId: string;
+  // Runs by inning
+  runs: Record<Side, number[]>;
+  hits: Record<Side, number>;
+  // Errors committed by each side's fielders
+  errors: Record<Side, number>;
+}
+
+// A play with the situation it happened in
+export interface PlayedPlay {
+  play: ScorebookPlay;
+  inning: number;
+  half: Half;
+  batting: Side;
+  outs: number;
+  // Spot in the batting order at the plate, for plate appearances
+  spot: number | null;
+  // Our batter at the plate, for our plate appearances
+  batterId: string | null;
+  // Our pitcher while the opponent bats
+  pitcherId: string | null;
+  runs: number;
+}
+
+export const BATTING_STAT_KEYS = [
+  'at_bats',
+  'hits',
+  'runs',
+  'rbi',
+  'home_runs',
+  'walks',
+  'strikeouts',
+  'hit_by_pitch',
+  'sacrifice_flies',
+  'total_bases',
+  'stolen_bases'
+];
+export const PITCHING_STAT_KEYS = [
+  'innings_pitched',
+  'hits_allowed',
+  'earned_runs',
+  'pitching_strikeouts',
+  'pitching_walks',
+  'pitches'
+];
+export const FIELDING_STAT_KEYS = ['putouts', 'assists', 'errors'];
+
+// Per athlete totals, keyed by stat; innings_pitched is kept as outs until
+// the end
+type PlayerTotals = Record<string, number>;
+
+const RESULTS = new Map(PLATE_RESULTS.map(definition => [definition.value, definition]));
+const POSITION_NUMBERS = new Map(FIELD_POSITIONS.map(({ position, number }) => [position, number]));
+const CATCHER = 2;
+
+export function getPlateResult(value: PlateResult) {
+  return RESULTS.get(value) as PlateResultDefinition;
+}
+
+export function getDiamondSport(slug: string | undefined): DiamondSport | null {
+  return slug === 'baseball' || slug === 'softball' ? slug : null;
+}
+
+export const other = (side: Side): Side => (side === 'us' ? 'them' : 'us');
+
+export function getBattingSide(half: Half, batsFirst: boolean): Side {
+  return (half === 'top') === batsFirst ? 'us' : 'them';
+}
+
+// "6-4-3" to [6, 4, 3]; anything that is not a position number is dropped
+export function parseFielders(notation: string): number[] {
+  return (notation.match(/\d/g) ?? []).map(Number).filter(number => number >= 1 && number <= 9);
+}
+
+export function formatFielders(fielders: number[] | undefined) {
+  return fielders?.length ? fielders.join('-') : '';
+}
+
+const occupiedBases = (bases: (Runner | null)[]) =>
+  ([1, 2, 3] as Base[]).filter(base => bases[base - 1] !== null);
+
+// Forced runners move up one base; everyone else holds
+function forcedMoves(bases: (Runner | null)[]): RunnerMove[] {
+  const moves: RunnerMove[] = [];
+  let forced = true;
+  for (const base of [1, 2, 3] as Base[]) {
+    if (!bases[base - 1]) forced = false;
+    if (bases[base - 1]) moves.push({ from: base, to: forced ? ((base + 1) as Base | 4) : base });
+  }
+  return moves;
+}
+
+// Where the batter and runners usually end up on a result, as a starting
+// point for the scorer to adjust
+export function getDefaultRunners(state: Pick<ScorebookState, 'bases' | 'outs'>, value: PlateResult): RunnerMove[] {
+  const definition = getPlateResult(value);
+  const occupied = occupiedBases(state.bases);
+  const batter: RunnerMove = { from: 0, to: definition.bases === 0 ? 'out' : definition.bases };
+  const lead = occupied.includes(1) ? 1 : occupied[occupied.length - 1];
+
+  let runners: RunnerMove[];
+  switch (value) {
+    case 'single':
+    case 'double':
+    case 'triple':
+    case 'home_run':
+      runners = occupied.map(base => ({ from: base, to: Math.min(4, base + definition.bases) as Base | 4 }));
+      break;
+    case 'walk':
+    case 'intentional_walk':
+    case 'hit_by_pitch':
+    case 'reached_on_error':
+      runners = forcedMoves(state.bases);
+      break;
+    case 'sacrifice_bunt':
+      runners = occupied.map(base => ({ from: base, to: (base + 1) as Base | 4 }));
+      break;
+    case 'sacrifice_fly':
+      runners = occupied.map(base => ({ from: base, to: base === 3 ? 4 : base }));
+      break;
+    case 'fielders_choice':
+    case 'double_play':
+      // The runner from first is usually the one thrown out
+      runners = occupied.map(base => ({ from: base, to: base === lead ? 'out' : base }));
+      break;
+    default:
+      runners = occupied.map(base => ({ from: base, to: base }));
+  }
+  return [batter, ...runners.reverse()];
+}
+
+export function getDefaultBaserunning(state: Pick<ScorebookState, 'bases'>, kind: BaserunningKind): RunnerMove[] {
+  const occupied = occupiedBases(state.bases);
+  // The lead runner with an open base ahead of them
+  const runner = [...occupied].reverse().find(base => base === 3 || !state.bases[base]);
+
+  switch (kind) {
+    case 'stolen_base':
+      return runner ? [{ from: runner, to: (runner + 1) as Base | 4 }] : [];
+    case 'caught_stealing':
+      return runner ? [{ from: runner, to: 'out' }] : [];
+    case 'pickoff':
+      return occupied.length > 0 ? [{ from: occupied[0], to: 'out' }] : [];
+    default:
+      return [...occupied].reverse().map(base => ({ from: base, to: (base + 1) as Base | 4 }));
+  }
+}
+
+// Why a set of runner moves can't be recorded, or null when it can. Every
+// runner on base and, on plate appearances, the batter must be accounted
+// for, nobody moves backwards and no two runners share a base.
+export function validateRunners(
+  state: Pick<ScorebookState, 'bases'>,
+  runners: RunnerMove[],
+  withBatter: boolean
+): string | null {
+  const occupied = occupiedBases(state.bases);
+  const from = runners.map(move => move.from);
+  if (new Set(from).size !== from.length) return 'A runner is listed twice';
+  if (withBatter && !from.includes(0)) return 'Record where the batter ended up';
+  if (!withBatter && from.includes(0)) return 'Only runners already on base can move';
+  if (runners.some(move => move.from !== 0 && !occupied.includes(move.from))) return 'There is no runner on that base';
+  if (withBatter && occupied.some(base => !from.includes(base))) return 'Record where every runner ended up';
+  if (!withBatter && runners.length === 0) return 'Choose a runner';
+
+  if (runners.some(move => move.to !== 'out' && move.to < move.from)) return 'Runners cannot move backwards';
+
+  const moved = new Set(runners.map(move => move.from));
+  const ending = [
+    ...occupied.filter(base => !moved.has(base)),
+    ...runners.flatMap(move => (move.to === 'out' || move.to === 4 ? [] : [move.to]))
+  ];
+  if (new Set(ending).size !== ending.length) return 'Two runners cannot end on the same base';
+  return null;
+}
+
+const emptyBases = (): (Runner | null)[] => [null, null, null];
+
+const add = (totals: Map<string, PlayerTotals>, athleteId: string | null | undefined, key: string, amount = 1) => {
+  if (!athleteId || amount === 0) return;
+  const line = totals.get(athleteId) ?? {};
+  line[key] = (line[key] ?? 0) + amount;
+  totals.set(athleteId, line);
+};
+
+// Replays a scorebook's plays from the first pitch. Besides where the game
+// stands, returns each play in context and every player's totals.
+export function replayScorebook(book: Pick<Scorebook, 'bats_first' | 'lineup' | 'starting_pitcher' | 'opponent_batters' | 'plays'>) {
+  const state: ScorebookState = {
+    inning: 1,
+    half: 'top',
+    outs: 0,
+    batting: getBattingSide('top', book.bats_first),
+    bases: emptyBases(),
+    dueUp: { us: 0, them: 0 },
+    lineup: book.lineup.map(spot => ({ ...spot })),
+    pitcherId: book.starting_pitcher,
+    runs: { us: [0], them: [0] },
+    hits: { us: 0, them: 0 },
+    errors: { us: 0, them: 0 }
+  };
+  const history: PlayedPlay[] = [];
+  const totals = new Map<string, PlayerTotals>();
+  const appeared = {
+    batting: new Set(book.lineup.map(spot => spot.athleteId)),
+    pitching: new Set([book.starting_pitcher]),
+    fielding: new Set<string>()
+  };
+
+  // Whoever is playing a position number right now
+  const fielderAt = (number: number) =>
+    number === 1
+      ? state.pitcherId
+      : state.lineup.find(spot => POSITION_NUMBERS.get(spot.position) === number)?.athleteId ?? null;
+
+  const creditFielders = (fielders: number[], outs: number, error: boolean) => {
+    if (fielders.length === 0) return;
+    if (error) {
+      add(totals, fielderAt(fielders[fielders.length - 1]), 'errors');
+      return;
+    }
+    for (let i = 0; i < outs; i++) {
+      add(totals, fielderAt(fielders[Math.max(0, fielders.length - 1 - i)]), 'putouts');
+    }
+    for (const number of new Set(fielders.slice(0, -1))) {
+      add(totals, fielderAt(number), 'assists');
+    }
+  };
+
+  const endHalf = () => {
+    state.outs = 0;
+    state.bases = emptyBases();
+    if (state.half === 'top') {
+      state.half = 'bottom';
+    } else {
+      state.half = 'top';
+      state.inning += 1;
+      state.runs.us.push(0);
+      state.runs.them.push(0);
+    }
+    state.batting = getBattingSide(state.half, book.bats_first);
+  };
+
+  // Moves runners, counting outs and runs. Runs don't count when the third
+  // out is the batter before reaching first or a runner forced by the batter.
+  const moveRunners = (moves: RunnerMove[], batter: Runner | null, unearned: boolean) => {
+    const next = [...state.bases];
+    const scored: Runner[] = [];
+    let outs = 0;
+
+    for (const move of [...moves].sort((a, b) => b.from - a.from)) {
+      const runner = move.from === 0 ? batter : state.bases[move.from - 1];
+      if (!runner) continue;
+      if (move.from !== 0) next[move.from - 1] = null;
+      if (move.to === 'out') outs += 1;
+      else if (move.to === 4) scored.push(runner);
+      else next[move.to - 1] = runner;
+    }
+
+    // On plate appearances a runner is forced when every base behind them
+    // was occupied
+    const forced = (base: Base) => batter !== null && state.bases.slice(0, base - 1).every(Boolean);
+    const voided = moves.some(move => move.to === 'out' && (move.from === 0 || forced(move.from)));
+    state.outs += outs;
+    const counted = state.outs >= OUTS_PER_HALF && voided ? [] : scored;
+
+    for (const runner of counted) {
+      state.runs[state.batting][state.inning - 1] += 1;
+      if (state.batting === 'us') {
+        add(totals, runner.athleteId, 'runs');
+      } else if (runner.earned && !unearned) {
+        add(totals, runner.pitcherId, 'earned_runs');
+      }
+    }
+    state.bases = next;
+    return { outs, runs: counted.length };
+  };
+
+  for (const play of book.plays) {
+    const played: PlayedPlay = {
+      play,
+      inning: state.inning,
+      half: state.half,
+      batting: state.batting,
+      outs: state.outs,
+      spot: null,
+      batterId: null,
+      pitcherId: state.batting === 'them' ? state.pitcherId : null,
+      runs: 0
+    };
+    const fielding = state.batting === 'them';
+    if (fielding && (play.type === 'plate_appearance' || play.type === 'baserunning')) {
+      appeared.pitching.add(state.pitcherId);
+      for (const spot of state.lineup) {
+        if (POSITION_NUMBERS.has(spot.position)) appeared.fielding.add(spot.athleteId);
+      }
+      appeared.fielding.add(state.pitcherId);
+    }
+
+    if (play.type === 'plate_appearance') {
+      const definition = getPlateResult(play.result);
+      const size = state.batting === 'us' ? state.lineup.length : book.opponent_batters;
+      const spot = state.dueUp[state.batting] % size;
+      const batterId = state.batting === 'us' ? state.lineup[spot]?.athleteId ?? null : null;
+      played.spot = spot;
+      played.batterId = batterId;
+
+      const error = play.result === 'reached_on_error';
+      const batter: Runner = {
+        athleteId: batterId,
+        spot,
+        pitcherId: fielding ? state.pitcherId : null,
+        earned: !error
+      };
+      const { outs, runs } = moveRunners(play.runners, batter, error);
+      played.runs = runs;
+      state.dueUp[state.batting] = (spot + 1) % size;
+      if (definition.hit) state.hits[state.batting] += 1;
+      if (error) state.errors[other(state.batting)] += 1;
+
+      if (state.batting === 'us') {
+        if (definition.atBat) add(totals, batterId, 'at_bats');
+        if (definition.hit) {
+          add(totals, batterId, 'hits');
+          add(totals, batterId, 'total_bases', definition.bases);
+        }
+        if (play.result === 'home_run') add(totals, batterId, 'home_runs');
+        if (play.result === 'walk' || play.result === 'intentional_walk') add(totals, batterId, 'walks');
+        if (play.result === 'strikeout' || play.result === 'strikeout_looking') add(totals, batterId, 'strikeouts');
+        if (play.result === 'hit_by_pitch') add(totals, batterId, 'hit_by_pitch');
+        if (play.result === 'sacrifice_fly') add(totals, batterId, 'sacrifice_flies');
+        if (definition.rbi) add(totals, batterId, 'rbi', runs);
+      } else {
+        const pitcherId = state.pitcherId;
+        add(totals, pitcherId, 'pitches', play.pitches);
+        add(totals, pitcherId, 'innings_pitched', outs);
+        if (definition.hit) add(totals, pitcherId, 'hits_allowed');
+        if (play.result === 'walk' || play.result === 'intentional_walk') add(totals, pitcherId, 'pitching_walks');
+        if (play.result === 'strikeout' || play.result === 'strikeout_looking') {
+          add(totals, pitcherId, 'pitching_strikeouts');
+          // The catcher is credited with the putout on a strikeout
+          if (!play.fielders?.length && outs > 0) add(totals, fielderAt(CATCHER), 'putouts');
+        }
+        creditFielders(play.fielders ?? [], outs, error);
+      }
+    } else if (play.type === 'baserunning') {
+      const unearned = play.kind === 'error' || play.kind === 'passed_ball';
+      const stolen = play.kind === 'stolen_base'
+        ? play.runners.filter(move => move.to !== 'out').map(move => state.bases[move.from - 1]?.athleteId)
+        : [];
+      const { outs, runs } = moveRunners(play.runners, null, unearned);
+      played.runs = runs;
+      if (play.kind === 'error') state.errors[other(state.batting)] += 1;
+
+      if (state.batting === 'us') {
+        for (const athleteId of stolen) add(totals, athleteId, 'stolen_bases');
+      } else {
+        add(totals, state.pitcherId, 'innings_pitched', outs);
+        creditFielders(play.fielders ?? [], outs, play.kind === 'error');
+      }
+    } else if (play.type === 'substitution') {
+      const replaced = state.lineup[play.spot];
+      if (replaced) {
+        // A pinch runner takes over the runner's place on base
+        for (const runner of state.bases) {
+          if (runner && state.batting === 'us' && runner.spot === play.spot) runner.athleteId = play.athleteId;
+        }
+        state.lineup[play.spot] = { athleteId: play.athleteId, position: play.position };
+        appeared.batting.add(play.athleteId);
+      }
+    } else {
+      state.pitcherId = play.athleteId;
+      appeared.pitching.add(play.athleteId);
+    }
+
+    history.push(played);
+    if (state.outs >= OUTS_PER_HALF) endHalf();
+  }
+
+  return { state, history, totals, appeared };
+}
+
+// "Top 1st", "Bottom 12th"
+export function formatHalfInning(inning: number, half: Half) {
+  return `${half === 'top' ? 'Top' : 'Bottom'} ${formatOrdinal(inning)}`;
+}
+
+export function getRunsTotal(state: Pick<ScorebookState, 'runs'>, side: Side) {
+  return state.runs[side].reduce((sum, runs) => sum + runs, 0);
+}
+
+// Innings pitched from outs, in the usual notation: 5.2 is five and two
+// thirds
+export function formatInningsPitched(outs: number) {
+  return `${Math.floor(outs / OUTS_PER_HALF)}.${outs % OUTS_PER_HALF}`;
+}
+
+// Every player's batting, pitching and fielding line for the game. Lines a
+// player had no part in are null, so stale values are cleared.
+export function getScorebookStats(
+  book: Pick<Scorebook, 'bats_first' | 'lineup' | 'starting_pitcher' | 'opponent_batters' | 'plays'>,
+  formerAthletes: string[] = []
+): GameStatEntry[] {
+  const { totals, appeared } = replayScorebook(book);
+  const athletes = new Set([...appeared.batting, ...appeared.pitching, ...appeared.fielding, ...formerAthletes]);
+
+  return [...athletes].flatMap(athleteId => {
+    const line = totals.get(athleteId) ?? {};
+    const entries = (keys: string[], played: boolean) => keys.map(statKey => ({
+      athleteId,
+      statKey,
+      value: played
+        ? statKey === 'innings_pitched'
+          ? (line[statKey] ?? 0) / OUTS_PER_HALF
+          : line[statKey] ?? 0
+        : null
+    }));
+    return [
+      ...entries(BATTING_STAT_KEYS, appeared.batting.has(athleteId)),
+      ...entries(PITCHING_STAT_KEYS, appeared.pitching.has(athleteId)),
+      ...entries(FIELDING_STAT_KEYS, appeared.fielding.has(athleteId))
+    ];
+  });
+}
+
+const SCOREBOOK_COLUMNS = 'game_id, innings, bats_first, lineup, starting_pitcher, opponent_batters, plays, updated_at';
+
+function toScorebook(row: Omit<ScorebookRow, 'updated_by'>): Scorebook {
+  return {
+    ...row,
+    lineup: row.lineup as unknown as LineupSpot[],
+    plays: (row.plays ?? []) as unknown as ScorebookPlay[]
+  };
+}
+
+// Athletes named anywhere in a scorebook
+function getScorebookAthletes(book: Pick<Scorebook, 'lineup' | 'starting_pitcher' | 'plays'>) {
+  return [
+    ...book.lineup.map(spot => spot.athleteId),
+    book.starting_pitcher,
+    ...book.plays.flatMap(play => (play.type === 'substitution' || play.type === 'pitching_change' ? [play.athleteId] : []))
+  ];
+}
+
+export async function fetchScorebook(gameId: string): Promise<Scorebook | null> {
+  const { data, error } = await supabase
+    .from('scorebooks')
+    .select(SCOREBOOK_COLUMNS)
+    .eq('game_id', gameId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching scorebook:', error);
+    throw error;
+  }
+
+  return data ? toScorebook(data) : null;
+}
+
+// Writes the players' lines to game_stats and the runs to the game's score.
+// Players no longer in the scorebook, or everyone once it is deleted, have
+// their lines cleared.
+async function syncScorebook(gameId: string, book: Scorebook | null, formerAthletes: string[] = []) {
+  const entries = book
+    ? getScorebookStats(book, formerAthletes)
+    : formerAthletes.flatMap(athleteId =>
+      [...BATTING_STAT_KEYS, ...PITCHING_STAT_KEYS, ...FIELDING_STAT_KEYS].map(statKey => ({ athleteId, statKey, value: null }))
+    );
+  await saveGameStats(gameId, entries);
+
+  const state = book && book.plays.length > 0 ? replayScorebook(book).state : null;
+  const { error } = await supabase
+    .from('games')
+    .update({
+      team_score: state ? getRunsTotal(state, 'us') : null,
+      opponent_score: state ? getRunsTotal(state, 'them') : null
+    })
+    .eq('id', gameId);
+
+  if (error) {
+    console.error('Error updating game score:', error);
+    throw error;
+  }
+}
+
+// Starts a scorebook or changes its lineup and settings, keeping its plays
+export async function saveScorebook(book: Scorebook | null, input: ScorebookInput): Promise<Scorebook> {
+  const fields = {
+    innings: input.innings,
+    bats_first: input.batsFirst,
+    lineup: input.lineup as unknown as ScorebookRow['lineup'],
+    starting_pitcher: input.startingPitcher,
+    opponent_batters: input.opponentBatters
+  };
+
+  const { data, error } = book
+    ? await supabase
+      .from('scorebooks')
+      .update(fields)
+      .eq('game_id', book.game_id)
+      .select(SCOREBOOK_COLUMNS)
+      .single()
+    : await supabase
+      .from('scorebooks')
+      .insert({ game_id: input.gameId, ...fields })
+      .select(SCOREBOOK_COLUMNS)
+      .single();
+
+  if (error) {
+    console.error('Error saving scorebook:', error);
+    throw error;
+  }
+
+  const saved = toScorebook(data);
+  await syncScorebook(saved.game_id, saved, book ? getScorebookAthletes(book) : []);
+  return saved;
+}
+
+// Saves the plays after each one is recorded or undone
+export async function saveScorebookPlays(book: Scorebook, plays: ScorebookPlay[]): Promise<Scorebook> {
+  const { data, error } = await supabase
+    .from('scorebooks')
+    .update({ plays: plays as unknown as ScorebookRow['plays'] })
+    .eq('game_id', book.game_id)
+    .select(SCOREBOOK_COLUMNS)
+    .single();
+
+  if (error) {
+    console.error('Error saving plays:', error);
+    throw error;
+  }
+
+  const saved = toScorebook(data);
+  await syncScorebook(saved.game_id, saved, getScorebookAthletes(book));
+  return saved;
+}
+
+// Removes the scorebook along with the lines and score it wrote
+export async function deleteScorebook(book: Scorebook) {
+  const { error } = await supabase
+    .from('scorebooks')
+    .delete()
+    .eq('game_id', book.game_id);
+
+  if (error) {
+    console.error('Error deleting scorebook:', error);
+    throw error;
+  }
+
+  await syncScorebook(book.game_id, null, [...new Set(getScorebookAthletes(book))]);
+}
@@ -0,0 +1,172 @@
+import { supabase } from '@/lib/supabase';
+
+export interface Season {
+  id: string;
+  sport_id: string;
+  sport_name: string;
+  name: string;
+  start_date: string;
+  end_date: string;
+}
+
+export interface NewSeason {
+  sportId: string;
+  name: string;
+  startDate: string;
+  endDate: string;
+}
+
+export interface AdvanceSeasonResult {
+  teams: number;
+  athletes: number;
+  graduated: number;
+}
+
+const ERROR_MESSAGES: Record<string, string> = {
+  not_authenticated: 'Please sign in to manage seasons',
+  not_authorized: 'You can only manage seasons for sports you coach',
+  not_found: 'That season no longer exists',
+  invalid_dates: 'The season must end after it starts',
+  invalid_season: 'The next season must be for the same sport and start later',
+  season_exists: 'A season with this name already exists for this sport'
+};
+
+function toSeasonError(error: { message: string }) {
+  return ERROR_MESSAGES[error.message] ? new Error(ERROR_MESSAGES[error.message]) : null;
+}
+
+// Today as YYYY-MM-DD in local time, to compare with season dates
+export function getToday() {
+  const now = new Date();
+  return [
+    now.getFullYear(),
+    String(now.getMonth() + 1).padStart(2, '0'),
+    String(now.getDate()).padStart(2, '0')
+  ].join('-');
+}
+
+export function isSeasonActive(season: Pick<Season, 'start_date' | 'end_date'>, today = getToday()) {
+  return season.start_date <= today && today <= season.end_date;
+}
+
+// The current season of each sport: the one covering today, otherwise the
+// latest that has started, otherwise the earliest upcoming one
+export function getCurrentSeasonIds(seasons: Season[], today = getToday()): Set<string> {
+  const bySport = new Map<string, Season[]>();
+  for (const season of seasons) {
+    bySport.set(season.sport_id, [...(bySport.get(season.sport_id) ?? []), season]);
+  }
+
+  const current = new Set<string>();
+  for (const sportSeasons of bySport.values()) {
+    const sorted = [...sportSeasons].sort((a, b) => b.start_date.localeCompare(a.start_date));
+    const season =
+      sorted.find(s => isSeasonActive(s, today)) ??
+      sorted.find(s => s.start_date <= today) ??
+      sorted[sorted.length - 1];
+    current.add(season.id);
+  }
+  return current;
+}
+
+// Season names across all sports, newest first, for the season selector
+export function getSeasonNames(seasons: Season[]): string[] {
+  const latestStart = new Map<string, string>();
+  for (const season of seasons) {
+    const start = latestStart.get(season.name);
+    if (!start || season.start_date > start) latestStart.set(season.name, season.start_date);
+  }
+  return [...latestStart.entries()]
+    .sort((a, b) => b[1].localeCompare(a[1]))
+    .map(([name]) => name);
+}
+
+// Season ids matching the selector: a season name, or null for each sport's
+// current season
+export function getSelectedSeasonIds(seasons: Season[], selected: string | null): Set<string> {
+  if (selected === null) return getCurrentSeasonIds(seasons);
+  return new Set(seasons.filter(season => season.name === selected).map(season => season.id));
+}
+
+function shiftDate(date: string, years: number) {
+  const [year, month, day] = date.split('-');
+  // February 29 becomes February 28 outside leap years
+  const shifted = new Date(Date.UTC(Number(year) + years, Number(month) - 1, Number(day)));
+  if (shifted.getUTCDate() !== Number(day)) shifted.setUTCDate(0);
+  return shifted.toISOString().slice(0, 10);
+}
+
+// Suggested name and dates for the season after this one, e.g. "2024-25"
+// becomes "2025-26" and "Fall 2024" becomes "Fall 2025"
+export function getNextSeasonDefaults(season: Season): Omit<NewSeason, 'sportId'> {
+  const range = /\b(\d{4})-(\d{4}|\d{2})\b/;
+  const name = range.test(season.name)
+    ? season.name.replace(range, (_, start: string, end: string) => {
+        const next = Number(start) + 1;
+        return `${next}-${end.length === 4 ? next + 1 : String(next + 1).slice(-2)}`;
+      })
+    : season.name.replace(/\b\d{4}\b/g, year => String(Number(year) + 1));
+
+  return {
+    name: name === season.name ? `${season.name} (next)` : name,
+    startDate: shiftDate(season.start_date, 1),
+    endDate: shiftDate(season.end_date, 1)
+  };
+}
+
+// Seasons in the user's organization, newest first
+export async function fetchSeasons(): Promise<Season[]> {
+  const { data, error } = await supabase
+    .from('seasons')
+    .select('id, sport_id, name, start_date, end_date, sports (name)')
+    .order('start_date', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching seasons:', error);
+    throw error;
+  }
+
+  const rows = (data ?? []) as unknown as (Omit<Season, 'sport_name'> & {
+    sports: { name: string } | null;
+  })[];
+
+  return rows.map(({ sports, ...season }) => ({
+    ...season,
+    sport_name: sports?.name ?? ''
+  }));
+}
+
+export async function createSeason(season: NewSeason): Promise<string> {
+  const { data, error } = await supabase.rpc('create_season', {
+    p_sport_id: season.sportId,
+    p_name: season.name,
+    p_start_date: season.startDate,
+    p_end_date: season.endDate
+  });
+
+  if (error) {
+    const seasonError = toSeasonError(error);
+    if (seasonError) throw seasonError;
+    console.error('Error creating season:', error);
+    throw error;
+  }
+
+  return data as string;
+}
+
+// Carries teams, coaches and returning athletes into a later season
+export async function advanceSeason(fromSeasonId: string, toSeasonId: string): Promise<AdvanceSeasonResult> {
+  const { data, error } = await supabase.rpc('advance_season', {
+    p_from_season_id: fromSeasonId,
+    p_to_season_id: toSeasonId
+  });
+
+  if (error) {
+    const seasonError = toSeasonError(error);
+    if (seasonError) throw seasonError;
+    console.error('Error advancing season:', error);
+    throw error;
+  }
+
+  return data as AdvanceSeasonResult;
+}
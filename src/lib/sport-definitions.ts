@@ -0,0 +1,872 @@
+// Per-sport configuration behind the sport dashboards: the positions on a
+// roster, the stats recorded in competition, the test metrics tracked in
+// training and the kinds of events on the schedule
+
+// How game values roll up into a season line: totals, per-game averages,
+// season bests, a ratio computed from totals, or the sum of other computed
+// stats
+export type StatAggregation = 'sum' | 'avg' | 'max' | 'min' | 'ratio' | 'combined';
+
+export interface StatDefinition {
+  key: string;
+  label: string;
+  // Short column heading, e.g. "RBI"
+  abbreviation: string;
+  unit?: string;
+  aggregation: StatAggregation;
+  // Ratio stats are computed, never entered: numerator / denominator * scale,
+  // where each side is one stat's total or the sum of several
+  ratio?: { numerator: string | string[]; denominator: string | string[]; scale?: number };
+  // Combined stats add up other computed stats, e.g. OPS from OBP and SLG
+  combines?: string[];
+  decimals?: number;
+  // Which way a single game's value counts as a personal record. Stats
+  // without one, like errors or attempts, are not tracked as records.
+  best?: 'high' | 'low';
+}
+
+export interface StatCategory {
+  key: string;
+  label: string;
+  stats: StatDefinition[];
+}
+
+export interface MetricDefinition {
+  key: string;
+  label: string;
+  unit: string;
+  // Whether a lower value is better, e.g. sprint times
+  lowerIsBetter?: boolean;
+}
+
+export interface EventTypeDefinition {
+  value: string;
+  label: string;
+}
+
+export interface SportDefinition {
+  slug: string;
+  name: string;
+  description: string;
+  // Hero background glows
+  accent: { primary: string; secondary: string };
+  positions: string[];
+  statCategories: StatCategory[];
+  metrics: MetricDefinition[];
+  eventTypes: EventTypeDefinition[];
+  // Whether the lower score wins a match, as in golf
+  lowScoreWins?: boolean;
+}
+
+const stat = (
+  key: string,
+  label: string,
+  abbreviation: string,
+  unit?: string,
+  aggregation: StatAggregation = 'sum'
+): StatDefinition => ({
+  key,
+  label,
+  abbreviation,
+  unit,
+  aggregation
+});
+
+const record = (definition: StatDefinition, best: 'high' | 'low' = 'high'): StatDefinition => ({
+  ...definition,
+  best
+});
+
+const ratio = (
+  key: string,
+  label: string,
+  abbreviation: string,
+  numerator: string | string[],
+  denominator: string | string[],
+  { scale, decimals = 1, unit }: { scale?: number; decimals?: number; unit?: string } = {}
+): StatDefinition => ({
+  key,
+  label,
+  abbreviation,
+  unit,
+  aggregation: 'ratio',
+  ratio: { numerator, denominator, scale },
+  decimals
+});
+
+const percentage = (key: string, label: string, abbreviation: string, numerator: string, denominator: string) =>
+  ratio(key, label, abbreviation, numerator, denominator, { scale: 100, unit: '%' });
+
+const combined = (key: string, label: string, abbreviation: string, combines: string[], decimals: number): StatDefinition => ({
+  key,
+  label,
+  abbreviation,
+  aggregation: 'combined',
+  combines,
+  decimals
+});
+
+const PRACTICE: EventTypeDefinition = { value: 'practice', label: 'Practice' };
+
+const GAME_EVENTS: EventTypeDefinition[] = [
+  { value: 'game', label: 'Game' },
+  PRACTICE,
+  { value: 'scrimmage', label: 'Scrimmage' },
+  { value: 'tournament', label: 'Tournament' }
+];
+
+const MATCH_EVENTS: EventTypeDefinition[] = [
+  { value: 'match', label: 'Match' },
+  PRACTICE,
+  { value: 'tournament', label: 'Tournament' }
+];
+
+const MEET_EVENTS: EventTypeDefinition[] = [
+  { value: 'meet', label: 'Meet' },
+  PRACTICE,
+  { value: 'invitational', label: 'Invitational' }
+];
+
+const COMPETITION_EVENTS: EventTypeDefinition[] = [
+  { value: 'competition', label: 'Competition' },
+  PRACTICE,
+  { value: 'performance', label: 'Performance' }
+];
+
+const SPRINT_40: MetricDefinition = { key: 'sprint_40', label: '40-Yard Dash', unit: 's', lowerIsBetter: true };
+const VERTICAL_JUMP: MetricDefinition = { key: 'vertical_jump', label: 'Vertical Jump', unit: 'in' };
+const MILE: MetricDefinition = { key: 'mile', label: 'Mile Run', unit: 's', lowerIsBetter: true };
+const SHUTTLE: MetricDefinition = { key: 'shuttle', label: '5-10-5 Shuttle', unit: 's', lowerIsBetter: true };
+const BENCH_PRESS: MetricDefinition = { key: 'bench_press', label: 'Max Bench Press', unit: 'lb' };
+const SQUAT: MetricDefinition = { key: 'squat', label: 'Max Squat', unit: 'lb' };
+
+// Tests any team can run on a testing day, whatever the sport
+export const STANDARD_TESTS: MetricDefinition[] = [
+  SPRINT_40,
+  VERTICAL_JUMP,
+  { key: 'broad_jump', label: 'Broad Jump', unit: 'in' },
+  SHUTTLE,
+  { key: 'three_cone', label: '3-Cone Drill', unit: 's', lowerIsBetter: true },
+  MILE,
+  BENCH_PRESS,
+  SQUAT,
+  { key: 'push_ups', label: 'Push-Ups', unit: 'reps' },
+  { key: 'pull_ups', label: 'Pull-Ups', unit: 'reps' }
+];
+
+const DIAMOND_POSITIONS = ['P', 'C', '1B', '2B', '3B', 'SS', 'LF', 'CF', 'RF', 'DH'];
+
+// ERA and strikeout rate are scaled to a regulation game: nine innings in
+// baseball, seven in softball
+const diamondStats = (regulationInnings: number): StatCategory[] => [
+  {
+    key: 'batting',
+    label: 'Batting',
+    stats: [
+      stat('at_bats', 'At Bats', 'AB'),
+      record(stat('hits', 'Hits', 'H')),
+      record(stat('runs', 'Runs', 'R')),
+      record(stat('rbi', 'Runs Batted In', 'RBI')),
+      record(stat('home_runs', 'Home Runs', 'HR')),
+      stat('walks', 'Walks', 'BB'),
+      stat('strikeouts', 'Strikeouts', 'SO'),
+      stat('hit_by_pitch', 'Hit by Pitch', 'HBP'),
+      stat('sacrifice_flies', 'Sacrifice Flies', 'SF'),
+      record(stat('total_bases', 'Total Bases', 'TB')),
+      record(stat('stolen_bases', 'Stolen Bases', 'SB')),
+      ratio('batting_average', 'Batting Average', 'AVG', 'hits', 'at_bats', { decimals: 3 }),
+      ratio(
+        'on_base_percentage',
+        'On-Base Percentage',
+        'OBP',
+        ['hits', 'walks', 'hit_by_pitch'],
+        ['at_bats', 'walks', 'hit_by_pitch', 'sacrifice_flies'],
+        { decimals: 3 }
+      ),
+      ratio('slugging_percentage', 'Slugging Percentage', 'SLG', 'total_bases', 'at_bats', { decimals: 3 }),
+      combined('ops', 'On-Base Plus Slugging', 'OPS', ['on_base_percentage', 'slugging_percentage'], 3)
+    ]
+  },
+  {
+    key: 'pitching',
+    label: 'Pitching',
+    stats: [
+      stat('innings_pitched', 'Innings Pitched', 'IP'),
+      stat('hits_allowed', 'Hits Allowed', 'H'),
+      stat('earned_runs', 'Earned Runs', 'ER'),
+      record(stat('pitching_strikeouts', 'Strikeouts', 'K')),
+      stat('pitching_walks', 'Walks', 'BB'),
+      stat('pitches', 'Pitches', 'PC'),
+      ratio('era', 'Earned Run Average', 'ERA', 'earned_runs', 'innings_pitched', {
+        scale: regulationInnings,
+        decimals: 2
+      }),
+      ratio('whip', 'Walks and Hits per Inning', 'WHIP', ['pitching_walks', 'hits_allowed'], 'innings_pitched', {
+        decimals: 2
+      }),
+      ratio(
+        'strikeout_rate',
+        `Strikeouts per ${regulationInnings} Innings`,
+        `K/${regulationInnings}`,
+        'pitching_strikeouts',
+        'innings_pitched',
+        { scale: regulationInnings, decimals: 1 }
+      )
+    ]
+  },
+  {
+    key: 'fielding',
+    label: 'Fielding',
+    stats: [
+      stat('putouts', 'Putouts', 'PO'),
+      record(stat('assists', 'Assists', 'A')),
+      stat('errors', 'Errors', 'E')
+    ]
+  }
+];
+
+export const SPORT_DEFINITIONS: SportDefinition[] = [
+  {
+    slug: 'baseball',
+    name: 'Baseball',
+    description: 'Batting, pitching and fielding for every player on the diamond',
+    accent: { primary: 'bg-red-500/30', secondary: 'bg-orange-600/20' },
+    positions: DIAMOND_POSITIONS,
+    statCategories: diamondStats(9),
+    metrics: [
+      { key: 'exit_velocity', label: 'Exit Velocity', unit: 'mph' },
+      { key: 'pitch_velocity', label: 'Pitch Velocity', unit: 'mph' },
+      { key: 'sprint_60', label: '60-Yard Dash', unit: 's', lowerIsBetter: true },
+      { key: 'pop_time', label: 'Pop Time', unit: 's', lowerIsBetter: true }
+    ],
+    eventTypes: GAME_EVENTS
+  },
+  {
+    slug: 'basketball',
+    name: 'Basketball',
+    description: 'Scoring, rebounding and playmaking for your lineup',
+    accent: { primary: 'bg-orange-500/30', secondary: 'bg-red-600/20' },
+    positions: ['PG', 'SG', 'SF', 'PF', 'C'],
+    statCategories: [
+      {
+        key: 'scoring',
+        label: 'Scoring',
+        stats: [
+          record(stat('points', 'Points', 'PTS')),
+          stat('field_goals_made', 'Field Goals Made', 'FGM'),
+          stat('field_goals_attempted', 'Field Goals Attempted', 'FGA'),
+          record(stat('threes_made', 'Three Pointers Made', '3PM')),
+          stat('threes_attempted', 'Three Pointers Attempted', '3PA'),
+          stat('free_throws_made', 'Free Throws Made', 'FTM'),
+          stat('free_throws_attempted', 'Free Throws Attempted', 'FTA'),
+          percentage('field_goal_percentage', 'Field Goal Percentage', 'FG%', 'field_goals_made', 'field_goals_attempted'),
+          percentage('three_percentage', 'Three Point Percentage', '3P%', 'threes_made', 'threes_attempted'),
+          percentage('free_throw_percentage', 'Free Throw Percentage', 'FT%', 'free_throws_made', 'free_throws_attempted')
+        ]
+      },
+      {
+        key: 'floor',
+        label: 'Rebounding & Playmaking',
+        stats: [
+          record(stat('rebounds', 'Rebounds', 'REB')),
+          record(stat('assists', 'Assists', 'AST')),
+          record(stat('steals', 'Steals', 'STL')),
+          record(stat('blocks', 'Blocks', 'BLK')),
+          stat('turnovers', 'Turnovers', 'TO'),
+          stat('minutes', 'Minutes', 'MIN', 'min')
+        ]
+      }
+    ],
+    metrics: [
+      VERTICAL_JUMP,
+      { key: 'lane_agility', label: 'Lane Agility', unit: 's', lowerIsBetter: true },
+      { key: 'sprint_three_quarter', label: '3/4 Court Sprint', unit: 's', lowerIsBetter: true }
+    ],
+    eventTypes: GAME_EVENTS
+  },
+  {
+    slug: 'biking',
+    name: 'Biking',
+    description: 'Race results and training power for your riders',
+    accent: { primary: 'bg-blue-500/30', secondary: 'bg-cyan-600/20' },
+    positions: ['Sprinter', 'Climber', 'All-Rounder'],
+    statCategories: [
+      {
+        key: 'race',
+        label: 'Race',
+        stats: [
+          record(stat('distance', 'Distance', 'DIST', 'mi')),
+          stat('time', 'Time', 'TIME', 's'),
+          record(stat('average_speed', 'Average Speed', 'AVG', 'mph', 'avg')),
+          record(stat('place', 'Best Place', 'PL', undefined, 'min'), 'low')
+        ]
+      }
+    ],
+    metrics: [
+      { key: 'ftp', label: 'Functional Threshold Power', unit: 'W' },
+      { key: 'max_heart_rate', label: 'Max Heart Rate', unit: 'bpm' },
+      { key: 'vo2_max', label: 'VO2 Max', unit: 'ml/kg/min' }
+    ],
+    eventTypes: [
+      { value: 'race', label: 'Race' },
+      PRACTICE,
+      { value: 'time_trial', label: 'Time Trial' }
+    ]
+  },
+  {
+    slug: 'bowling',
+    name: 'Bowling',
+    description: 'Games, series and averages for every bowler',
+    accent: { primary: 'bg-indigo-500/30', secondary: 'bg-purple-600/20' },
+    positions: ['Leadoff', 'Bowler', 'Anchor'],
+    statCategories: [
+      {
+        key: 'games',
+        label: 'Games',
+        stats: [
+          stat('games', 'Games', 'G'),
+          stat('pins', 'Pinfall', 'PINS'),
+          record(stat('high_game', 'High Game', 'HG', undefined, 'max')),
+          record(stat('high_series', 'High Series', 'HS', undefined, 'max')),
+          record(stat('strikes', 'Strikes', 'X')),
+          stat('spares', 'Spares', 'SP'),
+          stat('opens', 'Open Frames', 'OPEN'),
+          stat('strike_chances', 'Strike Chances', 'XC'),
+          stat('spare_chances', 'Spare Chances', 'SPC'),
+          stat('splits', 'Splits', 'SPL'),
+          stat('fouls', 'Fouls', 'F'),
+          ratio('average', 'Average', 'AVG', 'pins', 'games'),
+          percentage('strike_pct', 'Strike Percentage', 'X%', 'strikes', 'strike_chances'),
+          percentage('spare_pct', 'Spare Conversion', 'SP%', 'spares', 'spare_chances')
+        ]
+      }
+    ],
+    metrics: [
+      { key: 'ball_speed', label: 'Ball Speed', unit: 'mph' },
+      { key: 'rev_rate', label: 'Rev Rate', unit: 'rpm' }
+    ],
+    eventTypes: MATCH_EVENTS
+  },
+  {
+    slug: 'cheer',
+    name: 'Cheer',
+    description: 'Competition scores and skills for your squad',
+    accent: { primary: 'bg-rose-500/30', secondary: 'bg-pink-600/20' },
+    positions: ['Flyer', 'Base', 'Back Spot', 'Tumbler'],
+    statCategories: [
+      {
+        key: 'competition',
+        label: 'Competition',
+        stats: [
+          record(stat('score', 'Score', 'SCORE', 'pts', 'avg')),
+          stat('deductions', 'Deductions', 'DED', 'pts'),
+          record(stat('place', 'Best Place', 'PL', undefined, 'min'), 'low')
+        ]
+      }
+    ],
+    metrics: [
+      { key: 'flexibility', label: 'Sit and Reach', unit: 'in' },
+      VERTICAL_JUMP
+    ],
+    eventTypes: [...COMPETITION_EVENTS, { value: 'game', label: 'Game' }]
+  },
+  {
+    slug: 'dance',
+    name: 'Dance',
+    description: 'Competition scores and rehearsals for your company',
+    accent: { primary: 'bg-fuchsia-500/30', secondary: 'bg-pink-600/20' },
+    positions: ['Captain', 'Soloist', 'Ensemble'],
+    statCategories: [
+      {
+        key: 'competition',
+        label: 'Competition',
+        stats: [
+          record(stat('score', 'Score', 'SCORE', 'pts', 'avg')),
+          record(stat('place', 'Best Place', 'PL', undefined, 'min'), 'low')
+        ]
+      }
+    ],
+    metrics: [
+      { key: 'flexibility', label: 'Sit and Reach', unit: 'in' },
+      { key: 'turns', label: 'Consecutive Turns', unit: 'turns' }
+    ],
+    eventTypes: COMPETITION_EVENTS
+  },
+  {
+    slug: 'fitness',
+    name: 'Fitness',
+    description: 'Strength and conditioning for every athlete',
+    accent: { primary: 'bg-purple-500/30', secondary: 'bg-indigo-600/20' },
+    positions: [],
+    statCategories: [],
+    metrics: [
+      BENCH_PRESS,
+      SQUAT,
+      { key: 'deadlift', label: 'Max Deadlift', unit: 'lb' },
+      { key: 'push_ups', label: 'Push-Ups', unit: 'reps' },
+      MILE
+    ],
+    eventTypes: [
+      { value: 'session', label: 'Training Session' },
+      { value: 'testing', label: 'Testing Day' }
+    ]
+  },
+  {
+    slug: 'football',
+    name: 'Football',
+    description: 'Offense, defense and special teams production',
+    accent: { primary: 'bg-blue-500/30', secondary: 'bg-indigo-600/20' },
+    positions: ['QB', 'RB', 'WR', 'TE', 'OL', 'DL', 'LB', 'CB', 'S', 'K', 'P'],
+    statCategories: [
+      {
+        key: 'passing',
+        label: 'Passing',
+        stats: [
+          stat('completions', 'Completions', 'CMP'),
+          stat('pass_attempts', 'Attempts', 'ATT'),
+          record(stat('passing_yards', 'Passing Yards', 'YDS', 'yd')),
+          record(stat('passing_touchdowns', 'Passing Touchdowns', 'TD')),
+          stat('interceptions_thrown', 'Interceptions', 'INT'),
+          percentage('completion_percentage', 'Completion Percentage', 'CMP%', 'completions', 'pass_attempts')
+        ]
+      },
+      {
+        key: 'rushing',
+        label: 'Rushing & Receiving',
+        stats: [
+          stat('carries', 'Carries', 'CAR'),
+          record(stat('rushing_yards', 'Rushing Yards', 'RUSH', 'yd')),
+          record(stat('receptions', 'Receptions', 'REC')),
+          record(stat('receiving_yards', 'Receiving Yards', 'RECYD', 'yd')),
+          record(stat('touchdowns', 'Touchdowns', 'TD')),
+          ratio('yards_per_carry', 'Yards per Carry', 'YPC', 'rushing_yards', 'carries', { unit: 'yd' })
+        ]
+      },
+      {
+        key: 'defense',
+        label: 'Defense',
+        stats: [
+          record(stat('tackles', 'Tackles', 'TKL')),
+          record(stat('sacks', 'Sacks', 'SCK')),
+          record(stat('interceptions', 'Interceptions', 'INT')),
+          stat('forced_fumbles', 'Forced Fumbles', 'FF')
+        ]
+      }
+    ],
+    metrics: [
+      SPRINT_40,
+      BENCH_PRESS,
+      VERTICAL_JUMP,
+      SHUTTLE
+    ],
+    eventTypes: GAME_EVENTS
+  },
+  {
+    slug: 'golf',
+    name: 'Golf',
+    description: 'Rounds, putting and ball striking for your players',
+    accent: { primary: 'bg-green-500/30', secondary: 'bg-emerald-600/20' },
+    positions: [],
+    statCategories: [
+      {
+        key: 'rounds',
+        label: 'Rounds',
+        stats: [
+          record(stat('strokes', 'Scoring Average', 'STR', undefined, 'avg'), 'low'),
+          stat('putts', 'Putts per Round', 'PUTT', undefined, 'avg'),
+          stat('holes', 'Holes', 'H'),
+          stat('fairways_hit', 'Fairways Hit', 'FIR'),
+          stat('fairway_chances', 'Fairway Chances', 'FC'),
+          stat('greens_in_regulation', 'Greens in Regulation', 'GIR'),
+          percentage('fairway_pct', 'Fairways Hit %', 'FIR%', 'fairways_hit', 'fairway_chances'),
+          percentage('gir_pct', 'Greens in Regulation %', 'GIR%', 'greens_in_regulation', 'holes')
+        ]
+      }
+    ],
+    metrics: [
+      { key: 'driving_distance', label: 'Driving Distance', unit: 'yd' },
+      { key: 'club_head_speed', label: 'Club Head Speed', unit: 'mph' }
+    ],
+    eventTypes: [
+      { value: 'match', label: 'Match' },
+      { value: 'practice_round', label: 'Practice Round' },
+      { value: 'tournament', label: 'Tournament' }
+    ],
+    lowScoreWins: true
+  },
+  {
+    slug: 'gymnastics',
+    name: 'Gymnastics',
+    description: 'Apparatus scores and all-around totals',
+    accent: { primary: 'bg-rose-500/30', secondary: 'bg-pink-600/20' },
+    positions: ['All-Around', 'Vault', 'Bars', 'Beam', 'Floor'],
+    statCategories: [
+      {
+        key: 'apparatus',
+        label: 'Apparatus',
+        stats: [
+          record(stat('vault', 'Vault', 'VT', 'pts', 'max')),
+          record(stat('bars', 'Bars', 'UB', 'pts', 'max')),
+          record(stat('beam', 'Beam', 'BB', 'pts', 'max')),
+          record(stat('floor', 'Floor', 'FX', 'pts', 'max')),
+          record(stat('all_around', 'All-Around', 'AA', 'pts', 'max'))
+        ]
+      }
+    ],
+    metrics: [
+      { key: 'flexibility', label: 'Sit and Reach', unit: 'in' },
+      { key: 'rope_climb', label: 'Rope Climb', unit: 's', lowerIsBetter: true }
+    ],
+    eventTypes: MEET_EVENTS
+  },
+  {
+    slug: 'hockey',
+    name: 'Hockey',
+    description: 'Skater and goalie production on the ice',
+    accent: { primary: 'bg-blue-500/30', secondary: 'bg-cyan-600/20' },
+    positions: ['C', 'LW', 'RW', 'D', 'G'],
+    statCategories: [
+      {
+        key: 'skating',
+        label: 'Skaters',
+        stats: [
+          record(stat('goals', 'Goals', 'G')),
+          record(stat('assists', 'Assists', 'A')),
+          stat('plus_minus', 'Plus/Minus', '+/-'),
+          stat('penalty_minutes', 'Penalty Minutes', 'PIM', 'min'),
+          stat('shots', 'Shots on Goal', 'SOG')
+        ]
+      },
+      {
+        key: 'goaltending',
+        label: 'Goaltending',
+        stats: [
+          stat('shots_against', 'Shots Against', 'SA'),
+          record(stat('saves', 'Saves', 'SV')),
+          stat('goals_against', 'Goals Against', 'GA'),
+          ratio('save_percentage', 'Save Percentage', 'SV%', 'saves', 'shots_against', { decimals: 3 })
+        ]
+      }
+    ],
+    metrics: [
+      { key: 'skate_40', label: '40-Yard Skate', unit: 's', lowerIsBetter: true },
+      { key: 'shot_speed', label: 'Shot Speed', unit: 'mph' }
+    ],
+    eventTypes: GAME_EVENTS
+  },
+  {
+    slug: 'lacrosse',
+    name: 'Lacrosse',
+    description: 'Offense, faceoffs and goalkeeping for your roster',
+    accent: { primary: 'bg-blue-500/30', secondary: 'bg-cyan-600/20' },
+    positions: ['A', 'M', 'D', 'LSM', 'FO', 'G'],
+    statCategories: [
+      {
+        key: 'offense',
+        label: 'Offense',
+        stats: [
+          record(stat('goals', 'Goals', 'G')),
+          record(stat('assists', 'Assists', 'A')),
+          stat('shots', 'Shots', 'SH'),
+          record(stat('ground_balls', 'Ground Balls', 'GB'))
+        ]
+      },
+      {
+        key: 'defense',
+        label: 'Defense & Faceoffs',
+        stats: [
+          record(stat('caused_turnovers', 'Caused Turnovers', 'CT')),
+          record(stat('faceoffs_won', 'Faceoffs Won', 'FOW')),
+          stat('faceoffs_taken', 'Faceoffs Taken', 'FOA'),
+          percentage('faceoff_percentage', 'Faceoff Percentage', 'FO%', 'faceoffs_won', 'faceoffs_taken'),
+          record(stat('saves', 'Saves', 'SV')),
+          stat('goals_against', 'Goals Against', 'GA')
+        ]
+      }
+    ],
+    metrics: [
+      SPRINT_40,
+      { key: 'shot_speed', label: 'Shot Speed', unit: 'mph' }
+    ],
+    eventTypes: GAME_EVENTS
+  },
+  {
+    slug: 'pickleball',
+    name: 'Pickleball',
+    description: 'Singles and doubles results for your players',
+    accent: { primary: 'bg-green-500/30', secondary: 'bg-lime-600/20' },
+    positions: ['Singles', 'Doubles'],
+    statCategories: [
+      {
+        key: 'matches',
+        label: 'Matches',
+        stats: [
+          stat('matches_won', 'Matches Won', 'W'),
+          stat('matches_lost', 'Matches Lost', 'L'),
+          stat('games_won', 'Games Won', 'GW'),
+          stat('points_won', 'Points Won', 'PW')
+        ]
+      }
+    ],
+    metrics: [
+      { key: 'dupr', label: 'DUPR Rating', unit: 'rating' }
+    ],
+    eventTypes: MATCH_EVENTS
+  },
+  {
+    slug: 'rugby',
+    name: 'Rugby',
+    description: 'Scoring and defensive work across the fifteen',
+    accent: { primary: 'bg-green-500/30', secondary: 'bg-emerald-600/20' },
+    positions: [
+      'Prop',
+      'Hooker',
+      'Lock',
+      'Flanker',
+      'Number 8',
+      'Scrum-half',
+      'Fly-half',
+      'Centre',
+      'Wing',
+      'Fullback'
+    ],
+    statCategories: [
+      {
+        key: 'scoring',
+        label: 'Scoring',
+        stats: [
+          record(stat('tries', 'Tries', 'T')),
+          stat('conversions', 'Conversions', 'C'),
+          stat('penalty_goals', 'Penalty Goals', 'PG'),
+          record(stat('points', 'Points', 'PTS'))
+        ]
+      },
+      {
+        key: 'defense',
+        label: 'Defense',
+        stats: [
+          record(stat('tackles', 'Tackles', 'TKL')),
+          stat('missed_tackles', 'Missed Tackles', 'MT'),
+          stat('turnovers_won', 'Turnovers Won', 'TW')
+        ]
+      }
+    ],
+    metrics: [
+      { key: 'sprint_40m', label: '40m Sprint', unit: 's', lowerIsBetter: true },
+      { key: 'bronco', label: 'Bronco Test', unit: 's', lowerIsBetter: true }
+    ],
+    eventTypes: GAME_EVENTS
+  },
+  {
+    slug: 'soccer',
+    name: 'Soccer',
+    description: 'Attacking, defending and goalkeeping for your squad',
+    accent: { primary: 'bg-green-500/30', secondary: 'bg-lime-600/20' },
+    positions: ['GK', 'DEF', 'MID', 'FWD'],
+    statCategories: [
+      {
+        key: 'attacking',
+        label: 'Attacking',
+        stats: [
+          record(stat('goals', 'Goals', 'G')),
+          record(stat('assists', 'Assists', 'A')),
+          stat('shots', 'Shots', 'SH'),
+          stat('shots_on_goal', 'Shots on Goal', 'SOG')
+        ]
+      },
+      {
+        key: 'defending',
+        label: 'Defending',
+        stats: [
+          record(stat('tackles', 'Tackles', 'TKL')),
+          record(stat('interceptions', 'Interceptions', 'INT')),
+          stat('clearances', 'Clearances', 'CLR')
+        ]
+      },
+      {
+        key: 'goalkeeping',
+        label: 'Goalkeeping',
+        stats: [
+          record(stat('saves', 'Saves', 'SV')),
+          stat('goals_against', 'Goals Against', 'GA'),
+          stat('minutes', 'Minutes', 'MIN', 'min')
+        ]
+      }
+    ],
+    metrics: [
+      SPRINT_40,
+      { key: 'beep_test', label: 'Beep Test', unit: 'level' },
+      VERTICAL_JUMP
+    ],
+    eventTypes: GAME_EVENTS
+  },
+  {
+    slug: 'softball',
+    name: 'Softball',
+    description: 'Batting, pitching and fielding for every player on the diamond',
+    accent: { primary: 'bg-red-500/30', secondary: 'bg-pink-600/20' },
+    positions: DIAMOND_POSITIONS,
+    statCategories: diamondStats(7),
+    metrics: [
+      { key: 'exit_velocity', label: 'Exit Velocity', unit: 'mph' },
+      { key: 'pitch_velocity', label: 'Pitch Velocity', unit: 'mph' },
+      { key: 'home_to_first', label: 'Home to First', unit: 's', lowerIsBetter: true }
+    ],
+    eventTypes: GAME_EVENTS
+  },
+  {
+    slug: 'swimming',
+    name: 'Swimming',
+    description: 'Meet results and best times for your swimmers',
+    accent: { primary: 'bg-sky-500/30', secondary: 'bg-blue-600/20' },
+    positions: ['Freestyle', 'Backstroke', 'Breaststroke', 'Butterfly', 'IM', 'Distance'],
+    statCategories: [
+      {
+        key: 'races',
+        label: 'Races',
+        stats: [
+          record(stat('time', 'Best Time', 'TIME', 's', 'min'), 'low'),
+          record(stat('place', 'Best Place', 'PL', undefined, 'min'), 'low'),
+          record(stat('points', 'Points', 'PTS'))
+        ]
+      }
+    ],
+    metrics: [
+      { key: 'free_50', label: '50 Free', unit: 's', lowerIsBetter: true },
+      { key: 'free_100', label: '100 Free', unit: 's', lowerIsBetter: true }
+    ],
+    eventTypes: [...MEET_EVENTS, { value: 'time_trial', label: 'Time Trial' }]
+  },
+  {
+    slug: 'tennis',
+    name: 'Tennis',
+    description: 'Singles and doubles results for your lineup',
+    accent: { primary: 'bg-yellow-500/30', secondary: 'bg-amber-600/20' },
+    positions: ['Singles', 'Doubles'],
+    statCategories: [
+      {
+        key: 'matches',
+        label: 'Matches',
+        stats: [
+          stat('matches_won', 'Matches Won', 'W'),
+          stat('matches_lost', 'Matches Lost', 'L'),
+          stat('sets_won', 'Sets Won', 'SW'),
+          stat('games_won', 'Games Won', 'GW')
+        ]
+      },
+      {
+        key: 'serving',
+        label: 'Serving',
+        stats: [
+          record(stat('aces', 'Aces', 'ACE')),
+          stat('double_faults', 'Double Faults', 'DF')
+        ]
+      }
+    ],
+    metrics: [
+      { key: 'serve_speed', label: 'Serve Speed', unit: 'mph' },
+      { key: 'utr', label: 'UTR Rating', unit: 'rating' }
+    ],
+    eventTypes: MATCH_EVENTS
+  },
+  {
+    slug: 'track-and-field',
+    name: 'Track & Field',
+    description: 'Marks and times across sprints, distance, jumps and throws',
+    accent: { primary: 'bg-red-500/30', secondary: 'bg-orange-600/20' },
+    positions: ['Sprints', 'Distance', 'Hurdles', 'Jumps', 'Throws', 'Multi'],
+    statCategories: [
+      {
+        key: 'results',
+        label: 'Results',
+        stats: [
+          record(stat('time', 'Best Time', 'TIME', 's', 'min'), 'low'),
+          record(stat('distance', 'Best Mark', 'MARK', 'in', 'max')),
+          record(stat('place', 'Best Place', 'PL', undefined, 'min'), 'low'),
+          record(stat('points', 'Points', 'PTS'))
+        ]
+      }
+    ],
+    metrics: [
+      { key: 'dash_100m', label: '100m', unit: 's', lowerIsBetter: true },
+      { key: 'dash_400m', label: '400m', unit: 's', lowerIsBetter: true },
+      MILE,
+      { key: 'long_jump', label: 'Long Jump', unit: 'in' },
+      { key: 'shot_put', label: 'Shot Put', unit: 'in' }
+    ],
+    eventTypes: MEET_EVENTS
+  },
+  {
+    slug: 'volleyball',
+    name: 'Volleyball',
+    description: 'Attacking, serving and defense at every rotation',
+    accent: { primary: 'bg-orange-500/30', secondary: 'bg-amber-600/20' },
+    positions: ['S', 'OH', 'MB', 'OPP', 'L', 'DS'],
+    statCategories: [
+      {
+        key: 'attacking',
+        label: 'Attacking',
+        stats: [
+          record(stat('kills', 'Kills', 'K')),
+          stat('attack_errors', 'Attack Errors', 'E'),
+          stat('attack_attempts', 'Attempts', 'TA'),
+          ratio('kills_per_attempt', 'Kill Percentage', 'K%', 'kills', 'attack_attempts', { decimals: 3 }),
+          record(stat('set_assists', 'Assists', 'AST'))
+        ]
+      },
+      {
+        key: 'serving',
+        label: 'Serving & Defense',
+        stats: [
+          record(stat('aces', 'Aces', 'SA')),
+          stat('service_errors', 'Service Errors', 'SE'),
+          record(stat('digs', 'Digs', 'DIG')),
+          record(stat('blocks', 'Blocks', 'BLK'))
+        ]
+      }
+    ],
+    metrics: [
+      { key: 'approach_jump', label: 'Approach Jump', unit: 'in' },
+      { key: 'block_jump', label: 'Block Jump', unit: 'in' },
+      { key: 'serve_speed', label: 'Serve Speed', unit: 'mph' }
+    ],
+    eventTypes: MATCH_EVENTS
+  }
+];
+
+// Every stat of a sport, in display order
+export function getSportStats(sport: SportDefinition): StatDefinition[] {
+  return sport.statCategories.flatMap(category => category.stats);
+}
+
+// The sport's own tests followed by the standard ones it does not already have
+export function getSportTests(sport: SportDefinition | null): MetricDefinition[] {
+  const own = sport?.metrics ?? [];
+  return [...own, ...STANDARD_TESTS.filter(test => !own.some(metric => metric.key === test.key))];
+}
+
+// Stats whose single-game values count as personal records
+export function getRecordStats(sport: SportDefinition): StatDefinition[] {
+  return getSportStats(sport).filter(stat => stat.best);
+}
+
+// Stats a coach enters after a game; ratios are computed from these
+export function isEnteredStat(stat: StatDefinition) {
+  return stat.aggregation !== 'ratio' && stat.aggregation !== 'combined';
+}
+
+// URL slug for a sport name, e.g. "Track & Field" becomes "track-and-field"
+export function getSportSlug(name: string) {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/&/g, 'and')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+// The definition for a URL slug or sport name
+export function getSportDefinition(slugOrName: string): SportDefinition | null {
+  const slug = getSportSlug(slugOrName);
+  return SPORT_DEFINITIONS.find(sport => sport.slug === slug) ?? null;
+}
@@ -0,0 +1,278 @@
+import { supabase } from '@/lib/supabase';
+import type { Database } from '@/lib/supabase-types';
+import type { StatDefinition } from '@/lib/sport-definitions';
+
+type GameRow = Database['public']['Tables']['games']['Row'];
+
+export type Game = Omit<GameRow, 'created_by' | 'created_at' | 'updated_at'>;
+export type HomeAway = NonNullable<GameRow['home_away']>;
+
+export interface NewGame {
+  teamId: string;
+  opponent: string;
+  playedOn: string;
+  homeAway?: HomeAway | null;
+  teamScore?: number | null;
+  opponentScore?: number | null;
+  notes?: string;
+}
+
+export interface GameStat {
+  game_id: string;
+  athlete_id: string;
+  stat_key: string;
+  value: number;
+}
+
+// A value to save from the box score grid; null clears the stat
+export interface GameStatEntry {
+  athleteId: string;
+  statKey: string;
+  value: number | null;
+}
+
+// Stat key to value for one athlete, null where nothing was recorded
+export type StatLine = Record<string, number | null>;
+
+export const HOME_AWAY_OPTIONS: { value: HomeAway; label: string }[] = [
+  { value: 'home', label: 'Home' },
+  { value: 'away', label: 'Away' },
+  { value: 'neutral', label: 'Neutral' }
+];
+
+const GAME_COLUMNS = 'id, team_id, opponent, played_on, home_away, team_score, opponent_score, notes';
+
+// "W 3-1", "L 0-2" or "T 1-1", or null before the score is in. In sports
+// where the low score wins, "W 298-305".
+export function formatGameResult(game: Pick<Game, 'team_score' | 'opponent_score'>, lowScoreWins = false) {
+  if (game.team_score === null || game.opponent_score === null) return null;
+  const margin = lowScoreWins ? game.opponent_score - game.team_score : game.team_score - game.opponent_score;
+  const outcome = margin > 0 ? 'W' : margin < 0 ? 'L' : 'T';
+  return `${outcome} ${game.team_score}-${game.opponent_score}`;
+}
+
+// Parses a grid cell: blank is null, anything else must be a number
+export function parseStatInput(input: string): number | null {
+  const trimmed = input.trim();
+  if (trimmed === '') return null;
+  const value = Number(trimmed);
+  if (!Number.isFinite(value)) throw new Error(`"${input}" is not a number`);
+  return value;
+}
+
+function roundTo(value: number, decimals: number) {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+// Rolls one athlete's game values up into a line, using each stat's
+// aggregation. Ratios divide the totals of their two sides; combined stats
+// add up ratios computed earlier in the list.
+export function aggregateStatLine(stats: StatDefinition[], values: Pick<GameStat, 'stat_key' | 'value'>[]): StatLine {
+  const byKey = new Map<string, number[]>();
+  for (const { stat_key, value } of values) {
+    byKey.set(stat_key, [...(byKey.get(stat_key) ?? []), value]);
+  }
+  const total = (key: string) => (byKey.get(key) ?? []).reduce((sum, value) => sum + value, 0);
+  const totalOf = (keys: string | string[]) =>
+    (Array.isArray(keys) ? keys : [keys]).reduce((sum, key) => sum + total(key), 0);
+
+  const line: StatLine = {};
+  for (const stat of stats) {
+    if (stat.aggregation === 'ratio' && stat.ratio) {
+      const denominator = totalOf(stat.ratio.denominator);
+      line[stat.key] = denominator === 0
+        ? null
+        : (totalOf(stat.ratio.numerator) / denominator) * (stat.ratio.scale ?? 1);
+      continue;
+    }
+
+    if (stat.aggregation === 'combined' && stat.combines) {
+      const parts = stat.combines.map(key => line[key] ?? null);
+      line[stat.key] = parts.some(part => part === null)
+        ? null
+        : parts.reduce<number>((sum, part) => sum + (part ?? 0), 0);
+      continue;
+    }
+
+    const recorded = byKey.get(stat.key);
+    if (!recorded?.length) {
+      line[stat.key] = null;
+      continue;
+    }
+
+    switch (stat.aggregation) {
+      case 'avg':
+        line[stat.key] = total(stat.key) / recorded.length;
+        break;
+      case 'max':
+        line[stat.key] = Math.max(...recorded);
+        break;
+      case 'min':
+        line[stat.key] = Math.min(...recorded);
+        break;
+      default:
+        line[stat.key] = total(stat.key);
+    }
+  }
+  return line;
+}
+
+// Season lines for every athlete with recorded stats
+export function buildStatLines(stats: StatDefinition[], gameStats: GameStat[]): Map<string, StatLine> {
+  const byAthlete = new Map<string, GameStat[]>();
+  for (const gameStat of gameStats) {
+    byAthlete.set(gameStat.athlete_id, [...(byAthlete.get(gameStat.athlete_id) ?? []), gameStat]);
+  }
+  return new Map(
+    [...byAthlete.entries()].map(([athleteId, values]) => [athleteId, aggregateStatLine(stats, values)])
+  );
+}
+
+// Batting-average style ratios drop the leading zero, e.g. ".333"
+export function formatStatValue(stat: StatDefinition, value: number | null | undefined) {
+  if (value === null || value === undefined) return '—';
+
+  let formatted: string;
+  if (stat.decimals !== undefined) {
+    formatted = value.toFixed(stat.decimals);
+    if (stat.decimals === 3 && Math.abs(value) < 1) formatted = formatted.replace(/^(-?)0\./, '$1.');
+  } else if (stat.aggregation === 'avg') {
+    formatted = value.toFixed(1);
+  } else {
+    formatted = String(roundTo(value, 2));
+  }
+
+  return stat.unit === '%' ? `${formatted}%` : formatted;
+}
+
+export async function fetchGames(teamId: string): Promise<Game[]> {
+  const { data, error } = await supabase
+    .from('games')
+    .select(GAME_COLUMNS)
+    .eq('team_id', teamId)
+    .order('played_on', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching games:', error);
+    throw error;
+  }
+
+  return (data ?? []) as Game[];
+}
+
+export async function createGame(game: NewGame): Promise<Game> {
+  const { data, error } = await supabase
+    .from('games')
+    .insert({
+      team_id: game.teamId,
+      opponent: game.opponent.trim(),
+      played_on: game.playedOn,
+      home_away: game.homeAway ?? null,
+      team_score: game.teamScore ?? null,
+      opponent_score: game.opponentScore ?? null,
+      notes: game.notes?.trim() || null
+    })
+    .select(GAME_COLUMNS)
+    .single();
+
+  if (error) {
+    console.error('Error creating game:', error);
+    throw error;
+  }
+
+  return data as Game;
+}
+
+export async function updateGameScore(gameId: string, teamScore: number | null, opponentScore: number | null) {
+  const { error } = await supabase
+    .from('games')
+    .update({ team_score: teamScore, opponent_score: opponentScore })
+    .eq('id', gameId);
+
+  if (error) {
+    console.error('Error updating game score:', error);
+    throw error;
+  }
+}
+
+export async function deleteGame(gameId: string) {
+  const { error } = await supabase
+    .from('games')
+    .delete()
+    .eq('id', gameId);
+
+  if (error) {
+    console.error('Error deleting game:', error);
+    throw error;
+  }
+}
+
+export async function fetchGameStats(gameIds: string[]): Promise<GameStat[]> {
+  if (gameIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('game_stats')
+    .select('game_id, athlete_id, stat_key, value')
+    .in('game_id', gameIds);
+
+  if (error) {
+    console.error('Error fetching game stats:', error);
+    throw error;
+  }
+
+  // numeric columns can arrive as strings
+  return (data ?? []).map(row => ({ ...row, value: Number(row.value) }));
+}
+
+// All stats recorded in a team's games
+export async function fetchTeamGameStats(teamId: string): Promise<{ games: Game[]; stats: GameStat[] }> {
+  const games = await fetchGames(teamId);
+  const stats = await fetchGameStats(games.map(game => game.id));
+  return { games, stats };
+}
+
+// Writes changed cells from the box score grid: values are upserted and
+// cleared cells are deleted
+export async function saveGameStats(gameId: string, entries: GameStatEntry[]) {
+  const upserts = entries
+    .filter(entry => entry.value !== null)
+    .map(entry => ({
+      game_id: gameId,
+      athlete_id: entry.athleteId,
+      stat_key: entry.statKey,
+      value: entry.value as number
+    }));
+
+  if (upserts.length > 0) {
+    const { error } = await supabase
+      .from('game_stats')
+      .upsert(upserts, { onConflict: 'game_id,athlete_id,stat_key' });
+
+    if (error) {
+      console.error('Error saving game stats:', error);
+      throw error;
+    }
+  }
+
+  const cleared = new Map<string, string[]>();
+  for (const entry of entries) {
+    if (entry.value === null) {
+      cleared.set(entry.athleteId, [...(cleared.get(entry.athleteId) ?? []), entry.statKey]);
+    }
+  }
+
+  for (const [athleteId, statKeys] of cleared) {
+    const { error } = await supabase
+      .from('game_stats')
+      .delete()
+      .eq('game_id', gameId)
+      .eq('athlete_id', athleteId)
+      .in('stat_key', statKeys);
+
+    if (error) {
+      console.error('Error clearing game stats:', error);
+      throw error;
+    }
+  }
+}
@@ -59,11 +59,17 @@ export type Database = {
           organization_id: string | null
           role: 'admin' | 'coach' | 'athlete'
           sport_id: string | null
+          team_id: string | null
           gender: 'male' | 'female' | null
           created_by: string
           created_at: string
           used_at: string | null
           used_by: string | null
+          expires_at: string | null
+          max_uses: number | null
+          use_count: number
+          revoked_at: string | null
+          revoked_by: string | null
         }
         Insert: {
           id?: string
@@ -71,11 +77,17 @@ export type Database = {
           organization_id?: string | null
           role: 'admin' | 'coach' | 'athlete'
           sport_id?: string | null
+          team_id?: string | null
           gender?: 'male' | 'female' | null
           created_by: string
           created_at?: string
           used_at?: string | null
           used_by?: string | null
+          expires_at?: string | null
+          max_uses?: number | null
+          use_count?: number
+          revoked_at?: string | null
+          revoked_by?: string | null
         }
         Update: {
           id?: string
@@ -83,11 +95,1068 @@ export type Database = {
           organization_id?: string | null
           role?: 'admin' | 'coach' | 'athlete'
           sport_id?: string | null
+          team_id?: string | null
           gender?: 'male' | 'female' | null
           created_by?: string
           created_at?: string
           used_at?: string | null
           used_by?: string | null
+          expires_at?: string | null
+          max_uses?: number | null
+          use_count?: number
+          revoked_at?: string | null
+          revoked_by?: string | null
+        }
+      }
+      access_code_redemptions: {
+        Row: {
+          id: string
+          access_code_id: string
+          user_id: string
+          redeemed_at: string
+        }
+        Insert: {
+          id?: string
+          access_code_id: string
+          user_id: string
+          redeemed_at?: string
+        }
+        Update: {
+          id?: string
+          access_code_id?: string
+          user_id?: string
+          redeemed_at?: string
+        }
+      }
+      invitations: {
+        Row: {
+          id: string
+          organization_id: string | null
+          access_code_id: string
+          email: string
+          full_name: string | null
+          invited_by: string
+          status: 'pending' | 'sent' | 'opened' | 'accepted' | 'cancelled' | 'failed'
+          token: string
+          send_count: number
+          last_error: string | null
+          roster_details: Record<string, unknown>
+          sent_at: string | null
+          opened_at: string | null
+          accepted_at: string | null
+          cancelled_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          organization_id?: string | null
+          access_code_id: string
+          email: string
+          full_name?: string | null
+          invited_by: string
+          status?: 'pending' | 'sent' | 'opened' | 'accepted' | 'cancelled' | 'failed'
+          token?: string
+          send_count?: number
+          last_error?: string | null
+          roster_details?: Record<string, unknown>
+          sent_at?: string | null
+          opened_at?: string | null
+          accepted_at?: string | null
+          cancelled_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          organization_id?: string | null
+          access_code_id?: string
+          email?: string
+          full_name?: string | null
+          invited_by?: string
+          status?: 'pending' | 'sent' | 'opened' | 'accepted' | 'cancelled' | 'failed'
+          token?: string
+          send_count?: number
+          last_error?: string | null
+          roster_details?: Record<string, unknown>
+          sent_at?: string | null
+          opened_at?: string | null
+          accepted_at?: string | null
+          cancelled_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      seasons: {
+        Row: {
+          id: string
+          organization_id: string
+          sport_id: string
+          name: string
+          start_date: string
+          end_date: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          organization_id: string
+          sport_id: string
+          name: string
+          start_date: string
+          end_date: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          organization_id?: string
+          sport_id?: string
+          name?: string
+          start_date?: string
+          end_date?: string
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      teams: {
+        Row: {
+          id: string
+          organization_id: string
+          sport_id: string
+          gender: 'male' | 'female' | 'coed'
+          level: 'varsity' | 'junior_varsity' | 'freshman' | 'club'
+          season_id: string
+          name: string
+          rsvp_reminder_hours: number | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          organization_id: string
+          sport_id: string
+          gender?: 'male' | 'female' | 'coed'
+          level?: 'varsity' | 'junior_varsity' | 'freshman' | 'club'
+          season_id: string
+          name: string
+          rsvp_reminder_hours?: number | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          organization_id?: string
+          sport_id?: string
+          gender?: 'male' | 'female' | 'coed'
+          level?: 'varsity' | 'junior_varsity' | 'freshman' | 'club'
+          season_id?: string
+          name?: string
+          rsvp_reminder_hours?: number | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      team_members: {
+        Row: {
+          id: string
+          team_id: string
+          user_id: string
+          role: 'coach' | 'athlete'
+          grad_year: number | null
+          position: string | null
+          jersey_number: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          team_id: string
+          user_id: string
+          role: 'coach' | 'athlete'
+          grad_year?: number | null
+          position?: string | null
+          jersey_number?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          team_id?: string
+          user_id?: string
+          role?: 'coach' | 'athlete'
+          grad_year?: number | null
+          position?: string | null
+          jersey_number?: string | null
+          created_at?: string
+        }
+      }
+      games: {
+        Row: {
+          id: string
+          team_id: string
+          opponent: string
+          played_on: string
+          home_away: 'home' | 'away' | 'neutral' | null
+          team_score: number | null
+          opponent_score: number | null
+          notes: string | null
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          team_id: string
+          opponent: string
+          played_on: string
+          home_away?: 'home' | 'away' | 'neutral' | null
+          team_score?: number | null
+          opponent_score?: number | null
+          notes?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          team_id?: string
+          opponent?: string
+          played_on?: string
+          home_away?: 'home' | 'away' | 'neutral' | null
+          team_score?: number | null
+          opponent_score?: number | null
+          notes?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      game_stats: {
+        Row: {
+          id: string
+          game_id: string
+          athlete_id: string
+          stat_key: string
+          value: number
+          updated_by: string | null
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          game_id: string
+          athlete_id: string
+          stat_key: string
+          value: number
+          updated_by?: string | null
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          game_id?: string
+          athlete_id?: string
+          stat_key?: string
+          value?: number
+          updated_by?: string | null
+          updated_at?: string
+        }
+      }
+      events: {
+        Row: {
+          id: string
+          team_id: string
+          type: string
+          opponent: string | null
+          location: string | null
+          starts_at: string
+          ends_at: string
+          home_away: 'home' | 'away' | 'neutral' | null
+          notes: string | null
+          schedule_id: string | null
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          team_id: string
+          type: string
+          opponent?: string | null
+          location?: string | null
+          starts_at: string
+          ends_at: string
+          home_away?: 'home' | 'away' | 'neutral' | null
+          notes?: string | null
+          schedule_id?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          team_id?: string
+          type?: string
+          opponent?: string | null
+          location?: string | null
+          starts_at?: string
+          ends_at?: string
+          home_away?: 'home' | 'away' | 'neutral' | null
+          notes?: string | null
+          schedule_id?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      practice_schedules: {
+        Row: {
+          id: string
+          team_id: string
+          event_type: string
+          weekdays: number[]
+          start_time: string
+          end_time: string
+          starts_on: string
+          ends_on: string
+          timezone: string
+          location: string | null
+          notes: string | null
+          created_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          team_id: string
+          event_type?: string
+          weekdays: number[]
+          start_time: string
+          end_time: string
+          starts_on: string
+          ends_on: string
+          timezone?: string
+          location?: string | null
+          notes?: string | null
+          created_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          team_id?: string
+          event_type?: string
+          weekdays?: number[]
+          start_time?: string
+          end_time?: string
+          starts_on?: string
+          ends_on?: string
+          timezone?: string
+          location?: string | null
+          notes?: string | null
+          created_by?: string | null
+          created_at?: string
+        }
+      }
+      attendance: {
+        Row: {
+          id: string
+          event_id: string
+          athlete_id: string
+          status: 'present' | 'late' | 'excused' | 'unexcused' | 'injured'
+          recorded_by: string | null
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          event_id: string
+          athlete_id: string
+          status: 'present' | 'late' | 'excused' | 'unexcused' | 'injured'
+          recorded_by?: string | null
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          event_id?: string
+          athlete_id?: string
+          status?: 'present' | 'late' | 'excused' | 'unexcused' | 'injured'
+          recorded_by?: string | null
+          updated_at?: string
+        }
+      }
+      event_rsvps: {
+        Row: {
+          id: string
+          event_id: string
+          athlete_id: string
+          response: 'going' | 'not_going' | 'maybe'
+          reason: string | null
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          event_id: string
+          athlete_id?: string
+          response: 'going' | 'not_going' | 'maybe'
+          reason?: string | null
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          event_id?: string
+          athlete_id?: string
+          response?: 'going' | 'not_going' | 'maybe'
+          reason?: string | null
+          updated_at?: string
+        }
+      }
+      test_sessions: {
+        Row: {
+          id: string
+          team_id: string
+          name: string
+          tested_on: string
+          test_keys: string[]
+          notes: string | null
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          team_id: string
+          name: string
+          tested_on: string
+          test_keys: string[]
+          notes?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          team_id?: string
+          name?: string
+          tested_on?: string
+          test_keys?: string[]
+          notes?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      test_results: {
+        Row: {
+          id: string
+          session_id: string
+          athlete_id: string
+          test_key: string
+          value: number
+          updated_by: string | null
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          session_id: string
+          athlete_id: string
+          test_key: string
+          value: number
+          updated_by?: string | null
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          session_id?: string
+          athlete_id?: string
+          test_key?: string
+          value?: number
+          updated_by?: string | null
+          updated_at?: string
+        }
+      }
+      goals: {
+        Row: {
+          id: string
+          team_id: string
+          athlete_id: string | null
+          source: 'stat' | 'test'
+          metric_key: string
+          target: number
+          due_on: string
+          title: string | null
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          team_id: string
+          athlete_id?: string | null
+          source: 'stat' | 'test'
+          metric_key: string
+          target: number
+          due_on: string
+          title?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          team_id?: string
+          athlete_id?: string | null
+          source?: 'stat' | 'test'
+          metric_key?: string
+          target?: number
+          due_on?: string
+          title?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      workout_templates: {
+        Row: {
+          id: string
+          team_id: string
+          name: string
+          description: string | null
+          exercises: Json
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          team_id: string
+          name: string
+          description?: string | null
+          exercises?: Json
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          team_id?: string
+          name?: string
+          description?: string | null
+          exercises?: Json
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      workout_assignments: {
+        Row: {
+          id: string
+          template_id: string
+          team_id: string
+          due_on: string
+          notes: string | null
+          created_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          template_id: string
+          team_id: string
+          due_on: string
+          notes?: string | null
+          created_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          template_id?: string
+          team_id?: string
+          due_on?: string
+          notes?: string | null
+          created_by?: string | null
+          created_at?: string
+        }
+      }
+      workouts: {
+        Row: {
+          id: string
+          athlete_id: string
+          assignment_id: string | null
+          name: string
+          performed_on: string
+          duration_minutes: number
+          rpe: number
+          notes: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          athlete_id?: string
+          assignment_id?: string | null
+          name: string
+          performed_on: string
+          duration_minutes: number
+          rpe: number
+          notes?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          athlete_id?: string
+          assignment_id?: string | null
+          name?: string
+          performed_on?: string
+          duration_minutes?: number
+          rpe?: number
+          notes?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      workout_sets: {
+        Row: {
+          id: string
+          workout_id: string
+          position: number
+          exercise: string
+          reps: number | null
+          load: number | null
+          duration_seconds: number | null
+        }
+        Insert: {
+          id?: string
+          workout_id: string
+          position: number
+          exercise: string
+          reps?: number | null
+          load?: number | null
+          duration_seconds?: number | null
+        }
+        Update: {
+          id?: string
+          workout_id?: string
+          position?: number
+          exercise?: string
+          reps?: number | null
+          load?: number | null
+          duration_seconds?: number | null
+        }
+      }
+      drills: {
+        Row: {
+          id: string
+          organization_id: string
+          sport_id: string | null
+          name: string
+          description: string | null
+          duration_minutes: number
+          equipment: string[]
+          focus: string[]
+          media_url: string | null
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          organization_id: string
+          sport_id?: string | null
+          name: string
+          description?: string | null
+          duration_minutes: number
+          equipment?: string[]
+          focus?: string[]
+          media_url?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          organization_id?: string
+          sport_id?: string | null
+          name?: string
+          description?: string | null
+          duration_minutes?: number
+          equipment?: string[]
+          focus?: string[]
+          media_url?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      practice_plans: {
+        Row: {
+          id: string
+          team_id: string
+          event_id: string | null
+          name: string
+          notes: string | null
+          is_template: boolean
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          team_id: string
+          event_id?: string | null
+          name: string
+          notes?: string | null
+          is_template?: boolean
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          team_id?: string
+          event_id?: string | null
+          name?: string
+          notes?: string | null
+          is_template?: boolean
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      practice_plan_blocks: {
+        Row: {
+          id: string
+          plan_id: string
+          position: number
+          drill_id: string | null
+          name: string
+          duration_minutes: number
+          notes: string | null
+        }
+        Insert: {
+          id?: string
+          plan_id: string
+          position: number
+          drill_id?: string | null
+          name: string
+          duration_minutes: number
+          notes?: string | null
+        }
+        Update: {
+          id?: string
+          plan_id?: string
+          position?: number
+          drill_id?: string | null
+          name?: string
+          duration_minutes?: number
+          notes?: string | null
+        }
+      }
+      bowling_games: {
+        Row: {
+          id: string
+          game_id: string
+          athlete_id: string | null
+          game_number: number
+          bowlers: string[]
+          frames: Json
+          score: number | null
+          updated_by: string | null
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          game_id: string
+          athlete_id?: string | null
+          game_number: number
+          bowlers?: string[]
+          frames?: Json
+          score?: number | null
+          updated_by?: string | null
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          game_id?: string
+          athlete_id?: string | null
+          game_number?: number
+          bowlers?: string[]
+          frames?: Json
+          score?: number | null
+          updated_by?: string | null
+          updated_at?: string
+        }
+      }
+      golf_courses: {
+        Row: {
+          id: string
+          organization_id: string
+          name: string
+          location: string | null
+          pars: number[]
+          stroke_indexes: number[]
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          organization_id: string
+          name: string
+          location?: string | null
+          pars: number[]
+          stroke_indexes: number[]
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          organization_id?: string
+          name?: string
+          location?: string | null
+          pars?: number[]
+          stroke_indexes?: number[]
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      golf_tees: {
+        Row: {
+          id: string
+          course_id: string
+          name: string
+          yardages: number[]
+          course_rating: number
+          slope_rating: number
+        }
+        Insert: {
+          id?: string
+          course_id: string
+          name: string
+          yardages: number[]
+          course_rating: number
+          slope_rating: number
+        }
+        Update: {
+          id?: string
+          course_id?: string
+          name?: string
+          yardages?: number[]
+          course_rating?: number
+          slope_rating?: number
+        }
+      }
+      golf_rounds: {
+        Row: {
+          id: string
+          team_id: string
+          athlete_id: string
+          tee_id: string
+          game_id: string | null
+          played_on: string
+          holes: Json
+          score: number | null
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          team_id: string
+          athlete_id: string
+          tee_id: string
+          game_id?: string | null
+          played_on: string
+          holes?: Json
+          score?: number | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          team_id?: string
+          athlete_id?: string
+          tee_id?: string
+          game_id?: string | null
+          played_on?: string
+          holes?: Json
+          score?: number | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      court_matches: {
+        Row: {
+          id: string
+          game_id: string
+          format: 'singles' | 'doubles'
+          line: number
+          players: string[]
+          opponents: string[]
+          rules: Json
+          first_server: 'us' | 'them'
+          points: Json
+          winner: 'us' | 'them' | null
+          score: string | null
+          updated_by: string | null
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          game_id: string
+          format: 'singles' | 'doubles'
+          line: number
+          players: string[]
+          opponents?: string[]
+          rules: Json
+          first_server: 'us' | 'them'
+          points?: Json
+          winner?: 'us' | 'them' | null
+          score?: string | null
+          updated_by?: string | null
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          game_id?: string
+          format?: 'singles' | 'doubles'
+          line?: number
+          players?: string[]
+          opponents?: string[]
+          rules?: Json
+          first_server?: 'us' | 'them'
+          points?: Json
+          winner?: 'us' | 'them' | null
+          score?: string | null
+          updated_by?: string | null
+          updated_at?: string
+        }
+      }
+      scorebooks: {
+        Row: {
+          game_id: string
+          innings: number
+          bats_first: boolean
+          lineup: Json
+          starting_pitcher: string
+          opponent_batters: number
+          plays: Json
+          updated_by: string | null
+          updated_at: string
+        }
+        Insert: {
+          game_id: string
+          innings: number
+          bats_first: boolean
+          lineup: Json
+          starting_pitcher: string
+          opponent_batters?: number
+          plays?: Json
+          updated_by?: string | null
+          updated_at?: string
+        }
+        Update: {
+          game_id?: string
+          innings?: number
+          bats_first?: boolean
+          lineup?: Json
+          starting_pitcher?: string
+          opponent_batters?: number
+          plays?: Json
+          updated_by?: string | null
+          updated_at?: string
+        }
+      }
+      swim_results: {
+        Row: {
+          id: string
+          team_id: string
+          game_id: string
+          stroke: 'free' | 'back' | 'breast' | 'fly' | 'medley'
+          distance: number
+          relay: boolean
+          course: 'SCY' | 'SCM' | 'LCM'
+          athlete_id: string | null
+          legs: Json
+          seed_time: number | null
+          time: number | null
+          splits: Json
+          place: number | null
+          points: number | null
+          disqualified: boolean
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          team_id: string
+          game_id: string
+          stroke: 'free' | 'back' | 'breast' | 'fly' | 'medley'
+          distance: number
+          relay?: boolean
+          course: 'SCY' | 'SCM' | 'LCM'
+          athlete_id?: string | null
+          legs?: Json
+          seed_time?: number | null
+          time?: number | null
+          splits?: Json
+          place?: number | null
+          points?: number | null
+          disqualified?: boolean
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          team_id?: string
+          game_id?: string
+          stroke?: 'free' | 'back' | 'breast' | 'fly' | 'medley'
+          distance?: number
+          relay?: boolean
+          course?: 'SCY' | 'SCM' | 'LCM'
+          athlete_id?: string | null
+          legs?: Json
+          seed_time?: number | null
+          time?: number | null
+          splits?: Json
+          place?: number | null
+          points?: number | null
+          disqualified?: boolean
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      swim_time_standards: {
+        Row: {
+          id: string
+          team_id: string
+          name: string
+          course: 'SCY' | 'SCM' | 'LCM'
+          cuts: Json
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          team_id: string
+          name: string
+          course: 'SCY' | 'SCM' | 'LCM'
+          cuts?: Json
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          team_id?: string
+          name?: string
+          course?: 'SCY' | 'SCM' | 'LCM'
+          cuts?: Json
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
         }
       }
       user_sports: {
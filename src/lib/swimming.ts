@@ -0,0 +1,521 @@
+import { supabase } from '@/lib/supabase';
+import type { Database } from '@/lib/supabase-types';
+import { saveGameStats, type GameStatEntry } from '@/lib/stats';
+
+type ResultRow = Database['public']['Tables']['swim_results']['Row'];
+type StandardRow = Database['public']['Tables']['swim_time_standards']['Row'];
+
+export type SwimCourse = ResultRow['course'];
+export type SwimStroke = ResultRow['stroke'];
+
+export const SWIM_COURSES: { value: SwimCourse; label: string }[] = [
+  { value: 'SCY', label: 'Short course yards' },
+  { value: 'SCM', label: 'Short course meters' },
+  { value: 'LCM', label: 'Long course meters' }
+];
+
+export const SWIM_STROKES: { value: SwimStroke; label: string }[] = [
+  { value: 'free', label: 'Freestyle' },
+  { value: 'back', label: 'Backstroke' },
+  { value: 'breast', label: 'Breaststroke' },
+  { value: 'fly', label: 'Butterfly' },
+  { value: 'medley', label: 'Individual Medley' }
+];
+
+// Legs of a medley relay in the order they are swum
+export const MEDLEY_RELAY_ORDER: SwimStroke[] = ['back', 'breast', 'fly', 'free'];
+export const RELAY_LEGS = 4;
+
+export interface SwimEvent {
+  key: string;
+  stroke: SwimStroke;
+  distance: number;
+  relay: boolean;
+  courses: SwimCourse[];
+}
+
+const ALL_COURSES: SwimCourse[] = ['SCY', 'SCM', 'LCM'];
+const METERS: SwimCourse[] = ['SCM', 'LCM'];
+
+export const getEventKey = (stroke: SwimStroke, distance: number, relay: boolean) =>
+  `${stroke}_${distance}${relay ? '_relay' : ''}`;
+
+const event = (stroke: SwimStroke, distance: number, courses = ALL_COURSES, relay = false): SwimEvent => ({
+  key: getEventKey(stroke, distance, relay),
+  stroke,
+  distance,
+  relay,
+  courses
+});
+
+// Events swum in each course, individual events first
+export const SWIM_EVENTS: SwimEvent[] = [
+  event('free', 50),
+  event('free', 100),
+  event('free', 200),
+  event('free', 400, METERS),
+  event('free', 500, ['SCY']),
+  event('free', 800, METERS),
+  event('free', 1000, ['SCY']),
+  event('free', 1500, METERS),
+  event('free', 1650, ['SCY']),
+  ...(['back', 'breast', 'fly'] as const).flatMap(stroke => [event(stroke, 50), event(stroke, 100), event(stroke, 200)]),
+  event('medley', 100, ['SCY', 'SCM']),
+  event('medley', 200),
+  event('medley', 400),
+  event('free', 200, ALL_COURSES, true),
+  event('free', 400, ALL_COURSES, true),
+  event('free', 800, ALL_COURSES, true),
+  event('medley', 200, ALL_COURSES, true),
+  event('medley', 400, ALL_COURSES, true)
+];
+
+const EVENTS = new Map(SWIM_EVENTS.map(swimEvent => [swimEvent.key, swimEvent]));
+
+// Distance freestyle is swum over different distances in yards and meters
+const YARD_EQUIVALENTS: Record<number, number> = { 500: 400, 1000: 800, 1650: 1500 };
+const METER_EQUIVALENTS: Record<number, number> = { 400: 500, 800: 1000, 1500: 1650 };
+
+// Conversions are estimates. A race in meters takes about 1.11 times as long
+// as the same distance in yards, and long course is slower by the time each
+// turn it does without would have saved.
+const YARDS_TO_METERS = 1.11;
+const TURN_SECONDS: Record<SwimStroke, number> = {
+  free: 0.8,
+  back: 1.2,
+  breast: 0.8,
+  fly: 0.9,
+  medley: 1.0
+};
+
+export interface RelayLeg {
+  athleteId: string;
+  // The leg's own time in hundredths, if it was taken
+  split: number | null;
+}
+
+// Times are whole hundredths of a second. Splits are cumulative, one at each
+// 50 of the race.
+export interface SwimResult extends Omit<ResultRow, 'legs' | 'splits' | 'created_by'> {
+  legs: RelayLeg[];
+  splits: number[];
+}
+
+export interface SwimResultInput {
+  teamId: string;
+  gameId: string;
+  eventKey: string;
+  course: SwimCourse;
+  // The swimmer of an individual event; relays list their legs instead
+  athleteId: string | null;
+  legs: RelayLeg[];
+  seedTime: number | null;
+  time: number | null;
+  splits: number[];
+  place: number | null;
+  points: number | null;
+  disqualified: boolean;
+}
+
+export interface SwimTimeStandard extends Omit<StandardRow, 'cuts' | 'created_by'> {
+  // Qualifying time in hundredths by event key
+  cuts: Record<string, number>;
+}
+
+export interface SwimTimeStandardInput {
+  teamId: string;
+  name: string;
+  course: SwimCourse;
+  cuts: Record<string, number>;
+}
+
+// A swimmer's fastest legal time in an event and course
+export interface BestTime {
+  time: number;
+  resultId: string;
+  gameId: string;
+}
+
+// Best time by event key, then by course
+export type BestTimes = Map<string, Partial<Record<SwimCourse, BestTime>>>;
+
+// A standard's cut set beside the time compared with it
+export interface StandardCheck {
+  standard: SwimTimeStandard;
+  cut: number;
+  time: number;
+  met: boolean;
+  // Whether the time was converted from another course
+  converted: boolean;
+}
+
+// Results in a meet are unique per swimmer and event
+const UNIQUE_VIOLATION = '23505';
+
+export function getSwimEvent(key: string): SwimEvent | undefined {
+  return EVENTS.get(key);
+}
+
+export function formatSwimEvent(swimEvent: Pick<SwimEvent, 'stroke' | 'distance' | 'relay'>) {
+  if (swimEvent.relay) {
+    return `${swimEvent.distance} ${swimEvent.stroke === 'medley' ? 'Medley' : 'Free'} Relay`;
+  }
+  const stroke = { free: 'Free', back: 'Back', breast: 'Breast', fly: 'Fly', medley: 'IM' }[swimEvent.stroke];
+  return `${swimEvent.distance} ${stroke}`;
+}
+
+export function getResultEvent(result: Pick<SwimResult, 'stroke' | 'distance' | 'relay'>) {
+  return getEventKey(result.stroke, result.distance, result.relay);
+}
+
+// "27.81", "1:02.34"
+export function formatSwimTime(time: number | null | undefined) {
+  if (time === null || time === undefined) return '—';
+  const minutes = Math.floor(time / 6000);
+  const seconds = ((time % 6000) / 100).toFixed(2);
+  return minutes > 0 ? `${minutes}:${seconds.padStart(5, '0')}` : seconds;
+}
+
+// Parses a typed time: blank is null, and minutes are optional
+export function parseSwimTime(input: string): number | null {
+  const trimmed = input.trim();
+  if (trimmed === '') return null;
+
+  const match = trimmed.match(/^(?:(\d+):)?(\d{1,2}(?:\.\d{1,2})?)$/);
+  const seconds = Number(match?.[2]);
+  const time = Math.round((Number(match?.[1] ?? 0) * 60 + seconds) * 100);
+  if (!match || (match[1] !== undefined && seconds >= 60) || time <= 0) {
+    throw new Error(`"${input}" is not a valid time`);
+  }
+  return time;
+}
+
+// Cumulative splits typed as a list, e.g. "28.10, 59.80, 1:31.20"
+export function parseSplits(input: string): number[] {
+  const splits = input
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map(part => parseSwimTime(part)!);
+  if (splits.some((split, index) => index > 0 && split <= splits[index - 1])) {
+    throw new Error('Each split must be later than the one before it');
+  }
+  return splits;
+}
+
+export function formatSplits(splits: number[]) {
+  return splits.map(formatSwimTime).join(', ');
+}
+
+// The time of each 50 from cumulative splits, ending at the final time
+export function getLapSplits(splits: number[], time: number | null) {
+  const marks = time !== null && splits[splits.length - 1] !== time ? [...splits, time] : splits;
+  return marks.map((mark, index) => mark - (marks[index - 1] ?? 0));
+}
+
+// A time in another course, with the event it becomes there. Null when the
+// event is not swum in that course.
+export function convertSwimTime(
+  swimEvent: Pick<SwimEvent, 'stroke' | 'distance' | 'relay'>,
+  time: number,
+  from: SwimCourse,
+  to: SwimCourse
+): { eventKey: string; time: number } | null {
+  let seconds = time / 100;
+  let distance = swimEvent.distance;
+
+  // Long course and short course meters differ by the turns in the race
+  const turnAdjustment = (meters: number) => (meters / 50) * TURN_SECONDS[swimEvent.stroke];
+  if (from === 'LCM' && to !== 'LCM') seconds -= turnAdjustment(distance);
+
+  if (from === 'SCY' && to !== 'SCY') {
+    const meters = swimEvent.relay ? distance : YARD_EQUIVALENTS[distance] ?? distance;
+    seconds *= YARDS_TO_METERS * (meters / distance);
+    distance = meters;
+  } else if (from !== 'SCY' && to === 'SCY') {
+    const yards = swimEvent.relay ? distance : METER_EQUIVALENTS[distance] ?? distance;
+    seconds = (seconds / YARDS_TO_METERS) * (yards / distance);
+    distance = yards;
+  }
+
+  if (to === 'LCM' && from !== 'LCM') seconds += turnAdjustment(distance);
+
+  const eventKey = getEventKey(swimEvent.stroke, distance, swimEvent.relay);
+  if (!EVENTS.get(eventKey)?.courses.includes(to)) return null;
+  return { eventKey, time: Math.round(seconds * 100) };
+}
+
+// Whether a result can stand as a time: swum, finished and not disqualified
+export function isLegalTime(result: Pick<SwimResult, 'time' | 'disqualified'>): result is typeof result & { time: number } {
+  return result.time !== null && !result.disqualified;
+}
+
+// A swimmer's fastest individual times in every event and course
+export function getBestTimes(athleteId: string, results: SwimResult[]): BestTimes {
+  const best: BestTimes = new Map();
+  for (const result of results) {
+    if (result.relay || result.athlete_id !== athleteId || !isLegalTime(result)) continue;
+    const key = getResultEvent(result);
+    const courses = best.get(key) ?? {};
+    const current = courses[result.course];
+    if (!current || result.time < current.time) {
+      courses[result.course] = { time: result.time, resultId: result.id, gameId: result.game_id };
+    }
+    best.set(key, courses);
+  }
+  return best;
+}
+
+// The best time to hold against a standard's course: one swum in that course
+// if there is one, otherwise the fastest converted from another course
+export function getComparableTime(
+  eventKey: string,
+  best: BestTimes,
+  course: SwimCourse
+): { time: number; converted: boolean } | null {
+  const own = best.get(eventKey)?.[course];
+  if (own) return { time: own.time, converted: false };
+
+  let fastest: number | null = null;
+  for (const [key, courses] of best) {
+    const swimEvent = EVENTS.get(key);
+    if (!swimEvent) continue;
+    for (const from of ALL_COURSES) {
+      const swum = courses[from];
+      if (!swum || from === course) continue;
+      const converted = convertSwimTime(swimEvent, swum.time, from, course);
+      if (converted?.eventKey === eventKey && (fastest === null || converted.time < fastest)) {
+        fastest = converted.time;
+      }
+    }
+  }
+  return fastest === null ? null : { time: fastest, converted: true };
+}
+
+// Every standard with a cut in the event, checked against the time that
+// applies in its course. Fastest cuts first.
+export function checkStandards(
+  eventKey: string,
+  timeIn: (course: SwimCourse) => { time: number; converted: boolean } | null,
+  standards: SwimTimeStandard[]
+): StandardCheck[] {
+  return standards
+    .filter(standard => standard.cuts[eventKey] !== undefined)
+    .flatMap((standard) => {
+      const compared = timeIn(standard.course);
+      if (!compared) return [];
+      const cut = standard.cuts[eventKey];
+      return [{ standard, cut, time: compared.time, met: compared.time <= cut, converted: compared.converted }];
+    })
+    .sort((a, b) => a.cut - b.cut);
+}
+
+// A swimmer's meet line: points, with a quarter of each relay's, and the best
+// individual place. Null when they did not swim in the meet.
+export function getMeetStats(athleteId: string, results: SwimResult[]): GameStatEntry[] {
+  const individual = results.filter(result => !result.relay && result.athlete_id === athleteId);
+  const relays = results.filter(result => result.relay && result.legs.some(leg => leg.athleteId === athleteId));
+  const swam = individual.length + relays.length > 0;
+  const places = individual.flatMap(result => (result.place !== null && !result.disqualified ? [result.place] : []));
+  const points = individual.reduce((sum, result) => sum + (result.points ?? 0), 0)
+    + relays.reduce((sum, result) => sum + (result.points ?? 0) / RELAY_LEGS, 0);
+
+  return [
+    { athleteId, statKey: 'points', value: swam ? points : null },
+    { athleteId, statKey: 'place', value: places.length > 0 ? Math.min(...places) : null }
+  ];
+}
+
+export function getMeetScore(results: Pick<SwimResult, 'points'>[]) {
+  const scored = results.filter(result => result.points !== null);
+  return scored.length > 0 ? scored.reduce((sum, result) => sum + (result.points ?? 0), 0) : null;
+}
+
+export function getSwimmers(result: Pick<SwimResult, 'athlete_id' | 'legs'>) {
+  return result.athlete_id ? [result.athlete_id] : result.legs.map(leg => leg.athleteId);
+}
+
+const RESULT_COLUMNS = `
+  id,
+  team_id,
+  game_id,
+  stroke,
+  distance,
+  relay,
+  course,
+  athlete_id,
+  legs,
+  seed_time,
+  time,
+  splits,
+  place,
+  points,
+  disqualified,
+  created_at,
+  updated_at
+`;
+
+const STANDARD_COLUMNS = 'id, team_id, name, course, cuts, created_at, updated_at';
+
+function toSwimResult(row: Omit<ResultRow, 'created_by'>): SwimResult {
+  return {
+    ...row,
+    legs: (row.legs ?? []) as unknown as RelayLeg[],
+    splits: (row.splits ?? []) as unknown as number[]
+  };
+}
+
+function toTimeStandard(row: Omit<StandardRow, 'created_by'>): SwimTimeStandard {
+  return { ...row, cuts: (row.cuts ?? {}) as unknown as Record<string, number> };
+}
+
+export async function fetchSwimResults(teamId: string): Promise<SwimResult[]> {
+  const { data, error } = await supabase
+    .from('swim_results')
+    .select(RESULT_COLUMNS)
+    .eq('team_id', teamId)
+    .order('created_at');
+
+  if (error) {
+    console.error('Error fetching swim results:', error);
+    throw error;
+  }
+
+  return (data ?? []).map(toSwimResult);
+}
+
+// Refreshes what a meet's results feed: each swimmer's box score and the
+// team's points as the meet score
+async function syncMeet(gameId: string, formerSwimmers: string[] = []) {
+  const { data, error } = await supabase
+    .from('swim_results')
+    .select(RESULT_COLUMNS)
+    .eq('game_id', gameId);
+
+  if (error) {
+    console.error('Error fetching meet results:', error);
+    throw error;
+  }
+
+  const results = (data ?? []).map(toSwimResult);
+  const swimmers = [...new Set([...results.flatMap(getSwimmers), ...formerSwimmers])];
+  const entries = swimmers.flatMap(athleteId => getMeetStats(athleteId, results));
+  if (entries.length > 0) await saveGameStats(gameId, entries);
+
+  const { error: updateError } = await supabase
+    .from('games')
+    .update({ team_score: getMeetScore(results) })
+    .eq('id', gameId);
+
+  if (updateError) {
+    console.error('Error updating meet score:', updateError);
+    throw updateError;
+  }
+}
+
+export async function saveSwimResult(result: SwimResult | null, input: SwimResultInput): Promise<SwimResult> {
+  const swimEvent = getSwimEvent(input.eventKey);
+  if (!swimEvent) throw new Error('Choose an event');
+
+  const fields = {
+    stroke: swimEvent.stroke,
+    distance: swimEvent.distance,
+    relay: swimEvent.relay,
+    course: input.course,
+    athlete_id: swimEvent.relay ? null : input.athleteId,
+    legs: (swimEvent.relay ? input.legs : []) as unknown as ResultRow['legs'],
+    seed_time: input.seedTime,
+    time: input.time,
+    splits: input.splits as unknown as ResultRow['splits'],
+    place: input.disqualified ? null : input.place,
+    points: input.disqualified ? null : input.points,
+    disqualified: input.disqualified
+  };
+
+  const { data, error } = result
+    ? await supabase
+      .from('swim_results')
+      .update(fields)
+      .eq('id', result.id)
+      .select(RESULT_COLUMNS)
+      .single()
+    : await supabase
+      .from('swim_results')
+      .insert({ team_id: input.teamId, game_id: input.gameId, ...fields })
+      .select(RESULT_COLUMNS)
+      .single();
+
+  if (error) {
+    if (error.code === UNIQUE_VIOLATION) throw new Error('That swimmer already has a result in this event');
+    console.error('Error saving swim result:', error);
+    throw error;
+  }
+
+  const saved = toSwimResult(data);
+  const swimmers = getSwimmers(saved);
+  await syncMeet(input.gameId, result ? getSwimmers(result).filter(athleteId => !swimmers.includes(athleteId)) : []);
+  return saved;
+}
+
+export async function deleteSwimResult(result: SwimResult) {
+  const { error } = await supabase
+    .from('swim_results')
+    .delete()
+    .eq('id', result.id);
+
+  if (error) {
+    console.error('Error deleting swim result:', error);
+    throw error;
+  }
+
+  await syncMeet(result.game_id, getSwimmers(result));
+}
+
+export async function fetchTimeStandards(teamId: string): Promise<SwimTimeStandard[]> {
+  const { data, error } = await supabase
+    .from('swim_time_standards')
+    .select(STANDARD_COLUMNS)
+    .eq('team_id', teamId)
+    .order('name');
+
+  if (error) {
+    console.error('Error fetching time standards:', error);
+    throw error;
+  }
+
+  return (data ?? []).map(toTimeStandard);
+}
+
+export async function saveTimeStandard(standardId: string | null, input: SwimTimeStandardInput) {
+  const fields = {
+    name: input.name.trim(),
+    course: input.course,
+    cuts: input.cuts as unknown as StandardRow['cuts']
+  };
+
+  const { error } = standardId
+    ? await supabase
+      .from('swim_time_standards')
+      .update(fields)
+      .eq('id', standardId)
+    : await supabase
+      .from('swim_time_standards')
+      .insert({ team_id: input.teamId, ...fields });
+
+  if (error) {
+    if (error.code === UNIQUE_VIOLATION) throw new Error('The team already has a standard with that name in this course');
+    console.error('Error saving time standard:', error);
+    throw error;
+  }
+}
+
+export async function deleteTimeStandard(standardId: string) {
+  const { error } = await supabase
+    .from('swim_time_standards')
+    .delete()
+    .eq('id', standardId);
+
+  if (error) {
+    console.error('Error deleting time standard:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,243 @@
+import { supabase } from '@/lib/supabase';
+import type { Database } from '@/lib/supabase-types';
+
+type TeamRow = Database['public']['Tables']['teams']['Row'];
+
+export type TeamLevel = TeamRow['level'];
+export type TeamGender = TeamRow['gender'];
+
+export interface Team {
+  id: string;
+  name: string;
+  sport_id: string;
+  sport_name: string;
+  gender: TeamGender;
+  level: TeamLevel;
+  season_id: string;
+  season_name: string;
+  // Hours before an event to remind athletes to RSVP; null when off
+  rsvp_reminder_hours: number | null;
+  athlete_count: number;
+  coach_count: number;
+}
+
+export interface TeamMember {
+  id: string;
+  user_id: string;
+  role: 'coach' | 'athlete';
+  full_name: string | null;
+  email: string | null;
+  grad_year: number | null;
+  position: string | null;
+  jersey_number: string | null;
+  created_at: string;
+}
+
+export interface NewTeam {
+  sportId: string;
+  gender: TeamGender;
+  level: TeamLevel;
+  // Defaults to the sport's current season
+  seasonId?: string | null;
+  name?: string;
+}
+
+export const TEAM_LEVELS: { value: TeamLevel; label: string }[] = [
+  { value: 'varsity', label: 'Varsity' },
+  { value: 'junior_varsity', label: 'Junior Varsity' },
+  { value: 'freshman', label: 'Freshman' },
+  { value: 'club', label: 'Club' }
+];
+
+export const TEAM_GENDERS: { value: TeamGender; label: string }[] = [
+  { value: 'male', label: "Men's" },
+  { value: 'female', label: "Women's" },
+  { value: 'coed', label: 'Coed' }
+];
+
+const ERROR_MESSAGES: Record<string, string> = {
+  not_authenticated: 'Please sign in to manage teams',
+  not_authorized: 'You can only create teams for sports you coach',
+  not_found: 'That season is not for this sport',
+  team_exists: 'A team with this sport, gender, level and season already exists'
+};
+
+const TEAM_COLUMNS = `
+  id,
+  name,
+  sport_id,
+  gender,
+  level,
+  season_id,
+  rsvp_reminder_hours,
+  sports (name),
+  seasons (name),
+  team_members (role)
+`;
+
+interface TeamResponse extends Omit<Team, 'sport_name' | 'season_name' | 'athlete_count' | 'coach_count'> {
+  sports: { name: string } | null;
+  seasons: { name: string } | null;
+  team_members: { role: 'coach' | 'athlete' }[];
+}
+
+function toTeam(row: TeamResponse): Team {
+  return {
+    id: row.id,
+    name: row.name,
+    sport_id: row.sport_id,
+    sport_name: row.sports?.name ?? '',
+    gender: row.gender,
+    level: row.level,
+    season_id: row.season_id,
+    season_name: row.seasons?.name ?? '',
+    rsvp_reminder_hours: row.rsvp_reminder_hours,
+    athlete_count: row.team_members.filter(member => member.role === 'athlete').length,
+    coach_count: row.team_members.filter(member => member.role === 'coach').length
+  };
+}
+
+export function getTeamLevelLabel(level: TeamLevel) {
+  return TEAM_LEVELS.find(option => option.value === level)?.label ?? level;
+}
+
+// Team name with its season, e.g. "JV Women's Soccer (2025-26)"
+export function getTeamLabel(team: Pick<Team, 'name' | 'season_name'>) {
+  return team.season_name ? `${team.name} (${team.season_name})` : team.name;
+}
+
+// Sorts by jersey number, then name, with unnumbered athletes last
+export function compareRosterOrder(a: TeamMember, b: TeamMember) {
+  const aNumber = a.jersey_number ? Number(a.jersey_number) : Infinity;
+  const bNumber = b.jersey_number ? Number(b.jersey_number) : Infinity;
+  if (aNumber !== bNumber) return aNumber - bNumber;
+  return (a.full_name ?? '').localeCompare(b.full_name ?? '');
+}
+
+// Access codes only record male or female; coed teams have no gender
+export function getTeamCodeGender(team: Pick<Team, 'gender'>): 'male' | 'female' | null {
+  return team.gender === 'coed' ? null : team.gender;
+}
+
+// Teams the current user coaches or plays on, by name
+export async function fetchMyTeams(role?: 'coach' | 'athlete'): Promise<Team[]> {
+  const { data: userData } = await supabase.auth.getUser();
+  if (!userData?.user?.id) throw new Error('Not authenticated');
+
+  let query = supabase
+    .from('team_members')
+    .select('team_id')
+    .eq('user_id', userData.user.id);
+  if (role) query = query.eq('role', role);
+
+  const { data: memberships, error: membershipError } = await query;
+  if (membershipError) {
+    console.error('Error fetching team memberships:', membershipError);
+    throw membershipError;
+  }
+
+  const teamIds = (memberships ?? []).map(membership => membership.team_id);
+  if (teamIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('teams')
+    .select(TEAM_COLUMNS)
+    .in('id', teamIds)
+    .order('name');
+
+  if (error) {
+    console.error('Error fetching teams:', error);
+    throw error;
+  }
+
+  return (data as unknown as TeamResponse[]).map(toTeam);
+}
+
+// Every team in the user's organization, by name
+export async function fetchOrganizationTeams(): Promise<Team[]> {
+  const { data, error } = await supabase
+    .from('teams')
+    .select(TEAM_COLUMNS)
+    .order('name');
+
+  if (error) {
+    console.error('Error fetching organization teams:', error);
+    throw error;
+  }
+
+  return (data as unknown as TeamResponse[]).map(toTeam);
+}
+
+export async function createTeam(team: NewTeam): Promise<string> {
+  const { data, error } = await supabase.rpc('create_team', {
+    p_sport_id: team.sportId,
+    p_gender: team.gender,
+    p_level: team.level,
+    p_season_id: team.seasonId ?? null,
+    p_name: team.name ?? null
+  });
+
+  if (error) {
+    if (ERROR_MESSAGES[error.message]) throw new Error(ERROR_MESSAGES[error.message]);
+    console.error('Error creating team:', error);
+    throw error;
+  }
+
+  return data as string;
+}
+
+export async function deleteTeam(teamId: string) {
+  const { error } = await supabase
+    .from('teams')
+    .delete()
+    .eq('id', teamId);
+
+  if (error) {
+    console.error('Error deleting team:', error);
+    throw error;
+  }
+}
+
+export async function fetchTeamMembers(teamId: string): Promise<TeamMember[]> {
+  const { data, error } = await supabase
+    .from('team_members')
+    .select(`
+      id,
+      user_id,
+      role,
+      grad_year,
+      position,
+      jersey_number,
+      created_at,
+      profiles:user_id (full_name, email)
+    `)
+    .eq('team_id', teamId)
+    .order('created_at');
+
+  if (error) {
+    console.error('Error fetching team members:', error);
+    throw error;
+  }
+
+  const rows = data as unknown as (Omit<TeamMember, 'full_name' | 'email'> & {
+    profiles: { full_name: string | null; email: string | null } | null;
+  })[];
+
+  return rows.map(({ profiles, ...member }) => ({
+    ...member,
+    full_name: profiles?.full_name ?? null,
+    email: profiles?.email ?? null
+  }));
+}
+
+export async function removeTeamMember(memberId: string) {
+  const { error } = await supabase
+    .from('team_members')
+    .delete()
+    .eq('id', memberId);
+
+  if (error) {
+    console.error('Error removing team member:', error);
+    throw error;
+  }
+}
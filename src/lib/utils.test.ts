@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { toCsv } from '@/lib/utils';
+
+describe('toCsv', () => {
+  it('quotes fields with commas, quotes and line breaks', () => {
+    expect(toCsv(['Name', 'Note'], [['Smith, Jordan', 'Said "hi"\nthen left']]))
+      .toBe('Name,Note\r\n"Smith, Jordan","Said ""hi""\nthen left"');
+  });
+
+  it('writes null and undefined as empty fields', () => {
+    expect(toCsv(['A', 'B', 'C'], [[null, undefined, 0]])).toBe('A,B,C\r\n,,0');
+  });
+
+  it.each(['=HYPERLINK("http://evil.test")', '+1+1', '-2+3', '@SUM(A1)', '\tcmd', '\rcmd'])(
+    'keeps %j from being read as a formula',
+    (value) => {
+      const [, cell] = toCsv(['Name'], [[value]]).split('\r\n');
+      expect(cell.replace(/^"/, '').startsWith("'")).toBe(true);
+    }
+  );
+
+  it('leaves numbers and ordinary text alone', () => {
+    expect(toCsv(['Name', 'Email', 'Balance'], [['Jordan', 'jordan@example.com', -5]]))
+      .toBe('Name,Email,Balance\r\nJordan,jordan@example.com,-5');
+  });
+});
@@ -0,0 +1,359 @@
+import { supabase } from '@/lib/supabase';
+import type { Database } from '@/lib/supabase-types';
+import { getToday } from '@/lib/seasons';
+
+type WorkoutRow = Database['public']['Tables']['workouts']['Row'];
+type TemplateRow = Database['public']['Tables']['workout_templates']['Row'];
+type AssignmentRow = Database['public']['Tables']['workout_assignments']['Row'];
+
+// One set as logged; each of reps, load (lb) and duration is optional so
+// the same shape covers lifts, holds and intervals
+export interface WorkoutSet {
+  exercise: string;
+  reps: number | null;
+  load: number | null;
+  duration_seconds: number | null;
+}
+
+// An exercise as a template prescribes it, e.g. 3 sets of 10 at 135 lb
+export interface TemplateExercise extends WorkoutSet {
+  sets: number;
+}
+
+export interface Workout extends Omit<WorkoutRow, 'updated_at'> {
+  sets: WorkoutSet[];
+}
+
+export interface NewWorkout {
+  name: string;
+  performedOn: string;
+  durationMinutes: number;
+  rpe: number;
+  notes?: string;
+  assignmentId?: string | null;
+  sets: WorkoutSet[];
+}
+
+export interface WorkoutTemplate extends Omit<TemplateRow, 'exercises' | 'created_by' | 'updated_at'> {
+  exercises: TemplateExercise[];
+}
+
+export interface NewWorkoutTemplate {
+  teamId: string;
+  name: string;
+  description?: string;
+  exercises: TemplateExercise[];
+}
+
+export interface WorkoutAssignment extends Omit<AssignmentRow, 'created_by'> {
+  template: WorkoutTemplate | null;
+}
+
+export interface WeeklyLoad {
+  // Monday of the week
+  weekStart: string;
+  workouts: number;
+  minutes: number;
+  // Sum of duration x RPE
+  load: number;
+}
+
+// Borg CR10 wording for session RPE
+export const RPE_SCALE: { value: number; label: string }[] = [
+  { value: 1, label: 'Very Light' },
+  { value: 2, label: 'Light' },
+  { value: 3, label: 'Moderate' },
+  { value: 4, label: 'Somewhat Hard' },
+  { value: 5, label: 'Hard' },
+  { value: 6, label: 'Hard' },
+  { value: 7, label: 'Very Hard' },
+  { value: 8, label: 'Very Hard' },
+  { value: 9, label: 'Extremely Hard' },
+  { value: 10, label: 'Maximal' }
+];
+
+const WORKOUT_COLUMNS = 'id, athlete_id, assignment_id, name, performed_on, duration_minutes, rpe, notes, created_at';
+const SET_COLUMNS = 'position, exercise, reps, load, duration_seconds';
+const TEMPLATE_COLUMNS = 'id, team_id, name, description, exercises, created_at';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Weeks of history behind the training load summaries
+export const LOAD_WEEKS = 8;
+
+// Session RPE load, the usual single number for how hard a workout was
+export function getSessionLoad(workout: Pick<Workout, 'duration_minutes' | 'rpe'>) {
+  return workout.duration_minutes * workout.rpe;
+}
+
+// Monday of the week a date falls in
+export function getWeekStart(date: string) {
+  const day = new Date(`${date}T00:00:00Z`);
+  const offset = (day.getUTCDay() + 6) % 7;
+  return new Date(day.getTime() - offset * DAY_MS).toISOString().slice(0, 10);
+}
+
+// Monday of the first of the given number of weeks up to this one
+export function getLoadWindowStart(weeks = LOAD_WEEKS, today = getToday()) {
+  const thisWeek = Date.parse(`${getWeekStart(today)}T00:00:00Z`);
+  return new Date(thisWeek - (weeks - 1) * 7 * DAY_MS).toISOString().slice(0, 10);
+}
+
+// Training per week for the given number of weeks up to this one, oldest
+// first, with empty weeks included so trends line up
+export function summarizeWeeklyLoad(workouts: Workout[], weeks = LOAD_WEEKS, today = getToday()): WeeklyLoad[] {
+  const firstWeek = Date.parse(`${getLoadWindowStart(weeks, today)}T00:00:00Z`);
+  const summary: WeeklyLoad[] = Array.from({ length: weeks }, (_, index) => ({
+    weekStart: new Date(firstWeek + index * 7 * DAY_MS).toISOString().slice(0, 10),
+    workouts: 0,
+    minutes: 0,
+    load: 0
+  }));
+  const byWeek = new Map(summary.map(week => [week.weekStart, week]));
+
+  for (const workout of workouts) {
+    const week = byWeek.get(getWeekStart(workout.performed_on));
+    if (!week) continue;
+    week.workouts++;
+    week.minutes += workout.duration_minutes;
+    week.load += getSessionLoad(workout);
+  }
+  return summary;
+}
+
+// Acute:chronic ratio: this week's load against the average of the last
+// four weeks. Above about 1.5 is a sharp spike. Null without a history.
+export function getLoadRatio(weekly: WeeklyLoad[]): number | null {
+  const recent = weekly.slice(-4);
+  const chronic = recent.reduce((sum, week) => sum + week.load, 0) / recent.length;
+  if (!chronic) return null;
+  return recent[recent.length - 1].load / chronic;
+}
+
+// A template's exercises as sets to log, one row per prescribed set
+export function expandTemplate(template: WorkoutTemplate): WorkoutSet[] {
+  return template.exercises.flatMap(({ sets, ...set }) => Array.from({ length: Math.max(1, sets) }, () => ({ ...set })));
+}
+
+// "10 × 135 lb", "45 s" or "8 reps"
+export function formatSet(set: Omit<WorkoutSet, 'exercise'>) {
+  const parts: string[] = [];
+  if (set.reps !== null && set.load !== null) parts.push(`${set.reps} × ${set.load} lb`);
+  else if (set.reps !== null) parts.push(`${set.reps} reps`);
+  else if (set.load !== null) parts.push(`${set.load} lb`);
+  if (set.duration_seconds !== null) parts.push(`${set.duration_seconds} s`);
+  return parts.join(', ') || '—';
+}
+
+// "Squat 3 × 5 @ 225 lb"
+export function formatTemplateExercise(exercise: TemplateExercise) {
+  const reps = exercise.reps !== null ? `${exercise.sets} × ${exercise.reps}` : `${exercise.sets} sets`;
+  const load = exercise.load !== null ? ` @ ${exercise.load} lb` : '';
+  const duration = exercise.duration_seconds !== null ? `, ${exercise.duration_seconds} s` : '';
+  return `${exercise.exercise} ${reps}${load}${duration}`;
+}
+
+// Consecutive sets of the same exercise, for showing a logged workout
+export function groupSets(sets: WorkoutSet[]): { exercise: string; sets: WorkoutSet[] }[] {
+  const groups: { exercise: string; sets: WorkoutSet[] }[] = [];
+  for (const set of sets) {
+    const last = groups[groups.length - 1];
+    if (last && last.exercise === set.exercise) last.sets.push(set);
+    else groups.push({ exercise: set.exercise, sets: [set] });
+  }
+  return groups;
+}
+
+// Athletes who logged a workout for the assignment
+export function getCompletedAthleteIds(assignmentId: string, workouts: Workout[]): Set<string> {
+  return new Set(
+    workouts.filter(workout => workout.assignment_id === assignmentId).map(workout => workout.athlete_id)
+  );
+}
+
+type WorkoutResponse = Omit<Workout, 'sets'> & {
+  workout_sets: (WorkoutSet & { position: number; load: number | string | null })[] | null;
+};
+
+// Workouts of the given athletes from a date on, newest first
+export async function fetchWorkouts(athleteIds: string[], since: string): Promise<Workout[]> {
+  if (athleteIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('workouts')
+    .select(`${WORKOUT_COLUMNS}, workout_sets (${SET_COLUMNS})`)
+    .in('athlete_id', athleteIds)
+    .gte('performed_on', since)
+    .order('performed_on', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching workouts:', error);
+    throw error;
+  }
+
+  return ((data ?? []) as unknown as WorkoutResponse[]).map(({ workout_sets, ...workout }) => ({
+    ...workout,
+    sets: [...(workout_sets ?? [])]
+      .sort((a, b) => a.position - b.position)
+      .map(set => ({
+        exercise: set.exercise,
+        reps: set.reps,
+        // numeric columns can arrive as strings
+        load: set.load === null ? null : Number(set.load),
+        duration_seconds: set.duration_seconds
+      }))
+  }));
+}
+
+export async function createWorkout(workout: NewWorkout) {
+  const { data, error } = await supabase
+    .from('workouts')
+    .insert({
+      name: workout.name.trim(),
+      performed_on: workout.performedOn,
+      duration_minutes: workout.durationMinutes,
+      rpe: workout.rpe,
+      notes: workout.notes?.trim() || null,
+      assignment_id: workout.assignmentId ?? null
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    console.error('Error logging workout:', error);
+    throw error;
+  }
+
+  const sets = workout.sets
+    .filter(set => set.exercise.trim())
+    .map((set, index) => ({ ...set, exercise: set.exercise.trim(), workout_id: data.id, position: index }));
+  if (sets.length === 0) return;
+
+  const { error: setsError } = await supabase.from('workout_sets').insert(sets);
+
+  if (setsError) {
+    console.error('Error logging workout sets:', setsError);
+    // Do not leave a workout behind without the sets that were entered
+    await deleteWorkout(data.id);
+    throw setsError;
+  }
+}
+
+export async function deleteWorkout(workoutId: string) {
+  const { error } = await supabase
+    .from('workouts')
+    .delete()
+    .eq('id', workoutId);
+
+  if (error) {
+    console.error('Error deleting workout:', error);
+    throw error;
+  }
+}
+
+function toTemplate(row: Omit<TemplateRow, 'created_by' | 'updated_at'>): WorkoutTemplate {
+  return { ...row, exercises: (row.exercises ?? []) as unknown as TemplateExercise[] };
+}
+
+export async function fetchWorkoutTemplates(teamId: string): Promise<WorkoutTemplate[]> {
+  const { data, error } = await supabase
+    .from('workout_templates')
+    .select(TEMPLATE_COLUMNS)
+    .eq('team_id', teamId)
+    .order('name');
+
+  if (error) {
+    console.error('Error fetching workout templates:', error);
+    throw error;
+  }
+
+  return (data ?? []).map(toTemplate);
+}
+
+export async function createWorkoutTemplate(template: NewWorkoutTemplate): Promise<WorkoutTemplate> {
+  const { data, error } = await supabase
+    .from('workout_templates')
+    .insert({
+      team_id: template.teamId,
+      name: template.name.trim(),
+      description: template.description?.trim() || null,
+      exercises: template.exercises
+        .filter(exercise => exercise.exercise.trim())
+        .map(exercise => ({ ...exercise, exercise: exercise.exercise.trim() }))
+    })
+    .select(TEMPLATE_COLUMNS)
+    .single();
+
+  if (error) {
+    console.error('Error creating workout template:', error);
+    throw error;
+  }
+
+  return toTemplate(data);
+}
+
+export async function deleteWorkoutTemplate(templateId: string) {
+  const { error } = await supabase
+    .from('workout_templates')
+    .delete()
+    .eq('id', templateId);
+
+  if (error) {
+    console.error('Error deleting workout template:', error);
+    throw error;
+  }
+}
+
+type AssignmentResponse = Omit<WorkoutAssignment, 'template'> & {
+  workout_templates: Omit<TemplateRow, 'created_by' | 'updated_at'> | null;
+};
+
+// Workouts assigned to the given teams from a date on, soonest first
+export async function fetchWorkoutAssignments(teamIds: string[], since: string): Promise<WorkoutAssignment[]> {
+  if (teamIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('workout_assignments')
+    .select(`id, template_id, team_id, due_on, notes, created_at, workout_templates (${TEMPLATE_COLUMNS})`)
+    .in('team_id', teamIds)
+    .gte('due_on', since)
+    .order('due_on');
+
+  if (error) {
+    console.error('Error fetching assigned workouts:', error);
+    throw error;
+  }
+
+  return ((data ?? []) as unknown as AssignmentResponse[]).map(({ workout_templates, ...assignment }) => ({
+    ...assignment,
+    template: workout_templates ? toTemplate(workout_templates) : null
+  }));
+}
+
+export async function assignWorkout(template: WorkoutTemplate, dueOn: string, notes?: string) {
+  const { error } = await supabase
+    .from('workout_assignments')
+    .insert({
+      template_id: template.id,
+      team_id: template.team_id,
+      due_on: dueOn,
+      notes: notes?.trim() || null
+    });
+
+  if (error) {
+    console.error('Error assigning workout:', error);
+    throw error;
+  }
+}
+
+export async function deleteWorkoutAssignment(assignmentId: string) {
+  const { error } = await supabase
+    .from('workout_assignments')
+    .delete()
+    .eq('id', assignmentId);
+
+  if (error) {
+    console.error('Error deleting assigned workout:', error);
+    throw error;
+  }
+}
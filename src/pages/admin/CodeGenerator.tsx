@@ -1,9 +1,35 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { supabase } from '@/lib/supabase';
+import {
+  createAccessCodes,
+  formatUsage,
+  getAccessCodeStatus,
+  getExpiryDate,
+  getJoinLink,
+  parseMaxUses,
+  revokeAccessCode,
+  type AccessCodeUsage,
+  type ExpiryOption
+} from '@/lib/access-codes';
+import {
+  fetchOrganizationTeams,
+  getTeamCodeGender,
+  getTeamLabel,
+  type Team
+} from '@/lib/teams';
+import { formatDate, getErrorMessage } from '@/lib/utils';
+import { AccessCodeLimitsFields } from '@/components/AccessCodeLimitsFields';
+import { AccessCodeStatusBadge } from '@/components/AccessCodeStatusBadge';
+import { CreateTeamDialog } from '@/components/CreateTeamDialog';
+import { InvitationsPanel } from '@/components/InvitationsPanel';
+import { TeamSelector } from '@/components/TeamSelector';
+import { useSeasons } from '@/hooks/useSeasons';
+import { ConfirmationDialog } from '@/components/ui/confirmation-dialog';
+import { useConfirmation } from '@/hooks/useConfirmation';
 import { 
   Ticket, 
   Copy, 
@@ -11,11 +37,12 @@ import {
   Share2, 
   AlertCircle, 
   RefreshCcw,
-  CheckCircle2,
+  Ban,
   Users,
   Trophy,
   UserCircle,
-  MessageSquare
+  MessageSquare,
+  Plus
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { LoadingSpinner } from '@/components/ui/loading-spinner';
@@ -24,20 +51,28 @@ import { useToast } from '@/components/ui/use-toast';
 import { useAuthStore } from '@/store/auth';
 
 type RoleType = 'admin' | 'coach' | 'athlete';
-type GenderType = 'male' | 'female' | '';
 
 interface Sport {
   id: string;
   name: string;
 }
 
-interface RecentCode {
+interface RecentCode extends AccessCodeUsage {
+  id: string;
   code: string;
   role: RoleType;
   sport_name?: string;
-  gender?: GenderType;
+  team_name?: string;
+  created_at: string;
+}
+
+interface RecentCodeResponse extends AccessCodeUsage {
+  id: string;
+  code: string;
+  role: RoleType;
   created_at: string;
-  used: boolean;
+  sports: { name: string } | null;
+  teams: { name: string } | null;
 }
 
 const ROLE_ICONS = {
@@ -49,21 +84,38 @@ const ROLE_ICONS = {
 export default function CodeGenerator() {
   const { user } = useAuthStore();
   const [role, setRole] = useState<RoleType>('coach');
-  const [sportId, setSportId] = useState('');
-  const [gender, setGender] = useState<GenderType>('');
+  const [teamId, setTeamId] = useState<string | null>(null);
+  const [createTeamOpen, setCreateTeamOpen] = useState(false);
+  const [expiry, setExpiry] = useState<ExpiryOption>('30');
+  const [maxUses, setMaxUses] = useState('1');
   const [sports, setSports] = useState<Sport[]>([]);
+  const [allTeams, setAllTeams] = useState<Team[]>([]);
   const [recentCodes, setRecentCodes] = useState<RecentCode[]>([]);
   const [generatedCode, setGeneratedCode] = useState('');
   const [loading, setLoading] = useState(true);
   const [generating, setGenerating] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
   const { toast } = useToast();
+  const { selectedSeasonIds } = useSeasons();
+  const revokeConfirmation = useConfirmation({
+    title: 'Revoke Access Code',
+    message: 'Nobody will be able to join with this code anymore. This cannot be undone.',
+    confirmText: 'Revoke'
+  });
+
+  // Codes are only generated for teams in the selected season
+  const teams = useMemo(
+    () => allTeams.filter(team => selectedSeasonIds.has(team.season_id)),
+    [allTeams, selectedSeasonIds]
+  );
 
   useEffect(() => {
     if (!user?.id) return;
     
     Promise.all([
       fetchSports(),
+      fetchTeams(),
       fetchRecentCodes()
     ]).finally(() => {
       setLoading(false);
@@ -89,6 +141,24 @@ export default function CodeGenerator() {
     }
   };
 
+  const fetchTeams = async () => {
+    try {
+      setAllTeams(await fetchOrganizationTeams());
+    } catch (error) {
+      console.error('Error fetching teams:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load teams",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleTeamCreated = async (newTeamId: string) => {
+    await fetchTeams();
+    setTeamId(newTeamId);
+  };
+
   const fetchRecentCodes = async () => {
     if (!user?.id) return;
 
@@ -106,12 +176,16 @@ export default function CodeGenerator() {
       const { data, error } = await supabase
         .from('access_codes')
         .select(`
+          id,
           code,
           role,
-          gender,
           created_at,
-          used_at,
-          sports (name)
+          expires_at,
+          max_uses,
+          use_count,
+          revoked_at,
+          sports (name),
+          teams (name)
         `)
         .eq('organization_id', profile.organization_id)
         .order('created_at', { ascending: false })
@@ -120,14 +194,20 @@ export default function CodeGenerator() {
       if (error) throw error;
 
       if (data) {
-       const formattedCodes = data.map(code => ({
-  code: code.code,
-  role: code.role as RoleType,
-  sport_name: code.sports.length > 0 ? code.sports[0].name : undefined, // Accessing the first sport's name
-  gender: code.gender as GenderType | undefined,
-  created_at: code.created_at,
-  used: !!code.used_at
-}));
+        // Many-to-one joins come back as single objects at runtime
+        const rows = data as unknown as RecentCodeResponse[];
+        const formattedCodes = rows.map(code => ({
+          id: code.id,
+          code: code.code,
+          role: code.role,
+          sport_name: code.sports?.name,
+          team_name: code.teams?.name,
+          created_at: code.created_at,
+          expires_at: code.expires_at,
+          max_uses: code.max_uses,
+          use_count: code.use_count,
+          revoked_at: code.revoked_at
+        }));
 
         setRecentCodes(formattedCodes);
       }
@@ -155,10 +235,8 @@ export default function CodeGenerator() {
     setError(null);
 
     try {
-      if (role !== 'admin') {
-        if (!sportId) throw new Error('Please select a sport');
-        if (!gender) throw new Error('Please select a gender');
-      }
+      const team = role !== 'admin' ? teams.find(t => t.id === teamId) : undefined;
+      if (role !== 'admin' && !team) throw new Error('Please select a team');
 
       // Get organization ID
       const { data: profile } = await supabase
@@ -171,22 +249,19 @@ export default function CodeGenerator() {
         throw new Error('Organization not found');
       }
 
-      const code = generateReadableCode();
-      
-      const { error: insertError } = await supabase
-        .from('access_codes')
-        .insert({
-          code,
-          role,
-          sport_id: role !== 'admin' ? sportId : null,
-          gender: role !== 'admin' ? gender : null,
-          organization_id: profile.organization_id,
-          created_by: user.id
-        });
-
-      if (insertError) throw insertError;
-
-      setGeneratedCode(code);
+      const parsedMaxUses = parseMaxUses(maxUses);
+      const [code] = await createAccessCodes([{
+        role,
+        team_id: team?.id ?? null,
+        sport_id: team?.sport_id ?? null,
+        gender: team ? getTeamCodeGender(team) : null,
+        organization_id: profile.organization_id,
+        expires_at: getExpiryDate(expiry),
+        max_uses: parsedMaxUses,
+        created_by: user.id
+      }]);
+
+      setGeneratedCode(code.code);
       await fetchRecentCodes();
       
       toast({
@@ -206,23 +281,36 @@ export default function CodeGenerator() {
     }
   };
 
-  const generateReadableCode = () => {
-    const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
-    const timestamp = Date.now().toString(36).slice(-3).toUpperCase();
-    const random = Array(4).fill(0)
-      .map(() => chars[Math.floor(Math.random() * chars.length)])
-      .join('');
-    return `${random.slice(0, 2)}-${timestamp}-${random.slice(2)}`;
+  const handleRevoke = async (code: RecentCode) => {
+    if (!(await revokeConfirmation.confirm())) return;
+
+    setRevokingId(code.id);
+    try {
+      await revokeAccessCode(code.id);
+      await fetchRecentCodes();
+
+      toast({
+        title: "Revoked",
+        description: `Access code ${code.code} can no longer be used`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error),
+        variant: "destructive"
+      });
+    } finally {
+      setRevokingId(null);
+    }
   };
 
   const handleShare = async (method: 'copy' | 'email' | 'sms' | 'share') => {
     if (!generatedCode) return;
   
-    const selectedSport = sports.find(s => s.id === sportId);
-    const sportText = selectedSport ? ` for ${selectedSport.name}` : '';
-    const genderText = gender ? ` (${gender}'s)` : '';
-    const message = `Here's your access code${sportText}${genderText}: ${generatedCode}`;
-    const joinLink = `${window.location.origin}/join?code=${generatedCode}`;
+    const selectedTeam = role !== 'admin' ? teams.find(t => t.id === teamId) : undefined;
+    const teamText = selectedTeam ? ` for ${getTeamLabel(selectedTeam)}` : '';
+    const message = `Here's your access code${teamText}: ${generatedCode}`;
+    const joinLink = getJoinLink(generatedCode);
     const fullMessage = `${message}\n\nClick here to join: ${joinLink}`;
   
     try {
@@ -363,36 +451,30 @@ export default function CodeGenerator() {
                   className="space-y-4"
                 >
                   <div className="space-y-2">
-                    <Label className="text-gray-400">Sport</Label>
-                    <Select value={sportId} onValueChange={setSportId}>
-                      <SelectTrigger className="bg-blue-500/5 border-blue-500/20 text-white">
-                        <SelectValue placeholder="Select sport" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        {sports.map((sport) => (
-                          <SelectItem key={sport.id} value={sport.id}>
-                            {sport.name}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-                  </div>
-
-                  <div className="space-y-2">
-                    <Label className="text-gray-400">Gender</Label>
-                    <Select value={gender} onValueChange={(value: GenderType) => setGender(value)}>
-                      <SelectTrigger className="bg-blue-500/5 border-blue-500/20 text-white">
-                        <SelectValue placeholder="Select gender" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="male">Men's</SelectItem>
-                        <SelectItem value="female">Women's</SelectItem>
-                      </SelectContent>
-                    </Select>
+                    <div className="flex items-center justify-between">
+                      <Label className="text-gray-400">Team</Label>
+                      <Button
+                        variant="link"
+                        size="sm"
+                        onClick={() => setCreateTeamOpen(true)}
+                        className="h-auto p-0 text-blue-400"
+                      >
+                        <Plus className="h-3 w-3 mr-1" />
+                        New team
+                      </Button>
+                    </div>
+                    <TeamSelector teams={teams} value={teamId} onChange={setTeamId} />
                   </div>
                 </motion.div>
               )}
 
+              <AccessCodeLimitsFields
+                expiry={expiry}
+                maxUses={maxUses}
+                onExpiryChange={setExpiry}
+                onMaxUsesChange={setMaxUses}
+              />
+
               <Button
                 onClick={generateCode}
                 className="w-full bg-blue-500/20 hover:bg-blue-500/30 text-white"
@@ -490,6 +572,7 @@ export default function CodeGenerator() {
                 {recentCodes.length > 0 ? (
                   recentCodes.map((code, index) => {
                     const RoleIcon = ROLE_ICONS[code.role];
+                    const status = getAccessCodeStatus(code);
                     return (
                       <motion.div
                         key={code.code}
@@ -509,8 +592,11 @@ export default function CodeGenerator() {
                               </p>
                               <p className="text-sm text-gray-400">
                                 {code.role.charAt(0).toUpperCase() + code.role.slice(1)}
-                                {code.sport_name && ` • ${code.sport_name}`}
-                                {code.gender && ` • ${code.gender}'s`}
+                                {(code.team_name ?? code.sport_name) && ` • ${code.team_name ?? code.sport_name}`}
+                              </p>
+                              <p className="text-xs text-gray-500">
+                                {formatUsage(code)}
+                                {code.expires_at && ` • Expires ${formatDate(code.expires_at)}`}
                               </p>
                             </div>
                           </div>
@@ -518,13 +604,18 @@ export default function CodeGenerator() {
                             <span className="text-xs text-gray-400">
                               {formatTimeAgo(code.created_at)}
                             </span>
-                            {code.used ? (
-                              <span className="flex items-center gap-1 text-xs text-emerald-400">
-                                <CheckCircle2 className="h-3 w-3" />
-                                Used
-                              </span>
-                            ) : (
-                              <span className="text-xs text-blue-400">Available</span>
+                            <AccessCodeStatusBadge status={status} />
+                            {status === 'available' && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleRevoke(code)}
+                                disabled={revokingId === code.id}
+                                className="h-7 px-2 text-xs text-red-400 hover:bg-red-500/10 hover:text-red-300"
+                              >
+                                <Ban className="h-3 w-3 mr-1" />
+                                Revoke
+                              </Button>
                             )}
                           </div>
                         </div>
@@ -549,6 +640,22 @@ export default function CodeGenerator() {
           </CardContent>
         </Card>
       </div>
+
+      <InvitationsPanel teams={teams} defaultTeamId={teamId} roles={['coach', 'athlete', 'admin']} />
+
+      <CreateTeamDialog
+        open={createTeamOpen}
+        onOpenChange={setCreateTeamOpen}
+        sports={sports}
+        onCreated={handleTeamCreated}
+      />
+
+      <ConfirmationDialog
+        open={revokeConfirmation.isOpen}
+        onConfirm={revokeConfirmation.handleConfirm}
+        onCancel={revokeConfirmation.handleCancel}
+        {...revokeConfirmation.options}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,489 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  ClipboardList,
+  Search,
+  Download,
+  Ban,
+  RefreshCcw,
+  AlertCircle,
+  X
+} from 'lucide-react';
+import { motion } from 'framer-motion';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { useToast } from '@/components/ui/use-toast';
+import { ConfirmationDialog } from '@/components/ui/confirmation-dialog';
+import { useConfirmation } from '@/hooks/useConfirmation';
+import { AccessCodeStatusBadge } from '@/components/AccessCodeStatusBadge';
+import {
+  fetchAccessCodeLedger,
+  formatUsage,
+  getAccessCodeStatus,
+  revokeAccessCodes,
+  type AccessCodeLedgerEntry,
+  type AccessCodeStatus
+} from '@/lib/access-codes';
+import { downloadFile, formatDate, formatDateTime, getErrorMessage, toCsv } from '@/lib/utils';
+
+interface LedgerFilters {
+  role: string;
+  sport: string;
+  gender: string;
+  creator: string;
+  status: string;
+}
+
+const ALL = 'all';
+
+const DEFAULT_FILTERS: LedgerFilters = {
+  role: ALL,
+  sport: ALL,
+  gender: ALL,
+  creator: ALL,
+  status: ALL
+};
+
+const STATUS_OPTIONS: { value: AccessCodeStatus; label: string }[] = [
+  { value: 'available', label: 'Unused' },
+  { value: 'used', label: 'Used' },
+  { value: 'expired', label: 'Expired' },
+  { value: 'revoked', label: 'Revoked' }
+];
+
+type LedgerRow = AccessCodeLedgerEntry & { status: AccessCodeStatus };
+
+export default function CodeLedger() {
+  const [entries, setEntries] = useState<LedgerRow[]>([]);
+  const [filters, setFilters] = useState<LedgerFilters>(DEFAULT_FILTERS);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [revoking, setRevoking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { toast } = useToast();
+  const revokeConfirmation = useConfirmation({
+    title: 'Revoke Access Codes',
+    message: 'The selected codes will stop working immediately. This cannot be undone.',
+    confirmText: 'Revoke'
+  });
+
+  const loadLedger = useCallback(async () => {
+    setError(null);
+    try {
+      const data = await fetchAccessCodeLedger();
+      const now = new Date();
+      setEntries(data.map(entry => ({ ...entry, status: getAccessCodeStatus(entry, now) })));
+      setSelectedIds(new Set());
+    } catch (error) {
+      setError(getErrorMessage(error));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadLedger();
+  }, [loadLedger]);
+
+  const sportOptions = useMemo(() => {
+    const sports = new Map<string, string>();
+    entries.forEach(entry => {
+      if (entry.sport_id && entry.sport_name) sports.set(entry.sport_id, entry.sport_name);
+    });
+    return [...sports.entries()].sort((a, b) => a[1].localeCompare(b[1]));
+  }, [entries]);
+
+  const creatorOptions = useMemo(() => {
+    const creators = new Map<string, string>();
+    entries.forEach(entry => {
+      creators.set(entry.created_by, entry.creator_name || 'Unknown');
+    });
+    return [...creators.entries()].sort((a, b) => a[1].localeCompare(b[1]));
+  }, [entries]);
+
+  const filteredEntries = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+
+    return entries.filter(entry => {
+      if (filters.role !== ALL && entry.role !== filters.role) return false;
+      if (filters.sport !== ALL && entry.sport_id !== filters.sport) return false;
+      if (filters.gender !== ALL && entry.gender !== filters.gender) return false;
+      if (filters.creator !== ALL && entry.created_by !== filters.creator) return false;
+      if (filters.status !== ALL && entry.status !== filters.status) return false;
+
+      if (query) {
+        return entry.code.toLowerCase().includes(query) ||
+          entry.redemptions.some(r =>
+            r.full_name?.toLowerCase().includes(query) ||
+            r.email?.toLowerCase().includes(query)
+          );
+      }
+      return true;
+    });
+  }, [entries, filters, searchQuery]);
+
+  const revocableEntries = filteredEntries.filter(entry => entry.status === 'available');
+  const allRevocableSelected = revocableEntries.length > 0 &&
+    revocableEntries.every(entry => selectedIds.has(entry.id));
+  const hasActiveFilters = searchQuery.trim() !== '' ||
+    Object.values(filters).some(value => value !== ALL);
+
+  const updateFilter = (key: keyof LedgerFilters, value: string) => {
+    setFilters(prev => ({ ...prev, [key]: value }));
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelectedIds(allRevocableSelected ? new Set() : new Set(revocableEntries.map(e => e.id)));
+  };
+
+  const handleBulkRevoke = async () => {
+    if (selectedIds.size === 0) return;
+    if (!(await revokeConfirmation.confirm())) return;
+
+    setRevoking(true);
+    try {
+      const revoked = await revokeAccessCodes([...selectedIds]);
+      toast({
+        title: "Revoked",
+        description: `${revoked} access code${revoked === 1 ? '' : 's'} revoked`,
+      });
+      await loadLedger();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error),
+        variant: "destructive"
+      });
+    } finally {
+      setRevoking(false);
+    }
+  };
+
+  const handleExport = () => {
+    const csv = toCsv(
+      [
+        'Code', 'Role', 'Sport', 'Gender', 'Created By', 'Created At', 'Expires At',
+        'Max Uses', 'Use Count', 'Status', 'Revoked At', 'Redeemed By', 'Redeemed At'
+      ],
+      filteredEntries.map(entry => [
+        entry.code,
+        entry.role,
+        entry.sport_name,
+        entry.gender,
+        entry.creator_name,
+        entry.created_at,
+        entry.expires_at,
+        entry.max_uses ?? 'unlimited',
+        entry.use_count,
+        entry.status,
+        entry.revoked_at,
+        entry.redemptions.map(r => r.full_name || r.email).join('; '),
+        entry.redemptions.map(r => r.redeemed_at).join('; ')
+      ])
+    );
+
+    downloadFile(`access-codes-${new Date().toISOString().slice(0, 10)}.csv`, csv);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[300px] space-y-4">
+        <LoadingSpinner size="lg" className="text-primary" />
+        <p className="text-muted-foreground animate-pulse">Loading access codes...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <motion.div
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="bg-black/40 backdrop-blur-xl rounded-lg border border-blue-500/20 p-6"
+      >
+        <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+          <div className="space-y-2">
+            <h1 className="text-2xl font-bold text-white flex items-center gap-3">
+              <ClipboardList className="h-8 w-8 text-blue-400" />
+              Access Code Ledger
+            </h1>
+            <p className="text-gray-400">
+              Every code created by admins and coaches in your organization
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={loadLedger}
+              className="border-blue-500/20 text-blue-400 hover:bg-blue-500/10"
+            >
+              <RefreshCcw className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              onClick={handleExport}
+              disabled={filteredEntries.length === 0}
+              className="gap-2 border-blue-500/20 text-blue-400 hover:bg-blue-500/10"
+            >
+              <Download className="h-4 w-4" />
+              Export CSV
+            </Button>
+          </div>
+        </div>
+      </motion.div>
+
+      {error && (
+        <Alert variant="destructive" className="bg-red-500/10 border-red-500/20">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {/* Filters */}
+      <Card className="bg-black/40 backdrop-blur-xl border border-blue-500/20">
+        <CardContent className="pt-6 space-y-4">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+            <input
+              type="text"
+              placeholder="Search by code or redeemer..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="pl-10 pr-4 py-2 w-full bg-blue-500/5 border border-blue-500/20 rounded-md text-white placeholder:text-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-5">
+            <div className="space-y-2">
+              <Label className="text-gray-400">Role</Label>
+              <Select value={filters.role} onValueChange={(value) => updateFilter('role', value)}>
+                <SelectTrigger className="bg-blue-500/5 border-blue-500/20 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All roles</SelectItem>
+                  <SelectItem value="admin">Administrator</SelectItem>
+                  <SelectItem value="coach">Coach</SelectItem>
+                  <SelectItem value="athlete">Athlete</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-gray-400">Sport</Label>
+              <Select value={filters.sport} onValueChange={(value) => updateFilter('sport', value)}>
+                <SelectTrigger className="bg-blue-500/5 border-blue-500/20 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All sports</SelectItem>
+                  {sportOptions.map(([id, name]) => (
+                    <SelectItem key={id} value={id}>{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-gray-400">Gender</Label>
+              <Select value={filters.gender} onValueChange={(value) => updateFilter('gender', value)}>
+                <SelectTrigger className="bg-blue-500/5 border-blue-500/20 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All teams</SelectItem>
+                  <SelectItem value="male">Men's</SelectItem>
+                  <SelectItem value="female">Women's</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-gray-400">Created by</Label>
+              <Select value={filters.creator} onValueChange={(value) => updateFilter('creator', value)}>
+                <SelectTrigger className="bg-blue-500/5 border-blue-500/20 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Anyone</SelectItem>
+                  {creatorOptions.map(([id, name]) => (
+                    <SelectItem key={id} value={id}>{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-gray-400">Status</Label>
+              <Select value={filters.status} onValueChange={(value) => updateFilter('status', value)}>
+                <SelectTrigger className="bg-blue-500/5 border-blue-500/20 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Any status</SelectItem>
+                  {STATUS_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {hasActiveFilters && (
+            <Button
+              variant="link"
+              onClick={() => {
+                setFilters(DEFAULT_FILTERS);
+                setSearchQuery('');
+              }}
+              className="px-0 text-blue-400"
+            >
+              <X className="h-4 w-4 mr-1" />
+              Clear all filters
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Ledger */}
+      <Card className="bg-black/40 backdrop-blur-xl border border-blue-500/20">
+        <CardHeader>
+          <CardTitle className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 text-white">
+            <span>
+              {filteredEntries.length} code{filteredEntries.length === 1 ? '' : 's'}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleBulkRevoke}
+              disabled={selectedIds.size === 0 || revoking}
+              className="gap-2 border-red-500/20 text-red-400 hover:bg-red-500/10"
+            >
+              {revoking ? <LoadingSpinner size="sm" /> : <Ban className="h-4 w-4" />}
+              Revoke selected ({selectedIds.size})
+            </Button>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {filteredEntries.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-blue-500/20 text-left text-gray-400">
+                    <th className="py-3 pr-4">
+                      <input
+                        type="checkbox"
+                        aria-label="Select all unused codes"
+                        checked={allRevocableSelected}
+                        onChange={toggleAll}
+                        disabled={revocableEntries.length === 0}
+                      />
+                    </th>
+                    <th className="py-3 pr-4 font-medium">Code</th>
+                    <th className="py-3 pr-4 font-medium">Role</th>
+                    <th className="py-3 pr-4 font-medium">Team</th>
+                    <th className="py-3 pr-4 font-medium">Created</th>
+                    <th className="py-3 pr-4 font-medium">Usage</th>
+                    <th className="py-3 pr-4 font-medium">Status</th>
+                    <th className="py-3 font-medium">Redeemed by</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {filteredEntries.map(entry => (
+                    <tr key={entry.id} className="border-b border-blue-500/10 align-top text-gray-300">
+                      <td className="py-3 pr-4">
+                        <input
+                          type="checkbox"
+                          aria-label={`Select ${entry.code}`}
+                          checked={selectedIds.has(entry.id)}
+                          onChange={() => toggleSelected(entry.id)}
+                          disabled={entry.status !== 'available'}
+                        />
+                      </td>
+                      <td className="py-3 pr-4 font-mono font-bold text-white whitespace-nowrap">
+                        {entry.code}
+                      </td>
+                      <td className="py-3 pr-4 capitalize">{entry.role}</td>
+                      <td className="py-3 pr-4">
+                        {entry.sport_name ?? '—'}
+                        {entry.gender && (
+                          <span className="block text-xs text-gray-500">
+                            {entry.gender === 'male' ? "Men's" : "Women's"}
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-3 pr-4">
+                        {entry.creator_name ?? 'Unknown'}
+                        <span className="block text-xs text-gray-500">{formatDate(entry.created_at)}</span>
+                      </td>
+                      <td className="py-3 pr-4 whitespace-nowrap">
+                        {formatUsage(entry)}
+                        {entry.expires_at && (
+                          <span className="block text-xs text-gray-500">
+                            Expires {formatDate(entry.expires_at)}
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-3 pr-4">
+                        <AccessCodeStatusBadge status={entry.status} />
+                      </td>
+                      <td className="py-3">
+                        {entry.redemptions.length > 0 ? (
+                          <ul className="space-y-1">
+                            {entry.redemptions.map(redemption => (
+                              <li key={redemption.user_id}>
+                                <span className="text-white">
+                                  {redemption.full_name || redemption.email || 'Unknown user'}
+                                </span>
+                                <span className="block text-xs text-gray-500">
+                                  {formatDateTime(redemption.redeemed_at)}
+                                </span>
+                              </li>
+                            ))}
+                          </ul>
+                        ) : (
+                          <span className="text-gray-500">—</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <div className="text-center py-12">
+              <ClipboardList className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+              <p className="text-gray-300">
+                {hasActiveFilters ? 'No codes match your filters' : 'No access codes yet'}
+              </p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <ConfirmationDialog
+        open={revokeConfirmation.isOpen}
+        onConfirm={revokeConfirmation.handleConfirm}
+        onCancel={revokeConfirmation.handleCancel}
+        {...revokeConfirmation.options}
+      />
+    </div>
+  );
+}
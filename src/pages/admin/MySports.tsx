@@ -10,6 +10,7 @@ import {
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { supabase } from '@/lib/supabase';
+import { getSportSlug } from '@/lib/sport-definitions';
 import { LoadingSpinner } from '@/components/ui/loading-spinner';
 import { useRealtimeSubscription } from '@/hooks/useRealtimeSubscription';
 import { Alert, AlertDescription } from '@/components/ui/alert';
@@ -95,8 +96,7 @@ export default function MySports() {
   };
 
   const handleSportNavigation = (sportName: string) => {
-    const sportRoute = sportName.toLowerCase().replace(/\s+/g, '-');
-    navigate(`/sports/${sportRoute}`);
+    navigate(`/sports/${getSportSlug(sportName)}`);
   };
 
   if (loading) {
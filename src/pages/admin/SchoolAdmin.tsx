@@ -8,11 +8,13 @@ import {
 } from '@/components/ui/sheet';
 import { Button } from '@/components/ui/button';
 import { useAuthStore } from '@/store/auth';
+import { SeasonSelector } from '@/components/SeasonSelector';
 import {
   Menu,
   Settings as SettingsIcon,
   UserCog,
   Code,
+  ClipboardList,
   CreditCard,
   Building2,
   Trophy,
@@ -21,6 +23,7 @@ import {
   User,
   ChevronLeft,
   ChevronRight,
+  CalendarRange,
 } from 'lucide-react';
 
 // Import components
@@ -28,7 +31,9 @@ import AnalyticsOverview from './AnalyticsOverview';
 import OrganizationManagement from './OrganizationManagement';
 import CoachRegistration from './CoachRegistration';
 import CodeGenerator from './CodeGenerator';
+import CodeLedger from './CodeLedger';
 import MySports from './MySports';
+import Seasons from './Seasons';
 import SubscriptionManagement from './SubscriptionManagement';
 import Settings from './Settings';
 import { LucideIcon } from 'lucide-react';
@@ -65,12 +70,24 @@ const navigation: NavigationItem[] = [
     icon: Code,
     description: 'Create invitation codes'
   },
+  { 
+    name: 'Code Ledger', 
+    path: '/admin/code-ledger', 
+    icon: ClipboardList,
+    description: 'Track and revoke all codes'
+  },
   { 
     name: 'My Sports', 
     path: '/admin/sports', 
     icon: Trophy,
     description: 'Manage sports programs'
   },
+  { 
+    name: 'Seasons', 
+    path: '/admin/seasons', 
+    icon: CalendarRange,
+    description: 'Manage seasons and rosters'
+  },
   { 
     name: 'Subscription', 
     path: '/admin/subscription', 
@@ -141,6 +158,8 @@ export default function SchoolAdmin() {
         )}
       </div>
 
+      {(!isSidebarCollapsed || isMobile) && <SeasonSelector className="px-4 pb-4" />}
+
       <div className="flex-1 space-y-1 px-2">
         {navigation.map((item) => (
           <NavItem key={item.path} item={item} isMobile={isMobile} />
@@ -232,7 +251,9 @@ export default function SchoolAdmin() {
                 <Route path="organization" element={<OrganizationManagement />} />
                 <Route path="coaches" element={<CoachRegistration />} />
                 <Route path="codes" element={<CodeGenerator />} />
+                <Route path="code-ledger" element={<CodeLedger />} />
                 <Route path="sports/*" element={<MySports />} />
+                <Route path="seasons" element={<Seasons />} />
                 <Route path="subscription" element={<SubscriptionManagement />} />
                 <Route path="settings" element={<Settings />} />
               </Routes>
@@ -0,0 +1,290 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CalendarRange, Plus, ArrowRight, AlertCircle } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { supabase } from '@/lib/supabase';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { useToast } from '@/components/ui/use-toast';
+import { AdvanceSeasonDialog } from '@/components/AdvanceSeasonDialog';
+import { useSeasons } from '@/hooks/useSeasons';
+import { useRealtimeSubscription } from '@/hooks/useRealtimeSubscription';
+import { createSeason, isSeasonActive, type Season } from '@/lib/seasons';
+import { fetchOrganizationTeams } from '@/lib/teams';
+import { formatDate, getErrorMessage } from '@/lib/utils';
+
+interface Sport {
+  id: string;
+  name: string;
+}
+
+// Season dates are plain dates, so format them without a timezone shift
+const SEASON_DATE_FORMAT: Intl.DateTimeFormatOptions = {
+  month: 'long',
+  day: 'numeric',
+  year: 'numeric',
+  timeZone: 'UTC'
+};
+
+const EMPTY_FORM = {
+  sportId: '',
+  name: '',
+  startDate: '',
+  endDate: ''
+};
+
+export default function Seasons() {
+  const { seasons, setSelectedSeason, loading, refresh } = useSeasons();
+  const [sports, setSports] = useState<Sport[]>([]);
+  const [teamCounts, setTeamCounts] = useState<Map<string, number>>(new Map());
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [advanceFrom, setAdvanceFrom] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const fetchTeamCounts = useCallback(async () => {
+    try {
+      const counts = new Map<string, number>();
+      for (const team of await fetchOrganizationTeams()) {
+        counts.set(team.season_id, (counts.get(team.season_id) ?? 0) + 1);
+      }
+      setTeamCounts(counts);
+      setError(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load teams');
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSports();
+    fetchTeamCounts();
+  }, [fetchTeamCounts]);
+
+  useRealtimeSubscription('teams', fetchTeamCounts);
+
+  const fetchSports = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('sports')
+        .select('id, name')
+        .order('name');
+
+      if (error) throw error;
+      setSports(data || []);
+    } catch (error) {
+      console.error('Error fetching sports:', error);
+    }
+  };
+
+  // Seasons grouped by sport, sports in name order and seasons newest first
+  const seasonsBySport = useMemo(() => {
+    const groups = new Map<string, Season[]>();
+    for (const season of seasons) {
+      groups.set(season.sport_name, [...(groups.get(season.sport_name) ?? []), season]);
+    }
+    return [...groups.entries()].sort((a, b) => a[0].localeCompare(b[0]));
+  }, [seasons]);
+
+  const handleCreate = async () => {
+    if (!form.sportId || !form.name.trim() || !form.startDate || !form.endDate) {
+      toast({
+        title: "Error",
+        description: "Please choose a sport, name and dates",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await createSeason(form);
+      toast({
+        title: "Season created",
+        description: `${form.name.trim()} is ready for teams`
+      });
+      setForm(EMPTY_FORM);
+      await refresh();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error),
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAdvanced = async (season: { name: string }) => {
+    setSelectedSeason(season.name);
+    await Promise.all([refresh(), fetchTeamCounts()]);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-[300px] space-y-4">
+        <LoadingSpinner size="lg" className="text-primary" />
+        <p className="text-muted-foreground animate-pulse">Loading seasons...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      {/* Header */}
+      <motion.div
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="bg-black/40 backdrop-blur-xl rounded-lg border border-blue-500/20 p-6"
+      >
+        <div className="space-y-2">
+          <h1 className="text-2xl font-bold text-white flex items-center gap-3">
+            <CalendarRange className="h-8 w-8 text-blue-400" />
+            Seasons
+          </h1>
+          <p className="text-gray-400">
+            Set each sport's seasons and carry returning athletes into the next one
+          </p>
+        </div>
+      </motion.div>
+
+      {error && (
+        <Alert variant="destructive" className="bg-red-500/10 border-red-500/20">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card className="bg-black/40 backdrop-blur-xl border border-blue-500/20">
+        <CardHeader>
+          <CardTitle className="text-white">New Season</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+            <div className="space-y-2">
+              <Label className="text-gray-400">Sport</Label>
+              <Select value={form.sportId} onValueChange={(value) => setForm({ ...form, sportId: value })}>
+                <SelectTrigger className="bg-blue-500/5 border-blue-500/20 text-white">
+                  <SelectValue placeholder="Select sport" />
+                </SelectTrigger>
+                <SelectContent>
+                  {sports.map((sport) => (
+                    <SelectItem key={sport.id} value={sport.id}>
+                      {sport.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="new-season-name" className="text-gray-400">Name</Label>
+              <Input
+                id="new-season-name"
+                placeholder="e.g. 2025-26"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className="bg-blue-500/5 border-blue-500/20 text-white"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="new-season-start" className="text-gray-400">Starts</Label>
+              <Input
+                id="new-season-start"
+                type="date"
+                value={form.startDate}
+                onChange={(e) => setForm({ ...form, startDate: e.target.value })}
+                className="bg-blue-500/5 border-blue-500/20 text-white"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="new-season-end" className="text-gray-400">Ends</Label>
+              <Input
+                id="new-season-end"
+                type="date"
+                value={form.endDate}
+                onChange={(e) => setForm({ ...form, endDate: e.target.value })}
+                className="bg-blue-500/5 border-blue-500/20 text-white"
+              />
+            </div>
+            <Button
+              onClick={handleCreate}
+              disabled={saving}
+              className="bg-blue-500 hover:bg-blue-600 text-white"
+            >
+              {saving ? <LoadingSpinner size="sm" /> : (
+                <>
+                  <Plus className="w-4 h-4 mr-2" />
+                  Create
+                </>
+              )}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {seasonsBySport.length > 0 ? (
+        seasonsBySport.map(([sportName, sportSeasons]) => (
+          <Card key={sportName} className="bg-black/40 backdrop-blur-xl border border-blue-500/20">
+            <CardHeader>
+              <CardTitle className="text-white">{sportName}</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {sportSeasons.map((season) => (
+                <div
+                  key={season.id}
+                  className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 p-4 rounded-lg bg-blue-500/5 border border-blue-500/10"
+                >
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-white">{season.name}</span>
+                      {isSeasonActive(season) && (
+                        <span className="px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-500/20 text-green-400 border border-green-500/20">
+                          Active
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-sm text-gray-400">
+                      {formatDate(season.start_date, SEASON_DATE_FORMAT)} – {formatDate(season.end_date, SEASON_DATE_FORMAT)}
+                      {' • '}
+                      {teamCounts.get(season.id) ?? 0} {teamCounts.get(season.id) === 1 ? 'team' : 'teams'}
+                    </p>
+                  </div>
+                  <Button
+                    variant="outline"
+                    onClick={() => setAdvanceFrom(season.id)}
+                    disabled={!teamCounts.get(season.id)}
+                    className="border-blue-500/20 text-blue-400 hover:bg-blue-500/10"
+                  >
+                    Advance
+                    <ArrowRight className="w-4 h-4 ml-2" />
+                  </Button>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        ))
+      ) : (
+        <div className="text-center py-12">
+          <CalendarRange className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-300 text-lg font-medium">No seasons yet</p>
+          <p className="text-gray-400 mt-2">
+            Seasons are created automatically with the first team of each sport
+          </p>
+        </div>
+      )}
+
+      <AdvanceSeasonDialog
+        open={advanceFrom !== null}
+        onOpenChange={(open) => !open && setAdvanceFrom(null)}
+        seasons={seasons}
+        defaultSeasonId={advanceFrom}
+        onAdvanced={handleAdvanced}
+      />
+    </div>
+  );
+}
@@ -3,29 +3,25 @@ import { motion } from 'framer-motion';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Trophy, KeyRound, AlertCircle, CheckCircle2 } from 'lucide-react';
-import { supabase } from '@/lib/supabase';
+import { KeyRound, AlertCircle, CheckCircle2 } from 'lucide-react';
+import {
+  AccessCodeError,
+  previewAccessCode,
+  redeemAccessCode,
+  type AccessCodePreview
+} from '@/lib/access-codes';
+import { AccessCodeDetails } from '@/components/AccessCodeDetails';
 import { LoadingSpinner } from '@/components/ui/loading-spinner';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { useToast } from '@/components/ui/use-toast';
 import { useAuthStore } from '@/store/auth';
 import { useNavigate } from 'react-router-dom';
 
-interface AccessCodeDetails {
-  sport_id: string;
-  coach_id: string;
-  organization_id: string;
-  sport_name: string;
-  coach_name: string;
-  gender?: 'male' | 'female';
-  organization_name: string;
-}
-
 export default function AccessCode() {
   const [code, setCode] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [codeDetails, setCodeDetails] = useState<AccessCodeDetails | null>(null);
+  const [codeDetails, setCodeDetails] = useState<AccessCodePreview | null>(null);
   const [joining, setJoining] = useState(false);
   const { user } = useAuthStore();
   const { toast } = useToast();
@@ -45,54 +41,12 @@ export default function AccessCode() {
         throw new Error('Authentication required');
       }
 
-      // Check if code exists and is valid
-      const { data: accessCode, error: codeError } = await supabase
-        .from('access_codes')
-        .select(`
-          id,
-          role,
-          used_at,
-          sport_id,
-          coach_id,
-          organization_id,
-          gender,
-          sports (name),
-          creator:created_by (first_name, last_name),
-          organizations (name)
-        `)
-        .eq('code', code.trim())
-        .single();
-
-      if (codeError) throw new Error('Invalid access code');
-      if (!accessCode) throw new Error('Code not found');
-      if (accessCode.used_at) throw new Error('This code has already been used');
-      if (accessCode.role !== 'athlete') throw new Error('Invalid code type');
-
-      // Check if already connected to this coach/sport
-      const { data: existingConnection } = await supabase
-        .from('coach_athletes')
-        .select('id')
-        .match({
-          athlete_id: user.id,
-          coach_id: accessCode.coach_id,
-          sport_id: accessCode.sport_id,
-          organization_id: accessCode.organization_id
-        })
-        .single();
-
-      if (existingConnection) {
-        throw new Error('You are already connected to this team');
+      const preview = await previewAccessCode(code);
+      if (preview.role !== 'athlete') {
+        throw new AccessCodeError('wrong_role');
       }
 
-      setCodeDetails({
-        sport_id: accessCode.sport_id,
-        coach_id: accessCode.coach_id,
-        organization_id: accessCode.organization_id,
-        sport_name: accessCode.sports.name,
-        coach_name: `${accessCode.creator.first_name} ${accessCode.creator.last_name}`,
-        gender: accessCode.gender,
-        organization_name: accessCode.organizations.name
-      });
+      setCodeDetails(preview);
 
     } catch (error) {
       setError(error instanceof Error ? error.message : 'An error occurred');
@@ -106,42 +60,7 @@ export default function AccessCode() {
     setJoining(true);
 
     try {
-      // First mark the code as used
-      const { error: updateError } = await supabase
-        .from('access_codes')
-        .update({ 
-          used_at: new Date().toISOString(),
-          used_by: user.id
-        })
-        .eq('code', code.trim());
-
-      if (updateError) throw updateError;
-
-      // Connect athlete to coach
-      const { error: connectionError } = await supabase
-        .from('coach_athletes')
-        .insert({
-          athlete_id: user.id,
-          coach_id: codeDetails.coach_id,
-          sport_id: codeDetails.sport_id,
-          organization_id: codeDetails.organization_id,
-          gender: codeDetails.gender
-        });
-
-      if (connectionError) throw connectionError;
-
-      // Add sport to user's sports
-      const { error: sportError } = await supabase
-        .from('user_sports')
-        .insert({
-          user_id: user.id,
-          sport_id: codeDetails.sport_id,
-          organization_id: codeDetails.organization_id,
-          gender: codeDetails.gender
-        })
-        .single();
-
-      if (sportError) throw sportError;
+      await redeemAccessCode(code, 'athlete');
 
       toast({
         title: "Success",
@@ -218,34 +137,7 @@ export default function AccessCode() {
               animate={{ opacity: 1, y: 0 }}
               className="space-y-6"
             >
-              <div className="p-4 rounded-lg bg-blue-500/10 border border-blue-500/20">
-                <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
-                  <Trophy className="h-5 w-5 text-blue-400" />
-                  Team Details
-                </h3>
-                <div className="space-y-3 text-gray-300">
-                  <div className="flex justify-between items-center">
-                    <span className="text-gray-400">Sport</span>
-                    <span className="font-medium text-white">{codeDetails.sport_name}</span>
-                  </div>
-                  {codeDetails.gender && (
-                    <div className="flex justify-between items-center">
-                      <span className="text-gray-400">Team</span>
-                      <span className="font-medium text-white">
-                        {codeDetails.gender === 'male' ? "Men's" : "Women's"}
-                      </span>
-                    </div>
-                  )}
-                  <div className="flex justify-between items-center">
-                    <span className="text-gray-400">Coach</span>
-                    <span className="font-medium text-white">{codeDetails.coach_name}</span>
-                  </div>
-                  <div className="flex justify-between items-center">
-                    <span className="text-gray-400">Organization</span>
-                    <span className="font-medium text-white">{codeDetails.organization_name}</span>
-                  </div>
-                </div>
-              </div>
+              <AccessCodeDetails preview={codeDetails} />
 
               <div className="flex items-center justify-between">
                 <Alert className="bg-blue-500/10 border-blue-500/20 flex-1 mr-4">
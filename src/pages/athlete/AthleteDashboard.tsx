@@ -9,7 +9,9 @@ import {
   LogOut,
   User,
   ChevronRight,
-  KeyRound
+  KeyRound,
+  CalendarDays,
+  Dumbbell
 } from 'lucide-react';
 import { useLocation, useNavigate } from 'react-router-dom';
 import { supabase } from '@/lib/supabase';
@@ -20,6 +22,8 @@ import { Card } from '@/components/ui/card';
 
 // Import athlete components
 import MySports from './MySports';
+import Schedule from './Schedule';
+import Training from './Training';
 import Settings from './Settings';
 import AccessCode from './AccessCode';
 import SubscriptionManagement from './SubscriptionManagement';
@@ -38,6 +42,18 @@ const navigation: NavigationItem[] = [
     icon: Trophy,
     description: 'View your sports activities'
   },
+  { 
+    name: 'Schedule', 
+    path: '/athlete/schedule', 
+    icon: CalendarDays,
+    description: 'Games and practices'
+  },
+  { 
+    name: 'Training', 
+    path: '/athlete/training', 
+    icon: Dumbbell,
+    description: 'Workout log and training load'
+  },
   { 
     name: 'Access Code', 
     path: '/athlete/access-code', 
@@ -245,6 +261,8 @@ export default function AthleteDashboard() {
             <PageTransition key={location.pathname}>
               <Routes>
                 <Route index element={<MySports />} />
+                <Route path="schedule" element={<Schedule />} />
+                <Route path="training" element={<Training />} />
                 <Route path="access-code" element={<AccessCode />} />
                 <Route path="subscription" element={<SubscriptionManagement />} />
                 <Route path="settings" element={<Settings />} />
@@ -1,10 +1,18 @@
 import { useState, useEffect } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Trophy, ChevronRight, Settings as SettingsIcon, AlertCircle } from 'lucide-react';
+import { Trophy, ChevronRight, Settings as SettingsIcon, AlertCircle, TrendingUp, Medal } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { supabase } from '@/lib/supabase';
+import { getSportDefinition, getSportSlug } from '@/lib/sport-definitions';
 import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { TeamSelector } from '@/components/TeamSelector';
+import { PersonalBests } from '@/components/PersonalBests';
+import { PersonalRecordFeed } from '@/components/PersonalRecordFeed';
+import { Leaderboard } from '@/components/Leaderboard';
+import { AthleteGoals } from '@/components/AthleteGoals';
+import { useMyTeams } from '@/hooks/useMyTeams';
+import { usePersonalRecords } from '@/hooks/usePersonalRecords';
 import { useRealtimeSubscription } from '@/hooks/useRealtimeSubscription';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Button } from '@/components/ui/button';
@@ -27,11 +35,13 @@ interface UserSportResponse {
 }
 
 export default function MySports() {
-  const { role } = useAuthStore();
+  const { user, role } = useAuthStore();
   const navigate = useNavigate();
   const [sports, setSports] = useState<Sport[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const { teams, allTeams, selectedTeam, setSelectedTeamId } = useMyTeams('athlete');
+  const { marks, getMetric, bests, records } = usePersonalRecords(allTeams, user ? [user.id] : []);
 
   useEffect(() => {
     fetchSports();
@@ -92,9 +102,7 @@ export default function MySports() {
 
   // Function to handle sport navigation
   const handleSportNavigation = (sportName: string) => {
-    // Convert sport name to kebab-case for route
-    const sportRoute = sportName.toLowerCase().replace(/\s+/g, '-');
-    navigate(`/sports/${sportRoute}`);
+    navigate(`/sports/${getSportSlug(sportName)}`);
   };
 
   if (loading) {
@@ -227,6 +235,66 @@ export default function MySports() {
           )}
         </CardContent>
       </Card>
+
+      {user && allTeams.length > 0 && (
+        <AthleteGoals
+          athleteId={user.id}
+          teams={teams}
+          allTeams={allTeams}
+          marks={marks}
+          getMetric={getMetric}
+        />
+      )}
+
+      {allTeams.length > 0 && (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <Card className="bg-gray-900/50 backdrop-blur-sm border border-white/10 lg:col-span-2">
+            <CardHeader>
+              <div className="flex items-center space-x-2">
+                <Trophy className="w-6 h-6 text-yellow-400" />
+                <CardTitle className="text-white">Personal Bests</CardTitle>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <PersonalBests bests={bests} teams={allTeams} />
+            </CardContent>
+          </Card>
+
+          <Card className="bg-gray-900/50 backdrop-blur-sm border border-white/10">
+            <CardHeader>
+              <div className="flex items-center space-x-2">
+                <TrendingUp className="w-6 h-6 text-yellow-400" />
+                <CardTitle className="text-white">Recent PRs</CardTitle>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <PersonalRecordFeed records={records} teams={allTeams} limit={5} />
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {selectedTeam && (
+        <div className="space-y-4">
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <h2 className="text-xl font-bold text-white flex items-center gap-2">
+              <Medal className="h-6 w-6 text-blue-400" />
+              Leaderboards
+            </h2>
+            <TeamSelector
+              teams={teams}
+              value={selectedTeam.id}
+              onChange={setSelectedTeamId}
+              className="md:w-72"
+            />
+          </div>
+          <Leaderboard
+            key={selectedTeam.id}
+            sport={getSportDefinition(selectedTeam.sport_name)}
+            team={selectedTeam}
+          />
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,151 @@
+import { useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { CalendarDays, Rss, AlertCircle, MapPin, UserCheck } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { TeamCalendar } from '@/components/TeamCalendar';
+import { CalendarFeedLink } from '@/components/CalendarFeedLink';
+import { RsvpControls } from '@/components/RsvpControls';
+import { useMyTeams } from '@/hooks/useMyTeams';
+import { useTeamEvents } from '@/hooks/useTeamEvents';
+import { useUpcomingRsvps } from '@/hooks/useUpcomingRsvps';
+import { useAuthStore } from '@/store/auth';
+import { getSportDefinition } from '@/lib/sport-definitions';
+import { getEventTitle, type TeamEvent } from '@/lib/events';
+import { formatDate, formatTime } from '@/lib/utils';
+
+export default function Schedule() {
+  const { teams, loading: teamsLoading, error: teamsError } = useMyTeams('athlete');
+  const teamIds = useMemo(() => teams.map(team => team.id), [teams]);
+  const { events, loading, error, setRange } = useTeamEvents(teamIds);
+  const { events: upcoming, rsvps, loading: upcomingLoading, refresh: refreshRsvps } = useUpcomingRsvps(teamIds);
+  const { user } = useAuthStore();
+
+  const sportsByTeam = useMemo(
+    () => new Map(teams.map(team => [team.id, getSportDefinition(team.sport_name)])),
+    [teams]
+  );
+
+  if (teamsLoading) {
+    return (
+      <div className="flex justify-center items-center min-h-[50vh]">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8 pb-20">
+      {/* Header Section */}
+      <motion.div
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="bg-gray-900/50 p-6 rounded-lg border border-white/10 backdrop-blur-sm"
+      >
+        <div className="space-y-2">
+          <h1 className="text-2xl font-bold text-white flex items-center gap-3">
+            <CalendarDays className="h-8 w-8 text-blue-400" />
+            Schedule
+          </h1>
+          <p className="text-gray-400">
+            Games and practices for all of your teams
+          </p>
+        </div>
+      </motion.div>
+
+      {(teamsError || error) && (
+        <Alert variant="destructive" className="bg-red-500/10 border-red-500/20">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{teamsError ?? error}</AlertDescription>
+        </Alert>
+      )}
+
+      {teams.length === 0 ? (
+        <p className="text-center text-gray-400 py-12">Join a team to see its schedule</p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+          <Card className="bg-gray-900/50 backdrop-blur-sm border border-white/10 lg:col-span-3">
+            <CardContent className="pt-6">
+              <TeamCalendar
+                events={events}
+                loading={loading}
+                showTeam={teams.length > 1}
+                getSport={(event: TeamEvent) => sportsByTeam.get(event.team_id) ?? null}
+                onRangeChange={setRange}
+              />
+            </CardContent>
+          </Card>
+
+          <div className="space-y-6">
+            <Card className="bg-gray-900/50 backdrop-blur-sm border border-white/10">
+              <CardHeader>
+                <CardTitle className="text-white flex items-center gap-2">
+                  <UserCheck className="h-5 w-5 text-blue-400" />
+                  Are You Going?
+                </CardTitle>
+                <p className="text-sm text-gray-400">
+                  Let your coaches know who to expect
+                </p>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {upcomingLoading ? (
+                  <div className="flex justify-center py-4">
+                    <LoadingSpinner />
+                  </div>
+                ) : upcoming.length === 0 ? (
+                  <p className="text-sm text-gray-400 text-center py-2">Nothing coming up</p>
+                ) : (
+                  upcoming.map((event) => (
+                    <div
+                      key={event.id}
+                      className="space-y-2 p-3 rounded-lg bg-gray-800/50 border border-white/10"
+                    >
+                      <div className="text-sm">
+                        <p className="text-white font-medium">
+                          {getEventTitle(event, sportsByTeam.get(event.team_id))}
+                        </p>
+                        <p className="text-gray-400">
+                          {formatDate(event.starts_at, { weekday: 'short', month: 'short', day: 'numeric' })} • {formatTime(event.starts_at)}
+                        </p>
+                        {teams.length > 1 && (
+                          <p className="text-xs text-gray-500">{event.team_name}</p>
+                        )}
+                        {event.location && (
+                          <p className="text-xs text-gray-500 flex items-center gap-1">
+                            <MapPin className="w-3 h-3 shrink-0" />
+                            <span className="truncate">{event.location}</span>
+                          </p>
+                        )}
+                      </div>
+                      <RsvpControls
+                        eventId={event.id}
+                        rsvp={rsvps.find(rsvp => rsvp.event_id === event.id && rsvp.athlete_id === user?.id) ?? null}
+                        onSaved={refreshRsvps}
+                      />
+                    </div>
+                  ))
+                )}
+              </CardContent>
+            </Card>
+
+            <Card className="bg-gray-900/50 backdrop-blur-sm border border-white/10">
+              <CardHeader>
+                <CardTitle className="text-white flex items-center gap-2">
+                  <Rss className="h-5 w-5 text-blue-400" />
+                  Calendar Feed
+                </CardTitle>
+                <p className="text-sm text-gray-400">
+                  Add every team you are on to your phone calendar. Share the link with family so they stay up to date too.
+                </p>
+              </CardHeader>
+              <CardContent>
+                <CalendarFeedLink teamId={null} />
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,256 @@
+import { useState, useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { Dumbbell, Plus, Trash2, ClipboardList, CheckCircle2, Activity } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { useToast } from '@/components/ui/use-toast';
+import { ConfirmationDialog } from '@/components/ui/confirmation-dialog';
+import { WorkoutDialog } from '@/components/WorkoutDialog';
+import { WeeklyLoadChart } from '@/components/WeeklyLoadChart';
+import { useConfirmation } from '@/hooks/useConfirmation';
+import { useMyTeams } from '@/hooks/useMyTeams';
+import { useWorkouts } from '@/hooks/useWorkouts';
+import { useAuthStore } from '@/store/auth';
+import {
+  deleteWorkout,
+  formatSet,
+  formatTemplateExercise,
+  getCompletedAthleteIds,
+  getLoadRatio,
+  getSessionLoad,
+  groupSets,
+  summarizeWeeklyLoad,
+  type Workout,
+  type WorkoutAssignment
+} from '@/lib/workouts';
+import { formatDate, getErrorMessage } from '@/lib/utils';
+
+// Workout dates are plain dates, so format them without a timezone shift
+const WORKOUT_DATE_FORMAT: Intl.DateTimeFormatOptions = {
+  weekday: 'short',
+  month: 'short',
+  day: 'numeric',
+  timeZone: 'UTC'
+};
+
+export default function Training() {
+  const { user } = useAuthStore();
+  const { teams, loading: teamsLoading } = useMyTeams('athlete');
+  const athleteIds = useMemo(() => (user ? [user.id] : []), [user]);
+  const teamIds = useMemo(() => teams.map(team => team.id), [teams]);
+  const { workouts, assignments, loading, refresh } = useWorkouts(athleteIds, teamIds);
+  const [logging, setLogging] = useState<{ assignment: WorkoutAssignment | null } | null>(null);
+  const { toast } = useToast();
+  const deleteConfirmation = useConfirmation({
+    title: 'Delete Workout',
+    message: 'This workout and its sets will be removed from your log.',
+    confirmText: 'Delete'
+  });
+
+  const weekly = useMemo(() => summarizeWeeklyLoad(workouts), [workouts]);
+  const thisWeek = weekly[weekly.length - 1];
+  const ratio = getLoadRatio(weekly);
+  const teamNames = new Map(teams.map(team => [team.id, team.name]));
+
+  const handleDelete = async (workout: Workout) => {
+    if (!(await deleteConfirmation.confirm())) return;
+
+    try {
+      await deleteWorkout(workout.id);
+      await refresh();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error),
+        variant: "destructive"
+      });
+    }
+  };
+
+  if (teamsLoading || loading) {
+    return (
+      <div className="flex justify-center items-center min-h-[50vh]">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8 pb-20">
+      {/* Header Section */}
+      <motion.div
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="bg-gray-900/50 p-6 rounded-lg border border-white/10 backdrop-blur-sm"
+      >
+        <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+          <div className="space-y-2">
+            <h1 className="text-2xl font-bold text-white flex items-center gap-3">
+              <Dumbbell className="h-8 w-8 text-blue-400" />
+              Training
+            </h1>
+            <p className="text-gray-400">
+              Log your workouts, complete what your coaches assign and watch your training load
+            </p>
+          </div>
+          <Button
+            onClick={() => setLogging({ assignment: null })}
+            className="bg-blue-500 hover:bg-blue-600 text-white"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Log Workout
+          </Button>
+        </div>
+      </motion.div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card className="bg-gray-900/50 backdrop-blur-sm border border-white/10 lg:col-span-2">
+          <CardHeader>
+            <CardTitle className="text-white flex items-center gap-2">
+              <Activity className="h-5 w-5 text-blue-400" />
+              Weekly Training Load
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-3 gap-2 text-center">
+              <div className="rounded-md bg-gray-800/50 py-2">
+                <p className="text-white font-medium">{thisWeek.load}</p>
+                <p className="text-xs text-gray-400">Load this week</p>
+              </div>
+              <div className="rounded-md bg-gray-800/50 py-2">
+                <p className="text-white font-medium">{thisWeek.workouts} • {thisWeek.minutes} min</p>
+                <p className="text-xs text-gray-400">Workouts this week</p>
+              </div>
+              <div className="rounded-md bg-gray-800/50 py-2">
+                <p className={ratio !== null && ratio > 1.5 ? 'text-red-400 font-medium' : 'text-white font-medium'}>
+                  {ratio === null ? '—' : ratio.toFixed(2)}
+                </p>
+                <p className="text-xs text-gray-400">Acute:chronic</p>
+              </div>
+            </div>
+            <WeeklyLoadChart weeks={weekly} />
+            <p className="text-xs text-gray-500">Load is minutes times effort (RPE) for each workout</p>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-gray-900/50 backdrop-blur-sm border border-white/10">
+          <CardHeader>
+            <CardTitle className="text-white flex items-center gap-2">
+              <ClipboardList className="h-5 w-5 text-blue-400" />
+              Assigned Workouts
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {assignments.length === 0 && (
+              <p className="text-sm text-gray-400 text-center py-4">Nothing assigned right now</p>
+            )}
+            {assignments.map((assignment) => {
+              const completed = user ? getCompletedAthleteIds(assignment.id, workouts).has(user.id) : false;
+              return (
+                <div key={assignment.id} className="p-3 rounded-lg bg-gray-800/50 border border-white/10 space-y-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <p className="text-white text-sm font-medium">{assignment.template?.name ?? 'Workout'}</p>
+                      <p className="text-xs text-gray-400">
+                        {teams.length > 1 && `${teamNames.get(assignment.team_id)} • `}
+                        {formatDate(assignment.due_on, WORKOUT_DATE_FORMAT)}
+                      </p>
+                    </div>
+                    {completed ? (
+                      <span className="flex items-center gap-1 text-xs text-emerald-400">
+                        <CheckCircle2 className="h-4 w-4" />
+                        Done
+                      </span>
+                    ) : (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setLogging({ assignment })}
+                        className="border-blue-500/40 text-blue-400 hover:bg-blue-500/10"
+                      >
+                        Log
+                      </Button>
+                    )}
+                  </div>
+                  {assignment.notes && <p className="text-xs text-gray-300">{assignment.notes}</p>}
+                  <ul className="text-xs text-gray-400 space-y-0.5">
+                    {assignment.template?.exercises.map((exercise, index) => (
+                      <li key={index}>{formatTemplateExercise(exercise)}</li>
+                    ))}
+                  </ul>
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="bg-gray-900/50 backdrop-blur-sm border border-white/10">
+        <CardHeader>
+          <CardTitle className="text-white flex items-center gap-2">
+            <Dumbbell className="h-5 w-5 text-blue-400" />
+            Workout Log
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {workouts.length === 0 && (
+            <p className="text-center text-gray-400 py-8">No workouts logged in the last few weeks</p>
+          )}
+          {workouts.map((workout) => (
+            <div key={workout.id} className="group p-4 rounded-lg bg-blue-500/5 border border-blue-500/10 space-y-2">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <p className="text-white font-medium flex items-center gap-2">
+                    {workout.name}
+                    {workout.assignment_id && (
+                      <span className="px-2 py-0.5 rounded-full text-xs bg-blue-500/20 text-blue-400">Assigned</span>
+                    )}
+                  </p>
+                  <p className="text-xs text-gray-400">
+                    {formatDate(workout.performed_on, WORKOUT_DATE_FORMAT)}
+                    {` • ${workout.duration_minutes} min • RPE ${workout.rpe} • Load ${getSessionLoad(workout)}`}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleDelete(workout)}
+                  className="opacity-0 group-hover:opacity-100 text-red-400 hover:bg-red-500/10"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+              {workout.sets.length > 0 && (
+                <ul className="text-sm text-gray-300 space-y-0.5">
+                  {groupSets(workout.sets).map((group, index) => (
+                    <li key={index}>
+                      <span className="text-white">{group.exercise}</span>
+                      <span className="text-gray-400"> {group.sets.map(formatSet).join(' / ')}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {workout.notes && <p className="text-xs text-gray-400">{workout.notes}</p>}
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <WorkoutDialog
+        key={logging?.assignment?.id ?? 'new'}
+        open={logging !== null}
+        onOpenChange={(open) => !open && setLogging(null)}
+        assignment={logging?.assignment}
+        onSaved={refresh}
+      />
+
+      <ConfirmationDialog
+        open={deleteConfirmation.isOpen}
+        onConfirm={deleteConfirmation.handleConfirm}
+        onCancel={deleteConfirmation.handleCancel}
+        {...deleteConfirmation.options}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+import { useState, useEffect } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardHeader, CardContent, CardFooter } from '@/components/ui/card';
+import { Ticket, ArrowRight, LogIn, UserPlus } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { useToast } from '@/components/ui/use-toast';
+import { useAuthStore } from '@/store/auth';
+import { AccessCodeDetails } from '@/components/AccessCodeDetails';
+import {
+  previewAccessCode,
+  redeemAccessCode,
+  type AccessCodePreview
+} from '@/lib/access-codes';
+import { markInvitationOpened } from '@/lib/invitations';
+import { getErrorMessage } from '@/lib/utils';
+
+export default function Join() {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const code = searchParams.get('code')?.trim() ?? '';
+  // Sign-up and sign-in carry the whole query so they return to this link
+  // with everything it held, not just the code
+  const joinQuery = searchParams.toString();
+  const inviteToken = searchParams.get('invite');
+  const { user, role, setRole, setOrganizationId } = useAuthStore();
+  const { toast } = useToast();
+  const [preview, setPreview] = useState<AccessCodePreview | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [joining, setJoining] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!code) {
+      setError('This join link is missing its access code');
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    previewAccessCode(code)
+      .then(setPreview)
+      .catch((error) => setError(getErrorMessage(error)))
+      .finally(() => setLoading(false));
+  }, [code]);
+
+  // Links from invitation emails carry a token so the sender can see the
+  // invitation was opened
+  useEffect(() => {
+    if (inviteToken) markInvitationOpened(inviteToken);
+  }, [inviteToken]);
+
+  const handleJoin = async () => {
+    setJoining(true);
+    setError(null);
+
+    try {
+      const redeemed = await redeemAccessCode(code);
+
+      setOrganizationId(redeemed.organization_id);
+      setRole(redeemed.role);
+
+      toast({
+        title: "Success",
+        description: preview?.sport_name
+          ? `Successfully joined ${preview.sport_name}`
+          : 'Successfully joined your organization',
+      });
+
+      navigate(`/${redeemed.role}`, { replace: true });
+    } catch (error) {
+      console.error('Join error:', error);
+      setError(getErrorMessage(error));
+    } finally {
+      setJoining(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-900 via-black to-gray-900 flex items-center justify-center p-4 relative">
+      <div className="absolute inset-0">
+        <div className="absolute top-1/4 left-1/4 w-96 h-96 bg-blue-500/30 rounded-full blur-3xl animate-pulse" />
+        <div className="absolute bottom-1/4 right-1/4 w-96 h-96 bg-blue-600/20 rounded-full blur-3xl animate-pulse delay-1000" />
+      </div>
+
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="w-full max-w-md relative"
+      >
+        <Card className="bg-background/50 backdrop-blur-sm border border-white/10">
+          <CardHeader className="space-y-1 text-center">
+            <Ticket className="w-12 h-12 mx-auto text-blue-400" />
+            <h2 className="text-2xl font-bold text-white">You're invited</h2>
+            {code && (
+              <p className="font-mono text-lg tracking-wider text-gray-300">{code}</p>
+            )}
+          </CardHeader>
+
+          <CardContent className="space-y-6">
+            {loading ? (
+              <div className="flex justify-center py-8">
+                <LoadingSpinner size="lg" />
+              </div>
+            ) : (
+              <>
+                {preview && <AccessCodeDetails preview={preview} />}
+
+                {error && (
+                  <motion.div
+                    initial={{ opacity: 0, height: 0 }}
+                    animate={{ opacity: 1, height: 'auto' }}
+                    className="text-sm text-red-400 bg-red-900/50 p-3 rounded-lg border border-red-500/50"
+                  >
+                    {error}
+                  </motion.div>
+                )}
+
+                {preview && user && (
+                  <Button
+                    onClick={handleJoin}
+                    className="w-full bg-blue-500/20 hover:bg-blue-500/30 text-white group"
+                    disabled={joining}
+                  >
+                    {joining ? (
+                      <div className="flex items-center justify-center space-x-2">
+                        <LoadingSpinner size="sm" />
+                        <span>Joining...</span>
+                      </div>
+                    ) : (
+                      <span className="flex items-center justify-center gap-2">
+                        Confirm and Join
+                        <ArrowRight className="h-5 w-5 transition-transform group-hover:translate-x-1" />
+                      </span>
+                    )}
+                  </Button>
+                )}
+
+                {preview && !user && (
+                  <div className="space-y-3">
+                    <Button
+                      onClick={() => navigate(`/signup?${joinQuery}`)}
+                      className="w-full bg-blue-500/20 hover:bg-blue-500/30 text-white"
+                    >
+                      <UserPlus className="mr-2 h-5 w-5" />
+                      Create an account to join
+                    </Button>
+                    <Button
+                      variant="outline"
+                      onClick={() => navigate(`/login?${joinQuery}`)}
+                      className="w-full border-white/10 text-gray-300 hover:bg-blue-500/10 hover:text-white"
+                    >
+                      <LogIn className="mr-2 h-5 w-5" />
+                      I already have an account
+                    </Button>
+                  </div>
+                )}
+              </>
+            )}
+          </CardContent>
+
+          <CardFooter>
+            <p className="text-sm text-gray-400 text-center w-full">
+              {user ? (
+                <Link to={role ? `/${role}` : '/'} className="text-blue-400 hover:text-blue-300 transition-colors">
+                  Back to dashboard
+                </Link>
+              ) : (
+                <Link to="/" className="text-blue-400 hover:text-blue-300 transition-colors">
+                  Back to home
+                </Link>
+              )}
+            </p>
+          </CardFooter>
+        </Card>
+      </motion.div>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState, } from 'react';
-import { Link, useNavigate } from 'react-router-dom';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
 import { supabase } from '@/lib/supabase';
 import { Button } from '@/components/ui/button';
 import { Card, CardHeader, CardContent, CardFooter } from '@/components/ui/card';
@@ -51,6 +51,8 @@ export default function Login() {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const joinCode = searchParams.get('code');
   const { setUser, setRole, setOrganizationId, initializeAuth } = useAuthStore();
 
   const handleSignIn = async (e: React.FormEvent) => {
@@ -106,8 +108,10 @@ export default function Login() {
         // Initialize auth state
         await initializeAuth();
 
-        // Navigate based on role
-        if (profile.role) {
+        // Navigate based on role, unless the user arrived from a join link
+        if (joinCode) {
+          navigate(`/join?${searchParams}`);
+        } else if (profile.role) {
           switch (profile.role) {
             case 'admin':
               navigate('/admin');
@@ -221,7 +225,10 @@ export default function Login() {
             </Link>
             <p className="text-sm text-gray-400">
               Don't have an account?{' '}
-              <Link to="/signup" className="text-blue-400 hover:text-blue-300 transition-colors">
+              <Link
+                to={joinCode ? `/signup?${searchParams}` : '/signup'}
+                className="text-blue-400 hover:text-blue-300 transition-colors"
+              >
                 Sign up
               </Link>
             </p>
@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { useNavigate, Link } from 'react-router-dom';
+import { useNavigate, Link, useSearchParams } from 'react-router-dom';
 import { supabase } from '@/lib/supabase';
 import { Button } from '@/components/ui/button';
 import { Card, CardHeader, CardContent, CardFooter } from '@/components/ui/card';
@@ -7,18 +7,24 @@ import { UserPlus, ArrowRight } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { LoadingSpinner } from '@/components/ui/loading-spinner';
 import { useAuthStore } from '@/store/auth';
+import { redeemAccessCode } from '@/lib/access-codes';
 
 export default function SignUp() {
   const navigate = useNavigate();
-  const { setUser, setRole } = useAuthStore();
+  const [searchParams] = useSearchParams();
+  const { setUser, setRole, setOrganizationId } = useAuthStore();
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
   const [fullName, setFullName] = useState('');
-  const [accessCode, setAccessCode] = useState('');
+  const [accessCode, setAccessCode] = useState(searchParams.get('code') ?? '');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  // Sign-in keeps the rest of a join link's query, with the code as typed
+  const loginParams = new URLSearchParams(searchParams);
+  loginParams.set('code', accessCode.trim());
+
   // Effect to handle auth state
   useEffect(() => {
     const authListener = supabase.auth.onAuthStateChange(async (event, session) => {
@@ -85,46 +91,10 @@ export default function SignUp() {
       setUser(newUser);
 
       if (accessCode.trim()) {
-        const { data: codeData, error: codeError } = await supabase
-          .from('access_codes')
-          .select('*')
-          .eq('code', accessCode.trim())
-          .is('used_at', null)
-          .single();
-
-        if (codeError || !codeData) {
-          throw new Error('Invalid or expired access code');
-        }
-
-        await supabase
-          .from('access_codes')
-          .update({
-            used_at: new Date().toISOString(),
-            used_by: newUser.id,
-          })
-          .eq('code', accessCode.trim());
+        const redeemed = await redeemAccessCode(accessCode);
 
-        await supabase
-          .from('profiles')
-          .update({
-            role: codeData.role,
-            organization_id: codeData.organization_id,
-            updated_at: new Date().toISOString()
-          })
-          .eq('id', newUser.id);
-
-        if (codeData.sport_id) {
-          await supabase
-            .from('user_sports')
-            .insert({
-              user_id: newUser.id,
-              sport_id: codeData.sport_id,
-              organization_id: codeData.organization_id,
-              created_at: new Date().toISOString()
-            });
-        }
-
-        setRole(codeData.role);
+        setOrganizationId(redeemed.organization_id);
+        setRole(redeemed.role);
         // Navigation will be handled by the auth state change listener
       }
 
@@ -268,7 +238,10 @@ export default function SignUp() {
           <CardFooter>
             <p className="text-sm text-gray-400 text-center w-full">
               Already have an account?{' '}
-              <Link to="/login" className="text-blue-400 hover:text-blue-300 transition-colors">
+              <Link
+                to={accessCode.trim() ? `/login?${loginParams}` : '/login'}
+                className="text-blue-400 hover:text-blue-300 transition-colors"
+              >
                 Sign in
               </Link>
             </p>
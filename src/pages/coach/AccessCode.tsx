@@ -2,13 +2,15 @@ import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Card, CardHeader, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { supabase } from '@/lib/supabase';
+import { redeemAccessCode } from '@/lib/access-codes';
+import { useAuthStore } from '@/store/auth';
 import { Building2 } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { LoadingSpinner } from '@/components/ui/loading-spinner';
 
 export default function AccessCode() {
   const navigate = useNavigate();
+  const { setOrganizationId } = useAuthStore();
   const [code, setCode] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -19,51 +21,8 @@ export default function AccessCode() {
     setError(null);
 
     try {
-      // Verify the access code
-      const { data: codeData, error: codeError } = await supabase
-        .from('access_codes')
-        .select('*')
-        .eq('code', code)
-        .is('used_at', null)
-        .single();
-
-      if (codeError || !codeData) {
-        throw new Error('Invalid or expired access code');
-      }
-
-      if (codeData.role !== 'coach') {
-        throw new Error('This code is not valid for coaches');
-      }
-
-      // Update profile with organization
-      const { error: updateError } = await supabase
-        .from('profiles')
-        .update({
-          organization_id: codeData.organization_id,
-        })
-        .eq('id', (await supabase.auth.getUser()).data.user?.id);
-
-      if (updateError) throw updateError;
-
-      // Mark code as used
-      await supabase
-        .from('access_codes')
-        .update({
-          used_at: new Date().toISOString(),
-          used_by: (await supabase.auth.getUser()).data.user?.id,
-        })
-        .eq('code', code);
-
-      // Add sport association if specified
-      if (codeData.sport_id) {
-        await supabase
-          .from('user_sports')
-          .insert({
-            user_id: (await supabase.auth.getUser()).data.user?.id,
-            sport_id: codeData.sport_id,
-            organization_id: codeData.organization_id,
-          });
-      }
+      const redeemed = await redeemAccessCode(code, 'coach');
+      setOrganizationId(redeemed.organization_id);
 
       navigate('/coach');
     } catch (error) {
@@ -9,109 +9,82 @@ import {
   Trophy,
   UserPlus,
   X,
-  Filter,
-  ChevronRight
+  ChevronRight,
+  FileSpreadsheet,
+  ClipboardCheck,
+  Percent,
+  TrendingUp
 } from 'lucide-react';
-import { supabase } from '@/lib/supabase';
 import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { TeamSelector } from '@/components/TeamSelector';
+import { AttendanceSheet } from '@/components/AttendanceSheet';
+import { PersonalRecordFeed } from '@/components/PersonalRecordFeed';
+import { useMyTeams } from '@/hooks/useMyTeams';
+import { usePersonalRecords } from '@/hooks/usePersonalRecords';
 import { useRealtimeSubscription } from '@/hooks/useRealtimeSubscription';
-
-// Type definitions
-interface SportFilter {
-  name: string;
-  gender?: string;
-}
-
-interface AthleteDetails {
-  id: string;
-  full_name: string;
-  email: string;
-  created_at: string;
-  sports: {
-    name: string;
-    gender?: string;
-  }[];
-}
-
-interface UserSport {
-  sports: {
-    name: string;
-  };
-  gender?: string;
-}
-
-interface SupabaseAthlete {
-  athlete: {
-    id: string;
-    full_name: string;
-    email: string;
-    created_at: string;
-    user_sports: UserSport[];
-  };
+import { compareRosterOrder, fetchTeamMembers, getTeamLevelLabel, type TeamMember } from '@/lib/teams';
+import {
+  ATTENDANCE_STATUSES,
+  fetchTeamAttendance,
+  formatAttendanceRate,
+  getAttendedAthleteIds,
+  summarizeAttendance,
+  summarizeByAthlete,
+  type AttendanceSummary
+} from '@/lib/attendance';
+import { getSportDefinition } from '@/lib/sport-definitions';
+
+function formatRosterDetails(athlete: TeamMember) {
+  return [
+    athlete.jersey_number && `#${athlete.jersey_number}`,
+    athlete.position,
+    athlete.grad_year && `Class of ${athlete.grad_year}`
+  ].filter(Boolean).join(' • ');
 }
 
 export default function Athletes() {
   const navigate = useNavigate();
-  const [athletes, setAthletes] = useState<AthleteDetails[]>([]);
-  const [filteredAthletes, setFilteredAthletes] = useState<AthleteDetails[]>([]);
+  const { teams, allTeams, selectedTeam, setSelectedTeamId, loading: teamsLoading } = useMyTeams('coach');
+  const [athletes, setAthletes] = useState<TeamMember[]>([]);
+  const [filteredAthletes, setFilteredAthletes] = useState<TeamMember[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
-  const [selectedSportFilter, setSelectedSportFilter] = useState<SportFilter | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
-  const [selectedAthlete, setSelectedAthlete] = useState<AthleteDetails | null>(null);
+  const [selectedAthlete, setSelectedAthlete] = useState<TeamMember | null>(null);
+  const [isAttendanceOpen, setIsAttendanceOpen] = useState(false);
+  const [attendance, setAttendance] = useState<Map<string, AttendanceSummary>>(new Map());
   const [stats, setStats] = useState({
     totalAthletes: 0,
     activeThisWeek: 0,
-    recentJoins: 0
+    recentJoins: 0,
+    attendanceRate: null as number | null
   });
+  const teamId = selectedTeam?.id ?? null;
+  const { records } = usePersonalRecords(allTeams, athletes.map(athlete => athlete.user_id));
 
-  // Fetch athletes data
+  // Fetch the selected team's athletes
   const fetchAthletes = useCallback(async () => {
+    if (!teamId) {
+      setAthletes([]);
+      setLoading(false);
+      return;
+    }
+
     try {
-      const { data: profile } = await supabase
-        .from('profiles')
-        .select('organization_id')
-        .single();
-
-      if (!profile?.organization_id) throw new Error('No organization found');
-
-      const { data, error } = await supabase
-        .from('coach_athletes')
-        .select(`
-          athlete:athlete_id(
-            id,
-            full_name,
-            email,
-            created_at,
-            user_sports (
-              sports (
-                name
-              ),
-              gender
-            )
-          )
-        `)
-        .eq('coach_id', (await supabase.auth.getUser()).data.user?.id)
-        .eq('organization_id', profile.organization_id);
-
-      if (error) throw error;
-      
-      const typedData = data as unknown as SupabaseAthlete[];
-      
-      const formattedAthletes: AthleteDetails[] = typedData.map(item => ({
-        id: item.athlete.id,
-        full_name: item.athlete.full_name,
-        email: item.athlete.email,
-        created_at: item.athlete.created_at,
-        sports: item.athlete.user_sports.map(s => ({
-          name: s.sports.name,
-          gender: s.gender
-        }))
-      }));
-
-      setAthletes(formattedAthletes);
-      setFilteredAthletes(formattedAthletes);
+      const [members, { events, records }] = await Promise.all([
+        fetchTeamMembers(teamId),
+        fetchTeamAttendance(teamId)
+      ]);
+      const teamAthletes = members.filter(member => member.role === 'athlete');
+      const athleteIds = new Set(teamAthletes.map(athlete => athlete.user_id));
+      // Athletes who have left the team keep their history but drop out of
+      // the team numbers
+      const rosterRecords = records.filter(record => athleteIds.has(record.athlete_id));
+
+      setAthletes(teamAthletes);
+      setAttendance(summarizeByAthlete(rosterRecords));
+      setError(null);
 
       // Calculate stats
       const now = new Date();
@@ -119,13 +92,12 @@ export default function Athletes() {
       const thirtyDaysAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
 
       setStats({
-        totalAthletes: formattedAthletes.length,
-        activeThisWeek: formattedAthletes.filter(a => 
-          new Date(a.created_at) > oneWeekAgo
-        ).length,
-        recentJoins: formattedAthletes.filter(a => 
+        totalAthletes: teamAthletes.length,
+        activeThisWeek: getAttendedAthleteIds(rosterRecords, events, oneWeekAgo).size,
+        recentJoins: teamAthletes.filter(a => 
           new Date(a.created_at) > thirtyDaysAgo
-        ).length
+        ).length,
+        attendanceRate: summarizeAttendance(rosterRecords).rate
       });
 
     } catch (error) {
@@ -133,44 +105,33 @@ export default function Athletes() {
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [teamId]);
 
   useEffect(() => {
     fetchAthletes();
   }, [fetchAthletes]);
 
   // Subscribe to real-time updates
-  useRealtimeSubscription('coach_athletes', () => {
-    fetchAthletes();
-  });
+  useRealtimeSubscription('team_members', fetchAthletes);
+  useRealtimeSubscription('attendance', fetchAthletes);
 
-  // Handle search and filtering
+  // Handle search
   useEffect(() => {
-    let filtered = [...athletes];
-
-    if (searchQuery.trim()) {
-      filtered = filtered.filter(athlete =>
-        athlete.full_name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        athlete.email.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        athlete.sports.some(s => 
-          s.name.toLowerCase().includes(searchQuery.toLowerCase())
-        )
-      );
+    const query = searchQuery.trim().toLowerCase();
+    if (!query) {
+      setFilteredAthletes(athletes);
+      return;
     }
 
-    if (selectedSportFilter) {
-      filtered = filtered.filter(athlete =>
-        athlete.sports.some(s => 
-          s.name === selectedSportFilter.name &&
-          (!selectedSportFilter.gender || s.gender === selectedSportFilter.gender)
-        )
-      );
-    }
+    setFilteredAthletes(athletes.filter(athlete =>
+      (athlete.full_name ?? '').toLowerCase().includes(query) ||
+      (athlete.email ?? '').toLowerCase().includes(query) ||
+      (athlete.position ?? '').toLowerCase().includes(query) ||
+      athlete.jersey_number === query.replace(/^#/, '')
+    ));
+  }, [searchQuery, athletes]);
 
-    setFilteredAthletes(filtered);
-  }, [searchQuery, selectedSportFilter, athletes]);
-
-  const handleAthleteClick = (athlete: AthleteDetails) => {
+  const handleAthleteClick = (athlete: TeamMember) => {
     setSelectedAthlete(athlete);
     setIsModalOpen(true);
   };
@@ -196,10 +157,17 @@ export default function Athletes() {
       icon: UserPlus,
       bgColor: 'bg-purple-500/10',
       textColor: 'text-purple-500'
+    },
+    {
+      title: 'Team Attendance',
+      value: formatAttendanceRate(stats.attendanceRate),
+      icon: Percent,
+      bgColor: 'bg-yellow-500/10',
+      textColor: 'text-yellow-500'
     }
   ];
 
-  if (loading) {
+  if (loading || teamsLoading) {
     return (
       <div className="flex justify-center items-center min-h-[200px]">
         <LoadingSpinner size="lg" />
@@ -216,7 +184,7 @@ export default function Athletes() {
       )}
 
       {/* Stats Cards */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         {cards.map((card, index) => (
           <motion.div
             key={card.title}
@@ -237,38 +205,74 @@ export default function Athletes() {
         ))}
       </div>
 
+      {/* Recent Personal Records */}
+      {records.length > 0 && (
+        <Card className="border-transparent bg-card/50 backdrop-blur-sm">
+          <CardHeader className="flex flex-row items-center gap-2 space-y-0">
+            <TrendingUp className="h-5 w-5 text-yellow-500" />
+            <CardTitle className="text-lg">Recent PRs</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <PersonalRecordFeed
+              records={records}
+              teams={allTeams}
+              athleteNames={new Map(athletes.map(athlete => [athlete.user_id, athlete.full_name ?? athlete.email ?? '']))}
+              limit={5}
+            />
+          </CardContent>
+        </Card>
+      )}
+
       {/* Search and Filter Bar */}
       <Card className="border-transparent bg-card/50 backdrop-blur-sm">
         <CardContent className="pt-6">
           <div className="flex flex-col md:flex-row gap-4 items-center justify-between">
-            <div className="relative w-full md:w-auto">
-              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-              <input
-                type="text"
-                placeholder="Search athletes..."
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-                className="pl-10 pr-4 py-2 w-full md:w-[300px] bg-background border rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+            <div className="flex flex-col md:flex-row gap-4 w-full md:w-auto">
+              <TeamSelector
+                teams={teams}
+                value={teamId}
+                onChange={setSelectedTeamId}
+                className="w-full md:w-[240px] bg-background border text-foreground"
               />
+              <div className="relative w-full md:w-auto">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <input
+                  type="text"
+                  placeholder="Search athletes..."
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  className="pl-10 pr-4 py-2 w-full md:w-[300px] bg-background border rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+                />
+              </div>
             </div>
 
-            <div className="flex gap-2">
+            <div className="flex flex-wrap gap-2">
               <Button
                 variant="outline"
                 className="gap-2"
-                onClick={() => navigate('/coach/codes')}
+                disabled={!selectedTeam}
+                onClick={() => setIsAttendanceOpen(true)}
               >
-                <UserPlus className="h-4 w-4" />
-                Invite Athletes
+                <ClipboardCheck className="h-4 w-4" />
+                Take Attendance
               </Button>
 
               <Button
                 variant="outline"
-                className={`gap-2 ${selectedSportFilter ? 'bg-primary text-primary-foreground' : ''}`}
-                onClick={() => setSelectedSportFilter(null)}
+                className="gap-2"
+                onClick={() => navigate('/coach/athletes/import')}
               >
-                <Filter className="h-4 w-4" />
-                {selectedSportFilter ? 'Clear Filter' : 'Filter'}
+                <FileSpreadsheet className="h-4 w-4" />
+                Import Roster
+              </Button>
+
+              <Button
+                variant="outline"
+                className="gap-2"
+                onClick={() => navigate('/coach/codes')}
+              >
+                <UserPlus className="h-4 w-4" />
+                Invite Athletes
               </Button>
             </div>
           </div>
@@ -296,27 +300,24 @@ export default function Athletes() {
                       <ChevronRight className="h-4 w-4 text-muted-foreground" />
                     </h3>
                     <p className="text-sm text-muted-foreground">{athlete.email}</p>
+                    {formatRosterDetails(athlete) && (
+                      <p className="text-xs text-muted-foreground">{formatRosterDetails(athlete)}</p>
+                    )}
                   </div>
-                  <div className="flex flex-wrap gap-2 justify-end">
-                    {athlete.sports.map((sport, idx) => (
+                  <div className="flex items-center gap-2">
+                    {attendance.has(athlete.user_id) && (
                       <span
-                        key={idx}
-                        className={`px-2 py-1 rounded-full text-xs
-                          ${sport.gender === 'male' 
-                            ? 'bg-blue-500/20 text-blue-500' 
-                            : sport.gender === 'female'
-                            ? 'bg-pink-500/20 text-pink-500'
-                            : 'bg-gray-500/20 text-gray-500'
-                          }`}
-                        onClick={(e) => {
-                    
-                          e.stopPropagation();
-                          setSelectedSportFilter(sport);
-                        }}
+                        title="Attendance"
+                        className="px-2 py-1 rounded-full text-xs bg-emerald-500/20 text-emerald-500"
                       >
-                        {sport.gender ? `${sport.gender}'s ` : ''}{sport.name}
+                        {formatAttendanceRate(attendance.get(athlete.user_id)?.rate ?? null)}
                       </span>
-                    ))}
+                    )}
+                    {selectedTeam && (
+                      <span className="px-2 py-1 rounded-full text-xs bg-blue-500/20 text-blue-500">
+                        {selectedTeam.name}
+                      </span>
+                    )}
                   </div>
                 </div>
               </CardContent>
@@ -329,20 +330,28 @@ export default function Athletes() {
             <CardContent className="text-center">
               <Users className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
               <p className="text-lg text-muted-foreground">
-                {searchQuery || selectedSportFilter 
-                  ? 'No athletes found matching your search or filter'
-                  : 'No athletes found'}
+                {!selectedTeam
+                  ? 'Create a team to start adding athletes'
+                  : searchQuery
+                  ? 'No athletes found matching your search'
+                  : 'No athletes on this team yet'}
               </p>
-              {(searchQuery || selectedSportFilter) && (
+              {searchQuery && (
+                <Button
+                  variant="link"
+                  onClick={() => setSearchQuery('')}
+                  className="mt-2"
+                >
+                  Clear search
+                </Button>
+              )}
+              {!selectedTeam && (
                 <Button
                   variant="link"
-                  onClick={() => {
-                    setSearchQuery('');
-                    setSelectedSportFilter(null);
-                  }}
+                  onClick={() => navigate('/coach/sports')}
                   className="mt-2"
                 >
-                  Clear all filters
+                  Go to My Teams
                 </Button>
               )}
             </CardContent>
@@ -385,28 +394,40 @@ export default function Athletes() {
                   <p className="text-lg">{selectedAthlete.email}</p>
                 </div>
 
-                <div>
-                  <h3 className="text-sm text-muted-foreground">Sports</h3>
-                  <div className="flex flex-wrap gap-2 mt-2">
-                    {selectedAthlete.sports.map((sport, idx) => (
-                      <span
-                        key={idx}
-                        className={`px-3 py-1 rounded-full text-sm
-                          ${sport.gender === 'male' 
-                            ? 'bg-blue-500/20 text-blue-500' 
-                            : sport.gender === 'female'
-                            ? 'bg-pink-500/20 text-pink-500'
-                            : 'bg-gray-500/20 text-gray-500'
-                          }`}
-                      >
-                        {sport.gender ? `${sport.gender}'s ` : ''}{sport.name}
-                      </span>
-                    ))}
+                {formatRosterDetails(selectedAthlete) && (
+                  <div>
+                    <h3 className="text-sm text-muted-foreground">Roster</h3>
+                    <p className="text-lg">{formatRosterDetails(selectedAthlete)}</p>
                   </div>
-                </div>
+                )}
+
+                {selectedTeam && (
+                  <div>
+                    <h3 className="text-sm text-muted-foreground">Team</h3>
+                    <p className="text-lg">{selectedTeam.name}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {getTeamLevelLabel(selectedTeam.level)} • {selectedTeam.sport_name}
+                      {selectedTeam.season_name && ` • ${selectedTeam.season_name}`}
+                    </p>
+                  </div>
+                )}
+
+                {attendance.has(selectedAthlete.user_id) && (
+                  <div>
+                    <h3 className="text-sm text-muted-foreground">Attendance</h3>
+                    <p className="text-lg">
+                      {formatAttendanceRate(attendance.get(selectedAthlete.user_id)?.rate ?? null)}
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      {ATTENDANCE_STATUSES
+                        .map(status => `${attendance.get(selectedAthlete.user_id)?.counts[status.value] ?? 0} ${status.label.toLowerCase()}`)
+                        .join(' • ')}
+                    </p>
+                  </div>
+                )}
 
                 <div>
-                  <h3 className="text-sm text-muted-foreground">Member Since</h3>
+                  <h3 className="text-sm text-muted-foreground">On Team Since</h3>
                   <p className="text-lg">
                     {new Date(selectedAthlete.created_at).toLocaleDateString()}
                   </p>
@@ -423,7 +444,7 @@ export default function Athletes() {
                     variant="default"
                     onClick={() => {
                       setIsModalOpen(false);
-                      navigate(`/coach/athletes/${selectedAthlete.id}/dashboard`);
+                      navigate(`/coach/athletes/${selectedAthlete.user_id}/dashboard`);
                     }}
                   >
                     View Dashboard
@@ -435,6 +456,17 @@ export default function Athletes() {
         )}
       </AnimatePresence>
 
+      {selectedTeam && (
+        <AttendanceSheet
+          open={isAttendanceOpen}
+          onOpenChange={setIsAttendanceOpen}
+          team={selectedTeam}
+          sport={getSportDefinition(selectedTeam.sport_name)}
+          athletes={[...athletes].sort(compareRosterOrder)}
+          onSaved={fetchAthletes}
+        />
+      )}
+
       {/* Quick Actions Floating Button */}
       <motion.div
         initial={{ opacity: 0, y: 20 }}
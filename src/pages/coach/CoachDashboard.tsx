@@ -10,7 +10,15 @@ import {
   Trophy,
   LogOut,
   User,
-  ChevronRight
+  ChevronRight,
+  BarChart3,
+  CalendarDays,
+  Timer,
+  Target,
+  Dumbbell,
+  Flag,
+  Waves,
+  ClipboardList
 } from 'lucide-react';
 import { useLocation, useNavigate } from 'react-router-dom';
 import { supabase } from '@/lib/supabase';
@@ -18,10 +26,20 @@ import { Button } from '@/components/ui/button';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useAuthStore } from '@/store/auth';
 import { Card } from '@/components/ui/card';
+import { SeasonSelector } from '@/components/SeasonSelector';
 
 // Import coach components
 import Athletes from './Athletes';
+import RosterImport from './RosterImport';
 import CodeGenerator from './CodeGenerator';
+import Schedule from './Schedule';
+import PracticePlans from './PracticePlans';
+import GameStats from './GameStats';
+import Testing from './Testing';
+import Goals from './Goals';
+import Training from './Training';
+import Golf from './Golf';
+import Swimming from './Swimming';
 import SubscriptionManagement from './SubscriptionManagement';
 import MySports from './MySports';
 import Settings from './Settings';
@@ -40,6 +58,54 @@ const navigation: NavigationItem[] = [
     icon: Users,
     description: 'Manage your team roster'
   },
+  { 
+    name: 'Schedule', 
+    path: '/coach/schedule', 
+    icon: CalendarDays,
+    description: 'Games and practices'
+  },
+  { 
+    name: 'Practice Plans', 
+    path: '/coach/practice-plans', 
+    icon: ClipboardList,
+    description: 'Drill library and practice plans'
+  },
+  { 
+    name: 'Game Stats', 
+    path: '/coach/stats', 
+    icon: BarChart3,
+    description: 'Enter box scores'
+  },
+  { 
+    name: 'Testing', 
+    path: '/coach/testing', 
+    icon: Timer,
+    description: 'Combine and test results'
+  },
+  { 
+    name: 'Goals', 
+    path: '/coach/goals', 
+    icon: Target,
+    description: 'Athlete and team goals'
+  },
+  { 
+    name: 'Training', 
+    path: '/coach/training', 
+    icon: Dumbbell,
+    description: 'Workouts and training load'
+  },
+  { 
+    name: 'Golf', 
+    path: '/coach/golf', 
+    icon: Flag,
+    description: 'Courses, scorecards and handicaps'
+  },
+  { 
+    name: 'Swimming', 
+    path: '/coach/swimming', 
+    icon: Waves,
+    description: 'Meet results and best times'
+  },
   { 
     name: 'Generate Codes', 
     path: '/coach/codes', 
@@ -176,7 +242,9 @@ export default function CoachDashboard() {
             </div>
           </SheetHeader>
 
-          <nav className="mt-4 px-2 flex flex-col h-[calc(100vh-140px)]">
+          <SeasonSelector className="px-4" />
+
+          <nav className="mt-4 px-2 flex flex-col h-[calc(100vh-200px)]">
             <div className="flex-1">
               <AnimatePresence>
                 {navigation.map((item, index) => (
@@ -217,6 +285,8 @@ export default function CoachDashboard() {
             </div>
           </div>
 
+          <SeasonSelector className="px-6 mb-6" />
+
           <div className="flex flex-col flex-1">
             <nav className="flex-1 px-4 space-y-1">
               <AnimatePresence>
@@ -254,7 +324,16 @@ export default function CoachDashboard() {
               <Routes>
                 <Route index element={<Athletes />} />
                 <Route path="athletes" element={<Athletes />} />
+                <Route path="athletes/import" element={<RosterImport />} />
                 <Route path="codes" element={<CodeGenerator />} />
+                <Route path="schedule" element={<Schedule />} />
+                <Route path="practice-plans" element={<PracticePlans />} />
+                <Route path="stats" element={<GameStats />} />
+                <Route path="testing" element={<Testing />} />
+                <Route path="goals" element={<Goals />} />
+                <Route path="training" element={<Training />} />
+                <Route path="golf" element={<Golf />} />
+                <Route path="swimming" element={<Swimming />} />
                 <Route path="subscription" element={<SubscriptionManagement />} />
                 <Route path="sports/*" element={<MySports />} />
                 <Route path="settings" element={<Settings />} />
@@ -2,8 +2,29 @@ import { useState, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
 import { supabase } from '@/lib/supabase';
+import {
+  createAccessCodes,
+  formatUsage,
+  getAccessCodeStatus,
+  getExpiryDate,
+  getJoinLink,
+  parseMaxUses,
+  revokeAccessCode,
+  type AccessCodeUsage,
+  type ExpiryOption
+} from '@/lib/access-codes';
+import { downloadCodeSheet } from '@/lib/code-sheets';
+import { getTeamCodeGender, getTeamLabel } from '@/lib/teams';
+import { formatDate, getErrorMessage, slugify } from '@/lib/utils';
+import { AccessCodeLimitsFields } from '@/components/AccessCodeLimitsFields';
+import { AccessCodeStatusBadge } from '@/components/AccessCodeStatusBadge';
+import { InvitationsPanel } from '@/components/InvitationsPanel';
+import { TeamSelector } from '@/components/TeamSelector';
+import { ConfirmationDialog } from '@/components/ui/confirmation-dialog';
+import { useConfirmation } from '@/hooks/useConfirmation';
+import { useMyTeams } from '@/hooks/useMyTeams';
 import { 
   Ticket, 
   Copy, 
@@ -11,7 +32,8 @@ import {
   Share2, 
   AlertCircle, 
   RefreshCcw,
-  CheckCircle2,
+  Ban,
+  Printer,
   UserCircle,
   Trophy
 } from 'lucide-react';
@@ -20,64 +42,50 @@ import { LoadingSpinner } from '@/components/ui/loading-spinner';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { useToast } from '@/components/ui/use-toast';
 
-type GenderType = 'male' | 'female' | '';
+const MAX_BATCH_SIZE = 100;
 
-interface Sport {
+interface RecentCode extends AccessCodeUsage {
   id: string;
-  name: string;
+  code: string;
+  sport_name?: string;
+  team_name?: string;
+  created_at: string;
 }
 
-interface RecentCode {
+interface RecentCodeResponse extends AccessCodeUsage {
+  id: string;
   code: string;
-  sport_name?: string;
-  gender?: GenderType;
   created_at: string;
-  used: boolean;
+  sports: { name: string } | null;
+  teams: { name: string } | null;
 }
 
 export default function CoachCodeGenerator() {
-  const [sportId, setSportId] = useState('');
-  const [gender, setGender] = useState<GenderType>('');
-  const [sports, setSports] = useState<Sport[]>([]);
+  const { teams, selectedTeam, setSelectedTeamId, loading: teamsLoading } = useMyTeams('coach');
+  const [expiry, setExpiry] = useState<ExpiryOption>('30');
+  const [maxUses, setMaxUses] = useState('1');
+  const [quantity, setQuantity] = useState('1');
+  const [batchCodes, setBatchCodes] = useState<string[]>([]);
+  const [printing, setPrinting] = useState(false);
   const [recentCodes, setRecentCodes] = useState<RecentCode[]>([]);
   const [generatedCode, setGeneratedCode] = useState('');
   const [loading, setLoading] = useState(true);
   const [generating, setGenerating] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
   const { toast } = useToast();
+  const revokeConfirmation = useConfirmation({
+    title: 'Revoke Access Code',
+    message: 'Athletes will no longer be able to join with this code. This cannot be undone.',
+    confirmText: 'Revoke'
+  });
 
   useEffect(() => {
-    Promise.all([
-      fetchCoachSports(),
-      fetchRecentCodes()
-    ]).finally(() => {
+    fetchRecentCodes().finally(() => {
       setLoading(false);
     });
   }, []);
 
-  const fetchCoachSports = async () => {
-    try {
-      const { data: profile } = await supabase.auth.getUser();
-      if (!profile.user) throw new Error('Not authenticated');
-
-      const { data } = await supabase
-        .from('user_sports')
-        .select('sports (id, name)')
-        .eq('user_id', profile.user.id)
-        .order('sports.name');
-      
-      if (data) {
-        const formattedSports = data.map(item => ({
-          id: item.sports.id,
-          name: item.sports.name
-        }));
-        setSports(formattedSports);
-      }
-    } catch (error) {
-      console.error('Error fetching sports:', error);
-    }
-  };
-
   const fetchRecentCodes = async () => {
     try {
       const { data: profile } = await supabase.auth.getUser();
@@ -86,11 +94,15 @@ export default function CoachCodeGenerator() {
       const { data } = await supabase
         .from('access_codes')
         .select(`
+          id,
           code,
-          gender,
           created_at,
-          used_at,
-          sports (name)
+          expires_at,
+          max_uses,
+          use_count,
+          revoked_at,
+          sports (name),
+          teams (name)
         `)
         .eq('created_by', profile.user.id)
         .eq('role', 'athlete')
@@ -98,12 +110,18 @@ export default function CoachCodeGenerator() {
         .limit(5);
 
       if (data) {
-        const formattedCodes = data.map(code => ({
+        // Many-to-one joins come back as single objects at runtime
+        const rows = data as unknown as RecentCodeResponse[];
+        const formattedCodes = rows.map(code => ({
+          id: code.id,
           code: code.code,
           sport_name: code.sports?.name,
-          gender: code.gender as GenderType | undefined,
+          team_name: code.teams?.name,
           created_at: code.created_at,
-          used: !!code.used_at
+          expires_at: code.expires_at,
+          max_uses: code.max_uses,
+          use_count: code.use_count,
+          revoked_at: code.revoked_at
         }));
         setRecentCodes(formattedCodes);
       }
@@ -117,36 +135,47 @@ export default function CoachCodeGenerator() {
     setError(null);
 
     try {
-      if (!sportId) {
-        throw new Error('Please select a sport');
+      if (!selectedTeam) {
+        throw new Error('Please select a team');
       }
-      if (!gender) {
-        throw new Error('Please select a gender');
+
+      const parsedMaxUses = parseMaxUses(maxUses);
+      const count = Number(quantity);
+      if (!Number.isInteger(count) || count < 1 || count > MAX_BATCH_SIZE) {
+        throw new Error(`Number of codes must be between 1 and ${MAX_BATCH_SIZE}`);
       }
 
-      const code = generateReadableCode();
-      
       const { data: userData } = await supabase.auth.getUser();
       if (!userData?.user?.id) throw new Error('Authentication required');
 
-      const { error: insertError } = await supabase
-        .from('access_codes')
-        .insert({
-          code,
-          role: 'athlete',
-          sport_id: sportId,
-          gender: gender,
+      const expiresAt = getExpiryDate(expiry);
+      const created = await createAccessCodes(
+        Array.from({ length: count }, () => ({
+          role: 'athlete' as const,
+          team_id: selectedTeam.id,
+          sport_id: selectedTeam.sport_id,
+          gender: getTeamCodeGender(selectedTeam),
+          expires_at: expiresAt,
+          max_uses: parsedMaxUses,
           created_by: userData.user.id
-        });
-
-      if (insertError) throw insertError;
+        }))
+      );
+      const codes = created.map(c => c.code);
 
-      setGeneratedCode(code);
+      if (count === 1) {
+        setGeneratedCode(codes[0]);
+        setBatchCodes([]);
+      } else {
+        setGeneratedCode('');
+        setBatchCodes(codes);
+      }
       await fetchRecentCodes();
       
       toast({
         title: "Success",
-        description: `New athlete access code generated: ${code}`,
+        description: count === 1
+          ? `New athlete access code generated: ${codes[0]}`
+          : `${count} athlete access codes generated`,
       });
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Failed to generate code';
@@ -161,24 +190,70 @@ export default function CoachCodeGenerator() {
     }
   };
 
-  const generateReadableCode = () => {
-    const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
-    const parts = [
-      Array(2).fill(0).map(() => chars[Math.floor(Math.random() * chars.length)]).join(''),
-      Array(3).fill(0).map(() => chars[Math.floor(Math.random() * chars.length)]).join(''),
-      Array(2).fill(0).map(() => chars[Math.floor(Math.random() * chars.length)]).join('')
-    ];
-    return parts.join('-');
+  const handleRevoke = async (code: RecentCode) => {
+    if (!(await revokeConfirmation.confirm())) return;
+
+    setRevokingId(code.id);
+    try {
+      await revokeAccessCode(code.id);
+      await fetchRecentCodes();
+
+      toast({
+        title: "Revoked",
+        description: `Access code ${code.code} can no longer be used`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error),
+        variant: "destructive"
+      });
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const handlePrint = async () => {
+    if (batchCodes.length === 0) return;
+    setPrinting(true);
+
+    try {
+      const { data: userData } = await supabase.auth.getUser();
+      const { data: profile } = await supabase
+        .from('profiles')
+        .select('full_name')
+        .eq('id', userData.user?.id)
+        .single();
+
+      const teamName = selectedTeam ? getTeamLabel(selectedTeam) : null;
+
+      await downloadCodeSheet(
+        batchCodes.map(code => ({
+          code,
+          sportName: selectedTeam?.sport_name ?? null,
+          teamName,
+          coachName: profile?.full_name ?? null
+        })),
+        `${slugify(teamName ?? 'athlete')}-access-codes.pdf`
+      );
+    } catch (error) {
+      console.error('Print error:', error);
+      toast({
+        title: "Error",
+        description: "Failed to create the printable sheet",
+        variant: "destructive"
+      });
+    } finally {
+      setPrinting(false);
+    }
   };
 
   const handleShare = async (method: 'copy' | 'email' | 'share') => {
     if (!generatedCode) return;
   
-    const selectedSport = sports.find(s => s.id === sportId);
-    const sportText = selectedSport ? ` for ${selectedSport.name}` : '';
-    const genderText = gender ? ` (${gender}'s)` : '';
-    const message = `Athlete Access Code: ${generatedCode}${sportText}${genderText}`;
-    const link = `${window.location.origin}/join?code=${generatedCode}`;
+    const teamText = selectedTeam ? ` for ${getTeamLabel(selectedTeam)}` : '';
+    const message = `Athlete Access Code: ${generatedCode}${teamText}`;
+    const link = getJoinLink(generatedCode);
     const fullMessage = `${message}\n\nJoin using this link: ${link}`;
   
     try {
@@ -246,7 +321,7 @@ export default function CoachCodeGenerator() {
     return 'just now';
   };
 
-  if (loading) {
+  if (loading || teamsLoading) {
     return (
       <div className="flex justify-center items-center min-h-[50vh]">
         <LoadingSpinner size="lg" />
@@ -301,34 +376,39 @@ export default function CoachCodeGenerator() {
 
             <div className="space-y-4">
               <div className="space-y-2">
-                <Label className="text-gray-400">Sport</Label>
-                <Select value={sportId} onValueChange={setSportId}>
-                  <SelectTrigger className="bg-blue-500/5 border-blue-500/20 text-white">
-                    <SelectValue placeholder="Select sport" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {sports.map((sport) => (
-                      <SelectItem key={sport.id} value={sport.id}>
-                        {sport.name}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
+                <Label className="text-gray-400">Team</Label>
+                <TeamSelector
+                  teams={teams}
+                  value={selectedTeam?.id ?? null}
+                  onChange={setSelectedTeamId}
+                />
+                {teams.length === 0 && (
+                  <p className="text-xs text-gray-500">
+                    Create a team from My Teams before inviting athletes
+                  </p>
+                )}
               </div>
 
               <div className="space-y-2">
-                <Label className="text-gray-400">Gender</Label>
-                <Select value={gender} onValueChange={(value: GenderType) => setGender(value)}>
-                  <SelectTrigger className="bg-blue-500/5 border-blue-500/20 text-white">
-                    <SelectValue placeholder="Select gender" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="male">Men's</SelectItem>
-                    <SelectItem value="female">Women's</SelectItem>
-                  </SelectContent>
-                </Select>
+                <Label htmlFor="quantity" className="text-gray-400">Number of codes</Label>
+                <Input
+                  id="quantity"
+                  type="number"
+                  min={1}
+                  max={MAX_BATCH_SIZE}
+                  value={quantity}
+                  onChange={(e) => setQuantity(e.target.value)}
+                  className="bg-blue-500/5 border-blue-500/20 text-white"
+                />
               </div>
 
+              <AccessCodeLimitsFields
+                expiry={expiry}
+                maxUses={maxUses}
+                onExpiryChange={setExpiry}
+                onMaxUsesChange={setMaxUses}
+              />
+
               <Button
                 onClick={generateCode}
                 className="w-full bg-blue-500 hover:bg-blue-600 text-white"
@@ -348,6 +428,39 @@ export default function CoachCodeGenerator() {
               </Button>
             </div>
 
+            {batchCodes.length > 0 && (
+              <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                className="space-y-4"
+              >
+                <div className="p-4 rounded-lg bg-blue-500/10 border border-blue-500/20">
+                  <p className="text-sm text-gray-400 mb-3">
+                    {batchCodes.length} codes generated
+                  </p>
+                  <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 max-h-48 overflow-y-auto">
+                    {batchCodes.map(code => (
+                      <span key={code} className="font-mono text-sm font-bold text-white">
+                        {code}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="flex justify-center">
+                  <Button
+                    variant="outline"
+                    onClick={handlePrint}
+                    disabled={printing}
+                    className="flex items-center gap-2 border-blue-500/20 text-blue-400 hover:bg-blue-500/10"
+                  >
+                    {printing ? <LoadingSpinner size="sm" /> : <Printer className="h-4 w-4" />}
+                    Download Printable Sheet
+                  </Button>
+                </div>
+              </motion.div>
+            )}
+
             {generatedCode && (
               <motion.div
                 initial={{ opacity: 0, y: 20 }}
@@ -433,8 +546,11 @@ export default function CoachCodeGenerator() {
                           </p>
                           <p className="text-sm text-gray-400">
                             Athlete
-                            {code.sport_name && ` • ${code.sport_name}`}
-                            {code.gender && ` • ${code.gender}'s`}
+                            {(code.team_name ?? code.sport_name) && ` • ${code.team_name ?? code.sport_name}`}
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            {formatUsage(code)}
+                            {code.expires_at && ` • Expires ${formatDate(code.expires_at)}`}
                           </p>
                         </div>
                       </div>
@@ -442,13 +558,18 @@ export default function CoachCodeGenerator() {
                         <span className="text-xs text-gray-400">
                           {formatTimeAgo(code.created_at)}
                         </span>
-                        {code.used ? (
-                          <span className="flex items-center gap-1 text-xs text-emerald-400">
-                            <CheckCircle2 className="h-3 w-3" />
-                            Used
-                          </span>
-                        ) : (
-                          <span className="text-xs text-blue-400">Available</span>
+                        <AccessCodeStatusBadge status={getAccessCodeStatus(code)} />
+                        {getAccessCodeStatus(code) === 'available' && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleRevoke(code)}
+                            disabled={revokingId === code.id}
+                            className="h-7 px-2 text-xs text-red-400 hover:bg-red-500/10 hover:text-red-300"
+                          >
+                            <Ban className="h-3 w-3 mr-1" />
+                            Revoke
+                          </Button>
                         )}
                       </div>
                     </div>
@@ -467,6 +588,15 @@ export default function CoachCodeGenerator() {
           </CardContent>
         </Card>
       </div>
+
+      <InvitationsPanel teams={teams} defaultTeamId={selectedTeam?.id} roles={['athlete']} />
+
+      <ConfirmationDialog
+        open={revokeConfirmation.isOpen}
+        onConfirm={revokeConfirmation.handleConfirm}
+        onCancel={revokeConfirmation.handleCancel}
+        {...revokeConfirmation.options}
+      />
     </div>
   );
 }
\ No newline at end of file
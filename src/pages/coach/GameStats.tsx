@@ -0,0 +1,480 @@
+import { useState, useEffect, useCallback } from 'react';
+import { motion } from 'framer-motion';
+import { BarChart3, Plus, Trash2, AlertCircle } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { useToast } from '@/components/ui/use-toast';
+import { ConfirmationDialog } from '@/components/ui/confirmation-dialog';
+import { BoxScoreGrid } from '@/components/BoxScoreGrid';
+import { BowlingScoresheet } from '@/components/BowlingScoresheet';
+import { BowlingAverages } from '@/components/BowlingAverages';
+import { GolfMatchScorecard } from '@/components/GolfMatchScorecard';
+import { DualMatchScorecard } from '@/components/DualMatchScorecard';
+import { DiamondScorebook } from '@/components/DiamondScorebook';
+import { PitchCountPanel } from '@/components/PitchCountPanel';
+import { TeamSelector } from '@/components/TeamSelector';
+import { useConfirmation } from '@/hooks/useConfirmation';
+import { useMyTeams } from '@/hooks/useMyTeams';
+import {
+  HOME_AWAY_OPTIONS,
+  createGame,
+  deleteGame,
+  fetchGames,
+  formatGameResult,
+  parseStatInput,
+  updateGameScore,
+  type Game,
+  type HomeAway
+} from '@/lib/stats';
+import { getSportDefinition } from '@/lib/sport-definitions';
+import { getRacketSport } from '@/lib/court-matches';
+import { getDiamondSport } from '@/lib/scorebook';
+import { compareRosterOrder, fetchTeamMembers, type TeamMember } from '@/lib/teams';
+import { getToday } from '@/lib/seasons';
+import { formatDate, getErrorMessage } from '@/lib/utils';
+
+// Game dates are plain dates, so format them without a timezone shift
+const GAME_DATE_FORMAT: Intl.DateTimeFormatOptions = {
+  month: 'short',
+  day: 'numeric',
+  year: 'numeric',
+  timeZone: 'UTC'
+};
+
+const EMPTY_GAME = {
+  opponent: '',
+  playedOn: '',
+  homeAway: 'home' as HomeAway,
+  teamScore: '',
+  opponentScore: ''
+};
+
+function describeOpponent(game: Game) {
+  return `${game.home_away === 'away' ? '@' : 'vs'} ${game.opponent}`;
+}
+
+export default function GameStats() {
+  const { teams, selectedTeam, setSelectedTeamId, loading: teamsLoading } = useMyTeams('coach');
+  const [games, setGames] = useState<Game[]>([]);
+  const [athletes, setAthletes] = useState<TeamMember[]>([]);
+  const [selectedGameId, setSelectedGameId] = useState<string | null>(null);
+  const [newGame, setNewGame] = useState(EMPTY_GAME);
+  const [showNewGame, setShowNewGame] = useState(false);
+  const [score, setScore] = useState({ team: '', opponent: '' });
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { toast } = useToast();
+  const deleteConfirmation = useConfirmation({
+    title: 'Delete Game',
+    message: 'The game and its box score will be removed. This cannot be undone.',
+    confirmText: 'Delete'
+  });
+  const teamId = selectedTeam?.id ?? null;
+  const sport = selectedTeam ? getSportDefinition(selectedTeam.sport_name) : null;
+  const racketSport = getRacketSport(sport?.slug);
+  const diamondSport = getDiamondSport(sport?.slug);
+  const selectedGame = games.find(game => game.id === selectedGameId) ?? null;
+
+  const loadTeam = useCallback(async () => {
+    if (!teamId) {
+      setGames([]);
+      setAthletes([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const [teamGames, members] = await Promise.all([fetchGames(teamId), fetchTeamMembers(teamId)]);
+      setGames(teamGames);
+      setAthletes(members.filter(member => member.role === 'athlete').sort(compareRosterOrder));
+      setSelectedGameId(current =>
+        teamGames.some(game => game.id === current) ? current : teamGames[0]?.id ?? null
+      );
+      setError(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load games');
+    } finally {
+      setLoading(false);
+    }
+  }, [teamId]);
+
+  useEffect(() => {
+    setLoading(true);
+    loadTeam();
+  }, [loadTeam]);
+
+  useEffect(() => {
+    setScore({
+      team: selectedGame?.team_score?.toString() ?? '',
+      opponent: selectedGame?.opponent_score?.toString() ?? ''
+    });
+  }, [selectedGame]);
+
+  const handleCreateGame = async () => {
+    if (!teamId || !newGame.opponent.trim() || !newGame.playedOn) {
+      toast({
+        title: "Error",
+        description: "Please enter the opponent and date",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const game = await createGame({
+        teamId,
+        opponent: newGame.opponent,
+        playedOn: newGame.playedOn,
+        homeAway: newGame.homeAway,
+        teamScore: parseStatInput(newGame.teamScore),
+        opponentScore: parseStatInput(newGame.opponentScore)
+      });
+      setGames([game, ...games].sort((a, b) => b.played_on.localeCompare(a.played_on)));
+      setSelectedGameId(game.id);
+      setNewGame(EMPTY_GAME);
+      setShowNewGame(false);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error),
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveScore = async () => {
+    if (!selectedGame) return;
+
+    try {
+      const teamScore = parseStatInput(score.team);
+      const opponentScore = parseStatInput(score.opponent);
+      await updateGameScore(selectedGame.id, teamScore, opponentScore);
+      setGames(games.map(game =>
+        game.id === selectedGame.id
+          ? { ...game, team_score: teamScore, opponent_score: opponentScore }
+          : game
+      ));
+      toast({
+        title: "Score saved",
+        description: `${describeOpponent(selectedGame)} updated`
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error),
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleDeleteGame = async (game: Game) => {
+    if (!(await deleteConfirmation.confirm())) return;
+
+    try {
+      await deleteGame(game.id);
+      await loadTeam();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error),
+        variant: "destructive"
+      });
+    }
+  };
+
+  if (teamsLoading) {
+    return (
+      <div className="flex justify-center items-center min-h-[50vh]">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8 pb-20">
+      {/* Header Section */}
+      <motion.div
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="bg-gray-900/50 p-6 rounded-lg border border-white/10 backdrop-blur-sm"
+      >
+        <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+          <div className="space-y-2">
+            <h1 className="text-2xl font-bold text-white flex items-center gap-3">
+              <BarChart3 className="h-8 w-8 text-blue-400" />
+              Game Stats
+            </h1>
+            <p className="text-gray-400">
+              Record each game and enter the box score for your athletes
+            </p>
+          </div>
+          <TeamSelector
+            teams={teams}
+            value={teamId}
+            onChange={setSelectedTeamId}
+            className="lg:w-72"
+          />
+        </div>
+      </motion.div>
+
+      {error && (
+        <Alert variant="destructive" className="bg-red-500/10 border-red-500/20">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {!selectedTeam ? (
+        <p className="text-center text-gray-400 py-12">Create a team to start recording games</p>
+      ) : loading ? (
+        <div className="flex justify-center py-12">
+          <LoadingSpinner size="lg" />
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+          <Card className="bg-gray-900/50 backdrop-blur-sm border border-white/10 lg:col-span-1">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <CardTitle className="text-white">Games</CardTitle>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => {
+                  setNewGame({ ...EMPTY_GAME, playedOn: getToday() });
+                  setShowNewGame(!showNewGame);
+                }}
+                className="border-white/10 hover:bg-blue-500/10"
+              >
+                <Plus className="w-4 h-4" />
+              </Button>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {showNewGame && (
+                <div className="space-y-3 p-3 rounded-lg bg-blue-500/5 border border-blue-500/20">
+                  <div className="space-y-1">
+                    <Label htmlFor="game-opponent" className="text-gray-400">Opponent</Label>
+                    <Input
+                      id="game-opponent"
+                      value={newGame.opponent}
+                      onChange={(e) => setNewGame({ ...newGame, opponent: e.target.value })}
+                      className="bg-blue-500/5 border-blue-500/20 text-white"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="game-date" className="text-gray-400">Date</Label>
+                    <Input
+                      id="game-date"
+                      type="date"
+                      value={newGame.playedOn}
+                      onChange={(e) => setNewGame({ ...newGame, playedOn: e.target.value })}
+                      className="bg-blue-500/5 border-blue-500/20 text-white"
+                    />
+                  </div>
+                  <Select
+                    value={newGame.homeAway}
+                    onValueChange={(value: HomeAway) => setNewGame({ ...newGame, homeAway: value })}
+                  >
+                    <SelectTrigger className="bg-blue-500/5 border-blue-500/20 text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {HOME_AWAY_OPTIONS.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <div className="grid grid-cols-2 gap-2">
+                    <Input
+                      placeholder="Us"
+                      inputMode="numeric"
+                      value={newGame.teamScore}
+                      onChange={(e) => setNewGame({ ...newGame, teamScore: e.target.value })}
+                      className="bg-blue-500/5 border-blue-500/20 text-white"
+                    />
+                    <Input
+                      placeholder="Them"
+                      inputMode="numeric"
+                      value={newGame.opponentScore}
+                      onChange={(e) => setNewGame({ ...newGame, opponentScore: e.target.value })}
+                      className="bg-blue-500/5 border-blue-500/20 text-white"
+                    />
+                  </div>
+                  <Button
+                    onClick={handleCreateGame}
+                    disabled={saving}
+                    className="w-full bg-blue-500 hover:bg-blue-600 text-white"
+                  >
+                    {saving ? <LoadingSpinner size="sm" /> : 'Add Game'}
+                  </Button>
+                </div>
+              )}
+
+              {games.length === 0 && !showNewGame && (
+                <p className="text-sm text-gray-400 text-center py-4">No games recorded yet</p>
+              )}
+
+              {games.map((game) => (
+                <div
+                  key={game.id}
+                  onClick={() => setSelectedGameId(game.id)}
+                  className={`group flex items-center justify-between p-3 rounded-lg cursor-pointer border transition-colors ${
+                    game.id === selectedGameId
+                      ? 'bg-blue-500/10 border-blue-500/40'
+                      : 'bg-gray-800/50 border-white/10 hover:bg-gray-800/70'
+                  }`}
+                >
+                  <div>
+                    <p className="text-white text-sm font-medium">{describeOpponent(game)}</p>
+                    <p className="text-xs text-gray-400">
+                      {formatDate(game.played_on, GAME_DATE_FORMAT)}
+                      {formatGameResult(game, sport?.lowScoreWins) && ` • ${formatGameResult(game, sport?.lowScoreWins)}`}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleDeleteGame(game);
+                    }}
+                    className="opacity-0 group-hover:opacity-100 text-red-400 hover:bg-red-500/10"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          <Card className="bg-gray-900/50 backdrop-blur-sm border border-white/10 lg:col-span-3">
+            {selectedGame && sport ? (
+              <>
+                <CardHeader className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 space-y-0">
+                  <div>
+                    <CardTitle className="text-white">{describeOpponent(selectedGame)}</CardTitle>
+                    <p className="text-sm text-gray-400">
+                      {formatDate(selectedGame.played_on, GAME_DATE_FORMAT)}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Input
+                      aria-label="Our score"
+                      inputMode="numeric"
+                      value={score.team}
+                      onChange={(e) => setScore({ ...score, team: e.target.value })}
+                      className="w-16 text-center bg-blue-500/5 border-blue-500/20 text-white"
+                    />
+                    <span className="text-gray-400">–</span>
+                    <Input
+                      aria-label="Opponent score"
+                      inputMode="numeric"
+                      value={score.opponent}
+                      onChange={(e) => setScore({ ...score, opponent: e.target.value })}
+                      className="w-16 text-center bg-blue-500/5 border-blue-500/20 text-white"
+                    />
+                    <Button
+                      variant="outline"
+                      onClick={handleSaveScore}
+                      className="border-white/10 hover:bg-blue-500/10"
+                    >
+                      Save Score
+                    </Button>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  {sport.slug === 'bowling' ? (
+                    <BowlingScoresheet
+                      key={selectedGame.id}
+                      gameId={selectedGame.id}
+                      athletes={athletes}
+                      onSaved={loadTeam}
+                    />
+                  ) : sport.slug === 'golf' ? (
+                    <GolfMatchScorecard
+                      key={selectedGame.id}
+                      teamId={selectedTeam.id}
+                      gameId={selectedGame.id}
+                      playedOn={selectedGame.played_on}
+                      athletes={athletes}
+                      onSaved={loadTeam}
+                    />
+                  ) : racketSport ? (
+                    <DualMatchScorecard
+                      key={selectedGame.id}
+                      gameId={selectedGame.id}
+                      sport={racketSport}
+                      athletes={athletes}
+                      onSaved={loadTeam}
+                    />
+                  ) : diamondSport ? (
+                    <DiamondScorebook
+                      key={selectedGame.id}
+                      game={selectedGame}
+                      sport={sport}
+                      diamondSport={diamondSport}
+                      athletes={athletes}
+                      onSaved={loadTeam}
+                    />
+                  ) : (
+                    <BoxScoreGrid
+                      key={selectedGame.id}
+                      sport={sport}
+                      gameId={selectedGame.id}
+                      athletes={athletes}
+                    />
+                  )}
+                </CardContent>
+              </>
+            ) : (
+              <CardContent className="py-12 text-center text-gray-400">
+                {sport
+                  ? 'Add a game to enter its box score'
+                  : `Stats are not available for ${selectedTeam.sport_name} yet`}
+              </CardContent>
+            )}
+          </Card>
+
+          {sport?.slug === 'bowling' && (
+            <Card className="bg-gray-900/50 backdrop-blur-sm border border-white/10 lg:col-span-4">
+              <CardHeader>
+                <CardTitle className="text-white">Averages</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <BowlingAverages teamId={selectedTeam.id} athletes={athletes} />
+              </CardContent>
+            </Card>
+          )}
+
+          {/* The pitch count rules are all baseball rules */}
+          {diamondSport === 'baseball' && (
+            <Card className="bg-gray-900/50 backdrop-blur-sm border border-white/10 lg:col-span-4">
+              <CardHeader>
+                <CardTitle className="text-white">Pitch Counts</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <PitchCountPanel teamId={selectedTeam.id} athletes={athletes} />
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      )}
+
+      <ConfirmationDialog
+        open={deleteConfirmation.isOpen}
+        onConfirm={deleteConfirmation.handleConfirm}
+        onCancel={deleteConfirmation.handleCancel}
+        {...deleteConfirmation.options}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,216 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { Target, Plus, Trash2, AlertCircle } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { useToast } from '@/components/ui/use-toast';
+import { ConfirmationDialog } from '@/components/ui/confirmation-dialog';
+import { TeamSelector } from '@/components/TeamSelector';
+import { GoalDialog } from '@/components/GoalDialog';
+import { GoalProgressBar } from '@/components/GoalProgressBar';
+import { useConfirmation } from '@/hooks/useConfirmation';
+import { useGoals } from '@/hooks/useGoals';
+import { useMyTeams } from '@/hooks/useMyTeams';
+import { usePersonalRecords } from '@/hooks/usePersonalRecords';
+import { useRealtimeSubscription } from '@/hooks/useRealtimeSubscription';
+import { deleteGoal, formatGoalTitle, getGoalMetric, getGoalProgress, type Goal } from '@/lib/goals';
+import { compareRosterOrder, fetchTeamMembers, type TeamMember } from '@/lib/teams';
+import { formatDate, getErrorMessage } from '@/lib/utils';
+
+// Due dates are plain dates, so format them without a timezone shift
+const DUE_DATE_FORMAT: Intl.DateTimeFormatOptions = {
+  month: 'short',
+  day: 'numeric',
+  year: 'numeric',
+  timeZone: 'UTC'
+};
+
+export default function Goals() {
+  const { teams, allTeams, selectedTeam, setSelectedTeamId, loading: teamsLoading } = useMyTeams('coach');
+  const [athletes, setAthletes] = useState<TeamMember[]>([]);
+  const [showNewGoal, setShowNewGoal] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { toast } = useToast();
+  const deleteConfirmation = useConfirmation({
+    title: 'Delete Goal',
+    message: 'The goal will be removed for everyone it was set for. Recorded marks are kept.',
+    confirmText: 'Delete'
+  });
+  const teamId = selectedTeam?.id ?? null;
+  const teamIds = useMemo(() => (teamId ? [teamId] : []), [teamId]);
+  const { goals, loading: goalsLoading, refresh: refreshGoals } = useGoals(teamIds);
+  const { marks, getMetric } = usePersonalRecords(allTeams, athletes.map(athlete => athlete.user_id));
+
+  const loadAthletes = useCallback(async () => {
+    if (!teamId) {
+      setAthletes([]);
+      return;
+    }
+
+    try {
+      const members = await fetchTeamMembers(teamId);
+      setAthletes(members.filter(member => member.role === 'athlete').sort(compareRosterOrder));
+      setError(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load athletes');
+    }
+  }, [teamId]);
+
+  useEffect(() => {
+    loadAthletes();
+  }, [loadAthletes]);
+
+  useRealtimeSubscription('team_members', loadAthletes);
+
+  const handleDelete = async (goal: Goal) => {
+    if (!(await deleteConfirmation.confirm())) return;
+
+    try {
+      await deleteGoal(goal.id);
+      await refreshGoals();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error),
+        variant: "destructive"
+      });
+    }
+  };
+
+  if (teamsLoading) {
+    return (
+      <div className="flex justify-center items-center min-h-[50vh]">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8 pb-20">
+      {/* Header Section */}
+      <motion.div
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="bg-gray-900/50 p-6 rounded-lg border border-white/10 backdrop-blur-sm"
+      >
+        <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+          <div className="space-y-2">
+            <h1 className="text-2xl font-bold text-white flex items-center gap-3">
+              <Target className="h-8 w-8 text-blue-400" />
+              Goals
+            </h1>
+            <p className="text-gray-400">
+              Set targets for athletes or the whole team and follow their progress
+            </p>
+          </div>
+          <TeamSelector
+            teams={teams}
+            value={teamId}
+            onChange={setSelectedTeamId}
+            className="lg:w-72"
+          />
+        </div>
+
+        {selectedTeam && (
+          <div className="flex flex-wrap gap-3 mt-6">
+            <Button
+              onClick={() => setShowNewGoal(true)}
+              className="bg-blue-500 hover:bg-blue-600 text-white"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              New Goal
+            </Button>
+          </div>
+        )}
+      </motion.div>
+
+      {error && (
+        <Alert variant="destructive" className="bg-red-500/10 border-red-500/20">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {!selectedTeam ? (
+        <p className="text-center text-gray-400 py-12">Create a team to start setting goals</p>
+      ) : goalsLoading ? (
+        <div className="flex justify-center py-12">
+          <LoadingSpinner size="lg" />
+        </div>
+      ) : goals.length === 0 ? (
+        <p className="text-center text-gray-400 py-12">No goals set for {selectedTeam.name} yet</p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {goals.map((goal) => {
+            const metric = getGoalMetric(goal, getMetric);
+            const assigned = goal.athlete_id
+              ? athletes.filter(athlete => athlete.user_id === goal.athlete_id)
+              : athletes;
+            const rows = assigned.flatMap(athlete => {
+              const progress = getGoalProgress(goal, athlete.user_id, marks, getMetric);
+              return progress ? [{ athlete, progress }] : [];
+            });
+            const achieved = rows.filter(row => row.progress.status === 'achieved').length;
+
+            return (
+              <Card key={goal.id} className="bg-gray-900/50 backdrop-blur-sm border border-white/10">
+                <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+                  <div className="space-y-1">
+                    <CardTitle className="text-white text-lg">{formatGoalTitle(goal, metric)}</CardTitle>
+                    <p className="text-sm text-gray-400">
+                      {goal.athlete_id
+                        ? assigned[0]?.full_name ?? assigned[0]?.email ?? 'Former athlete'
+                        : `Everyone on ${selectedTeam.name}`}
+                      {` • Due ${formatDate(goal.due_on, DUE_DATE_FORMAT)}`}
+                      {!goal.athlete_id && rows.length > 0 && ` • ${achieved} of ${rows.length} achieved`}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDelete(goal)}
+                    className="text-red-400 hover:bg-red-500/10"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {rows.length === 0 && (
+                    <p className="text-sm text-gray-400 text-center py-4">No athletes on this goal</p>
+                  )}
+                  {rows.map(({ athlete, progress }) => (
+                    <div key={athlete.user_id} className="space-y-1">
+                      {!goal.athlete_id && (
+                        <p className="text-sm text-white">{athlete.full_name ?? athlete.email}</p>
+                      )}
+                      <GoalProgressBar progress={progress} target={goal.target} />
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      {selectedTeam && (
+        <GoalDialog
+          open={showNewGoal}
+          onOpenChange={setShowNewGoal}
+          teams={[selectedTeam]}
+          athletes={athletes}
+          onCreated={refreshGoals}
+        />
+      )}
+
+      <ConfirmationDialog
+        open={deleteConfirmation.isOpen}
+        onConfirm={deleteConfirmation.handleConfirm}
+        onCancel={deleteConfirmation.handleCancel}
+        {...deleteConfirmation.options}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,454 @@
+import { useState, useEffect, useCallback } from 'react';
+import { motion } from 'framer-motion';
+import { Flag, Plus, Pencil, Trash2, AlertCircle } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { ConfirmationDialog } from '@/components/ui/confirmation-dialog';
+import { TeamSelector } from '@/components/TeamSelector';
+import { GolfCourseDialog } from '@/components/GolfCourseDialog';
+import { GolfRoundDialog } from '@/components/GolfRoundDialog';
+import { useConfirmation } from '@/hooks/useConfirmation';
+import { useSportTeams } from '@/hooks/useSportTeams';
+import { useRealtimeSubscription } from '@/hooks/useRealtimeSubscription';
+import {
+  HANDICAP_WINDOW,
+  buildHandicapRecord,
+  deleteGolfCourse,
+  deleteGolfRound,
+  fetchGolfCourses,
+  fetchGolfRounds,
+  formatHandicapIndex,
+  formatToPar,
+  getPar,
+  getYards,
+  indexTees,
+  type GolfCourse,
+  type GolfRound,
+  type HandicapRecord
+} from '@/lib/golf';
+import { compareRosterOrder, fetchTeamMembers, type TeamMember } from '@/lib/teams';
+import { cn, formatDate, getErrorMessage } from '@/lib/utils';
+
+const ALL = 'all';
+
+// Rounds shown for the whole team; pick a player to see all of theirs
+const RECENT_ROUNDS = 25;
+
+// Round dates are plain dates, so format them without a timezone shift
+const ROUND_DATE_FORMAT: Intl.DateTimeFormatOptions = {
+  month: 'short',
+  day: 'numeric',
+  year: 'numeric',
+  timeZone: 'UTC'
+};
+
+type RoundTarget = { round: GolfRound | null };
+
+export default function Golf() {
+  const { teams, selectedTeam, setSelectedTeamId, loading: teamsLoading } = useSportTeams('golf');
+  const [courses, setCourses] = useState<GolfCourse[]>([]);
+  const [rounds, setRounds] = useState<GolfRound[]>([]);
+  const [athletes, setAthletes] = useState<TeamMember[]>([]);
+  const [player, setPlayer] = useState(ALL);
+  const [editingCourse, setEditingCourse] = useState<GolfCourse | null>(null);
+  const [showCourseDialog, setShowCourseDialog] = useState(false);
+  const [roundTarget, setRoundTarget] = useState<RoundTarget | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { toast } = useToast();
+  const deleteCourseConfirmation = useConfirmation({
+    title: 'Delete Course',
+    message: 'The course and its tees will be removed from the library.',
+    confirmText: 'Delete'
+  });
+  const deleteRoundConfirmation = useConfirmation({
+    title: 'Delete Round',
+    message: "The scorecard will be removed and the player's handicap index recalculated.",
+    confirmText: 'Delete'
+  });
+  const teamId = selectedTeam?.id ?? null;
+
+  const loadCourses = useCallback(async () => {
+    try {
+      setCourses(await fetchGolfCourses());
+      setError(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load courses');
+    }
+  }, []);
+
+  const loadTeam = useCallback(async () => {
+    if (!teamId) {
+      setRounds([]);
+      setAthletes([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const [teamRounds, members] = await Promise.all([fetchGolfRounds(teamId), fetchTeamMembers(teamId)]);
+      setRounds(teamRounds);
+      setAthletes(members.filter(member => member.role === 'athlete').sort(compareRosterOrder));
+      setError(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load rounds');
+    } finally {
+      setLoading(false);
+    }
+  }, [teamId]);
+
+  useEffect(() => {
+    loadCourses();
+  }, [loadCourses]);
+
+  useEffect(() => {
+    setLoading(true);
+    setPlayer(ALL);
+    loadTeam();
+  }, [loadTeam]);
+
+  useRealtimeSubscription('golf_courses', loadCourses);
+  useRealtimeSubscription('golf_rounds', loadTeam);
+
+  const handleDeleteCourse = async (course: GolfCourse) => {
+    if (!(await deleteCourseConfirmation.confirm())) return;
+
+    try {
+      await deleteGolfCourse(course.id);
+      await loadCourses();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error),
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleDeleteRound = async (round: GolfRound) => {
+    if (!(await deleteRoundConfirmation.confirm())) return;
+
+    try {
+      await deleteGolfRound(round);
+      await loadTeam();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error),
+        variant: "destructive"
+      });
+    }
+  };
+
+  if (teamsLoading) {
+    return (
+      <div className="flex justify-center items-center min-h-[50vh]">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  const tees = indexTees(courses);
+  const names = new Map(athletes.map(athlete => [athlete.user_id, athlete.full_name ?? athlete.email]));
+  const records = new Map<string, HandicapRecord>(athletes.map(athlete => [
+    athlete.user_id,
+    buildHandicapRecord(rounds.filter(round => round.athlete_id === athlete.user_id), round => tees.get(round.tee_id))
+  ]));
+  const handicaps = athletes
+    .map(athlete => ({ athlete, record: records.get(athlete.user_id)! }))
+    .sort((a, b) => (a.record.index ?? Infinity) - (b.record.index ?? Infinity));
+  const visibleRounds = rounds
+    .filter(round => player === ALL || round.athlete_id === player)
+    .slice(0, player === ALL ? RECENT_ROUNDS : undefined);
+
+  return (
+    <div className="space-y-8 pb-20">
+      {/* Header Section */}
+      <motion.div
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="bg-gray-900/50 p-6 rounded-lg border border-white/10 backdrop-blur-sm"
+      >
+        <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+          <div className="space-y-2">
+            <h1 className="text-2xl font-bold text-white flex items-center gap-3">
+              <Flag className="h-8 w-8 text-blue-400" />
+              Golf
+            </h1>
+            <p className="text-gray-400">
+              Keep scorecards for every round and follow each player's handicap index
+            </p>
+          </div>
+          <TeamSelector
+            teams={teams}
+            value={teamId}
+            onChange={setSelectedTeamId}
+            className="lg:w-72"
+          />
+        </div>
+      </motion.div>
+
+      {error && (
+        <Alert variant="destructive" className="bg-red-500/10 border-red-500/20">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {!selectedTeam ? (
+        <p className="text-center text-gray-400 py-12">Create a golf team to start keeping scorecards</p>
+      ) : loading ? (
+        <div className="flex justify-center py-12">
+          <LoadingSpinner size="lg" />
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
+          <Card className="bg-gray-900/50 backdrop-blur-sm border border-white/10 lg:col-span-2">
+            <CardHeader>
+              <CardTitle className="text-white">Handicap Index</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {handicaps.length === 0 ? (
+                <p className="text-center text-gray-400 py-8">Add players to the team to track handicaps</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-400 border-b border-white/10">
+                      <th className="py-2 pr-4 font-medium">Player</th>
+                      <th className="py-2 pr-4 font-medium text-right">Index</th>
+                      <th className="py-2 font-medium text-right">Scores</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {handicaps.map(({ athlete, record }) => (
+                      <tr key={athlete.user_id} className="border-b border-white/5 text-white">
+                        <td className="py-2 pr-4">{athlete.full_name ?? athlete.email}</td>
+                        <td className="py-2 pr-4 text-right font-semibold">{formatHandicapIndex(record.index)}</td>
+                        <td className="py-2 text-right text-gray-400">{record.scores}/{HANDICAP_WINDOW}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+              <p className="text-xs text-gray-500 mt-4">
+                World Handicap System: the average of the lowest differentials among the last {HANDICAP_WINDOW} scores,
+                with each hole capped at net double bogey. An index needs three 18-hole rounds, and 9-hole rounds
+                are paired in the order played.
+              </p>
+            </CardContent>
+          </Card>
+
+          <Card className="bg-gray-900/50 backdrop-blur-sm border border-white/10 lg:col-span-3">
+            <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+              <CardTitle className="text-white">Rounds</CardTitle>
+              <div className="flex items-center gap-2">
+                <Select value={player} onValueChange={setPlayer}>
+                  <SelectTrigger className="w-44 bg-blue-500/5 border-blue-500/20 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All players</SelectItem>
+                    {athletes.map((athlete) => (
+                      <SelectItem key={athlete.user_id} value={athlete.user_id}>
+                        {athlete.full_name ?? athlete.email}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  size="sm"
+                  onClick={() => setRoundTarget({ round: null })}
+                  disabled={courses.length === 0 || athletes.length === 0}
+                  className="bg-blue-500 hover:bg-blue-600 text-white"
+                >
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add Round
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {visibleRounds.length === 0 ? (
+                <p className="text-center text-gray-400 py-8">
+                  {courses.length === 0 ? 'Add a course to the library to start entering rounds' : 'No rounds entered yet'}
+                </p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-400 border-b border-white/10">
+                        <th className="py-2 pr-4 font-medium">Date</th>
+                        <th className="py-2 pr-4 font-medium">Player</th>
+                        <th className="py-2 pr-4 font-medium">Course</th>
+                        <th className="py-2 pr-4 font-medium text-right">Score</th>
+                        <th className="py-2 pr-4 font-medium text-right">Diff</th>
+                        <th className="py-2" />
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {visibleRounds.map((round) => {
+                        const played = tees.get(round.tee_id);
+                        const entry = records.get(round.athlete_id)?.entries.get(round.id);
+                        return (
+                          <tr
+                            key={round.id}
+                            onClick={() => setRoundTarget({ round })}
+                            className="group border-b border-white/5 text-white cursor-pointer hover:bg-white/5"
+                          >
+                            <td className="py-2 pr-4 whitespace-nowrap">
+                              {formatDate(round.played_on, ROUND_DATE_FORMAT)}
+                              {round.game_id && (
+                                <span className="ml-2 text-xs px-1.5 py-0.5 rounded bg-blue-500/20 text-blue-300">Match</span>
+                              )}
+                            </td>
+                            <td className="py-2 pr-4">{names.get(round.athlete_id) ?? 'Former player'}</td>
+                            <td className="py-2 pr-4 text-gray-400">
+                              {played ? `${played.course.name} • ${played.tee.name}` : '—'}
+                            </td>
+                            <td className="py-2 pr-4 text-right">
+                              {round.score ?? 'In progress'}
+                              {round.score !== null && played && (
+                                <span className="text-gray-400 ml-1">({formatToPar(round.holes, played.course.pars)})</span>
+                              )}
+                            </td>
+                            <td
+                              className={cn('py-2 pr-4 text-right', entry?.counted ? 'text-emerald-400 font-semibold' : 'text-gray-400')}
+                              title={entry?.counted ? 'Counts toward the handicap index' : undefined}
+                            >
+                              {entry?.differential?.toFixed(1) ?? '—'}
+                            </td>
+                            <td className="py-2 text-right">
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  handleDeleteRound(round);
+                                }}
+                                className="opacity-0 group-hover:opacity-100 text-red-400 hover:bg-red-500/10"
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </Button>
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      <Card className="bg-gray-900/50 backdrop-blur-sm border border-white/10">
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="text-white">Course Library</CardTitle>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => {
+              setEditingCourse(null);
+              setShowCourseDialog(true);
+            }}
+            className="border-white/10 hover:bg-blue-500/10"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add Course
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {courses.length === 0 ? (
+            <p className="text-center text-gray-400 py-8">No courses in the library yet</p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+              {courses.map((course) => (
+                <div key={course.id} className="group p-4 rounded-lg bg-gray-800/50 border border-white/10 space-y-3">
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <p className="text-white font-medium">{course.name}</p>
+                      <p className="text-xs text-gray-400">
+                        {[course.location, `${course.pars.length} holes`, `Par ${getPar(course.pars)}`]
+                          .filter(Boolean)
+                          .join(' • ')}
+                      </p>
+                    </div>
+                    <div className="flex opacity-0 group-hover:opacity-100">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => {
+                          setEditingCourse(course);
+                          setShowCourseDialog(true);
+                        }}
+                        className="text-gray-400 hover:bg-blue-500/10"
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDeleteCourse(course)}
+                        className="text-red-400 hover:bg-red-500/10"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  <div className="space-y-1">
+                    {course.tees.map((tee) => (
+                      <div key={tee.id} className="flex justify-between text-sm">
+                        <span className="text-gray-300">{tee.name}</span>
+                        <span className="text-gray-400">
+                          {getYards(tee.yardages).toLocaleString()} yds • {tee.course_rating}/{tee.slope_rating}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <GolfCourseDialog
+        open={showCourseDialog}
+        onOpenChange={setShowCourseDialog}
+        course={editingCourse}
+        onSaved={loadCourses}
+      />
+
+      {teamId && (
+        <GolfRoundDialog
+          open={roundTarget !== null}
+          onOpenChange={(open) => !open && setRoundTarget(null)}
+          teamId={teamId}
+          athletes={athletes}
+          courses={courses}
+          gameId={roundTarget?.round?.game_id ?? null}
+          round={roundTarget?.round ?? null}
+          onSaved={loadTeam}
+        />
+      )}
+
+      <ConfirmationDialog
+        open={deleteCourseConfirmation.isOpen}
+        onConfirm={deleteCourseConfirmation.handleConfirm}
+        onCancel={deleteCourseConfirmation.handleCancel}
+        {...deleteCourseConfirmation.options}
+      />
+
+      <ConfirmationDialog
+        open={deleteRoundConfirmation.isOpen}
+        onConfirm={deleteRoundConfirmation.handleConfirm}
+        onCancel={deleteRoundConfirmation.handleCancel}
+        {...deleteRoundConfirmation.options}
+      />
+    </div>
+  );
+}
@@ -1,49 +1,56 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Trophy, ChevronRight, Settings as SettingsIcon, AlertCircle, Users } from 'lucide-react';
+import { Trophy, ChevronRight, Settings as SettingsIcon, AlertCircle, Users, Plus, CalendarRange } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { supabase } from '@/lib/supabase';
 import { LoadingSpinner } from '@/components/ui/loading-spinner';
 import { useRealtimeSubscription } from '@/hooks/useRealtimeSubscription';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Button } from '@/components/ui/button';
-
-interface Sport {
-  id: string;
-  name: string;
-  gender?: 'male' | 'female';
-  athleteCount: number;
-}
+import { CreateTeamDialog } from '@/components/CreateTeamDialog';
+import { AdvanceSeasonDialog } from '@/components/AdvanceSeasonDialog';
+import { useMyTeams } from '@/hooks/useMyTeams';
+import { getTeamLevelLabel, type Team } from '@/lib/teams';
+import { useSeasonStore } from '@/store/season';
 
 interface SportResponse {
-  id: string;
-  name: string;
-}
-
-interface UserSportResponse {
-  sport: SportResponse;
-  gender: 'male' | 'female' | null;
+  sports: {
+    id: string;
+    name: string;
+  };
 }
 
 export default function CoachMySports() {
   const navigate = useNavigate();
-  const [sports, setSports] = useState<Sport[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const {
+    teams,
+    allTeams,
+    seasons,
+    selectedTeam,
+    setSelectedTeamId,
+    loading,
+    error,
+    refresh
+  } = useMyTeams('coach');
+  const setSelectedSeason = useSeasonStore((state) => state.setSelectedSeason);
+  const [sports, setSports] = useState<{ id: string; name: string }[]>([]);
+  const [createOpen, setCreateOpen] = useState(false);
+  const [advanceOpen, setAdvanceOpen] = useState(false);
+
+  // Seasons the coach has teams in, which they can advance from
+  const teamSeasons = useMemo(() => {
+    const seasonIds = new Set(allTeams.map(team => team.season_id));
+    return seasons.filter(season => seasonIds.has(season.id));
+  }, [allTeams, seasons]);
 
   useEffect(() => {
     fetchSports();
   }, []);
 
-  useRealtimeSubscription('user_sports', () => {
-    fetchSports();
-  });
-
-  useRealtimeSubscription('coach_athletes', () => {
-    fetchSports();
-  });
+  useRealtimeSubscription('teams', refresh);
 
+  // Sports the coach can create teams for
   const fetchSports = async () => {
     try {
       const user = await supabase.auth.getUser();
@@ -51,67 +58,32 @@ export default function CoachMySports() {
         throw new Error('User not found');
       }
 
-      const { data: profile } = await supabase
-        .from('profiles')
-        .select('organization_id')
-        .single();
-
-      if (!profile?.organization_id) {
-        throw new Error('Organization not found');
-      }
-
-      // Fetch user sports with athlete counts
-      const { data: userSports, error: sportsError } = await supabase
+      const { data, error: sportsError } = await supabase
         .from('user_sports')
-        .select(`
-          sport:sports (
-            id,
-            name
-          ),
-          gender
-        `)
-        .eq('user_id', user.data.user.id)
-        .eq('organization_id', profile.organization_id);
+        .select('sports (id, name)')
+        .eq('user_id', user.data.user.id);
 
       if (sportsError) throw sportsError;
 
-      // First cast to unknown, then to our type
-      const typedUserSports = (userSports as unknown) as UserSportResponse[];
-      
-      if (typedUserSports) {
-        // Fetch athlete counts for each sport
-        const sportsWithCounts = await Promise.all(
-          typedUserSports.map(async (item) => {
-            const { count } = await supabase
-              .from('coach_athletes')
-              .select('*', { count: 'exact', head: true })
-              .eq('coach_id', user.data.user.id)
-              .eq('sport_id', item.sport.id);
-
-            return {
-              id: item.sport.id,
-              name: item.sport.name,
-              gender: item.gender || undefined,
-              athleteCount: count || 0
-            };
-          })
-        );
-
-        setSports(sportsWithCounts);
-      }
+      setSports(((data ?? []) as unknown as SportResponse[]).map(item => item.sports));
     } catch (error) {
       console.error('Error fetching sports:', error);
-      setError(error instanceof Error ? error.message : 'An error occurred');
-    } finally {
-      setLoading(false);
     }
   };
 
-  // Function to handle sport navigation
-  const handleSportNavigation = (sportName: string) => {
-    // Convert sport name to kebab-case for route
-    const sportRoute = sportName.toLowerCase().replace(/\s+/g, '-');
-    navigate(`/coach/sports/${sportRoute}`);
+  const handleTeamNavigation = (team: Team) => {
+    setSelectedTeamId(team.id);
+    navigate('/coach/athletes');
+  };
+
+  const handleTeamCreated = async (teamId: string) => {
+    setSelectedTeamId(teamId);
+    await refresh();
+  };
+
+  const handleSeasonAdvanced = async (season: { name: string }) => {
+    setSelectedSeason(season.name);
+    await refresh();
   };
 
   if (loading) {
@@ -140,7 +112,24 @@ export default function CoachMySports() {
               Access and manage your team dashboards
             </p>
           </div>
-          <div className="flex gap-3">
+          <div className="flex flex-wrap gap-3">
+            <Button
+              onClick={() => setCreateOpen(true)}
+              className="bg-blue-500 hover:bg-blue-600 text-white"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              New Team
+            </Button>
+            {teamSeasons.length > 0 && (
+              <Button
+                variant="outline"
+                onClick={() => setAdvanceOpen(true)}
+                className="border-white/10 hover:bg-blue-500/10"
+              >
+                <CalendarRange className="w-4 h-4 mr-2" />
+                Advance Season
+              </Button>
+            )}
             <Link to="/coach/codes">
               <Button
                 variant="outline"
@@ -186,40 +175,51 @@ export default function CoachMySports() {
           </div>
         </CardHeader>
         <CardContent>
-          {sports.length > 0 ? (
+          {teams.length > 0 ? (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-              {sports.map((sport, index) => (
+              {teams.map((team, index) => (
                 <motion.div
-                  key={sport.id}
+                  key={team.id}
                   initial={{ opacity: 0, y: 20 }}
                   animate={{ opacity: 1, y: 0 }}
                   transition={{ delay: index * 0.05 }}
                 >
                   <div
-                    onClick={() => handleSportNavigation(sport.name)}
+                    onClick={() => handleTeamNavigation(team)}
                     className="block group cursor-pointer"
                   >
-                    <Card className="bg-gray-800/50 border border-white/10 hover:bg-gray-800/70 transition-all">
+                    <Card
+                      className={`bg-gray-800/50 border hover:bg-gray-800/70 transition-all ${
+                        team.id === selectedTeam?.id ? 'border-blue-500/40' : 'border-white/10'
+                      }`}
+                    >
                       <CardContent className="p-4">
                         <div className="flex items-center justify-between">
                           <div className="space-y-2">
                             <h3 className="text-lg font-semibold text-white group-hover:text-blue-400 transition-colors">
-                              {sport.name}
+                              {team.name}
                             </h3>
+                            <p className="text-sm text-gray-400">
+                              {team.sport_name}
+                              {team.season_name && ` • ${team.season_name}`}
+                            </p>
                             <div className="space-y-1">
-                              {sport.gender && (
+                              <span className="px-2.5 py-0.5 rounded-full text-xs font-medium inline-block mr-2 bg-purple-500/20 text-purple-400 border border-purple-500/20">
+                                {getTeamLevelLabel(team.level)}
+                              </span>
+                              {team.gender !== 'coed' && (
                                 <span 
                                   className={`px-2.5 py-0.5 rounded-full text-xs font-medium inline-block mr-2
-                                    ${sport.gender === 'male' 
+                                    ${team.gender === 'male' 
                                       ? 'bg-blue-500/20 text-blue-400 border border-blue-500/20' 
                                       : 'bg-pink-500/20 text-pink-400 border border-pink-500/20'
                                     }`}
                                 >
-                                  {sport.gender === 'male' ? "Men's" : "Women's"}
+                                  {team.gender === 'male' ? "Men's" : "Women's"}
                                 </span>
                               )}
                               <span className="px-2.5 py-0.5 rounded-full text-xs font-medium inline-block bg-blue-500/20 text-blue-400 border border-blue-500/20">
-                                {sport.athleteCount} {sport.athleteCount === 1 ? 'Athlete' : 'Athletes'}
+                                {team.athlete_count} {team.athlete_count === 1 ? 'Athlete' : 'Athletes'}
                               </span>
                             </div>
                           </div>
@@ -242,9 +242,20 @@ export default function CoachMySports() {
                 No teams added yet
               </p>
               <p className="text-gray-400 mt-2 mb-6">
-                Add sports in your settings to create teams
+                {sports.length > 0
+                  ? 'Create a team to start adding athletes'
+                  : 'Add sports in your settings to create teams'}
               </p>
               <div className="flex justify-center gap-4">
+                {sports.length > 0 && (
+                  <Button
+                    onClick={() => setCreateOpen(true)}
+                    className="bg-blue-500 hover:bg-blue-600 text-white"
+                  >
+                    <Plus className="w-4 h-4 mr-2" />
+                    New Team
+                  </Button>
+                )}
                 <Link to="/coach/settings">
                   <Button
                     variant="outline"
@@ -259,6 +270,21 @@ export default function CoachMySports() {
           )}
         </CardContent>
       </Card>
+
+      <CreateTeamDialog
+        open={createOpen}
+        onOpenChange={setCreateOpen}
+        sports={sports}
+        onCreated={handleTeamCreated}
+      />
+
+      <AdvanceSeasonDialog
+        open={advanceOpen}
+        onOpenChange={setAdvanceOpen}
+        seasons={teamSeasons}
+        defaultSeasonId={selectedTeam?.season_id}
+        onAdvanced={handleSeasonAdvanced}
+      />
     </div>
   );
 }
\ No newline at end of file
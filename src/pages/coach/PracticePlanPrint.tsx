@@ -0,0 +1,121 @@
+import { useState, useEffect } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, Printer } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { getEventTitle } from '@/lib/events';
+import {
+  fetchPrintablePlan,
+  formatBlockStart,
+  getBlockOffsets,
+  getEventMinutes,
+  getPlanMinutes,
+  type PrintablePlan
+} from '@/lib/practice-plans';
+import { formatDate, formatTime } from '@/lib/utils';
+
+// A plain, light page for a practice plan that prints on one sheet
+export default function PracticePlanPrint() {
+  const { planId } = useParams<{ planId: string }>();
+  const navigate = useNavigate();
+  const [plan, setPlan] = useState<PrintablePlan | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!planId) return;
+    fetchPrintablePlan(planId)
+      .then(setPlan)
+      .catch((error) => setError(error instanceof Error ? error.message : 'Failed to load the plan'))
+      .finally(() => setLoading(false));
+  }, [planId]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  const drills = new Map(plan?.drills.map(drill => [drill.id, drill]));
+  const offsets = plan ? getBlockOffsets(plan.blocks) : [];
+  const startsAt = plan?.event?.starts_at ?? null;
+
+  return (
+    <div className="min-h-screen bg-white text-gray-900 print:min-h-0">
+      <div className="max-w-3xl mx-auto p-8 space-y-6 print:p-0">
+        <div className="flex justify-between print:hidden">
+          <Button variant="outline" onClick={() => navigate(-1)}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back
+          </Button>
+          {plan && (
+            <Button onClick={() => window.print()} className="bg-blue-500 hover:bg-blue-600 text-white">
+              <Printer className="w-4 h-4 mr-2" />
+              Print
+            </Button>
+          )}
+        </div>
+
+        {!plan ? (
+          <p className="text-center text-gray-500 py-12">{error ?? 'This practice plan no longer exists'}</p>
+        ) : (
+          <>
+            <div className="border-b border-gray-300 pb-4">
+              <p className="text-sm text-gray-500">{plan.team_name}</p>
+              <h1 className="text-2xl font-bold">{plan.name}</h1>
+              <p className="text-sm text-gray-600">
+                {plan.event
+                  ? `${getEventTitle(plan.event)} • ${formatDate(plan.event.starts_at, { weekday: 'long', month: 'long', day: 'numeric' })} • ${formatTime(plan.event.starts_at)} – ${formatTime(plan.event.ends_at)}`
+                  : 'Template'}
+                {plan.event?.location && ` • ${plan.event.location}`}
+              </p>
+              <p className="text-sm text-gray-600">
+                {getPlanMinutes(plan.blocks)} min planned
+                {plan.event && ` of ${getEventMinutes(plan.event)} min`}
+              </p>
+            </div>
+
+            <table className="w-full text-sm border-collapse">
+              <thead>
+                <tr className="text-left border-b-2 border-gray-400">
+                  <th className="py-2 pr-3 w-20">{startsAt ? 'Time' : 'Start'}</th>
+                  <th className="py-2 pr-3 w-14">Min</th>
+                  <th className="py-2 pr-3">Block</th>
+                  <th className="py-2">Notes</th>
+                </tr>
+              </thead>
+              <tbody>
+                {plan.blocks.map((block, index) => {
+                  const drill = block.drill_id ? drills.get(block.drill_id) : undefined;
+                  return (
+                    <tr key={index} className="border-b border-gray-200 align-top break-inside-avoid">
+                      <td className="py-2 pr-3 font-medium">{formatBlockStart(offsets[index], startsAt)}</td>
+                      <td className="py-2 pr-3">{block.duration_minutes}</td>
+                      <td className="py-2 pr-3">
+                        <p className="font-medium">{block.name}</p>
+                        {drill?.description && <p className="text-gray-600 whitespace-pre-line">{drill.description}</p>}
+                        {drill && drill.equipment.length > 0 && (
+                          <p className="text-gray-500">Equipment: {drill.equipment.join(', ')}</p>
+                        )}
+                      </td>
+                      <td className="py-2 text-gray-700">{block.notes}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+
+            {plan.notes && (
+              <div>
+                <h2 className="font-semibold">Notes</h2>
+                <p className="text-sm text-gray-700 whitespace-pre-line">{plan.notes}</p>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,516 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import {
+  ClipboardList,
+  Plus,
+  Pencil,
+  Printer,
+  Trash2,
+  Library,
+  LayoutTemplate,
+  CalendarDays,
+  Search,
+  Image,
+  Video,
+  AlertCircle
+} from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { ConfirmationDialog } from '@/components/ui/confirmation-dialog';
+import { TeamSelector } from '@/components/TeamSelector';
+import { DrillDialog } from '@/components/DrillDialog';
+import { PracticePlanDialog } from '@/components/PracticePlanDialog';
+import { useConfirmation } from '@/hooks/useConfirmation';
+import { useMyTeams } from '@/hooks/useMyTeams';
+import { useRealtimeSubscription } from '@/hooks/useRealtimeSubscription';
+import { useOrganizationId } from '@/store/auth';
+import { fetchUpcomingEvents, getEventTitle, isPracticeType, type TeamEvent } from '@/lib/events';
+import {
+  deleteDrill,
+  deletePracticePlan,
+  fetchDrills,
+  fetchPracticePlans,
+  getEventMinutes,
+  getFocusTags,
+  getPlanMinutes,
+  isImageUrl,
+  type Drill,
+  type PracticePlan
+} from '@/lib/practice-plans';
+import { getSportDefinition } from '@/lib/sport-definitions';
+import { cn, formatDate, formatTime, getErrorMessage, uniqueBy } from '@/lib/utils';
+
+const ALL = 'all';
+
+// Practices further out than this are planned from the schedule later
+const UPCOMING_EVENTS = 30;
+
+type PlanTarget = { event: TeamEvent | null; plan: PracticePlan | null };
+
+export default function PracticePlans() {
+  const { teams, selectedTeam, setSelectedTeamId, loading: teamsLoading } = useMyTeams('coach');
+  const organizationId = useOrganizationId();
+  const navigate = useNavigate();
+  const [drills, setDrills] = useState<Drill[]>([]);
+  const [plans, setPlans] = useState<PracticePlan[]>([]);
+  const [practices, setPractices] = useState<TeamEvent[]>([]);
+  const [search, setSearch] = useState('');
+  const [focus, setFocus] = useState(ALL);
+  const [editingDrill, setEditingDrill] = useState<Drill | null>(null);
+  const [showDrillDialog, setShowDrillDialog] = useState(false);
+  const [planning, setPlanning] = useState<PlanTarget | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { toast } = useToast();
+  const deleteDrillConfirmation = useConfirmation({
+    title: 'Delete Drill',
+    message: 'The drill will be removed from the library. Plans that use it keep their blocks.',
+    confirmText: 'Delete'
+  });
+  const deletePlanConfirmation = useConfirmation({
+    title: 'Delete Plan',
+    message: 'The plan and its blocks will be removed.',
+    confirmText: 'Delete'
+  });
+  const teamId = selectedTeam?.id ?? null;
+  const teamKey = teams.map(team => team.id).join(',');
+  const sport = selectedTeam ? getSportDefinition(selectedTeam.sport_name) : null;
+  const sports = useMemo(
+    () => uniqueBy(teams.map(team => ({ id: team.sport_id, name: team.sport_name })), 'id'),
+    [teams]
+  );
+
+  const loadPlans = useCallback(async () => {
+    try {
+      const [library, teamPlans] = await Promise.all([
+        fetchDrills(),
+        fetchPracticePlans(teamKey ? teamKey.split(',') : [])
+      ]);
+      setDrills(library);
+      setPlans(teamPlans);
+      setError(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load practice plans');
+    } finally {
+      setLoading(false);
+    }
+  }, [teamKey]);
+
+  const loadPractices = useCallback(async () => {
+    if (!teamId) {
+      setPractices([]);
+      return;
+    }
+    try {
+      const events = await fetchUpcomingEvents([teamId], UPCOMING_EVENTS);
+      setPractices(events.filter(event => isPracticeType(event.type)));
+    } catch (error) {
+      console.error('Error loading practices:', error);
+    }
+  }, [teamId]);
+
+  useEffect(() => {
+    loadPlans();
+  }, [loadPlans]);
+
+  useEffect(() => {
+    loadPractices();
+  }, [loadPractices]);
+
+  useRealtimeSubscription('drills', loadPlans);
+  useRealtimeSubscription('practice_plans', loadPlans);
+  useRealtimeSubscription('events', loadPractices);
+
+  const planByEvent = new Map(plans.filter(plan => plan.event_id).map(plan => [plan.event_id, plan]));
+  const templates = plans.filter(plan => plan.is_template);
+  const teamNames = new Map(teams.map(team => [team.id, team.name]));
+  const sportNames = new Map(sports.map(option => [option.id, option.name]));
+  const focusTags = getFocusTags(drills);
+  const query = search.trim().toLowerCase();
+  const visibleDrills = drills.filter(drill =>
+    (focus === ALL || drill.focus.some(tag => tag.toLowerCase() === focus.toLowerCase()))
+    && (!query || [drill.name, drill.description ?? '', ...drill.equipment, ...drill.focus]
+      .some(text => text.toLowerCase().includes(query)))
+  );
+
+  const openDrill = (drill: Drill | null) => {
+    setEditingDrill(drill);
+    setShowDrillDialog(true);
+  };
+
+  const handleDeleteDrill = async (drill: Drill) => {
+    if (!(await deleteDrillConfirmation.confirm())) return;
+
+    try {
+      await deleteDrill(drill.id);
+      loadPlans();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error),
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleDeletePlan = async (plan: PracticePlan) => {
+    if (!(await deletePlanConfirmation.confirm())) return;
+
+    try {
+      await deletePracticePlan(plan.id);
+      loadPlans();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error),
+        variant: "destructive"
+      });
+    }
+  };
+
+  if (teamsLoading || loading) {
+    return (
+      <div className="flex justify-center items-center min-h-[50vh]">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8 pb-20">
+      {/* Header Section */}
+      <motion.div
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="bg-gray-900/50 p-6 rounded-lg border border-white/10 backdrop-blur-sm"
+      >
+        <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+          <div className="space-y-2">
+            <h1 className="text-2xl font-bold text-white flex items-center gap-3">
+              <ClipboardList className="h-8 w-8 text-blue-400" />
+              Practice Plans
+            </h1>
+            <p className="text-gray-400">
+              Build timed practice plans from your organization's drill library
+            </p>
+          </div>
+          <TeamSelector
+            teams={teams}
+            value={teamId}
+            onChange={setSelectedTeamId}
+            className="lg:w-72"
+          />
+        </div>
+
+        <div className="flex flex-wrap gap-3 mt-6">
+          <Button
+            onClick={() => openDrill(null)}
+            disabled={!organizationId}
+            className="bg-blue-500 hover:bg-blue-600 text-white"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            New Drill
+          </Button>
+          {selectedTeam && (
+            <Button
+              variant="outline"
+              onClick={() => setPlanning({ event: null, plan: null })}
+              className="border-white/10 hover:bg-blue-500/10"
+            >
+              <LayoutTemplate className="w-4 h-4 mr-2" />
+              New Template
+            </Button>
+          )}
+        </div>
+      </motion.div>
+
+      {error && (
+        <Alert variant="destructive" className="bg-red-500/10 border-red-500/20">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card className="bg-gray-900/50 backdrop-blur-sm border border-white/10 lg:col-span-2">
+          <CardHeader>
+            <CardTitle className="text-white flex items-center gap-2">
+              <CalendarDays className="h-5 w-5 text-blue-400" />
+              Upcoming Practices
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {!selectedTeam ? (
+              <p className="text-center text-gray-400 py-8">Create a team to start planning practices</p>
+            ) : practices.length === 0 ? (
+              <p className="text-center text-gray-400 py-8">No practices on the schedule. Add them from the Schedule page.</p>
+            ) : (
+              practices.map((practice) => {
+                const plan = planByEvent.get(practice.id) ?? null;
+                const planMinutes = plan ? getPlanMinutes(plan.blocks) : 0;
+                const eventMinutes = getEventMinutes(practice);
+                return (
+                  <div
+                    key={practice.id}
+                    className="group flex items-center justify-between gap-4 p-3 rounded-lg bg-gray-800/50 border border-white/10"
+                  >
+                    <div>
+                      <p className="text-white text-sm font-medium">
+                        {formatDate(practice.starts_at, { weekday: 'short', month: 'short', day: 'numeric' })}
+                        {` • ${formatTime(practice.starts_at)}`}
+                        <span className="text-gray-400 font-normal"> {getEventTitle(practice, sport)}</span>
+                      </p>
+                      {plan ? (
+                        <p className="text-xs text-gray-400">
+                          {plan.name} • {plan.blocks.length} {plan.blocks.length === 1 ? 'block' : 'blocks'} •{' '}
+                          <span className={cn(planMinutes > eventMinutes && 'text-red-400')}>
+                            {planMinutes} of {eventMinutes} min
+                          </span>
+                        </p>
+                      ) : (
+                        <p className="text-xs text-gray-500">No plan yet</p>
+                      )}
+                    </div>
+                    {plan ? (
+                      <div className="flex items-center gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => navigate(`/coach/practice-plans/${plan.id}/print`)}
+                          className="text-gray-400 hover:bg-blue-500/10"
+                        >
+                          <Printer className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setPlanning({ event: practice, plan })}
+                          className="text-gray-400 hover:bg-blue-500/10"
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDeletePlan(plan)}
+                          className="opacity-0 group-hover:opacity-100 text-red-400 hover:bg-red-500/10"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    ) : (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setPlanning({ event: practice, plan: null })}
+                        className="border-blue-500/40 text-blue-400 hover:bg-blue-500/10"
+                      >
+                        Plan
+                      </Button>
+                    )}
+                  </div>
+                );
+              })
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="bg-gray-900/50 backdrop-blur-sm border border-white/10">
+          <CardHeader>
+            <CardTitle className="text-white flex items-center gap-2">
+              <LayoutTemplate className="h-5 w-5 text-blue-400" />
+              Templates
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {templates.length === 0 && (
+              <p className="text-sm text-gray-400 text-center py-4">
+                Save a plan as a template to reuse it for later practices
+              </p>
+            )}
+            {templates.map((template) => (
+              <div key={template.id} className="group p-3 rounded-lg bg-gray-800/50 border border-white/10">
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <p className="text-white text-sm font-medium">{template.name}</p>
+                    <p className="text-xs text-gray-400">
+                      {teams.length > 1 && `${teamNames.get(template.team_id)} • `}
+                      {template.blocks.length} {template.blocks.length === 1 ? 'block' : 'blocks'} • {getPlanMinutes(template.blocks)} min
+                    </p>
+                  </div>
+                  <div className="flex items-center">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => navigate(`/coach/practice-plans/${template.id}/print`)}
+                      className="text-gray-400 hover:bg-blue-500/10 px-2"
+                    >
+                      <Printer className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setPlanning({ event: null, plan: template })}
+                      className="text-gray-400 hover:bg-blue-500/10 px-2"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDeletePlan(template)}
+                      className="opacity-0 group-hover:opacity-100 text-red-400 hover:bg-red-500/10 px-2"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="bg-gray-900/50 backdrop-blur-sm border border-white/10">
+        <CardHeader className="space-y-4">
+          <CardTitle className="text-white flex items-center gap-2">
+            <Library className="h-5 w-5 text-blue-400" />
+            Drill Library
+          </CardTitle>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+              <Input
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search drills"
+                className="pl-9 bg-blue-500/5 border-blue-500/20 text-white"
+              />
+            </div>
+            <Select value={focus} onValueChange={setFocus}>
+              <SelectTrigger className="sm:w-48 bg-blue-500/5 border-blue-500/20 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All focus areas</SelectItem>
+                {focusTags.map((tag) => (
+                  <SelectItem key={tag} value={tag}>{tag}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {visibleDrills.length === 0 ? (
+            <p className="text-center text-gray-400 py-8">
+              {drills.length === 0 ? 'No drills in the library yet' : 'No drills match your search'}
+            </p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+              {visibleDrills.map((drill) => (
+                <div key={drill.id} className="group p-4 rounded-lg bg-blue-500/5 border border-blue-500/10 space-y-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <p className="text-white font-medium">{drill.name}</p>
+                      <p className="text-xs text-gray-400">
+                        {drill.sport_id ? sportNames.get(drill.sport_id) ?? 'Other sport' : 'Any sport'} • {drill.duration_minutes} min
+                      </p>
+                    </div>
+                    <div className="flex items-center opacity-0 group-hover:opacity-100">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => openDrill(drill)}
+                        className="text-gray-400 hover:bg-blue-500/10 px-2"
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDeleteDrill(drill)}
+                        className="text-red-400 hover:bg-red-500/10 px-2"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  {drill.description && <p className="text-sm text-gray-300 line-clamp-3">{drill.description}</p>}
+                  {drill.equipment.length > 0 && (
+                    <p className="text-xs text-gray-400">Equipment: {drill.equipment.join(', ')}</p>
+                  )}
+                  {drill.focus.length > 0 && (
+                    <div className="flex flex-wrap gap-1">
+                      {drill.focus.map((tag) => (
+                        <span key={tag} className="px-2 py-0.5 rounded-full text-xs bg-blue-500/20 text-blue-400">
+                          {tag}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                  {drill.media_url && (
+                    <a
+                      href={drill.media_url}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="inline-flex items-center gap-1 text-xs text-blue-400 hover:underline"
+                    >
+                      {isImageUrl(drill.media_url) ? <Image className="h-3 w-3" /> : <Video className="h-3 w-3" />}
+                      {isImageUrl(drill.media_url) ? 'Diagram' : 'Video'}
+                    </a>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {organizationId && (
+        <DrillDialog
+          open={showDrillDialog}
+          onOpenChange={setShowDrillDialog}
+          organizationId={organizationId}
+          sports={sports}
+          drill={editingDrill}
+          onSaved={loadPlans}
+        />
+      )}
+
+      {selectedTeam && (
+        <PracticePlanDialog
+          open={planning !== null}
+          onOpenChange={(open) => !open && setPlanning(null)}
+          teamId={planning?.plan?.team_id ?? selectedTeam.id}
+          sportId={selectedTeam.sport_id}
+          sport={sport}
+          event={planning?.event ?? null}
+          plan={planning?.plan ?? null}
+          drills={drills}
+          templates={templates}
+          onSaved={loadPlans}
+        />
+      )}
+
+      <ConfirmationDialog
+        open={deleteDrillConfirmation.isOpen}
+        onConfirm={deleteDrillConfirmation.handleConfirm}
+        onCancel={deleteDrillConfirmation.handleCancel}
+        {...deleteDrillConfirmation.options}
+      />
+
+      <ConfirmationDialog
+        open={deletePlanConfirmation.isOpen}
+        onConfirm={deletePlanConfirmation.handleConfirm}
+        onCancel={deletePlanConfirmation.handleCancel}
+        {...deletePlanConfirmation.options}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,401 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  FileSpreadsheet,
+  Download,
+  Upload,
+  Columns,
+  ListChecks,
+  AlertCircle,
+  CheckCircle2,
+  ArrowLeft
+} from 'lucide-react';
+import { motion } from 'framer-motion';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { useToast } from '@/components/ui/use-toast';
+import { EXPIRY_OPTIONS, getExpiryDate, type ExpiryOption } from '@/lib/access-codes';
+import {
+  ROSTER_FIELDS,
+  applyRosterMatches,
+  fetchRosterMatches,
+  getRosterAction,
+  getRosterTemplate,
+  guessColumnMapping,
+  importRoster,
+  readRosterFile,
+  validateRosterRows,
+  type ColumnMapping,
+  type RosterAction,
+  type RosterField,
+  type RosterFile,
+  type RosterImportResult,
+  type RosterMatch
+} from '@/lib/roster-import';
+import { downloadFile, getErrorMessage } from '@/lib/utils';
+import { TeamSelector } from '@/components/TeamSelector';
+import { useMyTeams } from '@/hooks/useMyTeams';
+
+const NOT_MAPPED = 'none';
+
+const ACTION_STYLES: Record<RosterAction, { label: string; className: string }> = {
+  invite: { label: 'Invite', className: 'text-blue-400' },
+  add: { label: 'Add existing', className: 'text-emerald-400' },
+  update: { label: 'Update', className: 'text-cyan-400' },
+  error: { label: 'Error', className: 'text-red-400' }
+};
+
+export default function RosterImport() {
+  const navigate = useNavigate();
+  const { teams, selectedTeam, setSelectedTeamId } = useMyTeams('coach');
+  const [expiry, setExpiry] = useState<ExpiryOption>('30');
+  const [file, setFile] = useState<RosterFile | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [matches, setMatches] = useState<Map<string, RosterMatch>>(new Map());
+  const [matching, setMatching] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [result, setResult] = useState<RosterImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const validatedRows = useMemo(() => {
+    if (!file || !mapping) return [];
+    return validateRosterRows(file, mapping, teams, {
+      teamId: selectedTeam?.id ?? null
+    });
+  }, [file, mapping, teams, selectedTeam]);
+
+  const emailKey = validatedRows.map(row => row.email).join(',');
+
+  // Re-check existing accounts whenever the set of emails changes
+  useEffect(() => {
+    const emails = emailKey ? emailKey.split(',').filter(Boolean) : [];
+    if (emails.length === 0) {
+      setMatches(new Map());
+      return;
+    }
+
+    setMatching(true);
+    fetchRosterMatches(emails)
+      .then(setMatches)
+      .catch((error) => setError(getErrorMessage(error)))
+      .finally(() => setMatching(false));
+  }, [emailKey]);
+
+  const rows = useMemo(
+    () => applyRosterMatches(validatedRows, matches),
+    [validatedRows, matches]
+  );
+
+  const counts = useMemo(() => {
+    const totals: Record<RosterAction, number> = { invite: 0, add: 0, update: 0, error: 0 };
+    rows.forEach(row => totals[getRosterAction(row)]++);
+    return totals;
+  }, [rows]);
+
+  const importable = counts.invite + counts.add + counts.update;
+  const missingRequired = mapping
+    ? ROSTER_FIELDS.filter(field => field.required && mapping[field.key] === null)
+    : [];
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    event.target.value = '';
+    if (!selected) return;
+
+    setError(null);
+    setResult(null);
+
+    try {
+      const parsed = readRosterFile(await selected.text());
+      setFile(parsed);
+      setFileName(selected.name);
+      setMapping(guessColumnMapping(parsed.headers));
+    } catch (error) {
+      setFile(null);
+      setMapping(null);
+      setError(getErrorMessage(error));
+    }
+  };
+
+  const handleMappingChange = (field: RosterField, value: string) => {
+    if (!mapping) return;
+    setMapping({ ...mapping, [field]: value === NOT_MAPPED ? null : Number(value) });
+  };
+
+  const handleImport = async () => {
+    setImporting(true);
+    setError(null);
+
+    try {
+      const imported = await importRoster(rows, teams, getExpiryDate(expiry));
+      setResult(imported);
+      setFile(null);
+      setMapping(null);
+
+      toast({
+        title: "Roster imported",
+        description: `${imported.rostered} added to your roster, ${imported.invited} invited`,
+      });
+    } catch (error) {
+      const message = getErrorMessage(error);
+      setError(message);
+      toast({
+        title: "Error",
+        description: message,
+        variant: "destructive"
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const teamName = (teamId: string | null) =>
+    teams.find(team => team.id === teamId)?.name ?? '—';
+
+  return (
+    <div className="relative space-y-8">
+      {/* Header */}
+      <motion.div
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="relative bg-black/40 backdrop-blur-xl p-6 rounded-lg border border-blue-500/20"
+      >
+        <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+          <div className="space-y-2">
+            <h1 className="text-2xl font-bold text-white flex items-center gap-3">
+              <FileSpreadsheet className="h-8 w-8 text-blue-400" />
+              Import Roster
+            </h1>
+            <p className="text-gray-400">
+              Upload a CSV to add existing athletes and invite everyone else
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={() => navigate('/coach/athletes')}
+              className="flex items-center gap-2 border-blue-500/20 text-blue-400 hover:bg-blue-500/10"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              Athletes
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => downloadFile('roster-template.csv', getRosterTemplate())}
+              className="flex items-center gap-2 border-blue-500/20 text-blue-400 hover:bg-blue-500/10"
+            >
+              <Download className="h-4 w-4" />
+              Template
+            </Button>
+          </div>
+        </div>
+      </motion.div>
+
+      {error && (
+        <Alert variant="destructive" className="bg-red-500/10 border-red-500/20">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {result && (
+        <Alert className="bg-emerald-500/10 border-emerald-500/20 text-emerald-300">
+          <CheckCircle2 className="h-4 w-4" />
+          <AlertDescription>
+            {result.rostered} athletes added or updated on your roster and {result.invited} invitations sent
+            {result.failed > 0 && `. ${result.failed} invitations could not be sent; resend them from Generate Codes`}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {/* Upload */}
+      <Card className="relative bg-black/40 backdrop-blur-xl border border-blue-500/20">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-white">
+            <Upload className="h-5 w-5 text-blue-400" />
+            Upload
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="grid gap-4 md:grid-cols-3">
+          <div className="space-y-2">
+            <Label htmlFor="rosterFile" className="text-gray-400">CSV file</Label>
+            <Input
+              id="rosterFile"
+              type="file"
+              accept=".csv,text/csv"
+              onChange={handleFileChange}
+              className="bg-blue-500/5 border-blue-500/20 text-white"
+            />
+            {fileName && file && (
+              <p className="text-xs text-gray-500">{fileName} • {file.rows.length} rows</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-gray-400">Default team</Label>
+            <TeamSelector
+              teams={teams}
+              value={selectedTeam?.id ?? null}
+              onChange={setSelectedTeamId}
+              placeholder="Used when a row has none"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-gray-400">Invitations expire</Label>
+            <Select value={expiry} onValueChange={(value: ExpiryOption) => setExpiry(value)}>
+              <SelectTrigger className="bg-blue-500/5 border-blue-500/20 text-white">
+                <SelectValue placeholder="Select expiry" />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPIRY_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+
+      {file && mapping && (
+        <>
+          {/* Column Mapping */}
+          <Card className="relative bg-black/40 backdrop-blur-xl border border-blue-500/20">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-white">
+                <Columns className="h-5 w-5 text-blue-400" />
+                Columns
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+              {ROSTER_FIELDS.map((field) => (
+                <div key={field.key} className="space-y-2">
+                  <Label className="text-gray-400">
+                    {field.label}
+                    {field.required && <span className="text-red-400"> *</span>}
+                  </Label>
+                  <Select
+                    value={mapping[field.key] === null ? NOT_MAPPED : String(mapping[field.key])}
+                    onValueChange={(value) => handleMappingChange(field.key, value)}
+                  >
+                    <SelectTrigger className="bg-blue-500/5 border-blue-500/20 text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_MAPPED}>Not in file</SelectItem>
+                      {file.headers.map((header, index) => (
+                        <SelectItem key={index} value={String(index)}>
+                          {header || `Column ${index + 1}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          {/* Preview */}
+          <Card className="relative bg-black/40 backdrop-blur-xl border border-blue-500/20">
+            <CardHeader>
+              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+                <CardTitle className="flex items-center gap-2 text-white">
+                  <ListChecks className="h-5 w-5 text-blue-400" />
+                  Preview
+                  {matching && <LoadingSpinner size="sm" />}
+                </CardTitle>
+                <div className="flex flex-wrap gap-4 text-sm">
+                  {(Object.keys(ACTION_STYLES) as RosterAction[]).map(action => (
+                    <span key={action} className={ACTION_STYLES[action].className}>
+                      {ACTION_STYLES[action].label}: {counts[action]}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {missingRequired.length > 0 && (
+                <Alert variant="destructive" className="bg-red-500/10 border-red-500/20">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>
+                    Choose a column for {missingRequired.map(field => field.label).join(' and ')}
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              <div className="overflow-x-auto max-h-[32rem] overflow-y-auto">
+                <table className="w-full text-sm">
+                  <thead className="sticky top-0 bg-black/80">
+                    <tr className="text-left text-gray-400 border-b border-blue-500/20">
+                      <th className="py-2 pr-4">Line</th>
+                      <th className="py-2 pr-4">Name</th>
+                      <th className="py-2 pr-4">Email</th>
+                      <th className="py-2 pr-4">Team</th>
+                      <th className="py-2 pr-4">Grad</th>
+                      <th className="py-2 pr-4">Position</th>
+                      <th className="py-2 pr-4">#</th>
+                      <th className="py-2">Result</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rows.map((row) => {
+                      const action = getRosterAction(row);
+                      return (
+                        <tr key={row.line} className="border-b border-blue-500/10 text-gray-300 align-top">
+                          <td className="py-2 pr-4 text-gray-500">{row.line}</td>
+                          <td className="py-2 pr-4 text-white">{row.full_name}</td>
+                          <td className="py-2 pr-4">{row.email}</td>
+                          <td className="py-2 pr-4">{teamName(row.team_id)}</td>
+                          <td className="py-2 pr-4">{row.grad_year ?? ''}</td>
+                          <td className="py-2 pr-4">{row.position ?? ''}</td>
+                          <td className="py-2 pr-4">{row.jersey_number ?? ''}</td>
+                          <td className="py-2">
+                            <span className={ACTION_STYLES[action].className}>
+                              {ACTION_STYLES[action].label}
+                            </span>
+                            {row.errors.map(message => (
+                              <p key={message} className="text-xs text-red-400/80">{message}</p>
+                            ))}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="flex justify-end">
+                <Button
+                  onClick={handleImport}
+                  disabled={importing || matching || importable === 0 || missingRequired.length > 0}
+                  className="bg-blue-500 hover:bg-blue-600 text-white"
+                >
+                  {importing ? (
+                    <div className="flex items-center gap-2">
+                      <LoadingSpinner size="sm" />
+                      <span>Importing...</span>
+                    </div>
+                  ) : (
+                    <div className="flex items-center gap-2">
+                      <Upload className="h-4 w-4" />
+                      Import {importable} {importable === 1 ? 'Athlete' : 'Athletes'}
+                    </div>
+                  )}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
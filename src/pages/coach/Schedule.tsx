@@ -0,0 +1,321 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { CalendarDays, Plus, Repeat, Rss, Trash2, AlertCircle } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { useToast } from '@/components/ui/use-toast';
+import { ConfirmationDialog } from '@/components/ui/confirmation-dialog';
+import { TeamSelector } from '@/components/TeamSelector';
+import { TeamCalendar } from '@/components/TeamCalendar';
+import { EventDialog } from '@/components/EventDialog';
+import { PracticeScheduleDialog } from '@/components/PracticeScheduleDialog';
+import { CalendarFeedLink } from '@/components/CalendarFeedLink';
+import { EventAvailability } from '@/components/EventAvailability';
+import { useConfirmation } from '@/hooks/useConfirmation';
+import { useMyTeams } from '@/hooks/useMyTeams';
+import { useTeamEvents } from '@/hooks/useTeamEvents';
+import {
+  deleteEvent,
+  deletePracticeSchedule,
+  fetchPracticeSchedules,
+  type PracticeSchedule,
+  type TeamEvent
+} from '@/lib/events';
+import { WEEKDAYS, formatTimeOfDay } from '@/lib/calendar';
+import { getSportDefinition } from '@/lib/sport-definitions';
+import { formatDate, getErrorMessage } from '@/lib/utils';
+
+// Schedule dates are plain dates, so format them without a timezone shift
+const SCHEDULE_DATE_FORMAT: Intl.DateTimeFormatOptions = {
+  month: 'short',
+  day: 'numeric',
+  timeZone: 'UTC'
+};
+
+function describeWeekdays(weekdays: number[]) {
+  return WEEKDAYS.filter(weekday => weekdays.includes(weekday.value))
+    .map(weekday => weekday.label)
+    .join(', ');
+}
+
+export default function Schedule() {
+  const {
+    teams,
+    seasons,
+    selectedTeam,
+    setSelectedTeamId,
+    loading: teamsLoading,
+    refresh: refreshTeams
+  } = useMyTeams('coach');
+  const [schedules, setSchedules] = useState<PracticeSchedule[]>([]);
+  const [editingEvent, setEditingEvent] = useState<TeamEvent | null>(null);
+  const [newEventDate, setNewEventDate] = useState<Date | null>(null);
+  const [showEventDialog, setShowEventDialog] = useState(false);
+  const [showPracticeDialog, setShowPracticeDialog] = useState(false);
+  const { toast } = useToast();
+  const deleteEventConfirmation = useConfirmation({
+    title: 'Delete Event',
+    message: 'The event will be removed from the schedule and every subscribed calendar.',
+    confirmText: 'Delete'
+  });
+  const deleteScheduleConfirmation = useConfirmation({
+    title: 'Delete Practice Schedule',
+    message: 'Upcoming practices from this schedule will be removed. Past practices stay on the calendar.',
+    confirmText: 'Delete'
+  });
+  const teamId = selectedTeam?.id ?? null;
+  const sport = selectedTeam ? getSportDefinition(selectedTeam.sport_name) : null;
+  const seasonEnd = seasons.find(season => season.id === selectedTeam?.season_id)?.end_date ?? null;
+  const teamIds = useMemo(() => (teamId ? [teamId] : []), [teamId]);
+  const { events, loading, error, setRange, refresh } = useTeamEvents(teamIds);
+
+  const loadSchedules = useCallback(async () => {
+    if (!teamId) {
+      setSchedules([]);
+      return;
+    }
+    try {
+      setSchedules(await fetchPracticeSchedules(teamId));
+    } catch (error) {
+      console.error('Error loading practice schedules:', error);
+    }
+  }, [teamId]);
+
+  useEffect(() => {
+    loadSchedules();
+  }, [loadSchedules]);
+
+  const openEvent = (event: TeamEvent | null, date: Date | null = null) => {
+    setEditingEvent(event);
+    setNewEventDate(date);
+    setShowEventDialog(true);
+  };
+
+  const handleDeleteEvent = async (event: TeamEvent) => {
+    if (!await deleteEventConfirmation.confirm()) return;
+
+    try {
+      await deleteEvent(event.id);
+      setShowEventDialog(false);
+      toast({
+        title: "Event deleted",
+        description: "The event has been removed from the schedule"
+      });
+      refresh();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error),
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleDeleteSchedule = async (schedule: PracticeSchedule) => {
+    if (!await deleteScheduleConfirmation.confirm()) return;
+
+    try {
+      const count = await deletePracticeSchedule(schedule.id);
+      toast({
+        title: "Practice schedule deleted",
+        description: `${count} upcoming ${count === 1 ? 'practice' : 'practices'} removed`
+      });
+      loadSchedules();
+      refresh();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error),
+        variant: "destructive"
+      });
+    }
+  };
+
+  if (teamsLoading) {
+    return (
+      <div className="flex justify-center items-center min-h-[50vh]">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8 pb-20">
+      {/* Header Section */}
+      <motion.div
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="bg-gray-900/50 p-6 rounded-lg border border-white/10 backdrop-blur-sm"
+      >
+        <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+          <div className="space-y-2">
+            <h1 className="text-2xl font-bold text-white flex items-center gap-3">
+              <CalendarDays className="h-8 w-8 text-blue-400" />
+              Schedule
+            </h1>
+            <p className="text-gray-400">
+              Plan games and practices and share the calendar with families
+            </p>
+          </div>
+          <TeamSelector
+            teams={teams}
+            value={teamId}
+            onChange={setSelectedTeamId}
+            className="lg:w-72"
+          />
+        </div>
+
+        {selectedTeam && (
+          <div className="flex flex-wrap gap-3 mt-6">
+            <Button
+              onClick={() => openEvent(null)}
+              className="bg-blue-500 hover:bg-blue-600 text-white"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add Event
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => setShowPracticeDialog(true)}
+              className="border-white/10 hover:bg-blue-500/10"
+            >
+              <Repeat className="w-4 h-4 mr-2" />
+              Recurring Practices
+            </Button>
+          </div>
+        )}
+      </motion.div>
+
+      {error && (
+        <Alert variant="destructive" className="bg-red-500/10 border-red-500/20">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {!selectedTeam ? (
+        <p className="text-center text-gray-400 py-12">Create a team to start building a schedule</p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+          <Card className="bg-gray-900/50 backdrop-blur-sm border border-white/10 lg:col-span-3">
+            <CardContent className="pt-6">
+              <TeamCalendar
+                events={events}
+                loading={loading}
+                getSport={() => sport}
+                onRangeChange={setRange}
+                onEventClick={(event) => openEvent(event)}
+                onDayClick={(day) => openEvent(null, day)}
+              />
+            </CardContent>
+          </Card>
+
+          <div className="space-y-6">
+            <EventAvailability
+              key={selectedTeam.id}
+              team={selectedTeam}
+              sport={sport}
+              onReminderChange={refreshTeams}
+            />
+
+            <Card className="bg-gray-900/50 backdrop-blur-sm border border-white/10">
+              <CardHeader>
+                <CardTitle className="text-white flex items-center gap-2">
+                  <Repeat className="h-5 w-5 text-blue-400" />
+                  Practice Schedules
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {schedules.length === 0 && (
+                  <p className="text-sm text-gray-400 text-center py-2">No recurring practices yet</p>
+                )}
+                {schedules.map((schedule) => (
+                  <div
+                    key={schedule.id}
+                    className="group flex items-start justify-between gap-2 p-3 rounded-lg bg-gray-800/50 border border-white/10"
+                  >
+                    <div className="text-sm">
+                      <p className="text-white font-medium">{describeWeekdays(schedule.weekdays)}</p>
+                      <p className="text-gray-400">
+                        {formatTimeOfDay(schedule.start_time)} – {formatTimeOfDay(schedule.end_time)}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {formatDate(schedule.starts_on, SCHEDULE_DATE_FORMAT)} – {formatDate(schedule.ends_on, SCHEDULE_DATE_FORMAT)}
+                        {schedule.location && ` • ${schedule.location}`}
+                      </p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDeleteSchedule(schedule)}
+                      aria-label="Delete practice schedule"
+                      className="text-gray-400 hover:text-red-400 hover:bg-red-500/10"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+
+            <Card className="bg-gray-900/50 backdrop-blur-sm border border-white/10">
+              <CardHeader>
+                <CardTitle className="text-white flex items-center gap-2">
+                  <Rss className="h-5 w-5 text-blue-400" />
+                  Calendar Feed
+                </CardTitle>
+                <p className="text-sm text-gray-400">
+                  Families can subscribe to keep {selectedTeam.name} on their phone calendars
+                </p>
+              </CardHeader>
+              <CardContent>
+                <CalendarFeedLink key={selectedTeam.id} teamId={selectedTeam.id} canReset />
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      )}
+
+      {selectedTeam && (
+        <>
+          <EventDialog
+            open={showEventDialog}
+            onOpenChange={setShowEventDialog}
+            teamId={selectedTeam.id}
+            sport={sport}
+            event={editingEvent}
+            defaultDate={newEventDate}
+            onSaved={refresh}
+            onDelete={handleDeleteEvent}
+          />
+          <PracticeScheduleDialog
+            open={showPracticeDialog}
+            onOpenChange={setShowPracticeDialog}
+            teamId={selectedTeam.id}
+            teamName={selectedTeam.name}
+            defaultEndsOn={seasonEnd}
+            onCreated={() => {
+              loadSchedules();
+              refresh();
+            }}
+          />
+        </>
+      )}
+
+      <ConfirmationDialog
+        open={deleteEventConfirmation.isOpen}
+        onConfirm={deleteEventConfirmation.handleConfirm}
+        onCancel={deleteEventConfirmation.handleCancel}
+        {...deleteEventConfirmation.options}
+      />
+      <ConfirmationDialog
+        open={deleteScheduleConfirmation.isOpen}
+        onConfirm={deleteScheduleConfirmation.handleConfirm}
+        onCancel={deleteScheduleConfirmation.handleCancel}
+        {...deleteScheduleConfirmation.options}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,504 @@
+import { useState, useEffect, useCallback } from 'react';
+import { motion } from 'framer-motion';
+import { Waves, Plus, Pencil, Trash2, AlertCircle } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { ConfirmationDialog } from '@/components/ui/confirmation-dialog';
+import { TeamSelector } from '@/components/TeamSelector';
+import { SwimBestTimes } from '@/components/SwimBestTimes';
+import { SwimMeetDialog } from '@/components/SwimMeetDialog';
+import { SwimResultDialog } from '@/components/SwimResultDialog';
+import { SwimStandardDialog } from '@/components/SwimStandardDialog';
+import { useConfirmation } from '@/hooks/useConfirmation';
+import { useSportTeams } from '@/hooks/useSportTeams';
+import { useRealtimeSubscription } from '@/hooks/useRealtimeSubscription';
+import { fetchGames, type Game } from '@/lib/stats';
+import {
+  SWIM_EVENTS,
+  checkStandards,
+  deleteSwimResult,
+  deleteTimeStandard,
+  fetchSwimResults,
+  fetchTimeStandards,
+  formatSwimEvent,
+  formatSwimTime,
+  getLapSplits,
+  getMeetScore,
+  getResultEvent,
+  getSwimEvent,
+  getSwimmers,
+  type SwimResult,
+  type SwimTimeStandard
+} from '@/lib/swimming';
+import { compareRosterOrder, fetchTeamMembers, type TeamMember } from '@/lib/teams';
+import { cn, formatDate, getErrorMessage } from '@/lib/utils';
+
+// Meet dates are plain dates, so format them without a timezone shift
+const MEET_DATE_FORMAT: Intl.DateTimeFormatOptions = {
+  month: 'short',
+  day: 'numeric',
+  year: 'numeric',
+  timeZone: 'UTC'
+};
+
+const EVENT_ORDER = new Map(SWIM_EVENTS.map((swimEvent, index) => [swimEvent.key, index]));
+
+type ResultTarget = { result: SwimResult | null };
+type StandardTarget = { standard: SwimTimeStandard | null };
+
+export default function Swimming() {
+  const { teams, selectedTeam, setSelectedTeamId, loading: teamsLoading } = useSportTeams('swimming');
+  const [meets, setMeets] = useState<Game[]>([]);
+  const [results, setResults] = useState<SwimResult[]>([]);
+  const [standards, setStandards] = useState<SwimTimeStandard[]>([]);
+  const [athletes, setAthletes] = useState<TeamMember[]>([]);
+  const [selectedMeetId, setSelectedMeetId] = useState<string | null>(null);
+  const [swimmer, setSwimmer] = useState('');
+  const [showMeetDialog, setShowMeetDialog] = useState(false);
+  const [resultTarget, setResultTarget] = useState<ResultTarget | null>(null);
+  const [standardTarget, setStandardTarget] = useState<StandardTarget | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { toast } = useToast();
+  const deleteResultConfirmation = useConfirmation({
+    title: 'Delete Result',
+    message: "The swim will be removed from the meet and the swimmer's best times.",
+    confirmText: 'Delete'
+  });
+  const deleteStandardConfirmation = useConfirmation({
+    title: 'Delete Time Standard',
+    message: 'The standard and its cuts will be removed.',
+    confirmText: 'Delete'
+  });
+  const teamId = selectedTeam?.id ?? null;
+
+  const loadTeam = useCallback(async () => {
+    if (!teamId) {
+      setMeets([]);
+      setResults([]);
+      setStandards([]);
+      setAthletes([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const [teamMeets, teamResults, teamStandards, members] = await Promise.all([
+        fetchGames(teamId),
+        fetchSwimResults(teamId),
+        fetchTimeStandards(teamId),
+        fetchTeamMembers(teamId)
+      ]);
+      setMeets(teamMeets);
+      setResults(teamResults);
+      setStandards(teamStandards);
+      setAthletes(members.filter(member => member.role === 'athlete').sort(compareRosterOrder));
+      setError(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load meets');
+    } finally {
+      setLoading(false);
+    }
+  }, [teamId]);
+
+  useEffect(() => {
+    setLoading(true);
+    setSelectedMeetId(null);
+    setSwimmer('');
+    loadTeam();
+  }, [loadTeam]);
+
+  useRealtimeSubscription('swim_results', loadTeam);
+  useRealtimeSubscription('swim_time_standards', loadTeam);
+
+  const handleDeleteResult = async (result: SwimResult) => {
+    if (!(await deleteResultConfirmation.confirm())) return;
+
+    try {
+      await deleteSwimResult(result);
+      await loadTeam();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error),
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleDeleteStandard = async (standard: SwimTimeStandard) => {
+    if (!(await deleteStandardConfirmation.confirm())) return;
+
+    try {
+      await deleteTimeStandard(standard.id);
+      await loadTeam();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error),
+        variant: "destructive"
+      });
+    }
+  };
+
+  if (teamsLoading) {
+    return (
+      <div className="flex justify-center items-center min-h-[50vh]">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  const names = new Map(athletes.map(athlete => [athlete.user_id, athlete.full_name ?? athlete.email]));
+  const selectedMeet = meets.find(meet => meet.id === selectedMeetId) ?? meets[0] ?? null;
+  const meetResults = results
+    .filter(result => result.game_id === selectedMeet?.id)
+    .sort((a, b) => (EVENT_ORDER.get(getResultEvent(a)) ?? 0) - (EVENT_ORDER.get(getResultEvent(b)) ?? 0));
+  // New results default to the pool the meet, or failing that the team's
+  // latest swim, was in
+  const defaultCourse = meetResults[0]?.course ?? results[results.length - 1]?.course ?? 'SCY';
+  const meetScore = getMeetScore(meetResults);
+  const selectedSwimmer = swimmer || athletes[0]?.user_id || '';
+
+  return (
+    <div className="space-y-8 pb-20">
+      {/* Header Section */}
+      <motion.div
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="bg-gray-900/50 p-6 rounded-lg border border-white/10 backdrop-blur-sm"
+      >
+        <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+          <div className="space-y-2">
+            <h1 className="text-2xl font-bold text-white flex items-center gap-3">
+              <Waves className="h-8 w-8 text-blue-400" />
+              Swimming
+            </h1>
+            <p className="text-gray-400">
+              Enter meet results and follow each swimmer's best times against your time standards
+            </p>
+          </div>
+          <TeamSelector
+            teams={teams}
+            value={teamId}
+            onChange={setSelectedTeamId}
+            className="lg:w-72"
+          />
+        </div>
+      </motion.div>
+
+      {error && (
+        <Alert variant="destructive" className="bg-red-500/10 border-red-500/20">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {!selectedTeam ? (
+        <p className="text-center text-gray-400 py-12">Create a swimming team to start entering meets</p>
+      ) : loading ? (
+        <div className="flex justify-center py-12">
+          <LoadingSpinner size="lg" />
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
+            <Card className="bg-gray-900/50 backdrop-blur-sm border border-white/10 lg:col-span-2">
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                <CardTitle className="text-white">Meets</CardTitle>
+                <Button
+                  size="sm"
+                  onClick={() => setShowMeetDialog(true)}
+                  className="bg-blue-500 hover:bg-blue-600 text-white"
+                >
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add Meet
+                </Button>
+              </CardHeader>
+              <CardContent>
+                {meets.length === 0 ? (
+                  <p className="text-center text-gray-400 py-8">No meets on the schedule yet</p>
+                ) : (
+                  <div className="space-y-1 max-h-[32rem] overflow-y-auto">
+                    {meets.map((meet) => (
+                      <button
+                        key={meet.id}
+                        type="button"
+                        onClick={() => setSelectedMeetId(meet.id)}
+                        className={cn(
+                          'w-full flex items-center justify-between gap-2 p-3 rounded-lg text-left transition-colors',
+                          meet.id === selectedMeet?.id ? 'bg-blue-500/20 text-white' : 'text-gray-300 hover:bg-white/5'
+                        )}
+                      >
+                        <span>
+                          <span className="block font-medium">{meet.opponent}</span>
+                          <span className="block text-xs text-gray-400">{formatDate(meet.played_on, MEET_DATE_FORMAT)}</span>
+                        </span>
+                        {meet.team_score !== null && (
+                          <span className="text-sm text-gray-400">{meet.team_score} pts</span>
+                        )}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card className="bg-gray-900/50 backdrop-blur-sm border border-white/10 lg:col-span-3">
+              <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+                <div>
+                  <CardTitle className="text-white">{selectedMeet ? selectedMeet.opponent : 'Results'}</CardTitle>
+                  {selectedMeet && (
+                    <p className="text-sm text-gray-400 mt-1">
+                      {formatDate(selectedMeet.played_on, MEET_DATE_FORMAT)}
+                      {meetScore !== null && ` • ${meetScore} team points`}
+                    </p>
+                  )}
+                </div>
+                <Button
+                  size="sm"
+                  onClick={() => setResultTarget({ result: null })}
+                  disabled={!selectedMeet || athletes.length === 0}
+                  className="bg-blue-500 hover:bg-blue-600 text-white"
+                >
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add Result
+                </Button>
+              </CardHeader>
+              <CardContent>
+                {meetResults.length === 0 ? (
+                  <p className="text-center text-gray-400 py-8">
+                    {selectedMeet ? 'Enter swimmers with their seed times, then add final times once swum' : 'Add a meet to start entering results'}
+                  </p>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-gray-400 border-b border-white/10">
+                          <th className="py-2 pr-4 font-medium">Event</th>
+                          <th className="py-2 pr-4 font-medium">Swimmer</th>
+                          <th className="py-2 pr-4 font-medium text-right">Seed</th>
+                          <th className="py-2 pr-4 font-medium text-right">Time</th>
+                          <th className="py-2 pr-4 font-medium text-right">Pl</th>
+                          <th className="py-2 pr-4 font-medium text-right">Pts</th>
+                          <th className="py-2" />
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {meetResults.map((result) => {
+                          const swimEvent = getSwimEvent(getResultEvent(result));
+                          const met = result.time === null || result.disqualified
+                            ? []
+                            : checkStandards(
+                              getResultEvent(result),
+                              course => (course === result.course ? { time: result.time!, converted: false } : null),
+                              standards
+                            ).filter(check => check.met);
+                          const laps = result.relay
+                            ? result.legs.map(leg => leg.split).filter((split): split is number => split !== null)
+                            : result.splits.length > 0 ? getLapSplits(result.splits, result.time) : [];
+                          return (
+                            <tr
+                              key={result.id}
+                              onClick={() => setResultTarget({ result })}
+                              className="group border-b border-white/5 text-white cursor-pointer hover:bg-white/5 align-top"
+                            >
+                              <td className="py-2 pr-4 whitespace-nowrap">
+                                {swimEvent ? formatSwimEvent(swimEvent) : getResultEvent(result)}
+                                <span className="ml-1 text-xs text-gray-500">{result.course}</span>
+                              </td>
+                              <td className="py-2 pr-4">
+                                {getSwimmers(result).map(athleteId => names.get(athleteId) ?? 'Former swimmer').join(' • ')}
+                                {met.length > 0 && (
+                                  <div className="flex flex-wrap gap-1 mt-1">
+                                    {met.map((check) => (
+                                      <span
+                                        key={check.standard.id}
+                                        className="text-xs px-1.5 py-0.5 rounded bg-emerald-500/20 text-emerald-300"
+                                      >
+                                        {check.standard.name}
+                                      </span>
+                                    ))}
+                                  </div>
+                                )}
+                              </td>
+                              <td className="py-2 pr-4 text-right text-gray-400">{formatSwimTime(result.seed_time)}</td>
+                              <td className="py-2 pr-4 text-right">
+                                {result.disqualified ? (
+                                  <span className="text-red-400">DQ</span>
+                                ) : (
+                                  formatSwimTime(result.time)
+                                )}
+                                {laps.length > 0 && (
+                                  <div className="text-xs text-gray-500">{laps.map(formatSwimTime).join(' • ')}</div>
+                                )}
+                              </td>
+                              <td className="py-2 pr-4 text-right">{result.place ?? '—'}</td>
+                              <td className="py-2 pr-4 text-right">{result.points ?? '—'}</td>
+                              <td className="py-2 text-right">
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    handleDeleteResult(result);
+                                  }}
+                                  className="opacity-0 group-hover:opacity-100 text-red-400 hover:bg-red-500/10"
+                                >
+                                  <Trash2 className="w-4 h-4" />
+                                </Button>
+                              </td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card className="bg-gray-900/50 backdrop-blur-sm border border-white/10">
+            <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+              <CardTitle className="text-white">Best Times</CardTitle>
+              <Select value={selectedSwimmer} onValueChange={setSwimmer}>
+                <SelectTrigger className="w-56 bg-blue-500/5 border-blue-500/20 text-white">
+                  <SelectValue placeholder="Choose a swimmer" />
+                </SelectTrigger>
+                <SelectContent>
+                  {athletes.map((athlete) => (
+                    <SelectItem key={athlete.user_id} value={athlete.user_id}>
+                      {athlete.full_name ?? athlete.email}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </CardHeader>
+            <CardContent>
+              {selectedSwimmer ? (
+                <SwimBestTimes athleteId={selectedSwimmer} results={results} standards={standards} />
+              ) : (
+                <p className="text-center text-gray-400 py-8">Add swimmers to the team to track best times</p>
+              )}
+              <p className="text-xs text-gray-500 mt-4">
+                Times marked ≈ are converted from another course and are estimates: meters take about 1.11 times
+                as long as yards, and long course adds the time the missing turns would have saved.
+              </p>
+            </CardContent>
+          </Card>
+
+          <Card className="bg-gray-900/50 backdrop-blur-sm border border-white/10">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <CardTitle className="text-white">Time Standards</CardTitle>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setStandardTarget({ standard: null })}
+                className="border-white/10 hover:bg-blue-500/10"
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add Standard
+              </Button>
+            </CardHeader>
+            <CardContent>
+              {standards.length === 0 ? (
+                <p className="text-center text-gray-400 py-8">
+                  Add qualifying cuts, such as your state meet's, to see who has made them
+                </p>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+                  {standards.map((standard) => (
+                    <div
+                      key={standard.id}
+                      className="group flex items-start justify-between gap-2 p-4 rounded-lg bg-gray-800/50 border border-white/10"
+                    >
+                      <div>
+                        <p className="text-white font-medium">{standard.name}</p>
+                        <p className="text-xs text-gray-400">
+                          {standard.course} • {Object.keys(standard.cuts).length} events
+                        </p>
+                      </div>
+                      <div className="flex opacity-0 group-hover:opacity-100">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setStandardTarget({ standard })}
+                          className="text-gray-400 hover:bg-blue-500/10"
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDeleteStandard(standard)}
+                          className="text-red-400 hover:bg-red-500/10"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      {teamId && (
+        <>
+          <SwimMeetDialog
+            open={showMeetDialog}
+            onOpenChange={setShowMeetDialog}
+            teamId={teamId}
+            onSaved={(meet) => {
+              setSelectedMeetId(meet.id);
+              loadTeam();
+            }}
+          />
+
+          {selectedMeet && (
+            <SwimResultDialog
+              open={resultTarget !== null}
+              onOpenChange={(open) => !open && setResultTarget(null)}
+              teamId={teamId}
+              gameId={selectedMeet.id}
+              athletes={athletes}
+              result={resultTarget?.result ?? null}
+              defaultCourse={defaultCourse}
+              results={results}
+              onSaved={loadTeam}
+            />
+          )}
+
+          <SwimStandardDialog
+            open={standardTarget !== null}
+            onOpenChange={(open) => !open && setStandardTarget(null)}
+            teamId={teamId}
+            standard={standardTarget?.standard ?? null}
+            onSaved={loadTeam}
+          />
+        </>
+      )}
+
+      <ConfirmationDialog
+        open={deleteResultConfirmation.isOpen}
+        onConfirm={deleteResultConfirmation.handleConfirm}
+        onCancel={deleteResultConfirmation.handleCancel}
+        {...deleteResultConfirmation.options}
+      />
+
+      <ConfirmationDialog
+        open={deleteStandardConfirmation.isOpen}
+        onConfirm={deleteStandardConfirmation.handleConfirm}
+        onCancel={deleteStandardConfirmation.handleCancel}
+        {...deleteStandardConfirmation.options}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,324 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { Timer, Plus, Trash2, TrendingUp, AlertCircle } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { useToast } from '@/components/ui/use-toast';
+import { ConfirmationDialog } from '@/components/ui/confirmation-dialog';
+import { TeamSelector } from '@/components/TeamSelector';
+import { TestSessionDialog } from '@/components/TestSessionDialog';
+import { TestResultsGrid } from '@/components/TestResultsGrid';
+import { AthleteTestingProfile } from '@/components/AthleteTestingProfile';
+import { useConfirmation } from '@/hooks/useConfirmation';
+import { useMyTeams } from '@/hooks/useMyTeams';
+import { useRealtimeSubscription } from '@/hooks/useRealtimeSubscription';
+import {
+  deleteTestSession,
+  fetchTestHistory,
+  fetchTestSessions,
+  findPersonalRecords,
+  type TestHistory,
+  type TestSession
+} from '@/lib/performance-tests';
+import { getSportDefinition, getSportTests } from '@/lib/sport-definitions';
+import { compareRosterOrder, fetchTeamMembers, type TeamMember } from '@/lib/teams';
+import { formatDate, getErrorMessage } from '@/lib/utils';
+
+// Testing dates are plain dates, so format them without a timezone shift
+const TEST_DATE_FORMAT: Intl.DateTimeFormatOptions = {
+  month: 'short',
+  day: 'numeric',
+  year: 'numeric',
+  timeZone: 'UTC'
+};
+
+const EMPTY_HISTORY: TestHistory = { sessions: [], results: [] };
+
+export default function Testing() {
+  const { teams, selectedTeam, setSelectedTeamId, loading: teamsLoading } = useMyTeams('coach');
+  const [sessions, setSessions] = useState<TestSession[]>([]);
+  const [athletes, setAthletes] = useState<TeamMember[]>([]);
+  const [history, setHistory] = useState<TestHistory>(EMPTY_HISTORY);
+  const [selectedSessionId, setSelectedSessionId] = useState<string | null>(null);
+  const [selectedAthleteId, setSelectedAthleteId] = useState<string | null>(null);
+  const [showNewSession, setShowNewSession] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { toast } = useToast();
+  const deleteConfirmation = useConfirmation({
+    title: 'Delete Testing Day',
+    message: 'The testing day and every mark recorded on it will be removed. This cannot be undone.',
+    confirmText: 'Delete'
+  });
+  const teamId = selectedTeam?.id ?? null;
+  const sportName = selectedTeam?.sport_name ?? '';
+  const tests = useMemo(() => getSportTests(getSportDefinition(sportName)), [sportName]);
+  const selectedSession = sessions.find(session => session.id === selectedSessionId) ?? null;
+  const selectedAthlete = athletes.find(athlete => athlete.user_id === selectedAthleteId) ?? athletes[0] ?? null;
+  const athleteIds = useMemo(() => athletes.map(athlete => athlete.user_id), [athletes]);
+
+  const loadHistory = useCallback(async () => {
+    try {
+      setHistory(await fetchTestHistory(athleteIds));
+    } catch (error) {
+      console.error('Error loading test history:', error);
+    }
+  }, [athleteIds]);
+
+  const loadTeam = useCallback(async () => {
+    if (!teamId) {
+      setSessions([]);
+      setAthletes([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const [teamSessions, members] = await Promise.all([fetchTestSessions(teamId), fetchTeamMembers(teamId)]);
+      setSessions(teamSessions);
+      setAthletes(members.filter(member => member.role === 'athlete').sort(compareRosterOrder));
+      setSelectedSessionId(current =>
+        teamSessions.some(session => session.id === current) ? current : teamSessions[0]?.id ?? null
+      );
+      setError(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load testing days');
+    } finally {
+      setLoading(false);
+    }
+  }, [teamId]);
+
+  useEffect(() => {
+    setLoading(true);
+    loadTeam();
+  }, [loadTeam]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  useRealtimeSubscription('test_results', loadHistory);
+
+  const records = useMemo(() => findPersonalRecords(tests, history), [tests, history]);
+  const countRecords = (sessionId: string) =>
+    [...records].filter(key => key.startsWith(`${sessionId}:`)).length;
+
+  const handleDeleteSession = async (session: TestSession) => {
+    if (!(await deleteConfirmation.confirm())) return;
+
+    try {
+      await deleteTestSession(session.id);
+      await Promise.all([loadTeam(), loadHistory()]);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error),
+        variant: "destructive"
+      });
+    }
+  };
+
+  if (teamsLoading) {
+    return (
+      <div className="flex justify-center items-center min-h-[50vh]">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8 pb-20">
+      {/* Header Section */}
+      <motion.div
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="bg-gray-900/50 p-6 rounded-lg border border-white/10 backdrop-blur-sm"
+      >
+        <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+          <div className="space-y-2">
+            <h1 className="text-2xl font-bold text-white flex items-center gap-3">
+              <Timer className="h-8 w-8 text-blue-400" />
+              Testing
+            </h1>
+            <p className="text-gray-400">
+              Record testing days, spot personal records and follow each athlete's progress
+            </p>
+          </div>
+          <TeamSelector
+            teams={teams}
+            value={teamId}
+            onChange={setSelectedTeamId}
+            className="lg:w-72"
+          />
+        </div>
+
+        {selectedTeam && (
+          <div className="flex flex-wrap gap-3 mt-6">
+            <Button
+              onClick={() => setShowNewSession(true)}
+              className="bg-blue-500 hover:bg-blue-600 text-white"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              New Testing Day
+            </Button>
+          </div>
+        )}
+      </motion.div>
+
+      {error && (
+        <Alert variant="destructive" className="bg-red-500/10 border-red-500/20">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {!selectedTeam ? (
+        <p className="text-center text-gray-400 py-12">Create a team to start recording test results</p>
+      ) : loading ? (
+        <div className="flex justify-center py-12">
+          <LoadingSpinner size="lg" />
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+            <Card className="bg-gray-900/50 backdrop-blur-sm border border-white/10 lg:col-span-1">
+              <CardHeader>
+                <CardTitle className="text-white">Testing Days</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {sessions.length === 0 && (
+                  <p className="text-sm text-gray-400 text-center py-4">No testing days yet</p>
+                )}
+
+                {sessions.map((session) => {
+                  const recordCount = countRecords(session.id);
+                  return (
+                    <div
+                      key={session.id}
+                      onClick={() => setSelectedSessionId(session.id)}
+                      className={`group flex items-center justify-between p-3 rounded-lg cursor-pointer border transition-colors ${
+                        session.id === selectedSessionId
+                          ? 'bg-blue-500/10 border-blue-500/40'
+                          : 'bg-gray-800/50 border-white/10 hover:bg-gray-800/70'
+                      }`}
+                    >
+                      <div>
+                        <p className="text-white text-sm font-medium">{session.name}</p>
+                        <p className="text-xs text-gray-400">
+                          {formatDate(session.tested_on, TEST_DATE_FORMAT)}
+                          {` • ${session.test_keys.length} ${session.test_keys.length === 1 ? 'test' : 'tests'}`}
+                        </p>
+                        {recordCount > 0 && (
+                          <p className="text-xs text-yellow-400">
+                            {recordCount} {recordCount === 1 ? 'PR' : 'PRs'}
+                          </p>
+                        )}
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleDeleteSession(session);
+                        }}
+                        className="opacity-0 group-hover:opacity-100 text-red-400 hover:bg-red-500/10"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  );
+                })}
+              </CardContent>
+            </Card>
+
+            <Card className="bg-gray-900/50 backdrop-blur-sm border border-white/10 lg:col-span-3">
+              {selectedSession ? (
+                <>
+                  <CardHeader>
+                    <CardTitle className="text-white">{selectedSession.name}</CardTitle>
+                    <p className="text-sm text-gray-400">
+                      {formatDate(selectedSession.tested_on, TEST_DATE_FORMAT)}
+                    </p>
+                  </CardHeader>
+                  <CardContent>
+                    <TestResultsGrid
+                      key={selectedSession.id}
+                      session={selectedSession}
+                      tests={tests}
+                      athletes={athletes}
+                      history={history}
+                      onSaved={loadHistory}
+                    />
+                  </CardContent>
+                </>
+              ) : (
+                <CardContent className="py-12 text-center text-gray-400">
+                  Add a testing day to enter results
+                </CardContent>
+              )}
+            </Card>
+          </div>
+
+          {athletes.length > 0 && (
+            <Card className="bg-gray-900/50 backdrop-blur-sm border border-white/10">
+              <CardHeader className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 space-y-0">
+                <CardTitle className="text-white flex items-center gap-2">
+                  <TrendingUp className="h-5 w-5 text-blue-400" />
+                  Athlete Progress
+                </CardTitle>
+                <Select
+                  value={selectedAthlete?.user_id ?? ''}
+                  onValueChange={setSelectedAthleteId}
+                >
+                  <SelectTrigger className="md:w-72 bg-blue-500/5 border-blue-500/20 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {athletes.map((athlete) => (
+                      <SelectItem key={athlete.user_id} value={athlete.user_id}>
+                        {athlete.full_name ?? athlete.email}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </CardHeader>
+              <CardContent>
+                {selectedAthlete && (
+                  <AthleteTestingProfile
+                    athleteId={selectedAthlete.user_id}
+                    tests={tests}
+                    history={history}
+                    teammateIds={athleteIds}
+                  />
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+
+      {selectedTeam && (
+        <TestSessionDialog
+          open={showNewSession}
+          onOpenChange={setShowNewSession}
+          teamId={selectedTeam.id}
+          tests={tests}
+          onCreated={(session) => {
+            setSessions([session, ...sessions].sort((a, b) => b.tested_on.localeCompare(a.tested_on)));
+            setSelectedSessionId(session.id);
+          }}
+        />
+      )}
+
+      <ConfirmationDialog
+        open={deleteConfirmation.isOpen}
+        onConfirm={deleteConfirmation.handleConfirm}
+        onCancel={deleteConfirmation.handleCancel}
+        {...deleteConfirmation.options}
+      />
+    </div>
+  );
+}
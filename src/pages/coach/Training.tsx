@@ -0,0 +1,418 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { Dumbbell, Plus, Trash2, ClipboardList, Activity, AlertCircle } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { ConfirmationDialog } from '@/components/ui/confirmation-dialog';
+import { TeamSelector } from '@/components/TeamSelector';
+import { WorkoutTemplateDialog } from '@/components/WorkoutTemplateDialog';
+import { useConfirmation } from '@/hooks/useConfirmation';
+import { useMyTeams } from '@/hooks/useMyTeams';
+import { useRealtimeSubscription } from '@/hooks/useRealtimeSubscription';
+import { useWorkouts } from '@/hooks/useWorkouts';
+import { getToday } from '@/lib/seasons';
+import { compareRosterOrder, fetchTeamMembers, type TeamMember } from '@/lib/teams';
+import {
+  assignWorkout,
+  deleteWorkoutAssignment,
+  deleteWorkoutTemplate,
+  fetchWorkoutTemplates,
+  formatTemplateExercise,
+  getCompletedAthleteIds,
+  getLoadRatio,
+  summarizeWeeklyLoad,
+  type WorkoutTemplate
+} from '@/lib/workouts';
+import { cn, formatDate, getErrorMessage } from '@/lib/utils';
+
+// Workout dates are plain dates, so format them without a timezone shift
+const WORKOUT_DATE_FORMAT: Intl.DateTimeFormatOptions = {
+  weekday: 'short',
+  month: 'short',
+  day: 'numeric',
+  timeZone: 'UTC'
+};
+
+// Weeks of load shown per athlete in the table
+const TABLE_WEEKS = 4;
+
+export default function Training() {
+  const { teams, selectedTeam, setSelectedTeamId, loading: teamsLoading } = useMyTeams('coach');
+  const [athletes, setAthletes] = useState<TeamMember[]>([]);
+  const [templates, setTemplates] = useState<WorkoutTemplate[]>([]);
+  const [assignTemplateId, setAssignTemplateId] = useState('');
+  const [assignOn, setAssignOn] = useState('');
+  const [expandedAssignmentId, setExpandedAssignmentId] = useState<string | null>(null);
+  const [showNewTemplate, setShowNewTemplate] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { toast } = useToast();
+  const deleteTemplateConfirmation = useConfirmation({
+    title: 'Delete Template',
+    message: 'The template and every assignment of it will be removed. Workouts athletes logged are kept.',
+    confirmText: 'Delete'
+  });
+  const teamId = selectedTeam?.id ?? null;
+  const athleteIds = useMemo(() => athletes.map(athlete => athlete.user_id), [athletes]);
+  const teamIds = useMemo(() => (teamId ? [teamId] : []), [teamId]);
+  const { workouts, assignments, refresh } = useWorkouts(athleteIds, teamIds);
+  const assignTemplate = templates.find(template => template.id === assignTemplateId) ?? templates[0] ?? null;
+
+  const loadTeam = useCallback(async () => {
+    if (!teamId) {
+      setAthletes([]);
+      setTemplates([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const [members, teamTemplates] = await Promise.all([fetchTeamMembers(teamId), fetchWorkoutTemplates(teamId)]);
+      setAthletes(members.filter(member => member.role === 'athlete').sort(compareRosterOrder));
+      setTemplates(teamTemplates);
+      setError(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load training');
+    } finally {
+      setLoading(false);
+    }
+  }, [teamId]);
+
+  useEffect(() => {
+    setLoading(true);
+    loadTeam();
+  }, [loadTeam]);
+
+  useRealtimeSubscription('workout_templates', loadTeam);
+
+  const loads = useMemo(() => athletes.map(athlete => {
+    const weekly = summarizeWeeklyLoad(workouts.filter(workout => workout.athlete_id === athlete.user_id));
+    return { athlete, weekly, ratio: getLoadRatio(weekly) };
+  }), [athletes, workouts]);
+
+  const handleAssign = async () => {
+    if (!assignTemplate) return;
+
+    setSaving(true);
+    try {
+      await assignWorkout(assignTemplate, assignOn || getToday());
+      setAssignOn('');
+      await refresh();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error),
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteTemplate = async (template: WorkoutTemplate) => {
+    if (!(await deleteTemplateConfirmation.confirm())) return;
+
+    try {
+      await deleteWorkoutTemplate(template.id);
+      await Promise.all([loadTeam(), refresh()]);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error),
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleDeleteAssignment = async (assignmentId: string) => {
+    try {
+      await deleteWorkoutAssignment(assignmentId);
+      await refresh();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error),
+        variant: "destructive"
+      });
+    }
+  };
+
+  if (teamsLoading) {
+    return (
+      <div className="flex justify-center items-center min-h-[50vh]">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8 pb-20">
+      {/* Header Section */}
+      <motion.div
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="bg-gray-900/50 p-6 rounded-lg border border-white/10 backdrop-blur-sm"
+      >
+        <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+          <div className="space-y-2">
+            <h1 className="text-2xl font-bold text-white flex items-center gap-3">
+              <Dumbbell className="h-8 w-8 text-blue-400" />
+              Training
+            </h1>
+            <p className="text-gray-400">
+              Build workout templates, assign them to your team and follow each athlete's training load
+            </p>
+          </div>
+          <TeamSelector
+            teams={teams}
+            value={teamId}
+            onChange={setSelectedTeamId}
+            className="lg:w-72"
+          />
+        </div>
+
+        {selectedTeam && (
+          <div className="flex flex-wrap gap-3 mt-6">
+            <Button
+              onClick={() => setShowNewTemplate(true)}
+              className="bg-blue-500 hover:bg-blue-600 text-white"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              New Template
+            </Button>
+          </div>
+        )}
+      </motion.div>
+
+      {error && (
+        <Alert variant="destructive" className="bg-red-500/10 border-red-500/20">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {!selectedTeam ? (
+        <p className="text-center text-gray-400 py-12">Create a team to start assigning workouts</p>
+      ) : loading ? (
+        <div className="flex justify-center py-12">
+          <LoadingSpinner size="lg" />
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <Card className="bg-gray-900/50 backdrop-blur-sm border border-white/10">
+              <CardHeader>
+                <CardTitle className="text-white flex items-center gap-2">
+                  <Dumbbell className="h-5 w-5 text-blue-400" />
+                  Templates
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {templates.length === 0 && (
+                  <p className="text-sm text-gray-400 text-center py-4">No workout templates yet</p>
+                )}
+                {templates.map((template) => (
+                  <div key={template.id} className="group p-3 rounded-lg bg-gray-800/50 border border-white/10">
+                    <div className="flex items-start justify-between gap-2">
+                      <div>
+                        <p className="text-white text-sm font-medium">{template.name}</p>
+                        {template.description && <p className="text-xs text-gray-400">{template.description}</p>}
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDeleteTemplate(template)}
+                        className="opacity-0 group-hover:opacity-100 text-red-400 hover:bg-red-500/10"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                    <ul className="mt-2 text-xs text-gray-400 space-y-0.5">
+                      {template.exercises.map((exercise, index) => (
+                        <li key={index}>{formatTemplateExercise(exercise)}</li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+
+            <Card className="bg-gray-900/50 backdrop-blur-sm border border-white/10">
+              <CardHeader className="space-y-4">
+                <CardTitle className="text-white flex items-center gap-2">
+                  <ClipboardList className="h-5 w-5 text-blue-400" />
+                  Assigned Workouts
+                </CardTitle>
+                {templates.length > 0 && (
+                  <div className="flex flex-col sm:flex-row gap-2">
+                    <Select value={assignTemplate?.id ?? ''} onValueChange={setAssignTemplateId}>
+                      <SelectTrigger className="bg-blue-500/5 border-blue-500/20 text-white">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {templates.map((template) => (
+                          <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="date"
+                      value={assignOn || getToday()}
+                      onChange={(e) => setAssignOn(e.target.value)}
+                      className="sm:w-44 bg-blue-500/5 border-blue-500/20 text-white"
+                    />
+                    <Button
+                      onClick={handleAssign}
+                      disabled={saving}
+                      className="bg-blue-500 hover:bg-blue-600 text-white"
+                    >
+                      {saving ? <LoadingSpinner size="sm" /> : 'Assign'}
+                    </Button>
+                  </div>
+                )}
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {assignments.length === 0 && (
+                  <p className="text-sm text-gray-400 text-center py-4">No workouts assigned from last week on</p>
+                )}
+                {assignments.map((assignment) => {
+                  const completed = getCompletedAthleteIds(assignment.id, workouts);
+                  const done = athletes.filter(athlete => completed.has(athlete.user_id)).length;
+                  const isExpanded = expandedAssignmentId === assignment.id;
+                  return (
+                    <div key={assignment.id} className="group p-3 rounded-lg bg-gray-800/50 border border-white/10">
+                      <div
+                        onClick={() => setExpandedAssignmentId(isExpanded ? null : assignment.id)}
+                        className="flex items-center justify-between gap-2 cursor-pointer"
+                      >
+                        <div>
+                          <p className="text-white text-sm font-medium">{assignment.template?.name ?? 'Workout'}</p>
+                          <p className="text-xs text-gray-400">{formatDate(assignment.due_on, WORKOUT_DATE_FORMAT)}</p>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <span className={cn(
+                            'text-sm font-medium',
+                            athletes.length > 0 && done === athletes.length ? 'text-emerald-400' : 'text-gray-300'
+                          )}>
+                            {done}/{athletes.length} done
+                          </span>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleDeleteAssignment(assignment.id);
+                            }}
+                            className="opacity-0 group-hover:opacity-100 text-red-400 hover:bg-red-500/10"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </div>
+                      {isExpanded && (
+                        <div className="mt-3 flex flex-wrap gap-1">
+                          {athletes.map((athlete) => (
+                            <span
+                              key={athlete.user_id}
+                              className={cn(
+                                'px-2 py-0.5 rounded-full text-xs border',
+                                completed.has(athlete.user_id)
+                                  ? 'bg-emerald-500/20 text-emerald-400 border-emerald-500/30'
+                                  : 'bg-gray-700/50 text-gray-400 border-white/10'
+                              )}
+                            >
+                              {athlete.full_name ?? athlete.email}
+                            </span>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card className="bg-gray-900/50 backdrop-blur-sm border border-white/10">
+            <CardHeader>
+              <CardTitle className="text-white flex items-center gap-2">
+                <Activity className="h-5 w-5 text-blue-400" />
+                Weekly Training Load
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {athletes.length === 0 ? (
+                <p className="text-center text-gray-400 py-8">No athletes on {selectedTeam.name} yet</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-400 border-b border-white/10">
+                        <th className="py-2 pr-4 font-medium">Athlete</th>
+                        {loads[0]?.weekly.slice(-TABLE_WEEKS).map((week, index) => (
+                          <th key={week.weekStart} className="py-2 pr-4 font-medium text-right">
+                            {index === TABLE_WEEKS - 1 ? 'This week' : formatDate(week.weekStart, WORKOUT_DATE_FORMAT)}
+                          </th>
+                        ))}
+                        <th className="py-2 font-medium text-right">Acute:chronic</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {loads.map(({ athlete, weekly, ratio }) => (
+                        <tr key={athlete.user_id} className="border-b border-white/5 text-white">
+                          <td className="py-2 pr-4">{athlete.full_name ?? athlete.email}</td>
+                          {weekly.slice(-TABLE_WEEKS).map((week) => (
+                            <td key={week.weekStart} className="py-2 pr-4 text-right">
+                              {week.load || <span className="text-gray-500">—</span>}
+                              {week.workouts > 0 && (
+                                <span className="text-xs text-gray-400"> ({week.workouts})</span>
+                              )}
+                            </td>
+                          ))}
+                          <td className={cn(
+                            'py-2 text-right font-medium',
+                            ratio !== null && ratio > 1.5 ? 'text-red-400' : 'text-white'
+                          )}>
+                            {ratio === null ? '—' : ratio.toFixed(2)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  <p className="mt-3 text-xs text-gray-500">
+                    Load is minutes times effort (RPE), with the number of workouts in brackets. An acute:chronic
+                    ratio above 1.5 is a sharp jump on the last four weeks.
+                  </p>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      {selectedTeam && (
+        <WorkoutTemplateDialog
+          open={showNewTemplate}
+          onOpenChange={setShowNewTemplate}
+          teamId={selectedTeam.id}
+          onCreated={(template) => setTemplates(
+            [...templates, template].sort((a, b) => a.name.localeCompare(b.name))
+          )}
+        />
+      )}
+
+      <ConfirmationDialog
+        open={deleteTemplateConfirmation.isOpen}
+        onConfirm={deleteTemplateConfirmation.handleConfirm}
+        onCancel={deleteTemplateConfirmation.handleCancel}
+        {...deleteTemplateConfirmation.options}
+      />
+    </div>
+  );
+}
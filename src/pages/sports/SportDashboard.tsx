@@ -0,0 +1,170 @@
+import { useState } from 'react';
+import { Link, Navigate, useParams } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { AlertCircle, BarChart3, CalendarDays, Medal, Timer, Trophy, Users } from 'lucide-react';
+import { BackButton } from '@/components/BackButton';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { LoadingSpinner } from '@/components/ui/loading-spinner';
+import { SeasonSelector } from '@/components/SeasonSelector';
+import { TeamSelector } from '@/components/TeamSelector';
+import { SportRosterPanel } from '@/components/SportRosterPanel';
+import { SportStatsPanel } from '@/components/SportStatsPanel';
+import { SportEventsPanel } from '@/components/SportEventsPanel';
+import { SportTestingPanel } from '@/components/SportTestingPanel';
+import { Leaderboard } from '@/components/Leaderboard';
+import { useSportTeams } from '@/hooks/useSportTeams';
+import { getSportDefinition, type SportDefinition } from '@/lib/sport-definitions';
+import { getTeamLevelLabel } from '@/lib/teams';
+import { useAuthStore } from '@/store/auth';
+
+const container = {
+  hidden: { opacity: 0 },
+  show: {
+    opacity: 1,
+    transition: { staggerChildren: 0.1 }
+  }
+};
+
+const item = {
+  hidden: { opacity: 0, y: 20 },
+  show: { opacity: 1, y: 0 }
+};
+
+const SECTIONS = [
+  { key: 'roster', label: 'Roster', icon: Users },
+  { key: 'stats', label: 'Stats', icon: BarChart3 },
+  { key: 'testing', label: 'Testing', icon: Timer },
+  { key: 'leaders', label: 'Leaders', icon: Medal },
+  { key: 'events', label: 'Schedule', icon: CalendarDays }
+] as const;
+
+type SectionKey = typeof SECTIONS[number]['key'];
+
+export default function SportDashboardRoute() {
+  const { sport: slug = '' } = useParams<{ sport: string }>();
+  const sport = getSportDefinition(slug);
+
+  if (!sport) return <Navigate to="/" replace />;
+
+  // Keyed so switching sports starts from a fresh dashboard
+  return <SportDashboard key={sport.slug} sport={sport} />;
+}
+
+function SportDashboard({ sport }: { sport: SportDefinition }) {
+  const { user } = useAuthStore();
+  const { teams, selectedTeam, setSelectedTeamId, loading, error } = useSportTeams(sport.slug);
+  const [section, setSection] = useState<SectionKey>('roster');
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-gray-900 via-black to-gray-900">
+      <div className="absolute top-4 left-4">
+        <BackButton />
+      </div>
+
+      {/* Hero Section */}
+      <section className="relative py-20 overflow-hidden">
+        <div className="absolute inset-0">
+          <div className="absolute inset-0 bg-gradient-to-b from-transparent via-black/60 to-black" />
+          <div className="absolute inset-0 bg-[url('/grid.svg')] bg-center [mask-image:linear-gradient(180deg,white,rgba(255,255,255,0))]" />
+          <div className={`absolute top-1/4 left-1/4 w-96 h-96 ${sport.accent.primary} rounded-full blur-3xl animate-pulse`} />
+          <div className={`absolute bottom-1/4 right-1/4 w-96 h-96 ${sport.accent.secondary} rounded-full blur-3xl animate-pulse delay-1000`} />
+        </div>
+
+        <div className="relative container mx-auto px-6">
+          <motion.div
+            variants={container}
+            initial="hidden"
+            animate="show"
+            className="max-w-4xl mx-auto text-center space-y-8"
+          >
+            <motion.div variants={item}>
+              <h1 className="text-5xl md:text-6xl lg:text-7xl font-bold tracking-tight text-white mb-6">
+                {sport.name} Dashboard
+              </h1>
+              <p className="text-xl md:text-2xl text-gray-300 max-w-3xl mx-auto">
+                {sport.description}
+              </p>
+            </motion.div>
+          </motion.div>
+        </div>
+      </section>
+
+      <div className="relative container mx-auto px-6 pb-20 space-y-6">
+        {!user ? (
+          <div className="text-center space-y-4">
+            <p className="text-gray-400">Sign in to see your {sport.name.toLowerCase()} teams</p>
+            <Link to="/login">
+              <Button className="bg-blue-500 hover:bg-blue-600 text-white">Sign In</Button>
+            </Link>
+          </div>
+        ) : loading ? (
+          <div className="flex justify-center py-12">
+            <LoadingSpinner size="lg" />
+          </div>
+        ) : (
+          <>
+            {error && (
+              <Alert variant="destructive" className="bg-red-500/10 border-red-500/20">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="flex flex-col md:flex-row md:items-end gap-4">
+              <SeasonSelector className="md:w-48" />
+              <TeamSelector
+                teams={teams}
+                value={selectedTeam?.id ?? null}
+                onChange={setSelectedTeamId}
+                className="md:w-72"
+              />
+              {selectedTeam && (
+                <span className="px-2.5 py-0.5 rounded-full text-xs font-medium self-start md:self-center bg-purple-500/20 text-purple-400 border border-purple-500/20">
+                  {getTeamLevelLabel(selectedTeam.level)}
+                </span>
+              )}
+            </div>
+
+            {selectedTeam ? (
+              <>
+                <div className="flex gap-2 border-b border-white/10">
+                  {SECTIONS.map(({ key, label, icon: Icon }) => (
+                    <button
+                      key={key}
+                      onClick={() => setSection(key)}
+                      className={`flex items-center gap-2 px-4 py-2 text-sm font-medium border-b-2 -mb-px transition-colors ${
+                        section === key
+                          ? 'border-blue-400 text-blue-400'
+                          : 'border-transparent text-gray-400 hover:text-white'
+                      }`}
+                    >
+                      <Icon className="h-4 w-4" />
+                      {label}
+                    </button>
+                  ))}
+                </div>
+
+                {section === 'roster' && <SportRosterPanel sport={sport} team={selectedTeam} />}
+                {section === 'stats' && <SportStatsPanel sport={sport} team={selectedTeam} />}
+                {section === 'testing' && <SportTestingPanel sport={sport} team={selectedTeam} />}
+                {section === 'leaders' && <Leaderboard key={selectedTeam.id} sport={sport} team={selectedTeam} />}
+                {section === 'events' && <SportEventsPanel sport={sport} team={selectedTeam} />}
+              </>
+            ) : (
+              <div className="text-center py-12">
+                <Trophy className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+                <p className="text-gray-300 text-lg font-medium">
+                  No {sport.name.toLowerCase()} teams this season
+                </p>
+                <p className="text-gray-400 mt-2">
+                  Teams you coach, play on or manage will appear here
+                </p>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+
+interface SeasonState {
+  // A season name, or null for each sport's current season
+  selectedSeason: string | null;
+  setSelectedSeason: (season: string | null) => void;
+}
+
+export const useSeasonStore = create<SeasonState>()(
+  persist(
+    (set) => ({
+      selectedSeason: null,
+      setSelectedSeason: (season) => set({ selectedSeason: season })
+    }),
+    {
+      name: 'season-storage',
+      storage: createJSONStorage(() => sessionStorage)
+    }
+  )
+);
+
+// Selector hooks
+export const useSelectedSeason = () => useSeasonStore((state) => state.selectedSeason);
@@ -0,0 +1,25 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+
+interface TeamState {
+  selectedTeamId: string | null;
+  setSelectedTeamId: (teamId: string | null) => void;
+}
+
+// The team a coach is currently working with across the roster, team and
+// access code screens
+export const useTeamStore = create<TeamState>()(
+  persist(
+    (set) => ({
+      selectedTeamId: null,
+      setSelectedTeamId: (teamId) => set({ selectedTeamId: teamId })
+    }),
+    {
+      name: 'team-storage',
+      storage: createJSONStorage(() => sessionStorage)
+    }
+  )
+);
+
+// Selector hooks
+export const useSelectedTeamId = () => useTeamStore((state) => state.selectedTeamId);
@@ -0,0 +1,10 @@
+import type { MailMessage, MailTransport } from './transport.ts';
+
+// Logs messages instead of sending them. Only used when MAIL_TRANSPORT is
+// "console", so invitations can be exercised without a mail provider.
+export class ConsoleTransport implements MailTransport {
+  send(message: MailMessage) {
+    console.log(`[mail] to=${message.to} subject="${message.subject}"\n${message.text}`);
+    return Promise.resolve();
+  }
+}
@@ -0,0 +1,46 @@
+// Mail transport selection
+//
+// MAIL_TRANSPORT picks the adapter: "smtp" (the default) or "console". The
+// console adapter only logs messages, access codes included, so it has to be
+// asked for; a missing SMTP_HOST is a configuration error rather than a
+// reason to stop delivering mail.
+//
+// SMTP settings:
+//   SMTP_HOST, SMTP_PORT (default 587), SMTP_USER, SMTP_PASS,
+//   SMTP_TLS ("true" for implicit TLS, default false), MAIL_FROM
+//
+// For local development point SMTP at the Inbucket mail catcher started by
+// `supabase start`, e.g. SMTP_HOST=host.docker.internal SMTP_PORT=54325, and
+// read the messages at http://127.0.0.1:54324.
+
+import { ConsoleTransport } from './console.ts';
+import { SmtpTransport } from './smtp.ts';
+import type { MailTransport } from './transport.ts';
+
+export type { MailMessage, MailTransport } from './transport.ts';
+
+const DEFAULT_FROM = 'Elev8 Sports <no-reply@elev8sports.app>';
+
+export function createMailTransport(): MailTransport {
+  const host = Deno.env.get('SMTP_HOST');
+  const kind = Deno.env.get('MAIL_TRANSPORT') ?? 'smtp';
+
+  switch (kind) {
+    case 'console':
+      return new ConsoleTransport();
+
+    case 'smtp':
+      if (!host) throw new Error('SMTP_HOST is required for the smtp mail transport');
+      return new SmtpTransport({
+        host,
+        port: Number(Deno.env.get('SMTP_PORT') ?? 587),
+        username: Deno.env.get('SMTP_USER'),
+        password: Deno.env.get('SMTP_PASS'),
+        tls: Deno.env.get('SMTP_TLS') === 'true',
+        from: Deno.env.get('MAIL_FROM') ?? DEFAULT_FROM,
+      });
+
+    default:
+      throw new Error(`Unknown mail transport "${kind}"`);
+  }
+}
@@ -0,0 +1,44 @@
+import { SMTPClient } from 'https://deno.land/x/denomailer@1.6.0/mod.ts';
+import type { MailMessage, MailTransport } from './transport.ts';
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  username?: string;
+  password?: string;
+  tls: boolean;
+  from: string;
+}
+
+export class SmtpTransport implements MailTransport {
+  private client: SMTPClient;
+  private from: string;
+
+  constructor(config: SmtpConfig) {
+    this.from = config.from;
+    this.client = new SMTPClient({
+      connection: {
+        hostname: config.host,
+        port: config.port,
+        tls: config.tls,
+        auth: config.username
+          ? { username: config.username, password: config.password ?? '' }
+          : undefined,
+      },
+    });
+  }
+
+  async send(message: MailMessage) {
+    await this.client.send({
+      from: this.from,
+      to: message.to,
+      subject: message.subject,
+      content: message.text,
+      html: message.html,
+    });
+  }
+
+  async close() {
+    await this.client.close();
+  }
+}
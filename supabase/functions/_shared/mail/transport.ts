@@ -0,0 +1,13 @@
+export interface MailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+// Anything that can deliver a message. Implementations throw when delivery
+// fails so callers can record the error.
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+  close?(): Promise<void>;
+}
@@ -0,0 +1,92 @@
+export interface CalendarEvent {
+  id: string;
+  type: string;
+  teamName: string;
+  opponent: string | null;
+  location: string | null;
+  startsAt: string;
+  endsAt: string;
+  homeAway: 'home' | 'away' | 'neutral' | null;
+  notes: string | null;
+  updatedAt: string;
+}
+
+// "time_trial" -> "Time Trial"
+function formatEventType(type: string) {
+  return type
+    .split('_')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+function getSummary(event: CalendarEvent) {
+  const title = `${event.teamName} ${formatEventType(event.type)}`;
+  if (!event.opponent) return title;
+  return `${title} ${event.homeAway === 'away' ? '@' : 'vs'} ${event.opponent}`;
+}
+
+// 2025-03-04T18:30:00.000Z -> 20250304T183000Z
+function formatTimestamp(value: string) {
+  return new Date(value).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function escapeText(value: string) {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/\r?\n/g, '\\n')
+    .replace(/([,;])/g, '\\$1');
+}
+
+// Lines longer than 75 octets are folded onto continuation lines that
+// start with a space (RFC 5545 section 3.1)
+function foldLine(line: string) {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+export function renderCalendar(name: string, events: CalendarEvent[]) {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Elev8 Sports//Team Schedule//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    'X-PUBLISHED-TTL:PT1H',
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+  ];
+
+  for (const event of events) {
+    const description = [
+      event.homeAway ? formatEventType(event.homeAway) : null,
+      event.notes,
+    ].filter(Boolean).join('\n');
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.id}@elev8sports.app`,
+      `DTSTAMP:${formatTimestamp(event.updatedAt)}`,
+      `LAST-MODIFIED:${formatTimestamp(event.updatedAt)}`,
+      `DTSTART:${formatTimestamp(event.startsAt)}`,
+      `DTEND:${formatTimestamp(event.endsAt)}`,
+      `SUMMARY:${escapeText(getSummary(event))}`,
+    );
+    if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+    if (description) lines.push(`DESCRIPTION:${escapeText(description)}`);
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
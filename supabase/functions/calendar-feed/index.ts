@@ -0,0 +1,116 @@
+// Serves team schedules as iCalendar subscription feeds
+//
+// GET ?token=<feed token>. Calendar apps cannot send a JWT, so the secret
+// token in the URL is the only credential; tokens come from the
+// calendar_feed_token RPC and are reset there when a link leaks. A team
+// feed lists that team's events, an athlete feed the events of every team
+// the athlete is on.
+
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { renderCalendar, type CalendarEvent } from './ics.ts';
+
+// Older events are left out to keep feeds small
+const HISTORY_DAYS = 180;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+interface EventRow {
+  id: string;
+  type: string;
+  opponent: string | null;
+  location: string | null;
+  starts_at: string;
+  ends_at: string;
+  home_away: 'home' | 'away' | 'neutral' | null;
+  notes: string | null;
+  updated_at: string;
+  teams: { name: string };
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const token = new URL(req.url).searchParams.get('token') ?? '';
+    if (!UUID_PATTERN.test(token)) {
+      return jsonResponse({ error: 'invalid_token' }, 400);
+    }
+
+    const adminClient = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+    );
+
+    const { data: feed, error: feedError } = await adminClient
+      .from('calendar_feeds')
+      .select('team_id, athlete_id')
+      .eq('token', token)
+      .maybeSingle();
+
+    if (feedError) throw feedError;
+    if (!feed) {
+      return jsonResponse({ error: 'feed_not_found' }, 404);
+    }
+
+    let calendarName: string;
+    let teamIds: string[];
+    if (feed.team_id) {
+      const { data: team, error } = await adminClient
+        .from('teams')
+        .select('name')
+        .eq('id', feed.team_id)
+        .single();
+      if (error) throw error;
+      calendarName = team.name;
+      teamIds = [feed.team_id];
+    } else {
+      const [{ data: profile, error: profileError }, { data: memberships, error: membershipError }] = await Promise.all([
+        adminClient.from('profiles').select('full_name').eq('id', feed.athlete_id).single(),
+        adminClient.from('team_members').select('team_id').eq('user_id', feed.athlete_id),
+      ]);
+      if (profileError) throw profileError;
+      if (membershipError) throw membershipError;
+      calendarName = profile.full_name ? `${profile.full_name}'s Schedule` : 'My Schedule';
+      teamIds = (memberships ?? []).map(membership => membership.team_id);
+    }
+
+    let events: CalendarEvent[] = [];
+    if (teamIds.length > 0) {
+      const since = new Date(Date.now() - HISTORY_DAYS * 24 * 60 * 60 * 1000);
+      const { data, error } = await adminClient
+        .from('events')
+        .select('id, type, opponent, location, starts_at, ends_at, home_away, notes, updated_at, teams (name)')
+        .in('team_id', teamIds)
+        .gte('starts_at', since.toISOString())
+        .order('starts_at');
+
+      if (error) throw error;
+      events = ((data ?? []) as unknown as EventRow[]).map(event => ({
+        id: event.id,
+        type: event.type,
+        teamName: event.teams.name,
+        opponent: event.opponent,
+        location: event.location,
+        startsAt: event.starts_at,
+        endsAt: event.ends_at,
+        homeAway: event.home_away,
+        notes: event.notes,
+        updatedAt: event.updated_at,
+      }));
+    }
+
+    return new Response(renderCalendar(calendarName, events), {
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="schedule.ics"',
+        'Cache-Control': 'private, max-age=300',
+      },
+    });
+  } catch (error) {
+    console.error('Error serving calendar feed:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Failed to load calendar' }, 500);
+  }
+});
@@ -0,0 +1,180 @@
+// Sends (or resends) invitation emails
+//
+// POST { invitation_ids: string[] } with the caller's JWT. Only invitations
+// the caller can see under RLS are sent; accepted and cancelled invitations
+// and those whose code is no longer usable are skipped. Each attempt is
+// recorded on the invitation row.
+//
+// Environment: SITE_URL for join links (the local dev server when unset)
+// plus the mail settings described in _shared/mail/index.ts.
+
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { createMailTransport } from '../_shared/mail/index.ts';
+import { renderInvitationEmail } from './template.ts';
+
+const MAX_INVITATIONS = 100;
+const SENDABLE_STATUSES = ['pending', 'sent', 'opened', 'failed'];
+
+interface InvitationRow {
+  id: string;
+  email: string;
+  full_name: string | null;
+  token: string;
+  status: string;
+  send_count: number;
+  invited_by: string;
+  access_codes: {
+    code: string;
+    role: 'admin' | 'coach' | 'athlete';
+    gender: 'male' | 'female' | null;
+    expires_at: string | null;
+    revoked_at: string | null;
+    sports: { name: string } | null;
+    teams: { name: string } | null;
+  };
+  organizations: { name: string } | null;
+}
+
+function getTeamName(invitation: InvitationRow) {
+  if (invitation.access_codes.teams) return invitation.access_codes.teams.name;
+  const sport = invitation.access_codes.sports?.name;
+  if (!sport) return null;
+  const gender = invitation.access_codes.gender;
+  const prefix = gender === 'male' ? "Men's " : gender === 'female' ? "Women's " : '';
+  return `${prefix}${sport}`;
+}
+
+function getJoinLink(siteUrl: string, invitation: InvitationRow) {
+  const url = new URL('/join', siteUrl);
+  url.searchParams.set('code', invitation.access_codes.code);
+  url.searchParams.set('invite', invitation.token);
+  return url.toString();
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const { invitation_ids: invitationIds } = await req.json();
+    if (
+      !Array.isArray(invitationIds) ||
+      invitationIds.length === 0 ||
+      invitationIds.length > MAX_INVITATIONS
+    ) {
+      return jsonResponse({ error: `invitation_ids must list 1 to ${MAX_INVITATIONS} invitations` }, 400);
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const userClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+      global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+    });
+    const adminClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+    const { data: { user } } = await userClient.auth.getUser();
+    if (!user) {
+      return jsonResponse({ error: 'not_authenticated' }, 401);
+    }
+
+    // Read through the caller's client so RLS limits which invitations can
+    // be sent; writes use the service role since invitations have no update
+    // policy.
+    const { data, error } = await userClient
+      .from('invitations')
+      .select(`
+        id,
+        email,
+        full_name,
+        token,
+        status,
+        send_count,
+        invited_by,
+        access_codes (code, role, gender, expires_at, revoked_at, sports (name), teams (name)),
+        organizations (name)
+      `)
+      .in('id', invitationIds);
+
+    if (error) throw error;
+    const invitations = (data ?? []) as unknown as InvitationRow[];
+
+    const inviterIds = [...new Set(invitations.map(invitation => invitation.invited_by))];
+    const { data: inviters } = await adminClient
+      .from('profiles')
+      .select('id, full_name')
+      .in('id', inviterIds);
+    const inviterNames = new Map((inviters ?? []).map(p => [p.id, p.full_name as string | null]));
+
+    // Never built from request headers: the caller controls those and the
+    // link goes out in an email
+    const siteUrl = Deno.env.get('SITE_URL') ?? 'http://127.0.0.1:5173';
+    const transport = createMailTransport();
+    const result = { sent: 0, failed: 0, skipped: invitationIds.length - invitations.length };
+
+    try {
+      for (const invitation of invitations) {
+        const code = invitation.access_codes;
+        const unusable = code.revoked_at || (code.expires_at && new Date(code.expires_at) <= new Date());
+        if (!SENDABLE_STATUSES.includes(invitation.status) || unusable) {
+          result.skipped++;
+          continue;
+        }
+
+        try {
+          await transport.send(renderInvitationEmail({
+            email: invitation.email,
+            fullName: invitation.full_name,
+            code: code.code,
+            role: code.role,
+            link: getJoinLink(siteUrl, invitation),
+            teamName: getTeamName(invitation),
+            organizationName: invitation.organizations?.name ?? null,
+            inviterName: inviterNames.get(invitation.invited_by) ?? null,
+            expiresAt: code.expires_at,
+          }));
+
+          // A resend keeps an invitation that was already opened as opened
+          const { error: updateError } = await adminClient
+            .from('invitations')
+            .update({
+              status: invitation.status === 'opened' ? 'opened' : 'sent',
+              send_count: invitation.send_count + 1,
+              sent_at: new Date().toISOString(),
+              last_error: null,
+            })
+            .eq('id', invitation.id);
+
+          // Reported as failed when the row could not be marked sent, so the
+          // counts match what the invitation list shows
+          if (updateError) {
+            console.error(`Error recording invitation ${invitation.id} as sent:`, updateError);
+            result.failed++;
+          } else {
+            result.sent++;
+          }
+        } catch (sendError) {
+          console.error(`Error sending invitation ${invitation.id}:`, sendError);
+          const { error: updateError } = await adminClient
+            .from('invitations')
+            .update({
+              status: invitation.status === 'opened' ? 'opened' : 'failed',
+              last_error: sendError instanceof Error ? sendError.message : String(sendError),
+            })
+            .eq('id', invitation.id);
+          if (updateError) {
+            console.error(`Error recording invitation ${invitation.id} as failed:`, updateError);
+          }
+          result.failed++;
+        }
+      }
+    } finally {
+      await transport.close?.();
+    }
+
+    return jsonResponse(result);
+  } catch (error) {
+    console.error('Error sending invitations:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Failed to send invitations' }, 500);
+  }
+});
@@ -0,0 +1,77 @@
+import type { MailMessage } from '../_shared/mail/index.ts';
+
+export interface InvitationTemplateData {
+  email: string;
+  fullName: string | null;
+  code: string;
+  role: 'admin' | 'coach' | 'athlete';
+  link: string;
+  teamName: string | null;
+  organizationName: string | null;
+  inviterName: string | null;
+  expiresAt: string | null;
+}
+
+const ROLE_LABELS = {
+  admin: 'an administrator',
+  coach: 'a coach',
+  athlete: 'an athlete',
+} as const;
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function formatDate(date: string) {
+  return new Date(date).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  });
+}
+
+export function renderInvitationEmail(data: InvitationTemplateData): MailMessage {
+  const destination = data.teamName ?? data.organizationName ?? 'Elev8 Sports';
+  const inviter = data.inviterName ?? 'Your team';
+  const subject = `You're invited to join ${destination} on Elev8 Sports`;
+  const intro = `${inviter} has invited you to join ${destination} as ${ROLE_LABELS[data.role]}.`;
+  const greeting = data.fullName ? `Hi ${data.fullName},` : 'Hi,';
+  const expiry = data.expiresAt ? `This invitation expires on ${formatDate(data.expiresAt)}.` : '';
+
+  const text = [
+    greeting,
+    '',
+    intro,
+    '',
+    `Accept the invitation: ${data.link}`,
+    '',
+    `Or sign up and enter this access code: ${data.code}`,
+    expiry,
+  ].join('\n').trim();
+
+  const html = `<!doctype html>
+<html>
+  <body style="margin:0;padding:24px;background:#0b0f1a;font-family:Helvetica,Arial,sans-serif;color:#e5e7eb;">
+    <div style="max-width:480px;margin:0 auto;padding:32px;background:#111827;border:1px solid #1e3a8a;border-radius:12px;">
+      <p style="margin:0 0 8px;font-size:12px;font-weight:bold;letter-spacing:2px;color:#60a5fa;">ELEV8 SPORTS</p>
+      <h1 style="margin:0 0 16px;font-size:22px;color:#ffffff;">${escapeHtml(subject)}</h1>
+      <p style="margin:0 0 8px;line-height:1.5;">${escapeHtml(greeting)}</p>
+      <p style="margin:0 0 24px;line-height:1.5;">${escapeHtml(intro)}</p>
+      <a href="${escapeHtml(data.link)}" style="display:inline-block;padding:12px 24px;background:#3b82f6;color:#ffffff;text-decoration:none;border-radius:8px;font-weight:bold;">Accept Invitation</a>
+      <p style="margin:24px 0 8px;font-size:14px;color:#9ca3af;">Or sign up and enter this access code:</p>
+      <p style="margin:0;font-family:Courier,monospace;font-size:24px;font-weight:bold;letter-spacing:2px;color:#ffffff;">${escapeHtml(data.code)}</p>
+      ${expiry ? `<p style="margin:24px 0 0;font-size:12px;color:#6b7280;">${escapeHtml(expiry)}</p>` : ''}
+    </div>
+    <p style="max-width:480px;margin:16px auto 0;font-size:11px;color:#6b7280;text-align:center;">
+      This invitation was sent to ${escapeHtml(data.email)}. If you were not expecting it you can ignore this email.
+    </p>
+  </body>
+</html>`;
+
+  return { to: data.email, subject, html, text };
+}
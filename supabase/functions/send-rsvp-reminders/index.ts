@@ -0,0 +1,121 @@
+// Emails RSVP reminders
+//
+// POST with the service role key, on a schedule. Every athlete who has not
+// answered an event starting within their team's reminder window gets one
+// email per event. Schedule it with Supabase Cron, e.g. every 15 minutes:
+//
+//   select cron.schedule('rsvp-reminders', '*/15 * * * *', $$
+//     select net.http_post(
+//       url := '<project url>/functions/v1/send-rsvp-reminders',
+//       headers := jsonb_build_object('Authorization', 'Bearer <service role key>')
+//     );
+//   $$);
+//
+// Environment: SITE_URL for the response link, REMINDER_TIME_ZONE for event
+// times in the email (default UTC), plus the mail settings described in
+// _shared/mail/index.ts.
+
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { createMailTransport } from '../_shared/mail/index.ts';
+import { renderReminderEmail } from './template.ts';
+
+const UNIQUE_VIOLATION = '23505';
+
+interface ReminderRow {
+  event_id: string;
+  athlete_id: string;
+  email: string;
+  full_name: string | null;
+  team_name: string;
+  event_type: string;
+  opponent: string | null;
+  location: string | null;
+  starts_at: string;
+}
+
+// "time_trial" -> "Time Trial", with the opponent for games
+function getEventTitle(row: ReminderRow) {
+  const label = row.event_type
+    .split('_')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+  return row.opponent ? `${label} vs ${row.opponent}` : label;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return jsonResponse({ error: 'not_authorized' }, 403);
+  }
+
+  try {
+    const adminClient = createClient(Deno.env.get('SUPABASE_URL')!, serviceRoleKey);
+
+    const { data, error } = await adminClient.rpc('rsvp_reminders_due');
+    if (error) throw error;
+    const reminders = (data ?? []) as ReminderRow[];
+
+    const siteUrl = Deno.env.get('SITE_URL') ?? 'http://127.0.0.1:5173';
+    const link = new URL('/athlete/schedule', siteUrl).toString();
+    const timeZone = Deno.env.get('REMINDER_TIME_ZONE') ?? 'UTC';
+    const transport = createMailTransport();
+    const result = { sent: 0, failed: 0, skipped: 0 };
+
+    try {
+      for (const reminder of reminders) {
+        const claim = { event_id: reminder.event_id, athlete_id: reminder.athlete_id };
+
+        // Record the reminder before sending it, so a failed write can never
+        // lead to the athlete being emailed again on every run. A unique
+        // violation means an overlapping run already claimed it.
+        const { error: claimError } = await adminClient.from('rsvp_reminders').insert(claim);
+        if (claimError) {
+          if (claimError.code === UNIQUE_VIOLATION) {
+            result.skipped++;
+          } else {
+            console.error(`Error recording RSVP reminder for event ${reminder.event_id}:`, claimError);
+            result.failed++;
+          }
+          continue;
+        }
+
+        try {
+          await transport.send(renderReminderEmail({
+            email: reminder.email,
+            fullName: reminder.full_name,
+            teamName: reminder.team_name,
+            eventTitle: getEventTitle(reminder),
+            location: reminder.location,
+            startsAt: reminder.starts_at,
+            link,
+          }, timeZone));
+          result.sent++;
+        } catch (sendError) {
+          console.error(`Error sending RSVP reminder for event ${reminder.event_id}:`, sendError);
+          result.failed++;
+
+          // Released so the next run tries again
+          const { error: releaseError } = await adminClient
+            .from('rsvp_reminders')
+            .delete()
+            .match(claim);
+          if (releaseError) {
+            console.error(`Error releasing RSVP reminder for event ${reminder.event_id}:`, releaseError);
+          }
+        }
+      }
+    } finally {
+      await transport.close?.();
+    }
+
+    return jsonResponse(result);
+  } catch (error) {
+    console.error('Error sending RSVP reminders:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Failed to send reminders' }, 500);
+  }
+});
@@ -0,0 +1,69 @@
+import type { MailMessage } from '../_shared/mail/index.ts';
+
+export interface ReminderTemplateData {
+  email: string;
+  fullName: string | null;
+  teamName: string;
+  eventTitle: string;
+  location: string | null;
+  startsAt: string;
+  link: string;
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Times include the zone name since the recipient may be elsewhere
+function formatStart(date: string, timeZone: string) {
+  return new Date(date).toLocaleString('en-US', {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZone,
+    timeZoneName: 'short',
+  });
+}
+
+export function renderReminderEmail(data: ReminderTemplateData, timeZone: string): MailMessage {
+  const when = formatStart(data.startsAt, timeZone);
+  const subject = `Are you going? ${data.teamName} ${data.eventTitle}`;
+  const greeting = data.fullName ? `Hi ${data.fullName},` : 'Hi,';
+  const intro = `Your coach is planning for ${data.eventTitle} on ${when} and has not heard from you yet.`;
+  const where = data.location ? `Location: ${data.location}` : '';
+
+  const text = [
+    greeting,
+    '',
+    intro,
+    where,
+    '',
+    `Let your team know if you are going: ${data.link}`,
+  ].join('\n').trim();
+
+  const html = `<!doctype html>
+<html>
+  <body style="margin:0;padding:24px;background:#0b0f1a;font-family:Helvetica,Arial,sans-serif;color:#e5e7eb;">
+    <div style="max-width:480px;margin:0 auto;padding:32px;background:#111827;border:1px solid #1e3a8a;border-radius:12px;">
+      <p style="margin:0 0 8px;font-size:12px;font-weight:bold;letter-spacing:2px;color:#60a5fa;">${escapeHtml(data.teamName.toUpperCase())}</p>
+      <h1 style="margin:0 0 16px;font-size:22px;color:#ffffff;">Are you going?</h1>
+      <p style="margin:0 0 8px;line-height:1.5;">${escapeHtml(greeting)}</p>
+      <p style="margin:0 0 8px;line-height:1.5;">${escapeHtml(intro)}</p>
+      ${where ? `<p style="margin:0 0 8px;line-height:1.5;color:#9ca3af;">${escapeHtml(where)}</p>` : ''}
+      <a href="${escapeHtml(data.link)}" style="display:inline-block;margin-top:16px;padding:12px 24px;background:#3b82f6;color:#ffffff;text-decoration:none;border-radius:8px;font-weight:bold;">Respond</a>
+    </div>
+    <p style="max-width:480px;margin:16px auto 0;font-size:11px;color:#6b7280;text-align:center;">
+      You are receiving this because you are on ${escapeHtml(data.teamName)} on Elev8 Sports.
+    </p>
+  </body>
+</html>`;
+
+  return { to: data.email, subject, html, text };
+}
@@ -0,0 +1,134 @@
+-- Atomic access code redemption
+--
+-- Redeeming a code used to take three or four separate client calls, so a
+-- failure halfway left a burned code and a half-joined user. Everything now
+-- happens inside redeem_access_code in a single transaction.
+
+-- The links created by this trigger are now made by redeem_access_code
+DROP TRIGGER IF EXISTS on_access_code_used ON access_codes;
+DROP FUNCTION IF EXISTS handle_athlete_access_code();
+
+-- Redeem an access code for the calling user.
+-- Raises one of: not_authenticated, profile_not_found, not_found,
+-- already_used, wrong_role, already_on_team
+CREATE OR REPLACE FUNCTION redeem_access_code(
+  p_code text,
+  p_expected_role text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id uuid := auth.uid();
+  _code access_codes%ROWTYPE;
+  _profile profiles%ROWTYPE;
+  _organization_id uuid;
+  _coach_id uuid;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated';
+  END IF;
+
+  -- Lock the code so concurrent redemptions of the same code serialize
+  SELECT * INTO _code
+  FROM access_codes
+  WHERE code = upper(trim(p_code))
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'not_found';
+  END IF;
+
+  IF _code.used_at IS NOT NULL THEN
+    RAISE EXCEPTION 'already_used';
+  END IF;
+
+  IF p_expected_role IS NOT NULL AND _code.role <> p_expected_role THEN
+    RAISE EXCEPTION 'wrong_role';
+  END IF;
+
+  SELECT * INTO _profile
+  FROM profiles
+  WHERE id = _user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'profile_not_found';
+  END IF;
+
+  -- Members of an organization cannot switch roles through a code
+  IF _profile.organization_id IS NOT NULL AND _profile.role IS DISTINCT FROM _code.role THEN
+    RAISE EXCEPTION 'wrong_role';
+  END IF;
+
+  -- Codes generated by coaches carry no organization; use the creator's
+  _organization_id := COALESCE(
+    _code.organization_id,
+    (SELECT organization_id FROM profiles WHERE id = _code.created_by)
+  );
+
+  IF _code.role = 'athlete' AND _code.sport_id IS NOT NULL THEN
+    _coach_id := _code.created_by;
+
+    IF EXISTS (
+      SELECT 1 FROM coach_athletes
+      WHERE coach_id = _coach_id
+        AND athlete_id = _user_id
+        AND sport_id = _code.sport_id
+        AND organization_id = _organization_id
+    ) THEN
+      RAISE EXCEPTION 'already_on_team';
+    END IF;
+  ELSIF _code.sport_id IS NOT NULL THEN
+    IF EXISTS (
+      SELECT 1 FROM user_sports
+      WHERE user_id = _user_id
+        AND sport_id = _code.sport_id
+        AND organization_id = _organization_id
+    ) THEN
+      RAISE EXCEPTION 'already_on_team';
+    END IF;
+  ELSIF _profile.organization_id = _organization_id THEN
+    RAISE EXCEPTION 'already_on_team';
+  END IF;
+
+  UPDATE access_codes
+  SET used_at = now(),
+      used_by = _user_id
+  WHERE id = _code.id;
+
+  UPDATE profiles
+  SET role = _code.role,
+      organization_id = COALESCE(_organization_id, organization_id),
+      updated_at = now()
+  WHERE id = _user_id;
+
+  IF _code.sport_id IS NOT NULL THEN
+    INSERT INTO user_sports (user_id, sport_id, organization_id, gender)
+    VALUES (_user_id, _code.sport_id, _organization_id, _code.gender)
+    ON CONFLICT (user_id, sport_id, organization_id) DO NOTHING;
+  END IF;
+
+  IF _coach_id IS NOT NULL AND _organization_id IS NOT NULL THEN
+    INSERT INTO coach_athletes (coach_id, athlete_id, sport_id, organization_id)
+    VALUES (_coach_id, _user_id, _code.sport_id, _organization_id)
+    ON CONFLICT (coach_id, athlete_id, sport_id, organization_id) DO NOTHING;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'code_id', _code.id,
+    'role', _code.role,
+    'organization_id', _organization_id,
+    'sport_id', _code.sport_id,
+    'gender', _code.gender,
+    'coach_id', _coach_id
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION redeem_access_code(text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION redeem_access_code(text, text) TO authenticated;
+
+COMMENT ON FUNCTION redeem_access_code(text, text) IS 'Validates and redeems an access code, linking the caller to its organization, sport and coach';
@@ -0,0 +1,52 @@
+-- Access code preview for the /join deep link
+--
+-- Visitors following a shared join link are usually not signed in yet and
+-- cannot read access_codes through RLS, so the preview runs as definer and
+-- only exposes display names.
+
+-- Describe an unused access code.
+-- Raises one of: not_found, already_used
+CREATE OR REPLACE FUNCTION preview_access_code(p_code text)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _code access_codes%ROWTYPE;
+  _organization_id uuid;
+BEGIN
+  SELECT * INTO _code
+  FROM access_codes
+  WHERE code = upper(trim(p_code));
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'not_found';
+  END IF;
+
+  IF _code.used_at IS NOT NULL THEN
+    RAISE EXCEPTION 'already_used';
+  END IF;
+
+  _organization_id := COALESCE(
+    _code.organization_id,
+    (SELECT organization_id FROM profiles WHERE id = _code.created_by)
+  );
+
+  RETURN jsonb_build_object(
+    'code', _code.code,
+    'role', _code.role,
+    'gender', _code.gender,
+    'organization_name', (SELECT name FROM organizations WHERE id = _organization_id),
+    'sport_name', (SELECT name FROM sports WHERE id = _code.sport_id),
+    'coach_name', CASE
+      WHEN _code.role = 'athlete' THEN (SELECT full_name FROM profiles WHERE id = _code.created_by)
+    END
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION preview_access_code(text) TO anon, authenticated;
+
+COMMENT ON FUNCTION preview_access_code(text) IS 'Public summary of an unused access code for the join flow';
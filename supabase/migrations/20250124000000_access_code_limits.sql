@@ -0,0 +1,299 @@
+-- Access code expiry, usage limits and revocation
+--
+-- Codes were strictly single-use with no expiry. They now carry an optional
+-- expiry, a usage limit (NULL means unlimited) and can be revoked. used_at
+-- and used_by keep pointing at the most recent redemption; every redemption
+-- is logged in access_code_redemptions.
+
+ALTER TABLE access_codes
+  ADD COLUMN expires_at timestamptz,
+  ADD COLUMN max_uses integer DEFAULT 1 CHECK (max_uses IS NULL OR max_uses > 0),
+  ADD COLUMN use_count integer NOT NULL DEFAULT 0 CHECK (use_count >= 0),
+  ADD COLUMN revoked_at timestamptz,
+  ADD COLUMN revoked_by uuid REFERENCES auth.users(id);
+
+UPDATE access_codes SET use_count = 1 WHERE used_at IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS access_code_redemptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  access_code_id uuid REFERENCES access_codes(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  redeemed_at timestamptz DEFAULT now(),
+  UNIQUE(access_code_id, user_id)
+);
+
+INSERT INTO access_code_redemptions (access_code_id, user_id, redeemed_at)
+SELECT id, used_by, used_at
+FROM access_codes
+WHERE used_by IS NOT NULL
+ON CONFLICT (access_code_id, user_id) DO NOTHING;
+
+ALTER TABLE access_code_redemptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own redemptions"
+  ON access_code_redemptions FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can view redemptions of visible access codes"
+  ON access_code_redemptions FOR SELECT
+  TO authenticated
+  USING (
+    access_code_id IN (
+      SELECT id FROM access_codes
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_access_code_redemptions_code
+  ON access_code_redemptions(access_code_id);
+
+DROP INDEX IF EXISTS idx_access_codes_unused;
+CREATE INDEX IF NOT EXISTS idx_access_codes_active
+  ON access_codes(code)
+  WHERE revoked_at IS NULL;
+
+COMMENT ON TABLE access_code_redemptions IS 'Log of every access code redemption';
+
+-- Redeem an access code for the calling user.
+-- Raises one of: not_authenticated, profile_not_found, not_found, revoked,
+-- expired, already_used, wrong_role, already_on_team
+CREATE OR REPLACE FUNCTION redeem_access_code(
+  p_code text,
+  p_expected_role text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id uuid := auth.uid();
+  _code access_codes%ROWTYPE;
+  _profile profiles%ROWTYPE;
+  _organization_id uuid;
+  _coach_id uuid;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated';
+  END IF;
+
+  -- Lock the code so concurrent redemptions of the same code serialize
+  SELECT * INTO _code
+  FROM access_codes
+  WHERE code = upper(trim(p_code))
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'not_found';
+  END IF;
+
+  IF _code.revoked_at IS NOT NULL THEN
+    RAISE EXCEPTION 'revoked';
+  END IF;
+
+  IF _code.expires_at IS NOT NULL AND _code.expires_at <= now() THEN
+    RAISE EXCEPTION 'expired';
+  END IF;
+
+  IF _code.max_uses IS NOT NULL AND _code.use_count >= _code.max_uses THEN
+    RAISE EXCEPTION 'already_used';
+  END IF;
+
+  IF p_expected_role IS NOT NULL AND _code.role <> p_expected_role THEN
+    RAISE EXCEPTION 'wrong_role';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM access_code_redemptions
+    WHERE access_code_id = _code.id AND user_id = _user_id
+  ) THEN
+    RAISE EXCEPTION 'already_on_team';
+  END IF;
+
+  SELECT * INTO _profile
+  FROM profiles
+  WHERE id = _user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'profile_not_found';
+  END IF;
+
+  -- Members of an organization cannot switch roles through a code
+  IF _profile.organization_id IS NOT NULL AND _profile.role IS DISTINCT FROM _code.role THEN
+    RAISE EXCEPTION 'wrong_role';
+  END IF;
+
+  -- Codes generated by coaches carry no organization; use the creator's
+  _organization_id := COALESCE(
+    _code.organization_id,
+    (SELECT organization_id FROM profiles WHERE id = _code.created_by)
+  );
+
+  IF _code.role = 'athlete' AND _code.sport_id IS NOT NULL THEN
+    _coach_id := _code.created_by;
+
+    IF EXISTS (
+      SELECT 1 FROM coach_athletes
+      WHERE coach_id = _coach_id
+        AND athlete_id = _user_id
+        AND sport_id = _code.sport_id
+        AND organization_id = _organization_id
+    ) THEN
+      RAISE EXCEPTION 'already_on_team';
+    END IF;
+  ELSIF _code.sport_id IS NOT NULL THEN
+    IF EXISTS (
+      SELECT 1 FROM user_sports
+      WHERE user_id = _user_id
+        AND sport_id = _code.sport_id
+        AND organization_id = _organization_id
+    ) THEN
+      RAISE EXCEPTION 'already_on_team';
+    END IF;
+  ELSIF _profile.organization_id = _organization_id THEN
+    RAISE EXCEPTION 'already_on_team';
+  END IF;
+
+  UPDATE access_codes
+  SET used_at = now(),
+      used_by = _user_id,
+      use_count = use_count + 1
+  WHERE id = _code.id;
+
+  INSERT INTO access_code_redemptions (access_code_id, user_id)
+  VALUES (_code.id, _user_id);
+
+  UPDATE profiles
+  SET role = _code.role,
+      organization_id = COALESCE(_organization_id, organization_id),
+      updated_at = now()
+  WHERE id = _user_id;
+
+  IF _code.sport_id IS NOT NULL THEN
+    INSERT INTO user_sports (user_id, sport_id, organization_id, gender)
+    VALUES (_user_id, _code.sport_id, _organization_id, _code.gender)
+    ON CONFLICT (user_id, sport_id, organization_id) DO NOTHING;
+  END IF;
+
+  IF _coach_id IS NOT NULL AND _organization_id IS NOT NULL THEN
+    INSERT INTO coach_athletes (coach_id, athlete_id, sport_id, organization_id)
+    VALUES (_coach_id, _user_id, _code.sport_id, _organization_id)
+    ON CONFLICT (coach_id, athlete_id, sport_id, organization_id) DO NOTHING;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'code_id', _code.id,
+    'role', _code.role,
+    'organization_id', _organization_id,
+    'sport_id', _code.sport_id,
+    'gender', _code.gender,
+    'coach_id', _coach_id
+  );
+END;
+$$;
+
+-- Describe a redeemable access code.
+-- Raises one of: not_found, revoked, expired, already_used
+CREATE OR REPLACE FUNCTION preview_access_code(p_code text)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _code access_codes%ROWTYPE;
+  _organization_id uuid;
+BEGIN
+  SELECT * INTO _code
+  FROM access_codes
+  WHERE code = upper(trim(p_code));
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'not_found';
+  END IF;
+
+  IF _code.revoked_at IS NOT NULL THEN
+    RAISE EXCEPTION 'revoked';
+  END IF;
+
+  IF _code.expires_at IS NOT NULL AND _code.expires_at <= now() THEN
+    RAISE EXCEPTION 'expired';
+  END IF;
+
+  IF _code.max_uses IS NOT NULL AND _code.use_count >= _code.max_uses THEN
+    RAISE EXCEPTION 'already_used';
+  END IF;
+
+  _organization_id := COALESCE(
+    _code.organization_id,
+    (SELECT organization_id FROM profiles WHERE id = _code.created_by)
+  );
+
+  RETURN jsonb_build_object(
+    'code', _code.code,
+    'role', _code.role,
+    'gender', _code.gender,
+    'expires_at', _code.expires_at,
+    'organization_name', (SELECT name FROM organizations WHERE id = _organization_id),
+    'sport_name', (SELECT name FROM sports WHERE id = _code.sport_id),
+    'coach_name', CASE
+      WHEN _code.role = 'athlete' THEN (SELECT full_name FROM profiles WHERE id = _code.created_by)
+    END
+  );
+END;
+$$;
+
+-- Revoke an access code. Allowed for the code's creator and for admins of
+-- the code's organization.
+CREATE OR REPLACE FUNCTION revoke_access_code(p_code_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id uuid := auth.uid();
+  _code access_codes%ROWTYPE;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated';
+  END IF;
+
+  SELECT * INTO _code
+  FROM access_codes
+  WHERE id = p_code_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'not_found';
+  END IF;
+
+  IF _code.created_by IS DISTINCT FROM _user_id AND NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = _user_id
+      AND role = 'admin'
+      AND organization_id = COALESCE(
+        _code.organization_id,
+        (SELECT organization_id FROM profiles WHERE id = _code.created_by)
+      )
+  ) THEN
+    RAISE EXCEPTION 'not_authorized';
+  END IF;
+
+  IF _code.revoked_at IS NOT NULL THEN
+    RETURN;
+  END IF;
+
+  UPDATE access_codes
+  SET revoked_at = now(),
+      revoked_by = _user_id
+  WHERE id = _code.id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION revoke_access_code(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION revoke_access_code(uuid) TO authenticated;
+
+COMMENT ON FUNCTION revoke_access_code(uuid) IS 'Revokes an access code so it can no longer be redeemed';
@@ -0,0 +1,155 @@
+-- Organization-wide access code ledger
+--
+-- Codes generated by coaches were stored without an organization, which hid
+-- them from the organization's admins. New codes now inherit the creator's
+-- organization and existing ones are backfilled.
+
+CREATE OR REPLACE FUNCTION set_access_code_organization()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.organization_id IS NULL THEN
+    SELECT organization_id INTO NEW.organization_id
+    FROM profiles
+    WHERE id = NEW.created_by;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_access_code_organization ON access_codes;
+CREATE TRIGGER set_access_code_organization
+  BEFORE INSERT ON access_codes
+  FOR EACH ROW
+  EXECUTE FUNCTION set_access_code_organization();
+
+UPDATE access_codes
+SET organization_id = profiles.organization_id
+FROM profiles
+WHERE access_codes.organization_id IS NULL
+  AND profiles.id = access_codes.created_by;
+
+CREATE INDEX IF NOT EXISTS idx_access_codes_organization
+  ON access_codes(organization_id, created_at DESC);
+
+-- Every access code in the caller's organization with its creator and
+-- redemptions. Admins only.
+CREATE OR REPLACE FUNCTION get_access_code_ledger()
+RETURNS TABLE (
+  id uuid,
+  code text,
+  role text,
+  sport_id uuid,
+  sport_name text,
+  gender text,
+  created_by uuid,
+  creator_name text,
+  created_at timestamptz,
+  expires_at timestamptz,
+  max_uses integer,
+  use_count integer,
+  revoked_at timestamptz,
+  redemptions jsonb
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _organization_id uuid;
+BEGIN
+  SELECT p.organization_id INTO _organization_id
+  FROM profiles p
+  WHERE p.id = auth.uid()
+    AND p.role = 'admin';
+
+  IF _organization_id IS NULL THEN
+    RAISE EXCEPTION 'not_authorized';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    ac.id,
+    ac.code,
+    ac.role,
+    ac.sport_id,
+    s.name,
+    ac.gender,
+    ac.created_by,
+    creator.full_name,
+    ac.created_at,
+    ac.expires_at,
+    ac.max_uses,
+    ac.use_count,
+    ac.revoked_at,
+    COALESCE(
+      (
+        SELECT jsonb_agg(
+          jsonb_build_object(
+            'user_id', r.user_id,
+            'full_name', rp.full_name,
+            'email', rp.email,
+            'redeemed_at', r.redeemed_at
+          )
+          ORDER BY r.redeemed_at
+        )
+        FROM access_code_redemptions r
+        LEFT JOIN profiles rp ON rp.id = r.user_id
+        WHERE r.access_code_id = ac.id
+      ),
+      '[]'::jsonb
+    )
+  FROM access_codes ac
+  LEFT JOIN sports s ON s.id = ac.sport_id
+  LEFT JOIN profiles creator ON creator.id = ac.created_by
+  WHERE ac.organization_id = _organization_id
+  ORDER BY ac.created_at DESC;
+END;
+$$;
+
+-- Revoke several codes at once. Admins may revoke any code in their
+-- organization; anyone else only the codes they created. Returns the number
+-- of codes revoked.
+CREATE OR REPLACE FUNCTION revoke_access_codes(p_code_ids uuid[])
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id uuid := auth.uid();
+  _profile profiles%ROWTYPE;
+  _revoked integer;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated';
+  END IF;
+
+  SELECT * INTO _profile FROM profiles WHERE id = _user_id;
+
+  UPDATE access_codes
+  SET revoked_at = now(),
+      revoked_by = _user_id
+  WHERE id = ANY(p_code_ids)
+    AND revoked_at IS NULL
+    AND (
+      created_by = _user_id
+      OR (_profile.role = 'admin' AND organization_id = _profile.organization_id)
+    );
+
+  GET DIAGNOSTICS _revoked = ROW_COUNT;
+  RETURN _revoked;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_access_code_ledger() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_access_code_ledger() TO authenticated;
+REVOKE EXECUTE ON FUNCTION revoke_access_codes(uuid[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION revoke_access_codes(uuid[]) TO authenticated;
+
+COMMENT ON FUNCTION get_access_code_ledger() IS 'Organization-wide access code ledger for admins';
+COMMENT ON FUNCTION revoke_access_codes(uuid[]) IS 'Revokes a batch of access codes and returns how many were revoked';
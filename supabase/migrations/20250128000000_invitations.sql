@@ -0,0 +1,194 @@
+-- Email invitations
+--
+-- An invitation binds a generated access code to an email address. The
+-- send-invitations edge function delivers it and records each attempt.
+-- Opening the emailed link marks it opened; redeeming the bound code marks
+-- it accepted.
+
+CREATE TABLE IF NOT EXISTS invitations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE,
+  access_code_id uuid REFERENCES access_codes(id) ON DELETE CASCADE NOT NULL,
+  email text NOT NULL CHECK (email ~* '^[^@\s]+@[^@\s]+\.[^@\s]+$'),
+  invited_by uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'sent', 'opened', 'accepted', 'cancelled', 'failed')),
+  token uuid NOT NULL DEFAULT gen_random_uuid() UNIQUE,
+  send_count integer NOT NULL DEFAULT 0,
+  last_error text,
+  sent_at timestamptz,
+  opened_at timestamptz,
+  accepted_at timestamptz,
+  cancelled_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view invitations they sent"
+  ON invitations FOR SELECT
+  TO authenticated
+  USING (invited_by = auth.uid());
+
+CREATE POLICY "Admins can view organization invitations"
+  ON invitations FOR SELECT
+  TO authenticated
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM profiles
+      WHERE id = auth.uid()
+        AND role = 'admin'
+    )
+  );
+
+CREATE POLICY "Users can invite with their own access codes"
+  ON invitations FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    invited_by = auth.uid()
+    AND access_code_id IN (
+      SELECT id FROM access_codes
+      WHERE created_by = auth.uid()
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_invitations_invited_by
+  ON invitations(invited_by, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_invitations_organization
+  ON invitations(organization_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_invitations_access_code
+  ON invitations(access_code_id);
+
+CREATE TRIGGER update_invitations_updated_at
+  BEFORE UPDATE ON invitations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Invitations share the organization of the code they deliver
+CREATE OR REPLACE FUNCTION set_invitation_organization()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.email := lower(trim(NEW.email));
+  IF NEW.organization_id IS NULL THEN
+    SELECT organization_id INTO NEW.organization_id
+    FROM access_codes
+    WHERE id = NEW.access_code_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_invitation_organization ON invitations;
+CREATE TRIGGER set_invitation_organization
+  BEFORE INSERT ON invitations
+  FOR EACH ROW
+  EXECUTE FUNCTION set_invitation_organization();
+
+-- Redeeming an invited code accepts the invitation
+CREATE OR REPLACE FUNCTION accept_invitations_on_redemption()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE invitations
+  SET status = 'accepted',
+      accepted_at = NEW.redeemed_at
+  WHERE access_code_id = NEW.access_code_id
+    AND status IN ('pending', 'sent', 'opened', 'failed');
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS accept_invitations_on_redemption ON access_code_redemptions;
+CREATE TRIGGER accept_invitations_on_redemption
+  AFTER INSERT ON access_code_redemptions
+  FOR EACH ROW
+  EXECUTE FUNCTION accept_invitations_on_redemption();
+
+-- Called from the join page when the emailed link is followed. Safe to call
+-- before sign in; unknown tokens are ignored.
+CREATE OR REPLACE FUNCTION mark_invitation_opened(p_token uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE invitations
+  SET status = 'opened',
+      opened_at = now()
+  WHERE token = p_token
+    AND status = 'sent';
+END;
+$$;
+
+-- Cancel an invitation and revoke its code so the emailed link stops
+-- working. Allowed for the sender or an admin of the organization.
+-- Raises one of: not_authenticated, not_found, not_authorized, already_used
+CREATE OR REPLACE FUNCTION cancel_invitation(p_invitation_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id uuid := auth.uid();
+  _invitation invitations%ROWTYPE;
+  _profile profiles%ROWTYPE;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated';
+  END IF;
+
+  SELECT * INTO _invitation
+  FROM invitations
+  WHERE id = p_invitation_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'not_found';
+  END IF;
+
+  SELECT * INTO _profile FROM profiles WHERE id = _user_id;
+
+  IF _invitation.invited_by <> _user_id
+    AND NOT (_profile.role = 'admin' AND _profile.organization_id = _invitation.organization_id) THEN
+    RAISE EXCEPTION 'not_authorized';
+  END IF;
+
+  IF _invitation.status = 'accepted' THEN
+    RAISE EXCEPTION 'already_used';
+  END IF;
+
+  IF _invitation.status = 'cancelled' THEN
+    RETURN;
+  END IF;
+
+  UPDATE invitations
+  SET status = 'cancelled',
+      cancelled_at = now()
+  WHERE id = p_invitation_id;
+
+  UPDATE access_codes
+  SET revoked_at = now(),
+      revoked_by = _user_id
+  WHERE id = _invitation.access_code_id
+    AND revoked_at IS NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION mark_invitation_opened(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION mark_invitation_opened(uuid) TO anon, authenticated;
+REVOKE EXECUTE ON FUNCTION cancel_invitation(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION cancel_invitation(uuid) TO authenticated;
+
+COMMENT ON TABLE invitations IS 'Access codes delivered by email and their delivery status';
+COMMENT ON FUNCTION mark_invitation_opened(uuid) IS 'Marks a sent invitation as opened from its emailed link';
+COMMENT ON FUNCTION cancel_invitation(uuid) IS 'Cancels an invitation and revokes its access code';
@@ -0,0 +1,188 @@
+-- Roster import
+--
+-- Coaches can import a roster from CSV. Athletes who already belong to the
+-- organization are added to the coach's roster directly; everyone else is
+-- sent an invitation. Roster details (graduation year, position, jersey
+-- number) live on coach_athletes and are carried on the invitation until it
+-- is accepted.
+
+ALTER TABLE coach_athletes
+  ADD COLUMN grad_year integer CHECK (grad_year BETWEEN 1900 AND 2100),
+  ADD COLUMN position text,
+  ADD COLUMN jersey_number text CHECK (jersey_number ~ '^[0-9]{1,3}$');
+
+ALTER TABLE invitations
+  ADD COLUMN full_name text,
+  ADD COLUMN roster_details jsonb NOT NULL DEFAULT '{}';
+
+-- Copy roster details from an accepted invitation onto the roster entry that
+-- redeeming its code creates
+CREATE OR REPLACE FUNCTION apply_invitation_roster_details()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _details jsonb;
+BEGIN
+  SELECT i.roster_details INTO _details
+  FROM invitations i
+  JOIN access_codes ac ON ac.id = i.access_code_id
+  JOIN access_code_redemptions r ON r.access_code_id = ac.id
+  WHERE i.status = 'accepted'
+    AND r.user_id = NEW.athlete_id
+    AND ac.created_by = NEW.coach_id
+    AND ac.sport_id = NEW.sport_id
+  ORDER BY i.accepted_at DESC
+  LIMIT 1;
+
+  IF _details IS NOT NULL THEN
+    NEW.grad_year := COALESCE(NEW.grad_year, (_details->>'grad_year')::integer);
+    NEW.position := COALESCE(NEW.position, _details->>'position');
+    NEW.jersey_number := COALESCE(NEW.jersey_number, _details->>'jersey_number');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS apply_invitation_roster_details ON coach_athletes;
+CREATE TRIGGER apply_invitation_roster_details
+  BEFORE INSERT ON coach_athletes
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_invitation_roster_details();
+
+-- Accounts in the caller's organization with one of the given emails, and
+-- the sports they are already on the caller's roster for
+CREATE OR REPLACE FUNCTION match_roster_emails(p_emails text[])
+RETURNS TABLE (
+  email text,
+  user_id uuid,
+  full_name text,
+  role text,
+  roster_sport_ids uuid[]
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _organization_id uuid;
+BEGIN
+  SELECT p.organization_id INTO _organization_id
+  FROM profiles p
+  WHERE p.id = auth.uid()
+    AND p.role IN ('admin', 'coach');
+
+  IF _organization_id IS NULL THEN
+    RAISE EXCEPTION 'not_authorized';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    lower(p.email),
+    p.id,
+    p.full_name,
+    p.role,
+    COALESCE(
+      (
+        SELECT array_agg(ca.sport_id)
+        FROM coach_athletes ca
+        WHERE ca.coach_id = auth.uid()
+          AND ca.athlete_id = p.id
+      ),
+      '{}'
+    )
+  FROM profiles p
+  WHERE p.organization_id = _organization_id
+    AND lower(p.email) = ANY (
+      SELECT lower(trim(e)) FROM unnest(p_emails) AS e
+    );
+END;
+$$;
+
+-- Add existing athletes in the caller's organization to the caller's roster,
+-- or update their roster details if they are already on it. Each element of
+-- p_athletes is { user_id, sport_id, gender, grad_year, position,
+-- jersey_number }. Returns the number of roster entries written.
+-- Raises one of: not_authorized, not_found
+CREATE OR REPLACE FUNCTION add_roster_athletes(p_athletes jsonb)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id uuid := auth.uid();
+  _organization_id uuid;
+  _entry jsonb;
+  _athlete_id uuid;
+  _sport_id uuid;
+  _written integer := 0;
+BEGIN
+  SELECT organization_id INTO _organization_id
+  FROM profiles
+  WHERE id = _user_id
+    AND role = 'coach';
+
+  IF _organization_id IS NULL THEN
+    RAISE EXCEPTION 'not_authorized';
+  END IF;
+
+  FOR _entry IN SELECT * FROM jsonb_array_elements(p_athletes)
+  LOOP
+    _athlete_id := (_entry->>'user_id')::uuid;
+    _sport_id := (_entry->>'sport_id')::uuid;
+
+    IF NOT EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = _athlete_id
+        AND role = 'athlete'
+        AND organization_id = _organization_id
+    ) THEN
+      RAISE EXCEPTION 'not_found';
+    END IF;
+
+    IF NOT EXISTS (
+      SELECT 1 FROM user_sports
+      WHERE user_id = _user_id
+        AND sport_id = _sport_id
+    ) THEN
+      RAISE EXCEPTION 'not_authorized';
+    END IF;
+
+    INSERT INTO user_sports (user_id, sport_id, organization_id, gender)
+    VALUES (_athlete_id, _sport_id, _organization_id, _entry->>'gender')
+    ON CONFLICT (user_id, sport_id, organization_id) DO NOTHING;
+
+    INSERT INTO coach_athletes (
+      coach_id, athlete_id, sport_id, organization_id,
+      grad_year, position, jersey_number
+    )
+    VALUES (
+      _user_id, _athlete_id, _sport_id, _organization_id,
+      (_entry->>'grad_year')::integer,
+      _entry->>'position',
+      _entry->>'jersey_number'
+    )
+    ON CONFLICT (coach_id, athlete_id, sport_id, organization_id) DO UPDATE
+    SET grad_year = COALESCE(EXCLUDED.grad_year, coach_athletes.grad_year),
+        position = COALESCE(EXCLUDED.position, coach_athletes.position),
+        jersey_number = COALESCE(EXCLUDED.jersey_number, coach_athletes.jersey_number);
+
+    _written := _written + 1;
+  END LOOP;
+
+  RETURN _written;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION match_roster_emails(text[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION match_roster_emails(text[]) TO authenticated;
+REVOKE EXECUTE ON FUNCTION add_roster_athletes(jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION add_roster_athletes(jsonb) TO authenticated;
+
+COMMENT ON FUNCTION match_roster_emails(text[]) IS 'Finds existing organization accounts for roster import emails';
+COMMENT ON FUNCTION add_roster_athletes(jsonb) IS 'Adds existing organization athletes to the calling coach''s roster';
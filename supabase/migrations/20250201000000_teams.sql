@@ -0,0 +1,710 @@
+-- Teams
+--
+-- A team was implied by a sport and gender on user_sports and coach_athletes.
+-- Teams are now rows of their own with a level and season, and coaches and
+-- athletes belong to them through team_members. Access codes can target a
+-- team; redeeming one joins the team. user_sports and coach_athletes are
+-- still written so existing screens keep working.
+
+CREATE TABLE IF NOT EXISTS teams (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE NOT NULL,
+  sport_id uuid REFERENCES sports(id) NOT NULL,
+  gender text NOT NULL DEFAULT 'coed' CHECK (gender IN ('male', 'female', 'coed')),
+  level text NOT NULL DEFAULT 'varsity'
+    CHECK (level IN ('varsity', 'junior_varsity', 'freshman', 'club')),
+  season text,
+  name text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE NULLS NOT DISTINCT (organization_id, sport_id, gender, level, season)
+);
+
+CREATE TABLE IF NOT EXISTS team_members (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id uuid REFERENCES teams(id) ON DELETE CASCADE NOT NULL,
+  -- References profiles so members can be embedded with their profile
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  role text NOT NULL CHECK (role IN ('coach', 'athlete')),
+  grad_year integer CHECK (grad_year BETWEEN 1900 AND 2100),
+  position text,
+  jersey_number text CHECK (jersey_number ~ '^[0-9]{1,3}$'),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(team_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_teams_organization ON teams(organization_id, sport_id);
+CREATE INDEX IF NOT EXISTS idx_team_members_user ON team_members(user_id);
+
+CREATE TRIGGER update_teams_updated_at
+  BEFORE UPDATE ON teams
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE access_codes
+  ADD COLUMN team_id uuid REFERENCES teams(id) ON DELETE SET NULL;
+
+-- Default display name, e.g. "JV Women's Soccer"
+CREATE OR REPLACE FUNCTION team_display_name(p_level text, p_gender text, p_sport_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT concat_ws(' ',
+    CASE p_level
+      WHEN 'junior_varsity' THEN 'JV'
+      WHEN 'freshman' THEN 'Freshman'
+      WHEN 'club' THEN 'Club'
+    END,
+    CASE p_gender
+      WHEN 'male' THEN 'Men''s'
+      WHEN 'female' THEN 'Women''s'
+    END,
+    (SELECT name FROM sports WHERE id = p_sport_id)
+  );
+$$;
+
+-- Teams the caller belongs to, optionally only those they coach. Used by
+-- policies so team_members policies do not query team_members directly.
+CREATE OR REPLACE FUNCTION my_team_ids(p_role text DEFAULT NULL)
+RETURNS SETOF uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT team_id FROM team_members
+  WHERE user_id = auth.uid()
+    AND (p_role IS NULL OR role = p_role);
+$$;
+
+-- Whether a team is stored with this organization and sport. Lets the
+-- coaches' update policy compare against the row as it was before the
+-- update without querying teams under its own policies.
+CREATE OR REPLACE FUNCTION team_has_scope(p_team_id uuid, p_organization_id uuid, p_sport_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM teams
+    WHERE id = p_team_id
+      AND organization_id = p_organization_id
+      AND sport_id = p_sport_id
+  );
+$$;
+
+-- Whether a user's profile belongs to a team's organization. Coaches cannot
+-- see profiles outside their teams, so policies check this here.
+CREATE OR REPLACE FUNCTION in_team_organization(p_team_id uuid, p_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM teams t
+    JOIN profiles p ON p.organization_id = t.organization_id
+    WHERE t.id = p_team_id
+      AND p.id = p_user_id
+  );
+$$;
+
+-- Backfill a varsity team for every sport and gender in use, with the
+-- coaches and athletes already linked to it
+INSERT INTO teams (organization_id, sport_id, gender, level, name)
+SELECT DISTINCT
+  us.organization_id,
+  us.sport_id,
+  COALESCE(us.gender, 'coed'),
+  'varsity',
+  team_display_name('varsity', us.gender, us.sport_id)
+FROM user_sports us
+JOIN profiles p ON p.id = us.user_id
+WHERE us.organization_id IS NOT NULL
+  AND us.sport_id IS NOT NULL
+  AND p.role IN ('coach', 'athlete')
+ON CONFLICT DO NOTHING;
+
+INSERT INTO team_members (team_id, user_id, role)
+SELECT t.id, us.user_id, p.role
+FROM user_sports us
+JOIN profiles p ON p.id = us.user_id
+JOIN teams t
+  ON t.organization_id = us.organization_id
+  AND t.sport_id = us.sport_id
+  AND t.gender = COALESCE(us.gender, 'coed')
+  AND t.level = 'varsity'
+  AND t.season IS NULL
+WHERE p.role IN ('coach', 'athlete')
+ON CONFLICT (team_id, user_id) DO NOTHING;
+
+-- Roster details move from coach_athletes to the team membership
+UPDATE team_members tm
+SET grad_year = ca.grad_year,
+    position = ca.position,
+    jersey_number = ca.jersey_number
+FROM coach_athletes ca
+JOIN teams t ON t.sport_id = ca.sport_id AND t.organization_id = ca.organization_id
+WHERE tm.team_id = t.id
+  AND tm.user_id = ca.athlete_id
+  AND (ca.grad_year IS NOT NULL OR ca.position IS NOT NULL OR ca.jersey_number IS NOT NULL);
+
+DROP TRIGGER IF EXISTS apply_invitation_roster_details ON coach_athletes;
+
+ALTER TABLE coach_athletes
+  DROP COLUMN grad_year,
+  DROP COLUMN position,
+  DROP COLUMN jersey_number;
+
+UPDATE access_codes ac
+SET team_id = t.id
+FROM teams t
+WHERE ac.team_id IS NULL
+  AND ac.sport_id = t.sport_id
+  AND ac.organization_id = t.organization_id
+  AND t.gender = COALESCE(ac.gender, 'coed')
+  AND t.level = 'varsity'
+  AND t.season IS NULL;
+
+ALTER TABLE teams ENABLE ROW LEVEL SECURITY;
+ALTER TABLE team_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their organization's teams"
+  ON teams FOR SELECT
+  TO authenticated
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM profiles WHERE id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can manage their organization's teams"
+  ON teams FOR ALL
+  TO authenticated
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM profiles
+      WHERE id = auth.uid()
+        AND role = 'admin'
+    )
+  );
+
+-- Coaches can change a team's settings but not move it to another
+-- organization or sport
+CREATE POLICY "Coaches can update their teams"
+  ON teams FOR UPDATE
+  TO authenticated
+  USING (id IN (SELECT my_team_ids('coach')))
+  WITH CHECK (
+    id IN (SELECT my_team_ids('coach'))
+    AND team_has_scope(id, organization_id, sport_id)
+  );
+
+CREATE POLICY "Members can view their teams' members"
+  ON team_members FOR SELECT
+  TO authenticated
+  USING (team_id IN (SELECT my_team_ids()));
+
+-- Coaches can add and edit athletes from their own organization. Other
+-- coaches join a team through create_team or an access code.
+CREATE POLICY "Coaches can add athletes to their teams"
+  ON team_members FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    team_id IN (SELECT my_team_ids('coach'))
+    AND role = 'athlete'
+    AND in_team_organization(team_id, user_id)
+  );
+
+CREATE POLICY "Coaches can update their teams' athletes"
+  ON team_members FOR UPDATE
+  TO authenticated
+  USING (
+    team_id IN (SELECT my_team_ids('coach'))
+    AND role = 'athlete'
+  )
+  WITH CHECK (
+    team_id IN (SELECT my_team_ids('coach'))
+    AND role = 'athlete'
+    AND in_team_organization(team_id, user_id)
+  );
+
+CREATE POLICY "Coaches can remove their teams' members"
+  ON team_members FOR DELETE
+  TO authenticated
+  USING (team_id IN (SELECT my_team_ids('coach')));
+
+CREATE POLICY "Admins can manage organization team members"
+  ON team_members FOR ALL
+  TO authenticated
+  USING (
+    team_id IN (
+      SELECT t.id FROM teams t
+      JOIN profiles p ON p.organization_id = t.organization_id
+      WHERE p.id = auth.uid()
+        AND p.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Coaches can view their team members' profiles"
+  ON profiles FOR SELECT
+  TO authenticated
+  USING (
+    id IN (
+      SELECT user_id FROM team_members
+      WHERE team_id IN (SELECT my_team_ids('coach'))
+    )
+  );
+
+-- Create a team. Admins can create any team in their organization; coaches
+-- only for sports they coach, and they join the new team as its coach.
+-- Raises one of: not_authenticated, not_authorized, team_exists
+CREATE OR REPLACE FUNCTION create_team(
+  p_sport_id uuid,
+  p_gender text,
+  p_level text,
+  p_season text DEFAULT NULL,
+  p_name text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id uuid := auth.uid();
+  _profile profiles%ROWTYPE;
+  _team_id uuid;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated';
+  END IF;
+
+  SELECT * INTO _profile FROM profiles WHERE id = _user_id;
+
+  IF _profile.organization_id IS NULL
+    OR _profile.role NOT IN ('admin', 'coach')
+    OR (
+      _profile.role = 'coach' AND NOT EXISTS (
+        SELECT 1 FROM user_sports
+        WHERE user_id = _user_id
+          AND sport_id = p_sport_id
+      )
+    ) THEN
+    RAISE EXCEPTION 'not_authorized';
+  END IF;
+
+  INSERT INTO teams (organization_id, sport_id, gender, level, season, name)
+  VALUES (
+    _profile.organization_id,
+    p_sport_id,
+    p_gender,
+    p_level,
+    NULLIF(trim(p_season), ''),
+    COALESCE(NULLIF(trim(p_name), ''), team_display_name(p_level, p_gender, p_sport_id))
+  )
+  ON CONFLICT DO NOTHING
+  RETURNING id INTO _team_id;
+
+  IF _team_id IS NULL THEN
+    RAISE EXCEPTION 'team_exists';
+  END IF;
+
+  IF _profile.role = 'coach' THEN
+    INSERT INTO team_members (team_id, user_id, role)
+    VALUES (_team_id, _user_id, 'coach');
+  END IF;
+
+  RETURN _team_id;
+END;
+$$;
+
+-- Redeem an access code for the calling user. Codes for a team add the user
+-- to that team.
+-- Raises one of: not_authenticated, profile_not_found, not_found, revoked,
+-- expired, already_used, wrong_role, already_on_team
+CREATE OR REPLACE FUNCTION redeem_access_code(
+  p_code text,
+  p_expected_role text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id uuid := auth.uid();
+  _code access_codes%ROWTYPE;
+  _profile profiles%ROWTYPE;
+  _organization_id uuid;
+  _coach_id uuid;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated';
+  END IF;
+
+  -- Lock the code so concurrent redemptions of the same code serialize
+  SELECT * INTO _code
+  FROM access_codes
+  WHERE code = upper(trim(p_code))
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'not_found';
+  END IF;
+
+  IF _code.revoked_at IS NOT NULL THEN
+    RAISE EXCEPTION 'revoked';
+  END IF;
+
+  IF _code.expires_at IS NOT NULL AND _code.expires_at <= now() THEN
+    RAISE EXCEPTION 'expired';
+  END IF;
+
+  IF _code.max_uses IS NOT NULL AND _code.use_count >= _code.max_uses THEN
+    RAISE EXCEPTION 'already_used';
+  END IF;
+
+  IF p_expected_role IS NOT NULL AND _code.role <> p_expected_role THEN
+    RAISE EXCEPTION 'wrong_role';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM access_code_redemptions
+    WHERE access_code_id = _code.id AND user_id = _user_id
+  ) THEN
+    RAISE EXCEPTION 'already_on_team';
+  END IF;
+
+  SELECT * INTO _profile
+  FROM profiles
+  WHERE id = _user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'profile_not_found';
+  END IF;
+
+  -- Members of an organization cannot switch roles through a code
+  IF _profile.organization_id IS NOT NULL AND _profile.role IS DISTINCT FROM _code.role THEN
+    RAISE EXCEPTION 'wrong_role';
+  END IF;
+
+  _organization_id := COALESCE(
+    _code.organization_id,
+    (SELECT organization_id FROM profiles WHERE id = _code.created_by)
+  );
+
+  IF _code.role = 'athlete' AND _code.sport_id IS NOT NULL THEN
+    _coach_id := _code.created_by;
+  END IF;
+
+  IF _code.team_id IS NOT NULL THEN
+    IF EXISTS (
+      SELECT 1 FROM team_members
+      WHERE team_id = _code.team_id
+        AND user_id = _user_id
+    ) THEN
+      RAISE EXCEPTION 'already_on_team';
+    END IF;
+  ELSIF _coach_id IS NOT NULL THEN
+    IF EXISTS (
+      SELECT 1 FROM coach_athletes
+      WHERE coach_id = _coach_id
+        AND athlete_id = _user_id
+        AND sport_id = _code.sport_id
+        AND organization_id = _organization_id
+    ) THEN
+      RAISE EXCEPTION 'already_on_team';
+    END IF;
+  ELSIF _code.sport_id IS NOT NULL THEN
+    IF EXISTS (
+      SELECT 1 FROM user_sports
+      WHERE user_id = _user_id
+        AND sport_id = _code.sport_id
+        AND organization_id = _organization_id
+    ) THEN
+      RAISE EXCEPTION 'already_on_team';
+    END IF;
+  ELSIF _profile.organization_id = _organization_id THEN
+    RAISE EXCEPTION 'already_on_team';
+  END IF;
+
+  UPDATE access_codes
+  SET used_at = now(),
+      used_by = _user_id,
+      use_count = use_count + 1
+  WHERE id = _code.id;
+
+  INSERT INTO access_code_redemptions (access_code_id, user_id)
+  VALUES (_code.id, _user_id);
+
+  UPDATE profiles
+  SET role = _code.role,
+      organization_id = COALESCE(_organization_id, organization_id),
+      updated_at = now()
+  WHERE id = _user_id;
+
+  IF _code.sport_id IS NOT NULL THEN
+    INSERT INTO user_sports (user_id, sport_id, organization_id, gender)
+    VALUES (_user_id, _code.sport_id, _organization_id, _code.gender)
+    ON CONFLICT (user_id, sport_id, organization_id) DO NOTHING;
+  END IF;
+
+  IF _coach_id IS NOT NULL AND _organization_id IS NOT NULL THEN
+    INSERT INTO coach_athletes (coach_id, athlete_id, sport_id, organization_id)
+    VALUES (_coach_id, _user_id, _code.sport_id, _organization_id)
+    ON CONFLICT (coach_id, athlete_id, sport_id, organization_id) DO NOTHING;
+  END IF;
+
+  IF _code.team_id IS NOT NULL AND _code.role IN ('coach', 'athlete') THEN
+    INSERT INTO team_members (team_id, user_id, role)
+    VALUES (_code.team_id, _user_id, _code.role)
+    ON CONFLICT (team_id, user_id) DO NOTHING;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'code_id', _code.id,
+    'role', _code.role,
+    'organization_id', _organization_id,
+    'sport_id', _code.sport_id,
+    'team_id', _code.team_id,
+    'gender', _code.gender,
+    'coach_id', _coach_id
+  );
+END;
+$$;
+
+-- Describe a redeemable access code.
+-- Raises one of: not_found, revoked, expired, already_used
+CREATE OR REPLACE FUNCTION preview_access_code(p_code text)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _code access_codes%ROWTYPE;
+  _organization_id uuid;
+BEGIN
+  SELECT * INTO _code
+  FROM access_codes
+  WHERE code = upper(trim(p_code));
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'not_found';
+  END IF;
+
+  IF _code.revoked_at IS NOT NULL THEN
+    RAISE EXCEPTION 'revoked';
+  END IF;
+
+  IF _code.expires_at IS NOT NULL AND _code.expires_at <= now() THEN
+    RAISE EXCEPTION 'expired';
+  END IF;
+
+  IF _code.max_uses IS NOT NULL AND _code.use_count >= _code.max_uses THEN
+    RAISE EXCEPTION 'already_used';
+  END IF;
+
+  _organization_id := COALESCE(
+    _code.organization_id,
+    (SELECT organization_id FROM profiles WHERE id = _code.created_by)
+  );
+
+  RETURN jsonb_build_object(
+    'code', _code.code,
+    'role', _code.role,
+    'gender', _code.gender,
+    'expires_at', _code.expires_at,
+    'organization_name', (SELECT name FROM organizations WHERE id = _organization_id),
+    'sport_name', (SELECT name FROM sports WHERE id = _code.sport_id),
+    'team_name', (SELECT name FROM teams WHERE id = _code.team_id),
+    'coach_name', CASE
+      WHEN _code.role = 'athlete' THEN (SELECT full_name FROM profiles WHERE id = _code.created_by)
+    END
+  );
+END;
+$$;
+
+-- Roster details on an accepted invitation are applied to the team
+-- membership created when its code is redeemed
+CREATE OR REPLACE FUNCTION apply_invitation_roster_details()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _details jsonb;
+BEGIN
+  SELECT i.roster_details INTO _details
+  FROM invitations i
+  JOIN access_codes ac ON ac.id = i.access_code_id
+  JOIN access_code_redemptions r ON r.access_code_id = ac.id
+  WHERE i.status = 'accepted'
+    AND r.user_id = NEW.user_id
+    AND ac.team_id = NEW.team_id
+  ORDER BY i.accepted_at DESC
+  LIMIT 1;
+
+  IF _details IS NOT NULL THEN
+    NEW.grad_year := COALESCE(NEW.grad_year, (_details->>'grad_year')::integer);
+    NEW.position := COALESCE(NEW.position, _details->>'position');
+    NEW.jersey_number := COALESCE(NEW.jersey_number, _details->>'jersey_number');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_invitation_roster_details
+  BEFORE INSERT ON team_members
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_invitation_roster_details();
+
+-- Roster import now works on the caller's teams rather than sports
+DROP FUNCTION IF EXISTS match_roster_emails(text[]);
+
+CREATE OR REPLACE FUNCTION match_roster_emails(p_emails text[])
+RETURNS TABLE (
+  email text,
+  user_id uuid,
+  full_name text,
+  role text,
+  roster_team_ids uuid[]
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _organization_id uuid;
+BEGIN
+  SELECT p.organization_id INTO _organization_id
+  FROM profiles p
+  WHERE p.id = auth.uid()
+    AND p.role IN ('admin', 'coach');
+
+  IF _organization_id IS NULL THEN
+    RAISE EXCEPTION 'not_authorized';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    lower(p.email),
+    p.id,
+    p.full_name,
+    p.role,
+    COALESCE(
+      (
+        SELECT array_agg(tm.team_id)
+        FROM team_members tm
+        WHERE tm.user_id = p.id
+          AND tm.team_id IN (SELECT my_team_ids('coach'))
+      ),
+      '{}'
+    )
+  FROM profiles p
+  WHERE p.organization_id = _organization_id
+    AND lower(p.email) = ANY (
+      SELECT lower(trim(e)) FROM unnest(p_emails) AS e
+    );
+END;
+$$;
+
+-- Add existing athletes in the caller's organization to one of the caller's
+-- teams, or update their roster details if they are already on it. Each
+-- element of p_athletes is { user_id, team_id, grad_year, position,
+-- jersey_number }. Returns the number of memberships written.
+-- Raises one of: not_authorized, not_found
+CREATE OR REPLACE FUNCTION add_roster_athletes(p_athletes jsonb)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id uuid := auth.uid();
+  _organization_id uuid;
+  _entry jsonb;
+  _athlete_id uuid;
+  _team teams%ROWTYPE;
+  _written integer := 0;
+BEGIN
+  SELECT organization_id INTO _organization_id
+  FROM profiles
+  WHERE id = _user_id
+    AND role = 'coach';
+
+  IF _organization_id IS NULL THEN
+    RAISE EXCEPTION 'not_authorized';
+  END IF;
+
+  FOR _entry IN SELECT * FROM jsonb_array_elements(p_athletes)
+  LOOP
+    _athlete_id := (_entry->>'user_id')::uuid;
+
+    SELECT * INTO _team
+    FROM teams
+    WHERE id = (_entry->>'team_id')::uuid
+      AND id IN (SELECT my_team_ids('coach'));
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'not_authorized';
+    END IF;
+
+    IF NOT EXISTS (
+      SELECT 1 FROM profiles
+      WHERE id = _athlete_id
+        AND role = 'athlete'
+        AND organization_id = _organization_id
+    ) THEN
+      RAISE EXCEPTION 'not_found';
+    END IF;
+
+    INSERT INTO team_members (team_id, user_id, role, grad_year, position, jersey_number)
+    VALUES (
+      _team.id, _athlete_id, 'athlete',
+      (_entry->>'grad_year')::integer,
+      _entry->>'position',
+      _entry->>'jersey_number'
+    )
+    ON CONFLICT (team_id, user_id) DO UPDATE
+    SET grad_year = COALESCE(EXCLUDED.grad_year, team_members.grad_year),
+        position = COALESCE(EXCLUDED.position, team_members.position),
+        jersey_number = COALESCE(EXCLUDED.jersey_number, team_members.jersey_number);
+
+    INSERT INTO user_sports (user_id, sport_id, organization_id, gender)
+    VALUES (_athlete_id, _team.sport_id, _organization_id, NULLIF(_team.gender, 'coed'))
+    ON CONFLICT (user_id, sport_id, organization_id) DO NOTHING;
+
+    INSERT INTO coach_athletes (coach_id, athlete_id, sport_id, organization_id)
+    VALUES (_user_id, _athlete_id, _team.sport_id, _organization_id)
+    ON CONFLICT (coach_id, athlete_id, sport_id, organization_id) DO NOTHING;
+
+    _written := _written + 1;
+  END LOOP;
+
+  RETURN _written;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION my_team_ids(text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION my_team_ids(text) TO authenticated;
+REVOKE EXECUTE ON FUNCTION create_team(uuid, text, text, text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION create_team(uuid, text, text, text, text) TO authenticated;
+REVOKE EXECUTE ON FUNCTION match_roster_emails(text[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION match_roster_emails(text[]) TO authenticated;
+
+COMMENT ON TABLE teams IS 'Teams within an organization, by sport, gender, level and season';
+COMMENT ON TABLE team_members IS 'Coaches and athletes on each team, with roster details for athletes';
+COMMENT ON FUNCTION create_team(uuid, text, text, text, text) IS 'Creates a team; coaches join the teams they create';
+COMMENT ON FUNCTION match_roster_emails(text[]) IS 'Finds existing organization accounts for roster import emails';
@@ -0,0 +1,400 @@
+-- Seasons
+--
+-- Teams carried a free-text season, so last year's roster and this year's
+-- were indistinguishable. Seasons are now rows per organization and sport
+-- with start and end dates, every team belongs to one, and a program can be
+-- advanced into the next season with its returning athletes.
+
+CREATE TABLE IF NOT EXISTS seasons (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE NOT NULL,
+  sport_id uuid REFERENCES sports(id) NOT NULL,
+  name text NOT NULL,
+  start_date date NOT NULL,
+  end_date date NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (end_date > start_date),
+  UNIQUE(organization_id, sport_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_seasons_organization
+  ON seasons(organization_id, sport_id, start_date DESC);
+
+CREATE TRIGGER update_seasons_updated_at
+  BEFORE UPDATE ON seasons
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Default seasons follow the school year, July 1 to June 30
+CREATE OR REPLACE FUNCTION default_season_start(p_date date)
+RETURNS date
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT make_date(
+    extract(year FROM p_date)::integer - CASE WHEN extract(month FROM p_date) < 7 THEN 1 ELSE 0 END,
+    7,
+    1
+  );
+$$;
+
+-- e.g. "2024-25" for the season starting July 1, 2024
+CREATE OR REPLACE FUNCTION default_season_name(p_start date)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT to_char(p_start, 'YYYY') || '-' || to_char(p_start + interval '1 year', 'YY');
+$$;
+
+-- The season in progress for an organization's sport, creating the default
+-- school-year season when none covers today. Falls back to the latest season
+-- that has started.
+CREATE OR REPLACE FUNCTION ensure_current_season(p_organization_id uuid, p_sport_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _season_id uuid;
+  _start date := default_season_start(current_date);
+BEGIN
+  SELECT id INTO _season_id
+  FROM seasons
+  WHERE organization_id = p_organization_id
+    AND sport_id = p_sport_id
+    AND current_date BETWEEN start_date AND end_date
+  ORDER BY start_date DESC
+  LIMIT 1;
+
+  IF _season_id IS NOT NULL THEN
+    RETURN _season_id;
+  END IF;
+
+  INSERT INTO seasons (organization_id, sport_id, name, start_date, end_date)
+  VALUES (
+    p_organization_id,
+    p_sport_id,
+    default_season_name(_start),
+    _start,
+    (_start + interval '1 year' - interval '1 day')::date
+  )
+  ON CONFLICT (organization_id, sport_id, name) DO NOTHING
+  RETURNING id INTO _season_id;
+
+  IF _season_id IS NULL THEN
+    SELECT id INTO _season_id
+    FROM seasons
+    WHERE organization_id = p_organization_id
+      AND sport_id = p_sport_id
+      AND start_date <= current_date
+    ORDER BY start_date DESC
+    LIMIT 1;
+  END IF;
+
+  RETURN _season_id;
+END;
+$$;
+
+-- Backfill a season for every team: its free-text season if it had one,
+-- otherwise the school year it was created in
+INSERT INTO seasons (organization_id, sport_id, name, start_date, end_date)
+SELECT DISTINCT ON (t.organization_id, t.sport_id, COALESCE(t.season, default_season_name(default_season_start(t.created_at::date))))
+  t.organization_id,
+  t.sport_id,
+  COALESCE(t.season, default_season_name(default_season_start(t.created_at::date))),
+  default_season_start(t.created_at::date),
+  (default_season_start(t.created_at::date) + interval '1 year' - interval '1 day')::date
+FROM teams t
+ORDER BY t.organization_id, t.sport_id, COALESCE(t.season, default_season_name(default_season_start(t.created_at::date))), t.created_at
+ON CONFLICT (organization_id, sport_id, name) DO NOTHING;
+
+ALTER TABLE teams
+  ADD COLUMN season_id uuid REFERENCES seasons(id) ON DELETE CASCADE;
+
+UPDATE teams t
+SET season_id = s.id
+FROM seasons s
+WHERE s.organization_id = t.organization_id
+  AND s.sport_id = t.sport_id
+  AND s.name = COALESCE(t.season, default_season_name(default_season_start(t.created_at::date)));
+
+-- Dropping the text column also drops the unique constraint that used it
+ALTER TABLE teams DROP COLUMN season;
+
+ALTER TABLE teams
+  ALTER COLUMN season_id SET NOT NULL,
+  ADD CONSTRAINT teams_season_unique UNIQUE (organization_id, sport_id, gender, level, season_id);
+
+CREATE INDEX IF NOT EXISTS idx_teams_season ON teams(season_id);
+
+ALTER TABLE seasons ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their organization's seasons"
+  ON seasons FOR SELECT
+  TO authenticated
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM profiles WHERE id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins can manage their organization's seasons"
+  ON seasons FOR ALL
+  TO authenticated
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM profiles
+      WHERE id = auth.uid()
+        AND role = 'admin'
+    )
+  );
+
+-- Create a season for one of the caller's sports. Admins can create seasons
+-- for any sport; coaches only for sports they coach.
+-- Raises one of: not_authenticated, not_authorized, invalid_dates,
+-- season_exists
+CREATE OR REPLACE FUNCTION create_season(
+  p_sport_id uuid,
+  p_name text,
+  p_start_date date,
+  p_end_date date
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id uuid := auth.uid();
+  _profile profiles%ROWTYPE;
+  _season_id uuid;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated';
+  END IF;
+
+  SELECT * INTO _profile FROM profiles WHERE id = _user_id;
+
+  IF _profile.organization_id IS NULL
+    OR _profile.role NOT IN ('admin', 'coach')
+    OR (
+      _profile.role = 'coach' AND NOT EXISTS (
+        SELECT 1 FROM user_sports
+        WHERE user_id = _user_id
+          AND sport_id = p_sport_id
+      )
+    ) THEN
+    RAISE EXCEPTION 'not_authorized';
+  END IF;
+
+  IF p_start_date IS NULL OR p_end_date IS NULL OR p_end_date <= p_start_date THEN
+    RAISE EXCEPTION 'invalid_dates';
+  END IF;
+
+  INSERT INTO seasons (organization_id, sport_id, name, start_date, end_date)
+  VALUES (_profile.organization_id, p_sport_id, trim(p_name), p_start_date, p_end_date)
+  ON CONFLICT (organization_id, sport_id, name) DO NOTHING
+  RETURNING id INTO _season_id;
+
+  IF _season_id IS NULL THEN
+    RAISE EXCEPTION 'season_exists';
+  END IF;
+
+  RETURN _season_id;
+END;
+$$;
+
+-- Teams now take a season; without one they go in the current season
+DROP FUNCTION IF EXISTS create_team(uuid, text, text, text, text);
+
+-- Create a team. Admins can create any team in their organization; coaches
+-- only for sports they coach, and they join the new team as its coach.
+-- Raises one of: not_authenticated, not_authorized, not_found, team_exists
+CREATE OR REPLACE FUNCTION create_team(
+  p_sport_id uuid,
+  p_gender text,
+  p_level text,
+  p_season_id uuid DEFAULT NULL,
+  p_name text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id uuid := auth.uid();
+  _profile profiles%ROWTYPE;
+  _season_id uuid := p_season_id;
+  _team_id uuid;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated';
+  END IF;
+
+  SELECT * INTO _profile FROM profiles WHERE id = _user_id;
+
+  IF _profile.organization_id IS NULL
+    OR _profile.role NOT IN ('admin', 'coach')
+    OR (
+      _profile.role = 'coach' AND NOT EXISTS (
+        SELECT 1 FROM user_sports
+        WHERE user_id = _user_id
+          AND sport_id = p_sport_id
+      )
+    ) THEN
+    RAISE EXCEPTION 'not_authorized';
+  END IF;
+
+  IF _season_id IS NULL THEN
+    _season_id := ensure_current_season(_profile.organization_id, p_sport_id);
+  ELSIF NOT EXISTS (
+    SELECT 1 FROM seasons
+    WHERE id = _season_id
+      AND organization_id = _profile.organization_id
+      AND sport_id = p_sport_id
+  ) THEN
+    RAISE EXCEPTION 'not_found';
+  END IF;
+
+  INSERT INTO teams (organization_id, sport_id, gender, level, season_id, name)
+  VALUES (
+    _profile.organization_id,
+    p_sport_id,
+    p_gender,
+    p_level,
+    _season_id,
+    COALESCE(NULLIF(trim(p_name), ''), team_display_name(p_level, p_gender, p_sport_id))
+  )
+  ON CONFLICT DO NOTHING
+  RETURNING id INTO _team_id;
+
+  IF _team_id IS NULL THEN
+    RAISE EXCEPTION 'team_exists';
+  END IF;
+
+  IF _profile.role = 'coach' THEN
+    INSERT INTO team_members (team_id, user_id, role)
+    VALUES (_team_id, _user_id, 'coach');
+  END IF;
+
+  RETURN _team_id;
+END;
+$$;
+
+-- Copy teams from one season into a later season of the same sport, with
+-- their coaches and returning athletes. Athletes who graduate by the end of
+-- the earlier season are left behind. Admins advance every team; coaches
+-- only the teams they coach. Teams that already exist in the later season
+-- are reused. Returns { teams, athletes, graduated }.
+-- Raises one of: not_authenticated, not_authorized, not_found,
+-- invalid_season
+CREATE OR REPLACE FUNCTION advance_season(p_from_season_id uuid, p_to_season_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id uuid := auth.uid();
+  _profile profiles%ROWTYPE;
+  _from seasons%ROWTYPE;
+  _to seasons%ROWTYPE;
+  _team teams%ROWTYPE;
+  _new_team_id uuid;
+  _teams integer := 0;
+  _athletes integer := 0;
+  _graduated integer := 0;
+  _count integer;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated';
+  END IF;
+
+  SELECT * INTO _profile FROM profiles WHERE id = _user_id;
+
+  IF _profile.organization_id IS NULL OR _profile.role NOT IN ('admin', 'coach') THEN
+    RAISE EXCEPTION 'not_authorized';
+  END IF;
+
+  SELECT * INTO _from FROM seasons
+  WHERE id = p_from_season_id AND organization_id = _profile.organization_id;
+  SELECT * INTO _to FROM seasons
+  WHERE id = p_to_season_id AND organization_id = _profile.organization_id;
+
+  IF _from.id IS NULL OR _to.id IS NULL THEN
+    RAISE EXCEPTION 'not_found';
+  END IF;
+
+  IF _from.sport_id <> _to.sport_id OR _to.start_date <= _from.start_date THEN
+    RAISE EXCEPTION 'invalid_season';
+  END IF;
+
+  FOR _team IN
+    SELECT * FROM teams
+    WHERE season_id = _from.id
+      AND (_profile.role = 'admin' OR id IN (SELECT my_team_ids('coach')))
+  LOOP
+    INSERT INTO teams (organization_id, sport_id, gender, level, season_id, name)
+    VALUES (_team.organization_id, _team.sport_id, _team.gender, _team.level, _to.id, _team.name)
+    ON CONFLICT DO NOTHING
+    RETURNING id INTO _new_team_id;
+
+    IF _new_team_id IS NULL THEN
+      SELECT id INTO _new_team_id FROM teams
+      WHERE organization_id = _team.organization_id
+        AND sport_id = _team.sport_id
+        AND gender = _team.gender
+        AND level = _team.level
+        AND season_id = _to.id;
+    END IF;
+
+    INSERT INTO team_members (team_id, user_id, role)
+    SELECT _new_team_id, user_id, 'coach'
+    FROM team_members
+    WHERE team_id = _team.id AND role = 'coach'
+    ON CONFLICT (team_id, user_id) DO NOTHING;
+
+    INSERT INTO team_members (team_id, user_id, role, grad_year, position, jersey_number)
+    SELECT _new_team_id, user_id, 'athlete', grad_year, position, jersey_number
+    FROM team_members
+    WHERE team_id = _team.id
+      AND role = 'athlete'
+      AND (grad_year IS NULL OR grad_year > extract(year FROM _from.end_date))
+    ON CONFLICT (team_id, user_id) DO NOTHING;
+    GET DIAGNOSTICS _count = ROW_COUNT;
+    _athletes := _athletes + _count;
+
+    SELECT count(*) INTO _count
+    FROM team_members
+    WHERE team_id = _team.id
+      AND role = 'athlete'
+      AND grad_year <= extract(year FROM _from.end_date);
+    _graduated := _graduated + _count;
+
+    _teams := _teams + 1;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'teams', _teams,
+    'athletes', _athletes,
+    'graduated', _graduated
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION ensure_current_season(uuid, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION create_season(uuid, text, date, date) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION create_season(uuid, text, date, date) TO authenticated;
+REVOKE EXECUTE ON FUNCTION create_team(uuid, text, text, uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION create_team(uuid, text, text, uuid, text) TO authenticated;
+REVOKE EXECUTE ON FUNCTION advance_season(uuid, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION advance_season(uuid, uuid) TO authenticated;
+
+COMMENT ON TABLE seasons IS 'Seasons of each sport within an organization; teams belong to a season';
+COMMENT ON FUNCTION create_season(uuid, text, date, date) IS 'Creates a season for a sport in the caller''s organization';
+COMMENT ON FUNCTION create_team(uuid, text, text, uuid, text) IS 'Creates a team; coaches join the teams they create';
+COMMENT ON FUNCTION advance_season(uuid, uuid) IS 'Carries teams, coaches and returning athletes into a later season';
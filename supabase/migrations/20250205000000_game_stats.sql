@@ -0,0 +1,118 @@
+-- Games and game stats
+--
+-- Coaches record each game a team plays and a box score for it: one row per
+-- athlete and stat. Stat keys come from the sport's stat registry in the
+-- app, which also decides how game values roll up into season lines, so the
+-- database only stores the raw values that were entered.
+
+-- Teams the caller can manage: the teams they coach, and for admins every
+-- team in their organization
+CREATE OR REPLACE FUNCTION my_managed_team_ids()
+RETURNS SETOF uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT team_id FROM team_members
+  WHERE user_id = auth.uid()
+    AND role = 'coach'
+  UNION
+  SELECT t.id FROM teams t
+  JOIN profiles p ON p.organization_id = t.organization_id
+  WHERE p.id = auth.uid()
+    AND p.role = 'admin';
+$$;
+
+CREATE TABLE IF NOT EXISTS games (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id uuid REFERENCES teams(id) ON DELETE CASCADE NOT NULL,
+  opponent text NOT NULL CHECK (length(trim(opponent)) > 0),
+  played_on date NOT NULL,
+  home_away text CHECK (home_away IN ('home', 'away', 'neutral')),
+  team_score integer CHECK (team_score >= 0),
+  opponent_score integer CHECK (opponent_score >= 0),
+  notes text,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS game_stats (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  game_id uuid REFERENCES games(id) ON DELETE CASCADE NOT NULL,
+  athlete_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  stat_key text NOT NULL CHECK (stat_key ~ '^[a-z0-9_]+$'),
+  value numeric NOT NULL,
+  updated_by uuid REFERENCES profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE(game_id, athlete_id, stat_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_games_team ON games(team_id, played_on);
+CREATE INDEX IF NOT EXISTS idx_game_stats_athlete ON game_stats(athlete_id);
+
+CREATE TRIGGER update_games_updated_at
+  BEFORE UPDATE ON games
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_game_stats_updated_at
+  BEFORE UPDATE ON game_stats
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE games ENABLE ROW LEVEL SECURITY;
+ALTER TABLE game_stats ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their teams' games"
+  ON games FOR SELECT
+  TO authenticated
+  USING (
+    team_id IN (SELECT my_team_ids())
+    OR team_id IN (SELECT my_managed_team_ids())
+  );
+
+CREATE POLICY "Coaches and admins can manage games"
+  ON games FOR ALL
+  TO authenticated
+  USING (team_id IN (SELECT my_managed_team_ids()))
+  WITH CHECK (team_id IN (SELECT my_managed_team_ids()));
+
+CREATE POLICY "Members can view their teams' game stats"
+  ON game_stats FOR SELECT
+  TO authenticated
+  USING (
+    game_id IN (
+      SELECT id FROM games
+      WHERE team_id IN (SELECT my_team_ids())
+        OR team_id IN (SELECT my_managed_team_ids())
+    )
+  );
+
+-- Stats can only be recorded for athletes on the game's team
+CREATE POLICY "Coaches and admins can manage game stats"
+  ON game_stats FOR ALL
+  TO authenticated
+  USING (
+    game_id IN (
+      SELECT id FROM games WHERE team_id IN (SELECT my_managed_team_ids())
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM games g
+      JOIN team_members tm ON tm.team_id = g.team_id
+      WHERE g.id = game_id
+        AND g.team_id IN (SELECT my_managed_team_ids())
+        AND tm.user_id = athlete_id
+        AND tm.role = 'athlete'
+    )
+  );
+
+REVOKE EXECUTE ON FUNCTION my_managed_team_ids() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION my_managed_team_ids() TO authenticated;
+
+COMMENT ON TABLE games IS 'Games played by a team, with the final score';
+COMMENT ON TABLE game_stats IS 'Box score values per game, athlete and stat key';
+COMMENT ON FUNCTION my_managed_team_ids() IS 'Teams the caller coaches, or every organization team for admins';
@@ -0,0 +1,268 @@
+-- Team schedule
+--
+-- Events are the games, practices and meets on a team's calendar. Practices
+-- usually follow a weekly pattern, so a practice schedule (weekdays, times
+-- and a date range) expands into one event per session; the events stay
+-- editable on their own and remember the schedule that created them.
+--
+-- Calendar feeds give a secret URL per team or per athlete that calendar
+-- apps can subscribe to. The calendar-feed edge function serves them as
+-- iCalendar data.
+
+CREATE TABLE IF NOT EXISTS practice_schedules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id uuid REFERENCES teams(id) ON DELETE CASCADE NOT NULL,
+  event_type text NOT NULL DEFAULT 'practice' CHECK (event_type ~ '^[a-z_]+$'),
+  -- Days of the week, 0 = Sunday
+  weekdays smallint[] NOT NULL
+    CHECK (cardinality(weekdays) > 0 AND weekdays <@ ARRAY[0, 1, 2, 3, 4, 5, 6]::smallint[]),
+  start_time time NOT NULL,
+  end_time time NOT NULL CHECK (end_time > start_time),
+  starts_on date NOT NULL,
+  ends_on date NOT NULL CHECK (ends_on >= starts_on AND ends_on <= starts_on + 366),
+  -- Times are wall-clock times in this zone, so sessions keep their time
+  -- across daylight saving changes
+  timezone text NOT NULL DEFAULT 'UTC',
+  location text,
+  notes text,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id uuid REFERENCES teams(id) ON DELETE CASCADE NOT NULL,
+  -- One of the sport's event types, e.g. game, practice or meet
+  type text NOT NULL CHECK (type ~ '^[a-z_]+$'),
+  opponent text,
+  location text,
+  starts_at timestamptz NOT NULL,
+  ends_at timestamptz NOT NULL CHECK (ends_at > starts_at),
+  home_away text CHECK (home_away IN ('home', 'away', 'neutral')),
+  notes text,
+  schedule_id uuid REFERENCES practice_schedules(id) ON DELETE SET NULL,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS calendar_feeds (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  token uuid NOT NULL DEFAULT gen_random_uuid() UNIQUE,
+  -- A team feed, or an athlete's feed covering all of their teams
+  team_id uuid REFERENCES teams(id) ON DELETE CASCADE,
+  athlete_id uuid REFERENCES profiles(id) ON DELETE CASCADE,
+  created_by uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  CHECK ((team_id IS NULL) <> (athlete_id IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_events_team ON events(team_id, starts_at);
+CREATE INDEX IF NOT EXISTS idx_events_schedule ON events(schedule_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_calendar_feeds_team ON calendar_feeds(team_id) WHERE team_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_calendar_feeds_athlete ON calendar_feeds(athlete_id) WHERE athlete_id IS NOT NULL;
+
+CREATE TRIGGER update_events_updated_at
+  BEFORE UPDATE ON events
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE practice_schedules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE events ENABLE ROW LEVEL SECURITY;
+-- Feeds are only reached through calendar_feed_token and the edge function
+ALTER TABLE calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their teams' events"
+  ON events FOR SELECT
+  TO authenticated
+  USING (
+    team_id IN (SELECT my_team_ids())
+    OR team_id IN (SELECT my_managed_team_ids())
+  );
+
+CREATE POLICY "Coaches and admins can manage events"
+  ON events FOR ALL
+  TO authenticated
+  USING (team_id IN (SELECT my_managed_team_ids()))
+  WITH CHECK (team_id IN (SELECT my_managed_team_ids()));
+
+CREATE POLICY "Members can view their teams' practice schedules"
+  ON practice_schedules FOR SELECT
+  TO authenticated
+  USING (
+    team_id IN (SELECT my_team_ids())
+    OR team_id IN (SELECT my_managed_team_ids())
+  );
+
+CREATE POLICY "Coaches and admins can manage practice schedules"
+  ON practice_schedules FOR ALL
+  TO authenticated
+  USING (team_id IN (SELECT my_managed_team_ids()))
+  WITH CHECK (team_id IN (SELECT my_managed_team_ids()));
+
+-- Create a weekly practice schedule and one event per session in it.
+-- Returns the schedule id and the number of events created.
+CREATE OR REPLACE FUNCTION create_practice_schedule(
+  p_team_id uuid,
+  p_weekdays smallint[],
+  p_start_time time,
+  p_end_time time,
+  p_starts_on date,
+  p_ends_on date,
+  p_timezone text,
+  p_location text DEFAULT NULL,
+  p_notes text DEFAULT NULL,
+  p_event_type text DEFAULT 'practice'
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _schedule_id uuid;
+  _events integer;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated';
+  END IF;
+
+  IF p_team_id NOT IN (SELECT my_managed_team_ids()) THEN
+    RAISE EXCEPTION 'not_authorized';
+  END IF;
+
+  IF p_end_time <= p_start_time
+    OR p_ends_on < p_starts_on
+    OR p_ends_on > p_starts_on + 366
+    OR cardinality(p_weekdays) = 0
+    OR NOT (p_weekdays <@ ARRAY[0, 1, 2, 3, 4, 5, 6]::smallint[]) THEN
+    RAISE EXCEPTION 'invalid_schedule';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = p_timezone) THEN
+    RAISE EXCEPTION 'invalid_timezone';
+  END IF;
+
+  INSERT INTO practice_schedules (
+    team_id, event_type, weekdays, start_time, end_time,
+    starts_on, ends_on, timezone, location, notes
+  )
+  VALUES (
+    p_team_id, p_event_type, p_weekdays, p_start_time, p_end_time,
+    p_starts_on, p_ends_on, p_timezone, NULLIF(trim(p_location), ''), NULLIF(trim(p_notes), '')
+  )
+  RETURNING id INTO _schedule_id;
+
+  INSERT INTO events (team_id, type, location, starts_at, ends_at, notes, schedule_id)
+  SELECT
+    p_team_id,
+    p_event_type,
+    NULLIF(trim(p_location), ''),
+    (day::date + p_start_time) AT TIME ZONE p_timezone,
+    (day::date + p_end_time) AT TIME ZONE p_timezone,
+    NULLIF(trim(p_notes), ''),
+    _schedule_id
+  FROM generate_series(p_starts_on, p_ends_on, interval '1 day') AS day
+  WHERE extract(dow FROM day)::smallint = ANY(p_weekdays);
+
+  GET DIAGNOSTICS _events = ROW_COUNT;
+
+  RETURN jsonb_build_object('schedule_id', _schedule_id, 'events', _events);
+END;
+$$;
+
+-- Remove a practice schedule and its sessions that have not started yet;
+-- past sessions stay on the calendar
+CREATE OR REPLACE FUNCTION delete_practice_schedule(p_schedule_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _team_id uuid;
+  _deleted integer;
+BEGIN
+  SELECT team_id INTO _team_id FROM practice_schedules WHERE id = p_schedule_id;
+
+  IF _team_id IS NULL THEN
+    RAISE EXCEPTION 'not_found';
+  END IF;
+
+  IF _team_id NOT IN (SELECT my_managed_team_ids()) THEN
+    RAISE EXCEPTION 'not_authorized';
+  END IF;
+
+  DELETE FROM events
+  WHERE schedule_id = p_schedule_id
+    AND starts_at > now();
+
+  GET DIAGNOSTICS _deleted = ROW_COUNT;
+
+  DELETE FROM practice_schedules WHERE id = p_schedule_id;
+
+  RETURN _deleted;
+END;
+$$;
+
+-- The caller's feed token for a team they belong to or manage, or with no
+-- team their own athlete feed. Created on first use; p_reset replaces the
+-- token so old subscription links stop working.
+CREATE OR REPLACE FUNCTION calendar_feed_token(p_team_id uuid DEFAULT NULL, p_reset boolean DEFAULT false)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id uuid := auth.uid();
+  _token uuid;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated';
+  END IF;
+
+  IF p_team_id IS NOT NULL
+    AND p_team_id NOT IN (SELECT my_team_ids())
+    AND p_team_id NOT IN (SELECT my_managed_team_ids()) THEN
+    RAISE EXCEPTION 'not_authorized';
+  END IF;
+
+  IF p_reset THEN
+    IF p_team_id IS NOT NULL AND p_team_id NOT IN (SELECT my_managed_team_ids()) THEN
+      RAISE EXCEPTION 'not_authorized';
+    END IF;
+
+    DELETE FROM calendar_feeds
+    WHERE (p_team_id IS NOT NULL AND team_id = p_team_id)
+      OR (p_team_id IS NULL AND athlete_id = _user_id);
+  END IF;
+
+  SELECT token INTO _token
+  FROM calendar_feeds
+  WHERE (p_team_id IS NOT NULL AND team_id = p_team_id)
+    OR (p_team_id IS NULL AND athlete_id = _user_id);
+
+  IF _token IS NULL THEN
+    INSERT INTO calendar_feeds (team_id, athlete_id, created_by)
+    VALUES (p_team_id, CASE WHEN p_team_id IS NULL THEN _user_id END, _user_id)
+    RETURNING token INTO _token;
+  END IF;
+
+  RETURN _token;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION create_practice_schedule(uuid, smallint[], time, time, date, date, text, text, text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION create_practice_schedule(uuid, smallint[], time, time, date, date, text, text, text, text) TO authenticated;
+REVOKE EXECUTE ON FUNCTION delete_practice_schedule(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION delete_practice_schedule(uuid) TO authenticated;
+REVOKE EXECUTE ON FUNCTION calendar_feed_token(uuid, boolean) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION calendar_feed_token(uuid, boolean) TO authenticated;
+
+COMMENT ON TABLE events IS 'Games, practices and other events on a team calendar';
+COMMENT ON TABLE practice_schedules IS 'Weekly recurring practice rules that generated events';
+COMMENT ON TABLE calendar_feeds IS 'Secret tokens for team and athlete iCalendar subscription feeds';
+COMMENT ON FUNCTION create_practice_schedule(uuid, smallint[], time, time, date, date, text, text, text, text) IS 'Creates a weekly practice schedule and its events';
+COMMENT ON FUNCTION delete_practice_schedule(uuid) IS 'Deletes a practice schedule and its upcoming events';
+COMMENT ON FUNCTION calendar_feed_token(uuid, boolean) IS 'Returns (or resets) the calendar feed token for a team or the caller';
@@ -0,0 +1,60 @@
+-- Attendance
+--
+-- One row per athlete per event once a coach has marked them. Athletes
+-- without a row have not been marked yet, which is different from an
+-- unexcused absence.
+
+CREATE TABLE IF NOT EXISTS attendance (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid REFERENCES events(id) ON DELETE CASCADE NOT NULL,
+  athlete_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  status text NOT NULL CHECK (status IN ('present', 'late', 'excused', 'unexcused', 'injured')),
+  recorded_by uuid REFERENCES profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (event_id, athlete_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_attendance_athlete ON attendance(athlete_id);
+
+CREATE TRIGGER update_attendance_updated_at
+  BEFORE UPDATE ON attendance
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE attendance ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Athletes can view their own attendance"
+  ON attendance FOR SELECT
+  TO authenticated
+  USING (athlete_id = auth.uid());
+
+CREATE POLICY "Coaches and admins can view attendance"
+  ON attendance FOR SELECT
+  TO authenticated
+  USING (
+    event_id IN (
+      SELECT id FROM events WHERE team_id IN (SELECT my_managed_team_ids())
+    )
+  );
+
+CREATE POLICY "Coaches and admins can record attendance"
+  ON attendance FOR ALL
+  TO authenticated
+  USING (
+    event_id IN (
+      SELECT id FROM events WHERE team_id IN (SELECT my_managed_team_ids())
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1
+      FROM events e
+      JOIN team_members tm ON tm.team_id = e.team_id
+      WHERE e.id = attendance.event_id
+        AND e.team_id IN (SELECT my_managed_team_ids())
+        AND tm.user_id = attendance.athlete_id
+        AND tm.role = 'athlete'
+    )
+  );
+
+COMMENT ON TABLE attendance IS 'Attendance status of each athlete at team events';
@@ -0,0 +1,125 @@
+-- Event RSVPs
+--
+-- Athletes answer going, not going or maybe for each event, optionally with
+-- a reason, so coaches know who to expect. Each team sets how many hours
+-- before an event athletes who have not answered get a reminder email; the
+-- send-rsvp-reminders edge function sends them and records each one in
+-- rsvp_reminders so nobody is reminded twice for the same event.
+
+ALTER TABLE teams
+  ADD COLUMN IF NOT EXISTS rsvp_reminder_hours integer DEFAULT 24
+    CHECK (rsvp_reminder_hours BETWEEN 1 AND 168);
+
+COMMENT ON COLUMN teams.rsvp_reminder_hours IS 'Hours before an event to remind athletes who have not responded; null turns reminders off';
+
+CREATE TABLE IF NOT EXISTS event_rsvps (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid REFERENCES events(id) ON DELETE CASCADE NOT NULL,
+  athlete_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL DEFAULT auth.uid(),
+  response text NOT NULL CHECK (response IN ('going', 'not_going', 'maybe')),
+  reason text CHECK (char_length(reason) <= 500),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (event_id, athlete_id)
+);
+
+CREATE TABLE IF NOT EXISTS rsvp_reminders (
+  event_id uuid REFERENCES events(id) ON DELETE CASCADE NOT NULL,
+  athlete_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  sent_at timestamptz DEFAULT now(),
+  PRIMARY KEY (event_id, athlete_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_rsvps_athlete ON event_rsvps(athlete_id);
+
+CREATE TRIGGER update_event_rsvps_updated_at
+  BEFORE UPDATE ON event_rsvps
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE event_rsvps ENABLE ROW LEVEL SECURITY;
+-- Only the reminder function reads and writes reminders, with the service role
+ALTER TABLE rsvp_reminders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Athletes can view their own RSVPs"
+  ON event_rsvps FOR SELECT
+  TO authenticated
+  USING (athlete_id = auth.uid());
+
+CREATE POLICY "Coaches and admins can view RSVPs"
+  ON event_rsvps FOR SELECT
+  TO authenticated
+  USING (
+    event_id IN (
+      SELECT id FROM events WHERE team_id IN (SELECT my_managed_team_ids())
+    )
+  );
+
+-- Athletes answer for events of teams they play on, until the event starts
+CREATE POLICY "Athletes can respond to their teams' events"
+  ON event_rsvps FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    athlete_id = auth.uid()
+    AND event_id IN (
+      SELECT id FROM events
+      WHERE team_id IN (SELECT my_team_ids('athlete'))
+        AND starts_at > now()
+    )
+  );
+
+CREATE POLICY "Athletes can change their responses"
+  ON event_rsvps FOR UPDATE
+  TO authenticated
+  USING (athlete_id = auth.uid())
+  WITH CHECK (
+    athlete_id = auth.uid()
+    AND event_id IN (
+      SELECT id FROM events
+      WHERE team_id IN (SELECT my_team_ids('athlete'))
+        AND starts_at > now()
+    )
+  );
+
+-- Athletes on the team who have neither answered nor been reminded for
+-- events starting within the team's reminder window
+CREATE OR REPLACE FUNCTION rsvp_reminders_due()
+RETURNS TABLE (
+  event_id uuid,
+  athlete_id uuid,
+  email text,
+  full_name text,
+  team_name text,
+  event_type text,
+  opponent text,
+  location text,
+  starts_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT e.id, p.id, p.email, p.full_name, t.name, e.type, e.opponent, e.location, e.starts_at
+  FROM events e
+  JOIN teams t ON t.id = e.team_id
+  JOIN team_members tm ON tm.team_id = e.team_id AND tm.role = 'athlete'
+  JOIN profiles p ON p.id = tm.user_id
+  WHERE t.rsvp_reminder_hours IS NOT NULL
+    AND e.starts_at > now()
+    AND e.starts_at <= now() + make_interval(hours => t.rsvp_reminder_hours)
+    AND p.email IS NOT NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM event_rsvps r WHERE r.event_id = e.id AND r.athlete_id = p.id
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM rsvp_reminders rr WHERE rr.event_id = e.id AND rr.athlete_id = p.id
+    )
+  ORDER BY e.starts_at;
+$$;
+
+REVOKE EXECUTE ON FUNCTION rsvp_reminders_due() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION rsvp_reminders_due() TO service_role;
+
+COMMENT ON TABLE event_rsvps IS 'Athlete responses to team events';
+COMMENT ON TABLE rsvp_reminders IS 'RSVP reminder emails already sent';
+COMMENT ON FUNCTION rsvp_reminders_due() IS 'Athletes who should get an RSVP reminder now';
@@ -0,0 +1,117 @@
+-- Performance testing
+--
+-- Coaches hold testing days (a combine, preseason testing) and record each
+-- athlete's mark for the tests run that day. Test keys and units come from
+-- the test library in the app, which also knows whether lower marks are
+-- better, so the database only stores the raw marks.
+
+CREATE TABLE IF NOT EXISTS test_sessions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id uuid REFERENCES teams(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  tested_on date NOT NULL,
+  -- The tests run that day, in the order they are entered
+  test_keys text[] NOT NULL CHECK (cardinality(test_keys) > 0),
+  notes text,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS test_results (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id uuid REFERENCES test_sessions(id) ON DELETE CASCADE NOT NULL,
+  athlete_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  test_key text NOT NULL CHECK (test_key ~ '^[a-z0-9_]+$'),
+  value numeric NOT NULL CHECK (value >= 0),
+  updated_by uuid REFERENCES profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE(session_id, athlete_id, test_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_test_sessions_team ON test_sessions(team_id, tested_on);
+CREATE INDEX IF NOT EXISTS idx_test_results_athlete ON test_results(athlete_id, test_key);
+
+CREATE TRIGGER update_test_sessions_updated_at
+  BEFORE UPDATE ON test_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_test_results_updated_at
+  BEFORE UPDATE ON test_results
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE test_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE test_results ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their teams' testing days"
+  ON test_sessions FOR SELECT
+  TO authenticated
+  USING (
+    team_id IN (SELECT my_team_ids())
+    OR team_id IN (SELECT my_managed_team_ids())
+  );
+
+CREATE POLICY "Coaches and admins can manage testing days"
+  ON test_sessions FOR ALL
+  TO authenticated
+  USING (team_id IN (SELECT my_managed_team_ids()))
+  WITH CHECK (team_id IN (SELECT my_managed_team_ids()));
+
+CREATE POLICY "Members can view their teams' test results"
+  ON test_results FOR SELECT
+  TO authenticated
+  USING (
+    session_id IN (
+      SELECT id FROM test_sessions
+      WHERE team_id IN (SELECT my_team_ids())
+        OR team_id IN (SELECT my_managed_team_ids())
+    )
+  );
+
+-- Results can only be recorded for athletes on the session's team
+CREATE POLICY "Coaches and admins can manage test results"
+  ON test_results FOR ALL
+  TO authenticated
+  USING (
+    session_id IN (
+      SELECT id FROM test_sessions WHERE team_id IN (SELECT my_managed_team_ids())
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM test_sessions s
+      JOIN team_members tm ON tm.team_id = s.team_id
+      WHERE s.id = session_id
+        AND s.team_id IN (SELECT my_managed_team_ids())
+        AND tm.user_id = athlete_id
+        AND tm.role = 'athlete'
+    )
+  );
+
+-- Each athlete's best mark for a test across every team in the caller's
+-- organization, for percentile comparisons. Only the marks are returned so
+-- results from other teams stay anonymous.
+CREATE OR REPLACE FUNCTION organization_test_marks(p_test_key text, p_lower_is_better boolean DEFAULT false)
+RETURNS SETOF numeric
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE WHEN p_lower_is_better THEN min(r.value) ELSE max(r.value) END
+  FROM test_results r
+  JOIN test_sessions s ON s.id = r.session_id
+  JOIN teams t ON t.id = s.team_id
+  WHERE r.test_key = p_test_key
+    AND t.organization_id = (SELECT organization_id FROM profiles WHERE id = auth.uid())
+  GROUP BY r.athlete_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION organization_test_marks(text, boolean) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION organization_test_marks(text, boolean) TO authenticated;
+
+COMMENT ON TABLE test_sessions IS 'Testing days held by a team and the tests run';
+COMMENT ON TABLE test_results IS 'Test marks per testing day, athlete and test key';
+COMMENT ON FUNCTION organization_test_marks(text, boolean) IS 'Best mark per athlete for a test across the caller''s organization';
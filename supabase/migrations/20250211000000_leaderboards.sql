@@ -0,0 +1,87 @@
+-- Leaderboards
+--
+-- Each athlete's best mark for one stat or test, across a team or every
+-- team of a sport in the caller's organization. Game stats and test
+-- results are only visible to a team's own members, so the leaderboard is
+-- a SECURITY DEFINER function that exposes the best mark and the athlete's
+-- name, team, grad year and position, and nothing else. Whether higher or
+-- lower is better comes from the app's stat and test definitions.
+
+CREATE OR REPLACE FUNCTION leaderboard(
+  p_sport_id uuid,
+  p_source text,
+  p_key text,
+  p_lower_is_better boolean DEFAULT false,
+  p_team_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  athlete_id uuid,
+  full_name text,
+  team_id uuid,
+  team_name text,
+  gender text,
+  grad_year integer,
+  "position" text,
+  value numeric,
+  achieved_on date
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_organization_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated';
+  END IF;
+
+  IF p_source NOT IN ('stat', 'test') THEN
+    RAISE EXCEPTION 'invalid_source';
+  END IF;
+
+  SELECT organization_id INTO v_organization_id FROM profiles WHERE id = auth.uid();
+
+  RETURN QUERY
+  WITH marks AS (
+    SELECT gs.athlete_id, g.team_id, gs.value, g.played_on AS achieved_on
+    FROM game_stats gs
+    JOIN games g ON g.id = gs.game_id
+    WHERE p_source = 'stat' AND gs.stat_key = p_key
+    UNION ALL
+    SELECT r.athlete_id, s.team_id, r.value, s.tested_on
+    FROM test_results r
+    JOIN test_sessions s ON s.id = r.session_id
+    WHERE p_source = 'test' AND r.test_key = p_key
+  ),
+  best AS (
+    -- One row per athlete: their best mark, earliest first on ties
+    SELECT DISTINCT ON (m.athlete_id)
+      m.athlete_id, m.team_id, t.name AS team_name, t.gender, m.value, m.achieved_on
+    FROM marks m
+    JOIN teams t ON t.id = m.team_id
+    WHERE t.organization_id = v_organization_id
+      AND t.sport_id = p_sport_id
+      AND (p_team_id IS NULL OR t.id = p_team_id)
+    ORDER BY
+      m.athlete_id,
+      CASE WHEN p_lower_is_better THEN m.value END ASC,
+      CASE WHEN NOT p_lower_is_better THEN m.value END DESC,
+      m.achieved_on
+  )
+  SELECT b.athlete_id, p.full_name, b.team_id, b.team_name, b.gender, tm.grad_year, tm.position, b.value, b.achieved_on
+  FROM best b
+  JOIN profiles p ON p.id = b.athlete_id
+  LEFT JOIN team_members tm ON tm.team_id = b.team_id AND tm.user_id = b.athlete_id
+  ORDER BY
+    CASE WHEN p_lower_is_better THEN b.value END ASC,
+    CASE WHEN NOT p_lower_is_better THEN b.value END DESC,
+    b.achieved_on;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION leaderboard(uuid, text, text, boolean, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION leaderboard(uuid, text, text, boolean, uuid) TO authenticated;
+
+COMMENT ON FUNCTION leaderboard(uuid, text, text, boolean, uuid) IS 'Best mark per athlete for a stat or test across a team or the caller''s organization';
@@ -0,0 +1,77 @@
+-- Goals
+--
+-- A goal is a target mark in one stat or test by a due date, e.g. a mile
+-- under 5:00 by March. Athletes set goals for themselves on the teams they
+-- play on; coaches set goals for one athlete or, with no athlete, for
+-- everyone on the team. Progress is computed in the app from recorded game
+-- stats and test results, so only the target is stored.
+
+CREATE TABLE IF NOT EXISTS goals (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- The team whose sport the stat belongs to
+  team_id uuid REFERENCES teams(id) ON DELETE CASCADE NOT NULL,
+  -- Null for a goal set for every athlete on the team
+  athlete_id uuid REFERENCES profiles(id) ON DELETE CASCADE,
+  source text NOT NULL CHECK (source IN ('stat', 'test')),
+  metric_key text NOT NULL CHECK (metric_key ~ '^[a-z0-9_]+$'),
+  target numeric NOT NULL,
+  due_on date NOT NULL,
+  title text,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_goals_team ON goals(team_id, due_on);
+CREATE INDEX IF NOT EXISTS idx_goals_athlete ON goals(athlete_id, due_on);
+
+CREATE TRIGGER update_goals_updated_at
+  BEFORE UPDATE ON goals
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE goals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Athletes can view their goals"
+  ON goals FOR SELECT
+  TO authenticated
+  USING (
+    athlete_id = auth.uid()
+    OR (athlete_id IS NULL AND team_id IN (SELECT my_team_ids()))
+  );
+
+CREATE POLICY "Coaches and admins can view their teams' goals"
+  ON goals FOR SELECT
+  TO authenticated
+  USING (team_id IN (SELECT my_managed_team_ids()));
+
+-- Athletes manage the goals they set themselves, not ones a coach assigned
+CREATE POLICY "Athletes can manage their own goals"
+  ON goals FOR ALL
+  TO authenticated
+  USING (athlete_id = auth.uid() AND created_by = auth.uid())
+  WITH CHECK (
+    athlete_id = auth.uid()
+    AND created_by = auth.uid()
+    AND team_id IN (SELECT my_team_ids('athlete'))
+  );
+
+-- Individual goals can only be set for athletes on the team
+CREATE POLICY "Coaches and admins can manage goals"
+  ON goals FOR ALL
+  TO authenticated
+  USING (team_id IN (SELECT my_managed_team_ids()))
+  WITH CHECK (
+    team_id IN (SELECT my_managed_team_ids())
+    AND (
+      athlete_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM team_members tm
+        WHERE tm.team_id = goals.team_id
+          AND tm.user_id = goals.athlete_id
+          AND tm.role = 'athlete'
+      )
+    )
+  );
+
+COMMENT ON TABLE goals IS 'Target marks in a stat or test by a due date, for an athlete or a whole team';
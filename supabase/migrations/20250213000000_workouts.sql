@@ -0,0 +1,150 @@
+-- Workouts
+--
+-- Athletes log the workouts they do: a name, date, duration and session
+-- RPE (rating of perceived exertion, 1-10), with the sets performed.
+-- Coaches keep reusable workout templates per team and assign them to the
+-- team for a date; a logged workout that points at an assignment completes
+-- it. Training load is duration times RPE, summed per week in the app.
+
+CREATE TABLE IF NOT EXISTS workout_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id uuid REFERENCES teams(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  description text,
+  -- Prescribed exercises in order: exercise, sets, reps, load, duration_seconds
+  exercises jsonb NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(exercises) = 'array'),
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS workout_assignments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  template_id uuid REFERENCES workout_templates(id) ON DELETE CASCADE NOT NULL,
+  team_id uuid REFERENCES teams(id) ON DELETE CASCADE NOT NULL,
+  due_on date NOT NULL,
+  notes text,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS workouts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  athlete_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL DEFAULT auth.uid(),
+  -- Set when the workout completes a coach's assignment
+  assignment_id uuid REFERENCES workout_assignments(id) ON DELETE SET NULL,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  performed_on date NOT NULL,
+  duration_minutes integer NOT NULL CHECK (duration_minutes > 0),
+  rpe integer NOT NULL CHECK (rpe BETWEEN 1 AND 10),
+  notes text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS workout_sets (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  workout_id uuid REFERENCES workouts(id) ON DELETE CASCADE NOT NULL,
+  position integer NOT NULL,
+  exercise text NOT NULL CHECK (length(trim(exercise)) > 0),
+  reps integer CHECK (reps > 0),
+  -- In pounds
+  load numeric CHECK (load >= 0),
+  duration_seconds integer CHECK (duration_seconds > 0),
+  UNIQUE(workout_id, position)
+);
+
+CREATE INDEX IF NOT EXISTS idx_workout_templates_team ON workout_templates(team_id);
+CREATE INDEX IF NOT EXISTS idx_workout_assignments_team ON workout_assignments(team_id, due_on);
+CREATE INDEX IF NOT EXISTS idx_workouts_athlete ON workouts(athlete_id, performed_on);
+CREATE INDEX IF NOT EXISTS idx_workouts_assignment ON workouts(assignment_id);
+
+CREATE TRIGGER update_workout_templates_updated_at
+  BEFORE UPDATE ON workout_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_workouts_updated_at
+  BEFORE UPDATE ON workouts
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE workout_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE workout_assignments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE workouts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE workout_sets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their teams' workout templates"
+  ON workout_templates FOR SELECT
+  TO authenticated
+  USING (
+    team_id IN (SELECT my_team_ids())
+    OR team_id IN (SELECT my_managed_team_ids())
+  );
+
+CREATE POLICY "Coaches and admins can manage workout templates"
+  ON workout_templates FOR ALL
+  TO authenticated
+  USING (team_id IN (SELECT my_managed_team_ids()))
+  WITH CHECK (team_id IN (SELECT my_managed_team_ids()));
+
+CREATE POLICY "Members can view their teams' assigned workouts"
+  ON workout_assignments FOR SELECT
+  TO authenticated
+  USING (
+    team_id IN (SELECT my_team_ids())
+    OR team_id IN (SELECT my_managed_team_ids())
+  );
+
+-- Templates can only be assigned to the team they belong to
+CREATE POLICY "Coaches and admins can assign workouts"
+  ON workout_assignments FOR ALL
+  TO authenticated
+  USING (team_id IN (SELECT my_managed_team_ids()))
+  WITH CHECK (
+    team_id IN (SELECT my_managed_team_ids())
+    AND template_id IN (SELECT id FROM workout_templates WHERE workout_templates.team_id = workout_assignments.team_id)
+  );
+
+-- Athletes can only complete assignments of teams they play on
+CREATE POLICY "Athletes can manage their own workouts"
+  ON workouts FOR ALL
+  TO authenticated
+  USING (athlete_id = auth.uid())
+  WITH CHECK (
+    athlete_id = auth.uid()
+    AND (
+      assignment_id IS NULL
+      OR assignment_id IN (
+        SELECT id FROM workout_assignments WHERE team_id IN (SELECT my_team_ids('athlete'))
+      )
+    )
+  );
+
+CREATE POLICY "Coaches and admins can view their athletes' workouts"
+  ON workouts FOR SELECT
+  TO authenticated
+  USING (
+    athlete_id IN (
+      SELECT user_id FROM team_members
+      WHERE team_id IN (SELECT my_managed_team_ids())
+        AND role = 'athlete'
+    )
+  );
+
+-- Sets follow the workout they belong to
+CREATE POLICY "Users can view sets of workouts they can see"
+  ON workout_sets FOR SELECT
+  TO authenticated
+  USING (workout_id IN (SELECT id FROM workouts));
+
+CREATE POLICY "Athletes can manage sets of their own workouts"
+  ON workout_sets FOR ALL
+  TO authenticated
+  USING (workout_id IN (SELECT id FROM workouts WHERE athlete_id = auth.uid()))
+  WITH CHECK (workout_id IN (SELECT id FROM workouts WHERE athlete_id = auth.uid()));
+
+COMMENT ON TABLE workout_templates IS 'Reusable workouts a team''s coaches prescribe';
+COMMENT ON TABLE workout_assignments IS 'Workout templates assigned to a team for a date';
+COMMENT ON TABLE workouts IS 'Workouts athletes have logged, with duration and session RPE';
+COMMENT ON TABLE workout_sets IS 'Sets performed in a logged workout, in order';
@@ -0,0 +1,225 @@
+-- Practice plans
+--
+-- Drills are an organization-wide library that every coach can draw from,
+-- optionally tied to a sport and linked to a diagram or video. A practice
+-- plan sequences timed blocks, usually drills, and is attached to one
+-- practice on the team calendar. Plans saved as templates have no practice
+-- and can be copied into new plans.
+
+CREATE TABLE IF NOT EXISTS drills (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE NOT NULL,
+  -- NULL when the drill works for any sport
+  sport_id uuid REFERENCES sports(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  description text,
+  duration_minutes integer NOT NULL CHECK (duration_minutes > 0),
+  equipment text[] NOT NULL DEFAULT '{}',
+  -- Free-form tags such as "conditioning" or "footwork"
+  focus text[] NOT NULL DEFAULT '{}',
+  -- Link to a diagram image or video
+  media_url text CHECK (media_url ~ '^https?://'),
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS practice_plans (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id uuid REFERENCES teams(id) ON DELETE CASCADE NOT NULL,
+  -- The practice this plan is for; templates have none
+  event_id uuid REFERENCES events(id) ON DELETE CASCADE UNIQUE,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  notes text,
+  is_template boolean NOT NULL DEFAULT false,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (NOT (is_template AND event_id IS NOT NULL))
+);
+
+CREATE TABLE IF NOT EXISTS practice_plan_blocks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  plan_id uuid REFERENCES practice_plans(id) ON DELETE CASCADE NOT NULL,
+  -- Order within the plan, from 0
+  position smallint NOT NULL CHECK (position >= 0),
+  -- The name is copied from the drill so the plan survives the drill's removal
+  drill_id uuid REFERENCES drills(id) ON DELETE SET NULL,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  duration_minutes integer NOT NULL CHECK (duration_minutes > 0),
+  notes text,
+  UNIQUE(plan_id, position)
+);
+
+CREATE INDEX IF NOT EXISTS idx_drills_organization ON drills(organization_id, name);
+CREATE INDEX IF NOT EXISTS idx_practice_plans_team ON practice_plans(team_id, is_template);
+CREATE INDEX IF NOT EXISTS idx_practice_plan_blocks_drill ON practice_plan_blocks(drill_id);
+
+CREATE TRIGGER update_drills_updated_at
+  BEFORE UPDATE ON drills
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_practice_plans_updated_at
+  BEFORE UPDATE ON practice_plans
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE drills ENABLE ROW LEVEL SECURITY;
+ALTER TABLE practice_plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE practice_plan_blocks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their organization's drills"
+  ON drills FOR SELECT
+  TO authenticated
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM profiles WHERE id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Coaches and admins can manage their organization's drills"
+  ON drills FOR ALL
+  TO authenticated
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM profiles
+      WHERE id = auth.uid()
+        AND role IN ('coach', 'admin')
+    )
+  )
+  WITH CHECK (
+    organization_id IN (
+      SELECT organization_id FROM profiles
+      WHERE id = auth.uid()
+        AND role IN ('coach', 'admin')
+    )
+  );
+
+CREATE POLICY "Members can view their teams' practice plans"
+  ON practice_plans FOR SELECT
+  TO authenticated
+  USING (
+    team_id IN (SELECT my_team_ids())
+    OR team_id IN (SELECT my_managed_team_ids())
+  );
+
+CREATE POLICY "Coaches and admins can manage practice plans"
+  ON practice_plans FOR ALL
+  TO authenticated
+  USING (team_id IN (SELECT my_managed_team_ids()))
+  WITH CHECK (team_id IN (SELECT my_managed_team_ids()));
+
+CREATE POLICY "Members can view their teams' practice plan blocks"
+  ON practice_plan_blocks FOR SELECT
+  TO authenticated
+  USING (
+    plan_id IN (
+      SELECT id FROM practice_plans
+      WHERE team_id IN (SELECT my_team_ids())
+        OR team_id IN (SELECT my_managed_team_ids())
+    )
+  );
+
+CREATE POLICY "Coaches and admins can manage practice plan blocks"
+  ON practice_plan_blocks FOR ALL
+  TO authenticated
+  USING (
+    plan_id IN (
+      SELECT id FROM practice_plans WHERE team_id IN (SELECT my_managed_team_ids())
+    )
+  )
+  WITH CHECK (
+    plan_id IN (
+      SELECT id FROM practice_plans WHERE team_id IN (SELECT my_managed_team_ids())
+    )
+  );
+
+-- Create or replace a practice plan and its blocks in one step. p_blocks is
+-- an array of {drill_id, name, duration_minutes, notes} in running order.
+-- Returns the plan id.
+CREATE OR REPLACE FUNCTION save_practice_plan(
+  p_plan_id uuid,
+  p_team_id uuid,
+  p_event_id uuid,
+  p_name text,
+  p_notes text,
+  p_is_template boolean,
+  p_blocks jsonb
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _plan_id uuid := p_plan_id;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated';
+  END IF;
+
+  IF p_team_id NOT IN (SELECT my_managed_team_ids()) THEN
+    RAISE EXCEPTION 'not_authorized';
+  END IF;
+
+  IF p_event_id IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM events WHERE id = p_event_id AND team_id = p_team_id) THEN
+    RAISE EXCEPTION 'not_found';
+  END IF;
+
+  IF NULLIF(trim(p_name), '') IS NULL
+    OR jsonb_typeof(p_blocks) <> 'array'
+    OR jsonb_array_length(p_blocks) = 0
+    OR (p_is_template AND p_event_id IS NOT NULL)
+    OR EXISTS (
+      SELECT 1 FROM jsonb_array_elements(p_blocks) AS block
+      WHERE NULLIF(trim(block->>'name'), '') IS NULL
+        OR COALESCE((block->>'duration_minutes')::integer, 0) <= 0
+    ) THEN
+    RAISE EXCEPTION 'invalid_plan';
+  END IF;
+
+  IF _plan_id IS NULL THEN
+    IF p_event_id IS NOT NULL AND EXISTS (SELECT 1 FROM practice_plans WHERE event_id = p_event_id) THEN
+      RAISE EXCEPTION 'plan_exists';
+    END IF;
+
+    INSERT INTO practice_plans (team_id, event_id, name, notes, is_template)
+    VALUES (p_team_id, p_event_id, trim(p_name), NULLIF(trim(p_notes), ''), p_is_template)
+    RETURNING id INTO _plan_id;
+  ELSE
+    UPDATE practice_plans
+    SET name = trim(p_name),
+        notes = NULLIF(trim(p_notes), '')
+    WHERE id = _plan_id
+      AND team_id = p_team_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'not_found';
+    END IF;
+
+    DELETE FROM practice_plan_blocks WHERE plan_id = _plan_id;
+  END IF;
+
+  INSERT INTO practice_plan_blocks (plan_id, position, drill_id, name, duration_minutes, notes)
+  SELECT
+    _plan_id,
+    (block.ordinality - 1)::smallint,
+    NULLIF(block.value->>'drill_id', '')::uuid,
+    trim(block.value->>'name'),
+    (block.value->>'duration_minutes')::integer,
+    NULLIF(trim(block.value->>'notes'), '')
+  FROM jsonb_array_elements(p_blocks) WITH ORDINALITY AS block;
+
+  RETURN _plan_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION save_practice_plan(uuid, uuid, uuid, text, text, boolean, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION save_practice_plan(uuid, uuid, uuid, text, text, boolean, jsonb) TO authenticated;
+
+COMMENT ON TABLE drills IS 'Organization drill library used to build practice plans';
+COMMENT ON TABLE practice_plans IS 'Timed practice plans for a scheduled practice, or reusable templates';
+COMMENT ON TABLE practice_plan_blocks IS 'Ordered, timed blocks of a practice plan';
+COMMENT ON FUNCTION save_practice_plan(uuid, uuid, uuid, text, text, boolean, jsonb) IS 'Creates or replaces a practice plan and its blocks';
@@ -0,0 +1,76 @@
+-- Bowling scoresheets
+--
+-- A bowling match is a game on the team's schedule like any other. Each
+-- bowler's games in the match are scored ball by ball: frames holds one
+-- array of deliveries per frame, each with the pins it knocked down and
+-- whether it fouled or left a split. Baker games are bowled by the whole
+-- team, with the bowlers in lineup order taking turns frame by frame, so
+-- they have no single athlete.
+--
+-- The app scores the frames and writes each bowler's totals to game_stats,
+-- so averages, records and leaderboards work as they do for other sports.
+-- score is kept here too so series and team totals can be read directly.
+
+CREATE TABLE IF NOT EXISTS bowling_games (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  game_id uuid REFERENCES games(id) ON DELETE CASCADE NOT NULL,
+  -- NULL for baker games
+  athlete_id uuid REFERENCES profiles(id) ON DELETE CASCADE,
+  game_number smallint NOT NULL CHECK (game_number > 0),
+  -- Baker lineup in bowling order; frame n is bowled by bowler n mod count
+  bowlers uuid[] NOT NULL DEFAULT '{}',
+  frames jsonb NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(frames) = 'array'),
+  score integer CHECK (score BETWEEN 0 AND 300),
+  updated_by uuid REFERENCES profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK ((athlete_id IS NULL) = (cardinality(bowlers) > 0)),
+  UNIQUE NULLS NOT DISTINCT (game_id, athlete_id, game_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_bowling_games_athlete ON bowling_games(athlete_id);
+
+CREATE TRIGGER update_bowling_games_updated_at
+  BEFORE UPDATE ON bowling_games
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE bowling_games ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their teams' bowling games"
+  ON bowling_games FOR SELECT
+  TO authenticated
+  USING (
+    game_id IN (
+      SELECT id FROM games
+      WHERE team_id IN (SELECT my_team_ids())
+        OR team_id IN (SELECT my_managed_team_ids())
+    )
+  );
+
+-- Individual games can only be recorded for athletes on the match's team
+CREATE POLICY "Coaches and admins can manage bowling games"
+  ON bowling_games FOR ALL
+  TO authenticated
+  USING (
+    game_id IN (
+      SELECT id FROM games WHERE team_id IN (SELECT my_managed_team_ids())
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM games g
+      WHERE g.id = game_id
+        AND g.team_id IN (SELECT my_managed_team_ids())
+        AND (
+          athlete_id IS NULL
+          OR EXISTS (
+            SELECT 1 FROM team_members tm
+            WHERE tm.team_id = g.team_id
+              AND tm.user_id = athlete_id
+              AND tm.role = 'athlete'
+          )
+        )
+    )
+  );
+
+COMMENT ON TABLE bowling_games IS 'Frame-by-frame bowling scoresheets per bowler and baker game in a match';
@@ -0,0 +1,269 @@
+-- Golf courses, scorecards and handicaps
+--
+-- Courses are an organization-wide library. A course lists par and stroke
+-- index (the hole's handicap ranking) for each of its 9 or 18 holes, and
+-- each set of tees adds its yardages with the course and slope rating a
+-- handicap is calculated from.
+--
+-- A round is one player's hole-by-hole scorecard from a set of tees: strokes,
+-- putts and whether the drive found the fairway. Rounds in a team match are
+-- tied to the game on the schedule; practice and qualifying rounds have no
+-- game but still count toward the player's handicap index, which the app
+-- works out from the full round history. score holds the gross score once
+-- every hole is in.
+
+CREATE TABLE IF NOT EXISTS golf_courses (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  location text,
+  pars smallint[] NOT NULL CHECK (
+    cardinality(pars) IN (9, 18)
+    AND 3 <= ALL(pars)
+    AND 6 >= ALL(pars)
+  ),
+  -- 1 for the hardest hole, where handicap strokes are given first
+  stroke_indexes smallint[] NOT NULL,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (cardinality(stroke_indexes) = cardinality(pars))
+);
+
+CREATE TABLE IF NOT EXISTS golf_tees (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  course_id uuid REFERENCES golf_courses(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  yardages integer[] NOT NULL,
+  -- Ratings for the holes on the course, so 9-hole courses carry 9-hole ratings
+  course_rating numeric(4,1) NOT NULL CHECK (course_rating > 0),
+  slope_rating smallint NOT NULL CHECK (slope_rating BETWEEN 55 AND 155),
+  UNIQUE(course_id, name)
+);
+
+CREATE TABLE IF NOT EXISTS golf_rounds (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id uuid REFERENCES teams(id) ON DELETE CASCADE NOT NULL,
+  athlete_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  -- Tees with rounds cannot be removed, so handicaps stay reproducible
+  tee_id uuid REFERENCES golf_tees(id) ON DELETE RESTRICT NOT NULL,
+  -- The team match this round counted for, if any
+  game_id uuid REFERENCES games(id) ON DELETE CASCADE,
+  played_on date NOT NULL,
+  -- One {strokes, putts, fairway} object per hole; fairway is null on par 3s
+  holes jsonb NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(holes) = 'array'),
+  score integer CHECK (score > 0),
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE(game_id, athlete_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_golf_courses_organization ON golf_courses(organization_id, name);
+CREATE INDEX IF NOT EXISTS idx_golf_rounds_team ON golf_rounds(team_id, played_on);
+CREATE INDEX IF NOT EXISTS idx_golf_rounds_athlete ON golf_rounds(athlete_id, played_on);
+CREATE INDEX IF NOT EXISTS idx_golf_rounds_tee ON golf_rounds(tee_id);
+
+CREATE TRIGGER update_golf_courses_updated_at
+  BEFORE UPDATE ON golf_courses
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_golf_rounds_updated_at
+  BEFORE UPDATE ON golf_rounds
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE golf_courses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE golf_tees ENABLE ROW LEVEL SECURITY;
+ALTER TABLE golf_rounds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their organization's golf courses"
+  ON golf_courses FOR SELECT
+  TO authenticated
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM profiles WHERE id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Coaches and admins can delete their organization's golf courses"
+  ON golf_courses FOR DELETE
+  TO authenticated
+  USING (
+    organization_id IN (
+      SELECT organization_id FROM profiles
+      WHERE id = auth.uid()
+        AND role IN ('coach', 'admin')
+    )
+  );
+
+CREATE POLICY "Users can view their organization's golf tees"
+  ON golf_tees FOR SELECT
+  TO authenticated
+  USING (
+    course_id IN (
+      SELECT id FROM golf_courses
+      WHERE organization_id IN (
+        SELECT organization_id FROM profiles WHERE id = auth.uid()
+      )
+    )
+  );
+
+CREATE POLICY "Members can view their teams' golf rounds"
+  ON golf_rounds FOR SELECT
+  TO authenticated
+  USING (
+    team_id IN (SELECT my_team_ids())
+    OR team_id IN (SELECT my_managed_team_ids())
+  );
+
+-- Rounds can only be recorded for the team's athletes, in the team's matches
+CREATE POLICY "Coaches and admins can manage golf rounds"
+  ON golf_rounds FOR ALL
+  TO authenticated
+  USING (team_id IN (SELECT my_managed_team_ids()))
+  WITH CHECK (
+    team_id IN (SELECT my_managed_team_ids())
+    AND EXISTS (
+      SELECT 1 FROM team_members
+      WHERE team_members.team_id = golf_rounds.team_id
+        AND team_members.user_id = athlete_id
+        AND team_members.role = 'athlete'
+    )
+    AND (
+      game_id IS NULL
+      OR EXISTS (SELECT 1 FROM games WHERE games.id = game_id AND games.team_id = golf_rounds.team_id)
+    )
+  );
+
+-- Create or update a course and its tees in one step. p_tees is an array of
+-- {id, name, yardages, course_rating, slope_rating}; tees without an id are
+-- added and tees left out are removed, unless rounds were played from them.
+-- Returns the course id.
+CREATE OR REPLACE FUNCTION save_golf_course(
+  p_course_id uuid,
+  p_name text,
+  p_location text,
+  p_pars smallint[],
+  p_stroke_indexes smallint[],
+  p_tees jsonb
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _organization_id uuid;
+  _course_id uuid := p_course_id;
+  _holes integer := cardinality(p_pars);
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated';
+  END IF;
+
+  SELECT organization_id INTO _organization_id
+  FROM profiles
+  WHERE id = auth.uid()
+    AND role IN ('coach', 'admin');
+
+  IF _organization_id IS NULL THEN
+    RAISE EXCEPTION 'not_authorized';
+  END IF;
+
+  IF NULLIF(trim(p_name), '') IS NULL
+    OR _holes NOT IN (9, 18)
+    OR cardinality(p_stroke_indexes) <> _holes
+    -- Stroke indexes must rank every hole exactly once
+    OR (SELECT array_agg(value ORDER BY value) FROM unnest(p_stroke_indexes) AS value)
+      <> (SELECT array_agg(value::smallint) FROM generate_series(1, _holes) AS value)
+    OR jsonb_typeof(p_tees) <> 'array'
+    OR jsonb_array_length(p_tees) = 0
+    OR EXISTS (
+      SELECT 1 FROM jsonb_array_elements(p_tees) AS tee
+      WHERE NULLIF(trim(tee->>'name'), '') IS NULL
+        OR jsonb_typeof(tee->'yardages') <> 'array'
+        OR jsonb_array_length(tee->'yardages') <> _holes
+    ) THEN
+    RAISE EXCEPTION 'invalid_course';
+  END IF;
+
+  IF _course_id IS NULL THEN
+    INSERT INTO golf_courses (organization_id, name, location, pars, stroke_indexes)
+    VALUES (_organization_id, trim(p_name), NULLIF(trim(p_location), ''), p_pars, p_stroke_indexes)
+    RETURNING id INTO _course_id;
+  ELSE
+    -- Changing the holes would leave existing scorecards the wrong length
+    IF EXISTS (
+      SELECT 1 FROM golf_rounds r
+      JOIN golf_tees t ON t.id = r.tee_id
+      JOIN golf_courses c ON c.id = t.course_id
+      WHERE c.id = _course_id
+        AND cardinality(c.pars) <> _holes
+    ) THEN
+      RAISE EXCEPTION 'course_in_use';
+    END IF;
+
+    UPDATE golf_courses
+    SET name = trim(p_name),
+        location = NULLIF(trim(p_location), ''),
+        pars = p_pars,
+        stroke_indexes = p_stroke_indexes
+    WHERE id = _course_id
+      AND organization_id = _organization_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'not_found';
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM golf_tees t
+      WHERE t.course_id = _course_id
+        AND t.id NOT IN (
+          SELECT (tee->>'id')::uuid FROM jsonb_array_elements(p_tees) AS tee
+          WHERE NULLIF(tee->>'id', '') IS NOT NULL
+        )
+        AND EXISTS (SELECT 1 FROM golf_rounds WHERE tee_id = t.id)
+    ) THEN
+      RAISE EXCEPTION 'tee_in_use';
+    END IF;
+
+    DELETE FROM golf_tees t
+    WHERE t.course_id = _course_id
+      AND t.id NOT IN (
+        SELECT (tee->>'id')::uuid FROM jsonb_array_elements(p_tees) AS tee
+        WHERE NULLIF(tee->>'id', '') IS NOT NULL
+      );
+
+    UPDATE golf_tees t
+    SET name = trim(tee->>'name'),
+        yardages = ARRAY(SELECT jsonb_array_elements_text(tee->'yardages')::integer),
+        course_rating = (tee->>'course_rating')::numeric,
+        slope_rating = (tee->>'slope_rating')::smallint
+    FROM jsonb_array_elements(p_tees) AS tee
+    WHERE t.course_id = _course_id
+      AND t.id = NULLIF(tee->>'id', '')::uuid;
+  END IF;
+
+  INSERT INTO golf_tees (course_id, name, yardages, course_rating, slope_rating)
+  SELECT
+    _course_id,
+    trim(tee->>'name'),
+    ARRAY(SELECT jsonb_array_elements_text(tee->'yardages')::integer),
+    (tee->>'course_rating')::numeric,
+    (tee->>'slope_rating')::smallint
+  FROM jsonb_array_elements(p_tees) AS tee
+  WHERE NULLIF(tee->>'id', '') IS NULL;
+
+  RETURN _course_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION save_golf_course(uuid, text, text, smallint[], smallint[], jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION save_golf_course(uuid, text, text, smallint[], smallint[], jsonb) TO authenticated;
+
+COMMENT ON TABLE golf_courses IS 'Organization golf course library with par and stroke index per hole';
+COMMENT ON TABLE golf_tees IS 'Tees of a golf course with yardages, course rating and slope rating';
+COMMENT ON TABLE golf_rounds IS 'Hole-by-hole golf scorecards for practice rounds and team matches';
+COMMENT ON FUNCTION save_golf_course(uuid, text, text, smallint[], smallint[], jsonb) IS 'Creates or updates a golf course and its tees';
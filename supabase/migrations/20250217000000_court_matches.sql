@@ -0,0 +1,79 @@
+-- Tennis and pickleball court matches
+--
+-- A dual match against another school is a game on the schedule like any
+-- other. Each court within it, e.g. #1 singles or #2 doubles, is scored
+-- point by point: points holds every point in order with who won it and,
+-- optionally, how (an ace, a double fault, a return winner and so on).
+-- The app replays the points under the court's rules to work out games,
+-- sets and who is serving, so a mistaken point is fixed by removing it.
+--
+-- players are our athletes in serving order; opponents are names only.
+-- winner and score are kept here so dual match results can be read
+-- directly, and each player's totals are written to game_stats.
+
+CREATE TABLE IF NOT EXISTS court_matches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  game_id uuid REFERENCES games(id) ON DELETE CASCADE NOT NULL,
+  format text NOT NULL CHECK (format IN ('singles', 'doubles')),
+  -- Court or flight number, 1 for the top line
+  line smallint NOT NULL CHECK (line > 0),
+  players uuid[] NOT NULL,
+  opponents text[] NOT NULL DEFAULT '{}',
+  -- Scoring format: sets, tiebreaks and no-ad for tennis; game count,
+  -- target score and rally or side-out scoring for pickleball
+  rules jsonb NOT NULL CHECK (jsonb_typeof(rules) = 'object'),
+  first_server text NOT NULL CHECK (first_server IN ('us', 'them')),
+  -- One {winner, outcome} object per point, in the order played
+  points jsonb NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(points) = 'array'),
+  winner text CHECK (winner IN ('us', 'them')),
+  -- Set or game scores from our side, e.g. "6-4 3-6 [10-7]"
+  score text,
+  updated_by uuid REFERENCES profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (cardinality(players) = CASE format WHEN 'singles' THEN 1 ELSE 2 END),
+  UNIQUE(game_id, format, line)
+);
+
+CREATE INDEX IF NOT EXISTS idx_court_matches_players ON court_matches USING gin(players);
+
+CREATE TRIGGER update_court_matches_updated_at
+  BEFORE UPDATE ON court_matches
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE court_matches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their teams' court matches"
+  ON court_matches FOR SELECT
+  TO authenticated
+  USING (
+    game_id IN (
+      SELECT id FROM games
+      WHERE team_id IN (SELECT my_team_ids())
+        OR team_id IN (SELECT my_managed_team_ids())
+    )
+  );
+
+-- Only athletes on the dual match's team can be put on a court
+CREATE POLICY "Coaches and admins can manage court matches"
+  ON court_matches FOR ALL
+  TO authenticated
+  USING (
+    game_id IN (
+      SELECT id FROM games WHERE team_id IN (SELECT my_managed_team_ids())
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM games g
+      WHERE g.id = game_id
+        AND g.team_id IN (SELECT my_managed_team_ids())
+        AND players <@ ARRAY(
+          SELECT tm.user_id FROM team_members tm
+          WHERE tm.team_id = g.team_id
+            AND tm.role = 'athlete'
+        )
+    )
+  );
+
+COMMENT ON TABLE court_matches IS 'Point-by-point tennis and pickleball court matches within a dual match';
@@ -0,0 +1,75 @@
+-- Baseball and softball scorebooks
+--
+-- A scorebook belongs to a game on the team's schedule. It holds the
+-- starting lineup and pitcher, then every play in order: plate appearances
+-- with their pitch count, result and where each runner ended up, runners
+-- moving between pitches (steals, wild pitches, pickoffs), substitutions
+-- and pitching changes. The app replays the plays to work out innings,
+-- outs, bases and the line score, so a mistaken play is fixed by removing
+-- it.
+--
+-- Only our side is named: lineup holds our batting order as
+-- {athleteId, position} objects, and opposing batters are tracked by
+-- their spot in the order. Each player's batting, pitching and fielding
+-- line is written to game_stats, and the runs to the game's score.
+
+CREATE TABLE IF NOT EXISTS scorebooks (
+  game_id uuid PRIMARY KEY REFERENCES games(id) ON DELETE CASCADE,
+  -- Innings in a regulation game
+  innings smallint NOT NULL CHECK (innings BETWEEN 1 AND 9),
+  -- Whether we bat in the top of each inning
+  bats_first boolean NOT NULL,
+  lineup jsonb NOT NULL CHECK (jsonb_typeof(lineup) = 'array' AND jsonb_array_length(lineup) > 0),
+  starting_pitcher uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  -- Spots in the opposing batting order
+  opponent_batters smallint NOT NULL DEFAULT 9 CHECK (opponent_batters BETWEEN 1 AND 15),
+  -- One object per play, in the order played
+  plays jsonb NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(plays) = 'array'),
+  updated_by uuid REFERENCES profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_scorebooks_starting_pitcher ON scorebooks(starting_pitcher);
+
+CREATE TRIGGER update_scorebooks_updated_at
+  BEFORE UPDATE ON scorebooks
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE scorebooks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their teams' scorebooks"
+  ON scorebooks FOR SELECT
+  TO authenticated
+  USING (
+    game_id IN (
+      SELECT id FROM games
+      WHERE team_id IN (SELECT my_team_ids())
+        OR team_id IN (SELECT my_managed_team_ids())
+    )
+  );
+
+-- The starting pitcher must be an athlete on the game's team
+CREATE POLICY "Coaches and admins can manage scorebooks"
+  ON scorebooks FOR ALL
+  TO authenticated
+  USING (
+    game_id IN (
+      SELECT id FROM games WHERE team_id IN (SELECT my_managed_team_ids())
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM games g
+      WHERE g.id = game_id
+        AND g.team_id IN (SELECT my_managed_team_ids())
+        AND EXISTS (
+          SELECT 1 FROM team_members tm
+          WHERE tm.team_id = g.team_id
+            AND tm.user_id = starting_pitcher
+            AND tm.role = 'athlete'
+        )
+    )
+  );
+
+COMMENT ON TABLE scorebooks IS 'Play-by-play baseball and softball scorebooks, one per game';
@@ -0,0 +1,121 @@
+-- Swim meet results and time standards
+--
+-- A meet is a game on the team's schedule. Each result is one swim in an
+-- event, named by stroke and distance in the course of the pool: short
+-- course yards, short course meters or long course meters. Individual
+-- swims name the swimmer; relays list their four legs as
+-- {athleteId, split} objects instead. A result can be entered with only a
+-- seed time before the meet, and gets its final time, cumulative splits,
+-- place and points once swum. Times are whole hundredths of a second.
+--
+-- Time standards are a team's qualifying cuts, such as a state meet's, for
+-- one course: cuts maps event keys like "free_100" or "medley_200_relay"
+-- to the time to beat. Best times and course conversions are worked out in
+-- the app from the result history.
+
+CREATE TABLE IF NOT EXISTS swim_results (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id uuid REFERENCES teams(id) ON DELETE CASCADE NOT NULL,
+  game_id uuid REFERENCES games(id) ON DELETE CASCADE NOT NULL,
+  -- medley is the individual medley, or a medley relay
+  stroke text NOT NULL CHECK (stroke IN ('free', 'back', 'breast', 'fly', 'medley')),
+  distance smallint NOT NULL CHECK (distance > 0),
+  relay boolean NOT NULL DEFAULT false,
+  course text NOT NULL CHECK (course IN ('SCY', 'SCM', 'LCM')),
+  athlete_id uuid REFERENCES profiles(id) ON DELETE CASCADE,
+  legs jsonb NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(legs) = 'array'),
+  seed_time integer CHECK (seed_time > 0),
+  time integer CHECK (time > 0),
+  -- Cumulative time at each 50
+  splits jsonb NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(splits) = 'array'),
+  place smallint CHECK (place > 0),
+  points numeric(5,1) CHECK (points >= 0),
+  disqualified boolean NOT NULL DEFAULT false,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (
+    CASE WHEN relay
+      THEN athlete_id IS NULL AND jsonb_array_length(legs) = 4
+      ELSE athlete_id IS NOT NULL AND jsonb_array_length(legs) = 0
+    END
+  ),
+  UNIQUE(game_id, athlete_id, stroke, distance)
+);
+
+CREATE TABLE IF NOT EXISTS swim_time_standards (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id uuid REFERENCES teams(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  course text NOT NULL CHECK (course IN ('SCY', 'SCM', 'LCM')),
+  cuts jsonb NOT NULL DEFAULT '{}'::jsonb CHECK (jsonb_typeof(cuts) = 'object'),
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE(team_id, name, course)
+);
+
+CREATE INDEX IF NOT EXISTS idx_swim_results_team ON swim_results(team_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_swim_results_game ON swim_results(game_id);
+CREATE INDEX IF NOT EXISTS idx_swim_results_athlete ON swim_results(athlete_id);
+
+CREATE TRIGGER update_swim_results_updated_at
+  BEFORE UPDATE ON swim_results
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_swim_time_standards_updated_at
+  BEFORE UPDATE ON swim_time_standards
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE swim_results ENABLE ROW LEVEL SECURITY;
+ALTER TABLE swim_time_standards ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their teams' swim results"
+  ON swim_results FOR SELECT
+  TO authenticated
+  USING (
+    team_id IN (SELECT my_team_ids())
+    OR team_id IN (SELECT my_managed_team_ids())
+  );
+
+-- Results can only be recorded for the team's athletes, in the team's meets
+CREATE POLICY "Coaches and admins can manage swim results"
+  ON swim_results FOR ALL
+  TO authenticated
+  USING (team_id IN (SELECT my_managed_team_ids()))
+  WITH CHECK (
+    team_id IN (SELECT my_managed_team_ids())
+    AND EXISTS (SELECT 1 FROM games WHERE games.id = game_id AND games.team_id = swim_results.team_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM (
+        SELECT athlete_id AS swimmer WHERE athlete_id IS NOT NULL
+        UNION ALL
+        SELECT (leg->>'athleteId')::uuid FROM jsonb_array_elements(legs) AS leg
+      ) AS swimmers
+      WHERE NOT EXISTS (
+        SELECT 1 FROM team_members
+        WHERE team_members.team_id = swim_results.team_id
+          AND team_members.user_id = swimmers.swimmer
+          AND team_members.role = 'athlete'
+      )
+    )
+  );
+
+CREATE POLICY "Members can view their teams' time standards"
+  ON swim_time_standards FOR SELECT
+  TO authenticated
+  USING (
+    team_id IN (SELECT my_team_ids())
+    OR team_id IN (SELECT my_managed_team_ids())
+  );
+
+CREATE POLICY "Coaches and admins can manage time standards"
+  ON swim_time_standards FOR ALL
+  TO authenticated
+  USING (team_id IN (SELECT my_managed_team_ids()))
+  WITH CHECK (team_id IN (SELECT my_managed_team_ids()));
+
+COMMENT ON TABLE swim_results IS 'Individual and relay swims in a meet with seed time, final time, splits, place and points';
+COMMENT ON TABLE swim_time_standards IS 'Team qualifying time standards for one pool course, by event';